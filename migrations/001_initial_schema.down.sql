@@ -0,0 +1,4 @@
+-- Banking Transaction API - Revert Initial Schema
+DROP TABLE IF EXISTS transactions;
+DROP TABLE IF EXISTS accounts;
+DROP TABLE IF EXISTS users;
@@ -1,10 +1,7 @@
 -- Banking Transaction API - Initial Schema Migration
 -- This script creates the initial database schema for the banking system
 -- Note: Seed data is in scripts/seed.ts
-
--- Create database if it doesn't exist
-CREATE DATABASE IF NOT EXISTS banking_system CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
-USE banking_system;
+-- The migration runner creates and selects the database named by DB_NAME
 
 -- Users Table
 -- Stores user authentication information
@@ -61,6 +58,3 @@ CREATE TABLE IF NOT EXISTS transactions (
     INDEX idx_type (type)
     
 ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
-
--- Show created tables
-SHOW TABLES;
\ No newline at end of file
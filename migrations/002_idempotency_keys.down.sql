@@ -0,0 +1,2 @@
+-- Banking Transaction API - Revert Idempotency Keys
+DROP TABLE IF EXISTS idempotency_keys;
@@ -0,0 +1,5 @@
+-- Banking Transaction API - Revert Double-Entry Ledger
+-- Balances stay on accounts; only the journal is dropped
+DROP TABLE IF EXISTS ledger_postings;
+DROP TABLE IF EXISTS journal_entries;
+DROP TABLE IF EXISTS system_accounts;
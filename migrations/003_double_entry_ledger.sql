@@ -0,0 +1,65 @@
+-- Banking Transaction API - Double-Entry Ledger
+-- Every completed transaction writes a journal entry whose postings sum to zero.
+-- Posting amounts are signed from the account holder's point of view:
+-- positive = credit (balance increases), negative = debit (balance decreases).
+
+-- System Accounts Table
+-- Internal counterparties for money entering or leaving the bank
+CREATE TABLE IF NOT EXISTS system_accounts (
+    id BIGINT PRIMARY KEY AUTO_INCREMENT,
+    code VARCHAR(30) UNIQUE NOT NULL,
+    name VARCHAR(100) NOT NULL,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
+
+INSERT IGNORE INTO system_accounts (code, name) VALUES
+    ('CASH_IN', 'Cash deposits'),
+    ('CASH_OUT', 'Cash withdrawals'),
+    ('OPENING_BALANCE', 'Opening balances');
+
+-- Journal Entries Table
+-- One balanced entry per completed transaction (or opening balance import)
+CREATE TABLE IF NOT EXISTS journal_entries (
+    id BIGINT PRIMARY KEY AUTO_INCREMENT,
+    transaction_id VARCHAR(36) NULL UNIQUE,
+    description VARCHAR(255) NOT NULL,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+
+    FOREIGN KEY (transaction_id) REFERENCES transactions(transaction_id)
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
+
+-- Ledger Postings Table
+-- Each posting moves money on exactly one customer or system account
+CREATE TABLE IF NOT EXISTS ledger_postings (
+    id BIGINT PRIMARY KEY AUTO_INCREMENT,
+    journal_entry_id BIGINT NOT NULL,
+    account_id BIGINT NULL,
+    system_account_id BIGINT NULL,
+    amount DECIMAL(15,2) NOT NULL,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+
+    FOREIGN KEY (journal_entry_id) REFERENCES journal_entries(id),
+    FOREIGN KEY (account_id) REFERENCES accounts(id),
+    FOREIGN KEY (system_account_id) REFERENCES system_accounts(id),
+
+    INDEX idx_journal_entry (journal_entry_id),
+    INDEX idx_account (account_id),
+    INDEX idx_system_account (system_account_id),
+
+    CONSTRAINT chk_single_ledger_account CHECK ((account_id IS NULL) <> (system_account_id IS NULL)),
+    CONSTRAINT chk_posting_non_zero CHECK (amount <> 0)
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
+
+-- Opening balances for accounts that existed before the ledger
+INSERT INTO journal_entries (description) VALUES ('Opening balances');
+SET @opening_entry_id = LAST_INSERT_ID();
+
+INSERT INTO ledger_postings (journal_entry_id, account_id, amount)
+SELECT @opening_entry_id, id, balance FROM accounts WHERE balance <> 0;
+
+INSERT INTO ledger_postings (journal_entry_id, system_account_id, amount)
+SELECT @opening_entry_id, sa.id, -SUM(a.balance)
+FROM accounts a
+JOIN system_accounts sa ON sa.code = 'OPENING_BALANCE'
+WHERE a.balance <> 0
+GROUP BY sa.id;
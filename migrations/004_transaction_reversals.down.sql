@@ -0,0 +1,12 @@
+-- Banking Transaction API - Revert Transaction Reversals
+-- Fails while reversal transactions or reversed statuses exist
+ALTER TABLE transactions
+    DROP CHECK chk_reversed_amount,
+    DROP FOREIGN KEY fk_original_transaction;
+
+ALTER TABLE transactions
+    DROP INDEX idx_original_transaction,
+    DROP COLUMN reversed_amount,
+    DROP COLUMN original_transaction_id,
+    MODIFY COLUMN type ENUM('deposit', 'withdrawal', 'transfer') NOT NULL,
+    MODIFY COLUMN status ENUM('completed', 'failed') NOT NULL;
@@ -0,0 +1,12 @@
+-- Banking Transaction API - Transaction Reversals
+-- A reversal is a compensating transaction linked to the original through original_transaction_id.
+-- The original keeps a running reversed_amount and moves to 'partially_reversed' or 'reversed'.
+
+ALTER TABLE transactions
+    MODIFY COLUMN type ENUM('deposit', 'withdrawal', 'transfer', 'reversal') NOT NULL,
+    MODIFY COLUMN status ENUM('completed', 'failed', 'reversed', 'partially_reversed') NOT NULL,
+    ADD COLUMN original_transaction_id VARCHAR(36) NULL AFTER destination_account_id,
+    ADD COLUMN reversed_amount DECIMAL(15,2) NOT NULL DEFAULT 0.00 AFTER original_transaction_id,
+    ADD CONSTRAINT fk_original_transaction FOREIGN KEY (original_transaction_id) REFERENCES transactions(transaction_id),
+    ADD INDEX idx_original_transaction (original_transaction_id),
+    ADD CONSTRAINT chk_reversed_amount CHECK (reversed_amount = 0 OR reversed_amount <= amount);
@@ -0,0 +1,2 @@
+-- Banking Transaction API - Revert Authorization Holds
+DROP TABLE IF EXISTS holds;
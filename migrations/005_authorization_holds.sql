@@ -0,0 +1,27 @@
+-- Banking Transaction API - Authorization Holds
+-- A hold reserves funds against an account's available balance without moving them.
+-- Lifecycle: held -> captured (creates a completed transaction) | voided | expired
+
+CREATE TABLE IF NOT EXISTS holds (
+    id BIGINT PRIMARY KEY AUTO_INCREMENT,
+    hold_id VARCHAR(36) UNIQUE NOT NULL,
+    account_id BIGINT NOT NULL,
+    destination_account_id BIGINT NULL,
+    amount DECIMAL(15,2) NOT NULL,
+    captured_amount DECIMAL(15,2) NULL,
+    status ENUM('held', 'captured', 'voided', 'expired') NOT NULL DEFAULT 'held',
+    transaction_id VARCHAR(36) NULL,
+    expires_at TIMESTAMP NOT NULL,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+
+    FOREIGN KEY (account_id) REFERENCES accounts(id),
+    FOREIGN KEY (destination_account_id) REFERENCES accounts(id),
+    FOREIGN KEY (transaction_id) REFERENCES transactions(transaction_id),
+
+    INDEX idx_hold_id (hold_id),
+    INDEX idx_account_active (account_id, status, expires_at),
+
+    CONSTRAINT chk_hold_amount_positive CHECK (amount > 0),
+    CONSTRAINT chk_captured_within_hold CHECK (captured_amount IS NULL OR captured_amount <= amount)
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
@@ -0,0 +1,3 @@
+-- Banking Transaction API - Revert Scheduled Transfers
+DROP TABLE IF EXISTS schedule_runs;
+DROP TABLE IF EXISTS schedules;
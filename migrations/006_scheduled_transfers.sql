@@ -0,0 +1,49 @@
+-- Banking Transaction API - Scheduled and Recurring Transfers
+-- A schedule is a standing order owned by the user who owns the source account.
+-- Workers lease due schedules (locked_by / locked_until) so concurrent server instances
+-- never pick up the same schedule, and every execution is recorded in schedule_runs.
+
+CREATE TABLE IF NOT EXISTS schedules (
+    id BIGINT PRIMARY KEY AUTO_INCREMENT,
+    schedule_id VARCHAR(36) UNIQUE NOT NULL,
+    user_id BIGINT NOT NULL,
+    source_account_id BIGINT NOT NULL,
+    destination_account_id BIGINT NOT NULL,
+    amount DECIMAL(15,2) NOT NULL,
+    frequency ENUM('once', 'daily', 'weekly', 'monthly') NOT NULL,
+    start_at TIMESTAMP NOT NULL,
+    end_at TIMESTAMP NULL,
+    next_run_at TIMESTAMP NULL,
+    status ENUM('active', 'paused', 'cancelled', 'completed') NOT NULL DEFAULT 'active',
+    run_count INT NOT NULL DEFAULT 0,
+    locked_by VARCHAR(100) NULL,
+    locked_until TIMESTAMP NULL,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+
+    FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE,
+    FOREIGN KEY (source_account_id) REFERENCES accounts(id),
+    FOREIGN KEY (destination_account_id) REFERENCES accounts(id),
+
+    INDEX idx_schedule_id (schedule_id),
+    INDEX idx_user_id (user_id),
+    INDEX idx_due (status, next_run_at),
+
+    CONSTRAINT chk_schedule_amount_positive CHECK (amount > 0)
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
+
+CREATE TABLE IF NOT EXISTS schedule_runs (
+    id BIGINT PRIMARY KEY AUTO_INCREMENT,
+    schedule_id BIGINT NOT NULL,
+    scheduled_for TIMESTAMP NOT NULL,
+    transaction_id VARCHAR(36) NULL,
+    status ENUM('completed', 'failed') NOT NULL,
+    failure_reason VARCHAR(255) NULL,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+
+    FOREIGN KEY (schedule_id) REFERENCES schedules(id) ON DELETE CASCADE,
+    FOREIGN KEY (transaction_id) REFERENCES transactions(transaction_id),
+
+    UNIQUE KEY uq_schedule_occurrence (schedule_id, scheduled_for),
+    INDEX idx_transaction_id (transaction_id)
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
@@ -0,0 +1,13 @@
+-- Banking Transaction API - Revert Account Lifecycle
+ALTER TABLE transactions
+    DROP FOREIGN KEY fk_transaction_source_account,
+    DROP FOREIGN KEY fk_transaction_destination_account;
+
+ALTER TABLE transactions
+    ADD CONSTRAINT transactions_ibfk_1 FOREIGN KEY (source_account_id) REFERENCES accounts(id) ON DELETE SET NULL,
+    ADD CONSTRAINT transactions_ibfk_2 FOREIGN KEY (destination_account_id) REFERENCES accounts(id) ON DELETE SET NULL;
+
+ALTER TABLE accounts
+    DROP INDEX idx_account_status,
+    DROP COLUMN closed_at,
+    DROP COLUMN status;
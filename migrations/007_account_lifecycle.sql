@@ -0,0 +1,19 @@
+-- Banking Transaction API - Account Lifecycle
+-- Accounts move between 'active' and 'frozen' and end in 'closed'. Closed accounts are kept
+-- (never deleted) so their transactions, postings and statements stay intact.
+
+ALTER TABLE accounts
+    ADD COLUMN status ENUM('active', 'frozen', 'closed') NOT NULL DEFAULT 'active' AFTER balance,
+    ADD COLUMN closed_at TIMESTAMP NULL AFTER status,
+    ADD INDEX idx_account_status (status);
+
+-- ON DELETE SET NULL would silently detach transactions from a deleted account;
+-- refuse the delete instead so history can never be lost.
+-- (transactions_ibfk_1 / _2 are the names MySQL generated for the unnamed keys in 001)
+ALTER TABLE transactions
+    DROP FOREIGN KEY transactions_ibfk_1,
+    DROP FOREIGN KEY transactions_ibfk_2;
+
+ALTER TABLE transactions
+    ADD CONSTRAINT fk_transaction_source_account FOREIGN KEY (source_account_id) REFERENCES accounts(id) ON DELETE RESTRICT,
+    ADD CONSTRAINT fk_transaction_destination_account FOREIGN KEY (destination_account_id) REFERENCES accounts(id) ON DELETE RESTRICT;
@@ -0,0 +1,36 @@
+-- Banking Transaction API - Hashed API Keys
+-- Secrets are stored as salted SHA-256 hashes and looked up by a short public key id.
+-- A user can hold several keys, each with a label, an optional expiry and a revocation time.
+
+CREATE TABLE IF NOT EXISTS api_keys (
+    id BIGINT PRIMARY KEY AUTO_INCREMENT,
+    key_id CHAR(12) UNIQUE NOT NULL,
+    user_id BIGINT NOT NULL,
+    label VARCHAR(100) NOT NULL,
+    salt CHAR(32) NOT NULL,
+    secret_hash CHAR(64) NOT NULL,
+    expires_at TIMESTAMP NULL,
+    revoked_at TIMESTAMP NULL,
+    last_used_at TIMESTAMP NULL,
+    rotated_from CHAR(12) NULL,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+
+    FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE,
+    INDEX idx_api_key_user (user_id)
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
+
+-- Import the existing plaintext secrets. Their key id is derived from the secret
+-- (see src/utils/apiKey.ts) so clients can keep sending them unchanged until they rotate.
+INSERT INTO api_keys (key_id, user_id, label, salt, secret_hash)
+SELECT LEFT(SHA2(secret_key, 256), 12), id, 'Migrated key', LEFT(SHA2(CONCAT(UUID(), RAND()), 256), 32), ''
+FROM users;
+
+UPDATE api_keys k
+JOIN users u ON k.key_id = LEFT(SHA2(u.secret_key, 256), 12) AND k.user_id = u.id
+SET k.secret_hash = SHA2(CONCAT(k.salt, u.secret_key), 256)
+WHERE k.secret_hash = '';
+
+-- Drop the plaintext secrets
+ALTER TABLE users
+    DROP INDEX idx_secret_key,
+    DROP COLUMN secret_key;
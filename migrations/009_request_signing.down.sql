@@ -0,0 +1,9 @@
+-- Banking Transaction API - Revert Request Signing
+DROP TABLE IF EXISTS request_nonces;
+
+ALTER TABLE users
+    DROP COLUMN require_signed_requests;
+
+ALTER TABLE api_keys
+    DROP COLUMN require_signature,
+    DROP COLUMN signing_secret;
@@ -0,0 +1,20 @@
+-- Banking Transaction API - HMAC Request Signing
+-- Keys issued from now on keep an encrypted copy of their secret so signatures can be verified.
+-- Signing can be required for a single key or for every key of a user.
+-- request_nonces remembers nonces until the signature timestamp leaves the validity window.
+
+ALTER TABLE api_keys
+    ADD COLUMN signing_secret VARCHAR(255) NULL AFTER secret_hash,
+    ADD COLUMN require_signature BOOLEAN NOT NULL DEFAULT FALSE AFTER signing_secret;
+
+ALTER TABLE users
+    ADD COLUMN require_signed_requests BOOLEAN NOT NULL DEFAULT FALSE AFTER username;
+
+CREATE TABLE IF NOT EXISTS request_nonces (
+    key_id CHAR(12) NOT NULL,
+    nonce VARCHAR(64) NOT NULL,
+    expires_at TIMESTAMP NOT NULL,
+
+    PRIMARY KEY (key_id, nonce),
+    INDEX idx_nonce_expires (key_id, expires_at)
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
@@ -0,0 +1,9 @@
+-- Banking Transaction API - Revert User Roles
+ALTER TABLE accounts
+    DROP FOREIGN KEY fk_account_frozen_by;
+
+ALTER TABLE accounts
+    DROP COLUMN frozen_by;
+
+ALTER TABLE users
+    DROP COLUMN role;
@@ -0,0 +1,11 @@
+-- Banking Transaction API - Roles
+-- Every user has exactly one role. Existing users become customers;
+-- promote staff with e.g. UPDATE users SET role = 'admin' WHERE username = '...'.
+
+ALTER TABLE users
+    ADD COLUMN role ENUM('customer', 'support', 'auditor', 'admin') NOT NULL DEFAULT 'customer' AFTER username;
+
+-- Remember who froze an account so a customer cannot lift a freeze placed by staff
+ALTER TABLE accounts
+    ADD COLUMN frozen_by BIGINT NULL AFTER status,
+    ADD CONSTRAINT fk_account_frozen_by FOREIGN KEY (frozen_by) REFERENCES users(id);
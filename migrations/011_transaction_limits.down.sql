@@ -0,0 +1,13 @@
+-- Banking Transaction API - Revert Transaction Limits
+ALTER TABLE transactions
+    DROP INDEX idx_source_type_created,
+    DROP INDEX idx_destination_type_created;
+
+ALTER TABLE users
+    DROP FOREIGN KEY fk_user_kyc_tier;
+
+ALTER TABLE users
+    DROP COLUMN kyc_tier;
+
+DROP TABLE IF EXISTS transaction_limits;
+DROP TABLE IF EXISTS kyc_tiers;
@@ -0,0 +1,52 @@
+-- Banking Transaction API - Transaction Limits and KYC Tiers
+-- Every user is on a verification (KYC) tier. Each tier has one row of limits per transaction type:
+-- a per-transaction maximum plus rolling daily (24h) and monthly (30 day) totals per account and per user.
+-- NULL means unlimited. Change limits by updating transaction_limits; no deploy is needed.
+
+CREATE TABLE IF NOT EXISTS kyc_tiers (
+    code VARCHAR(20) PRIMARY KEY,
+    name VARCHAR(100) NOT NULL,
+    `rank` INT NOT NULL,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
+
+INSERT IGNORE INTO kyc_tiers (code, name, `rank`) VALUES
+    ('basic', 'Unverified', 1),
+    ('verified', 'Identity verified', 2),
+    ('enhanced', 'Enhanced due diligence', 3);
+
+CREATE TABLE IF NOT EXISTS transaction_limits (
+    kyc_tier VARCHAR(20) NOT NULL,
+    transaction_type ENUM('deposit', 'withdrawal', 'transfer') NOT NULL,
+    per_transaction_max DECIMAL(15,2) NULL,
+    daily_account_max DECIMAL(15,2) NULL,
+    monthly_account_max DECIMAL(15,2) NULL,
+    daily_user_max DECIMAL(15,2) NULL,
+    monthly_user_max DECIMAL(15,2) NULL,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+
+    PRIMARY KEY (kyc_tier, transaction_type),
+    FOREIGN KEY (kyc_tier) REFERENCES kyc_tiers(code)
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
+
+INSERT IGNORE INTO transaction_limits
+    (kyc_tier, transaction_type, per_transaction_max, daily_account_max, monthly_account_max, daily_user_max, monthly_user_max)
+VALUES
+    ('basic', 'deposit', 1000.00, 2000.00, 10000.00, 3000.00, 15000.00),
+    ('basic', 'withdrawal', 500.00, 1000.00, 5000.00, 1500.00, 7500.00),
+    ('basic', 'transfer', 1000.00, 2000.00, 10000.00, 3000.00, 15000.00),
+    ('verified', 'deposit', 10000.00, 20000.00, 100000.00, 30000.00, 150000.00),
+    ('verified', 'withdrawal', 5000.00, 10000.00, 50000.00, 15000.00, 75000.00),
+    ('verified', 'transfer', 10000.00, 20000.00, 100000.00, 30000.00, 150000.00),
+    ('enhanced', 'deposit', 100000.00, 250000.00, 1000000.00, 500000.00, 2000000.00),
+    ('enhanced', 'withdrawal', 100000.00, 250000.00, 1000000.00, 500000.00, 2000000.00),
+    ('enhanced', 'transfer', 100000.00, 250000.00, 1000000.00, 500000.00, 2000000.00);
+
+ALTER TABLE users
+    ADD COLUMN kyc_tier VARCHAR(20) NOT NULL DEFAULT 'basic' AFTER role,
+    ADD CONSTRAINT fk_user_kyc_tier FOREIGN KEY (kyc_tier) REFERENCES kyc_tiers(code);
+
+-- Rolling usage sums scan an account's recent transactions of one type
+ALTER TABLE transactions
+    ADD INDEX idx_source_type_created (source_account_id, type, created_at),
+    ADD INDEX idx_destination_type_created (destination_account_id, type, created_at);
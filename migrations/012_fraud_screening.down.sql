@@ -0,0 +1,6 @@
+-- Banking Transaction API - Revert Fraud Screening
+-- Fails while transactions are pending review
+DROP TABLE IF EXISTS fraud_reviews;
+
+ALTER TABLE transactions
+    MODIFY COLUMN status ENUM('completed', 'failed', 'reversed', 'partially_reversed') NOT NULL;
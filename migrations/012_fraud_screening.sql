@@ -0,0 +1,23 @@
+-- Banking Transaction API - Fraud Screening and Review Queue
+-- Transactions flagged by a screening rule are stored as 'pending_review' without moving money.
+-- Each gets a fraud_reviews row that an admin approves (the transaction is then applied)
+-- or rejects (the transaction is marked failed).
+
+ALTER TABLE transactions
+    MODIFY COLUMN status ENUM('completed', 'failed', 'reversed', 'partially_reversed', 'pending_review') NOT NULL;
+
+CREATE TABLE IF NOT EXISTS fraud_reviews (
+    id BIGINT PRIMARY KEY AUTO_INCREMENT,
+    review_id VARCHAR(36) UNIQUE NOT NULL,
+    transaction_id VARCHAR(36) UNIQUE NOT NULL,
+    rule_hits JSON NOT NULL,
+    status ENUM('pending', 'approved', 'rejected') NOT NULL DEFAULT 'pending',
+    reviewed_by BIGINT NULL,
+    review_note VARCHAR(255) NULL,
+    reviewed_at TIMESTAMP NULL,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+
+    FOREIGN KEY (transaction_id) REFERENCES transactions(transaction_id),
+    FOREIGN KEY (reviewed_by) REFERENCES users(id),
+    INDEX idx_review_status_created (status, created_at)
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
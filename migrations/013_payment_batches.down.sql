@@ -0,0 +1,3 @@
+-- Banking Transaction API - Revert Bulk Payment Files
+DROP TABLE IF EXISTS payment_batch_lines;
+DROP TABLE IF EXISTS payment_batches;
@@ -0,0 +1,43 @@
+-- Banking Transaction API - Bulk Payment File Import
+-- An uploaded CSV or pain.001 file becomes a payment batch with one row per payment line.
+-- Lines are validated on upload (status 'valid' or 'invalid') so the customer can preview them;
+-- confirming executes the valid lines and records the outcome and transaction of each.
+
+CREATE TABLE IF NOT EXISTS payment_batches (
+    id BIGINT PRIMARY KEY AUTO_INCREMENT,
+    batch_id VARCHAR(36) UNIQUE NOT NULL,
+    user_id BIGINT NOT NULL,
+    file_format ENUM('csv', 'pain001') NOT NULL,
+    file_reference VARCHAR(35) NULL,
+    mode ENUM('all_or_nothing', 'best_effort') NOT NULL,
+    status ENUM('previewed', 'processing', 'completed', 'partially_completed', 'failed', 'cancelled') NOT NULL DEFAULT 'previewed',
+    line_count INT NOT NULL,
+    valid_line_count INT NOT NULL,
+    total_amount DECIMAL(15,2) NOT NULL,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    confirmed_at TIMESTAMP NULL,
+    completed_at TIMESTAMP NULL,
+
+    FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE,
+    INDEX idx_user_created (user_id, created_at)
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
+
+CREATE TABLE IF NOT EXISTS payment_batch_lines (
+    id BIGINT PRIMARY KEY AUTO_INCREMENT,
+    batch_id BIGINT NOT NULL,
+    line_number INT NOT NULL,
+    reference VARCHAR(140) NULL,
+    type VARCHAR(20) NULL,
+    amount DECIMAL(15,2) NULL,
+    source_account_id BIGINT NULL,
+    destination_account_id BIGINT NULL,
+    status ENUM('valid', 'invalid', 'completed', 'failed', 'pending_review', 'not_executed') NOT NULL,
+    error VARCHAR(255) NULL,
+    transaction_id VARCHAR(36) NULL,
+
+    FOREIGN KEY (batch_id) REFERENCES payment_batches(id) ON DELETE CASCADE,
+    FOREIGN KEY (transaction_id) REFERENCES transactions(transaction_id),
+
+    UNIQUE KEY uq_batch_line (batch_id, line_number),
+    INDEX idx_transaction_id (transaction_id)
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
@@ -0,0 +1,4 @@
+-- Banking Transaction API - Revert Atomic Multi-Leg Batches
+ALTER TABLE transactions
+    DROP INDEX idx_batch_id,
+    DROP COLUMN batch_id;
@@ -0,0 +1,7 @@
+-- Banking Transaction API - Atomic Multi-Leg Batches
+-- Transactions submitted together share a batch_id: every leg commits in one database
+-- transaction, or every leg is recorded as failed.
+
+ALTER TABLE transactions
+    ADD COLUMN batch_id VARCHAR(36) NULL AFTER original_transaction_id,
+    ADD INDEX idx_batch_id (batch_id);
@@ -0,0 +1,4 @@
+-- Banking Transaction API - Revert Outbound Webhooks
+DROP TABLE IF EXISTS webhook_attempts;
+DROP TABLE IF EXISTS webhook_deliveries;
+DROP TABLE IF EXISTS webhook_endpoints;
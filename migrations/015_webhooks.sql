@@ -0,0 +1,57 @@
+-- Banking Transaction API - Outbound Webhooks
+-- Users register endpoints for transaction and balance events. Each event becomes one delivery
+-- per subscribed endpoint, signed with the endpoint's secret (stored encrypted) and retried with
+-- exponential backoff. Every HTTP attempt is kept in webhook_attempts.
+
+CREATE TABLE IF NOT EXISTS webhook_endpoints (
+    id BIGINT PRIMARY KEY AUTO_INCREMENT,
+    endpoint_id VARCHAR(36) UNIQUE NOT NULL,
+    user_id BIGINT NOT NULL,
+    url VARCHAR(2048) NOT NULL,
+    description VARCHAR(255) NULL,
+    events JSON NOT NULL,
+    secret VARCHAR(255) NOT NULL,
+    status ENUM('active', 'disabled') NOT NULL DEFAULT 'active',
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+
+    FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE,
+    INDEX idx_user_status (user_id, status)
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
+
+CREATE TABLE IF NOT EXISTS webhook_deliveries (
+    id BIGINT PRIMARY KEY AUTO_INCREMENT,
+    delivery_id VARCHAR(36) UNIQUE NOT NULL,
+    endpoint_id BIGINT NOT NULL,
+    event_id VARCHAR(36) NOT NULL,
+    event_type VARCHAR(50) NOT NULL,
+    payload JSON NOT NULL,
+    status ENUM('pending', 'delivered', 'failed') NOT NULL DEFAULT 'pending',
+    -- Attempts since the delivery was created or last replayed; drives the backoff
+    attempt_count INT NOT NULL DEFAULT 0,
+    next_attempt_at TIMESTAMP NULL DEFAULT CURRENT_TIMESTAMP,
+    last_attempt_at TIMESTAMP NULL,
+    delivered_at TIMESTAMP NULL,
+    locked_by VARCHAR(100) NULL,
+    locked_until TIMESTAMP NULL,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+
+    FOREIGN KEY (endpoint_id) REFERENCES webhook_endpoints(id) ON DELETE CASCADE,
+    UNIQUE KEY uk_endpoint_event (endpoint_id, event_id),
+    INDEX idx_due (status, next_attempt_at),
+    INDEX idx_endpoint_created (endpoint_id, created_at)
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
+
+CREATE TABLE IF NOT EXISTS webhook_attempts (
+    id BIGINT PRIMARY KEY AUTO_INCREMENT,
+    delivery_id BIGINT NOT NULL,
+    response_status INT NULL,
+    response_body VARCHAR(1000) NULL,
+    error VARCHAR(255) NULL,
+    duration_ms INT NOT NULL,
+    succeeded BOOLEAN NOT NULL,
+    attempted_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+
+    FOREIGN KEY (delivery_id) REFERENCES webhook_deliveries(id) ON DELETE CASCADE,
+    INDEX idx_delivery_attempted (delivery_id, attempted_at)
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
@@ -0,0 +1,3 @@
+-- Banking Transaction API - Revert Transactional Outbox
+DROP TABLE IF EXISTS outbox_relay_state;
+DROP TABLE IF EXISTS outbox_events;
@@ -0,0 +1,28 @@
+-- Banking Transaction API - Transactional Outbox
+-- Domain events are written in the same database transaction as the balance change they describe,
+-- so an event exists if and only if the change committed. The relay publishes them in order:
+-- it numbers each event (sequence) when it publishes it, which gives SSE clients a gap-free
+-- position to resume from with Last-Event-ID.
+
+CREATE TABLE IF NOT EXISTS outbox_events (
+    id BIGINT PRIMARY KEY AUTO_INCREMENT,
+    event_id VARCHAR(36) UNIQUE NOT NULL,
+    event_type VARCHAR(50) NOT NULL,
+    account_id BIGINT NOT NULL,
+    payload JSON NOT NULL,
+    sequence BIGINT NULL UNIQUE,
+    published_at TIMESTAMP NULL,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+
+    FOREIGN KEY (account_id) REFERENCES accounts(id),
+    INDEX idx_unpublished (published_at, id),
+    INDEX idx_account_sequence (account_id, sequence)
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
+
+-- A single row locked by the relay, so concurrent relays publish one at a time and sequences never interleave
+CREATE TABLE IF NOT EXISTS outbox_relay_state (
+    id TINYINT PRIMARY KEY,
+    last_sequence BIGINT NOT NULL DEFAULT 0
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
+
+INSERT IGNORE INTO outbox_relay_state (id, last_sequence) VALUES (1, 0);
@@ -0,0 +1,5 @@
+-- Banking Transaction API - Revert Audit Log
+-- Dropping the table discards the audit trail; export it first
+DROP TRIGGER IF EXISTS audit_log_no_delete;
+DROP TRIGGER IF EXISTS audit_log_no_update;
+DROP TABLE IF EXISTS audit_log;
@@ -0,0 +1,43 @@
+-- Banking Transaction API - Audit Log
+-- One row per API request and one per state change (transactions, account status, API keys, roles).
+-- The table is append-only: triggers reject every UPDATE and DELETE, whoever issues it.
+-- Actors are stored by id without foreign keys so entries outlive the users and keys they name.
+
+CREATE TABLE IF NOT EXISTS audit_log (
+    id BIGINT PRIMARY KEY AUTO_INCREMENT,
+    audit_id VARCHAR(36) UNIQUE NOT NULL,
+    category ENUM('request', 'state_change') NOT NULL,
+    action VARCHAR(64) NOT NULL,
+    actor_type ENUM('user', 'anonymous', 'system') NOT NULL,
+    actor_user_id BIGINT NULL,
+    actor_role VARCHAR(20) NULL,
+    actor_key_id VARCHAR(32) NULL,
+    ip VARCHAR(45) NULL,
+    user_agent VARCHAR(255) NULL,
+    request_id VARCHAR(64) NULL,
+    method VARCHAR(10) NULL,
+    path VARCHAR(255) NULL,
+    resource_type VARCHAR(32) NULL,
+    resource_id VARCHAR(64) NULL,
+    before_value JSON NULL,
+    after_value JSON NULL,
+    outcome ENUM('success', 'failure') NOT NULL,
+    status_code SMALLINT NULL,
+    error_code VARCHAR(64) NULL,
+    duration_ms INT NULL,
+    created_at TIMESTAMP(3) DEFAULT CURRENT_TIMESTAMP(3),
+
+    INDEX idx_created_at (created_at),
+    INDEX idx_actor (actor_user_id, id),
+    INDEX idx_resource (resource_type, resource_id, id),
+    INDEX idx_request_id (request_id),
+    INDEX idx_action (action, id)
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
+
+DROP TRIGGER IF EXISTS audit_log_no_update;
+CREATE TRIGGER audit_log_no_update BEFORE UPDATE ON audit_log FOR EACH ROW
+    SIGNAL SQLSTATE '45000' SET MESSAGE_TEXT = 'audit_log is append-only';
+
+DROP TRIGGER IF EXISTS audit_log_no_delete;
+CREATE TRIGGER audit_log_no_delete BEFORE DELETE ON audit_log FOR EACH ROW
+    SIGNAL SQLSTATE '45000' SET MESSAGE_TEXT = 'audit_log is append-only';
@@ -0,0 +1,7 @@
+-- Banking Transaction API - Revert Tamper-Evident Hash Chain
+DROP TABLE IF EXISTS transaction_chain_state;
+
+ALTER TABLE transactions
+    DROP COLUMN row_hash,
+    DROP COLUMN prev_hash,
+    DROP COLUMN chain_sequence;
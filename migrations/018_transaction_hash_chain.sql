@@ -0,0 +1,19 @@
+-- Banking Transaction API - Tamper-Evident Hash Chain
+-- Each transaction is linked into a chain once its outcome is final: row_hash is the SHA-256 of
+-- the previous link's hash and the row's canonical contents (see src/utils/transactionChain.ts).
+-- Altering, deleting or reordering a chained row breaks every later link. Rows held for fraud
+-- review are linked when the review decides them.
+
+ALTER TABLE transactions
+    ADD COLUMN chain_sequence BIGINT NULL UNIQUE AFTER failure_reason,
+    ADD COLUMN prev_hash CHAR(64) NULL AFTER chain_sequence,
+    ADD COLUMN row_hash CHAR(64) NULL AFTER prev_hash;
+
+-- The head of the chain, locked by every append so links are added one at a time
+CREATE TABLE IF NOT EXISTS transaction_chain_state (
+    id TINYINT PRIMARY KEY,
+    last_sequence BIGINT NOT NULL DEFAULT 0,
+    last_hash CHAR(64) NOT NULL
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
+
+INSERT IGNORE INTO transaction_chain_state (id, last_sequence, last_hash) VALUES (1, 0, REPEAT('0', 64));
@@ -0,0 +1,4 @@
+-- Banking Transaction API - Revert Balance After Each Transaction
+ALTER TABLE transactions
+    DROP COLUMN destination_balance_after,
+    DROP COLUMN source_balance_after;
@@ -0,0 +1,39 @@
+-- Banking Transaction API - Balance After Each Transaction
+-- The account history used to derive running balances from the current balance minus every row
+-- with a higher id. A transaction held for fraud review keeps its id when it settles later, so its
+-- amount changed the running balances already shown for the rows recorded before it settled.
+-- Each side of a transaction now stores its account's balance right after the transaction
+-- settled, or when it was recorded if no money moved.
+
+ALTER TABLE transactions
+    ADD COLUMN source_balance_after DECIMAL(15,2) NULL AFTER reversed_amount,
+    ADD COLUMN destination_balance_after DECIMAL(15,2) NULL AFTER source_balance_after;
+
+-- Existing rows keep the running balances the history showed for them so far
+CREATE TEMPORARY TABLE transaction_balances_after AS
+SELECT h.id, h.account_id,
+    a.balance - COALESCE(SUM(h.signed_amount) OVER (
+        PARTITION BY h.account_id ORDER BY h.id DESC ROWS BETWEEN UNBOUNDED PRECEDING AND 1 PRECEDING
+    ), 0) AS balance_after
+FROM (
+    SELECT t.id, acc.id AS account_id,
+        CASE
+            WHEN t.status IN ('failed', 'pending_review') THEN 0
+            WHEN t.source_account_id = acc.id AND t.destination_account_id = acc.id THEN 0
+            WHEN t.destination_account_id = acc.id THEN t.amount
+            ELSE -t.amount
+        END AS signed_amount
+    FROM transactions t
+    JOIN accounts acc ON acc.id IN (t.source_account_id, t.destination_account_id)
+) h
+JOIN accounts a ON a.id = h.account_id;
+
+UPDATE transactions t
+JOIN transaction_balances_after b ON b.id = t.id AND b.account_id = t.source_account_id
+SET t.source_balance_after = b.balance_after;
+
+UPDATE transactions t
+JOIN transaction_balances_after b ON b.id = t.id AND b.account_id = t.destination_account_id
+SET t.destination_balance_after = b.balance_after;
+
+DROP TEMPORARY TABLE transaction_balances_after;
@@ -0,0 +1,2 @@
+-- Banking Transaction API - Revert Stop Storing Webhook Response Bodies
+ALTER TABLE webhook_attempts ADD COLUMN response_body VARCHAR(1000) NULL AFTER response_status;
@@ -0,0 +1,6 @@
+-- Banking Transaction API - Stop Storing Webhook Response Bodies
+-- Attempts kept up to 1000 characters of whatever the endpoint answered and returned them to the
+-- endpoint's owner. An endpoint pointed at an internal service could read its responses that way,
+-- so only the status is kept now.
+
+ALTER TABLE webhook_attempts DROP COLUMN response_body;
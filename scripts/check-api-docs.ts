@@ -0,0 +1,37 @@
+/**
+ * API Documentation Check
+ * Generates the OpenAPI document served at /api/docs and fails when a route below /api has no
+ * entry in src/docs/operations.ts, documents no response schema, leaves a path parameter without
+ * a schema, or when a documented operation or schema reference points at nothing
+ *
+ * Usage: npm run check-docs -- [openapi.json]
+ * With a file name, the document is also written there (e.g. to import into Postman)
+ */
+
+import { writeFileSync } from "fs";
+import { buildOpenApiDocument, collectRoutes, findDocumentationProblems } from "../src/docs/openapi";
+
+const OUTPUT = process.argv[2];
+
+function main() {
+  const routes = collectRoutes();
+  const problems = findDocumentationProblems(routes);
+
+  if (problems.length > 0) {
+    for (const problem of problems) {
+      console.error(`❌ ${problem}`);
+    }
+    console.error(`\n${problems.length} documentation problems in ${routes.length} routes`);
+    process.exitCode = 1;
+    return;
+  }
+
+  if (OUTPUT) {
+    writeFileSync(OUTPUT, `${JSON.stringify(buildOpenApiDocument(routes), null, 2)}\n`);
+    console.log(`Wrote ${OUTPUT}`);
+  }
+
+  console.log(`✅ All ${routes.length} routes are documented`);
+}
+
+main();
@@ -1,79 +1,402 @@
 /**
  * Database Migration Script
- * Runs all SQL migrations from the migrations directory
+ * Applies and rolls back the versioned SQL migrations in migrations/, recording each applied
+ * version and the checksum of its file in the schema_migrations table
+ *
+ * Migrations are NNN_name.sql files, applied in version order; NNN_name.down.sql reverts one.
+ * A migration without a down file cannot be rolled back.
+ *
+ * Usage:
+ *   npm run migrate                          # apply every pending migration
+ *   npm run migrate -- up [--to N]           # apply pending migrations up to version N
+ *   npm run migrate -- down [--to N]         # roll back the latest migration, or every one above N (0 = all)
+ *   npm run migrate -- status                # list migrations with their state
+ *   npm run migrate -- baseline N            # record 1..N as applied without running them
+ *   Add --dry-run to up, down or baseline to print the plan without changing anything
  */
 
 import { config } from "dotenv";
-import mysql from "mysql2/promise";
-import { readFileSync } from "fs";
-import { join } from "path";
 
 // Load environment variables
 config();
 
-const DB_CONFIG = {
-  host: process.env.DB_HOST || "localhost",
-  user: process.env.DB_USER || "root",
-  password: process.env.DB_PASSWORD || "",
-  multipleStatements: true,
-};
+import mysql from "mysql2/promise";
+import { createHash } from "crypto";
+import { readFileSync, readdirSync } from "fs";
+import { join } from "path";
+import { databaseConfig } from "../src/config/database";
+
+const MIGRATIONS_DIR = join(__dirname, "..", "migrations");
+const UP_FILE = /^(\d+)_([a-z0-9_]+)\.sql$/;
+const DOWN_FILE = /^(\d+)_([a-z0-9_]+)\.down\.sql$/;
+const DATABASE_NAME = /^[A-Za-z0-9_$]+$/;
+const LOCK_NAME = "schema_migrations";
+const LOCK_TIMEOUT_SECONDS = 30;
+
+// MySQL commits implicitly around these, so files containing them cannot run in a transaction
+const DDL_STATEMENT = /^\s*(CREATE|ALTER|DROP|RENAME|TRUNCATE)\b/im;
+
+interface Migration {
+  version: number;
+  name: string;
+  upFile: string;
+  downFile: string | null;
+  checksum: string;
+}
+
+interface AppliedMigration {
+  version: number;
+  name: string;
+  checksum: string;
+  applied_at: Date;
+}
+
+interface Options {
+  command: string;
+  target: number | null;
+  dryRun: boolean;
+}
+
+/**
+ * Read the migration files, pairing each up file with its down file
+ */
+function discoverMigrations(): Migration[] {
+  const files = readdirSync(MIGRATIONS_DIR).sort();
+  const migrations = new Map<number, Migration>();
+
+  for (const file of files) {
+    const match = file.match(UP_FILE);
+    if (!match || DOWN_FILE.test(file)) {
+      continue;
+    }
+
+    const version = parseInt(match[1], 10);
+    if (migrations.has(version)) {
+      throw new Error(`Duplicate migration version ${version}: ${migrations.get(version)!.upFile} and ${file}`);
+    }
+
+    migrations.set(version, {
+      version,
+      name: match[2],
+      upFile: file,
+      downFile: null,
+      checksum: createHash("sha256").update(readFileSync(join(MIGRATIONS_DIR, file))).digest("hex"),
+    });
+  }
+
+  for (const file of files) {
+    const match = file.match(DOWN_FILE);
+    if (!match) {
+      continue;
+    }
+
+    const migration = migrations.get(parseInt(match[1], 10));
+    if (!migration) {
+      throw new Error(`Down migration ${file} has no matching up migration`);
+    }
+    migration.downFile = file;
+  }
+
+  return Array.from(migrations.values()).sort((a, b) => a.version - b.version);
+}
+
+function parseOptions(args: string[]): Options {
+  const positional = args.filter((arg) => !arg.startsWith("--"));
+  const dryRun = args.includes("--dry-run");
+  const toIndex = args.indexOf("--to");
+
+  let target: string | undefined;
+  if (toIndex !== -1) {
+    target = args[toIndex + 1];
+    if (target !== undefined && positional.includes(target)) {
+      positional.splice(positional.indexOf(target), 1);
+    }
+  } else if (positional[0] === "baseline") {
+    target = positional[1];
+    positional.splice(1, 1);
+  }
+
+  const command = positional[0] ?? "up";
+  if (!["up", "down", "status", "baseline"].includes(command) || positional.length > 1) {
+    throw new Error(`Unknown command: ${positional.join(" ")}`);
+  }
+  if ((toIndex !== -1 || command === "baseline") && (target === undefined || !/^\d+$/.test(target))) {
+    throw new Error(`Target version must be a number, got ${target ?? "nothing"}`);
+  }
+
+  return { command, target: target === undefined ? null : parseInt(target, 10), dryRun };
+}
+
+function isTransactional(sql: string): boolean {
+  const withoutComments = sql.replace(/\/\*[\s\S]*?\*\//g, "").replace(/^\s*--.*$/gm, "");
+  return !DDL_STATEMENT.test(withoutComments);
+}
+
+function describe(migration: Migration): string {
+  return `${String(migration.version).padStart(3, "0")}_${migration.name}`;
+}
+
+async function databaseExists(connection: mysql.Connection, name: string): Promise<boolean> {
+  const [rows] = await connection.query("SELECT 1 FROM information_schema.SCHEMATA WHERE SCHEMA_NAME = ?", [name]);
+  return (rows as unknown[]).length > 0;
+}
+
+async function ensureTrackingTable(connection: mysql.Connection): Promise<void> {
+  await connection.query(`
+    CREATE TABLE IF NOT EXISTS schema_migrations (
+      version INT PRIMARY KEY,
+      name VARCHAR(100) NOT NULL,
+      checksum CHAR(64) NOT NULL,
+      execution_ms INT NULL,
+      applied_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+    ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci
+  `);
+}
+
+async function loadApplied(connection: mysql.Connection, trackingExists: boolean): Promise<Map<number, AppliedMigration>> {
+  if (!trackingExists) {
+    return new Map();
+  }
+
+  const [rows] = await connection.query("SELECT version, name, checksum, applied_at FROM schema_migrations ORDER BY version");
+  return new Map((rows as AppliedMigration[]).map((row) => [row.version, row]));
+}
+
+/**
+ * Refuse to build on migrations whose files changed after they were applied
+ */
+function assertUnchanged(migrations: Migration[], applied: Map<number, AppliedMigration>): void {
+  const changed = migrations.filter((migration) => {
+    const record = applied.get(migration.version);
+    return record && record.checksum !== migration.checksum;
+  });
+
+  if (changed.length > 0) {
+    throw new Error(
+      `Applied migrations were modified: ${changed.map(describe).join(", ")}. ` +
+        "Revert the files, or add a new migration instead of editing an applied one"
+    );
+  }
+}
+
+/**
+ * Run one migration file and update the tracking table, in a transaction when the file has no DDL
+ */
+async function runMigration(
+  connection: mysql.Connection,
+  migration: Migration,
+  direction: "up" | "down"
+): Promise<void> {
+  const file = direction === "up" ? migration.upFile : migration.downFile!;
+  const sql = readFileSync(join(MIGRATIONS_DIR, file), "utf-8");
+  const transactional = isTransactional(sql);
+  const start = Date.now();
+
+  console.log(`${direction === "up" ? "Applying" : "Reverting"} ${file}${transactional ? "" : " (DDL, not transactional)"}...`);
+
+  if (transactional) {
+    await connection.beginTransaction();
+  }
+
+  try {
+    await connection.query(sql);
+
+    if (direction === "up") {
+      await connection.query(
+        "INSERT INTO schema_migrations (version, name, checksum, execution_ms) VALUES (?, ?, ?, ?)",
+        [migration.version, migration.name, migration.checksum, Date.now() - start]
+      );
+    } else {
+      await connection.query("DELETE FROM schema_migrations WHERE version = ?", [migration.version]);
+    }
+
+    if (transactional) {
+      await connection.commit();
+    }
+  } catch (error) {
+    if (transactional) {
+      await connection.rollback();
+    } else {
+      console.error(`\n${file} failed part-way and may be partially applied; it is not recorded as ${direction === "up" ? "applied" : "reverted"}.`);
+      console.error("Fix the schema by hand (or make the file idempotent) before running it again.");
+    }
+    throw error;
+  }
+}
+
+function printStatus(migrations: Migration[], applied: Map<number, AppliedMigration>): void {
+  const known = new Set(migrations.map((migration) => migration.version));
+
+  console.table([
+    ...migrations.map((migration) => {
+      const record = applied.get(migration.version);
+      return {
+        version: migration.version,
+        name: migration.name,
+        state: !record ? "pending" : record.checksum === migration.checksum ? "applied" : "modified",
+        applied_at: record ? new Date(record.applied_at).toISOString() : "",
+        down: migration.downFile ? "yes" : "no",
+      };
+    }),
+    ...Array.from(applied.values())
+      .filter((record) => !known.has(record.version))
+      .map((record) => ({
+        version: record.version,
+        name: record.name,
+        state: "missing file",
+        applied_at: new Date(record.applied_at).toISOString(),
+        down: "no",
+      })),
+  ]);
+}
 
 async function runMigrations() {
-  let connection;
+  let connection: mysql.Connection | undefined;
+  let locked = false;
 
   try {
-    console.log("Starting database migration...");
-
-    // Connect without specifying a database
-    connection = await mysql.createConnection(DB_CONFIG);
-
-    const dbName = process.env.DB_NAME || "banking_db";
-
-    // Check if database already exists and has tables
-    try {
-      await connection.query(`USE ${dbName}`);
-      const [tables] = await connection.query("SHOW TABLES");
-      
-      if (Array.isArray(tables) && tables.length > 0) {
-        console.warn("\nWARNING: Database already exists with tables!");
-        console.warn("   Existing tables will be preserved if using 'CREATE TABLE IF NOT EXISTS'");
-        console.warn("   Current tables:");
-        console.table(tables);
-        console.warn("\n   To start fresh, drop the database first:");
-        console.warn(`   mysql -u ${DB_CONFIG.user} -p -e "DROP DATABASE ${dbName};"\n`);
+    const options = parseOptions(process.argv.slice(2));
+    const migrations = discoverMigrations();
+    const dbName = databaseConfig.database;
+
+    if (!DATABASE_NAME.test(dbName)) {
+      throw new Error(`Invalid database name: ${dbName}`);
+    }
+
+    // Connect without a database so it can be created on first run
+    connection = await mysql.createConnection({
+      host: databaseConfig.host,
+      port: databaseConfig.port,
+      user: databaseConfig.user,
+      password: databaseConfig.password,
+      multipleStatements: true,
+    });
+
+    let exists = await databaseExists(connection, dbName);
+    if (!exists && !options.dryRun && options.command !== "status") {
+      console.log(`Creating database ${dbName}...`);
+      await connection.query(`CREATE DATABASE \`${dbName}\` CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci`);
+      exists = true;
+    }
+
+    let trackingExists = false;
+    let otherTables = 0;
+    if (exists) {
+      await connection.query(`USE \`${dbName}\``);
+
+      // Only one runner at a time, whichever instance starts it
+      if (!options.dryRun && options.command !== "status") {
+        const [lockRows] = await connection.query("SELECT GET_LOCK(?, ?) AS acquired", [LOCK_NAME, LOCK_TIMEOUT_SECONDS]);
+        if (Number((lockRows as { acquired: number }[])[0].acquired) !== 1) {
+          throw new Error("Another migration run holds the migration lock");
+        }
+        locked = true;
+        await ensureTrackingTable(connection);
+      }
+
+      const [tables] = await connection.query(
+        "SELECT TABLE_NAME AS name FROM information_schema.TABLES WHERE TABLE_SCHEMA = ?",
+        [dbName]
+      );
+      const names = (tables as { name: string }[]).map((table) => table.name);
+      trackingExists = names.includes("schema_migrations");
+      otherTables = names.filter((name) => name !== "schema_migrations").length;
+    }
+
+    const applied = await loadApplied(connection, trackingExists);
+    console.log(`Database: ${dbName}`);
+
+    if (options.command === "status") {
+      printStatus(migrations, applied);
+      return;
+    }
+
+    assertUnchanged(migrations, applied);
+
+    if (options.command === "baseline") {
+      const toRecord = migrations.filter((migration) => migration.version <= options.target! && !applied.has(migration.version));
+      for (const migration of toRecord) {
+        console.log(`${options.dryRun ? "Would record" : "Recording"} ${describe(migration)} as applied`);
+        if (!options.dryRun) {
+          await connection.query(
+            "INSERT INTO schema_migrations (version, name, checksum) VALUES (?, ?, ?)",
+            [migration.version, migration.name, migration.checksum]
+          );
+        }
+      }
+      console.log(`\n✅ Baselined ${toRecord.length} migrations`);
+      return;
+    }
+
+    if (options.command === "up") {
+      // Databases migrated before versions were tracked would have their migrations re-run
+      if (applied.size === 0 && otherTables > 0) {
+        throw new Error(
+          `${dbName} has tables but no recorded migrations. ` +
+            "Record the migrations it already has with: npm run migrate -- baseline <version>"
+        );
       }
-    } catch (error: any) {
-      if (error.code !== 'ER_BAD_DB_ERROR') {
-        throw error;
+
+      const pending = migrations.filter(
+        (migration) => !applied.has(migration.version) && (options.target === null || migration.version <= options.target)
+      );
+
+      if (pending.length === 0) {
+        console.log("\n✅ Database is up to date");
+        return;
+      }
+
+      for (const migration of pending) {
+        if (options.dryRun) {
+          const sql = readFileSync(join(MIGRATIONS_DIR, migration.upFile), "utf-8");
+          console.log(`Would apply ${migration.upFile}${isTransactional(sql) ? "" : " (DDL, not transactional)"}`);
+        } else {
+          await runMigration(connection, migration, "up");
+        }
       }
-      // Database doesn't exist yet, which is fine
-      console.log("Creating new database...");
+
+      console.log(`\n✅ ${options.dryRun ? "Would apply" : "Applied"} ${pending.length} migrations`);
+      return;
     }
 
-    // Read the migration file
-    const migrationPath = join(__dirname, "..", "migrations", "001_initial_schema.sql");
-    console.log(`Reading migration: ${migrationPath}`);
-    
-    const migrationSQL = readFileSync(migrationPath, "utf-8");
+    // down: the latest applied migration, or every applied migration above the target
+    const appliedMigrations = migrations.filter((migration) => applied.has(migration.version)).reverse();
+    const missing = Array.from(applied.keys()).filter((version) => !migrations.some((migration) => migration.version === version));
+    if (missing.length > 0) {
+      throw new Error(`Applied migrations have no files: ${missing.join(", ")}`);
+    }
 
-    // Execute the migration
-    console.log("Executing migration...");
-    await connection.query(migrationSQL);
+    const toRevert = options.target === null
+      ? appliedMigrations.slice(0, 1)
+      : appliedMigrations.filter((migration) => migration.version > options.target!);
 
-    console.log("\n✅ Migration completed successfully!");
-    
-    // Verify tables were created
-    await connection.query(`USE ${dbName}`);
-    const [tables] = await connection.query("SHOW TABLES");
-    
-    console.log("\nDatabase tables:");
-    console.table(tables);
+    const irreversible = toRevert.filter((migration) => !migration.downFile);
+    if (irreversible.length > 0) {
+      throw new Error(`Cannot roll back ${irreversible.map(describe).join(", ")}: no down migration`);
+    }
 
+    if (toRevert.length === 0) {
+      console.log("\n✅ Nothing to roll back");
+      return;
+    }
+
+    for (const migration of toRevert) {
+      if (options.dryRun) {
+        console.log(`Would revert ${migration.downFile}`);
+      } else {
+        await runMigration(connection, migration, "down");
+      }
+    }
+
+    console.log(`\n✅ ${options.dryRun ? "Would revert" : "Reverted"} ${toRevert.length} migrations`);
   } catch (error) {
-    console.error("Migration failed:", error);
-    process.exit(1);
+    console.error("Migration failed:", error instanceof Error ? error.message : error);
+    process.exitCode = 1;
   } finally {
     if (connection) {
+      if (locked) {
+        await connection.query("SELECT RELEASE_LOCK(?)", [LOCK_NAME]);
+      }
       await connection.end();
       console.log("Database connection closed");
     }
@@ -1,14 +1,15 @@
 /**
  * Database Seed Script
  * Populates the database with initial test data
- * Generates random secret keys and saves credentials to seed-data.json
+ * Issues one hashed API key per user and saves the plaintext keys to seed-data.json
  */
 
 import { config } from "dotenv";
 import mysql from "mysql2/promise";
-import { randomBytes } from "crypto";
 import { writeFileSync } from "fs";
 import { join } from "path";
+import { generateApiKey } from "../src/utils/apiKey";
+import { Money } from "../src/utils/money";
 
 // Load environment variables
 config();
@@ -23,13 +24,6 @@ const DB_CONFIG = {
   queueLimit: 0,
 };
 
-/**
- * Generate a random secret key
- */
-function generateSecretKey(): string {
-  return randomBytes(32).toString("hex");
-}
-
 async function seed() {
   let connection;
 
@@ -67,46 +61,92 @@ async function seed() {
 
     // Clear existing data (in reverse order due to foreign keys)
     console.log("Clearing existing data...");
+    await connection.execute("DELETE FROM outbox_events");
+    await connection.execute("UPDATE outbox_relay_state SET last_sequence = 0");
+    await connection.execute("UPDATE transaction_chain_state SET last_sequence = 0, last_hash = REPEAT('0', 64)");
+    await connection.execute("DELETE FROM webhook_attempts");
+    await connection.execute("DELETE FROM webhook_deliveries");
+    await connection.execute("DELETE FROM webhook_endpoints");
+    await connection.execute("DELETE FROM schedule_runs");
+    await connection.execute("DELETE FROM schedules");
+    await connection.execute("DELETE FROM holds");
+    await connection.execute("DELETE FROM payment_batch_lines");
+    await connection.execute("DELETE FROM payment_batches");
+    await connection.execute("DELETE FROM fraud_reviews");
+    await connection.execute("DELETE FROM ledger_postings");
+    await connection.execute("DELETE FROM journal_entries");
+    await connection.execute("DELETE FROM transactions WHERE original_transaction_id IS NOT NULL");
     await connection.execute("DELETE FROM transactions");
     await connection.execute("DELETE FROM accounts");
+    await connection.execute("DELETE FROM api_keys");
     await connection.execute("DELETE FROM users");
 
     // Reset auto-increment counters
+    await connection.execute("ALTER TABLE ledger_postings AUTO_INCREMENT = 1");
+    await connection.execute("ALTER TABLE journal_entries AUTO_INCREMENT = 1");
     await connection.execute("ALTER TABLE transactions AUTO_INCREMENT = 1");
     await connection.execute("ALTER TABLE accounts AUTO_INCREMENT = 1");
+    await connection.execute("ALTER TABLE api_keys AUTO_INCREMENT = 1");
     await connection.execute("ALTER TABLE users AUTO_INCREMENT = 1");
 
-    // Generate users with random secret keys
+    // Generate users with random API keys (only the salted hash is stored)
     const testUsers = [
-      { username: "alice", secret_key: generateSecretKey() },
-      { username: "bob", secret_key: generateSecretKey() },
-      { username: "charlie", secret_key: generateSecretKey() },
+      { username: "alice", role: "customer", kyc_tier: "verified", api_key: generateApiKey() },
+      { username: "bob", role: "customer", kyc_tier: "verified", api_key: generateApiKey() },
+      { username: "charlie", role: "customer", kyc_tier: "basic", api_key: generateApiKey() },
+      { username: "admin", role: "admin", kyc_tier: "basic", api_key: generateApiKey() },
     ];
 
     // Insert test users
     console.log("Inserting users...");
     for (const user of testUsers) {
+      const [result] = await connection.execute(
+        "INSERT INTO users (username, role, kyc_tier) VALUES (?, ?, ?)",
+        [user.username, user.role, user.kyc_tier]
+      );
       await connection.execute(
-        "INSERT INTO users (username, secret_key) VALUES (?, ?)",
-        [user.username, user.secret_key]
+        "INSERT INTO api_keys (key_id, user_id, label, salt, secret_hash) VALUES (?, ?, 'Seed key', ?, ?)",
+        [user.api_key.keyId, (result as any).insertId, user.api_key.salt, user.api_key.secretHash]
       );
     }
 
     // Insert test accounts (1 user = 1 account)
     console.log("Inserting accounts...");
     const testAccounts = [
-      { account_number: "ACC001", user_id: 1, balance: 1000.0 },
-      { account_number: "ACC002", user_id: 2, balance: 500.0 },
-      { account_number: "ACC003", user_id: 3, balance: 750.0 },
+      { account_number: "ACC001", user_id: 1, balance: Money.fromDecimal("1000.00") },
+      { account_number: "ACC002", user_id: 2, balance: Money.fromDecimal("500.00") },
+      { account_number: "ACC003", user_id: 3, balance: Money.fromDecimal("750.00") },
     ];
 
     for (const account of testAccounts) {
       await connection.execute(
         "INSERT INTO accounts (account_number, user_id, balance) VALUES (?, ?, ?)",
-        [account.account_number, account.user_id, account.balance]
+        [account.account_number, account.user_id, account.balance.toString()]
       );
     }
 
+    // Record the initial balances in the ledger so postings reconcile with balances
+    console.log("Recording opening balances...");
+    const [openingEntry] = await connection.execute(
+      "INSERT INTO journal_entries (description) VALUES ('Opening balances')"
+    );
+    const openingEntryId = (openingEntry as any).insertId;
+    let openingTotal = Money.ZERO;
+
+    for (const [index, account] of testAccounts.entries()) {
+      await connection.execute(
+        "INSERT INTO ledger_postings (journal_entry_id, account_id, amount) VALUES (?, ?, ?)",
+        [openingEntryId, index + 1, account.balance.toString()]
+      );
+      openingTotal = openingTotal.add(account.balance);
+    }
+
+    await connection.execute(
+      `INSERT INTO ledger_postings (journal_entry_id, system_account_id, amount)
+       SELECT ?, id, ? FROM system_accounts WHERE code = 'OPENING_BALANCE'`,
+      [openingEntryId, openingTotal.negate().toString()]
+    );
+
     // Verify data
     const [users] = await connection.execute(
       "SELECT COUNT(*) as count FROM users"
@@ -121,7 +161,9 @@ async function seed() {
       users: testUsers.map((user, index) => ({
         id: index + 1,
         username: user.username,
-        secret_key: user.secret_key,
+        role: user.role,
+        kyc_tier: user.kyc_tier,
+        secret_key: user.api_key.token,
       })),
       accounts: testAccounts.map((account) => ({
         account_number: account.account_number,
@@ -0,0 +1,45 @@
+/**
+ * Request Signing Script
+ * Prints the headers for a signed request, as a reference for client implementations
+ *
+ * Usage: npm run sign -- <api-key> <METHOD> <path> [json-body]
+ * The path is signed as given, so it must include the query string the request is sent with
+ * Example: npm run sign -- bk_0123456789ab_... POST /api/transactions '{"type":"deposit","amount":"10.00","destination_account_id":1}'
+ */
+
+import { randomBytes } from "crypto";
+import { parseApiKey } from "../src/utils/apiKey";
+import { signRequest } from "../src/utils/requestSigning";
+
+function main() {
+  const [apiKey, method, path, body = ""] = process.argv.slice(2);
+
+  if (!apiKey || !method || !path) {
+    console.error("Usage: npm run sign -- <api-key> <METHOD> <path> [json-body]");
+    process.exit(1);
+  }
+
+  const { keyId, secret } = parseApiKey(apiKey);
+  const timestamp = Math.floor(Date.now() / 1000).toString();
+  const nonce = randomBytes(16).toString("hex");
+  const signature = signRequest(secret, { method, path, timestamp, nonce, body });
+
+  const headers = [
+    `X-Api-Key-Id: ${keyId}`,
+    `X-Timestamp: ${timestamp}`,
+    `X-Nonce: ${nonce}`,
+    `X-Signature: ${signature}`,
+  ];
+
+  console.log(headers.join("\n"));
+  console.log("\ncurl:");
+  console.log(
+    [
+      `curl -X ${method.toUpperCase()} "http://localhost:${process.env.PORT || 8000}${path}"`,
+      ...headers.map((header) => `-H "${header}"`),
+      ...(body ? ['-H "Content-Type: application/json"', `--data '${body}'`] : []),
+    ].join(" \\\n  ")
+  );
+}
+
+main();
@@ -0,0 +1,138 @@
+/**
+ * Concurrency Stress Script
+ * Fires parallel withdrawals and opposing transfers at the seeded accounts
+ * and verifies that balances stay consistent with the recorded transactions
+ *
+ * Usage: npm run stress -- [operations] [concurrency]
+ */
+
+import { config } from "dotenv";
+
+// Load environment variables
+config();
+
+import { db } from "../src/utils/database";
+import { storage } from "../src/repository";
+import { TransactionService } from "../src/service/transactionService";
+import { CreateTransactionData, Transaction } from "../src/model/transaction";
+import { Money } from "../src/utils/money";
+
+const OPERATIONS = parseInt(process.argv[2] || "500");
+const CONCURRENCY = parseInt(process.argv[3] || "20");
+
+interface AccountSnapshot {
+  id: number;
+  balance: string;
+}
+
+/**
+ * Read balances in cents so the comparison is exact
+ */
+async function snapshotBalances(): Promise<Map<number, number>> {
+  const rows = await db.query<AccountSnapshot>("SELECT id, balance FROM accounts ORDER BY id");
+  return new Map(rows.map((row) => [row.id, Money.fromDecimal(row.balance).minorUnits]));
+}
+
+/**
+ * Build a random operation mixing withdrawals with transfers in both directions
+ */
+function randomOperation(accountIds: number[]): CreateTransactionData {
+  const source = accountIds[Math.floor(Math.random() * accountIds.length)];
+  const others = accountIds.filter((id) => id !== source);
+  const destination = others[Math.floor(Math.random() * others.length)];
+  const amount = Money.fromMinorUnits(Math.floor(Math.random() * 20000) + 1);
+
+  if (Math.random() < 0.25) {
+    return { type: "withdrawal", amount, source_account_id: source };
+  }
+  return { type: "transfer", amount, source_account_id: source, destination_account_id: destination };
+}
+
+async function runStress() {
+  try {
+    console.log("Starting concurrency stress test...");
+    await db.initialize();
+    await storage.initialize("mysql");
+
+    const before = await snapshotBalances();
+    const accountIds = Array.from(before.keys());
+
+    if (accountIds.length < 2) {
+      throw new Error("At least two accounts are required, run the seed first");
+    }
+
+    console.log(`   - Accounts: ${accountIds.join(", ")}`);
+    console.log(`   - Operations: ${OPERATIONS}, concurrency: ${CONCURRENCY}`);
+
+    const results: Transaction[] = [];
+    const errors: unknown[] = [];
+    let next = 0;
+    const started = Date.now();
+
+    // Fixed size worker pool so CONCURRENCY transactions are always in flight
+    const workers = Array.from({ length: CONCURRENCY }, async () => {
+      while (next < OPERATIONS) {
+        next++;
+        try {
+          results.push(await TransactionService.submitTransaction(randomOperation(accountIds)));
+        } catch (error) {
+          errors.push(error);
+        }
+      }
+    });
+    await Promise.all(workers);
+
+    const after = await snapshotBalances();
+
+    // Replay the completed transactions against the starting balances
+    const expected = new Map(before);
+    for (const transaction of results.filter((t) => t.status === "completed")) {
+      const cents = transaction.amount.minorUnits;
+      if (transaction.source_account_id) {
+        expected.set(transaction.source_account_id, expected.get(transaction.source_account_id)! - cents);
+      }
+      if (transaction.destination_account_id) {
+        expected.set(transaction.destination_account_id, expected.get(transaction.destination_account_id)! + cents);
+      }
+    }
+
+    const mismatches = accountIds.filter((id) => expected.get(id) !== after.get(id));
+    const negative = accountIds.filter((id) => after.get(id)! < 0);
+    const failedReasons = results
+      .filter((t) => t.status === "failed")
+      .reduce<Record<string, number>>((counts, t) => {
+        counts[t.failure_reason || "unknown"] = (counts[t.failure_reason || "unknown"] || 0) + 1;
+        return counts;
+      }, {});
+
+    console.log(`\nFinished in ${Date.now() - started}ms`);
+    console.log(`   - Completed: ${results.filter((t) => t.status === "completed").length}`);
+    console.log(`   - Failed (recorded): ${JSON.stringify(failedReasons)}`);
+    console.log(`   - Errors (not recorded): ${errors.length}`);
+    console.table(
+      accountIds.map((id) => ({
+        account_id: id,
+        before: Money.fromMinorUnits(before.get(id)!).toString(),
+        expected: Money.fromMinorUnits(expected.get(id)!).toString(),
+        actual: Money.fromMinorUnits(after.get(id)!).toString(),
+      }))
+    );
+
+    if (errors.length > 0 || mismatches.length > 0 || negative.length > 0) {
+      errors.slice(0, 5).forEach((error) => console.error(error));
+      throw new Error(
+        `Consistency check failed: ${errors.length} errors, mismatched accounts [${mismatches.join(", ")}], negative accounts [${negative.join(", ")}]`
+      );
+    }
+
+    console.log("\n✅ Balances are consistent with the recorded transactions");
+  } catch (error) {
+    console.error("Stress test failed:", error);
+    process.exitCode = 1;
+  } finally {
+    await storage.close();
+    await db.close();
+  }
+}
+
+runStress();
@@ -0,0 +1,118 @@
+/**
+ * Transaction Chain Script
+ * Verifies the tamper-evident hash chain over the transactions table, links rows written before
+ * the chain existed, generates receipt signing keys and checks receipts offline
+ *
+ * Usage:
+ *   npm run chain -- verify                                  # walk the chain, exit 1 on a broken link
+ *   npm run chain -- backfill                                # link final rows that are not in the chain yet
+ *   npm run chain -- keygen                                  # print a new RECEIPT_SIGNING_KEY and its public key
+ *   npm run chain -- verify-receipt <receipt.json> <key.pem> # check a receipt without the database
+ */
+
+import { config } from "dotenv";
+
+// Load environment variables
+config();
+
+import { generateKeyPairSync } from "crypto";
+import { readFileSync } from "fs";
+import { db } from "../src/utils/database";
+import { storage } from "../src/repository";
+import { receiptKeyId, verifyReceipt } from "../src/utils/transactionChain";
+import { TransactionChainService } from "../src/service/transactionChainService";
+import { TransactionReceipt } from "../src/model/transactionChain";
+
+const BACKFILL_BATCH_SIZE = 500;
+
+async function verifyChain(): Promise<void> {
+  await db.initialize();
+  await storage.initialize("mysql");
+  try {
+    const result = await TransactionChainService.verify();
+
+    console.log(`Checked ${result.checked} links, head at #${result.head.sequence} (${result.head.hash})`);
+    if (result.unchained > 0) {
+      console.warn(`⚠️  ${result.unchained} final transactions are not linked yet, run: npm run chain -- backfill`);
+    }
+
+    if (!result.valid) {
+      const link = result.first_broken_link!;
+      console.error(`❌ Broken link at #${link.sequence}${link.transaction_id ? ` (${link.transaction_id})` : ""}: ${link.reason}`);
+      console.error(`   expected ${link.expected}`);
+      console.error(`   actual   ${link.actual}`);
+      process.exitCode = 1;
+      return;
+    }
+
+    console.log("✅ Chain is intact");
+  } finally {
+    await storage.close();
+    await db.close();
+  }
+}
+
+async function backfill(): Promise<void> {
+  await db.initialize();
+  await storage.initialize("mysql");
+  try {
+    let total = 0;
+    let linked = 0;
+    do {
+      linked = await TransactionChainService.backfill(BACKFILL_BATCH_SIZE);
+      total += linked;
+    } while (linked === BACKFILL_BATCH_SIZE);
+
+    console.log(`✅ Linked ${total} transactions`);
+  } finally {
+    await storage.close();
+    await db.close();
+  }
+}
+
+function keygen(): void {
+  const { privateKey, publicKey } = generateKeyPairSync("ed25519");
+
+  console.log(`RECEIPT_SIGNING_KEY=${privateKey.export({ type: "pkcs8", format: "der" }).toString("base64")}`);
+  console.log(`\nKey id: ${receiptKeyId(publicKey)}`);
+  console.log(publicKey.export({ type: "spki", format: "pem" }).toString());
+}
+
+function checkReceipt(receiptFile: string, publicKeyFile: string): void {
+  const parsed = JSON.parse(readFileSync(receiptFile, "utf-8"));
+  // Accept the bare receipt or a whole API response
+  const receipt: TransactionReceipt = parsed.receipt ?? parsed.data ?? parsed;
+
+  if (!verifyReceipt(readFileSync(publicKeyFile, "utf-8"), receipt)) {
+    console.error("❌ Receipt is not valid for this key");
+    process.exitCode = 1;
+    return;
+  }
+
+  console.log(`✅ Receipt for ${receipt.contents.transaction_id} is valid`);
+  console.log(`   link #${receipt.contents.sequence}: ${receipt.row_hash}`);
+}
+
+async function main() {
+  const [command, ...args] = process.argv.slice(2);
+
+  try {
+    if (command === "verify") {
+      await verifyChain();
+    } else if (command === "backfill") {
+      await backfill();
+    } else if (command === "keygen") {
+      keygen();
+    } else if (command === "verify-receipt" && args.length === 2) {
+      checkReceipt(args[0], args[1]);
+    } else {
+      console.error("Usage: npm run chain -- verify | backfill | keygen | verify-receipt <receipt.json> <public-key.pem>");
+      process.exitCode = 1;
+    }
+  } catch (error) {
+    console.error("Chain command failed:", error);
+    process.exitCode = 1;
+  }
+}
+
+main();
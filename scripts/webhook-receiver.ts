@@ -0,0 +1,56 @@
+/**
+ * Webhook Receiver Script
+ * A local HTTP receiver for trying out and testing webhook endpoints: verifies the signature
+ * of every delivery and prints the event
+ *
+ * Usage: npm run webhook-receiver -- <secret> [port] [fail-first-n]
+ * Example: npm run webhook-receiver -- whsec_0123... 9000 2
+ *
+ * Register http://localhost:<port>/ as the endpoint URL. With fail-first-n, the first n deliveries
+ * get a 500 response so the retries (and replays) can be observed.
+ */
+
+import { createServer } from "http";
+import { verifyWebhookSignature } from "../src/utils/webhookSignature";
+
+function main() {
+  const [secret, port = "9000", failFirst = "0"] = process.argv.slice(2);
+
+  if (!secret) {
+    console.error("Usage: npm run webhook-receiver -- <secret> [port] [fail-first-n]");
+    process.exit(1);
+  }
+
+  let remainingFailures = parseInt(failFirst, 10) || 0;
+
+  const server = createServer((req, res) => {
+    const chunks: Buffer[] = [];
+    req.on("data", (chunk: Buffer) => chunks.push(chunk));
+    req.on("end", () => {
+      const body = Buffer.concat(chunks).toString("utf8");
+      const signature = req.headers["x-webhook-signature"];
+      const valid = typeof signature === "string" && verifyWebhookSignature(secret, body, signature);
+
+      console.log(
+        `${new Date().toISOString()} ${req.headers["x-webhook-event"]} delivery=${req.headers["x-webhook-id"]} ` +
+          `signature=${valid ? "valid" : "INVALID"}`
+      );
+      console.log(body);
+
+      if (!valid) {
+        res.writeHead(401).end("invalid signature");
+      } else if (remainingFailures > 0) {
+        remainingFailures--;
+        res.writeHead(500).end("failing on purpose");
+      } else {
+        res.writeHead(200).end("ok");
+      }
+    });
+  });
+
+  server.listen(parseInt(port, 10), () => {
+    console.log(`Webhook receiver listening on http://localhost:${port}/`);
+  });
+}
+
+main();
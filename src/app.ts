@@ -5,9 +5,13 @@ config();
 
 import express from 'express';
 import pino from 'pino';
-import { db } from './utils/database';
+import { v4 as uuidv4 } from 'uuid';
 import { errorHandler, notFoundHandler } from './middleware/error';
-import routes from './route';
+import routes, { mountedRouters } from './route';
+import docsRoutes from './route/docsRoutes';
+import { paymentBatchConfig } from './config/paymentBatches';
+import { auditConfig } from './config/audit';
+import { runWithRequestContext } from './utils/requestContext';
 
 // Initialize logger
 export const logger = pino({
@@ -23,9 +27,39 @@ export const logger = pino({
 
 const app = express();
 
+if (auditConfig.trustProxyHops > 0) {
+  app.set('trust proxy', auditConfig.trustProxyHops);
+}
+
 // Middleware
-app.use(express.json());
-app.use(express.urlencoded({ extended: true }));
+// Keep the raw body so signed requests can be verified against exactly what was sent
+const captureRawBody = (req: express.Request, res: express.Response, buf: Buffer) => {
+  req.rawBody = buf;
+};
+app.use(express.json({ verify: captureRawBody }));
+app.use(express.urlencoded({ extended: true, verify: captureRawBody }));
+// Payment files are uploaded as the raw body (CSV or pain.001 XML)
+app.use(express.text({
+  type: ['text/csv', 'application/xml', 'text/xml'],
+  limit: paymentBatchConfig.maxFileSize,
+  verify: captureRawBody
+}));
+
+// Request context: a request id (the client's X-Request-Id if well-formed) and where the request came from,
+// available to the audit log for the rest of the request
+const REQUEST_ID_PATTERN = /^[A-Za-z0-9._-]{1,64}$/;
+app.use((req, res, next) => {
+  const header = req.get('X-Request-Id');
+  const requestId = header && REQUEST_ID_PATTERN.test(header) ? header : uuidv4();
+  res.locals.requestId = requestId;
+  res.setHeader('X-Request-Id', requestId);
+
+  runWithRequestContext({
+    request_id: requestId,
+    ip: req.ip ?? null,
+    user_agent: req.get('User-Agent') ?? null
+  }, next);
+});
 
 // Request logging middleware
 app.use((req, res, next) => {
@@ -34,6 +68,7 @@ app.use((req, res, next) => {
   res.on('finish', () => {
     const duration = Date.now() - start;
     logger.info({
+      request_id: res.locals.requestId,
       method: req.method,
       url: req.url,
       status: res.statusCode,
@@ -48,7 +83,8 @@ app.use((req, res, next) => {
 app.use((req, res, next) => {
   res.header('Access-Control-Allow-Origin', '*');
   res.header('Access-Control-Allow-Methods', 'GET, POST, PUT, DELETE, OPTIONS');
-  res.header('Access-Control-Allow-Headers', 'Origin, X-Requested-With, Content-Type, Accept, Authorization, X-Secret-Key');
+  res.header('Access-Control-Allow-Headers', 'Origin, X-Requested-With, Content-Type, Accept, Authorization, X-Secret-Key, X-Api-Key-Id, X-Timestamp, X-Nonce, X-Signature, Idempotency-Key, Last-Event-ID, X-Request-Id');
+  res.header('Access-Control-Expose-Headers', 'X-Request-Id');
   
   if (req.method === 'OPTIONS') {
     res.sendStatus(200);
@@ -71,14 +107,15 @@ app.get('/api', (req, res) => {
   res.json({ 
     message: 'Banking API Server',
     version: '1.0.0',
-    endpoints: {
-      accounts: '/api/accounts',
-      transactions: '/api/transactions',
-      reports: '/api/reports'
-    }
+    documentation: '/api/docs',
+    openapi: '/api/docs/openapi.json',
+    endpoints: Object.fromEntries(mountedRouters.map(({ path }) => [path.slice(1), `/api${path}`]))
   });
 });
 
+// API documentation, readable without credentials
+app.use('/api/docs', docsRoutes);
+
 // API Routes
 app.use('/api', routes);
 
@@ -88,17 +125,4 @@ app.use(notFoundHandler);
 // Global error handler
 app.use(errorHandler);
 
-// Graceful shutdown
-process.on('SIGTERM', async () => {
-  logger.info('SIGTERM received, shutting down gracefully...');
-  await db.close();
-  process.exit(0);
-});
-
-process.on('SIGINT', async () => {
-  logger.info('SIGINT received, shutting down gracefully...');
-  await db.close();
-  process.exit(0);
-});
-
 export default app;
\ No newline at end of file
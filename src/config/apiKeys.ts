@@ -0,0 +1,9 @@
+export interface ApiKeyConfig {
+  maxActiveKeysPerUser: number;
+  rotationGraceSeconds: number;
+}
+
+export const apiKeyConfig: ApiKeyConfig = {
+  maxActiveKeysPerUser: parseInt(process.env.API_KEY_MAX_ACTIVE_PER_USER || "10"),
+  rotationGraceSeconds: parseInt(process.env.API_KEY_ROTATION_GRACE_SECONDS || "3600"),
+};
@@ -0,0 +1,8 @@
+export interface AuditConfig {
+  trustProxyHops: number;
+}
+
+export const auditConfig: AuditConfig = {
+  // Reverse proxies in front of the API whose X-Forwarded-For entries are trusted for the client IP
+  trustProxyHops: parseInt(process.env.TRUST_PROXY_HOPS || "0"),
+};
@@ -5,6 +5,8 @@ export interface DatabaseConfig {
   password: string;
   database: string;
   connectionLimit: number;
+  lockRetryAttempts: number;
+  lockRetryBaseDelayMs: number;
 }
 
 export const databaseConfig: DatabaseConfig = {
@@ -14,6 +16,8 @@ export const databaseConfig: DatabaseConfig = {
   password: process.env.DB_PASSWORD || "",
   database: process.env.DB_NAME || "banking_db",
   connectionLimit: parseInt(process.env.DB_CONNECTION_LIMIT || "10"),
+  lockRetryAttempts: parseInt(process.env.DB_LOCK_RETRY_ATTEMPTS || "3"),
+  lockRetryBaseDelayMs: parseInt(process.env.DB_LOCK_RETRY_BASE_DELAY_MS || "50"),
 };
 
 export const testDatabaseConfig: DatabaseConfig = {
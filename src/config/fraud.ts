@@ -0,0 +1,23 @@
+export interface FraudConfig {
+  enabled: boolean;
+  velocityMaxTransfers: number;
+  velocityWindowMinutes: number;
+  newDestinationThreshold: string;
+  roundAmountUnit: string;
+  roundAmountBurstCount: number;
+  roundAmountWindowMinutes: number;
+  balanceDrainPercent: number;
+  balanceDrainMinAmount: string;
+}
+
+export const fraudConfig: FraudConfig = {
+  enabled: process.env.FRAUD_SCREENING_ENABLED !== "false",
+  velocityMaxTransfers: parseInt(process.env.FRAUD_VELOCITY_MAX_TRANSFERS || "5"),
+  velocityWindowMinutes: parseInt(process.env.FRAUD_VELOCITY_WINDOW_MINUTES || "10"),
+  newDestinationThreshold: process.env.FRAUD_NEW_DESTINATION_THRESHOLD || "1000.00",
+  roundAmountUnit: process.env.FRAUD_ROUND_AMOUNT_UNIT || "100.00",
+  roundAmountBurstCount: parseInt(process.env.FRAUD_ROUND_AMOUNT_BURST_COUNT || "3"),
+  roundAmountWindowMinutes: parseInt(process.env.FRAUD_ROUND_AMOUNT_WINDOW_MINUTES || "60"),
+  balanceDrainPercent: parseInt(process.env.FRAUD_BALANCE_DRAIN_PERCENT || "80"),
+  balanceDrainMinAmount: process.env.FRAUD_BALANCE_DRAIN_MIN_AMOUNT || "500.00",
+};
@@ -0,0 +1,9 @@
+export interface HoldConfig {
+  defaultTtlSeconds: number;
+  maxTtlSeconds: number;
+}
+
+export const holdConfig: HoldConfig = {
+  defaultTtlSeconds: parseInt(process.env.HOLD_DEFAULT_TTL_SECONDS || "604800"),
+  maxTtlSeconds: parseInt(process.env.HOLD_MAX_TTL_SECONDS || "2592000"),
+};
@@ -0,0 +1,7 @@
+export interface IdempotencyConfig {
+  ttlSeconds: number;
+}
+
+export const idempotencyConfig: IdempotencyConfig = {
+  ttlSeconds: parseInt(process.env.IDEMPOTENCY_KEY_TTL_SECONDS || "86400"),
+};
@@ -0,0 +1,16 @@
+export interface OutboxConfig {
+  relayEnabled: boolean;
+  relayPollIntervalMs: number;
+  relayBatchSize: number;
+  streamPollIntervalMs: number;
+  streamHeartbeatSeconds: number;
+}
+
+export const outboxConfig: OutboxConfig = {
+  relayEnabled: process.env.OUTBOX_RELAY_ENABLED !== "false",
+  relayPollIntervalMs: parseInt(process.env.OUTBOX_RELAY_POLL_INTERVAL_MS || "500"),
+  relayBatchSize: parseInt(process.env.OUTBOX_RELAY_BATCH_SIZE || "100"),
+  // How often each server instance checks for newly published events for its SSE clients
+  streamPollIntervalMs: parseInt(process.env.EVENT_STREAM_POLL_INTERVAL_MS || "1000"),
+  streamHeartbeatSeconds: parseInt(process.env.EVENT_STREAM_HEARTBEAT_SECONDS || "15"),
+};
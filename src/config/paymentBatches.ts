@@ -0,0 +1,10 @@
+export interface PaymentBatchConfig {
+  maxLines: number;
+  maxFileSize: string;
+}
+
+export const paymentBatchConfig: PaymentBatchConfig = {
+  maxLines: parseInt(process.env.PAYMENT_BATCH_MAX_LINES || "1000"),
+  // Body size limit for uploaded payment files, in express/bytes notation
+  maxFileSize: process.env.PAYMENT_BATCH_MAX_FILE_SIZE || "2mb",
+};
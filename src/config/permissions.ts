@@ -0,0 +1,17 @@
+import { UserRole } from "../model/user";
+
+export type Permission =
+  | "accounts:read:any" // read any customer's accounts, transactions, holds and schedules
+  | "accounts:manage:any" // freeze, unfreeze and close any customer's accounts, reverse withdrawals
+  | "reports:read" // cross-account reports
+  | "users:manage" // assign roles
+  | "reviews:manage" // approve or reject transactions held by fraud screening
+  | "audit:read"; // query the audit log
+
+// Customers can only reach their own resources, which needs no permission
+export const rolePermissions: Record<UserRole, Permission[]> = {
+  customer: [],
+  support: ["accounts:read:any"],
+  auditor: ["accounts:read:any", "reports:read", "audit:read"],
+  admin: ["accounts:read:any", "accounts:manage:any", "reports:read", "users:manage", "reviews:manage", "audit:read"],
+};
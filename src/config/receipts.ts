@@ -0,0 +1,16 @@
+import { createPrivateKey, createPublicKey, KeyObject } from "crypto";
+
+export interface ReceiptConfig {
+  signingKey: KeyObject | null;
+  publicKey: KeyObject | null;
+}
+
+// Ed25519 private key, base64 PKCS#8 DER (npm run chain -- keygen); without it no receipts are issued
+const signingKey = process.env.RECEIPT_SIGNING_KEY
+  ? createPrivateKey({ key: Buffer.from(process.env.RECEIPT_SIGNING_KEY, "base64"), format: "der", type: "pkcs8" })
+  : null;
+
+export const receiptConfig: ReceiptConfig = {
+  signingKey,
+  publicKey: signingKey ? createPublicKey(signingKey) : null,
+};
@@ -0,0 +1,13 @@
+export interface SchedulerConfig {
+  enabled: boolean;
+  pollIntervalMs: number;
+  batchSize: number;
+  leaseSeconds: number;
+}
+
+export const schedulerConfig: SchedulerConfig = {
+  enabled: process.env.SCHEDULER_ENABLED !== "false",
+  pollIntervalMs: parseInt(process.env.SCHEDULER_POLL_INTERVAL_MS || "30000"),
+  batchSize: parseInt(process.env.SCHEDULER_BATCH_SIZE || "20"),
+  leaseSeconds: parseInt(process.env.SCHEDULER_LEASE_SECONDS || "120"),
+};
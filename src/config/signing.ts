@@ -0,0 +1,12 @@
+export interface SigningConfig {
+  maxClockSkewSeconds: number;
+  encryptionKey: Buffer | null;
+}
+
+export const signingConfig: SigningConfig = {
+  maxClockSkewSeconds: parseInt(process.env.SIGNATURE_MAX_CLOCK_SKEW_SECONDS || "300"),
+  // 32 bytes, hex encoded; without it keys are issued without a signing secret
+  encryptionKey: process.env.API_KEY_ENCRYPTION_KEY
+    ? Buffer.from(process.env.API_KEY_ENCRYPTION_KEY, "hex")
+    : null,
+};
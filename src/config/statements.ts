@@ -0,0 +1,8 @@
+export interface StatementConfig {
+  currency: string;
+}
+
+export const statementConfig: StatementConfig = {
+  // ISO 4217 code of the account currency, used by the camt.053 and MT940 exports
+  currency: process.env.STATEMENT_CURRENCY || "USD",
+};
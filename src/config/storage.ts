@@ -0,0 +1,11 @@
+export type StorageBackend = "mysql" | "sqlite" | "memory";
+
+export interface StorageConfig {
+  backend: StorageBackend;
+  sqlitePath: string;
+}
+
+export const storageConfig: StorageConfig = {
+  backend: (process.env.STORAGE_BACKEND || "mysql") as StorageBackend,
+  sqlitePath: process.env.SQLITE_PATH || ":memory:",
+};
@@ -0,0 +1,27 @@
+export interface WebhookConfig {
+  enabled: boolean;
+  pollIntervalMs: number;
+  batchSize: number;
+  leaseSeconds: number;
+  timeoutMs: number;
+  maxAttempts: number;
+  baseDelaySeconds: number;
+  maxDelaySeconds: number;
+  maxEndpointsPerUser: number;
+  allowPrivateNetworks: boolean;
+}
+
+export const webhookConfig: WebhookConfig = {
+  enabled: process.env.WEBHOOKS_ENABLED !== "false",
+  pollIntervalMs: parseInt(process.env.WEBHOOK_POLL_INTERVAL_MS || "2000"),
+  batchSize: parseInt(process.env.WEBHOOK_BATCH_SIZE || "20"),
+  leaseSeconds: parseInt(process.env.WEBHOOK_LEASE_SECONDS || "60"),
+  timeoutMs: parseInt(process.env.WEBHOOK_TIMEOUT_MS || "10000"),
+  // Attempt n waits baseDelaySeconds * 2^(n-1), capped at maxDelaySeconds
+  maxAttempts: parseInt(process.env.WEBHOOK_MAX_ATTEMPTS || "8"),
+  baseDelaySeconds: parseInt(process.env.WEBHOOK_BASE_DELAY_SECONDS || "30"),
+  maxDelaySeconds: parseInt(process.env.WEBHOOK_MAX_DELAY_SECONDS || "3600"),
+  maxEndpointsPerUser: parseInt(process.env.WEBHOOK_MAX_ENDPOINTS_PER_USER || "10"),
+  // Only for local development: lets endpoints resolve to loopback and private addresses
+  allowPrivateNetworks: process.env.WEBHOOK_ALLOW_PRIVATE_NETWORKS === "true",
+};
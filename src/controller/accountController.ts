@@ -2,36 +2,60 @@ import { Request, Response } from "express";
 import { TransactionService } from "../service/transactionService";
 import { AccountService } from "../service/accountService";
 import { AppError } from "../middleware/error";
+import { canAccess, hasPermission, ResourceAccess } from "../middleware/authorize";
+import { Account } from "../model/account";
+import { TransactionHistoryFilters } from "../model/transaction";
+import { Statement, StatementFormat } from "../model/statement";
+import { StatementService } from "../service/statementService";
+import { renderStatementCsv, renderStatementHtml, renderStatementPdf } from "../utils/statementFormat";
+import { renderCamt053 } from "../utils/camt053";
+import { renderMt940 } from "../utils/mt940";
+import { statementConfig } from "../config/statements";
+import { outboxConfig } from "../config/outbox";
+import { OutboxService } from "../service/outboxService";
+import { OutboxEvent } from "../model/outbox";
+import { accountEventStream } from "../worker/accountEventStream";
 
 export class AccountController {
   static async getAccountBalance(req: Request, res: Response): Promise<void> {
     try {
-      const accountId = parseInt(req.params.accountId);
+      const account = await AccountController.findAccessibleAccount(req, "read");
 
-      if (isNaN(accountId)) {
-        throw new AppError("Invalid account ID", 400);
-      }
+      const balance = await TransactionService.getAccountBalance(account.id);
 
-      // Verify account exists and get account details
-      const account = await AccountService.findById(accountId);
-      
-      if (!account) {
-        throw new AppError("Account not found", 404);
+      res.json({
+        success: true,
+        data: {
+          account_id: account.id,
+          balance: balance.balance,
+          available_balance: balance.available_balance,
+        },
+      });
+    } catch (error) {
+      if (error instanceof Error) {
+        if (error.message === "Account not found") {
+          throw new AppError("Account not found", 404);
+        }
+        throw new AppError(error.message, 400);
       }
+      throw error;
+    }
+  }
 
-      // Authorization check: Verify the authenticated user owns this account
-      if (!req.user || account.user_id !== req.user.id) {
-        throw new AppError("Unauthorized access to account", 403);
-      }
+  static async getAccountTransactions(req: Request, res: Response): Promise<void> {
+    try {
+      const account = await AccountController.findAccessibleAccount(req, "read");
 
-      const balance = await TransactionService.getAccountBalance(accountId);
+      const filters = res.locals.validated.query;
+
+      const page = await TransactionService.getAccountTransactions(
+        account.id,
+        filters as TransactionHistoryFilters
+      );
 
       res.json({
         success: true,
-        data: {
-          account_id: accountId,
-          balance: balance,
-        },
+        data: page,
       });
     } catch (error) {
       if (error instanceof Error) {
@@ -43,4 +67,242 @@ export class AccountController {
       throw error;
     }
   }
+
+  static async getStatement(req: Request, res: Response): Promise<void> {
+    try {
+      const account = await AccountController.findAccessibleAccount(req, "read");
+
+      // /statements/:period covers a calendar month, /statements?from&to a range of days (both UTC)
+      let start: Date;
+      let end: Date;
+      let format: StatementFormat;
+      if (req.params.period) {
+        const [year, month] = req.params.period.split("-").map(Number);
+        start = new Date(Date.UTC(year, month - 1, 1));
+        end = new Date(Date.UTC(year, month, 1));
+        format = res.locals.validated.query.format;
+      } else {
+        const query = res.locals.validated.query;
+        start = query.from;
+        end = new Date(query.to.getTime() + 86400000);
+        format = query.format;
+      }
+
+      const statement = await StatementService.getStatement(account.id, start, end);
+
+      AccountController.sendStatement(res, statement, format);
+    } catch (error) {
+      if (error instanceof Error) {
+        throw new AppError(error.message, 400);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Stream the account's published events as Server-Sent Events
+   * The SSE id is the event's sequence number; a client reconnecting with Last-Event-ID (or
+   * ?last_event_id=) first receives every event it missed, then live events
+   */
+  static async streamEvents(req: Request, res: Response): Promise<void> {
+    try {
+      const account = await AccountController.findAccessibleAccount(req, "owner");
+
+      const header = req.header("Last-Event-ID");
+      const query = res.locals.validated.query;
+      const resumeFrom: number | undefined = header !== undefined ? parseInt(header, 10) : query.last_event_id;
+
+      // Events published while catching up are held back and sent in order afterwards
+      let lastSent = 0;
+      let catchingUp = true;
+      const pending: OutboxEvent[] = [];
+      const send = (event: OutboxEvent) => {
+        if (event.sequence! <= lastSent) {
+          return;
+        }
+        lastSent = event.sequence!;
+        res.write(`id: ${event.sequence}\nevent: ${event.event_type}\ndata: ${JSON.stringify(event.payload)}\n\n`);
+      };
+
+      const unsubscribe = await accountEventStream.subscribe(
+        account.id,
+        (event) => (catchingUp ? pending.push(event) : send(event)),
+        () => res.end()
+      );
+      const heartbeat = setInterval(() => res.write(": keep-alive\n\n"), outboxConfig.streamHeartbeatSeconds * 1000);
+      res.on("close", () => {
+        clearInterval(heartbeat);
+        unsubscribe();
+      });
+
+      res.status(200).set({
+        "Content-Type": "text/event-stream",
+        "Cache-Control": "no-cache",
+        Connection: "keep-alive",
+        "X-Accel-Buffering": "no",
+      });
+      res.flushHeaders();
+      res.write("retry: 3000\n\n");
+
+      if (resumeFrom === undefined) {
+        lastSent = await OutboxService.latestSequence();
+      } else {
+        lastSent = resumeFrom;
+        let missed: OutboxEvent[];
+        do {
+          missed = await OutboxService.listPublished(lastSent, 100, account.id);
+          missed.forEach(send);
+        } while (missed.length === 100 && !res.writableEnded);
+      }
+
+      catchingUp = false;
+      pending.forEach(send);
+    } catch (error) {
+      if (res.headersSent) {
+        res.end();
+        return;
+      }
+      if (error instanceof Error) {
+        throw new AppError(error.message, 400);
+      }
+      throw error;
+    }
+  }
+
+  static async openAccount(req: Request, res: Response): Promise<void> {
+    try {
+      const account = await AccountService.open(req.user!.id);
+
+      res.status(201).json({
+        success: true,
+        data: account,
+      });
+    } catch (error) {
+      if (error instanceof Error) {
+        throw new AppError(error.message, 400);
+      }
+      throw error;
+    }
+  }
+
+  static async listAccounts(req: Request, res: Response): Promise<void> {
+    try {
+      const accounts = await AccountService.listForUser(req.user!.id);
+
+      res.json({
+        success: true,
+        data: accounts,
+      });
+    } catch (error) {
+      if (error instanceof Error) {
+        throw new AppError(error.message, 400);
+      }
+      throw error;
+    }
+  }
+
+  static async freezeAccount(req: Request, res: Response): Promise<void> {
+    try {
+      const account = await AccountController.findAccessibleAccount(req, "manage");
+
+      res.json({
+        success: true,
+        data: await AccountService.freeze(account.id, req.user!.id),
+      });
+    } catch (error) {
+      if (error instanceof Error) {
+        throw new AppError(error.message, 400);
+      }
+      throw error;
+    }
+  }
+
+  static async unfreezeAccount(req: Request, res: Response): Promise<void> {
+    try {
+      const account = await AccountController.findAccessibleAccount(req, "manage");
+
+      res.json({
+        success: true,
+        data: await AccountService.unfreeze(account.id, hasPermission(req.user, "accounts:manage:any")),
+      });
+    } catch (error) {
+      if (error instanceof Error) {
+        throw new AppError(error.message, 400);
+      }
+      throw error;
+    }
+  }
+
+  static async closeAccount(req: Request, res: Response): Promise<void> {
+    try {
+      const account = await AccountController.findAccessibleAccount(req, "manage");
+
+      res.json({
+        success: true,
+        data: await AccountService.close(account.id),
+      });
+    } catch (error) {
+      if (error instanceof Error) {
+        throw new AppError(error.message, 400);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Send a statement as JSON or as a CSV, HTML, PDF, camt.053 or MT940 document
+   */
+  private static sendStatement(res: Response, statement: Statement, format: StatementFormat): void {
+    const lastDay = new Date(statement.period_end.getTime() - 1).toISOString().slice(0, 10);
+    const filename = `statement-${statement.account_number}-${statement.period_start.toISOString().slice(0, 10)}-${lastDay}`;
+
+    switch (format) {
+      case "csv":
+        res.attachment(`${filename}.csv`).type("text/csv").send(renderStatementCsv(statement));
+        break;
+      case "html":
+        res.type("html").send(renderStatementHtml(statement));
+        break;
+      case "pdf":
+        res.attachment(`${filename}.pdf`).type("application/pdf").send(renderStatementPdf(statement));
+        break;
+      case "camt053":
+        res.attachment(`${filename}.xml`).type("application/xml").send(renderCamt053(statement, statementConfig.currency));
+        break;
+      case "mt940":
+        res.attachment(`${filename}.sta`).type("text/plain").send(renderMt940(statement, statementConfig.currency));
+        break;
+      default:
+        res.json({
+          success: true,
+          data: statement,
+        });
+    }
+  }
+
+  /**
+   * Load the account from :accountId and verify the authenticated user owns it
+   * or has a role that may read (or manage) any customer's accounts
+   */
+  private static async findAccessibleAccount(req: Request, access: ResourceAccess): Promise<Account> {
+    const accountId = parseInt(req.params.accountId);
+
+    if (isNaN(accountId)) {
+      throw new AppError("Invalid account ID", 400);
+    }
+
+    // Verify account exists and get account details
+    const account = await AccountService.findById(accountId);
+
+    if (!account) {
+      throw new AppError("Account not found", 404);
+    }
+
+    // Authorization check: Verify the authenticated user owns this account or is privileged
+    if (!canAccess(req.user, account.user_id, access)) {
+      throw new AppError("Unauthorized access to account", 403);
+    }
+
+    return account;
+  }
 }
@@ -0,0 +1,113 @@
+import { Request, Response } from "express";
+import { ApiKeyService } from "../service/apiKeyService";
+import { AppError } from "../middleware/error";
+import { CreateApiKeyData, RotateApiKeyData } from "../model/apiKey";
+
+export class ApiKeyController {
+  static async createApiKey(req: Request, res: Response): Promise<void> {
+    try {
+      const data = res.locals.validated.body;
+
+      const issued = await ApiKeyService.create(req.user!.id, data as CreateApiKeyData);
+
+      res.status(201).json({
+        success: true,
+        data: issued,
+      });
+    } catch (error) {
+      if (error instanceof Error) {
+        throw new AppError(error.message, 400);
+      }
+      throw error;
+    }
+  }
+
+  static async listApiKeys(req: Request, res: Response): Promise<void> {
+    try {
+      const apiKeys = await ApiKeyService.listForUser(req.user!.id);
+
+      res.json({
+        success: true,
+        data: apiKeys,
+      });
+    } catch (error) {
+      if (error instanceof Error) {
+        throw new AppError(error.message, 400);
+      }
+      throw error;
+    }
+  }
+
+  static async rotateApiKey(req: Request, res: Response): Promise<void> {
+    try {
+      const data = res.locals.validated.body;
+
+      const issued = await ApiKeyService.rotate(req.user!.id, req.params.keyId, data as RotateApiKeyData);
+
+      res.status(201).json({
+        success: true,
+        data: issued,
+      });
+    } catch (error) {
+      if (error instanceof Error) {
+        throw new AppError(error.message, 400);
+      }
+      throw error;
+    }
+  }
+
+  static async revokeApiKey(req: Request, res: Response): Promise<void> {
+    try {
+      const apiKey = await ApiKeyService.revoke(req.user!.id, req.params.keyId);
+
+      res.json({
+        success: true,
+        data: apiKey,
+      });
+    } catch (error) {
+      if (error instanceof Error) {
+        throw new AppError(error.message, 400);
+      }
+      throw error;
+    }
+  }
+
+  static async setKeySigningRequirement(req: Request, res: Response): Promise<void> {
+    try {
+      const apiKey = await ApiKeyService.setKeySigningRequirement(
+        req.user!.id,
+        req.params.keyId,
+        req.body.required
+      );
+
+      res.json({
+        success: true,
+        data: apiKey,
+      });
+    } catch (error) {
+      if (error instanceof Error) {
+        throw new AppError(error.message, 400);
+      }
+      throw error;
+    }
+  }
+
+  static async setUserSigningRequirement(req: Request, res: Response): Promise<void> {
+    try {
+      await ApiKeyService.setUserSigningRequirement(req.user!.id, req.body.required);
+
+      res.json({
+        success: true,
+        data: {
+          user_id: req.user!.id,
+          require_signed_requests: req.body.required,
+        },
+      });
+    } catch (error) {
+      if (error instanceof Error) {
+        throw new AppError(error.message, 400);
+      }
+      throw error;
+    }
+  }
+}
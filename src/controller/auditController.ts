@@ -0,0 +1,43 @@
+import { Request, Response } from "express";
+import { AuditService } from "../service/auditService";
+import { AppError } from "../middleware/error";
+import { AuditQuery } from "../model/audit";
+
+export class AuditController {
+  static async listEntries(req: Request, res: Response): Promise<void> {
+    try {
+      const query = res.locals.validated.query;
+
+      const page = await AuditService.list(query as AuditQuery);
+
+      res.json({
+        success: true,
+        data: page,
+      });
+    } catch (error) {
+      if (error instanceof Error) {
+        throw new AppError(error.message, 400);
+      }
+      throw error;
+    }
+  }
+
+  static async getEntry(req: Request, res: Response): Promise<void> {
+    try {
+      const entry = await AuditService.findByAuditId(req.params.auditId);
+      if (!entry) {
+        throw new AppError("Audit entry not found", 404);
+      }
+
+      res.json({
+        success: true,
+        data: entry,
+      });
+    } catch (error) {
+      if (error instanceof Error) {
+        throw new AppError(error.message, 400);
+      }
+      throw error;
+    }
+  }
+}
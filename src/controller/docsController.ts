@@ -0,0 +1,23 @@
+import { Request, Response } from "express";
+import { buildOpenApiDocument, OpenApiDocument } from "../docs/openapi";
+import { renderDocsPage } from "../docs/page";
+
+export class DocsController {
+  // Routes are registered once at startup, so both are built on first use and kept
+  private static document: OpenApiDocument | null = null;
+  private static page: string | null = null;
+
+  static async getOpenApiDocument(req: Request, res: Response): Promise<void> {
+    res.json(DocsController.getDocument());
+  }
+
+  static async getDocsPage(req: Request, res: Response): Promise<void> {
+    DocsController.page = DocsController.page ?? renderDocsPage(DocsController.getDocument());
+    res.type("html").send(DocsController.page);
+  }
+
+  private static getDocument(): OpenApiDocument {
+    DocsController.document = DocsController.document ?? buildOpenApiDocument();
+    return DocsController.document;
+  }
+}
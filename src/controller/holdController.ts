@@ -0,0 +1,105 @@
+import { Request, Response } from "express";
+import { HoldService } from "../service/holdService";
+import { AccountService } from "../service/accountService";
+import { AppError } from "../middleware/error";
+import { canAccess, ResourceAccess } from "../middleware/authorize";
+import { Hold, CreateHoldData, CaptureHoldData } from "../model/hold";
+
+export class HoldController {
+  static async authorizeHold(req: Request, res: Response): Promise<void> {
+    try {
+      const data = res.locals.validated.body;
+
+      const sourceAccount = await AccountService.findById(data.source_account_id);
+      if (!sourceAccount) {
+        throw new AppError("Source account not found", 404);
+      }
+      if (!req.user || sourceAccount.user_id !== req.user.id) {
+        throw new AppError("Unauthorized access to source account", 403);
+      }
+
+      const hold = await HoldService.authorize(data as CreateHoldData);
+
+      res.status(201).json({
+        success: true,
+        data: hold,
+      });
+    } catch (error) {
+      if (error instanceof Error) {
+        throw new AppError(error.message, 400);
+      }
+      throw error;
+    }
+  }
+
+  static async getHold(req: Request, res: Response): Promise<void> {
+    try {
+      const hold = await HoldController.findAccessibleHold(req, "read");
+
+      res.json({
+        success: true,
+        data: hold,
+      });
+    } catch (error) {
+      if (error instanceof Error) {
+        throw new AppError(error.message, 400);
+      }
+      throw error;
+    }
+  }
+
+  static async captureHold(req: Request, res: Response): Promise<void> {
+    try {
+      const hold = await HoldController.findAccessibleHold(req, "owner");
+
+      const data = res.locals.validated.body;
+      const result = await HoldService.capture(hold.hold_id, data as CaptureHoldData);
+
+      res.status(201).json({
+        success: true,
+        data: result,
+      });
+    } catch (error) {
+      if (error instanceof Error) {
+        throw new AppError(error.message, 400);
+      }
+      throw error;
+    }
+  }
+
+  static async voidHold(req: Request, res: Response): Promise<void> {
+    try {
+      const hold = await HoldController.findAccessibleHold(req, "manage");
+
+      const voided = await HoldService.void(hold.hold_id);
+
+      res.json({
+        success: true,
+        data: voided,
+      });
+    } catch (error) {
+      if (error instanceof Error) {
+        throw new AppError(error.message, 400);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Load the hold from :holdId and verify the authenticated user owns its account
+   * or has a role granting the requested access
+   */
+  private static async findAccessibleHold(req: Request, access: ResourceAccess): Promise<Hold> {
+    const hold = await HoldService.findByHoldId(req.params.holdId);
+    if (!hold) {
+      throw new AppError("Hold not found", 404);
+    }
+
+    const account = await AccountService.findById(hold.account_id);
+    if (!account || !canAccess(req.user, account.user_id, access)) {
+      throw new AppError("Unauthorized access to hold", 403);
+    }
+
+    return hold;
+  }
+}
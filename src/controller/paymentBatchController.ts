@@ -0,0 +1,125 @@
+import { Request, Response } from "express";
+import { PaymentBatchService } from "../service/paymentBatchService";
+import { AppError } from "../middleware/error";
+import { canAccess, ResourceAccess } from "../middleware/authorize";
+import { PaymentBatch, PaymentFileFormat } from "../model/paymentBatch";
+
+export class PaymentBatchController {
+  static async uploadBatch(req: Request, res: Response): Promise<void> {
+    try {
+      // The file is the raw request body; its content type selects the reader
+      let format: PaymentFileFormat;
+      if (req.is("text/csv")) {
+        format = "csv";
+      } else if (req.is(["application/xml", "text/xml"])) {
+        format = "pain001";
+      } else {
+        throw new AppError("Upload a CSV (text/csv) or pain.001 (application/xml) payment file", 415);
+      }
+      if (typeof req.body !== "string" || req.body.trim() === "") {
+        throw new AppError("Payment file is empty", 400);
+      }
+
+      const query = res.locals.validated.query;
+
+      const batch = await PaymentBatchService.preview({
+        user_id: req.user!.id,
+        file_format: format,
+        content: req.body,
+        mode: query.mode,
+      });
+
+      res.status(201).json({
+        success: true,
+        data: batch,
+      });
+    } catch (error) {
+      if (error instanceof Error) {
+        throw new AppError(error.message, 400);
+      }
+      throw error;
+    }
+  }
+
+  static async listBatches(req: Request, res: Response): Promise<void> {
+    try {
+      const batches = await PaymentBatchService.listForUser(req.user!.id);
+
+      res.json({
+        success: true,
+        data: batches,
+      });
+    } catch (error) {
+      if (error instanceof Error) {
+        throw new AppError(error.message, 400);
+      }
+      throw error;
+    }
+  }
+
+  static async getBatch(req: Request, res: Response): Promise<void> {
+    try {
+      const batch = await PaymentBatchController.findAccessibleBatch(req, "read");
+
+      res.json({
+        success: true,
+        data: batch,
+      });
+    } catch (error) {
+      if (error instanceof Error) {
+        throw new AppError(error.message, 400);
+      }
+      throw error;
+    }
+  }
+
+  static async confirmBatch(req: Request, res: Response): Promise<void> {
+    try {
+      const batch = await PaymentBatchController.findAccessibleBatch(req, "owner");
+
+      res.json({
+        success: true,
+        data: await PaymentBatchService.confirm(batch.batch_id),
+      });
+    } catch (error) {
+      if (error instanceof Error) {
+        throw new AppError(error.message, 400);
+      }
+      throw error;
+    }
+  }
+
+  static async cancelBatch(req: Request, res: Response): Promise<void> {
+    try {
+      const batch = await PaymentBatchController.findAccessibleBatch(req, "owner");
+
+      res.json({
+        success: true,
+        data: await PaymentBatchService.cancel(batch.batch_id),
+      });
+    } catch (error) {
+      if (error instanceof Error) {
+        throw new AppError(error.message, 400);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Load the batch from :batchId and verify the authenticated user uploaded it
+   * or has a role that may read any customer's data
+   */
+  private static async findAccessibleBatch(req: Request, access: ResourceAccess): Promise<PaymentBatch> {
+    const batch = await PaymentBatchService.findByBatchId(req.params.batchId);
+
+    if (!batch) {
+      throw new AppError("Payment batch not found", 404);
+    }
+
+    if (!canAccess(req.user, batch.user_id, access)) {
+      throw new AppError("Unauthorized access to payment batch", 403);
+    }
+
+    return batch;
+  }
+}
@@ -1,5 +1,7 @@
 import { Request, Response } from "express";
 import { TransactionService } from "../service/transactionService";
+import { LedgerService } from "../service/ledgerService";
+import { TransactionChainService } from "../service/transactionChainService";
 import { AppError } from "../middleware/error";
 
 export class ReportController {
@@ -18,4 +20,36 @@ export class ReportController {
       throw error;
     }
   }
+
+  static async getReconciliationReport(req: Request, res: Response): Promise<void> {
+    try {
+      const report = await LedgerService.getReconciliation();
+
+      res.json({
+        success: true,
+        data: report,
+      });
+    } catch (error) {
+      if (error instanceof Error) {
+        throw new AppError(error.message, 400);
+      }
+      throw error;
+    }
+  }
+
+  static async getChainVerification(req: Request, res: Response): Promise<void> {
+    try {
+      const report = await TransactionChainService.verify();
+
+      res.json({
+        success: true,
+        data: report,
+      });
+    } catch (error) {
+      if (error instanceof Error) {
+        throw new AppError(error.message, 400);
+      }
+      throw error;
+    }
+  }
 }
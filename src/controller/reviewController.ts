@@ -0,0 +1,79 @@
+import { Request, Response } from "express";
+import { ReviewService } from "../service/reviewService";
+import { AppError } from "../middleware/error";
+import { ReviewDecisionData } from "../model/fraud";
+
+export class ReviewController {
+  static async listReviews(req: Request, res: Response): Promise<void> {
+    try {
+      const query = res.locals.validated.query;
+
+      const reviews = await ReviewService.list(query.status, query.limit);
+
+      res.json({
+        success: true,
+        data: reviews,
+      });
+    } catch (error) {
+      if (error instanceof Error) {
+        throw new AppError(error.message, 400);
+      }
+      throw error;
+    }
+  }
+
+  static async getReview(req: Request, res: Response): Promise<void> {
+    try {
+      const review = await ReviewService.findByReviewId(req.params.reviewId);
+      if (!review) {
+        throw new AppError("Review not found", 404);
+      }
+
+      res.json({
+        success: true,
+        data: review,
+      });
+    } catch (error) {
+      if (error instanceof Error) {
+        throw new AppError(error.message, 400);
+      }
+      throw error;
+    }
+  }
+
+  static async approveReview(req: Request, res: Response): Promise<void> {
+    try {
+      const data = res.locals.validated.body;
+
+      const result = await ReviewService.approve(req.params.reviewId, req.user!.id, data as ReviewDecisionData);
+
+      res.json({
+        success: true,
+        data: result,
+      });
+    } catch (error) {
+      if (error instanceof Error) {
+        throw new AppError(error.message, 400);
+      }
+      throw error;
+    }
+  }
+
+  static async rejectReview(req: Request, res: Response): Promise<void> {
+    try {
+      const data = res.locals.validated.body;
+
+      const result = await ReviewService.reject(req.params.reviewId, req.user!.id, data as ReviewDecisionData);
+
+      res.json({
+        success: true,
+        data: result,
+      });
+    } catch (error) {
+      if (error instanceof Error) {
+        throw new AppError(error.message, 400);
+      }
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,153 @@
+import { Request, Response } from "express";
+import { ScheduleService } from "../service/scheduleService";
+import { AccountService } from "../service/accountService";
+import { AppError } from "../middleware/error";
+import { canAccess, ResourceAccess } from "../middleware/authorize";
+import { Schedule, CreateScheduleData } from "../model/schedule";
+
+export class ScheduleController {
+  static async createSchedule(req: Request, res: Response): Promise<void> {
+    try {
+      const data = res.locals.validated.body;
+
+      const sourceAccount = await AccountService.findById(data.source_account_id);
+      if (!sourceAccount) {
+        throw new AppError("Source account not found", 404);
+      }
+      if (!req.user || sourceAccount.user_id !== req.user.id) {
+        throw new AppError("Unauthorized access to source account", 403);
+      }
+
+      const destinationAccount = await AccountService.findById(data.destination_account_id);
+      if (!destinationAccount) {
+        throw new AppError("Destination account not found", 404);
+      }
+
+      const schedule = await ScheduleService.create(sourceAccount.user_id, data as CreateScheduleData);
+
+      res.status(201).json({
+        success: true,
+        data: schedule,
+      });
+    } catch (error) {
+      if (error instanceof Error) {
+        throw new AppError(error.message, 400);
+      }
+      throw error;
+    }
+  }
+
+  static async listSchedules(req: Request, res: Response): Promise<void> {
+    try {
+      const schedules = await ScheduleService.listForUser(req.user!.id);
+
+      res.json({
+        success: true,
+        data: schedules,
+      });
+    } catch (error) {
+      if (error instanceof Error) {
+        throw new AppError(error.message, 400);
+      }
+      throw error;
+    }
+  }
+
+  static async getSchedule(req: Request, res: Response): Promise<void> {
+    try {
+      const schedule = await ScheduleController.findAccessibleSchedule(req, "read");
+
+      res.json({
+        success: true,
+        data: schedule,
+      });
+    } catch (error) {
+      if (error instanceof Error) {
+        throw new AppError(error.message, 400);
+      }
+      throw error;
+    }
+  }
+
+  static async listScheduleRuns(req: Request, res: Response): Promise<void> {
+    try {
+      const schedule = await ScheduleController.findAccessibleSchedule(req, "read");
+      const runs = await ScheduleService.listRuns(schedule);
+
+      res.json({
+        success: true,
+        data: runs,
+      });
+    } catch (error) {
+      if (error instanceof Error) {
+        throw new AppError(error.message, 400);
+      }
+      throw error;
+    }
+  }
+
+  static async pauseSchedule(req: Request, res: Response): Promise<void> {
+    try {
+      const schedule = await ScheduleController.findAccessibleSchedule(req, "manage");
+
+      res.json({
+        success: true,
+        data: await ScheduleService.pause(schedule.schedule_id),
+      });
+    } catch (error) {
+      if (error instanceof Error) {
+        throw new AppError(error.message, 400);
+      }
+      throw error;
+    }
+  }
+
+  static async resumeSchedule(req: Request, res: Response): Promise<void> {
+    try {
+      const schedule = await ScheduleController.findAccessibleSchedule(req, "owner");
+
+      res.json({
+        success: true,
+        data: await ScheduleService.resume(schedule.schedule_id),
+      });
+    } catch (error) {
+      if (error instanceof Error) {
+        throw new AppError(error.message, 400);
+      }
+      throw error;
+    }
+  }
+
+  static async cancelSchedule(req: Request, res: Response): Promise<void> {
+    try {
+      const schedule = await ScheduleController.findAccessibleSchedule(req, "manage");
+
+      res.json({
+        success: true,
+        data: await ScheduleService.cancel(schedule.schedule_id),
+      });
+    } catch (error) {
+      if (error instanceof Error) {
+        throw new AppError(error.message, 400);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Load the schedule from :scheduleId and verify the authenticated user owns it
+   * or has a role granting the requested access
+   */
+  private static async findAccessibleSchedule(req: Request, access: ResourceAccess): Promise<Schedule> {
+    const schedule = await ScheduleService.findByScheduleId(req.params.scheduleId);
+    if (!schedule) {
+      throw new AppError("Schedule not found", 404);
+    }
+
+    if (!canAccess(req.user, schedule.user_id, access)) {
+      throw new AppError("Unauthorized access to schedule", 403);
+    }
+
+    return schedule;
+  }
+}
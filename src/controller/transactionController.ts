@@ -1,47 +1,283 @@
 import { Request, Response } from "express";
 import { TransactionService } from "../service/transactionService";
 import { AccountService } from "../service/accountService";
+import { TransactionChainService } from "../service/transactionChainService";
+import { IdempotencyService } from "../service/idempotencyService";
+import { IdempotencyContext } from "../model/idempotency";
 import { AppError } from "../middleware/error";
+import { canAccess, hasPermission } from "../middleware/authorize";
+import { CreateTransactionData, ReverseTransactionData, Transaction } from "../model/transaction";
+import { TransactionReceipt } from "../model/transactionChain";
 
 export class TransactionController {
   static async submitTransaction(req: Request, res: Response): Promise<void> {
     try {
-      const { source_account_id, destination_account_id } = req.body;
+      await TransactionController.checkOwnership(req, req.body);
 
-      if (source_account_id) {
-        const sourceAccount = await AccountService.findById(source_account_id);
-        if (!sourceAccount) {
-          throw new AppError("Source account not found", 404);
-        }
-        if (!req.user || sourceAccount.user_id !== req.user.id) {
-          throw new AppError("Unauthorized access to source account", 403);
-        }
+      await TransactionController.respondIdempotently(req, res, (idempotency) => {
+        const data = res.locals.validated.body;
+        return TransactionService.submitTransaction(data as CreateTransactionData, idempotency);
+      }, true);
+    } catch (error) {
+      if (error instanceof Error) {
+        throw new AppError(error.message, 400);
+      }
+      throw error;
+    }
+  }
+
+  static async submitBatch(req: Request, res: Response): Promise<void> {
+    try {
+      for (const leg of req.body.legs) {
+        await TransactionController.checkOwnership(req, leg);
+      }
+
+      await TransactionController.respondIdempotently(req, res, (idempotency) => {
+        const data = res.locals.validated.body;
+        return TransactionService.submitBatch(data.legs as CreateTransactionData[], idempotency);
+      });
+    } catch (error) {
+      if (error instanceof Error) {
+        throw new AppError(error.message, 400);
+      }
+      throw error;
+    }
+  }
+
+  static async getBatch(req: Request, res: Response): Promise<void> {
+    try {
+      const batch = await TransactionService.findByBatchId(req.params.batchId);
+      if (!batch) {
+        throw new AppError("Transaction batch not found", 404);
+      }
+
+      // Anyone who can read an account touched by one of the legs may see the whole batch
+      if (!(await TransactionController.canReadAnyAccount(req, batch.legs))) {
+        throw new AppError("Unauthorized access to transaction batch", 403);
+      }
+
+      res.json({
+        success: true,
+        data: batch,
+      });
+    } catch (error) {
+      if (error instanceof Error) {
+        throw new AppError(error.message, 400);
+      }
+      throw error;
+    }
+  }
+
+  static async getReceipt(req: Request, res: Response): Promise<void> {
+    try {
+      const transaction = await TransactionService.findByTransactionId(req.params.transactionId);
+      if (!transaction) {
+        throw new AppError("Transaction not found", 404);
+      }
+      if (!(await TransactionController.canReadAnyAccount(req, [transaction]))) {
+        throw new AppError("Unauthorized access to transaction", 403);
+      }
+
+      // Transactions held for fraud review are linked, and get a receipt, once decided
+      const receipt = await TransactionChainService.getReceipt(transaction.transaction_id);
+      if (!receipt) {
+        throw new AppError("Transaction has no receipt yet", 409);
+      }
+
+      res.json({
+        success: true,
+        data: receipt,
+      });
+    } catch (error) {
+      if (error instanceof Error) {
+        throw new AppError(error.message, 400);
+      }
+      throw error;
+    }
+  }
+
+  static async getReceiptKey(req: Request, res: Response): Promise<void> {
+    try {
+      res.json({
+        success: true,
+        data: TransactionChainService.getPublicKey(),
+      });
+    } catch (error) {
+      if (error instanceof Error) {
+        throw new AppError(error.message, 400);
       }
+      throw error;
+    }
+  }
 
-      if (destination_account_id && req.body.type === 'deposit') {
-        const destAccount = await AccountService.findById(destination_account_id);
-        if (!destAccount) {
-          throw new AppError("Destination account not found", 404);
+  static async reverseTransaction(req: Request, res: Response): Promise<void> {
+    try {
+      const original = await TransactionService.findByTransactionId(req.params.transactionId);
+      if (!original) {
+        throw new AppError("Transaction not found", 404);
+      }
+
+      if (original.type === "withdrawal") {
+        // Crediting a withdrawal back from cash hands the customer money they already took out,
+        // so it is a correction staff make on the account, not something its owner can trigger
+        const account = original.source_account_id ? await AccountService.findById(original.source_account_id) : null;
+        if (!account || !hasPermission(req.user, "accounts:manage:any")) {
+          throw new AppError("Only staff can reverse a withdrawal", 403);
         }
-        if (!req.user || destAccount.user_id !== req.user.id) {
-          throw new AppError("Unauthorized access to destination account", 403);
+      } else {
+        // Other reversals debit the account that received the money, so only its owner may trigger them
+        const debitedAccount = original.destination_account_id ? await AccountService.findById(original.destination_account_id) : null;
+        if (!req.user || !debitedAccount || debitedAccount.user_id !== req.user.id) {
+          throw new AppError("Unauthorized to reverse this transaction", 403);
         }
       }
 
-      const transaction = await TransactionService.submitTransaction(req.body);
+      await TransactionController.respondIdempotently(req, res, (idempotency) => {
+        const data = res.locals.validated.body;
+        return TransactionService.reverseTransaction(
+          original.transaction_id,
+          data as ReverseTransactionData,
+          idempotency
+        );
+      });
+    } catch (error) {
+      if (error instanceof Error) {
+        throw new AppError(error.message, 400);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Check whether the user may read any account the transactions touch
+   */
+  private static async canReadAnyAccount(
+    req: Request,
+    transactions: { source_account_id?: number; destination_account_id?: number }[]
+  ): Promise<boolean> {
+    const accountIds = new Set(transactions.flatMap(transaction => [transaction.source_account_id, transaction.destination_account_id]));
+    for (const accountId of accountIds) {
+      const account = accountId ? await AccountService.findById(accountId) : null;
+      if (account && canAccess(req.user, account.user_id, "read")) {
+        return true;
+      }
+    }
+    return false;
+  }
+
+  /**
+   * Verify the authenticated user owns the account a transaction debits, and the account a deposit credits
+   */
+  private static async checkOwnership(
+    req: Request,
+    data: { type: string; source_account_id?: number; destination_account_id?: number }
+  ): Promise<void> {
+    if (data.source_account_id) {
+      const sourceAccount = await AccountService.findById(data.source_account_id);
+      if (!sourceAccount) {
+        throw new AppError("Source account not found", 404);
+      }
+      if (!req.user || sourceAccount.user_id !== req.user.id) {
+        throw new AppError("Unauthorized access to source account", 403);
+      }
+    }
+
+    if (data.destination_account_id && data.type === 'deposit') {
+      const destAccount = await AccountService.findById(data.destination_account_id);
+      if (!destAccount) {
+        throw new AppError("Destination account not found", 404);
+      }
+      if (!req.user || destAccount.user_id !== req.user.id) {
+        throw new AppError("Unauthorized access to destination account", 403);
+      }
+    }
+  }
+
+  /**
+   * Run a money-moving operation and respond 201, honouring the Idempotency-Key header
+   * With withReceipt, the response also carries the signed receipt of the resulting transaction
+   */
+  private static async respondIdempotently(
+    req: Request,
+    res: Response,
+    execute: (idempotency?: IdempotencyContext) => Promise<unknown>,
+    withReceipt: boolean = false
+  ): Promise<void> {
+    const idempotencyKey = req.header("Idempotency-Key");
+    let idempotency: IdempotencyContext | undefined;
+
+    if (idempotencyKey && req.user) {
+      idempotency = {
+        user_id: req.user.id,
+        key: idempotencyKey,
+        fingerprint: IdempotencyService.fingerprint(req.method, req.baseUrl + req.path, req.body),
+      };
+
+      if (await TransactionController.replayIdempotentResponse(idempotency, res, withReceipt)) {
+        return;
+      }
+    }
+
+    try {
+      const data = await execute(idempotency);
 
       res.status(201).json({
         success: true,
-        data: transaction,
+        data,
+        ...(withReceipt && { receipt: await TransactionController.findReceipt(data as Transaction) }),
       });
     } catch (error) {
-      if (error instanceof Error) {
-        throw new AppError(error.message, 400);
+      // A concurrent retry committed first: replay its response instead of failing
+      if (
+        idempotency &&
+        error instanceof Error &&
+        error.message === "Idempotency key is already in use" &&
+        (await TransactionController.replayIdempotentResponse(idempotency, res, withReceipt))
+      ) {
+        return;
       }
       throw error;
     }
   }
 
+  private static async replayIdempotentResponse(
+    idempotency: IdempotencyContext,
+    res: Response,
+    withReceipt: boolean
+  ): Promise<boolean> {
+    const stored = await IdempotencyService.findResponse(idempotency);
+
+    if (!stored) {
+      return false;
+    }
+
+    res.set("Idempotent-Replayed", "true");
+    res.status(stored.status).json({
+      success: true,
+      data: stored.body,
+      ...(withReceipt && { receipt: await TransactionController.findReceipt(stored.body as Transaction) }),
+    });
+    return true;
+  }
+
+  /**
+   * The receipt to return with a new transaction: null when receipts are not configured
+   * or the transaction is held for review. The money has already moved, so a receipt that
+   * cannot be issued must not turn the response into an error
+   */
+  private static async findReceipt(transaction: Transaction): Promise<TransactionReceipt | null> {
+    if (!TransactionChainService.receiptsEnabled()) {
+      return null;
+    }
+
+    try {
+      return await TransactionChainService.getReceipt(transaction.transaction_id);
+    } catch (error) {
+      console.error("Receipt error:", error);
+      return null;
+    }
+  }
+
   static async getAccountBalance(req: Request, res: Response): Promise<void> {
     try {
       const accountId = parseInt(req.params.accountId);
@@ -56,7 +292,8 @@ export class TransactionController {
         success: true,
         data: {
           account_id: accountId,
-          balance: balance,
+          balance: balance.balance,
+          available_balance: balance.available_balance,
         },
       });
     } catch (error) {
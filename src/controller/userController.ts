@@ -0,0 +1,71 @@
+import { Request, Response } from "express";
+import { UserService } from "../service/userService";
+import { LimitService } from "../service/limitService";
+import { AppError } from "../middleware/error";
+
+export class UserController {
+  static async getCurrentUser(req: Request, res: Response): Promise<void> {
+    res.json({
+      success: true,
+      data: req.user,
+    });
+  }
+
+  static async setUserRole(req: Request, res: Response): Promise<void> {
+    try {
+      const userId = parseInt(req.params.userId);
+
+      // Demoting yourself could leave the system without an admin
+      if (userId === req.user!.id) {
+        throw new AppError("Cannot change your own role", 403);
+      }
+
+      const user = await UserService.setRole(userId, req.body.role);
+
+      res.json({
+        success: true,
+        data: user,
+      });
+    } catch (error) {
+      if (error instanceof Error) {
+        throw new AppError(error.message, 400);
+      }
+      throw error;
+    }
+  }
+
+  static async getUserLimits(req: Request, res: Response): Promise<void> {
+    try {
+      // /me/limits reports on the caller; /:userId/limits is guarded by accounts:read:any
+      const userId = req.params.userId ? parseInt(req.params.userId) : req.user!.id;
+
+      const report = await LimitService.getUserLimits(userId);
+
+      res.json({
+        success: true,
+        data: report,
+      });
+    } catch (error) {
+      if (error instanceof Error) {
+        throw new AppError(error.message, 400);
+      }
+      throw error;
+    }
+  }
+
+  static async setUserKycTier(req: Request, res: Response): Promise<void> {
+    try {
+      const user = await UserService.setKycTier(parseInt(req.params.userId), req.body.kyc_tier);
+
+      res.json({
+        success: true,
+        data: user,
+      });
+    } catch (error) {
+      if (error instanceof Error) {
+        throw new AppError(error.message, 400);
+      }
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,150 @@
+import { Request, Response } from "express";
+import { WebhookService } from "../service/webhookService";
+import { AppError } from "../middleware/error";
+import { canAccess, ResourceAccess } from "../middleware/authorize";
+import { WebhookEndpoint, WebhookDeliveryFilters } from "../model/webhook";
+
+export class WebhookController {
+  static async registerEndpoint(req: Request, res: Response): Promise<void> {
+    try {
+      const data = res.locals.validated.body;
+
+      const endpoint = await WebhookService.register({
+        user_id: req.user!.id,
+        url: data.url,
+        description: data.description,
+        events: data.events,
+      });
+
+      res.status(201).json({
+        success: true,
+        data: endpoint,
+      });
+    } catch (error) {
+      if (error instanceof Error) {
+        throw new AppError(error.message, 400);
+      }
+      throw error;
+    }
+  }
+
+  static async listEndpoints(req: Request, res: Response): Promise<void> {
+    try {
+      const endpoints = await WebhookService.listForUser(req.user!.id);
+
+      res.json({
+        success: true,
+        data: endpoints,
+      });
+    } catch (error) {
+      if (error instanceof Error) {
+        throw new AppError(error.message, 400);
+      }
+      throw error;
+    }
+  }
+
+  static async getEndpoint(req: Request, res: Response): Promise<void> {
+    try {
+      const endpoint = await WebhookController.findAccessibleEndpoint(req, "read");
+
+      res.json({
+        success: true,
+        data: endpoint,
+      });
+    } catch (error) {
+      if (error instanceof Error) {
+        throw new AppError(error.message, 400);
+      }
+      throw error;
+    }
+  }
+
+  static async disableEndpoint(req: Request, res: Response): Promise<void> {
+    try {
+      const endpoint = await WebhookController.findAccessibleEndpoint(req, "owner");
+
+      res.json({
+        success: true,
+        data: await WebhookService.disable(endpoint.endpoint_id),
+      });
+    } catch (error) {
+      if (error instanceof Error) {
+        throw new AppError(error.message, 400);
+      }
+      throw error;
+    }
+  }
+
+  static async listDeliveries(req: Request, res: Response): Promise<void> {
+    try {
+      const endpoint = await WebhookController.findAccessibleEndpoint(req, "read");
+      const filters = res.locals.validated.query;
+
+      res.json({
+        success: true,
+        data: await WebhookService.listDeliveries(endpoint.endpoint_id, filters as WebhookDeliveryFilters),
+      });
+    } catch (error) {
+      if (error instanceof Error) {
+        throw new AppError(error.message, 400);
+      }
+      throw error;
+    }
+  }
+
+  static async getDelivery(req: Request, res: Response): Promise<void> {
+    try {
+      const endpoint = await WebhookController.findAccessibleEndpoint(req, "read");
+
+      const delivery = await WebhookService.findDelivery(endpoint.endpoint_id, req.params.deliveryId);
+      if (!delivery) {
+        throw new AppError("Webhook delivery not found", 404);
+      }
+
+      res.json({
+        success: true,
+        data: delivery,
+      });
+    } catch (error) {
+      if (error instanceof Error) {
+        throw new AppError(error.message, 400);
+      }
+      throw error;
+    }
+  }
+
+  static async replayDelivery(req: Request, res: Response): Promise<void> {
+    try {
+      const endpoint = await WebhookController.findAccessibleEndpoint(req, "owner");
+
+      res.json({
+        success: true,
+        data: await WebhookService.replay(endpoint.endpoint_id, req.params.deliveryId),
+      });
+    } catch (error) {
+      if (error instanceof Error) {
+        throw new AppError(error.message, 400);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Load the endpoint from :endpointId and verify the authenticated user registered it
+   * or has a role granting the requested access
+   */
+  private static async findAccessibleEndpoint(req: Request, access: ResourceAccess): Promise<WebhookEndpoint> {
+    const endpoint = await WebhookService.findByEndpointId(req.params.endpointId);
+
+    if (!endpoint) {
+      throw new AppError("Webhook endpoint not found", 404);
+    }
+
+    if (!canAccess(req.user, endpoint.user_id, access)) {
+      throw new AppError("Unauthorized access to webhook endpoint", 403);
+    }
+
+    return endpoint;
+  }
+}
@@ -0,0 +1,569 @@
+import Joi from 'joi';
+import { mountedRouters } from '../route';
+import { getValidation, schemas, Validation } from '../middleware/validation';
+import { getRequiredPermissions } from '../middleware/authorize';
+import { Permission } from '../config/permissions';
+import { ErrorStatus, OperationDoc, operations } from './operations';
+import { responses } from './responses';
+
+/**
+ * OpenAPI 3 document of the /api routes
+ * Paths, parameters, request bodies and permissions are read from the mounted routers and their
+ * validate() / requirePermission() middleware; Joi schemas are converted to JSON Schema from
+ * their describe() output. Summaries and responses come from docs/operations.ts
+ */
+
+export type JsonSchema = { [keyword: string]: unknown };
+
+export interface OpenApiDocument {
+  openapi: string;
+  info: { title: string; version: string; description: string };
+  servers: { url: string }[];
+  tags: { name: string }[];
+  security: Record<string, string[]>[];
+  paths: Record<string, Record<string, JsonSchema>>;
+  components: {
+    schemas: Record<string, JsonSchema>;
+    responses: Record<string, JsonSchema>;
+    securitySchemes: Record<string, JsonSchema>;
+  };
+}
+
+/**
+ * A route below /api as registered with Express
+ */
+export interface ApiRoute {
+  method: string;
+  path: string;
+  tag: string;
+  validations: Validation[];
+  permissions: Permission[];
+}
+
+// The parts of Joi's describe() output the converter reads
+interface JoiDescription {
+  type: string;
+  flags?: {
+    presence?: 'required' | 'optional' | 'forbidden';
+    only?: boolean;
+    default?: unknown;
+    description?: string;
+    unknown?: boolean;
+  };
+  allow?: unknown[];
+  invalid?: unknown[];
+  rules?: { name: string; args?: Record<string, any> }[];
+  keys?: Record<string, JoiDescription>;
+  items?: JoiDescription[];
+  matches?: { schema: JoiDescription }[];
+  whens?: { ref: JoiReference['ref']; is: JoiDescription; then?: JoiDescription; otherwise?: JoiDescription }[];
+  metas?: { className?: string; description?: string }[];
+  examples?: unknown[];
+}
+
+interface JoiReference {
+  ref: { path: string[] };
+}
+
+const ERROR_RESPONSES: Record<400 | 401 | ErrorStatus, [name: string, description: string]> = {
+  400: ['BadRequest', 'The request is invalid (VALIDATION_ERROR) or was rejected'],
+  401: ['Unauthorized', 'Credentials are missing or invalid'],
+  403: ['Forbidden', 'The authenticated user may not access the resource'],
+  404: ['NotFound', 'A resource in the request does not exist'],
+  409: ['Conflict', 'The resource is in a state that does not allow the operation'],
+  415: ['UnsupportedMediaType', 'The request body has an unsupported content type'],
+  422: ['UnprocessableEntity', 'The request is well-formed but cannot be carried out'],
+  503: ['ServiceUnavailable', 'A feature the operation needs is not configured on the server']
+};
+
+const MONEY_INPUT: JsonSchema = {
+  description: 'A JSON number or a decimal string with at most 2 decimal places',
+  oneOf: [
+    { type: 'number', multipleOf: 0.01 },
+    { type: 'string', pattern: '^-?\\d+(\\.\\d{1,2})?$' }
+  ],
+  example: '100.00'
+};
+
+/**
+ * Every route of the routers mounted below /api, in registration order
+ */
+export function collectRoutes(): ApiRoute[] {
+  return mountedRouters.flatMap(({ path: mountPath, guards, router }) => {
+    const mountPermissions = guards.flatMap(guard => getRequiredPermissions(guard) ?? []);
+
+    return router.stack.flatMap(layer => {
+      if (!layer.route) {
+        return [];
+      }
+
+      const handlers = layer.route.stack.map(handler => handler.handle);
+      const methods = [...new Set(layer.route.stack.map(handler => handler.method.toUpperCase()))];
+      const routePath = layer.route.path === '/' ? '' : layer.route.path;
+
+      return methods.map(method => ({
+        method,
+        path: `${mountPath}${routePath}`.replace(/:(\w+)/g, '{$1}'),
+        tag: mountPath.slice(1),
+        validations: handlers.map(getValidation).filter((validation): validation is Validation => !!validation),
+        permissions: [...mountPermissions, ...handlers.flatMap(handler => getRequiredPermissions(handler) ?? [])]
+      }));
+    });
+  });
+}
+
+/**
+ * Build the OpenAPI document for the routes
+ * @param routes - The routes to document (defaults to the mounted /api routes)
+ * @returns The document; routes without an entry in docs/operations.ts are included without responses
+ * @throws Error if a schema uses a Joi type the converter does not know
+ */
+export function buildOpenApiDocument(routes: ApiRoute[] = collectRoutes()): OpenApiDocument {
+  const converter = new SchemaConverter();
+  const paths: OpenApiDocument['paths'] = {};
+
+  for (const route of routes) {
+    paths[route.path] = paths[route.path] ?? {};
+    paths[route.path][route.method.toLowerCase()] = buildOperation(route, operations[operationKey(route)], converter);
+  }
+
+  return {
+    openapi: '3.0.3',
+    info: {
+      title: 'Banking Transactions API',
+      version: '1.0.0',
+      description: 'Successful responses are `{ "success": true, "data": ... }`; errors are an `Error` object. Amounts are exact decimal strings.'
+    },
+    servers: [{ url: '/api' }],
+    tags: [...new Set(routes.map(route => route.tag))].map(name => ({ name })),
+    security: [{ SecretKey: [] }, { RequestSignature: [] }],
+    paths,
+    components: {
+      schemas: converter.components,
+      responses: Object.fromEntries(Object.entries(ERROR_RESPONSES).map(([status, [name, description]]) => [
+        name,
+        {
+          description,
+          content: {
+            'application/json': { schema: converter.convert(status === '401' ? responses.authenticationError : responses.error) }
+          }
+        }
+      ])),
+      securitySchemes: {
+        SecretKey: {
+          type: 'apiKey',
+          in: 'header',
+          name: 'X-Secret-Key',
+          description: 'The secret of an API key. Refused for keys or users that require signed requests.'
+        },
+        RequestSignature: {
+          type: 'apiKey',
+          in: 'header',
+          name: 'X-Signature',
+          description: 'HMAC-SHA256 over the method, path, X-Timestamp, X-Nonce and body hash, sent together with X-Api-Key-Id, X-Timestamp and X-Nonce (see `npm run sign`).'
+        }
+      }
+    }
+  };
+}
+
+/**
+ * Find routes the document cannot describe fully
+ * @returns One message per problem; empty when every route is documented
+ */
+export function findDocumentationProblems(routes: ApiRoute[] = collectRoutes()): string[] {
+  const problems: string[] = [];
+  const routeKeys = new Set(routes.map(operationKey));
+
+  for (const route of routes) {
+    const key = operationKey(route);
+    const doc = operations[key];
+
+    if (!doc) {
+      problems.push(`${key} has no entry in src/docs/operations.ts`);
+    } else if (!doc.data && !doc.formats) {
+      problems.push(`${key} documents no response schema`);
+    }
+
+    const validatedParams = route.validations
+      .filter(validation => validation.property === 'params')
+      .flatMap(validation => Object.keys(describe(validation.schema).keys ?? {}));
+    for (const [, name] of route.path.matchAll(/\{(\w+)\}/g)) {
+      if (!validatedParams.includes(name)) {
+        problems.push(`${key} has no schema for path parameter ${name}`);
+      }
+    }
+  }
+
+  for (const key of Object.keys(operations)) {
+    if (!routeKeys.has(key)) {
+      problems.push(`${key} is documented in src/docs/operations.ts but no such route exists`);
+    }
+  }
+
+  try {
+    const document = buildOpenApiDocument(routes);
+    for (const ref of findRefs(document)) {
+      const [, section, name] = ref.split('/').slice(1);
+      const components = document.components[section as keyof OpenApiDocument['components']];
+      if (!components || !(name in components)) {
+        problems.push(`${ref} does not resolve`);
+      }
+    }
+  } catch (error) {
+    problems.push((error as Error).message);
+  }
+
+  return problems;
+}
+
+function buildOperation(route: ApiRoute, doc: OperationDoc | undefined, converter: SchemaConverter): JsonSchema {
+  const operation: JsonSchema = {
+    tags: [route.tag],
+    summary: doc?.summary ?? `${route.method} ${route.path}`
+  };
+
+  const description = [
+    doc?.description,
+    route.permissions.length > 0 ? `Requires the ${route.permissions.map(permission => `\`${permission}\``).join(' and ')} permission.` : undefined
+  ].filter(Boolean).join('\n\n');
+  if (description) {
+    operation.description = description;
+  }
+  if (route.permissions.length > 0) {
+    operation['x-permissions'] = route.permissions;
+  }
+
+  const parameters = route.validations
+    .filter(validation => validation.property !== 'body')
+    .flatMap(validation => buildParameters(validation, converter));
+  if (parameters.length > 0) {
+    operation.parameters = parameters;
+  }
+
+  const body = route.validations.find(validation => validation.property === 'body');
+  if (body) {
+    const keys = describe(body.schema).keys ?? {};
+    operation.requestBody = {
+      required: Object.values(keys).some(key => key.flags?.presence === 'required'),
+      content: { 'application/json': { schema: converter.convertNamed(body.schema, requestSchemaName(body.schema)) } }
+    };
+  } else if (doc?.uploads) {
+    operation.requestBody = {
+      required: true,
+      content: Object.fromEntries(Object.entries(doc.uploads).map(([mediaType, text]) => [
+        mediaType,
+        { schema: { type: 'string', description: text } }
+      ]))
+    };
+  }
+
+  operation.responses = buildResponses(route, doc, converter);
+  return operation;
+}
+
+function buildParameters(validation: Validation, converter: SchemaConverter): JsonSchema[] {
+  const location = { params: 'path', query: 'query', headers: 'header' }[validation.property as 'params' | 'query' | 'headers'];
+  const keys = describe(validation.schema).keys ?? {};
+
+  return Object.entries(keys).map(([name, key]) => {
+    const { description, ...schema } = converter.convertDescription(key);
+    return {
+      name: location === 'header' ? name.replace(/(^|-)(\w)/g, (match: string) => match.toUpperCase()) : name,
+      in: location,
+      required: location === 'path' || key.flags?.presence === 'required',
+      ...(description ? { description } : {}),
+      schema
+    };
+  });
+}
+
+function buildResponses(route: ApiRoute, doc: OperationDoc | undefined, converter: SchemaConverter): JsonSchema {
+  const result: JsonSchema = {};
+  const status = doc?.status ?? 200;
+  const content: JsonSchema = {};
+
+  if (doc?.data) {
+    const envelope = Joi.object({
+      success: Joi.boolean().valid(true).required(),
+      data: doc.data.required(),
+      ...doc.envelope
+    });
+    content['application/json'] = { schema: converter.convert(envelope) };
+  }
+  for (const [mediaType, text] of Object.entries(doc?.formats ?? {})) {
+    content[mediaType] = {
+      schema: { type: 'string', ...(mediaType === 'application/pdf' ? { format: 'binary' } : {}), description: text }
+    };
+  }
+
+  result[status] = {
+    description: doc ? (status === 201 ? 'Created' : 'OK') : 'Not documented',
+    ...(Object.keys(content).length > 0 ? { content } : {})
+  };
+
+  const errors = new Set<400 | 401 | ErrorStatus>([400, 401, ...(doc?.errors ?? [])]);
+  if (route.permissions.length > 0) {
+    errors.add(403);
+  }
+  for (const error of [...errors].sort((a, b) => a - b)) {
+    result[error] = { $ref: `#/components/responses/${ERROR_RESPONSES[error][0]}` };
+  }
+
+  return result;
+}
+
+/**
+ * Converts Joi schemas to OpenAPI 3.0 schema objects, collecting named ones as components
+ */
+class SchemaConverter {
+  readonly components: Record<string, JsonSchema> = { Amount: MONEY_INPUT };
+
+  convert(schema: Joi.Schema): JsonSchema {
+    return this.convertDescription(describe(schema));
+  }
+
+  /**
+   * Convert a schema that has no className of its own into a component with the given name
+   */
+  convertNamed(schema: Joi.Schema, name: string): JsonSchema {
+    return this.convert(schema.meta({ className: name }));
+  }
+
+  convertDescription(description: JoiDescription): JsonSchema {
+    const meta = description.metas?.filter(candidate => candidate.className).pop();
+    if (!meta) {
+      return this.convertInline(description);
+    }
+    const name = meta.className!;
+
+    // Flags that belong to where the schema is used, not to the component
+    const { presence, default: defaultValue, description: text, ...flags } = description.flags ?? {};
+    const nullable = description.allow?.includes(null) ?? false;
+    const component = this.convertInline({
+      ...description,
+      flags: { ...flags, description: meta.description },
+      allow: description.allow?.filter(value => value !== null)
+    });
+
+    const existing = this.components[name];
+    if (!existing) {
+      this.components[name] = component;
+    } else if (JSON.stringify(existing) !== JSON.stringify(component)) {
+      throw new Error(`Schema component ${name} is defined more than once with different contents`);
+    }
+
+    const ref = { $ref: `#/components/schemas/${name}` };
+    if (!nullable && text === undefined && defaultValue === undefined) {
+      return ref;
+    }
+    return {
+      allOf: [ref],
+      ...(nullable ? { nullable: true } : {}),
+      ...(text !== undefined ? { description: text } : {}),
+      ...(defaultValue !== undefined ? { default: defaultValue } : {})
+    };
+  }
+
+  private convertInline(description: JoiDescription): JsonSchema {
+    const schema = this.convertType(description);
+    const notes: string[] = [];
+
+    const values = description.allow?.filter(value => value !== null) ?? [];
+    if (description.flags?.only && values.length > 0) {
+      schema.enum = values;
+    }
+    if (description.allow?.includes(null)) {
+      schema.nullable = true;
+      if (schema.enum) {
+        schema.enum = [...values, null];
+      }
+    }
+    if (description.flags?.default !== undefined && typeof description.flags.default !== 'function') {
+      schema.default = description.flags.default;
+    }
+    if (description.examples?.length) {
+      schema.example = description.examples[0];
+    }
+
+    for (const invalid of description.invalid ?? []) {
+      if (isReference(invalid)) {
+        notes.push(`Must differ from \`${referenceName(invalid)}\`.`);
+      }
+    }
+    notes.push(...(description.rules ?? []).map(dateRuleNote).filter((note): note is string => !!note));
+    notes.push(...(description.whens ?? []).map(whenNote));
+
+    const text = [description.flags?.description, ...notes].filter(Boolean).join(' ');
+    if (text) {
+      schema.description = typeof schema.description === 'string' ? `${schema.description} ${text}` : text;
+    }
+
+    // A reference with nothing beside it needs no allOf
+    const [only] = Object.keys(schema);
+    if (only === 'allOf' && (schema.allOf as JsonSchema[]).length === 1) {
+      return (schema.allOf as JsonSchema[])[0];
+    }
+    return schema;
+  }
+
+  private convertType(description: JoiDescription): JsonSchema {
+    const rules = description.rules ?? [];
+    const rule = (name: string) => rules.find(candidate => candidate.name === name)?.args;
+    const hasRule = (name: string) => rules.some(candidate => candidate.name === name);
+
+    switch (description.type) {
+      case 'any':
+        return {};
+
+      case 'boolean':
+        return { type: 'boolean' };
+
+      case 'date':
+        return { type: 'string', format: 'date-time' };
+
+      case 'number': {
+        const schema: JsonSchema = { type: hasRule('integer') ? 'integer' : 'number' };
+        if (rule('min')) schema.minimum = rule('min')!.limit;
+        if (rule('max')) schema.maximum = rule('max')!.limit;
+        if (rule('greater')) Object.assign(schema, { minimum: rule('greater')!.limit, exclusiveMinimum: true });
+        if (rule('sign')?.sign === 'positive') {
+          Object.assign(schema, schema.type === 'integer' ? { minimum: 1 } : { minimum: 0, exclusiveMinimum: true });
+        }
+        return schema;
+      }
+
+      case 'string': {
+        const schema: JsonSchema = { type: 'string' };
+        if (rule('min')) schema.minLength = rule('min')!.limit;
+        if (rule('max')) schema.maxLength = rule('max')!.limit;
+        if (rule('pattern')) schema.pattern = regexSource(rule('pattern')!.regex);
+        if (hasRule('guid')) schema.format = 'uuid';
+        if (hasRule('uri')) schema.format = 'uri';
+        if (hasRule('hex')) schema.pattern = '^[0-9a-fA-F]+$';
+        if (rule('base64')) schema.format = rule('base64')!.options?.urlSafe ? 'base64url' : 'byte';
+        if (isCustom(description, 'calendar date')) {
+          delete schema.pattern;
+          schema.format = 'date';
+        }
+        return schema;
+      }
+
+      case 'array': {
+        const schema: JsonSchema = { type: 'array', items: description.items?.[0] ? this.convertDescription(description.items[0]) : {} };
+        if (rule('min')) schema.minItems = rule('min')!.limit;
+        if (rule('max')) schema.maxItems = rule('max')!.limit;
+        if (hasRule('unique')) schema.uniqueItems = true;
+        return schema;
+      }
+
+      case 'object': {
+        const keys = Object.entries(description.keys ?? {})
+          .filter(([, key]) => key.flags?.presence !== 'forbidden');
+        const schema: JsonSchema = { type: 'object' };
+        if (keys.length > 0) {
+          schema.properties = Object.fromEntries(keys.map(([name, key]) => [name, this.convertDescription(key)]));
+        }
+        const required = keys.filter(([, key]) => key.flags?.presence === 'required').map(([name]) => name);
+        if (required.length > 0) {
+          schema.required = required;
+        }
+        if (description.flags?.unknown) {
+          schema.additionalProperties = true;
+        }
+        return schema;
+      }
+
+      case 'alternatives':
+        if (isCustom(description, 'money')) {
+          return { allOf: [{ $ref: '#/components/schemas/Amount' }] };
+        }
+        return { oneOf: (description.matches ?? []).map(match => this.convertDescription(match.schema)) };
+
+      default:
+        throw new Error(`Joi type ${description.type} cannot be converted to an OpenAPI schema`);
+    }
+  }
+}
+
+function describe(schema: Joi.Schema): JoiDescription {
+  return schema.describe() as JoiDescription;
+}
+
+function operationKey(route: ApiRoute): string {
+  return `${route.method} ${route.path}`;
+}
+
+/**
+ * Component name of a request body: its key in schemas, e.g. holdCapture -> HoldCaptureRequest
+ */
+function requestSchemaName(schema: Joi.ObjectSchema): string {
+  const key = Object.entries(schemas).find(([, candidate]) => candidate === schema)?.[0] ?? 'Anonymous';
+  return `${key[0].toUpperCase()}${key.slice(1)}Request`;
+}
+
+function isCustom(description: JoiDescription, name: string): boolean {
+  return (description.rules ?? []).some(rule => rule.name === 'custom' && rule.args?.description === name);
+}
+
+function isReference(value: unknown): value is JoiReference {
+  return typeof value === 'object' && value !== null && 'ref' in value;
+}
+
+function referenceName(value: JoiReference): string {
+  return value.ref.path.join('.');
+}
+
+function regexSource(regex: string): string {
+  return regex.slice(1, regex.lastIndexOf('/'));
+}
+
+function dateRuleNote(rule: { name: string; args?: Record<string, any> }): string | undefined {
+  const date = rule.args?.date;
+  if (date === undefined || !['min', 'greater'].includes(rule.name)) {
+    return undefined;
+  }
+
+  const target = date === 'now' ? 'now' : isReference(date) ? `\`${referenceName(date)}\`` : String(date);
+  return rule.name === 'min' ? `Must not be before ${target}.` : `Must be after ${target}.`;
+}
+
+/**
+ * Describe a Joi when() in words: OpenAPI 3.0 has no conditional schemas
+ */
+function whenNote(when: NonNullable<JoiDescription['whens']>[number]): string {
+  const field = `\`${when.ref.path.join('.')}\``;
+  const values = when.is.allow?.filter(value => value !== null) ?? [];
+  const condition = values.length > 0 ? `${field} is ${values.join(' or ')}` : `${field} is given`;
+
+  const outcome = (schema?: JoiDescription) => {
+    if (!schema) {
+      return undefined;
+    }
+    if (schema.flags?.presence === 'required') {
+      return 'required';
+    }
+    if (schema.flags?.presence === 'forbidden') {
+      return 'not allowed';
+    }
+    const note = (schema.rules ?? []).map(dateRuleNote).filter(Boolean).join(' ').replace(/\.$/, '');
+    return note ? `${note[0].toLowerCase()}${note.slice(1)}` : undefined;
+  };
+
+  const then = outcome(when.then);
+  const otherwise = outcome(when.otherwise);
+  const sentence = `${then ? `${then[0].toUpperCase()}${then.slice(1)}` : 'Applies'} when ${condition}`;
+  return otherwise ? `${sentence}; ${otherwise} otherwise.` : `${sentence}.`;
+}
+
+function findRefs(value: unknown): string[] {
+  if (Array.isArray(value)) {
+    return value.flatMap(findRefs);
+  }
+  if (typeof value === 'object' && value !== null) {
+    return Object.entries(value).flatMap(([key, child]) =>
+      key === '$ref' && typeof child === 'string' ? [child] : findRefs(child)
+    );
+  }
+  return [];
+}
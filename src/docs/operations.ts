@@ -0,0 +1,373 @@
+import Joi from 'joi';
+import { responses } from './responses';
+
+/**
+ * What the routes cannot tell the OpenAPI generator: summaries, response bodies and the errors
+ * each operation can answer with. Parameters, request bodies and permissions come from the
+ * validate() and requirePermission() middleware of the route itself
+ */
+
+export type ErrorStatus = 403 | 404 | 409 | 415 | 422 | 503;
+
+export interface OperationDoc {
+  summary: string;
+  description?: string;
+  // Success status, 200 unless set
+  status?: number;
+  // `data` of the { success: true, data } response
+  data?: Joi.Schema;
+  // Other top-level fields of the JSON response
+  envelope?: Record<string, Joi.Schema>;
+  // Responses other than JSON, by media type
+  formats?: Record<string, string>;
+  // Request bodies that are not JSON, by media type
+  uploads?: Record<string, string>;
+  // Errors besides 400 and 401, which every operation can return, and 403 for permission guards
+  errors?: ErrorStatus[];
+}
+
+const statementFormats = {
+  'text/csv': 'format=csv',
+  'text/html': 'format=html, a printable page',
+  'application/pdf': 'format=pdf',
+  'application/xml': 'format=camt053, an ISO 20022 camt.053 statement',
+  'text/plain': 'format=mt940, a SWIFT MT940 statement'
+};
+
+const idempotency = 'With an Idempotency-Key header, a retry returns the stored response with `Idempotent-Replayed: true` instead of running again.';
+
+/**
+ * Operations by method and OpenAPI path below /api
+ */
+export const operations: Record<string, OperationDoc> = {
+  'POST /accounts': {
+    summary: 'Open a new account for the authenticated user',
+    status: 201,
+    data: responses.account
+  },
+  'GET /accounts': {
+    summary: "List the authenticated user's accounts",
+    data: responses.accounts
+  },
+  'GET /accounts/{accountId}/events': {
+    summary: "Stream the account's events",
+    description: 'Server-Sent Events. The event id is its sequence number: reconnect with the Last-Event-ID header (or `last_event_id`) to receive the events missed in between first.',
+    formats: {
+      'text/event-stream': '`event` is the event type and `data` the DomainEvent as JSON; comments are sent as keep-alives'
+    },
+    errors: [403, 404]
+  },
+  'GET /accounts/{accountId}/balance': {
+    summary: 'Get account balance',
+    data: responses.accountBalance,
+    errors: [403, 404]
+  },
+  'GET /accounts/{accountId}/transactions': {
+    summary: 'List account transactions',
+    description: 'Newest first, with the running balance after each transaction. Pass `next_cursor` as `cursor` for the next page.',
+    data: responses.transactionHistoryPage,
+    errors: [403, 404]
+  },
+  'GET /accounts/{accountId}/statements': {
+    summary: 'Get a statement for a range of days (UTC)',
+    data: responses.statement,
+    formats: statementFormats,
+    errors: [403, 404]
+  },
+  'GET /accounts/{accountId}/statements/{period}': {
+    summary: 'Get the statement for a calendar month (UTC)',
+    data: responses.statement,
+    formats: statementFormats,
+    errors: [403, 404]
+  },
+  'POST /accounts/{accountId}/freeze': {
+    summary: 'Freeze an account',
+    data: responses.account,
+    errors: [403, 404, 409]
+  },
+  'POST /accounts/{accountId}/unfreeze': {
+    summary: 'Unfreeze a frozen account',
+    description: 'Only staff can unfreeze an account that staff froze.',
+    data: responses.account,
+    errors: [403, 404, 409]
+  },
+  'POST /accounts/{accountId}/close': {
+    summary: 'Close an account with a zero balance',
+    data: responses.account,
+    errors: [403, 404, 409]
+  },
+
+  'POST /transactions': {
+    summary: 'Submit a deposit, withdrawal or transfer',
+    description: `A transaction that cannot complete (e.g. insufficient funds) is still recorded and returned with status \`failed\`. ${idempotency}`,
+    status: 201,
+    data: responses.transaction,
+    envelope: {
+      receipt: responses.transactionReceipt.allow(null).description('null when receipts are not configured or the transaction is held for review')
+    },
+    errors: [403, 404, 409]
+  },
+  'POST /transactions/batches': {
+    summary: 'Submit several transactions that complete or fail together',
+    description: idempotency,
+    status: 201,
+    data: responses.transactionBatch,
+    errors: [403, 404, 409]
+  },
+  'GET /transactions/batches/{batchId}': {
+    summary: 'Get the legs of a batch',
+    data: responses.transactionBatch,
+    errors: [403, 404]
+  },
+  'GET /transactions/receipt-key': {
+    summary: 'Get the public key that transaction receipts are signed with',
+    data: responses.receiptPublicKey,
+    errors: [503]
+  },
+  'GET /transactions/{transactionId}/receipt': {
+    summary: 'Get the signed receipt of a transaction',
+    data: responses.transactionReceipt,
+    errors: [403, 404, 409, 503]
+  },
+  'POST /transactions/{transactionId}/reverse': {
+    summary: 'Reverse (refund) a completed transaction in full or in part',
+    description: `Without an amount, the rest of the reversible amount is reversed. Only the owner of the account the reversal debits may request it; a withdrawal is credited back from cash and can only be reversed by staff with \`accounts:manage:any\`. ${idempotency}`,
+    status: 201,
+    data: responses.reversalResult,
+    errors: [403, 404, 409, 422]
+  },
+
+  'POST /holds': {
+    summary: 'Authorize a hold (reserve funds)',
+    status: 201,
+    data: responses.hold,
+    errors: [403, 404, 409, 422]
+  },
+  'GET /holds/{holdId}': {
+    summary: 'Get a hold',
+    data: responses.hold,
+    errors: [403, 404]
+  },
+  'POST /holds/{holdId}/capture': {
+    summary: 'Capture a hold in full or in part',
+    status: 201,
+    data: responses.captureHoldResult,
+    errors: [403, 404, 409, 422]
+  },
+  'POST /holds/{holdId}/void': {
+    summary: 'Void a hold (release funds)',
+    data: responses.hold,
+    errors: [403, 404, 409]
+  },
+
+  'POST /schedules': {
+    summary: 'Create a scheduled or recurring transfer',
+    status: 201,
+    data: responses.schedule,
+    errors: [403, 404]
+  },
+  'GET /schedules': {
+    summary: "List the authenticated user's schedules",
+    data: responses.schedules
+  },
+  'GET /schedules/{scheduleId}': {
+    summary: 'Get a schedule',
+    data: responses.schedule,
+    errors: [403, 404]
+  },
+  'GET /schedules/{scheduleId}/runs': {
+    summary: 'List the recorded runs of a schedule',
+    data: responses.scheduleRuns,
+    errors: [403, 404]
+  },
+  'POST /schedules/{scheduleId}/pause': {
+    summary: 'Pause a schedule',
+    data: responses.schedule,
+    errors: [403, 404, 409]
+  },
+  'POST /schedules/{scheduleId}/resume': {
+    summary: 'Resume a paused schedule',
+    data: responses.schedule,
+    errors: [403, 404, 409]
+  },
+  'POST /schedules/{scheduleId}/cancel': {
+    summary: 'Cancel a schedule',
+    data: responses.schedule,
+    errors: [403, 404, 409]
+  },
+
+  'POST /keys': {
+    summary: 'Issue a new API key',
+    description: 'The secret is only returned here.',
+    status: 201,
+    data: responses.issuedApiKey,
+    errors: [409, 503]
+  },
+  'GET /keys': {
+    summary: "List the authenticated user's API keys",
+    data: responses.apiKeys
+  },
+  'PUT /keys/signing': {
+    summary: 'Require signed requests for every key of the authenticated user',
+    data: responses.userSigningRequirement,
+    errors: [409]
+  },
+  'PUT /keys/{keyId}/signing': {
+    summary: 'Require signed requests for a single key',
+    data: responses.apiKey,
+    errors: [404, 409]
+  },
+  'POST /keys/{keyId}/rotate': {
+    summary: 'Replace a key with a new one',
+    description: 'The old key keeps working for a grace period. The new secret is only returned here.',
+    status: 201,
+    data: responses.issuedApiKey,
+    errors: [404, 409]
+  },
+  'POST /keys/{keyId}/revoke': {
+    summary: 'Revoke a key immediately',
+    data: responses.apiKey,
+    errors: [404, 409]
+  },
+
+  'GET /users/me': {
+    summary: 'Get the authenticated user',
+    data: responses.user
+  },
+  'GET /users/me/limits': {
+    summary: "Get the authenticated user's transaction limits and usage",
+    data: responses.userLimitsReport
+  },
+  'GET /users/{userId}/limits': {
+    summary: "Get any user's transaction limits and usage",
+    data: responses.userLimitsReport,
+    errors: [404]
+  },
+  'PUT /users/{userId}/kyc-tier': {
+    summary: 'Move a user to another KYC tier',
+    data: responses.user,
+    errors: [404, 422]
+  },
+  'PUT /users/{userId}/role': {
+    summary: 'Assign a role to a user',
+    description: 'Users cannot change their own role.',
+    data: responses.user,
+    errors: [404]
+  },
+
+  'POST /payment-batches': {
+    summary: 'Upload a payment file and preview its lines',
+    description: 'Nothing is executed until the batch is confirmed.',
+    status: 201,
+    data: responses.paymentBatch,
+    uploads: {
+      'text/csv': 'CSV with a header row naming amount, source_account_id and destination_account_id, plus optional type (default transfer) and reference',
+      'application/xml': 'ISO 20022 pain.001 credit transfer initiation'
+    },
+    errors: [415, 422]
+  },
+  'GET /payment-batches': {
+    summary: "List the authenticated user's payment batches",
+    data: responses.paymentBatches
+  },
+  'GET /payment-batches/{batchId}': {
+    summary: 'Get a payment batch with the status of every line',
+    data: responses.paymentBatch,
+    errors: [403, 404]
+  },
+  'POST /payment-batches/{batchId}/confirm': {
+    summary: 'Execute the valid lines of a previewed batch',
+    description: 'Confirming a best-effort batch that is still processing resumes it; lines that already have an outcome are not run again.',
+    data: responses.paymentBatch,
+    errors: [403, 404, 409, 422]
+  },
+  'POST /payment-batches/{batchId}/cancel': {
+    summary: 'Discard a previewed batch',
+    data: responses.paymentBatch,
+    errors: [403, 404, 409]
+  },
+
+  'POST /webhooks': {
+    summary: 'Register a webhook endpoint',
+    description: 'The response contains the signing secret, which is only returned here.',
+    status: 201,
+    data: responses.issuedWebhookEndpoint,
+    errors: [409, 422, 503]
+  },
+  'GET /webhooks': {
+    summary: "List the authenticated user's webhook endpoints",
+    data: responses.webhookEndpoints
+  },
+  'GET /webhooks/{endpointId}': {
+    summary: 'Get a webhook endpoint',
+    data: responses.webhookEndpoint,
+    errors: [403, 404]
+  },
+  'DELETE /webhooks/{endpointId}': {
+    summary: 'Disable a webhook endpoint',
+    description: 'Nothing more is sent to it.',
+    data: responses.webhookEndpoint,
+    errors: [403, 404, 409]
+  },
+  'GET /webhooks/{endpointId}/deliveries': {
+    summary: "List a webhook endpoint's deliveries",
+    data: responses.webhookDeliveries,
+    errors: [403, 404]
+  },
+  'GET /webhooks/{endpointId}/deliveries/{deliveryId}': {
+    summary: 'Get a delivery with its attempt history',
+    data: responses.webhookDelivery,
+    errors: [403, 404]
+  },
+  'POST /webhooks/{endpointId}/deliveries/{deliveryId}/replay': {
+    summary: 'Send a failed delivery again',
+    data: responses.webhookDelivery,
+    errors: [403, 404, 409]
+  },
+
+  'GET /reports/summary': {
+    summary: 'Get the summary report',
+    description: 'Balances and largest transaction per account, and failed transactions by reason.',
+    data: responses.summaryReport
+  },
+  'GET /reports/reconciliation': {
+    summary: 'Reconcile account balances against the ledger',
+    data: responses.reconciliationReport
+  },
+  'GET /reports/chain': {
+    summary: 'Verify the transaction hash chain',
+    description: 'Reports the first broken link, if any.',
+    data: responses.chainVerification
+  },
+
+  'GET /reviews': {
+    summary: 'List fraud reviews',
+    data: responses.fraudReviews
+  },
+  'GET /reviews/{reviewId}': {
+    summary: 'Get a fraud review with the rules that flagged it',
+    data: responses.fraudReview,
+    errors: [404]
+  },
+  'POST /reviews/{reviewId}/approve': {
+    summary: 'Approve a held transaction and apply it',
+    description: 'The transaction is applied now, so it can still fail, e.g. for insufficient funds.',
+    data: responses.reviewDecisionResult,
+    errors: [404, 409]
+  },
+  'POST /reviews/{reviewId}/reject': {
+    summary: 'Reject a held transaction',
+    data: responses.reviewDecisionResult,
+    errors: [404, 409]
+  },
+
+  'GET /audit': {
+    summary: 'Query the audit log, newest first',
+    data: responses.auditPage
+  },
+  'GET /audit/{auditId}': {
+    summary: 'Get one audit entry',
+    data: responses.auditEntry,
+    errors: [404]
+  }
+};
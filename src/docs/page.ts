@@ -0,0 +1,209 @@
+import { JsonSchema, OpenApiDocument } from './openapi';
+
+/**
+ * Standalone HTML reference for the OpenAPI document, served at /api/docs
+ * Rendered on the server without scripts or external assets, so it works offline and behind
+ * a strict Content-Security-Policy
+ */
+
+const HTTP_METHODS = ['get', 'post', 'put', 'patch', 'delete'];
+
+/**
+ * Render the document as a browsable page: operations grouped by tag, then every schema
+ * @param document - The OpenAPI document
+ * @returns HTML document
+ */
+export function renderDocsPage(document: OpenApiDocument): string {
+  const operations = Object.entries(document.paths).flatMap(([path, item]) =>
+    HTTP_METHODS.filter(method => item[method]).map(method => ({ path, method, operation: item[method] }))
+  );
+
+  const sections = document.tags.map(({ name }) => {
+    const tagged = operations.filter(({ operation }) => (operation.tags as string[]).includes(name));
+    return `
+  <section id="tag-${anchor(name)}">
+    <h2>${escapeHtml(name)}</h2>${tagged.map(({ path, method, operation }) => renderOperation(path, method, operation, document)).join('')}
+  </section>`;
+  }).join('');
+
+  const navigation = document.tags.map(({ name }) => `
+      <li><a href="#tag-${anchor(name)}">${escapeHtml(name)}</a></li>`).join('');
+
+  const schemas = Object.entries(document.components.schemas).map(([name, schema]) => `
+    <div class="schema" id="schema-${anchor(name)}">
+      <h3>${escapeHtml(name)}</h3>
+      ${schema.description ? `<p>${inline(schema.description as string)}</p>` : ''}
+      ${renderSchema(schema)}
+    </div>`).join('');
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="utf-8">
+  <title>${escapeHtml(document.info.title)} ${escapeHtml(document.info.version)}</title>
+  <style>
+    body { font-family: sans-serif; margin: 0; color: #222; display: flex; }
+    nav { position: sticky; top: 0; height: 100vh; overflow-y: auto; padding: 1em 2em; background: #f6f6f6; min-width: 12em; box-sizing: border-box; }
+    nav ul { list-style: none; padding: 0; }
+    main { padding: 1em 2em; max-width: 72em; }
+    .operation { border: 1px solid #ddd; border-radius: 4px; margin: 1em 0; padding: 0.5em 1em; }
+    .method { display: inline-block; min-width: 4.5em; font-weight: bold; text-transform: uppercase; }
+    .get { color: #1b6ac9; } .post { color: #2e7d32; } .put { color: #b26a00; } .delete { color: #c62828; }
+    table { border-collapse: collapse; width: 100%; margin: 0.5em 0; }
+    th, td { padding: 4px 8px; border-bottom: 1px solid #eee; text-align: left; vertical-align: top; }
+    td table { margin: 0; }
+    code { background: #f3f3f3; padding: 0 3px; }
+    .muted { color: #777; }
+  </style>
+</head>
+<body>
+  <nav>
+    <h3>${escapeHtml(document.info.title)}</h3>
+    <p><a href="/api/docs/openapi.json">openapi.json</a></p>
+    <ul>${navigation}
+      <li><a href="#schemas">schemas</a></li>
+    </ul>
+  </nav>
+  <main>
+    <h1>${escapeHtml(document.info.title)} <span class="muted">${escapeHtml(document.info.version)}</span></h1>
+    <p>${inline(document.info.description)}</p>
+    <p>Paths are relative to <code>${escapeHtml(document.servers[0].url)}</code>.</p>
+    <h2>Authentication</h2>
+    <table>${Object.entries(document.components.securitySchemes).map(([name, scheme]) => `
+      <tr><td><code>${escapeHtml(scheme.name as string)}</code> header (${escapeHtml(name)})</td><td>${inline(scheme.description as string)}</td></tr>`).join('')}
+    </table>${sections}
+  <section id="schemas">
+    <h2>Schemas</h2>${schemas}
+  </section>
+  </main>
+</body>
+</html>
+`;
+}
+
+function renderOperation(path: string, method: string, operation: JsonSchema, document: OpenApiDocument): string {
+  const parameters = (operation.parameters as JsonSchema[] | undefined) ?? [];
+  const requestBody = operation.requestBody as { required: boolean; content: Record<string, { schema: JsonSchema }> } | undefined;
+  const responses = operation.responses as Record<string, JsonSchema>;
+
+  const parameterRows = parameters.map(parameter => `
+          <tr>
+            <td><code>${escapeHtml(parameter.name as string)}</code>${parameter.required ? ' *' : ''}</td>
+            <td>${escapeHtml(parameter.in as string)}</td>
+            <td>${typeLabel(parameter.schema as JsonSchema)}</td>
+            <td>${describeSchema(parameter)}${constraints(parameter.schema as JsonSchema)}</td>
+          </tr>`).join('');
+
+  const bodies = Object.entries(requestBody?.content ?? {}).map(([mediaType, { schema }]) => `
+        <p>Request body <code>${escapeHtml(mediaType)}</code>${requestBody!.required ? '' : ' (optional)'}: ${typeLabel(schema)}${schema.description ? ` ${inline(schema.description as string)}` : ''}</p>`).join('');
+
+  const responseRows = Object.entries(responses).map(([status, reference]) => {
+    // Error responses are shared components
+    const response = reference.$ref ? document.components.responses[(reference.$ref as string).split('/').pop()!] : reference;
+    const description = response.description as string;
+    const content = Object.entries((response.content as Record<string, { schema: JsonSchema }> | undefined) ?? {});
+    return `
+          <tr>
+            <td>${escapeHtml(status)}</td>
+            <td>${escapeHtml(description)}</td>
+            <td>${content.map(([mediaType, { schema }]) => `<code>${escapeHtml(mediaType)}</code> ${renderSchema(schema)}`).join('<br>')}</td>
+          </tr>`;
+  }).join('');
+
+  return `
+    <div class="operation" id="${anchor(`${method}-${path}`)}">
+      <h3><span class="method ${method}">${method}</span> <code>${escapeHtml(path)}</code></h3>
+      <p>${escapeHtml(operation.summary as string)}</p>
+      ${operation.description ? (operation.description as string).split('\n\n').map(paragraph => `<p>${inline(paragraph)}</p>`).join('') : ''}
+      ${parameterRows ? `<table>
+        <thead><tr><th>Parameter</th><th>In</th><th>Type</th><th>Description</th></tr></thead>
+        <tbody>${parameterRows}
+        </tbody>
+      </table>` : ''}${bodies}
+      <table>
+        <thead><tr><th>Status</th><th>Response</th><th>Body</th></tr></thead>
+        <tbody>${responseRows}
+        </tbody>
+      </table>
+    </div>`;
+}
+
+/**
+ * An object's properties as a table (nested objects inline), anything else as its type
+ */
+function renderSchema(schema: JsonSchema): string {
+  const properties = schema.properties as Record<string, JsonSchema> | undefined;
+  if (!properties) {
+    return typeLabel(schema);
+  }
+
+  const required = (schema.required as string[] | undefined) ?? [];
+  return `<table>${Object.entries(properties).map(([name, property]) => `
+          <tr>
+            <td><code>${escapeHtml(name)}</code>${required.includes(name) ? ' *' : ''}</td>
+            <td>${renderSchema(property)}</td>
+            <td>${describeSchema(property)}${constraints(property)}</td>
+          </tr>`).join('')}
+        </table>`;
+}
+
+function typeLabel(schema: JsonSchema): string {
+  let label: string;
+  if (schema.$ref) {
+    const name = (schema.$ref as string).split('/').pop()!;
+    label = `<a href="#schema-${anchor(name)}">${escapeHtml(name)}</a>`;
+  } else if (schema.allOf) {
+    label = (schema.allOf as JsonSchema[]).map(typeLabel).join(' and ');
+  } else if (schema.oneOf) {
+    label = (schema.oneOf as JsonSchema[]).map(typeLabel).join(' or ');
+  } else if (schema.enum) {
+    label = (schema.enum as unknown[]).filter(value => value !== null).map(value => `<code>${escapeHtml(JSON.stringify(value))}</code>`).join(' | ');
+  } else if (schema.type === 'array') {
+    const items = schema.items as JsonSchema;
+    label = `array of ${items.properties ? renderSchema(items) : typeLabel(items)}`;
+  } else {
+    label = escapeHtml(`${schema.type ?? 'any'}${schema.format ? ` (${schema.format})` : ''}`);
+  }
+
+  return schema.nullable ? `${label} | null` : label;
+}
+
+function describeSchema(schema: JsonSchema): string {
+  return schema.description ? inline(schema.description as string) : '';
+}
+
+function constraints(schema: JsonSchema): string {
+  const notes = [
+    schema.minimum !== undefined ? `${schema.exclusiveMinimum ? '>' : '≥'} ${schema.minimum}` : null,
+    schema.maximum !== undefined ? `≤ ${schema.maximum}` : null,
+    schema.minLength !== undefined ? `at least ${schema.minLength} characters` : null,
+    schema.maxLength !== undefined ? `at most ${schema.maxLength} characters` : null,
+    schema.minItems !== undefined ? `at least ${schema.minItems} items` : null,
+    schema.maxItems !== undefined ? `at most ${schema.maxItems} items` : null,
+    schema.uniqueItems ? 'unique items' : null,
+    schema.pattern !== undefined ? `matches <code>${escapeHtml(schema.pattern as string)}</code>` : null,
+    schema.default !== undefined ? `default <code>${escapeHtml(JSON.stringify(schema.default))}</code>` : null
+  ].filter(Boolean);
+
+  return notes.length > 0 ? ` <span class="muted">${notes.join(', ')}</span>` : '';
+}
+
+/**
+ * Escape text and show `backticked` parts as code
+ */
+function inline(text: string): string {
+  return escapeHtml(text).replace(/`([^`]+)`/g, '<code>$1</code>');
+}
+
+function anchor(text: string): string {
+  return text.replace(/[^A-Za-z0-9]+/g, '-').replace(/^-|-$/g, '').toLowerCase();
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
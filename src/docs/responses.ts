@@ -0,0 +1,451 @@
+import Joi from 'joi';
+
+/**
+ * Response schemas for the OpenAPI document (see docs/openapi.ts)
+ * Written in Joi like the request schemas in middleware/validation.ts, so one converter turns
+ * both into JSON Schema. They document the models in model/ and are never used to validate.
+ * meta({ className, description }) makes a schema a named component; description() is left
+ * for describing a field where the schema is used
+ */
+
+const money = Joi.string().pattern(/^-?\d+\.\d{2}$/).example('250.00')
+  .meta({ className: 'Money', description: 'Exact decimal amount with two decimal places' });
+
+const id = Joi.number().integer().positive();
+const uuid = Joi.string().guid({ version: 'uuidv4' });
+const timestamp = Joi.date().iso();
+
+const account = Joi.object({
+  id: id.required(),
+  user_id: id.required(),
+  account_number: Joi.string().example('ACC000000000001').required(),
+  balance: money.required(),
+  status: Joi.string().valid('active', 'frozen', 'closed').required(),
+  frozen_by: id.allow(null).required().description('User who froze the account'),
+  closed_at: timestamp.allow(null).required(),
+  created_at: timestamp.required(),
+  updated_at: timestamp.required()
+}).meta({ className: 'Account' });
+
+const accountBalance = Joi.object({
+  account_id: id.required(),
+  balance: money.required(),
+  available_balance: money.required().description('Balance minus active authorization holds')
+}).meta({ className: 'AccountBalance' });
+
+const transaction = Joi.object({
+  id: id.required(),
+  transaction_id: uuid.required(),
+  type: Joi.string().valid('deposit', 'withdrawal', 'transfer', 'reversal').required(),
+  amount: money.required(),
+  source_account_id: id.allow(null),
+  destination_account_id: id.allow(null),
+  original_transaction_id: uuid.allow(null).description('The transaction a reversal refunds'),
+  batch_id: uuid.allow(null),
+  reversed_amount: money.required(),
+  status: Joi.string().valid('completed', 'failed', 'reversed', 'partially_reversed', 'pending_review').required(),
+  failure_reason: Joi.string().allow(null).example('Insufficient funds'),
+  created_at: timestamp.required()
+}).meta({ className: 'Transaction' });
+
+const accountTransaction = transaction.keys({
+  direction: Joi.string().valid('in', 'out').required(),
+  signed_amount: money.required().description('Amount as it changed this account; zero for failed transactions'),
+  running_balance: money.required().description('Account balance right after this transaction settled')
+}).meta({ className: 'AccountTransaction' });
+
+const transactionHistoryPage = Joi.object({
+  account_id: id.required(),
+  transactions: Joi.array().items(accountTransaction).required(),
+  next_cursor: Joi.string().allow(null).required()
+}).meta({ className: 'TransactionHistoryPage' });
+
+const transactionBatch = Joi.object({
+  batch_id: uuid.required(),
+  status: Joi.string().valid('completed', 'failed').required(),
+  legs: Joi.array().items(transaction).required()
+}).meta({ className: 'TransactionBatch' });
+
+const reversalResult = Joi.object({
+  reversal: transaction.required(),
+  original: transaction.required()
+}).meta({ className: 'ReversalResult' });
+
+const transactionReceipt = Joi.object({
+  version: Joi.number().valid(1).required(),
+  algorithm: Joi.string().valid('Ed25519').required(),
+  key_id: Joi.string().required(),
+  contents: Joi.object({
+    sequence: Joi.number().integer().required(),
+    transaction_id: uuid.required(),
+    type: Joi.string().required(),
+    amount: money.required(),
+    source_account_id: id.allow(null).required(),
+    destination_account_id: id.allow(null).required(),
+    original_transaction_id: uuid.allow(null).required(),
+    batch_id: uuid.allow(null).required(),
+    status: Joi.string().valid('completed', 'failed').required(),
+    failure_reason: Joi.string().allow(null).required(),
+    created_at: Joi.number().integer().required().description('Unix seconds')
+  }).required().description('The parts of the transaction covered by its link in the hash chain'),
+  prev_hash: Joi.string().hex().required(),
+  row_hash: Joi.string().hex().required(),
+  signature: Joi.string().base64().required().description('Ed25519 signature of "receipt.v1.<row_hash>"')
+}).meta({ className: 'TransactionReceipt' });
+
+const receiptPublicKey = Joi.object({
+  key_id: Joi.string().required(),
+  algorithm: Joi.string().valid('Ed25519').required(),
+  public_key: Joi.string().required().description('SPKI PEM')
+}).meta({ className: 'ReceiptPublicKey' });
+
+const statement = Joi.object({
+  account_id: id.required(),
+  account_number: Joi.string().required(),
+  account_holder: Joi.string().required(),
+  period_start: timestamp.required(),
+  period_end: timestamp.required().description('Exclusive'),
+  opening_balance: money.required(),
+  total_in: money.required(),
+  total_out: money.required(),
+  closing_balance: money.required(),
+  lines: Joi.array().items(Joi.object({
+    journal_entry_id: id.required(),
+    booked_at: timestamp.required(),
+    transaction_id: uuid.allow(null).required(),
+    type: Joi.string().allow(null).required(),
+    description: Joi.string().required(),
+    amount: money.required().description('Positive for money in'),
+    running_balance: money.required()
+  }).meta({ className: 'StatementLine' })).required()
+}).meta({ className: 'Statement' });
+
+const hold = Joi.object({
+  id: id.required(),
+  hold_id: uuid.required(),
+  account_id: id.required(),
+  destination_account_id: id.allow(null),
+  amount: money.required(),
+  captured_amount: money.allow(null),
+  status: Joi.string().valid('held', 'captured', 'voided', 'expired').required(),
+  transaction_id: uuid.allow(null).description('The transaction a capture created'),
+  expires_at: timestamp.required(),
+  created_at: timestamp.required(),
+  updated_at: timestamp.required()
+}).meta({ className: 'Hold' });
+
+const captureHoldResult = Joi.object({
+  hold: hold.required(),
+  transaction: transaction.required()
+}).meta({ className: 'CaptureHoldResult' });
+
+const schedule = Joi.object({
+  id: id.required(),
+  schedule_id: uuid.required(),
+  user_id: id.required(),
+  source_account_id: id.required(),
+  destination_account_id: id.required(),
+  amount: money.required(),
+  frequency: Joi.string().valid('once', 'daily', 'weekly', 'monthly').required(),
+  start_at: timestamp.required(),
+  end_at: timestamp.allow(null),
+  next_run_at: timestamp.allow(null),
+  status: Joi.string().valid('active', 'paused', 'cancelled', 'completed').required(),
+  run_count: Joi.number().integer().min(0).required(),
+  created_at: timestamp.required(),
+  updated_at: timestamp.required()
+}).meta({ className: 'Schedule' });
+
+const scheduleRun = Joi.object({
+  id: id.required(),
+  scheduled_for: timestamp.required(),
+  transaction_id: uuid.allow(null),
+  status: Joi.string().valid('completed', 'failed').required(),
+  failure_reason: Joi.string().allow(null),
+  created_at: timestamp.required()
+}).meta({ className: 'ScheduleRun' });
+
+const apiKey = Joi.object({
+  id: id.required(),
+  key_id: Joi.string().pattern(/^[0-9a-f]{12}$/).required(),
+  user_id: id.required(),
+  label: Joi.string().required(),
+  status: Joi.string().valid('active', 'expired', 'revoked').required(),
+  signing_enabled: Joi.boolean().required(),
+  require_signature: Joi.boolean().required(),
+  expires_at: timestamp.allow(null).required(),
+  revoked_at: timestamp.allow(null).required(),
+  last_used_at: timestamp.allow(null).required(),
+  rotated_from: Joi.string().allow(null).required(),
+  created_at: timestamp.required()
+}).meta({ className: 'ApiKey' });
+
+const issuedApiKey = Joi.object({
+  api_key: apiKey.required(),
+  secret: Joi.string().required().description('Only returned here; it cannot be retrieved later')
+}).meta({ className: 'IssuedApiKey' });
+
+const userSigningRequirement = Joi.object({
+  user_id: id.required(),
+  require_signed_requests: Joi.boolean().required()
+}).meta({ className: 'UserSigningRequirement' });
+
+const user = Joi.object({
+  id: id.required(),
+  username: Joi.string().required(),
+  role: Joi.string().valid('customer', 'support', 'auditor', 'admin').required(),
+  kyc_tier: Joi.string().example('basic').required(),
+  require_signed_requests: Joi.boolean().required(),
+  created_at: timestamp.required(),
+  updated_at: timestamp.required()
+}).meta({ className: 'User' });
+
+const limitAmount = money.allow(null).required().description('null means unlimited');
+
+const userLimitsReport = Joi.object({
+  user_id: id.required(),
+  kyc_tier: Joi.string().required(),
+  limits: Joi.array().items(Joi.object({
+    transaction_type: Joi.string().valid('deposit', 'withdrawal', 'transfer').required(),
+    limits: Joi.object({
+      kyc_tier: Joi.string().required(),
+      transaction_type: Joi.string().valid('deposit', 'withdrawal', 'transfer').required(),
+      per_transaction_max: limitAmount,
+      daily_account_max: limitAmount,
+      monthly_account_max: limitAmount,
+      daily_user_max: limitAmount,
+      monthly_user_max: limitAmount
+    }).required().meta({ className: 'TransactionLimit' }),
+    user_usage: Joi.object({
+      daily: money.required(),
+      monthly: money.required()
+    }).required().description('Amounts already moved in the rolling windows')
+  })).required()
+}).meta({ className: 'UserLimitsReport' });
+
+const paymentBatchLine = Joi.object({
+  line_number: Joi.number().integer().positive().required(),
+  reference: Joi.string().allow(null).required(),
+  type: Joi.string().allow(null).required(),
+  amount: money.allow(null).required(),
+  source_account_id: id.allow(null).required(),
+  destination_account_id: id.allow(null).required(),
+  status: Joi.string().valid('valid', 'invalid', 'completed', 'failed', 'pending_review', 'not_executed').required(),
+  error: Joi.string().allow(null).required(),
+  transaction_id: uuid.allow(null).required()
+}).meta({ className: 'PaymentBatchLine' });
+
+const paymentBatch = Joi.object({
+  id: id.required(),
+  batch_id: uuid.required(),
+  user_id: id.required(),
+  file_format: Joi.string().valid('csv', 'pain001').required(),
+  file_reference: Joi.string().allow(null).required(),
+  mode: Joi.string().valid('all_or_nothing', 'best_effort').required(),
+  status: Joi.string().valid('previewed', 'processing', 'completed', 'partially_completed', 'failed', 'cancelled').required(),
+  line_count: Joi.number().integer().min(0).required(),
+  valid_line_count: Joi.number().integer().min(0).required(),
+  total_amount: money.required(),
+  created_at: timestamp.required(),
+  confirmed_at: timestamp.allow(null).required(),
+  completed_at: timestamp.allow(null).required(),
+  lines: Joi.array().items(paymentBatchLine).description('Left out of lists')
+}).meta({ className: 'PaymentBatch' });
+
+const summaryReport = Joi.object({
+  accounts: Joi.array().items(Joi.object({
+    account_id: id.required(),
+    account_number: Joi.string().required(),
+    username: Joi.string().required(),
+    current_balance: money.required(),
+    largest_transaction: money.required()
+  })).required(),
+  failed_transactions: Joi.array().items(Joi.object({
+    reason: Joi.string().required(),
+    count: Joi.number().integer().positive().required()
+  })).required()
+}).meta({ className: 'SummaryReport' });
+
+const reconciliationReport = Joi.object({
+  balanced: Joi.boolean().required(),
+  accounts: Joi.array().items(Joi.object({
+    account_id: id.required(),
+    account_number: Joi.string().required(),
+    stored_balance: money.required(),
+    ledger_balance: money.required(),
+    difference: money.required()
+  })).required().description('Accounts whose stored balance differs from the ledger'),
+  unbalanced_entries: Joi.array().items(Joi.object({
+    journal_entry_id: id.required(),
+    transaction_id: uuid.allow(null).required(),
+    total: money.required()
+  })).required()
+}).meta({ className: 'ReconciliationReport' });
+
+const chainVerification = Joi.object({
+  valid: Joi.boolean().required(),
+  checked: Joi.number().integer().min(0).required(),
+  head: Joi.object({
+    sequence: Joi.number().integer().min(0).required(),
+    hash: Joi.string().hex().required()
+  }).required(),
+  first_broken_link: Joi.object({
+    sequence: Joi.number().integer().required(),
+    transaction_id: uuid.allow(null).required(),
+    reason: Joi.string().valid('missing_link', 'prev_hash_mismatch', 'content_mismatch', 'reversal_mismatch', 'head_mismatch').required(),
+    expected: Joi.string().allow(null).required(),
+    actual: Joi.string().allow(null).required()
+  }).allow(null).required(),
+  unchained: Joi.number().integer().min(0).required().description('Final rows not linked yet')
+}).meta({ className: 'ChainVerification' });
+
+const fraudReview = Joi.object({
+  id: id.required(),
+  review_id: uuid.required(),
+  transaction_id: uuid.required(),
+  rule_hits: Joi.array().items(Joi.object({
+    rule: Joi.string().required(),
+    action: Joi.string().valid('block', 'flag').required(),
+    reason: Joi.string().required()
+  })).required(),
+  status: Joi.string().valid('pending', 'approved', 'rejected').required(),
+  reviewed_by: id.allow(null).required(),
+  review_note: Joi.string().allow(null).required(),
+  reviewed_at: timestamp.allow(null).required(),
+  created_at: timestamp.required()
+}).meta({ className: 'FraudReview' });
+
+const reviewDecisionResult = Joi.object({
+  review: fraudReview.required(),
+  transaction: transaction.required()
+}).meta({ className: 'ReviewDecisionResult' });
+
+const webhookEvents = Joi.array().items(
+  Joi.string().valid('transaction.completed', 'transaction.failed', 'account.balance_changed')
+);
+
+const webhookEndpoint = Joi.object({
+  id: id.required(),
+  endpoint_id: uuid.required(),
+  user_id: id.required(),
+  url: Joi.string().uri().required(),
+  description: Joi.string().allow(null).required(),
+  events: webhookEvents.required(),
+  status: Joi.string().valid('active', 'disabled').required(),
+  created_at: timestamp.required(),
+  updated_at: timestamp.required()
+}).meta({ className: 'WebhookEndpoint' });
+
+const issuedWebhookEndpoint = webhookEndpoint.keys({
+  secret: Joi.string().required().description('Signing secret, only returned here')
+}).meta({ className: 'IssuedWebhookEndpoint' });
+
+const webhookDelivery = Joi.object({
+  id: id.required(),
+  delivery_id: uuid.required(),
+  endpoint_id: uuid.required(),
+  event_id: uuid.required(),
+  event_type: Joi.string().valid('transaction.completed', 'transaction.failed', 'account.balance_changed').required(),
+  payload: Joi.object({
+    id: uuid.required(),
+    type: Joi.string().required(),
+    created_at: timestamp.required(),
+    data: Joi.object().unknown(true).required()
+  }).required().meta({ className: 'DomainEvent' }),
+  status: Joi.string().valid('pending', 'delivered', 'failed').required(),
+  attempt_count: Joi.number().integer().min(0).required(),
+  next_attempt_at: timestamp.allow(null).required(),
+  last_attempt_at: timestamp.allow(null).required(),
+  delivered_at: timestamp.allow(null).required(),
+  created_at: timestamp.required(),
+  attempts: Joi.array().items(Joi.object({
+    response_status: Joi.number().integer().allow(null).required(),
+    error: Joi.string().allow(null).required(),
+    duration_ms: Joi.number().integer().min(0).required(),
+    succeeded: Joi.boolean().required(),
+    attempted_at: timestamp.required()
+  })).description('Only returned for a single delivery')
+}).meta({ className: 'WebhookDelivery' });
+
+const auditEntry = Joi.object({
+  id: id.required(),
+  audit_id: uuid.required(),
+  category: Joi.string().valid('request', 'state_change').required(),
+  action: Joi.string().required(),
+  actor_type: Joi.string().valid('user', 'anonymous', 'system').required(),
+  actor_user_id: id.allow(null).required(),
+  actor_role: Joi.string().valid('customer', 'support', 'auditor', 'admin').allow(null).required(),
+  actor_key_id: Joi.string().allow(null).required(),
+  ip: Joi.string().allow(null).required(),
+  user_agent: Joi.string().allow(null).required(),
+  request_id: Joi.string().allow(null).required(),
+  method: Joi.string().allow(null).required(),
+  path: Joi.string().allow(null).required(),
+  resource_type: Joi.string().valid('transaction', 'account', 'api_key', 'user').allow(null).required(),
+  resource_id: Joi.string().allow(null).required(),
+  before_value: Joi.any().description('State before a change'),
+  after_value: Joi.any().description('State after a change'),
+  outcome: Joi.string().valid('success', 'failure').required(),
+  status_code: Joi.number().integer().allow(null).required(),
+  error_code: Joi.string().allow(null).required(),
+  duration_ms: Joi.number().integer().allow(null).required(),
+  created_at: timestamp.required()
+}).meta({ className: 'AuditEntry' });
+
+const auditPage = Joi.object({
+  entries: Joi.array().items(auditEntry).required(),
+  next_cursor: Joi.string().allow(null).required()
+}).meta({ className: 'AuditPage' });
+
+const error = Joi.object({
+  error: Joi.string().required().example('INSUFFICIENT_FUNDS').description('Machine-readable error code'),
+  message: Joi.string().required(),
+  timestamp: timestamp.required(),
+  path: Joi.string().required()
+}).meta({ className: 'Error', description: 'Body of every error raised through the error handler' });
+
+const authenticationError = Joi.object({
+  error: Joi.string().required().example('Authentication failed'),
+  message: Joi.string().required()
+}).meta({ className: 'AuthenticationError', description: 'Body of a rejected authentication' });
+
+export const responses = {
+  account,
+  accounts: Joi.array().items(account),
+  accountBalance,
+  transaction,
+  transactionHistoryPage,
+  transactionBatch,
+  reversalResult,
+  transactionReceipt,
+  receiptPublicKey,
+  statement,
+  hold,
+  captureHoldResult,
+  schedule,
+  schedules: Joi.array().items(schedule),
+  scheduleRuns: Joi.array().items(scheduleRun),
+  apiKey,
+  apiKeys: Joi.array().items(apiKey),
+  issuedApiKey,
+  userSigningRequirement,
+  user,
+  userLimitsReport,
+  paymentBatch,
+  paymentBatches: Joi.array().items(paymentBatch),
+  summaryReport,
+  reconciliationReport,
+  chainVerification,
+  fraudReview,
+  fraudReviews: Joi.array().items(fraudReview),
+  reviewDecisionResult,
+  webhookEndpoint,
+  webhookEndpoints: Joi.array().items(webhookEndpoint),
+  issuedWebhookEndpoint,
+  webhookDelivery,
+  webhookDeliveries: Joi.array().items(webhookDelivery),
+  auditEntry,
+  auditPage,
+  error,
+  authenticationError
+};
@@ -0,0 +1,29 @@
+import { Request, Response, NextFunction } from "express";
+import { AuditService } from "../service/auditService";
+import { getRequestContext, runWithRequestContext } from "../utils/requestContext";
+
+/**
+ * Audit middleware
+ * Records every API request, including ones that fail authentication, once the response is done.
+ * 'close' also fires when the client disconnects early, e.g. from an event stream
+ */
+export const auditRequests = (req: Request, res: Response, next: NextFunction): void => {
+  const start = Date.now();
+  // Response events do not run inside the request context, so keep hold of it.
+  // authenticateUser fills in the actor on this same object
+  const context = getRequestContext();
+
+  res.once("close", () => {
+    const record = () => AuditService.recordRequest({
+      method: req.method,
+      path: req.originalUrl.split("?")[0],
+      status_code: res.statusCode,
+      error_code: res.locals.errorCode ?? null,
+      duration_ms: Date.now() - start,
+    });
+
+    void (context ? runWithRequestContext(context, record) : record());
+  });
+
+  next();
+};
@@ -1,23 +1,35 @@
 import { Request, Response, NextFunction } from "express";
-import { UserService } from "../service/userService";
+import { ApiKeyService } from "../service/apiKeyService";
+import { User } from "../model/user";
+import { ApiKey, AuthenticatedKey } from "../model/apiKey";
+import { getRequestContext } from "../utils/requestContext";
 
-// Extend Express Request interface to include user
+// Extend Express Request interface to include user, the key they authenticated with
+// and the raw body (captured by the body parsers for signature verification)
 declare global {
   namespace Express {
     interface Request {
-      user?: {
-        id: number;
-        username: string;
-        secret_key: string;
-        created_at: Date;
-        updated_at: Date;
-      };
+      user?: User;
+      apiKey?: ApiKey;
+      rawBody?: Buffer;
     }
   }
 }
 
+const SIGNATURE_HEADERS = ["x-api-key-id", "x-timestamp", "x-nonce", "x-signature"] as const;
+const NONCE_PATTERN = /^[A-Za-z0-9_-]{16,64}$/;
+
+// Rejections raised by ApiKeyService that are the client's fault, not an outage
+const AUTHENTICATION_ERRORS = new Set([
+  "Signed request required",
+  "Request timestamp is outside the allowed window",
+  "Request nonce has already been used",
+]);
+
 /**
- * Authentication middleware that validates X-Secret-Key header
+ * Authentication middleware
+ * Accepts either a signed request (X-Api-Key-Id, X-Timestamp, X-Nonce, X-Signature)
+ * or the X-Secret-Key header, unless the key or its user requires signing
  */
 export const authenticateUser = async (
   req: Request,
@@ -25,32 +37,90 @@ export const authenticateUser = async (
   next: NextFunction
 ): Promise<void> => {
   try {
-    const secretKey = req.headers["x-secret-key"] as string;
+    let authenticated: AuthenticatedKey | null;
 
-    if (!secretKey) {
-      res.status(401).json({
-        error: "Authentication required",
-        message: "X-Secret-Key header is missing",
+    if (req.headers["x-signature"]) {
+      const missing = SIGNATURE_HEADERS.filter((header) => !req.headers[header]);
+      if (missing.length > 0) {
+        res.status(401).json({
+          error: "Authentication required",
+          message: `Signed request is missing ${missing.join(", ")}`,
+        });
+        return;
+      }
+
+      const nonce = req.headers["x-nonce"] as string;
+      if (!NONCE_PATTERN.test(nonce)) {
+        res.status(401).json({
+          error: "Authentication failed",
+          message: "X-Nonce must be 16-64 characters of [A-Za-z0-9_-]",
+        });
+        return;
+      }
+
+      // Verify the HMAC over method, path, timestamp, nonce and body hash
+      authenticated = await ApiKeyService.authenticateSigned({
+        key_id: req.headers["x-api-key-id"] as string,
+        timestamp: req.headers["x-timestamp"] as string,
+        nonce,
+        signature: req.headers["x-signature"] as string,
+        method: req.method,
+        path: req.originalUrl,
+        body: req.rawBody,
       });
-      return;
+
+      if (!authenticated) {
+        res.status(401).json({
+          error: "Authentication failed",
+          message: "Invalid request signature",
+        });
+        return;
+      }
+    } else {
+      const secretKey = req.headers["x-secret-key"] as string;
+
+      if (!secretKey) {
+        res.status(401).json({
+          error: "Authentication required",
+          message: "X-Secret-Key header is missing",
+        });
+        return;
+      }
+
+      // Resolve the key by its public id and verify the secret against the stored hash
+      authenticated = await ApiKeyService.authenticate(secretKey);
+
+      if (!authenticated) {
+        res.status(401).json({
+          error: "Authentication failed",
+          message: "Invalid secret key",
+        });
+        return;
+      }
     }
 
-    // Find user by secret key
-    const user = await UserService.findBySecretKey(secretKey);
+    // Attach user and key to request object
+    req.user = authenticated.user;
+    req.apiKey = authenticated.apiKey;
+
+    // Audit entries written while handling the request name this user and key as the actor
+    const context = getRequestContext();
+    if (context) {
+      context.user_id = authenticated.user.id;
+      context.role = authenticated.user.role;
+      context.key_id = authenticated.apiKey.key_id;
+    }
 
-    if (!user) {
+    next();
+  } catch (error) {
+    if (error instanceof Error && AUTHENTICATION_ERRORS.has(error.message)) {
       res.status(401).json({
         error: "Authentication failed",
-        message: "Invalid secret key",
+        message: error.message,
       });
       return;
     }
 
-    // Attach user to request object
-    req.user = user;
-
-    next();
-  } catch (error) {
     console.error("Authentication error:", error);
     res.status(500).json({
       error: "Internal server error",
@@ -0,0 +1,55 @@
+import { Request, Response, NextFunction } from "express";
+import { AppError } from "./error";
+import { Permission, rolePermissions } from "../config/permissions";
+import { User } from "../model/user";
+
+/**
+ * Check whether a user's role grants a permission
+ */
+export const hasPermission = (user: User | undefined, permission: Permission): boolean => {
+  return !!user && rolePermissions[user.role].includes(permission);
+};
+
+export type ResourceAccess = "read" | "manage" | "owner";
+
+/**
+ * Check whether a user may read ('read') or change ('manage') a resource owned by ownerId
+ * Owners always may; other users need the matching accounts:*:any permission.
+ * 'owner' is for operations that move the owner's money and is never granted by a role
+ */
+export const canAccess = (user: User | undefined, ownerId: number, access: ResourceAccess): boolean => {
+  if (!user) {
+    return false;
+  }
+  if (user.id === ownerId) {
+    return true;
+  }
+
+  return access !== "owner" &&
+    hasPermission(user, access === "read" ? "accounts:read:any" : "accounts:manage:any");
+};
+
+// The permissions each requirePermission() guard checks, for the OpenAPI document
+const guards = new WeakMap<Function, Permission[]>();
+
+/**
+ * Route guard that requires every listed permission
+ * Must run after authenticateUser
+ */
+export const requirePermission = (...permissions: Permission[]) => {
+  const guard = (req: Request, res: Response, next: NextFunction) => {
+    const missing = permissions.filter((permission) => !hasPermission(req.user, permission));
+    if (missing.length > 0) {
+      throw new AppError(`Missing permission: ${missing.join(", ")}`, 403, "FORBIDDEN");
+    }
+    next();
+  };
+
+  guards.set(guard, permissions);
+  return guard;
+};
+
+/**
+ * The permissions a route handler requires, if it was created by requirePermission()
+ */
+export const getRequiredPermissions = (handler: Function): Permission[] | undefined => guards.get(handler);
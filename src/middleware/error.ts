@@ -46,6 +46,9 @@ export const errorHandler = (
   } else if (error.message === 'User does not exist') {
     statusCode = 404;
     code = 'USER_NOT_FOUND';
+  } else if (error.message === 'KYC tier does not exist') {
+    statusCode = 422;
+    code = 'KYC_TIER_NOT_FOUND';
   } else if (error.message === 'Insufficient funds') {
     statusCode = 400;
     code = 'INSUFFICIENT_FUNDS';
@@ -58,6 +61,131 @@ export const errorHandler = (
   } else if (error.message === 'Account not found') {
     statusCode = 404;
     code = 'ACCOUNT_NOT_FOUND';
+  } else if (/^(Source account|Destination account|Account) is (active|frozen|closed)$/.test(error.message)) {
+    statusCode = 409;
+    code = 'ACCOUNT_STATE_CONFLICT';
+  } else if (error.message === 'Account was frozen by staff') {
+    statusCode = 403;
+    code = 'ACCOUNT_FROZEN_BY_STAFF';
+  } else if (error.message === 'Account balance must be zero to close') {
+    statusCode = 409;
+    code = 'ACCOUNT_BALANCE_NOT_ZERO';
+  } else if (error.message === 'Transaction not found') {
+    statusCode = 404;
+    code = 'TRANSACTION_NOT_FOUND';
+  } else if (error.message === 'Transaction has no receipt yet') {
+    statusCode = 409;
+    code = 'RECEIPT_NOT_AVAILABLE';
+  } else if (error.message === 'Transaction chain link is broken') {
+    statusCode = 409;
+    code = 'CHAIN_LINK_BROKEN';
+  } else if (error.message === 'Transaction batch not found') {
+    statusCode = 404;
+    code = 'TRANSACTION_BATCH_NOT_FOUND';
+  } else if (
+    error.message === 'Failed transactions cannot be reversed' ||
+    error.message === 'Reversal transactions cannot be reversed' ||
+    error.message === 'Transaction is already fully reversed' ||
+    error.message === 'Transactions pending review cannot be reversed'
+  ) {
+    statusCode = 409;
+    code = 'TRANSACTION_NOT_REVERSIBLE';
+  } else if (error.message === 'Reversal amount exceeds the remaining reversible amount') {
+    statusCode = 422;
+    code = 'REVERSAL_AMOUNT_EXCEEDED';
+  } else if (error.message === 'Hold not found') {
+    statusCode = 404;
+    code = 'HOLD_NOT_FOUND';
+  } else if (error.message === 'Hold is no longer active' || error.message === 'Hold has expired') {
+    statusCode = 409;
+    code = 'HOLD_NOT_ACTIVE';
+  } else if (error.message === 'Capture amount exceeds the held amount') {
+    statusCode = 422;
+    code = 'CAPTURE_AMOUNT_EXCEEDED';
+  } else if (error.message.startsWith('Hold declined: ')) {
+    statusCode = 422;
+    code = 'HOLD_DECLINED';
+  } else if (error.message === 'Review not found') {
+    statusCode = 404;
+    code = 'REVIEW_NOT_FOUND';
+  } else if (error.message === 'Audit entry not found') {
+    statusCode = 404;
+    code = 'AUDIT_ENTRY_NOT_FOUND';
+  } else if (
+    error.message === 'Review is already approved' ||
+    error.message === 'Review is already rejected' ||
+    error.message === 'Transaction is not pending review'
+  ) {
+    statusCode = 409;
+    code = 'REVIEW_ALREADY_DECIDED';
+  } else if (error.message.startsWith('Invalid payment file: ')) {
+    statusCode = 422;
+    code = 'INVALID_PAYMENT_FILE';
+  } else if (error.message === 'Upload a CSV (text/csv) or pain.001 (application/xml) payment file') {
+    statusCode = 415;
+    code = 'UNSUPPORTED_MEDIA_TYPE';
+  } else if (error.message === 'Payment batch not found') {
+    statusCode = 404;
+    code = 'PAYMENT_BATCH_NOT_FOUND';
+  } else if (error.message.startsWith('Payment batch is ')) {
+    statusCode = 409;
+    code = 'PAYMENT_BATCH_STATE_CONFLICT';
+  } else if (error.message === 'Payment batch has invalid lines') {
+    statusCode = 422;
+    code = 'PAYMENT_BATCH_HAS_INVALID_LINES';
+  } else if (error.message === 'Schedule not found') {
+    statusCode = 404;
+    code = 'SCHEDULE_NOT_FOUND';
+  } else if (error.message.startsWith('Schedule is ')) {
+    statusCode = 409;
+    code = 'SCHEDULE_STATE_CONFLICT';
+  } else if (error.message === 'API key not found') {
+    statusCode = 404;
+    code = 'API_KEY_NOT_FOUND';
+  } else if (
+    error.message === 'API key is expired' ||
+    error.message === 'API key is revoked' ||
+    error.message === 'Cannot revoke the last active API key'
+  ) {
+    statusCode = 409;
+    code = 'API_KEY_STATE_CONFLICT';
+  } else if (
+    error.message === 'API key does not support request signing' ||
+    error.message === 'No active API key supports request signing'
+  ) {
+    statusCode = 409;
+    code = 'SIGNING_NOT_SUPPORTED';
+  } else if (
+    error.message === 'Request signing is not configured' ||
+    error.message === 'Webhook signing is not configured' ||
+    error.message === 'Receipt signing is not configured'
+  ) {
+    statusCode = 503;
+    code = 'SIGNING_NOT_CONFIGURED';
+  } else if (error.message === 'API key limit reached') {
+    statusCode = 409;
+    code = 'API_KEY_LIMIT_REACHED';
+  } else if (error.message === 'Webhook endpoint not found') {
+    statusCode = 404;
+    code = 'WEBHOOK_ENDPOINT_NOT_FOUND';
+  } else if (error.message === 'Webhook delivery not found') {
+    statusCode = 404;
+    code = 'WEBHOOK_DELIVERY_NOT_FOUND';
+  } else if (error.message.startsWith('Webhook endpoint is ') || error.message.startsWith('Webhook delivery is ')) {
+    statusCode = 409;
+    code = 'WEBHOOK_STATE_CONFLICT';
+  } else if (error.message.startsWith('Webhook URL ')) {
+    statusCode = 422;
+    code = 'WEBHOOK_URL_NOT_ALLOWED';
+  } else if (error.message === 'Webhook endpoint limit reached') {
+    statusCode = 409;
+    code = 'WEBHOOK_ENDPOINT_LIMIT_REACHED';
+  } else if (error.message === 'Idempotency key already used with a different request') {
+    statusCode = 409;
+    code = 'IDEMPOTENCY_KEY_MISMATCH';
+  } else if (error.message === 'Idempotency key is already in use') {
+    statusCode = 409;
+    code = 'IDEMPOTENCY_KEY_IN_USE';
   }
 
   // Log error for debugging
@@ -66,11 +194,15 @@ export const errorHandler = (
     statusCode,
     code,
     stack: error.stack,
+    request_id: res.locals.requestId,
     url: req.url,
     method: req.method,
     timestamp: new Date().toISOString()
   });
 
+  // Recorded with the request in the audit log
+  res.locals.errorCode = code;
+
   // Send error response
   res.status(statusCode).json({
     error: code,
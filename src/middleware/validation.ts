@@ -1,35 +1,300 @@
 import { Request, Response, NextFunction } from 'express';
 import Joi from 'joi';
 import { AppError } from './error';
+import { Money } from '../utils/money';
+import { holdConfig } from '../config/holds';
 
-export const validate = (schema: Joi.ObjectSchema, property: 'body' | 'params' | 'query' = 'body') => {
-  return (req: Request, res: Response, next: NextFunction) => {
-    const { error } = schema.validate(req[property]);
+/**
+ * Monetary amount: a JSON number or decimal string with at most 2 decimal places
+ * Converts to Money, so route handlers get exact values from res.locals.validated
+ */
+const money = Joi.alternatives()
+  .try(Joi.number().strict(), Joi.string())
+  .custom((value, helpers) => {
+    try {
+      return Money.fromDecimal(value);
+    } catch (error) {
+      return helpers.message({ custom: `{{#label}} is invalid: ${(error as Error).message}` });
+    }
+  }, 'money');
+
+const positiveMoney = money.custom((value: Money, helpers) => {
+  return value.isPositive() ? value : helpers.message({ custom: '{{#label}} must be positive' });
+});
+
+const nonNegativeMoney = money.custom((value: Money, helpers) => {
+  return value.isNegative() ? helpers.message({ custom: '{{#label}} must not be negative' }) : value;
+});
+
+/**
+ * Calendar date (YYYY-MM-DD), converted to a Date at 00:00 UTC
+ */
+const calendarDate = Joi.string()
+  .pattern(/^\d{4}-\d{2}-\d{2}$/)
+  .custom((value: string, helpers) => {
+    const date = new Date(`${value}T00:00:00Z`);
+    return !isNaN(date.getTime()) && date.toISOString().startsWith(value)
+      ? date
+      : helpers.message({ custom: '{{#label}} is not a valid date' });
+  }, 'calendar date');
+
+const STATEMENT_MAX_DAYS = 366;
+
+const statementFormat = Joi.string().valid('json', 'csv', 'html', 'pdf', 'camt053', 'mt940').default('json');
+
+/**
+ * A single deposit, withdrawal or transfer, on its own or as one leg of a batch
+ */
+const transaction = Joi.object({
+  type: Joi.string().valid('deposit', 'withdrawal', 'transfer').required(),
+  amount: money.required(),
+  source_account_id: Joi.number().integer().positive().when('type', {
+    is: Joi.string().valid('withdrawal', 'transfer'),
+    then: Joi.required(),
+    otherwise: Joi.forbidden()
+  }),
+  destination_account_id: Joi.number().integer().positive().when('type', {
+    is: Joi.string().valid('deposit', 'transfer'),
+    then: Joi.required(),
+    otherwise: Joi.forbidden()
+  })
+});
+
+const TRANSACTION_BATCH_MAX_LEGS = 50;
+
+export type ValidatedProperty = 'body' | 'params' | 'query' | 'headers';
+
+export interface Validation {
+  schema: Joi.ObjectSchema;
+  property: ValidatedProperty;
+}
+
+// What each validate() middleware checks, so the OpenAPI document can be generated from the routes
+const validations = new WeakMap<Function, Validation>();
+
+/**
+ * Validate a request property and keep the converted value (Money amounts, Dates, defaults)
+ * in res.locals.validated[property] for the route handler
+ */
+export const validate = (schema: Joi.ObjectSchema, property: ValidatedProperty = 'body') => {
+  const middleware = (req: Request, res: Response, next: NextFunction) => {
+    // A request without a body is validated as an empty object
+    const { error, value } = schema.validate(req[property] ?? {});
     if (error) {
       const message = error.details.map(d => d.message).join(', ');
       throw new AppError(`Validation error: ${message}`, 400, 'VALIDATION_ERROR');
     }
+    res.locals.validated = { ...res.locals.validated, [property]: value };
     next();
   };
+
+  validations.set(middleware, { schema, property });
+  return middleware;
 };
 
+/**
+ * The schema and request property a route handler validates, if it was created by validate()
+ */
+export const getValidation = (handler: Function): Validation | undefined => validations.get(handler);
+
 export const schemas = {
   accountId: Joi.object({
     accountId: Joi.number().integer().positive().required()
   }),
   
-  transaction: Joi.object({
-    type: Joi.string().valid('deposit', 'withdrawal', 'transfer').required(),
-    amount: Joi.number().required(),
-    source_account_id: Joi.number().integer().positive().when('type', {
-      is: Joi.string().valid('withdrawal', 'transfer'),
-      then: Joi.required(),
-      otherwise: Joi.forbidden()
+  transactionHistoryQuery: Joi.object({
+    type: Joi.string().valid('deposit', 'withdrawal', 'transfer', 'reversal'),
+    status: Joi.string().valid('completed', 'failed', 'reversed', 'partially_reversed', 'pending_review'),
+    direction: Joi.string().valid('in', 'out'),
+    min_amount: nonNegativeMoney,
+    max_amount: nonNegativeMoney,
+    from: Joi.date().iso(),
+    to: Joi.date().iso().when('from', {
+      is: Joi.exist(),
+      then: Joi.date().min(Joi.ref('from'))
     }),
-    destination_account_id: Joi.number().integer().positive().when('type', {
-      is: Joi.string().valid('deposit', 'transfer'),
-      then: Joi.required(),
-      otherwise: Joi.forbidden()
-    })
+    cursor: Joi.string().base64({ urlSafe: true, paddingRequired: false }),
+    limit: Joi.number().integer().min(1).max(100).default(20)
+  }).custom((value, helpers) => {
+    if (value.min_amount && value.max_amount && value.max_amount.compare(value.min_amount) < 0) {
+      return helpers.message({ custom: '"max_amount" must be greater than or equal to "min_amount"' });
+    }
+    return value;
+  }),
+
+  statementPeriod: Joi.object({
+    accountId: Joi.number().integer().positive().required(),
+    period: Joi.string().pattern(/^\d{4}-(0[1-9]|1[0-2])$/).required()
+      .messages({ 'string.pattern.base': '"period" must be a month in YYYY-MM format' })
+  }),
+
+  statementQuery: Joi.object({
+    format: statementFormat
+  }),
+
+  statementRangeQuery: Joi.object({
+    from: calendarDate.required(),
+    to: calendarDate.required(),
+    format: statementFormat
+  }).custom((value, helpers) => {
+    const days = (value.to.getTime() - value.from.getTime()) / 86400000 + 1;
+    if (days < 1) {
+      return helpers.message({ custom: '"to" must be on or after "from"' });
+    }
+    if (days > STATEMENT_MAX_DAYS) {
+      return helpers.message({ custom: `Statement period must not exceed ${STATEMENT_MAX_DAYS} days` });
+    }
+    return value;
+  }),
+
+  transactionId: Joi.object({
+    transactionId: Joi.string().guid({ version: 'uuidv4' }).required()
+  }),
+
+  reversal: Joi.object({
+    amount: positiveMoney
+  }),
+
+  holdId: Joi.object({
+    holdId: Joi.string().guid({ version: 'uuidv4' }).required()
+  }),
+
+  hold: Joi.object({
+    source_account_id: Joi.number().integer().positive().required(),
+    destination_account_id: Joi.number().integer().positive().invalid(Joi.ref('source_account_id')),
+    amount: positiveMoney.required(),
+    expires_in_seconds: Joi.number().integer().min(1).max(holdConfig.maxTtlSeconds)
+  }),
+
+  holdCapture: Joi.object({
+    amount: positiveMoney
+  }),
+
+  scheduleId: Joi.object({
+    scheduleId: Joi.string().guid({ version: 'uuidv4' }).required()
+  }),
+
+  schedule: Joi.object({
+    source_account_id: Joi.number().integer().positive().required(),
+    destination_account_id: Joi.number().integer().positive().invalid(Joi.ref('source_account_id')).required(),
+    amount: positiveMoney.required(),
+    frequency: Joi.string().valid('once', 'daily', 'weekly', 'monthly').required(),
+    start_at: Joi.date().iso().min('now').required(),
+    end_at: Joi.date().iso().greater(Joi.ref('start_at'))
+  }),
+
+  apiKeyId: Joi.object({
+    keyId: Joi.string().pattern(/^[0-9a-f]{12}$/).required()
+  }),
+
+  apiKey: Joi.object({
+    label: Joi.string().trim().min(1).max(100).required(),
+    expires_at: Joi.date().iso().greater('now'),
+    require_signature: Joi.boolean().strict()
+  }),
+
+  apiKeyRotation: Joi.object({
+    expires_at: Joi.date().iso().greater('now')
+  }),
+
+  signingRequirement: Joi.object({
+    required: Joi.boolean().strict().required()
+  }),
+
+  batchId: Joi.object({
+    batchId: Joi.string().guid({ version: 'uuidv4' }).required()
+  }),
+
+  paymentBatchUpload: Joi.object({
+    mode: Joi.string().valid('all_or_nothing', 'best_effort').default('all_or_nothing')
+  }),
+
+  webhookEndpoint: Joi.object({
+    url: Joi.string().uri({ scheme: ['http', 'https'] }).max(2048).required(),
+    description: Joi.string().trim().max(255),
+    events: Joi.array()
+      .items(Joi.string().valid('transaction.completed', 'transaction.failed', 'account.balance_changed'))
+      .min(1)
+      .unique()
+      .default(['transaction.completed', 'transaction.failed', 'account.balance_changed'])
+  }),
+
+  endpointId: Joi.object({
+    endpointId: Joi.string().guid({ version: 'uuidv4' }).required()
+  }),
+
+  webhookDeliveryId: Joi.object({
+    endpointId: Joi.string().guid({ version: 'uuidv4' }).required(),
+    deliveryId: Joi.string().guid({ version: 'uuidv4' }).required()
+  }),
+
+  webhookDeliveryQuery: Joi.object({
+    status: Joi.string().valid('pending', 'delivered', 'failed'),
+    limit: Joi.number().integer().min(1).max(100).default(50)
+  }),
+
+  auditQuery: Joi.object({
+    category: Joi.string().valid('request', 'state_change'),
+    action: Joi.string().max(64),
+    actor_user_id: Joi.number().integer().positive(),
+    resource_type: Joi.string().valid('transaction', 'account', 'api_key', 'user'),
+    resource_id: Joi.string().max(64),
+    request_id: Joi.string().max(64),
+    outcome: Joi.string().valid('success', 'failure'),
+    from: Joi.date().iso(),
+    to: Joi.date().iso().when('from', {
+      is: Joi.exist(),
+      then: Joi.date().min(Joi.ref('from'))
+    }),
+    cursor: Joi.string().base64({ urlSafe: true, paddingRequired: false }),
+    limit: Joi.number().integer().min(1).max(200).default(50)
+  }),
+
+  auditId: Joi.object({
+    auditId: Joi.string().guid({ version: 'uuidv4' }).required()
+  }),
+
+  reviewId: Joi.object({
+    reviewId: Joi.string().guid({ version: 'uuidv4' }).required()
+  }),
+
+  reviewQuery: Joi.object({
+    status: Joi.string().valid('pending', 'approved', 'rejected').default('pending'),
+    limit: Joi.number().integer().min(1).max(100).default(50)
+  }),
+
+  reviewDecision: Joi.object({
+    note: Joi.string().trim().max(255)
+  }),
+
+  userId: Joi.object({
+    userId: Joi.number().integer().positive().required()
+  }),
+
+  userRole: Joi.object({
+    role: Joi.string().valid('customer', 'support', 'auditor', 'admin').required()
+  }),
+
+  kycTier: Joi.object({
+    kyc_tier: Joi.string().max(20).required()
+  }),
+
+  eventStreamHeaders: Joi.object({
+    'last-event-id': Joi.string().pattern(/^\d{1,18}$/)
+  }).unknown(true),
+
+  eventStreamQuery: Joi.object({
+    // For clients that cannot set Last-Event-ID on the first request
+    last_event_id: Joi.number().integer().min(0)
+  }),
+
+  idempotencyHeaders: Joi.object({
+    'idempotency-key': Joi.string().min(1).max(255)
+  }).unknown(true),
+
+  transaction,
+
+  transactionBatch: Joi.object({
+    legs: Joi.array().items(transaction).min(2).max(TRANSACTION_BATCH_MAX_LEGS).required()
   })
 };
\ No newline at end of file
@@ -2,11 +2,18 @@
  * Account model - Schema definitions and interfaces only
  */
 
+import { Money } from '../utils/money';
+
+export type AccountStatus = 'active' | 'frozen' | 'closed';
+
 export interface Account {
   id: number;
   user_id: number;
   account_number: string;
-  balance: number;
+  balance: Money;
+  status: AccountStatus;
+  frozen_by: number | null;
+  closed_at: Date | null;
   created_at: Date;
   updated_at: Date;
 }
@@ -15,7 +22,10 @@ export interface AccountRow {
   id: number;
   user_id: number;
   account_number: string;
-  balance: number;
+  balance: string;
+  status: AccountStatus;
+  frozen_by: number | null;
+  closed_at: Date | null;
   created_at: Date;
   updated_at: Date;
 }
\ No newline at end of file
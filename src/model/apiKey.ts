@@ -0,0 +1,96 @@
+/**
+ * API key model - Schema definitions and interfaces only
+ */
+
+import { User } from './user';
+
+export type ApiKeyStatus = 'active' | 'expired' | 'revoked';
+
+/**
+ * Key metadata; the secret and its hash are never part of it
+ */
+export interface ApiKey {
+  id: number;
+  key_id: string;
+  user_id: number;
+  label: string;
+  status: ApiKeyStatus;
+  signing_enabled: boolean;
+  require_signature: boolean;
+  expires_at: Date | null;
+  revoked_at: Date | null;
+  last_used_at: Date | null;
+  rotated_from: string | null;
+  created_at: Date;
+}
+
+/**
+ * A stored key with its salt, secret hash and sealed signing secret
+ */
+export interface ApiKeyRecord {
+  id: number;
+  key_id: string;
+  user_id: number;
+  label: string;
+  salt: string;
+  secret_hash: string;
+  signing_secret: string | null;
+  require_signature: boolean;
+  expires_at: Date | null;
+  revoked_at: Date | null;
+  last_used_at: Date | null;
+  rotated_from: string | null;
+  created_at: Date;
+}
+
+export interface ApiKeyRow {
+  id: number;
+  key_id: string;
+  user_id: number;
+  label: string;
+  salt: string;
+  secret_hash: string;
+  signing_secret: string | null;
+  require_signature: number;
+  expires_at: Date | null;
+  revoked_at: Date | null;
+  last_used_at: Date | null;
+  rotated_from: string | null;
+  created_at: Date;
+}
+
+export interface CreateApiKeyData {
+  label: string;
+  expires_at?: Date;
+  require_signature?: boolean;
+}
+
+export interface RotateApiKeyData {
+  expires_at?: Date;
+}
+
+/**
+ * Returned once when a key is created or rotated; the secret cannot be retrieved later
+ */
+export interface IssuedApiKey {
+  api_key: ApiKey;
+  secret: string;
+}
+
+/**
+ * The X-Api-Key-Id, X-Timestamp, X-Nonce and X-Signature headers plus what was signed
+ */
+export interface SignedRequest {
+  key_id: string;
+  timestamp: string;
+  nonce: string;
+  signature: string;
+  method: string;
+  path: string;
+  body?: Buffer;
+}
+
+export interface AuthenticatedKey {
+  user: User;
+  apiKey: ApiKey;
+}
@@ -0,0 +1,108 @@
+/**
+ * Audit model - Schema definitions and interfaces only
+ */
+
+import { UserRole } from './user';
+
+export type AuditCategory = 'request' | 'state_change';
+
+export type AuditActorType = 'user' | 'anonymous' | 'system';
+
+export type AuditOutcome = 'success' | 'failure';
+
+export type AuditResourceType = 'transaction' | 'account' | 'api_key' | 'user';
+
+export interface AuditEntry {
+  id: number;
+  audit_id: string;
+  category: AuditCategory;
+  action: string;
+  actor_type: AuditActorType;
+  actor_user_id: number | null;
+  actor_role: UserRole | null;
+  actor_key_id: string | null;
+  ip: string | null;
+  user_agent: string | null;
+  request_id: string | null;
+  method: string | null;
+  path: string | null;
+  resource_type: AuditResourceType | null;
+  resource_id: string | null;
+  before_value: unknown;
+  after_value: unknown;
+  outcome: AuditOutcome;
+  status_code: number | null;
+  error_code: string | null;
+  duration_ms: number | null;
+  created_at: Date;
+}
+
+export interface AuditEntryRow {
+  id: number;
+  audit_id: string;
+  category: string;
+  action: string;
+  actor_type: string;
+  actor_user_id: number | null;
+  actor_role: string | null;
+  actor_key_id: string | null;
+  ip: string | null;
+  user_agent: string | null;
+  request_id: string | null;
+  method: string | null;
+  path: string | null;
+  resource_type: string | null;
+  resource_id: string | null;
+  before_value: string | object | null;
+  after_value: string | object | null;
+  outcome: string;
+  status_code: number | null;
+  error_code: string | null;
+  duration_ms: number | null;
+  created_at: Date;
+}
+
+// Who is acting and from where, captured once per request (see utils/requestContext.ts)
+export interface AuditActor {
+  request_id: string;
+  ip: string | null;
+  user_agent: string | null;
+  user_id?: number;
+  role?: UserRole;
+  key_id?: string;
+}
+
+export interface AuditChange {
+  action: string;
+  resource_type: AuditResourceType;
+  resource_id: string | number;
+  before?: unknown;
+  after?: unknown;
+}
+
+export interface AuditRequest {
+  method: string;
+  path: string;
+  status_code: number;
+  error_code: string | null;
+  duration_ms: number;
+}
+
+export interface AuditQuery {
+  category?: AuditCategory;
+  action?: string;
+  actor_user_id?: number;
+  resource_type?: AuditResourceType;
+  resource_id?: string;
+  request_id?: string;
+  outcome?: AuditOutcome;
+  from?: Date;
+  to?: Date;
+  cursor?: string;
+  limit: number;
+}
+
+export interface AuditPage {
+  entries: AuditEntry[];
+  next_cursor: string | null;
+}
@@ -0,0 +1,69 @@
+/**
+ * Fraud screening model - Schema definitions and interfaces only
+ */
+
+import type { StorageSession } from '../repository/repositories';
+import { CreateTransactionData, Transaction } from './transaction';
+
+export type ScreeningAction = 'allow' | 'block' | 'flag';
+
+export type ReviewStatus = 'pending' | 'approved' | 'rejected';
+
+export interface RuleResult {
+  action: ScreeningAction;
+  reason?: string;
+}
+
+/**
+ * A screening rule; rules run inside the transaction's database transaction,
+ * after the involved accounts are locked
+ */
+export interface FraudRule {
+  name: string;
+  evaluate(session: StorageSession, data: CreateTransactionData): Promise<RuleResult>;
+}
+
+export interface RuleHit {
+  rule: string;
+  action: 'block' | 'flag';
+  reason: string;
+}
+
+export interface ScreeningResult {
+  action: ScreeningAction;
+  reason?: string;
+  hits: RuleHit[];
+}
+
+export interface FraudReview {
+  id: number;
+  review_id: string;
+  transaction_id: string;
+  rule_hits: RuleHit[];
+  status: ReviewStatus;
+  reviewed_by: number | null;
+  review_note: string | null;
+  reviewed_at: Date | null;
+  created_at: Date;
+}
+
+export interface FraudReviewRow {
+  id: number;
+  review_id: string;
+  transaction_id: string;
+  rule_hits: RuleHit[] | string;
+  status: ReviewStatus;
+  reviewed_by: number | null;
+  review_note: string | null;
+  reviewed_at: Date | null;
+  created_at: Date;
+}
+
+export interface ReviewDecisionData {
+  note?: string;
+}
+
+export interface ReviewDecisionResult {
+  review: FraudReview;
+  transaction: Transaction;
+}
@@ -0,0 +1,52 @@
+/**
+ * Hold model - Schema definitions and interfaces only
+ */
+
+import { Money } from '../utils/money';
+import { Transaction } from './transaction';
+
+export type HoldStatus = 'held' | 'captured' | 'voided' | 'expired';
+
+export interface Hold {
+  id: number;
+  hold_id: string;
+  account_id: number;
+  destination_account_id?: number;
+  amount: Money;
+  captured_amount?: Money;
+  status: HoldStatus;
+  transaction_id?: string;
+  expires_at: Date;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface HoldRow {
+  id: number;
+  hold_id: string;
+  account_id: number;
+  destination_account_id?: number;
+  amount: string;
+  captured_amount?: string;
+  status: string;
+  transaction_id?: string;
+  expires_at: Date;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface CreateHoldData {
+  source_account_id: number;
+  destination_account_id?: number;
+  amount: Money;
+  expires_in_seconds?: number;
+}
+
+export interface CaptureHoldData {
+  amount?: Money;
+}
+
+export interface CaptureHoldResult {
+  hold: Hold;
+  transaction: Transaction;
+}
@@ -0,0 +1,26 @@
+/**
+ * Idempotency key model - Schema definitions and interfaces only
+ */
+
+export interface IdempotencyRecord {
+  id: number;
+  user_id: number;
+  idempotency_key: string;
+  request_fingerprint: string;
+  response_status: number | null;
+  response_body: unknown;
+  transaction_id: string | null;
+  created_at: Date;
+  expires_at: Date;
+}
+
+export interface IdempotencyContext {
+  user_id: number;
+  key: string;
+  fingerprint: string;
+}
+
+export interface IdempotentResponse {
+  status: number;
+  body: unknown;
+}
@@ -0,0 +1,44 @@
+/**
+ * Ledger model - Schema definitions and interfaces only
+ */
+
+import { Money } from '../utils/money';
+
+export type SystemAccountCode = 'CASH_IN' | 'CASH_OUT' | 'OPENING_BALANCE';
+
+/**
+ * A single leg of a journal entry
+ * Exactly one of account_id or system_account is set; amount is positive for a credit
+ * (balance increases) and negative for a debit
+ */
+export interface LedgerPosting {
+  account_id?: number;
+  system_account?: SystemAccountCode;
+  amount: Money;
+}
+
+export interface AccountReconciliation {
+  account_id: number;
+  account_number: string;
+  stored_balance: Money;
+  ledger_balance: Money;
+  difference: Money;
+}
+
+export interface UnbalancedJournalEntry {
+  journal_entry_id: number;
+  transaction_id: string | null;
+  total: Money;
+}
+
+// Every account's stored and journal balances, before they are compared
+export interface LedgerSummary {
+  accounts: Omit<AccountReconciliation, 'difference'>[];
+  unbalanced_entries: UnbalancedJournalEntry[];
+}
+
+export interface ReconciliationReport {
+  balanced: boolean;
+  accounts: AccountReconciliation[];
+  unbalanced_entries: UnbalancedJournalEntry[];
+}
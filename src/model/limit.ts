@@ -0,0 +1,56 @@
+/**
+ * Limit model - Schema definitions and interfaces only
+ */
+
+import { Money } from '../utils/money';
+
+export type LimitedTransactionType = 'deposit' | 'withdrawal' | 'transfer';
+
+export interface KycTier {
+  code: string;
+  name: string;
+  rank: number;
+}
+
+/**
+ * Limits of one KYC tier for one transaction type; null means unlimited
+ */
+export interface TransactionLimit {
+  kyc_tier: string;
+  transaction_type: LimitedTransactionType;
+  per_transaction_max: Money | null;
+  daily_account_max: Money | null;
+  monthly_account_max: Money | null;
+  daily_user_max: Money | null;
+  monthly_user_max: Money | null;
+}
+
+export interface TransactionLimitRow {
+  kyc_tier: string;
+  transaction_type: LimitedTransactionType;
+  per_transaction_max: string | null;
+  daily_account_max: string | null;
+  monthly_account_max: string | null;
+  daily_user_max: string | null;
+  monthly_user_max: string | null;
+}
+
+/**
+ * Amounts already moved in the rolling windows
+ */
+export interface LimitUsage {
+  daily: Money;
+  monthly: Money;
+}
+
+export interface TypeLimitStatus {
+  transaction_type: LimitedTransactionType;
+  limits: TransactionLimit;
+  user_usage: LimitUsage;
+}
+
+export interface UserLimitsReport {
+  user_id: number;
+  kyc_tier: string;
+  limits: TypeLimitStatus[];
+}
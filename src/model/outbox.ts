@@ -0,0 +1,45 @@
+/**
+ * Outbox model - Schema definitions and interfaces only
+ */
+
+export type DomainEventType =
+  | 'transaction.completed'
+  | 'transaction.failed'
+  | 'transaction.pending_review'
+  | 'account.balance_changed';
+
+/**
+ * An event about one account, as written to the outbox and published
+ * sequence is set once the relay has published the event
+ */
+export interface OutboxEvent {
+  id: number;
+  event_id: string;
+  event_type: DomainEventType;
+  account_id: number;
+  payload: DomainEvent;
+  sequence: number | null;
+  published_at: Date | null;
+  created_at: Date;
+}
+
+export interface OutboxEventRow {
+  id: number;
+  event_id: string;
+  event_type: string;
+  account_id: number;
+  payload: string | DomainEvent;
+  sequence: number | null;
+  published_at: Date | null;
+  created_at: Date;
+}
+
+/**
+ * The event body sent to SSE clients and webhook endpoints
+ */
+export interface DomainEvent {
+  id: string;
+  type: DomainEventType;
+  created_at: string;
+  data: Record<string, unknown>;
+}
@@ -0,0 +1,95 @@
+/**
+ * Payment batch model - Schema definitions and interfaces only
+ */
+
+import { Money } from '../utils/money';
+
+export type PaymentFileFormat = 'csv' | 'pain001';
+
+export type PaymentBatchMode = 'all_or_nothing' | 'best_effort';
+
+export type PaymentBatchStatus = 'previewed' | 'processing' | 'completed' | 'partially_completed' | 'failed' | 'cancelled';
+
+export type PaymentLineStatus = 'valid' | 'invalid' | 'completed' | 'failed' | 'pending_review' | 'not_executed';
+
+/**
+ * One payment read from an uploaded file, before validation
+ * Fields are raw strings keyed like the transaction API (type, amount, source_account_id, ...)
+ */
+export interface ParsedPaymentLine {
+  line_number: number;
+  reference: string | null;
+  fields: Record<string, string>;
+  error?: string;
+}
+
+export interface ParsedPaymentFile {
+  file_reference: string | null;
+  lines: ParsedPaymentLine[];
+}
+
+export interface PaymentBatchLine {
+  line_number: number;
+  reference: string | null;
+  type: string | null;
+  amount: Money | null;
+  source_account_id: number | null;
+  destination_account_id: number | null;
+  status: PaymentLineStatus;
+  error: string | null;
+  transaction_id: string | null;
+}
+
+export interface PaymentBatchLineRow {
+  id: number;
+  batch_id: number;
+  line_number: number;
+  reference: string | null;
+  type: string | null;
+  amount: string | null;
+  source_account_id: number | null;
+  destination_account_id: number | null;
+  status: PaymentLineStatus;
+  error: string | null;
+  transaction_id: string | null;
+}
+
+export interface PaymentBatch {
+  id: number;
+  batch_id: string;
+  user_id: number;
+  file_format: PaymentFileFormat;
+  file_reference: string | null;
+  mode: PaymentBatchMode;
+  status: PaymentBatchStatus;
+  line_count: number;
+  valid_line_count: number;
+  total_amount: Money;
+  created_at: Date;
+  confirmed_at: Date | null;
+  completed_at: Date | null;
+  lines?: PaymentBatchLine[];
+}
+
+export interface PaymentBatchRow {
+  id: number;
+  batch_id: string;
+  user_id: number;
+  file_format: PaymentFileFormat;
+  file_reference: string | null;
+  mode: PaymentBatchMode;
+  status: PaymentBatchStatus;
+  line_count: number;
+  valid_line_count: number;
+  total_amount: string;
+  created_at: Date;
+  confirmed_at: Date | null;
+  completed_at: Date | null;
+}
+
+export interface CreatePaymentBatchData {
+  user_id: number;
+  file_format: PaymentFileFormat;
+  content: string;
+  mode: PaymentBatchMode;
+}
@@ -0,0 +1,61 @@
+/**
+ * Schedule model - Schema definitions and interfaces only
+ */
+
+import { Money } from '../utils/money';
+
+export type ScheduleFrequency = 'once' | 'daily' | 'weekly' | 'monthly';
+
+export type ScheduleStatus = 'active' | 'paused' | 'cancelled' | 'completed';
+
+export interface Schedule {
+  id: number;
+  schedule_id: string;
+  user_id: number;
+  source_account_id: number;
+  destination_account_id: number;
+  amount: Money;
+  frequency: ScheduleFrequency;
+  start_at: Date;
+  end_at?: Date;
+  next_run_at?: Date;
+  status: ScheduleStatus;
+  run_count: number;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface ScheduleRow {
+  id: number;
+  schedule_id: string;
+  user_id: number;
+  source_account_id: number;
+  destination_account_id: number;
+  amount: string;
+  frequency: string;
+  start_at: Date;
+  end_at?: Date;
+  next_run_at?: Date;
+  status: string;
+  run_count: number;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface CreateScheduleData {
+  source_account_id: number;
+  destination_account_id: number;
+  amount: Money;
+  frequency: ScheduleFrequency;
+  start_at: Date;
+  end_at?: Date;
+}
+
+export interface ScheduleRun {
+  id: number;
+  scheduled_for: Date;
+  transaction_id?: string;
+  status: 'completed' | 'failed';
+  failure_reason?: string;
+  created_at: Date;
+}
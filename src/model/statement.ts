@@ -0,0 +1,66 @@
+/**
+ * Statement model - Schema definitions and interfaces only
+ */
+
+import { Money } from '../utils/money';
+
+export type StatementFormat = 'json' | 'csv' | 'html' | 'pdf' | 'camt053' | 'mt940';
+
+/**
+ * One booked journal entry on the account; amount is signed from the account holder's
+ * point of view (positive = money in)
+ */
+export interface StatementLine {
+  journal_entry_id: number;
+  booked_at: Date;
+  transaction_id: string | null;
+  type: string | null;
+  description: string;
+  amount: Money;
+  running_balance: Money;
+}
+
+export interface Statement {
+  account_id: number;
+  account_number: string;
+  account_holder: string;
+  period_start: Date;
+  period_end: Date;
+  opening_balance: Money;
+  total_in: Money;
+  total_out: Money;
+  closing_balance: Money;
+  lines: StatementLine[];
+}
+
+/**
+ * A journal entry booked on the account, with the account's postings in it summed and the
+ * transaction that caused it (null for entries without one, such as the opening balance import)
+ */
+export interface StatementEntry {
+  journal_entry_id: number;
+  booked_at: Date;
+  description: string;
+  transaction_id: string | null;
+  type: string | null;
+  original_transaction_id: string | null;
+  source_account_id: number | null;
+  destination_account_id: number | null;
+  source_account_number: string | null;
+  destination_account_number: string | null;
+  amount: Money;
+}
+
+export interface StatementEntryRow {
+  journal_entry_id: number;
+  booked_at: Date;
+  description: string;
+  transaction_id: string | null;
+  type: string | null;
+  original_transaction_id: string | null;
+  source_account_id: number | null;
+  destination_account_id: number | null;
+  source_account_number: string | null;
+  destination_account_number: string | null;
+  amount: string;
+}
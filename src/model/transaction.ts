@@ -1,22 +1,51 @@
+import { Money } from '../utils/money';
+
+export type TransactionType = 'deposit' | 'withdrawal' | 'transfer' | 'reversal';
+
+export type TransactionStatus = 'completed' | 'failed' | 'reversed' | 'partially_reversed' | 'pending_review';
+
 export interface Transaction {
   id: number;
   transaction_id: string;
-  type: 'deposit' | 'withdrawal' | 'transfer';
-  amount: number;
+  type: TransactionType;
+  amount: Money;
   source_account_id?: number;
   destination_account_id?: number;
-  status: 'completed' | 'failed';
+  original_transaction_id?: string;
+  batch_id?: string;
+  reversed_amount: Money;
+  status: TransactionStatus;
   failure_reason?: string;
   created_at: Date;
 }
 
 export interface CreateTransactionData {
   type: 'deposit' | 'withdrawal' | 'transfer';
-  amount: number;
+  amount: Money;
   source_account_id?: number;
   destination_account_id?: number;
 }
 
+export type TransactionBatchStatus = 'completed' | 'failed';
+
+/**
+ * Legs submitted together; they all complete in one database transaction or all fail
+ */
+export interface TransactionBatch {
+  batch_id: string;
+  status: TransactionBatchStatus;
+  legs: Transaction[];
+}
+
+/**
+ * Outcome of applying legs on a caller's connection
+ * failures maps the index of every leg that would not complete to its reason
+ */
+export interface AppliedBatch {
+  transactions: Transaction[];
+  failures: Map<number, string>;
+}
+
 export interface TransactionRow {
   id: number;
   transaction_id: string;
@@ -24,11 +53,57 @@ export interface TransactionRow {
   amount: string;
   source_account_id?: number;
   destination_account_id?: number;
+  original_transaction_id?: string;
+  batch_id?: string;
+  reversed_amount: string;
   status: string;
   failure_reason?: string;
   created_at: Date;
 }
 
+export interface AccountBalance {
+  balance: Money;
+  available_balance: Money;
+}
+
+export interface ReverseTransactionData {
+  amount?: Money;
+}
+
+export interface ReversalResult {
+  reversal: Transaction;
+  original: Transaction;
+}
+
+export interface TransactionHistoryFilters {
+  type?: TransactionType;
+  status?: TransactionStatus;
+  direction?: 'in' | 'out';
+  min_amount?: Money;
+  max_amount?: Money;
+  from?: Date;
+  to?: Date;
+  cursor?: string;
+  limit: number;
+}
+
+export interface AccountTransaction extends Transaction {
+  direction: 'in' | 'out';
+  signed_amount: Money;
+  running_balance: Money;
+}
+
+export interface AccountTransactionRow extends TransactionRow {
+  signed_amount: string;
+  running_balance: string;
+}
+
+export interface TransactionHistoryPage {
+  account_id: number;
+  transactions: AccountTransaction[];
+  next_cursor: string | null;
+}
+
 export interface SummaryReport {
   accounts: AccountSummary[];
   failed_transactions: FailedTransactionSummary[];
@@ -38,8 +113,8 @@ export interface AccountSummary {
   account_id: number;
   account_number: string;
   username: string;
-  current_balance: number;
-  largest_transaction: number;
+  current_balance: Money;
+  largest_transaction: Money;
 }
 
 export interface FailedTransactionSummary {
@@ -0,0 +1,110 @@
+/**
+ * Transaction chain model - Schema definitions and interfaces only
+ */
+
+import { Money } from '../utils/money';
+
+// The parts of a transaction covered by its link, in the order they are hashed
+// status is the outcome when the row was linked; later reversals are rows of their own, so a
+// reversed transaction stays 'completed' here
+export interface ChainContents {
+  sequence: number;
+  transaction_id: string;
+  type: string;
+  amount: string;
+  source_account_id: number | null;
+  destination_account_id: number | null;
+  original_transaction_id: string | null;
+  batch_id: string | null;
+  status: 'completed' | 'failed';
+  failure_reason: string | null;
+  created_at: number; // Unix seconds
+}
+
+/**
+ * A transaction with what its link covers and the link itself (null while it is not linked)
+ */
+export interface ChainedTransaction {
+  transaction_id: string;
+  type: string;
+  amount: Money;
+  source_account_id: number | null;
+  destination_account_id: number | null;
+  original_transaction_id: string | null;
+  batch_id: string | null;
+  reversed_amount: Money;
+  status: string;
+  failure_reason: string | null;
+  created_epoch: number; // Unix seconds
+  chain_sequence: number | null;
+  prev_hash: string | null;
+  row_hash: string | null;
+}
+
+/**
+ * A linked transaction with the sum of its linked completed reversals
+ */
+export interface LinkedTransaction extends ChainedTransaction {
+  linked_reversed: Money;
+}
+
+export interface ChainHead {
+  sequence: number;
+  hash: string;
+}
+
+export interface ChainedTransactionRow {
+  transaction_id: string;
+  type: string;
+  amount: string;
+  source_account_id: number | null;
+  destination_account_id: number | null;
+  original_transaction_id: string | null;
+  batch_id: string | null;
+  reversed_amount: string;
+  status: string;
+  failure_reason: string | null;
+  created_epoch: number | string;
+  chain_sequence: number | null;
+  prev_hash: string | null;
+  row_hash: string | null;
+}
+
+export interface TransactionReceipt {
+  version: 1;
+  algorithm: 'Ed25519';
+  key_id: string;
+  contents: ChainContents;
+  prev_hash: string;
+  row_hash: string;
+  signature: string; // base64 Ed25519 signature of "receipt.v1.<row_hash>"
+}
+
+export interface ReceiptPublicKey {
+  key_id: string;
+  algorithm: 'Ed25519';
+  public_key: string; // SPKI PEM
+}
+
+export type ChainBreakReason =
+  | 'missing_link' // a sequence number is skipped: a row was deleted or renumbered
+  | 'prev_hash_mismatch' // the row does not point at the link before it
+  | 'content_mismatch' // the row's contents no longer hash to its row_hash
+  | 'reversal_mismatch' // reversed_amount or status disagrees with the linked reversals
+  | 'head_mismatch'; // the chain ends before, or differently from, the recorded head
+
+export interface ChainBreak {
+  sequence: number;
+  transaction_id: string | null;
+  reason: ChainBreakReason;
+  expected: string | null;
+  actual: string | null;
+}
+
+export interface ChainVerification {
+  valid: boolean;
+  checked: number;
+  head: ChainHead;
+  first_broken_link: ChainBreak | null;
+  unchained: number; // final rows not linked yet, e.g. written before the chain existed
+}
@@ -1,29 +1,34 @@
 /**
  * User model - Schema definitions and interfaces only
+ * Credentials live in api_keys (see model/apiKey.ts)
  */
 
+export type UserRole = 'customer' | 'support' | 'auditor' | 'admin';
+
 export interface User {
   id: number;
   username: string;
-  secret_key: string;
+  role: UserRole;
+  kyc_tier: string;
+  require_signed_requests: boolean;
   created_at: Date;
   updated_at: Date;
 }
 
 export interface CreateUserData {
   username: string;
-  secret_key: string;
 }
 
 export interface UpdateUserData {
   username?: string;
-  secret_key?: string;
 }
 
 export interface UserRow {
   id: number;
   username: string;
-  secret_key: string;
+  role: UserRole;
+  kyc_tier: string;
+  require_signed_requests: number;
   created_at: Date;
   updated_at: Date;
-}
\ No newline at end of file
+}
@@ -0,0 +1,112 @@
+/**
+ * Webhook model - Schema definitions and interfaces only
+ */
+
+import { DomainEvent } from './outbox';
+
+export type WebhookEventType = 'transaction.completed' | 'transaction.failed' | 'account.balance_changed';
+
+export type WebhookEndpointStatus = 'active' | 'disabled';
+
+export type WebhookDeliveryStatus = 'pending' | 'delivered' | 'failed';
+
+export interface WebhookEndpoint {
+  id: number;
+  endpoint_id: string;
+  user_id: number;
+  url: string;
+  description: string | null;
+  events: WebhookEventType[];
+  status: WebhookEndpointStatus;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface WebhookEndpointRow {
+  id: number;
+  endpoint_id: string;
+  user_id: number;
+  url: string;
+  description: string | null;
+  events: string | WebhookEventType[];
+  secret: string;
+  status: string;
+  created_at: Date;
+  updated_at: Date;
+}
+
+/**
+ * A stored endpoint with its signing secret, sealed with the signing encryption key
+ */
+export interface WebhookEndpointRecord extends WebhookEndpoint {
+  secret: string;
+}
+
+/**
+ * A newly registered endpoint; the secret is only ever returned here
+ */
+export interface IssuedWebhookEndpoint extends WebhookEndpoint {
+  secret: string;
+}
+
+export interface CreateWebhookEndpointData {
+  user_id: number;
+  url: string;
+  description?: string;
+  events: WebhookEventType[];
+}
+
+export interface WebhookDelivery {
+  id: number;
+  delivery_id: string;
+  endpoint_id: string;
+  event_id: string;
+  event_type: WebhookEventType;
+  payload: DomainEvent;
+  status: WebhookDeliveryStatus;
+  attempt_count: number;
+  next_attempt_at: Date | null;
+  last_attempt_at: Date | null;
+  delivered_at: Date | null;
+  created_at: Date;
+  attempts?: WebhookAttempt[];
+}
+
+export interface WebhookDeliveryRow {
+  id: number;
+  delivery_id: string;
+  endpoint_id: number;
+  public_endpoint_id: string;
+  event_id: string;
+  event_type: string;
+  payload: string | DomainEvent;
+  status: string;
+  attempt_count: number;
+  next_attempt_at: Date | null;
+  last_attempt_at: Date | null;
+  delivered_at: Date | null;
+  created_at: Date;
+}
+
+export interface WebhookAttempt {
+  response_status: number | null;
+  error: string | null;
+  duration_ms: number;
+  succeeded: boolean;
+  attempted_at: Date;
+}
+
+export interface WebhookAttemptRow {
+  id: number;
+  delivery_id: number;
+  response_status: number | null;
+  error: string | null;
+  duration_ms: number;
+  succeeded: number;
+  attempted_at: Date;
+}
+
+export interface WebhookDeliveryFilters {
+  status?: WebhookDeliveryStatus;
+  limit: number;
+}
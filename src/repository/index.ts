@@ -0,0 +1,65 @@
+import { storageConfig, StorageBackend, StorageConfig } from '../config/storage';
+import { MySqlStorage } from './mysql';
+import { SqliteStorage } from './sqlite';
+import { MemoryStorage } from './memory';
+import { Repositories, Storage, StorageSession } from './repositories';
+
+/**
+ * Holds the storage backend chosen by configuration, the way utils/database.ts holds the MySQL pool
+ */
+class StorageConnection {
+  private storage: Storage | null = null;
+  private config: StorageConfig;
+
+  constructor(config: StorageConfig = storageConfig) {
+    this.config = config;
+  }
+
+  public async initialize(backend: StorageBackend = this.config.backend): Promise<void> {
+    const storage = backend === 'mysql'
+      ? new MySqlStorage()
+      : backend === 'sqlite'
+        ? new SqliteStorage(this.config.sqlitePath)
+        : backend === 'memory'
+          ? new MemoryStorage()
+          : null;
+
+    if (!storage) {
+      throw new Error(`Unknown storage backend: ${backend}`);
+    }
+
+    await storage.initialize();
+    this.storage = storage;
+  }
+
+  public get backend(): StorageBackend {
+    return this.getStorage().backend;
+  }
+
+  public repositories(): Repositories {
+    return this.getStorage().repositories;
+  }
+
+  public async transaction<T>(work: (session: StorageSession) => Promise<T>): Promise<T> {
+    return this.getStorage().transaction(work);
+  }
+
+  public async close(): Promise<void> {
+    if (this.storage) {
+      await this.storage.close();
+      this.storage = null;
+    }
+  }
+
+  private getStorage(): Storage {
+    if (!this.storage) {
+      throw new Error('Storage not initialized. Call initialize() first.');
+    }
+    return this.storage;
+  }
+}
+
+export const storage = new StorageConnection();
+
+export { StorageConnection };
+export * from './repositories';
@@ -0,0 +1,89 @@
+import { Money } from '../../utils/money';
+import { Account } from '../../model/account';
+import { AccountBalance } from '../../model/transaction';
+import { AccountChanges, AccountRepository, NewAccount } from '../repositories';
+import { Scope } from './state';
+
+export class MemoryAccountRepository implements AccountRepository {
+  constructor(private readonly scope: Scope) {}
+
+  findById(id: number): Promise<Account | null> {
+    return this.scope(state => {
+      const account = state.accounts.get(id);
+      return account ? { ...account } : null;
+    });
+  }
+
+  findByAccountNumber(accountNumber: string): Promise<Account | null> {
+    return this.scope(state => {
+      const account = [...state.accounts.values()].find(candidate => candidate.account_number === accountNumber);
+      return account ? { ...account } : null;
+    });
+  }
+
+  listForUser(userId: number): Promise<Account[]> {
+    return this.scope(state =>
+      [...state.accounts.values()]
+        .filter(account => account.user_id === userId)
+        .map(account => ({ ...account }))
+    );
+  }
+
+  create(data: NewAccount): Promise<Account> {
+    return this.scope(state => {
+      if ([...state.accounts.values()].some(account => account.account_number === data.account_number)) {
+        throw new Error('Account number already exists');
+      }
+      if (!state.users.has(data.user_id)) {
+        throw new Error('User does not exist');
+      }
+
+      const now = new Date();
+      const account: Account = {
+        id: state.nextId.account++,
+        user_id: data.user_id,
+        account_number: data.account_number,
+        balance: Money.ZERO,
+        status: 'active',
+        frozen_by: null,
+        closed_at: null,
+        created_at: now,
+        updated_at: now
+      };
+      state.accounts.set(account.id, account);
+
+      return { ...account };
+    });
+  }
+
+  update(id: number, changes: AccountChanges): Promise<void> {
+    return this.scope(state => {
+      const account = state.accounts.get(id);
+      if (account) {
+        state.accounts.set(id, {
+          ...account,
+          status: changes.status ?? account.status,
+          frozen_by: changes.frozen_by !== undefined ? changes.frozen_by : account.frozen_by,
+          closed_at: changes.closed_at !== undefined ? changes.closed_at : account.closed_at,
+          updated_at: new Date()
+        });
+      }
+    });
+  }
+
+  getBalance(id: number): Promise<AccountBalance | null> {
+    return this.scope(state => {
+      const account = state.accounts.get(id);
+      if (!account) {
+        return null;
+      }
+
+      const now = Date.now();
+      const held = [...state.holds.values()]
+        .filter(hold => hold.account_id === id && hold.status === 'held' && hold.expires_at.getTime() > now)
+        .reduce((sum, hold) => sum.add(hold.amount), Money.ZERO);
+
+      return { balance: account.balance, available_balance: account.balance.subtract(held) };
+    });
+  }
+}
@@ -0,0 +1,117 @@
+import { User } from '../../model/user';
+import { ApiKeyRecord } from '../../model/apiKey';
+import { ApiKeyChanges, ApiKeyRepository, NewApiKey } from '../repositories';
+import { Scope } from './state';
+
+/**
+ * Whether a key is neither revoked nor expired
+ */
+const isActive = (key: ApiKeyRecord, now: number): boolean =>
+  key.revoked_at === null && (key.expires_at === null || key.expires_at.getTime() > now);
+
+export class MemoryApiKeyRepository implements ApiKeyRepository {
+  constructor(private readonly scope: Scope) {}
+
+  findActiveWithUser(keyId: string): Promise<{ key: ApiKeyRecord; user: User } | null> {
+    return this.scope(state => {
+      const key = [...state.apiKeys.values()].find(candidate => candidate.key_id === keyId);
+      if (!key || !isActive(key, Date.now())) {
+        return null;
+      }
+
+      return { key: { ...key }, user: { ...state.users.get(key.user_id)! } };
+    });
+  }
+
+  findByKeyId(keyId: string): Promise<ApiKeyRecord | null> {
+    return this.scope(state => {
+      const key = [...state.apiKeys.values()].find(candidate => candidate.key_id === keyId);
+      return key ? { ...key } : null;
+    });
+  }
+
+  listForUser(userId: number): Promise<ApiKeyRecord[]> {
+    return this.scope(state =>
+      [...state.apiKeys.values()]
+        .filter(key => key.user_id === userId)
+        .reverse()
+        .map(key => ({ ...key }))
+    );
+  }
+
+  countActive(userId: number, options: { signing?: boolean } = {}): Promise<number> {
+    return this.scope(state => {
+      const now = Date.now();
+      return [...state.apiKeys.values()].filter(key =>
+        key.user_id === userId && isActive(key, now) && (!options.signing || key.signing_secret !== null)
+      ).length;
+    });
+  }
+
+  insert(data: NewApiKey): Promise<void> {
+    return this.scope(state => {
+      if ([...state.apiKeys.values()].some(key => key.key_id === data.key_id)) {
+        throw new Error('API key ID already exists');
+      }
+
+      const id = state.nextId.apiKey++;
+      state.apiKeys.set(id, {
+        ...data,
+        id,
+        revoked_at: null,
+        last_used_at: null,
+        created_at: new Date()
+      });
+    });
+  }
+
+  update(id: number, changes: ApiKeyChanges): Promise<void> {
+    return this.scope(state => {
+      const key = state.apiKeys.get(id);
+      if (key) {
+        state.apiKeys.set(id, {
+          ...key,
+          require_signature: changes.require_signature ?? key.require_signature,
+          revoked_at: changes.revoked_at ?? key.revoked_at
+        });
+      }
+    });
+  }
+
+  expireWithin(id: number, seconds: number): Promise<void> {
+    return this.scope(state => {
+      const key = state.apiKeys.get(id);
+      if (key) {
+        const deadline = Date.now() + seconds * 1000;
+        const expiresAt = key.expires_at === null ? deadline : Math.min(key.expires_at.getTime(), deadline);
+        state.apiKeys.set(id, { ...key, expires_at: new Date(expiresAt) });
+      }
+    });
+  }
+
+  touch(id: number): Promise<void> {
+    return this.scope(state => {
+      const key = state.apiKeys.get(id);
+      const now = Date.now();
+      if (key && (key.last_used_at === null || key.last_used_at.getTime() < now - 60 * 1000)) {
+        state.apiKeys.set(id, { ...key, last_used_at: new Date(now) });
+      }
+    });
+  }
+
+  consumeNonce(keyId: string, nonce: string, expiresAt: Date): Promise<void> {
+    return this.scope(state => {
+      const now = Date.now();
+      for (const [used, expiry] of state.nonces) {
+        if (used.startsWith(`${keyId}:`) && expiry.getTime() <= now) {
+          state.nonces.delete(used);
+        }
+      }
+
+      if (state.nonces.has(`${keyId}:${nonce}`)) {
+        throw new Error('Request nonce has already been used');
+      }
+      state.nonces.set(`${keyId}:${nonce}`, expiresAt);
+    });
+  }
+}
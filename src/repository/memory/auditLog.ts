@@ -0,0 +1,47 @@
+import { AuditEntry } from '../../model/audit';
+import { AuditLogQuery, AuditLogRepository, NewAuditEntry } from '../repositories';
+import { Scope, viaJson } from './state';
+
+export class MemoryAuditLogRepository implements AuditLogRepository {
+  constructor(private readonly scope: Scope) {}
+
+  insert(entry: NewAuditEntry): Promise<void> {
+    return this.scope(state => {
+      state.auditLog.push({
+        ...entry,
+        id: state.nextId.audit++,
+        before_value: viaJson(entry.before_value),
+        after_value: viaJson(entry.after_value),
+        created_at: new Date()
+      });
+    });
+  }
+
+  list(query: AuditLogQuery): Promise<AuditEntry[]> {
+    const equalityFilters = ['category', 'action', 'actor_user_id', 'resource_type', 'resource_id', 'request_id', 'outcome'] as const;
+
+    return this.scope(state =>
+      state.auditLog
+        .filter(entry =>
+          equalityFilters.every(column => query[column] === undefined || entry[column] === query[column]) &&
+          (query.from === undefined || entry.created_at.getTime() >= query.from.getTime()) &&
+          (query.to === undefined || entry.created_at.getTime() <= query.to.getTime()) &&
+          (query.before_id === undefined || entry.id < query.before_id)
+        )
+        .reverse()
+        .slice(0, query.limit)
+        .map(entry => this.copy(entry))
+    );
+  }
+
+  findByAuditId(auditId: string): Promise<AuditEntry | null> {
+    return this.scope(state => {
+      const entry = state.auditLog.find(candidate => candidate.audit_id === auditId);
+      return entry ? this.copy(entry) : null;
+    });
+  }
+
+  private copy(entry: AuditEntry): AuditEntry {
+    return { ...entry, before_value: viaJson(entry.before_value), after_value: viaJson(entry.after_value) };
+  }
+}
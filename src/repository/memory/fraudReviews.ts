@@ -0,0 +1,57 @@
+import { FraudReview, ReviewStatus } from '../../model/fraud';
+import { FraudReviewRepository, NewFraudReview, ReviewDecision } from '../repositories';
+import { Scope, viaJson } from './state';
+
+export class MemoryFraudReviewRepository implements FraudReviewRepository {
+  constructor(private readonly scope: Scope) {}
+
+  insert(data: NewFraudReview): Promise<void> {
+    return this.scope(state => {
+      if (!state.transactions.has(data.transaction_id)) {
+        throw new Error('Transaction not found');
+      }
+
+      state.fraudReviews.set(data.review_id, {
+        id: state.nextId.fraudReview++,
+        review_id: data.review_id,
+        transaction_id: data.transaction_id,
+        rule_hits: viaJson(data.rule_hits),
+        status: 'pending',
+        reviewed_by: null,
+        review_note: null,
+        reviewed_at: null,
+        created_at: new Date()
+      });
+    });
+  }
+
+  findByReviewId(reviewId: string): Promise<FraudReview | null> {
+    return this.scope(state => {
+      const review = state.fraudReviews.get(reviewId);
+      return review ? this.copy(review) : null;
+    });
+  }
+
+  listByStatus(status: ReviewStatus, limit: number): Promise<FraudReview[]> {
+    return this.scope(state =>
+      [...state.fraudReviews.values()]
+        .filter(review => review.status === status)
+        .sort((a, b) => a.created_at.getTime() - b.created_at.getTime() || a.id - b.id)
+        .slice(0, limit)
+        .map(review => this.copy(review))
+    );
+  }
+
+  decide(reviewId: string, decision: ReviewDecision): Promise<void> {
+    return this.scope(state => {
+      const review = state.fraudReviews.get(reviewId);
+      if (review) {
+        state.fraudReviews.set(reviewId, { ...review, ...decision, reviewed_at: new Date() });
+      }
+    });
+  }
+
+  private copy(review: FraudReview): FraudReview {
+    return { ...review, rule_hits: viaJson(review.rule_hits) };
+  }
+}
@@ -0,0 +1,50 @@
+import { Hold } from '../../model/hold';
+import { HoldChanges, HoldRepository, NewHold } from '../repositories';
+import { Scope } from './state';
+
+export class MemoryHoldRepository implements HoldRepository {
+  constructor(private readonly scope: Scope) {}
+
+  findByHoldId(holdId: string): Promise<Hold | null> {
+    return this.scope(state => {
+      const hold = state.holds.get(holdId);
+      return hold ? { ...hold } : null;
+    });
+  }
+
+  insert(data: NewHold): Promise<void> {
+    return this.scope(state => {
+      if (!state.accounts.has(data.account_id)) {
+        throw new Error('Account not found');
+      }
+
+      const now = Date.now();
+      state.holds.set(data.hold_id, {
+        id: state.nextId.hold++,
+        hold_id: data.hold_id,
+        account_id: data.account_id,
+        destination_account_id: data.destination_account_id,
+        amount: data.amount,
+        status: 'held',
+        expires_at: new Date(now + data.expires_in_seconds * 1000),
+        created_at: new Date(now),
+        updated_at: new Date(now)
+      });
+    });
+  }
+
+  update(holdId: string, changes: HoldChanges): Promise<void> {
+    return this.scope(state => {
+      const hold = state.holds.get(holdId);
+      if (hold) {
+        state.holds.set(holdId, {
+          ...hold,
+          status: changes.status ?? hold.status,
+          captured_amount: changes.captured_amount !== undefined ? changes.captured_amount ?? undefined : hold.captured_amount,
+          transaction_id: changes.transaction_id ?? hold.transaction_id,
+          updated_at: new Date()
+        });
+      }
+    });
+  }
+}
@@ -0,0 +1,54 @@
+import { IdempotencyRecord, IdempotentResponse } from '../../model/idempotency';
+import { IdempotencyKeyRepository, NewIdempotencyKey } from '../repositories';
+import { Scope, viaJson } from './state';
+
+const keyOf = (userId: number, key: string) => `${userId}:${key}`;
+
+export class MemoryIdempotencyKeyRepository implements IdempotencyKeyRepository {
+  constructor(private readonly scope: Scope) {}
+
+  find(userId: number, key: string): Promise<IdempotencyRecord | null> {
+    return this.scope(state => {
+      const record = state.idempotencyKeys.get(keyOf(userId, key));
+      return record && record.expires_at.getTime() > Date.now()
+        ? { ...record, response_body: viaJson(record.response_body) }
+        : null;
+    });
+  }
+
+  claim(data: NewIdempotencyKey): Promise<void> {
+    return this.scope(state => {
+      const now = Date.now();
+      const existing = state.idempotencyKeys.get(keyOf(data.user_id, data.key));
+      if (existing && existing.expires_at.getTime() > now) {
+        throw new Error('Idempotency key is already in use');
+      }
+
+      state.idempotencyKeys.set(keyOf(data.user_id, data.key), {
+        id: state.nextId.idempotencyKey++,
+        user_id: data.user_id,
+        idempotency_key: data.key,
+        request_fingerprint: data.fingerprint,
+        response_status: null,
+        response_body: null,
+        transaction_id: null,
+        created_at: new Date(now),
+        expires_at: new Date(now + data.ttl_seconds * 1000)
+      });
+    });
+  }
+
+  complete(userId: number, key: string, response: IdempotentResponse, transactionId: string | null): Promise<void> {
+    return this.scope(state => {
+      const record = state.idempotencyKeys.get(keyOf(userId, key));
+      if (record) {
+        state.idempotencyKeys.set(keyOf(userId, key), {
+          ...record,
+          response_status: response.status,
+          response_body: viaJson(response.body),
+          transaction_id: transactionId
+        });
+      }
+    });
+  }
+}
@@ -0,0 +1,78 @@
+import { Mutex } from '../../utils/mutex';
+import { Repositories, Storage, StorageSession } from '../repositories';
+import { MemoryState, Scope, cloneState, emptyState } from './state';
+import { MemoryUserRepository } from './users';
+import { MemoryAccountRepository } from './accounts';
+import { MemoryTransactionRepository } from './transactions';
+import { MemoryIdempotencyKeyRepository } from './idempotencyKeys';
+import { MemoryLimitRepository } from './limits';
+import { MemoryFraudReviewRepository } from './fraudReviews';
+import { MemoryTransactionChainRepository } from './transactionChain';
+import { MemoryOutboxRepository } from './outbox';
+import { MemoryAuditLogRepository } from './auditLog';
+import { MemoryApiKeyRepository } from './apiKeys';
+import { MemoryHoldRepository } from './holds';
+import { MemoryScheduleRepository } from './schedules';
+import { MemoryWebhookDeliveryRepository, MemoryWebhookEndpointRepository } from './webhooks';
+import { MemoryPaymentBatchRepository } from './paymentBatches';
+
+/**
+ * Bind every repository to one scope: the committed state, or a transaction's copy of it
+ */
+function memoryRepositories(scope: Scope): Repositories {
+  return {
+    users: new MemoryUserRepository(scope),
+    accounts: new MemoryAccountRepository(scope),
+    transactions: new MemoryTransactionRepository(scope),
+    idempotencyKeys: new MemoryIdempotencyKeyRepository(scope),
+    limits: new MemoryLimitRepository(scope),
+    fraudReviews: new MemoryFraudReviewRepository(scope),
+    transactionChain: new MemoryTransactionChainRepository(scope),
+    outbox: new MemoryOutboxRepository(scope),
+    auditLog: new MemoryAuditLogRepository(scope),
+    apiKeys: new MemoryApiKeyRepository(scope),
+    holds: new MemoryHoldRepository(scope),
+    schedules: new MemoryScheduleRepository(scope),
+    webhookEndpoints: new MemoryWebhookEndpointRepository(scope),
+    webhookDeliveries: new MemoryWebhookDeliveryRepository(scope),
+    paymentBatches: new MemoryPaymentBatchRepository(scope)
+  };
+}
+
+/**
+ * In-memory storage - for tests and local runs without a database server
+ * Transactions run one at a time on a copy of the state that replaces it on commit, so a rolled
+ * back transaction leaves no trace and readers never see uncommitted changes. Data is lost when
+ * the process exits
+ */
+export class MemoryStorage implements Storage {
+  readonly backend = 'memory' as const;
+
+  private state: MemoryState = emptyState();
+  private readonly mutex = new Mutex();
+
+  // Calls outside a transaction queue behind running transactions and apply to the committed state
+  private readonly autocommit: Scope = work => this.mutex.run(() => work(this.state));
+
+  readonly repositories: Repositories = memoryRepositories(this.autocommit);
+
+  async initialize(): Promise<void> {
+    this.state = emptyState();
+  }
+
+  async transaction<T>(work: (session: StorageSession) => Promise<T>): Promise<T> {
+    return this.mutex.run(async () => {
+      const draft = cloneState(this.state);
+      const scope: Scope = async work => work(draft);
+
+      const result = await work(memoryRepositories(scope));
+
+      this.state = draft;
+      return result;
+    });
+  }
+
+  async close(): Promise<void> {
+    this.state = emptyState();
+  }
+}
@@ -0,0 +1,14 @@
+import { LimitedTransactionType, TransactionLimit } from '../../model/limit';
+import { LimitRepository } from '../repositories';
+import { Scope, limitKey } from './state';
+
+export class MemoryLimitRepository implements LimitRepository {
+  constructor(private readonly scope: Scope) {}
+
+  find(tier: string, type: LimitedTransactionType): Promise<TransactionLimit | null> {
+    return this.scope(state => {
+      const limit = state.limits.get(limitKey(tier, type));
+      return limit ? { ...limit } : null;
+    });
+  }
+}
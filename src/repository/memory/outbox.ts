@@ -0,0 +1,72 @@
+import { OutboxEvent } from '../../model/outbox';
+import { NewOutboxEvent, OutboxRepository } from '../repositories';
+import { Scope, viaJson } from './state';
+
+export class MemoryOutboxRepository implements OutboxRepository {
+  constructor(private readonly scope: Scope) {}
+
+  insert(data: NewOutboxEvent): Promise<void> {
+    return this.scope(state => {
+      if (!state.accounts.has(data.account_id)) {
+        throw new Error('Account not found');
+      }
+
+      const id = state.nextId.outbox++;
+      state.outbox.set(id, {
+        id,
+        event_id: data.event.id,
+        event_type: data.event.type,
+        account_id: data.account_id,
+        payload: viaJson(data.event),
+        sequence: null,
+        published_at: null,
+        created_at: new Date()
+      });
+    });
+  }
+
+  listUnpublished(limit: number): Promise<OutboxEvent[]> {
+    return this.scope(state =>
+      [...state.outbox.values()]
+        .filter(event => event.published_at === null)
+        .slice(0, limit)
+        .map(event => this.copy(event))
+    );
+  }
+
+  markPublished(id: number, sequence: number): Promise<void> {
+    return this.scope(state => {
+      const event = state.outbox.get(id);
+      if (event) {
+        state.outbox.set(id, { ...event, sequence, published_at: new Date() });
+      }
+    });
+  }
+
+  getLastSequence(): Promise<number> {
+    return this.scope(state => state.outboxLastSequence);
+  }
+
+  setLastSequence(sequence: number): Promise<void> {
+    return this.scope(state => {
+      state.outboxLastSequence = sequence;
+    });
+  }
+
+  listPublished(afterSequence: number, limit: number, accountId?: number): Promise<OutboxEvent[]> {
+    return this.scope(state =>
+      [...state.outbox.values()]
+        .filter(event =>
+          event.sequence !== null && event.sequence > afterSequence &&
+          (accountId === undefined || event.account_id === accountId)
+        )
+        .sort((a, b) => a.sequence! - b.sequence!)
+        .slice(0, limit)
+        .map(event => this.copy(event))
+    );
+  }
+
+  private copy(event: OutboxEvent): OutboxEvent {
+    return { ...event, payload: viaJson(event.payload) };
+  }
+}
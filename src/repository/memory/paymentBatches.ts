@@ -0,0 +1,116 @@
+import { PaymentBatch, PaymentBatchLine, PaymentLineStatus } from '../../model/paymentBatch';
+import {
+  NewPaymentBatch,
+  PaymentBatchChanges,
+  PaymentBatchRepository,
+  PaymentLineOutcome
+} from '../repositories';
+import { MemoryState, Scope } from './state';
+
+const lineKey = (id: number, lineNumber: number) => `${id}:${lineNumber}`;
+
+export class MemoryPaymentBatchRepository implements PaymentBatchRepository {
+  constructor(private readonly scope: Scope) {}
+
+  insert(data: NewPaymentBatch): Promise<void> {
+    return this.scope(state => {
+      if ([...state.paymentBatches.values()].some(batch => batch.batch_id === data.batch_id)) {
+        throw new Error('Batch ID already exists');
+      }
+
+      const id = state.nextId.paymentBatch++;
+      state.paymentBatches.set(id, {
+        id,
+        batch_id: data.batch_id,
+        user_id: data.user_id,
+        file_format: data.file_format,
+        file_reference: data.file_reference,
+        mode: data.mode,
+        status: 'previewed',
+        line_count: data.lines.length,
+        valid_line_count: data.valid_line_count,
+        total_amount: data.total_amount,
+        created_at: new Date(),
+        confirmed_at: null,
+        completed_at: null
+      });
+
+      for (const line of data.lines) {
+        state.paymentLines.set(lineKey(id, line.line_number), { ...line, transaction_id: null });
+      }
+    });
+  }
+
+  findByBatchId(batchId: string): Promise<PaymentBatch | null> {
+    return this.scope(state => {
+      const batch = [...state.paymentBatches.values()].find(candidate => candidate.batch_id === batchId);
+      return batch ? { ...batch } : null;
+    });
+  }
+
+  listForUser(userId: number, limit: number): Promise<PaymentBatch[]> {
+    return this.scope(state =>
+      [...state.paymentBatches.values()]
+        .filter(batch => batch.user_id === userId)
+        .reverse()
+        .slice(0, limit)
+        .map(batch => ({ ...batch }))
+    );
+  }
+
+  listProcessing(): Promise<PaymentBatch[]> {
+    return this.scope(state =>
+      [...state.paymentBatches.values()]
+        .filter(batch => batch.status === 'processing' && batch.mode === 'best_effort')
+        .map(batch => ({ ...batch }))
+    );
+  }
+
+  update(id: number, changes: PaymentBatchChanges): Promise<void> {
+    return this.scope(state => {
+      const batch = state.paymentBatches.get(id);
+      if (batch) {
+        state.paymentBatches.set(id, {
+          ...batch,
+          status: changes.status,
+          confirmed_at: changes.confirmed_at ?? batch.confirmed_at,
+          completed_at: changes.completed_at ?? batch.completed_at
+        });
+      }
+    });
+  }
+
+  listLines(id: number, status?: PaymentLineStatus): Promise<PaymentBatchLine[]> {
+    return this.scope(state =>
+      this.lines(state, id)
+        .filter(line => status === undefined || line.status === status)
+        .map(line => ({ ...line }))
+    );
+  }
+
+  findLine(id: number, lineNumber: number): Promise<PaymentBatchLine | null> {
+    return this.scope(state => {
+      const line = state.paymentLines.get(lineKey(id, lineNumber));
+      return line ? { ...line } : null;
+    });
+  }
+
+  updateLine(id: number, lineNumber: number, outcome: PaymentLineOutcome, expected?: PaymentLineStatus): Promise<void> {
+    return this.scope(state => {
+      const line = state.paymentLines.get(lineKey(id, lineNumber));
+      if (line && (expected === undefined || line.status === expected)) {
+        state.paymentLines.set(lineKey(id, lineNumber), { ...line, ...outcome });
+      }
+    });
+  }
+
+  /**
+   * A batch's lines in line order
+   */
+  private lines(state: MemoryState, id: number): PaymentBatchLine[] {
+    return [...state.paymentLines]
+      .filter(([key]) => key.startsWith(`${id}:`))
+      .map(([, line]) => line)
+      .sort((a, b) => a.line_number - b.line_number);
+  }
+}
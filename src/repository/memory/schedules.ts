@@ -0,0 +1,173 @@
+import { Schedule, ScheduleRun } from '../../model/schedule';
+import { NewSchedule, NewScheduleRun, ScheduleChanges, ScheduleRepository } from '../repositories';
+import { Scope, StoredSchedule, StoredScheduleRun } from './state';
+
+const runKey = (id: number, scheduledFor: Date) => `${id}:${scheduledFor.getTime()}`;
+
+export class MemoryScheduleRepository implements ScheduleRepository {
+  constructor(private readonly scope: Scope) {}
+
+  insert(data: NewSchedule): Promise<void> {
+    return this.scope(state => {
+      const now = new Date();
+      const id = state.nextId.schedule++;
+      state.schedules.set(id, {
+        ...data,
+        id,
+        next_run_at: data.start_at,
+        status: 'active',
+        run_count: 0,
+        locked_by: null,
+        locked_until: null,
+        created_at: now,
+        updated_at: now
+      });
+    });
+  }
+
+  findByScheduleId(scheduleId: string): Promise<Schedule | null> {
+    return this.scope(state => {
+      const schedule = [...state.schedules.values()].find(candidate => candidate.schedule_id === scheduleId);
+      return schedule ? this.toSchedule(schedule) : null;
+    });
+  }
+
+  listForUser(userId: number): Promise<Schedule[]> {
+    return this.scope(state =>
+      [...state.schedules.values()]
+        .filter(schedule => schedule.user_id === userId)
+        .reverse()
+        .map(schedule => this.toSchedule(schedule))
+    );
+  }
+
+  update(id: number, changes: ScheduleChanges): Promise<void> {
+    return this.scope(state => {
+      const schedule = state.schedules.get(id);
+      if (schedule) {
+        state.schedules.set(id, {
+          ...schedule,
+          status: changes.status ?? schedule.status,
+          next_run_at: changes.next_run_at !== undefined ? changes.next_run_at ?? undefined : schedule.next_run_at,
+          updated_at: new Date()
+        });
+      }
+    });
+  }
+
+  listDue(limit: number): Promise<Schedule[]> {
+    return this.scope(state => {
+      const now = Date.now();
+      return [...state.schedules.values()]
+        .filter(schedule =>
+          schedule.status === 'active' &&
+          schedule.next_run_at !== undefined && schedule.next_run_at.getTime() <= now &&
+          (schedule.locked_until === null || schedule.locked_until.getTime() < now)
+        )
+        .sort((a, b) => a.next_run_at!.getTime() - b.next_run_at!.getTime())
+        .slice(0, limit)
+        .map(schedule => this.toSchedule(schedule));
+    });
+  }
+
+  lease(id: number, workerId: string, seconds: number): Promise<void> {
+    return this.scope(state => {
+      const schedule = state.schedules.get(id);
+      if (schedule) {
+        state.schedules.set(id, { ...schedule, locked_by: workerId, locked_until: new Date(Date.now() + seconds * 1000) });
+      }
+    });
+  }
+
+  advance(id: number, workerId: string, nextRunAt: Date | null): Promise<void> {
+    // Pausing or cancelling while the run was in flight wins over the worker's update
+    return this.scope(state => {
+      const schedule = state.schedules.get(id);
+      if (schedule && schedule.locked_by === workerId) {
+        state.schedules.set(id, {
+          ...schedule,
+          next_run_at: nextRunAt ?? undefined,
+          run_count: schedule.run_count + 1,
+          status: schedule.status === 'active' && nextRunAt === null ? 'completed' : schedule.status,
+          locked_by: null,
+          locked_until: null,
+          updated_at: new Date()
+        });
+      }
+    });
+  }
+
+  cancelForAccount(accountId: number): Promise<void> {
+    return this.scope(state => {
+      for (const schedule of state.schedules.values()) {
+        if ((schedule.source_account_id === accountId || schedule.destination_account_id === accountId) &&
+          (schedule.status === 'active' || schedule.status === 'paused')) {
+          state.schedules.set(schedule.id, { ...schedule, status: 'cancelled', next_run_at: undefined, updated_at: new Date() });
+        }
+      }
+    });
+  }
+
+  insertRun(id: number, run: NewScheduleRun): Promise<void> {
+    // Recording the same occurrence twice is a no-op, as with the unique key on MySQL
+    return this.scope(state => {
+      if (!state.scheduleRuns.has(runKey(id, run.scheduled_for))) {
+        state.scheduleRuns.set(runKey(id, run.scheduled_for), {
+          ...run,
+          id: state.nextId.scheduleRun++,
+          schedule_id: id,
+          created_at: new Date()
+        });
+      }
+    });
+  }
+
+  findRun(id: number, scheduledFor: Date): Promise<ScheduleRun | null> {
+    return this.scope(state => {
+      const run = state.scheduleRuns.get(runKey(id, scheduledFor));
+      return run ? this.toRun(run) : null;
+    });
+  }
+
+  listRuns(id: number): Promise<ScheduleRun[]> {
+    return this.scope(state =>
+      [...state.scheduleRuns.values()]
+        .filter(run => run.schedule_id === id)
+        .sort((a, b) => b.scheduled_for.getTime() - a.scheduled_for.getTime())
+        .map(run => this.toRun(run))
+    );
+  }
+
+  /**
+   * Copy a stored schedule without its lease
+   */
+  private toSchedule(schedule: StoredSchedule): Schedule {
+    return {
+      id: schedule.id,
+      schedule_id: schedule.schedule_id,
+      user_id: schedule.user_id,
+      source_account_id: schedule.source_account_id,
+      destination_account_id: schedule.destination_account_id,
+      amount: schedule.amount,
+      frequency: schedule.frequency,
+      start_at: schedule.start_at,
+      end_at: schedule.end_at,
+      next_run_at: schedule.next_run_at,
+      status: schedule.status,
+      run_count: schedule.run_count,
+      created_at: schedule.created_at,
+      updated_at: schedule.updated_at
+    };
+  }
+
+  private toRun(run: StoredScheduleRun): ScheduleRun {
+    return {
+      id: run.id,
+      scheduled_for: run.scheduled_for,
+      transaction_id: run.transaction_id,
+      status: run.status,
+      failure_reason: run.failure_reason,
+      created_at: run.created_at
+    };
+  }
+}
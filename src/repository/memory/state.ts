@@ -0,0 +1,188 @@
+import { Money } from '../../utils/money';
+import { GENESIS_HASH } from '../../utils/transactionChain';
+import { User } from '../../model/user';
+import { Account } from '../../model/account';
+import { LedgerPosting } from '../../model/ledger';
+import { Transaction } from '../../model/transaction';
+import { IdempotencyRecord } from '../../model/idempotency';
+import { LimitedTransactionType, TransactionLimit } from '../../model/limit';
+import { FraudReview } from '../../model/fraud';
+import { ChainHead } from '../../model/transactionChain';
+import { OutboxEvent } from '../../model/outbox';
+import { AuditEntry } from '../../model/audit';
+import { ApiKeyRecord } from '../../model/apiKey';
+import { Hold } from '../../model/hold';
+import { Schedule, ScheduleRun } from '../../model/schedule';
+import { WebhookAttempt, WebhookDelivery, WebhookEndpointRecord } from '../../model/webhook';
+import { PaymentBatch, PaymentBatchLine } from '../../model/paymentBatch';
+import { ChainLink, DEFAULT_TRANSACTION_LIMITS } from '../repositories';
+
+export interface MemoryState {
+  users: Map<number, User>;
+  accounts: Map<number, Account>;
+  // Keyed by transaction_id; insertion order is ID order
+  transactions: Map<string, Transaction>;
+  // Balances of a transaction's accounts right after it, keyed by transaction_id
+  balancesAfter: Map<string, BalancesAfter>;
+  // In ID order; entries are never changed once recorded
+  journal: JournalEntry[];
+  // Keyed by `${user_id}:${idempotency_key}`
+  idempotencyKeys: Map<string, IdempotencyRecord>;
+  // Keyed by `${kyc_tier}:${transaction_type}`
+  limits: Map<string, TransactionLimit>;
+  // Keyed by review_id
+  fraudReviews: Map<string, FraudReview>;
+  // Keyed by transaction_id
+  chainLinks: Map<string, ChainLink>;
+  chainHead: ChainHead;
+  outbox: Map<number, OutboxEvent>;
+  outboxLastSequence: number;
+  // In ID order; entries are never changed once recorded
+  auditLog: AuditEntry[];
+  apiKeys: Map<number, ApiKeyRecord>;
+  // Expiry of each used nonce, keyed by `${key_id}:${nonce}`
+  nonces: Map<string, Date>;
+  // Keyed by hold_id
+  holds: Map<string, Hold>;
+  schedules: Map<number, StoredSchedule>;
+  // Keyed by `${schedule id}:${scheduled_for ms}`
+  scheduleRuns: Map<string, StoredScheduleRun>;
+  webhookEndpoints: Map<number, WebhookEndpointRecord>;
+  webhookDeliveries: Map<number, StoredDelivery>;
+  // In ID order; attempts are never changed once recorded
+  webhookAttempts: StoredAttempt[];
+  paymentBatches: Map<number, PaymentBatch>;
+  // Keyed by `${batch id}:${line_number}`
+  paymentLines: Map<string, PaymentBatchLine>;
+  nextId: Record<'user' | 'account' | 'transaction' | 'idempotencyKey' | 'fraudReview' | 'outbox' | 'audit' | 'apiKey' |
+    'hold' | 'schedule' | 'scheduleRun' | 'webhookEndpoint' | 'webhookDelivery' | 'paymentBatch', number>;
+}
+
+export interface JournalEntry {
+  id: number;
+  transaction_id: string;
+  description: string;
+  postings: LedgerPosting[];
+  created_at: Date;
+}
+
+export interface BalancesAfter {
+  source?: Money;
+  destination?: Money;
+}
+
+export interface Lease {
+  locked_by: string | null;
+  locked_until: Date | null;
+}
+
+export type StoredSchedule = Schedule & Lease;
+
+export interface StoredScheduleRun extends ScheduleRun {
+  schedule_id: number;
+}
+
+// endpoint_id is the public ID as on WebhookDelivery; endpoint is the internal one
+export interface StoredDelivery extends WebhookDelivery, Lease {
+  endpoint: number;
+}
+
+export interface StoredAttempt extends WebhookAttempt {
+  delivery_id: number;
+}
+
+// Runs work against the state a repository is bound to
+export type Scope = <T>(work: (state: MemoryState) => T) => Promise<T>;
+
+export const emptyState = (): MemoryState => ({
+  users: new Map(),
+  accounts: new Map(),
+  transactions: new Map(),
+  balancesAfter: new Map(),
+  journal: [],
+  idempotencyKeys: new Map(),
+  limits: new Map(DEFAULT_TRANSACTION_LIMITS.map(([tier, type, ...limits]) => [limitKey(tier, type), {
+    kyc_tier: tier,
+    transaction_type: type,
+    per_transaction_max: Money.fromDecimal(limits[0]),
+    daily_account_max: Money.fromDecimal(limits[1]),
+    monthly_account_max: Money.fromDecimal(limits[2]),
+    daily_user_max: Money.fromDecimal(limits[3]),
+    monthly_user_max: Money.fromDecimal(limits[4])
+  }])),
+  fraudReviews: new Map(),
+  chainLinks: new Map(),
+  chainHead: { sequence: 0, hash: GENESIS_HASH },
+  outbox: new Map(),
+  outboxLastSequence: 0,
+  auditLog: [],
+  apiKeys: new Map(),
+  nonces: new Map(),
+  holds: new Map(),
+  schedules: new Map(),
+  scheduleRuns: new Map(),
+  webhookEndpoints: new Map(),
+  webhookDeliveries: new Map(),
+  webhookAttempts: [],
+  paymentBatches: new Map(),
+  paymentLines: new Map(),
+  nextId: {
+    user: 1,
+    account: 1,
+    transaction: 1,
+    idempotencyKey: 1,
+    fraudReview: 1,
+    outbox: 1,
+    audit: 1,
+    apiKey: 1,
+    hold: 1,
+    schedule: 1,
+    scheduleRun: 1,
+    webhookEndpoint: 1,
+    webhookDelivery: 1,
+    paymentBatch: 1
+  }
+});
+
+/**
+ * Copy the state a transaction works on; records are replaced, never mutated, so copying the
+ * collections is enough
+ */
+export const cloneState = (state: MemoryState): MemoryState => ({
+  ...state,
+  users: new Map(state.users),
+  accounts: new Map(state.accounts),
+  transactions: new Map(state.transactions),
+  balancesAfter: new Map(state.balancesAfter),
+  journal: [...state.journal],
+  idempotencyKeys: new Map(state.idempotencyKeys),
+  limits: new Map(state.limits),
+  fraudReviews: new Map(state.fraudReviews),
+  chainLinks: new Map(state.chainLinks),
+  outbox: new Map(state.outbox),
+  auditLog: [...state.auditLog],
+  apiKeys: new Map(state.apiKeys),
+  nonces: new Map(state.nonces),
+  holds: new Map(state.holds),
+  schedules: new Map(state.schedules),
+  scheduleRuns: new Map(state.scheduleRuns),
+  webhookEndpoints: new Map(state.webhookEndpoints),
+  webhookDeliveries: new Map(state.webhookDeliveries),
+  webhookAttempts: [...state.webhookAttempts],
+  paymentBatches: new Map(state.paymentBatches),
+  paymentLines: new Map(state.paymentLines),
+  nextId: { ...state.nextId }
+});
+
+export const limitKey = (tier: string, type: LimitedTransactionType): string => `${tier}:${type}`;
+
+/**
+ * Round-trip a JSON value, the way a JSON column stores and returns it
+ */
+export const viaJson = <T>(value: T): T => (value === undefined || value === null ? value : JSON.parse(JSON.stringify(value)));
+
+/**
+ * Whether a transaction moved money, i.e. counts towards balances and summaries
+ */
+export const movedMoney = (transaction: Transaction): boolean =>
+  transaction.status !== 'failed' && transaction.status !== 'pending_review';
@@ -0,0 +1,89 @@
+import { Money } from '../../utils/money';
+import { Transaction } from '../../model/transaction';
+import { ChainedTransaction, ChainHead, LinkedTransaction } from '../../model/transactionChain';
+import { ChainLink, TransactionChainRepository } from '../repositories';
+import { MemoryState, Scope } from './state';
+
+export class MemoryTransactionChainRepository implements TransactionChainRepository {
+  constructor(private readonly scope: Scope) {}
+
+  getHead(): Promise<ChainHead> {
+    return this.scope(state => ({ ...state.chainHead }));
+  }
+
+  findTransaction(transactionId: string): Promise<ChainedTransaction | null> {
+    return this.scope(state => {
+      const transaction = state.transactions.get(transactionId);
+      return transaction ? this.toChained(state, transaction) : null;
+    });
+  }
+
+  listUnlinked(limit: number): Promise<ChainedTransaction[]> {
+    return this.scope(state =>
+      this.unlinked(state).slice(0, limit).map(transaction => this.toChained(state, transaction))
+    );
+  }
+
+  countUnlinked(): Promise<number> {
+    return this.scope(state => this.unlinked(state).length);
+  }
+
+  listLinked(afterSequence: number, limit: number): Promise<LinkedTransaction[]> {
+    return this.scope(state => {
+      const transactions = [...state.transactions.values()];
+
+      return transactions
+        .filter(transaction => (state.chainLinks.get(transaction.transaction_id)?.sequence ?? 0) > afterSequence)
+        .sort((a, b) => state.chainLinks.get(a.transaction_id)!.sequence - state.chainLinks.get(b.transaction_id)!.sequence)
+        .slice(0, limit)
+        .map(transaction => ({
+          ...this.toChained(state, transaction),
+          linked_reversed: transactions
+            .filter(reversal =>
+              reversal.original_transaction_id === transaction.transaction_id &&
+              reversal.type === 'reversal' &&
+              reversal.status === 'completed' &&
+              state.chainLinks.has(reversal.transaction_id)
+            )
+            .reduce((sum, reversal) => sum.add(reversal.amount), Money.ZERO)
+        }));
+    });
+  }
+
+  link(transactionId: string, link: ChainLink): Promise<void> {
+    return this.scope(state => {
+      state.chainLinks.set(transactionId, { ...link });
+      state.chainHead = { sequence: link.sequence, hash: link.row_hash };
+    });
+  }
+
+  /**
+   * Final transactions without a link, oldest first
+   */
+  private unlinked(state: MemoryState): Transaction[] {
+    return [...state.transactions.values()].filter(transaction =>
+      !state.chainLinks.has(transaction.transaction_id) && transaction.status !== 'pending_review'
+    );
+  }
+
+  private toChained(state: MemoryState, transaction: Transaction): ChainedTransaction {
+    const link = state.chainLinks.get(transaction.transaction_id);
+
+    return {
+      transaction_id: transaction.transaction_id,
+      type: transaction.type,
+      amount: transaction.amount,
+      source_account_id: transaction.source_account_id ?? null,
+      destination_account_id: transaction.destination_account_id ?? null,
+      original_transaction_id: transaction.original_transaction_id ?? null,
+      batch_id: transaction.batch_id ?? null,
+      reversed_amount: transaction.reversed_amount,
+      status: transaction.status,
+      failure_reason: transaction.failure_reason ?? null,
+      created_epoch: Math.floor(transaction.created_at.getTime() / 1000),
+      chain_sequence: link?.sequence ?? null,
+      prev_hash: link?.prev_hash ?? null,
+      row_hash: link?.row_hash ?? null
+    };
+  }
+}
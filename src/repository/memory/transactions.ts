@@ -0,0 +1,318 @@
+import { Money } from '../../utils/money';
+import { LedgerService } from '../../service/ledgerService';
+import { LedgerPosting, LedgerSummary } from '../../model/ledger';
+import { LimitedTransactionType, LimitUsage } from '../../model/limit';
+import { StatementEntry } from '../../model/statement';
+import {
+  AccountSummary,
+  AccountTransaction,
+  FailedTransactionSummary,
+  Transaction
+} from '../../model/transaction';
+import {
+  AccountHistoryQuery,
+  NewTransaction,
+  OutgoingQuery,
+  TransactionChanges,
+  TransactionRepository
+} from '../repositories';
+import { MemoryState, Scope, movedMoney } from './state';
+
+const MINUTE = 60 * 1000;
+const DAY = 24 * 60 * MINUTE;
+
+export class MemoryTransactionRepository implements TransactionRepository {
+  constructor(private readonly scope: Scope) {}
+
+  findByTransactionId(transactionId: string): Promise<Transaction | null> {
+    return this.scope(state => {
+      const transaction = state.transactions.get(transactionId);
+      return transaction ? { ...transaction } : null;
+    });
+  }
+
+  findByBatchId(batchId: string): Promise<Transaction[]> {
+    return this.scope(state =>
+      [...state.transactions.values()]
+        .filter(transaction => transaction.batch_id === batchId)
+        .map(transaction => ({ ...transaction }))
+    );
+  }
+
+  insert(record: NewTransaction): Promise<void> {
+    return this.scope(state => {
+      if (state.transactions.has(record.transaction_id)) {
+        throw new Error('Transaction ID already exists');
+      }
+
+      state.transactions.set(record.transaction_id, {
+        id: state.nextId.transaction++,
+        transaction_id: record.transaction_id,
+        type: record.type,
+        amount: record.amount,
+        source_account_id: record.source_account_id,
+        destination_account_id: record.destination_account_id,
+        original_transaction_id: record.original_transaction_id,
+        batch_id: record.batch_id,
+        reversed_amount: Money.ZERO,
+        status: record.status,
+        failure_reason: record.failure_reason,
+        created_at: new Date()
+      });
+      this.recordBalancesAfter(state, record.transaction_id);
+    });
+  }
+
+  update(transactionId: string, changes: TransactionChanges): Promise<void> {
+    return this.scope(state => {
+      const transaction = state.transactions.get(transactionId);
+      if (transaction) {
+        state.transactions.set(transactionId, {
+          ...transaction,
+          status: changes.status ?? transaction.status,
+          failure_reason: changes.failure_reason !== undefined ? changes.failure_reason ?? undefined : transaction.failure_reason,
+          reversed_amount: changes.reversed_amount ?? transaction.reversed_amount
+        });
+      }
+    });
+  }
+
+  recordJournalEntry(transactionId: string, description: string, postings: LedgerPosting[]): Promise<void> {
+    return this.scope(state => {
+      LedgerService.assertBalanced(postings);
+
+      // Check every posting before applying any, so a rejected entry changes nothing
+      const balances = new Map<number, Money>();
+      for (const posting of postings) {
+        if (posting.account_id === undefined) {
+          continue;
+        }
+        const account = state.accounts.get(posting.account_id);
+        if (!account) {
+          throw new Error('Account not found');
+        }
+        const balance = (balances.get(posting.account_id) ?? account.balance).add(posting.amount);
+        if (balance.isNegative()) {
+          throw new Error('Account balance cannot be negative');
+        }
+        balances.set(posting.account_id, balance);
+      }
+
+      for (const [accountId, balance] of balances) {
+        state.accounts.set(accountId, { ...state.accounts.get(accountId)!, balance, updated_at: new Date() });
+      }
+      state.journal.push({
+        id: state.journal.length + 1,
+        transaction_id: transactionId,
+        description,
+        postings: postings.map(posting => ({ ...posting })),
+        created_at: new Date()
+      });
+      this.recordBalancesAfter(state, transactionId);
+    });
+  }
+
+  listForAccount(accountId: number, query: AccountHistoryQuery): Promise<AccountTransaction[]> {
+    return this.scope(state =>
+      [...state.transactions.values()]
+        .filter(transaction =>
+          (transaction.source_account_id === accountId || transaction.destination_account_id === accountId) &&
+          (query.type === undefined || transaction.type === query.type) &&
+          (query.status === undefined || transaction.status === query.status) &&
+          (query.direction !== 'in' || transaction.destination_account_id === accountId) &&
+          (query.direction !== 'out' || transaction.source_account_id === accountId) &&
+          (query.min_amount === undefined || transaction.amount.compare(query.min_amount) >= 0) &&
+          (query.max_amount === undefined || transaction.amount.compare(query.max_amount) <= 0) &&
+          (query.from === undefined || transaction.created_at.getTime() >= query.from.getTime()) &&
+          (query.to === undefined || transaction.created_at.getTime() <= query.to.getTime()) &&
+          (query.before_id === undefined || transaction.id < query.before_id)
+        )
+        .reverse()
+        .slice(0, query.limit)
+        .map(transaction => {
+          const incoming = transaction.destination_account_id === accountId;
+          const balancesAfter = state.balancesAfter.get(transaction.transaction_id)!;
+          const signedAmount = !movedMoney(transaction) ||
+            (transaction.source_account_id === accountId && transaction.destination_account_id === accountId)
+            ? Money.ZERO
+            : incoming ? transaction.amount : transaction.amount.negate();
+
+          return {
+            ...transaction,
+            direction: incoming ? 'in' as const : 'out' as const,
+            signed_amount: signedAmount,
+            running_balance: (incoming ? balancesAfter.destination : balancesAfter.source)!
+          };
+        })
+    );
+  }
+
+  countOutgoing(sourceAccountId: number, query: OutgoingQuery): Promise<number> {
+    return this.scope(state => {
+      const since = Date.now() - query.within_minutes * MINUTE;
+      return [...state.transactions.values()].filter(transaction =>
+        transaction.source_account_id === sourceAccountId &&
+        transaction.status !== 'failed' &&
+        transaction.created_at.getTime() >= since &&
+        (query.type === undefined || transaction.type === query.type) &&
+        (query.multiple_of === undefined || transaction.amount.minorUnits % query.multiple_of.minorUnits === 0)
+      ).length;
+    });
+  }
+
+  hasTransferred(sourceAccountId: number, destinationAccountId: number): Promise<boolean> {
+    return this.scope(state =>
+      [...state.transactions.values()].some(transaction =>
+        transaction.source_account_id === sourceAccountId &&
+        transaction.destination_account_id === destinationAccountId &&
+        transaction.type === 'transfer' &&
+        transaction.status !== 'failed'
+      )
+    );
+  }
+
+  getUsage(type: LimitedTransactionType, scope: 'account' | 'user', id: number): Promise<LimitUsage> {
+    return this.scope(state => {
+      const now = Date.now();
+      const charged = (transaction: Transaction) => {
+        const accountId = type === 'deposit' ? transaction.destination_account_id : transaction.source_account_id;
+        return scope === 'account'
+          ? accountId === id
+          : accountId !== undefined && state.accounts.get(accountId)?.user_id === id;
+      };
+
+      let daily = Money.ZERO;
+      let monthly = Money.ZERO;
+      for (const transaction of state.transactions.values()) {
+        const age = now - transaction.created_at.getTime();
+        if (transaction.type !== type || !movedMoney(transaction) || !charged(transaction) || age > 30 * DAY) {
+          continue;
+        }
+        monthly = monthly.add(transaction.amount);
+        if (age <= DAY) {
+          daily = daily.add(transaction.amount);
+        }
+      }
+
+      return { daily, monthly };
+    });
+  }
+
+  getPostedBalance(accountId: number, before: Date): Promise<Money> {
+    return this.scope(state =>
+      state.journal
+        .filter(entry => entry.created_at.getTime() < before.getTime())
+        .flatMap(entry => entry.postings)
+        .filter(posting => posting.account_id === accountId)
+        .reduce((sum, posting) => sum.add(posting.amount), Money.ZERO)
+    );
+  }
+
+  listJournalEntries(accountId: number, from: Date, to: Date): Promise<StatementEntry[]> {
+    return this.scope(state => state.journal
+      .filter(entry =>
+        entry.created_at.getTime() >= from.getTime() &&
+        entry.created_at.getTime() < to.getTime() &&
+        entry.postings.some(posting => posting.account_id === accountId)
+      )
+      .map(entry => {
+        // Postings are summed per journal entry in case an entry touches the account twice
+        const transaction = state.transactions.get(entry.transaction_id);
+        const accountNumber = (id?: number) => (id === undefined ? null : state.accounts.get(id)?.account_number ?? null);
+
+        return {
+          journal_entry_id: entry.id,
+          booked_at: entry.created_at,
+          description: entry.description,
+          transaction_id: transaction?.transaction_id ?? null,
+          type: transaction?.type ?? null,
+          original_transaction_id: transaction?.original_transaction_id ?? null,
+          source_account_id: transaction?.source_account_id ?? null,
+          destination_account_id: transaction?.destination_account_id ?? null,
+          source_account_number: accountNumber(transaction?.source_account_id),
+          destination_account_number: accountNumber(transaction?.destination_account_id),
+          amount: entry.postings
+            .filter(posting => posting.account_id === accountId)
+            .reduce((sum, posting) => sum.add(posting.amount), Money.ZERO)
+        };
+      })
+    );
+  }
+
+  summarizeAccounts(): Promise<AccountSummary[]> {
+    return this.scope(state => [...state.accounts.values()].map(account => {
+      const largest = [...state.transactions.values()]
+        .filter(transaction => movedMoney(transaction) &&
+          (transaction.source_account_id === account.id || transaction.destination_account_id === account.id))
+        .reduce((max, transaction) => transaction.amount.compare(max) > 0 ? transaction.amount : max, Money.ZERO);
+
+      return {
+        account_id: account.id,
+        account_number: account.account_number,
+        username: state.users.get(account.user_id)?.username as string,
+        current_balance: account.balance,
+        largest_transaction: largest
+      };
+    }));
+  }
+
+  summarizeFailures(): Promise<FailedTransactionSummary[]> {
+    return this.scope(state => {
+      const counts = new Map<string, number>();
+      for (const transaction of state.transactions.values()) {
+        if (transaction.status === 'failed' && transaction.failure_reason) {
+          counts.set(transaction.failure_reason, (counts.get(transaction.failure_reason) ?? 0) + 1);
+        }
+      }
+
+      return [...counts].map(([reason, count]) => ({ reason, count }));
+    });
+  }
+
+  summarizeLedger(): Promise<LedgerSummary> {
+    return this.scope(state => {
+      const ledgerBalances = new Map<number, Money>();
+      for (const entry of state.journal) {
+        for (const posting of entry.postings) {
+          if (posting.account_id !== undefined) {
+            ledgerBalances.set(posting.account_id, (ledgerBalances.get(posting.account_id) ?? Money.ZERO).add(posting.amount));
+          }
+        }
+      }
+
+      return {
+        accounts: [...state.accounts.values()].map(account => ({
+          account_id: account.id,
+          account_number: account.account_number,
+          stored_balance: account.balance,
+          ledger_balance: ledgerBalances.get(account.id) ?? Money.ZERO
+        })),
+        unbalanced_entries: state.journal
+          .map(entry => ({
+            journal_entry_id: entry.id,
+            transaction_id: entry.transaction_id,
+            total: entry.postings.reduce((sum, posting) => sum.add(posting.amount), Money.ZERO)
+          }))
+          .filter(entry => !entry.total.isZero())
+      };
+    });
+  }
+
+  /**
+   * Store the current balances of a transaction's accounts as their balances after it
+   */
+  private recordBalancesAfter(state: MemoryState, transactionId: string): void {
+    const transaction = state.transactions.get(transactionId);
+    if (!transaction) {
+      return;
+    }
+
+    const balanceOf = (accountId?: number) =>
+      accountId === undefined ? undefined : state.accounts.get(accountId)?.balance;
+
+    state.balancesAfter.set(transactionId, {
+      source: balanceOf(transaction.source_account_id),
+      destination: balanceOf(transaction.destination_account_id)
+    });
+  }
+}
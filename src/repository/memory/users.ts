@@ -0,0 +1,58 @@
+import { User } from '../../model/user';
+import { KYC_TIER_CODES, NewUser, UserChanges, UserRepository } from '../repositories';
+import { Scope } from './state';
+
+export class MemoryUserRepository implements UserRepository {
+  constructor(private readonly scope: Scope) {}
+
+  findById(id: number): Promise<User | null> {
+    return this.scope(state => {
+      const user = state.users.get(id);
+      return user ? { ...user } : null;
+    });
+  }
+
+  create(data: NewUser): Promise<User> {
+    return this.scope(state => {
+      if ([...state.users.values()].some(user => user.username === data.username)) {
+        throw new Error('Username already exists');
+      }
+      if (data.kyc_tier !== undefined && !KYC_TIER_CODES.includes(data.kyc_tier)) {
+        throw new Error('KYC tier does not exist');
+      }
+
+      const now = new Date();
+      const user: User = {
+        id: state.nextId.user++,
+        username: data.username,
+        role: data.role ?? 'customer',
+        kyc_tier: data.kyc_tier ?? 'basic',
+        require_signed_requests: false,
+        created_at: now,
+        updated_at: now
+      };
+      state.users.set(user.id, user);
+
+      return { ...user };
+    });
+  }
+
+  update(id: number, changes: UserChanges): Promise<void> {
+    return this.scope(state => {
+      if (changes.kyc_tier !== undefined && !KYC_TIER_CODES.includes(changes.kyc_tier)) {
+        throw new Error('KYC tier does not exist');
+      }
+
+      const user = state.users.get(id);
+      if (user) {
+        state.users.set(id, {
+          ...user,
+          role: changes.role ?? user.role,
+          kyc_tier: changes.kyc_tier ?? user.kyc_tier,
+          require_signed_requests: changes.require_signed_requests ?? user.require_signed_requests,
+          updated_at: new Date()
+        });
+      }
+    });
+  }
+}
@@ -0,0 +1,246 @@
+import {
+  WebhookAttempt,
+  WebhookDelivery,
+  WebhookDeliveryFilters,
+  WebhookEndpoint,
+  WebhookEndpointRecord,
+  WebhookEndpointStatus,
+  WebhookEventType
+} from '../../model/webhook';
+import {
+  NewWebhookDelivery,
+  NewWebhookEndpoint,
+  WebhookAttemptOutcome,
+  WebhookDeliveryRepository,
+  WebhookEndpointRepository
+} from '../repositories';
+import { MemoryState, Scope, StoredDelivery, viaJson } from './state';
+
+export class MemoryWebhookEndpointRepository implements WebhookEndpointRepository {
+  constructor(private readonly scope: Scope) {}
+
+  insert(data: NewWebhookEndpoint): Promise<void> {
+    return this.scope(state => {
+      const now = new Date();
+      const id = state.nextId.webhookEndpoint++;
+      state.webhookEndpoints.set(id, {
+        id,
+        endpoint_id: data.endpoint_id,
+        user_id: data.user_id,
+        url: data.url,
+        description: data.description ?? null,
+        events: [...data.events],
+        secret: data.secret,
+        status: 'active',
+        created_at: now,
+        updated_at: now
+      });
+    });
+  }
+
+  findByEndpointId(endpointId: string): Promise<WebhookEndpointRecord | null> {
+    return this.scope(state => {
+      const endpoint = findEndpoint(state, endpointId);
+      return endpoint ? { ...endpoint, events: [...endpoint.events] } : null;
+    });
+  }
+
+  listForUser(userId: number): Promise<WebhookEndpoint[]> {
+    return this.scope(state =>
+      [...state.webhookEndpoints.values()]
+        .filter(endpoint => endpoint.user_id === userId)
+        .reverse()
+        .map(endpoint => this.withoutSecret(endpoint))
+    );
+  }
+
+  countActive(userId: number): Promise<number> {
+    return this.scope(state =>
+      [...state.webhookEndpoints.values()].filter(endpoint => endpoint.user_id === userId && endpoint.status === 'active').length
+    );
+  }
+
+  setStatus(endpointId: string, status: WebhookEndpointStatus): Promise<void> {
+    return this.scope(state => {
+      const endpoint = findEndpoint(state, endpointId);
+      if (endpoint) {
+        state.webhookEndpoints.set(endpoint.id, { ...endpoint, status, updated_at: new Date() });
+      }
+    });
+  }
+
+  listSubscribed(accountId: number, eventType: WebhookEventType): Promise<WebhookEndpoint[]> {
+    return this.scope(state => {
+      const owner = state.accounts.get(accountId)?.user_id;
+      return [...state.webhookEndpoints.values()]
+        .filter(endpoint => endpoint.user_id === owner && endpoint.status === 'active' && endpoint.events.includes(eventType))
+        .map(endpoint => this.withoutSecret(endpoint));
+    });
+  }
+
+  private withoutSecret(endpoint: WebhookEndpointRecord): WebhookEndpoint {
+    return {
+      id: endpoint.id,
+      endpoint_id: endpoint.endpoint_id,
+      user_id: endpoint.user_id,
+      url: endpoint.url,
+      description: endpoint.description,
+      events: [...endpoint.events],
+      status: endpoint.status,
+      created_at: endpoint.created_at,
+      updated_at: endpoint.updated_at
+    };
+  }
+}
+
+export class MemoryWebhookDeliveryRepository implements WebhookDeliveryRepository {
+  constructor(private readonly scope: Scope) {}
+
+  insert(data: NewWebhookDelivery): Promise<void> {
+    return this.scope(state => {
+      const endpoint = state.webhookEndpoints.get(data.endpoint_id);
+      if (!endpoint) {
+        throw new Error('Webhook endpoint not found');
+      }
+
+      // Queueing the same event for the same endpoint twice is a no-op, as with the unique key on MySQL
+      const queued = [...state.webhookDeliveries.values()]
+        .some(delivery => delivery.endpoint === data.endpoint_id && delivery.event_id === data.event_id);
+      if (queued) {
+        return;
+      }
+
+      const now = new Date();
+      const id = state.nextId.webhookDelivery++;
+      state.webhookDeliveries.set(id, {
+        id,
+        delivery_id: data.delivery_id,
+        endpoint: data.endpoint_id,
+        endpoint_id: endpoint.endpoint_id,
+        event_id: data.event_id,
+        event_type: data.event_type,
+        payload: viaJson(data.payload),
+        status: 'pending',
+        attempt_count: 0,
+        next_attempt_at: now,
+        last_attempt_at: null,
+        delivered_at: null,
+        locked_by: null,
+        locked_until: null,
+        created_at: now
+      });
+    });
+  }
+
+  find(endpointId: string, deliveryId: string): Promise<WebhookDelivery | null> {
+    return this.scope(state => {
+      const delivery = [...state.webhookDeliveries.values()]
+        .find(candidate => candidate.endpoint_id === endpointId && candidate.delivery_id === deliveryId);
+      return delivery ? this.toDelivery(delivery) : null;
+    });
+  }
+
+  listForEndpoint(endpointId: string, filters: WebhookDeliveryFilters): Promise<WebhookDelivery[]> {
+    return this.scope(state =>
+      [...state.webhookDeliveries.values()]
+        .filter(delivery => delivery.endpoint_id === endpointId && (!filters.status || delivery.status === filters.status))
+        .reverse()
+        .slice(0, filters.limit)
+        .map(delivery => this.toDelivery(delivery))
+    );
+  }
+
+  listDue(limit: number): Promise<WebhookDelivery[]> {
+    return this.scope(state => {
+      const now = Date.now();
+      return [...state.webhookDeliveries.values()]
+        .filter(delivery =>
+          delivery.status === 'pending' &&
+          delivery.next_attempt_at !== null && delivery.next_attempt_at.getTime() <= now &&
+          state.webhookEndpoints.get(delivery.endpoint)?.status === 'active' &&
+          (delivery.locked_until === null || delivery.locked_until.getTime() < now)
+        )
+        .sort((a, b) => a.next_attempt_at!.getTime() - b.next_attempt_at!.getTime())
+        .slice(0, limit)
+        .map(delivery => this.toDelivery(delivery));
+    });
+  }
+
+  lease(id: number, workerId: string, seconds: number): Promise<void> {
+    return this.scope(state => {
+      this.change(state, id, { locked_by: workerId, locked_until: new Date(Date.now() + seconds * 1000) });
+    });
+  }
+
+  recordAttempt(id: number, attempt: Omit<WebhookAttempt, 'attempted_at'>, outcome: WebhookAttemptOutcome): Promise<void> {
+    return this.scope(state => {
+      const now = new Date();
+      state.webhookAttempts.push({ ...attempt, delivery_id: id, attempted_at: now });
+
+      const delivered = outcome.status === 'delivered';
+      this.change(state, id, {
+        status: outcome.status,
+        attempt_count: outcome.attempt_count,
+        last_attempt_at: now,
+        next_attempt_at: outcome.status === 'pending' ? new Date(now.getTime() + (outcome.retry_in_seconds ?? 0) * 1000) : null,
+        ...(delivered ? { delivered_at: now } : {}),
+        locked_by: null,
+        locked_until: null
+      });
+    });
+  }
+
+  listAttempts(id: number): Promise<WebhookAttempt[]> {
+    return this.scope(state =>
+      state.webhookAttempts
+        .filter(attempt => attempt.delivery_id === id)
+        .map(attempt => ({
+          response_status: attempt.response_status,
+          error: attempt.error,
+          duration_ms: attempt.duration_ms,
+          succeeded: attempt.succeeded,
+          attempted_at: attempt.attempted_at
+        }))
+    );
+  }
+
+  requeue(id: number): Promise<void> {
+    return this.scope(state => {
+      this.change(state, id, { status: 'pending', attempt_count: 0, next_attempt_at: new Date(), locked_by: null, locked_until: null });
+    });
+  }
+
+  /**
+   * Replace a stored delivery with a changed copy
+   */
+  private change(state: MemoryState, id: number, changes: Partial<StoredDelivery>): void {
+    const delivery = state.webhookDeliveries.get(id);
+    if (delivery) {
+      state.webhookDeliveries.set(id, { ...delivery, ...changes });
+    }
+  }
+
+  private toDelivery(delivery: StoredDelivery): WebhookDelivery {
+    return {
+      id: delivery.id,
+      delivery_id: delivery.delivery_id,
+      endpoint_id: delivery.endpoint_id,
+      event_id: delivery.event_id,
+      event_type: delivery.event_type,
+      payload: viaJson(delivery.payload),
+      status: delivery.status,
+      attempt_count: delivery.attempt_count,
+      next_attempt_at: delivery.next_attempt_at,
+      last_attempt_at: delivery.last_attempt_at,
+      delivered_at: delivery.delivered_at,
+      created_at: delivery.created_at
+    };
+  }
+}
+
+/**
+ * Find a stored endpoint by its public ID
+ */
+function findEndpoint(state: MemoryState, endpointId: string): WebhookEndpointRecord | undefined {
+  return [...state.webhookEndpoints.values()].find(endpoint => endpoint.endpoint_id === endpointId);
+}
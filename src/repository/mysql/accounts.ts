@@ -0,0 +1,89 @@
+import { RowDataPacket } from 'mysql2';
+import { Money } from '../../utils/money';
+import { Account, AccountRow } from '../../model/account';
+import { AccountBalance } from '../../model/transaction';
+import { AccountChanges, AccountRepository, LockOptions, NewAccount } from '../repositories';
+import { ACCOUNT_COLUMNS, Executor, errorCode, lockClause, setClause } from './support';
+
+export class MySqlAccountRepository implements AccountRepository {
+  constructor(private readonly executor: () => Executor) {}
+
+  async findById(id: number, options: LockOptions = {}): Promise<Account | null> {
+    const [rows] = await this.executor().execute<RowDataPacket[]>(
+      `SELECT ${ACCOUNT_COLUMNS} FROM accounts WHERE id = ?${lockClause(options)}`,
+      [id]
+    );
+
+    return rows.length > 0 ? this.mapRowToAccount(rows[0] as AccountRow) : null;
+  }
+
+  async findByAccountNumber(accountNumber: string): Promise<Account | null> {
+    const [rows] = await this.executor().execute<RowDataPacket[]>(
+      `SELECT ${ACCOUNT_COLUMNS} FROM accounts WHERE account_number = ?`,
+      [accountNumber]
+    );
+
+    return rows.length > 0 ? this.mapRowToAccount(rows[0] as AccountRow) : null;
+  }
+
+  async listForUser(userId: number): Promise<Account[]> {
+    const [rows] = await this.executor().execute<RowDataPacket[]>(
+      `SELECT ${ACCOUNT_COLUMNS} FROM accounts WHERE user_id = ? ORDER BY id`,
+      [userId]
+    );
+
+    return (rows as AccountRow[]).map(row => this.mapRowToAccount(row));
+  }
+
+  async create(data: NewAccount): Promise<Account> {
+    try {
+      const [result] = await this.executor().execute(
+        'INSERT INTO accounts (account_number, user_id, balance) VALUES (?, ?, 0.00)',
+        [data.account_number, data.user_id]
+      );
+      return (await this.findById((result as { insertId: number }).insertId))!;
+    } catch (error) {
+      if (errorCode(error) === 'ER_DUP_ENTRY') {
+        throw new Error('Account number already exists');
+      }
+      if (errorCode(error) === 'ER_NO_REFERENCED_ROW_2') {
+        throw new Error('User does not exist');
+      }
+      throw error;
+    }
+  }
+
+  async update(id: number, changes: AccountChanges): Promise<void> {
+    const { sql, values } = setClause({ ...changes });
+    if (values.length > 0) {
+      await this.executor().execute(`UPDATE accounts SET ${sql} WHERE id = ?`, [...values, id]);
+    }
+  }
+
+  async getBalance(id: number): Promise<AccountBalance | null> {
+    const [rows] = await this.executor().execute<RowDataPacket[]>(`
+      SELECT a.balance, a.balance - COALESCE((
+        SELECT SUM(h.amount) FROM holds h
+        WHERE h.account_id = a.id AND h.status = 'held' AND h.expires_at > NOW()
+      ), 0) AS available_balance
+      FROM accounts a
+      WHERE a.id = ?
+    `, [id]);
+
+    return rows.length > 0
+      ? { balance: Money.fromDecimal(rows[0].balance), available_balance: Money.fromDecimal(rows[0].available_balance) }
+      : null;
+  }
+
+  /**
+   * Map a database row to an Account object
+   * @param row - The raw database row (DECIMAL balance arrives as a string)
+   * @returns Mapped Account object with an exact Money balance
+   */
+  private mapRowToAccount(row: AccountRow): Account {
+    return {
+      ...row,
+      balance: Money.fromDecimal(row.balance)
+    };
+  }
+}
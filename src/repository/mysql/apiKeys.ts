@@ -0,0 +1,164 @@
+import { User, UserRow } from '../../model/user';
+import { ApiKeyRecord, ApiKeyRow } from '../../model/apiKey';
+import { ApiKeyChanges, ApiKeyRepository, LockOptions, NewApiKey } from '../repositories';
+import { Executor, errorCode, lockClause, mapRowToUser, setClause } from './support';
+
+type ApiKeyWithUserRow = ApiKeyRow & Pick<UserRow, 'username' | 'role' | 'kyc_tier' | 'require_signed_requests'> & {
+  user_created_at: Date;
+  user_updated_at: Date;
+};
+
+export class MySqlApiKeyRepository implements ApiKeyRepository {
+  constructor(private readonly executor: () => Executor) {}
+
+  async findActiveWithUser(keyId: string): Promise<{ key: ApiKeyRecord; user: User } | null> {
+    const [rows] = await this.executor().execute(
+      `SELECT k.*, u.username, u.role, u.kyc_tier, u.require_signed_requests,
+              u.created_at AS user_created_at, u.updated_at AS user_updated_at
+       FROM api_keys k
+       JOIN users u ON u.id = k.user_id
+       WHERE k.key_id = ? AND k.revoked_at IS NULL AND (k.expires_at IS NULL OR k.expires_at > NOW())`,
+      [keyId]
+    );
+
+    const keys = rows as ApiKeyWithUserRow[];
+    if (keys.length === 0) {
+      return null;
+    }
+
+    const row = keys[0];
+    return {
+      key: this.mapRowToKey(row),
+      user: mapRowToUser({
+        id: row.user_id,
+        username: row.username,
+        role: row.role,
+        kyc_tier: row.kyc_tier,
+        require_signed_requests: row.require_signed_requests,
+        created_at: row.user_created_at,
+        updated_at: row.user_updated_at
+      })
+    };
+  }
+
+  async findByKeyId(keyId: string, options: LockOptions = {}): Promise<ApiKeyRecord | null> {
+    const [rows] = await this.executor().execute(
+      `SELECT * FROM api_keys WHERE key_id = ?${lockClause(options)}`,
+      [keyId]
+    );
+
+    const keys = rows as ApiKeyRow[];
+    return keys.length > 0 ? this.mapRowToKey(keys[0]) : null;
+  }
+
+  async listForUser(userId: number): Promise<ApiKeyRecord[]> {
+    const [rows] = await this.executor().execute(
+      'SELECT * FROM api_keys WHERE user_id = ? ORDER BY created_at DESC, id DESC',
+      [userId]
+    );
+
+    return (rows as ApiKeyRow[]).map(row => this.mapRowToKey(row));
+  }
+
+  async countActive(userId: number, options: { signing?: boolean } = {}): Promise<number> {
+    const [rows] = await this.executor().execute(
+      `SELECT COUNT(*) AS count FROM api_keys
+       WHERE user_id = ?${options.signing ? ' AND signing_secret IS NOT NULL' : ''}
+         AND revoked_at IS NULL AND (expires_at IS NULL OR expires_at > NOW())`,
+      [userId]
+    );
+
+    return Number((rows as { count: number }[])[0].count);
+  }
+
+  async insert(data: NewApiKey): Promise<void> {
+    try {
+      await this.executor().execute(
+        `INSERT INTO api_keys
+           (key_id, user_id, label, salt, secret_hash, signing_secret, require_signature, expires_at, rotated_from)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+        [
+          data.key_id,
+          data.user_id,
+          data.label,
+          data.salt,
+          data.secret_hash,
+          data.signing_secret,
+          data.require_signature,
+          data.expires_at,
+          data.rotated_from
+        ]
+      );
+    } catch (error) {
+      if (errorCode(error) === 'ER_DUP_ENTRY') {
+        throw new Error('API key ID already exists');
+      }
+      throw error;
+    }
+  }
+
+  async update(id: number, changes: ApiKeyChanges): Promise<void> {
+    const { sql, values } = setClause({ ...changes });
+    if (values.length > 0) {
+      await this.executor().execute(`UPDATE api_keys SET ${sql} WHERE id = ?`, [...values, id]);
+    }
+  }
+
+  async expireWithin(id: number, seconds: number): Promise<void> {
+    await this.executor().execute(
+      `UPDATE api_keys
+       SET expires_at = LEAST(COALESCE(expires_at, DATE_ADD(NOW(), INTERVAL ? SECOND)), DATE_ADD(NOW(), INTERVAL ? SECOND))
+       WHERE id = ?`,
+      [seconds, seconds, id]
+    );
+  }
+
+  async touch(id: number): Promise<void> {
+    await this.executor().execute(
+      `UPDATE api_keys SET last_used_at = NOW()
+       WHERE id = ? AND (last_used_at IS NULL OR last_used_at < NOW() - INTERVAL 1 MINUTE)`,
+      [id]
+    );
+  }
+
+  async consumeNonce(keyId: string, nonce: string, expiresAt: Date): Promise<void> {
+    await this.executor().execute(
+      'DELETE FROM request_nonces WHERE key_id = ? AND expires_at <= NOW()',
+      [keyId]
+    );
+
+    try {
+      await this.executor().execute(
+        'INSERT INTO request_nonces (key_id, nonce, expires_at) VALUES (?, ?, ?)',
+        [keyId, nonce, expiresAt]
+      );
+    } catch (error) {
+      if (errorCode(error) === 'ER_DUP_ENTRY') {
+        throw new Error('Request nonce has already been used');
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Map a database row to a stored key
+   * @param row - The raw database row (require_signature arrives as 0 or 1)
+   */
+  private mapRowToKey(row: ApiKeyRow): ApiKeyRecord {
+    return {
+      id: row.id,
+      key_id: row.key_id,
+      user_id: row.user_id,
+      label: row.label,
+      salt: row.salt,
+      secret_hash: row.secret_hash,
+      signing_secret: row.signing_secret,
+      require_signature: Boolean(row.require_signature),
+      expires_at: row.expires_at,
+      revoked_at: row.revoked_at,
+      last_used_at: row.last_used_at,
+      rotated_from: row.rotated_from,
+      created_at: row.created_at
+    };
+  }
+}
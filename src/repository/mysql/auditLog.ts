@@ -0,0 +1,120 @@
+import { UserRole } from '../../model/user';
+import {
+  AuditActorType,
+  AuditCategory,
+  AuditEntry,
+  AuditEntryRow,
+  AuditOutcome,
+  AuditResourceType
+} from '../../model/audit';
+import { AuditLogQuery, AuditLogRepository, NewAuditEntry } from '../repositories';
+import { limitClause } from '../../utils/database';
+import { Executor, parseJson } from './support';
+
+export class MySqlAuditLogRepository implements AuditLogRepository {
+  constructor(private readonly executor: () => Executor) {}
+
+  async insert(entry: NewAuditEntry): Promise<void> {
+    await this.executor().execute(
+      `INSERT INTO audit_log
+         (audit_id, category, action, actor_type, actor_user_id, actor_role, actor_key_id, ip, user_agent, request_id,
+          method, path, resource_type, resource_id, before_value, after_value, outcome, status_code, error_code, duration_ms)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      [
+        entry.audit_id,
+        entry.category,
+        entry.action,
+        entry.actor_type,
+        entry.actor_user_id,
+        entry.actor_role,
+        entry.actor_key_id,
+        entry.ip,
+        entry.user_agent,
+        entry.request_id,
+        entry.method,
+        entry.path,
+        entry.resource_type,
+        entry.resource_id,
+        entry.before_value === null ? null : JSON.stringify(entry.before_value),
+        entry.after_value === null ? null : JSON.stringify(entry.after_value),
+        entry.outcome,
+        entry.status_code,
+        entry.error_code,
+        entry.duration_ms
+      ]
+    );
+  }
+
+  async list(query: AuditLogQuery): Promise<AuditEntry[]> {
+    const conditions: string[] = [];
+    const params: any[] = [];
+
+    const equalityFilters = ['category', 'action', 'actor_user_id', 'resource_type', 'resource_id', 'request_id', 'outcome'] as const;
+    for (const column of equalityFilters) {
+      if (query[column] !== undefined) {
+        conditions.push(`${column} = ?`);
+        params.push(query[column]);
+      }
+    }
+    if (query.from) {
+      conditions.push('created_at >= ?');
+      params.push(query.from);
+    }
+    if (query.to) {
+      conditions.push('created_at <= ?');
+      params.push(query.to);
+    }
+    if (query.before_id !== undefined) {
+      conditions.push('id < ?');
+      params.push(query.before_id);
+    }
+
+    const [rows] = await this.executor().execute(
+      `SELECT * FROM audit_log
+       ${conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : ''}
+       ORDER BY id DESC
+       ${limitClause(query.limit)}`,
+      params
+    );
+
+    return (rows as AuditEntryRow[]).map(row => this.mapRowToEntry(row));
+  }
+
+  async findByAuditId(auditId: string): Promise<AuditEntry | null> {
+    const [rows] = await this.executor().execute('SELECT * FROM audit_log WHERE audit_id = ?', [auditId]);
+    const entries = rows as AuditEntryRow[];
+
+    return entries.length > 0 ? this.mapRowToEntry(entries[0]) : null;
+  }
+
+  /**
+   * Map a database row to an AuditEntry object
+   * @param row - The raw database row (JSON columns may arrive as strings)
+   */
+  private mapRowToEntry(row: AuditEntryRow): AuditEntry {
+    return {
+      id: row.id,
+      audit_id: row.audit_id,
+      category: row.category as AuditCategory,
+      action: row.action,
+      actor_type: row.actor_type as AuditActorType,
+      actor_user_id: row.actor_user_id,
+      actor_role: row.actor_role as UserRole | null,
+      actor_key_id: row.actor_key_id,
+      ip: row.ip,
+      user_agent: row.user_agent,
+      request_id: row.request_id,
+      method: row.method,
+      path: row.path,
+      resource_type: row.resource_type as AuditResourceType | null,
+      resource_id: row.resource_id,
+      before_value: row.before_value === null ? null : parseJson(row.before_value),
+      after_value: row.after_value === null ? null : parseJson(row.after_value),
+      outcome: row.outcome as AuditOutcome,
+      status_code: row.status_code,
+      error_code: row.error_code,
+      duration_ms: row.duration_ms,
+      created_at: row.created_at
+    };
+  }
+}
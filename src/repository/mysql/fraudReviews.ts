@@ -0,0 +1,61 @@
+import { FraudReview, FraudReviewRow, ReviewStatus } from '../../model/fraud';
+import { FraudReviewRepository, LockOptions, NewFraudReview, ReviewDecision } from '../repositories';
+import { limitClause } from '../../utils/database';
+import { Executor, lockClause, parseJson } from './support';
+
+export class MySqlFraudReviewRepository implements FraudReviewRepository {
+  constructor(private readonly executor: () => Executor) {}
+
+  async insert(data: NewFraudReview): Promise<void> {
+    await this.executor().execute(
+      'INSERT INTO fraud_reviews (review_id, transaction_id, rule_hits) VALUES (?, ?, ?)',
+      [data.review_id, data.transaction_id, JSON.stringify(data.rule_hits)]
+    );
+  }
+
+  async findByReviewId(reviewId: string, options: LockOptions = {}): Promise<FraudReview | null> {
+    const [rows] = await this.executor().execute(
+      `SELECT * FROM fraud_reviews WHERE review_id = ?${lockClause(options)}`,
+      [reviewId]
+    );
+
+    const reviews = rows as FraudReviewRow[];
+    return reviews.length > 0 ? this.mapRowToReview(reviews[0]) : null;
+  }
+
+  async listByStatus(status: ReviewStatus, limit: number): Promise<FraudReview[]> {
+    const [rows] = await this.executor().execute(
+      `SELECT * FROM fraud_reviews WHERE status = ? ORDER BY created_at, id ${limitClause(limit)}`,
+      [status]
+    );
+
+    return (rows as FraudReviewRow[]).map(row => this.mapRowToReview(row));
+  }
+
+  async decide(reviewId: string, decision: ReviewDecision): Promise<void> {
+    await this.executor().execute(
+      `UPDATE fraud_reviews SET status = ?, reviewed_by = ?, review_note = ?, reviewed_at = NOW()
+       WHERE review_id = ?`,
+      [decision.status, decision.reviewed_by, decision.review_note, reviewId]
+    );
+  }
+
+  /**
+   * Map a database row to a FraudReview object
+   * @param row - The raw database row (the JSON column may arrive as a string)
+   * @returns Mapped FraudReview object
+   */
+  private mapRowToReview(row: FraudReviewRow): FraudReview {
+    return {
+      id: row.id,
+      review_id: row.review_id,
+      transaction_id: row.transaction_id,
+      rule_hits: parseJson(row.rule_hits),
+      status: row.status,
+      reviewed_by: row.reviewed_by,
+      review_note: row.review_note,
+      reviewed_at: row.reviewed_at,
+      created_at: row.created_at
+    };
+  }
+}
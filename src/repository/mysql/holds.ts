@@ -0,0 +1,53 @@
+import { Money } from '../../utils/money';
+import { Hold, HoldRow, HoldStatus } from '../../model/hold';
+import { HoldChanges, HoldRepository, LockOptions, NewHold } from '../repositories';
+import { Executor, lockClause, setClause } from './support';
+
+export class MySqlHoldRepository implements HoldRepository {
+  constructor(private readonly executor: () => Executor) {}
+
+  async findByHoldId(holdId: string, options: LockOptions = {}): Promise<Hold | null> {
+    const [rows] = await this.executor().execute(
+      `SELECT * FROM holds WHERE hold_id = ?${lockClause(options)}`,
+      [holdId]
+    );
+
+    const holds = rows as HoldRow[];
+    return holds.length > 0 ? this.mapRowToHold(holds[0]) : null;
+  }
+
+  async insert(data: NewHold): Promise<void> {
+    await this.executor().execute(
+      `INSERT INTO holds (hold_id, account_id, destination_account_id, amount, expires_at)
+       VALUES (?, ?, ?, ?, DATE_ADD(NOW(), INTERVAL ? SECOND))`,
+      [data.hold_id, data.account_id, data.destination_account_id ?? null, data.amount.toString(), data.expires_in_seconds]
+    );
+  }
+
+  async update(holdId: string, changes: HoldChanges): Promise<void> {
+    const { sql, values } = setClause({ ...changes });
+    if (values.length > 0) {
+      await this.executor().execute(`UPDATE holds SET ${sql} WHERE hold_id = ?`, [...values, holdId]);
+    }
+  }
+
+  /**
+   * Map a database row to a Hold object with its stored status
+   * @param row - The raw database row (DECIMAL amounts arrive as strings)
+   */
+  private mapRowToHold(row: HoldRow): Hold {
+    return {
+      id: row.id,
+      hold_id: row.hold_id,
+      account_id: row.account_id,
+      destination_account_id: row.destination_account_id,
+      amount: Money.fromDecimal(row.amount),
+      captured_amount: row.captured_amount ? Money.fromDecimal(row.captured_amount) : undefined,
+      status: row.status as HoldStatus,
+      transaction_id: row.transaction_id,
+      expires_at: row.expires_at,
+      created_at: row.created_at,
+      updated_at: row.updated_at
+    };
+  }
+}
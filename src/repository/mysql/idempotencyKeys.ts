@@ -0,0 +1,52 @@
+import { RowDataPacket } from 'mysql2';
+import { IdempotencyRecord, IdempotentResponse } from '../../model/idempotency';
+import { IdempotencyKeyRepository, LockOptions, NewIdempotencyKey } from '../repositories';
+import { Executor, errorCode, lockClause, parseJson } from './support';
+
+export class MySqlIdempotencyKeyRepository implements IdempotencyKeyRepository {
+  constructor(private readonly executor: () => Executor) {}
+
+  async find(userId: number, key: string, options: LockOptions = {}): Promise<IdempotencyRecord | null> {
+    const [rows] = await this.executor().execute<RowDataPacket[]>(
+      `SELECT * FROM idempotency_keys
+       WHERE user_id = ? AND idempotency_key = ? AND expires_at > NOW()${lockClause(options)}`,
+      [userId, key]
+    );
+
+    if (rows.length === 0) {
+      return null;
+    }
+
+    const record = rows[0] as IdempotencyRecord;
+    return { ...record, response_body: record.response_body === null ? null : parseJson(record.response_body) };
+  }
+
+  async claim(data: NewIdempotencyKey): Promise<void> {
+    await this.executor().execute(
+      'DELETE FROM idempotency_keys WHERE user_id = ? AND idempotency_key = ? AND expires_at <= NOW()',
+      [data.user_id, data.key]
+    );
+
+    try {
+      await this.executor().execute(
+        `INSERT INTO idempotency_keys (user_id, idempotency_key, request_fingerprint, expires_at)
+         VALUES (?, ?, ?, DATE_ADD(NOW(), INTERVAL ? SECOND))`,
+        [data.user_id, data.key, data.fingerprint, data.ttl_seconds]
+      );
+    } catch (error) {
+      if (errorCode(error) === 'ER_DUP_ENTRY') {
+        throw new Error('Idempotency key is already in use');
+      }
+      throw error;
+    }
+  }
+
+  async complete(userId: number, key: string, response: IdempotentResponse, transactionId: string | null): Promise<void> {
+    await this.executor().execute(
+      `UPDATE idempotency_keys
+       SET response_status = ?, response_body = ?, transaction_id = ?
+       WHERE user_id = ? AND idempotency_key = ?`,
+      [response.status, JSON.stringify(response.body), transactionId, userId, key]
+    );
+  }
+}
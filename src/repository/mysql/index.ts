@@ -0,0 +1,64 @@
+import { db } from '../../utils/database';
+import { Repositories, Storage, StorageSession } from '../repositories';
+import { Executor } from './support';
+import { MySqlUserRepository } from './users';
+import { MySqlAccountRepository } from './accounts';
+import { MySqlTransactionRepository } from './transactions';
+import { MySqlIdempotencyKeyRepository } from './idempotencyKeys';
+import { MySqlLimitRepository } from './limits';
+import { MySqlFraudReviewRepository } from './fraudReviews';
+import { MySqlTransactionChainRepository } from './transactionChain';
+import { MySqlOutboxRepository } from './outbox';
+import { MySqlAuditLogRepository } from './auditLog';
+import { MySqlApiKeyRepository } from './apiKeys';
+import { MySqlHoldRepository } from './holds';
+import { MySqlScheduleRepository } from './schedules';
+import { MySqlWebhookDeliveryRepository, MySqlWebhookEndpointRepository } from './webhooks';
+import { MySqlPaymentBatchRepository } from './paymentBatches';
+
+/**
+ * Bind every repository to one executor: the pool, or the connection of an open transaction
+ */
+function mysqlRepositories(executor: () => Executor): Repositories {
+  return {
+    users: new MySqlUserRepository(executor),
+    accounts: new MySqlAccountRepository(executor),
+    transactions: new MySqlTransactionRepository(executor),
+    idempotencyKeys: new MySqlIdempotencyKeyRepository(executor),
+    limits: new MySqlLimitRepository(executor),
+    fraudReviews: new MySqlFraudReviewRepository(executor),
+    transactionChain: new MySqlTransactionChainRepository(executor),
+    outbox: new MySqlOutboxRepository(executor),
+    auditLog: new MySqlAuditLogRepository(executor),
+    apiKeys: new MySqlApiKeyRepository(executor),
+    holds: new MySqlHoldRepository(executor),
+    schedules: new MySqlScheduleRepository(executor),
+    webhookEndpoints: new MySqlWebhookEndpointRepository(executor),
+    webhookDeliveries: new MySqlWebhookDeliveryRepository(executor),
+    paymentBatches: new MySqlPaymentBatchRepository(executor)
+  };
+}
+
+/**
+ * MySQL storage - the production backend
+ * Runs on the shared pool in utils/database.ts, which the server (or script) initializes and
+ * closes itself
+ */
+export class MySqlStorage implements Storage {
+  readonly backend = 'mysql' as const;
+
+  readonly repositories: Repositories = mysqlRepositories(() => db.getPool());
+
+  async initialize(): Promise<void> {
+    // Fails fast with 'Database not initialized' if the pool was not set up
+    db.getPool();
+  }
+
+  async transaction<T>(work: (session: StorageSession) => Promise<T>): Promise<T> {
+    return db.transaction(connection => work(mysqlRepositories(() => connection)));
+  }
+
+  async close(): Promise<void> {
+    // The pool is closed by its owner
+  }
+}
@@ -0,0 +1,37 @@
+import { Money } from '../../utils/money';
+import { LimitedTransactionType, TransactionLimit, TransactionLimitRow } from '../../model/limit';
+import { LimitRepository } from '../repositories';
+import { Executor } from './support';
+
+export class MySqlLimitRepository implements LimitRepository {
+  constructor(private readonly executor: () => Executor) {}
+
+  async find(tier: string, type: LimitedTransactionType): Promise<TransactionLimit | null> {
+    const [rows] = await this.executor().execute(
+      'SELECT * FROM transaction_limits WHERE kyc_tier = ? AND transaction_type = ?',
+      [tier, type]
+    );
+
+    const limits = rows as TransactionLimitRow[];
+    return limits.length > 0 ? this.mapRowToLimit(limits[0]) : null;
+  }
+
+  /**
+   * Map a database row to a TransactionLimit object
+   * @param row - The raw database row (DECIMAL limits arrive as strings)
+   * @returns Mapped limits with exact Money amounts
+   */
+  private mapRowToLimit(row: TransactionLimitRow): TransactionLimit {
+    const toMoney = (value: string | null) => (value === null ? null : Money.fromDecimal(value));
+
+    return {
+      kyc_tier: row.kyc_tier,
+      transaction_type: row.transaction_type,
+      per_transaction_max: toMoney(row.per_transaction_max),
+      daily_account_max: toMoney(row.daily_account_max),
+      monthly_account_max: toMoney(row.monthly_account_max),
+      daily_user_max: toMoney(row.daily_user_max),
+      monthly_user_max: toMoney(row.monthly_user_max)
+    };
+  }
+}
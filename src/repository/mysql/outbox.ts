@@ -0,0 +1,79 @@
+import { DomainEventType, OutboxEvent, OutboxEventRow } from '../../model/outbox';
+import { LockOptions, NewOutboxEvent, OutboxRepository } from '../repositories';
+import { limitClause } from '../../utils/database';
+import { Executor, lockClause, parseJson } from './support';
+
+export class MySqlOutboxRepository implements OutboxRepository {
+  constructor(private readonly executor: () => Executor) {}
+
+  async insert(data: NewOutboxEvent): Promise<void> {
+    await this.executor().execute(
+      'INSERT INTO outbox_events (event_id, event_type, account_id, payload) VALUES (?, ?, ?, ?)',
+      [data.event.id, data.event.type, data.account_id, JSON.stringify(data.event)]
+    );
+  }
+
+  async listUnpublished(limit: number): Promise<OutboxEvent[]> {
+    const [rows] = await this.executor().execute(
+      `SELECT * FROM outbox_events WHERE published_at IS NULL ORDER BY id ${limitClause(limit)}`
+    );
+
+    return (rows as OutboxEventRow[]).map(row => this.mapRowToEvent(row));
+  }
+
+  async markPublished(id: number, sequence: number): Promise<void> {
+    await this.executor().execute(
+      'UPDATE outbox_events SET sequence = ?, published_at = NOW() WHERE id = ?',
+      [sequence, id]
+    );
+  }
+
+  async getLastSequence(options: LockOptions = {}): Promise<number> {
+    const [rows] = await this.executor().execute(
+      `SELECT last_sequence FROM outbox_relay_state WHERE id = 1${lockClause(options)}`
+    );
+    const state = rows as { last_sequence: number }[];
+
+    return state.length > 0 ? Number(state[0].last_sequence) : 0;
+  }
+
+  async setLastSequence(sequence: number): Promise<void> {
+    await this.executor().execute('UPDATE outbox_relay_state SET last_sequence = ? WHERE id = 1', [sequence]);
+  }
+
+  async listPublished(afterSequence: number, limit: number, accountId?: number): Promise<OutboxEvent[]> {
+    const params: number[] = [afterSequence];
+    let accountCondition = '';
+    if (accountId !== undefined) {
+      accountCondition = 'AND account_id = ?';
+      params.push(accountId);
+    }
+
+    const [rows] = await this.executor().execute(
+      `SELECT * FROM outbox_events
+       WHERE sequence > ? ${accountCondition}
+       ORDER BY sequence
+       ${limitClause(limit)}`,
+      params
+    );
+
+    return (rows as OutboxEventRow[]).map(row => this.mapRowToEvent(row));
+  }
+
+  /**
+   * Map a database row to an OutboxEvent object
+   * @param row - The raw database row (the JSON column may arrive as a string)
+   */
+  private mapRowToEvent(row: OutboxEventRow): OutboxEvent {
+    return {
+      id: row.id,
+      event_id: row.event_id,
+      event_type: row.event_type as DomainEventType,
+      account_id: row.account_id,
+      payload: parseJson(row.payload),
+      sequence: row.sequence === null ? null : Number(row.sequence),
+      published_at: row.published_at,
+      created_at: row.created_at
+    };
+  }
+}
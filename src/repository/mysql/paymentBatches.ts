@@ -0,0 +1,157 @@
+import { Money } from '../../utils/money';
+import { limitClause } from '../../utils/database';
+import {
+  PaymentBatch,
+  PaymentBatchLine,
+  PaymentBatchLineRow,
+  PaymentBatchRow,
+  PaymentLineStatus
+} from '../../model/paymentBatch';
+import {
+  LockOptions,
+  NewPaymentBatch,
+  PaymentBatchChanges,
+  PaymentBatchRepository,
+  PaymentLineOutcome
+} from '../repositories';
+import { Executor, lockClause, setClause } from './support';
+
+export class MySqlPaymentBatchRepository implements PaymentBatchRepository {
+  constructor(private readonly executor: () => Executor) {}
+
+  async insert(data: NewPaymentBatch): Promise<void> {
+    const [result] = await this.executor().execute(
+      `INSERT INTO payment_batches
+         (batch_id, user_id, file_format, file_reference, mode, line_count, valid_line_count, total_amount)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+      [
+        data.batch_id,
+        data.user_id,
+        data.file_format,
+        data.file_reference,
+        data.mode,
+        data.lines.length,
+        data.valid_line_count,
+        data.total_amount.toString()
+      ]
+    );
+    const id = (result as { insertId: number }).insertId;
+
+    for (const line of data.lines) {
+      await this.executor().execute(
+        `INSERT INTO payment_batch_lines
+           (batch_id, line_number, reference, type, amount, source_account_id, destination_account_id, status, error)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+        [
+          id,
+          line.line_number,
+          line.reference,
+          line.type,
+          line.amount?.toString() ?? null,
+          line.source_account_id,
+          line.destination_account_id,
+          line.status,
+          line.error
+        ]
+      );
+    }
+  }
+
+  async findByBatchId(batchId: string, options: LockOptions = {}): Promise<PaymentBatch | null> {
+    const [rows] = await this.executor().execute(
+      `SELECT * FROM payment_batches WHERE batch_id = ?${lockClause(options)}`,
+      [batchId]
+    );
+
+    const batches = rows as PaymentBatchRow[];
+    return batches.length > 0 ? this.mapRowToBatch(batches[0]) : null;
+  }
+
+  async listForUser(userId: number, limit: number): Promise<PaymentBatch[]> {
+    const [rows] = await this.executor().execute(
+      `SELECT * FROM payment_batches WHERE user_id = ? ORDER BY created_at DESC, id DESC ${limitClause(limit)}`,
+      [userId]
+    );
+
+    return (rows as PaymentBatchRow[]).map(row => this.mapRowToBatch(row));
+  }
+
+  async listProcessing(): Promise<PaymentBatch[]> {
+    const [rows] = await this.executor().execute(
+      "SELECT * FROM payment_batches WHERE status = 'processing' AND mode = 'best_effort' ORDER BY id"
+    );
+
+    return (rows as PaymentBatchRow[]).map(row => this.mapRowToBatch(row));
+  }
+
+  async update(id: number, changes: PaymentBatchChanges): Promise<void> {
+    const { sql, values } = setClause({ ...changes });
+    await this.executor().execute(`UPDATE payment_batches SET ${sql} WHERE id = ?`, [...values, id]);
+  }
+
+  async listLines(id: number, status?: PaymentLineStatus): Promise<PaymentBatchLine[]> {
+    const [rows] = await this.executor().execute(
+      `SELECT * FROM payment_batch_lines WHERE batch_id = ?${status ? ' AND status = ?' : ''} ORDER BY line_number`,
+      status ? [id, status] : [id]
+    );
+
+    return (rows as PaymentBatchLineRow[]).map(row => this.mapRowToLine(row));
+  }
+
+  async findLine(id: number, lineNumber: number, options: LockOptions = {}): Promise<PaymentBatchLine | null> {
+    const [rows] = await this.executor().execute(
+      `SELECT * FROM payment_batch_lines WHERE batch_id = ? AND line_number = ?${lockClause(options)}`,
+      [id, lineNumber]
+    );
+
+    const lines = rows as PaymentBatchLineRow[];
+    return lines.length > 0 ? this.mapRowToLine(lines[0]) : null;
+  }
+
+  async updateLine(id: number, lineNumber: number, outcome: PaymentLineOutcome, expected?: PaymentLineStatus): Promise<void> {
+    await this.executor().execute(
+      `UPDATE payment_batch_lines SET status = ?, error = ?, transaction_id = ?
+       WHERE batch_id = ? AND line_number = ?${expected ? ' AND status = ?' : ''}`,
+      [outcome.status, outcome.error, outcome.transaction_id, id, lineNumber, ...(expected ? [expected] : [])]
+    );
+  }
+
+  /**
+   * Map a database row to a PaymentBatch object
+   * @param row - The raw database row (DECIMAL total arrives as a string)
+   */
+  private mapRowToBatch(row: PaymentBatchRow): PaymentBatch {
+    return {
+      id: row.id,
+      batch_id: row.batch_id,
+      user_id: row.user_id,
+      file_format: row.file_format,
+      file_reference: row.file_reference,
+      mode: row.mode,
+      status: row.status,
+      line_count: row.line_count,
+      valid_line_count: row.valid_line_count,
+      total_amount: Money.fromDecimal(row.total_amount),
+      created_at: row.created_at,
+      confirmed_at: row.confirmed_at,
+      completed_at: row.completed_at
+    };
+  }
+
+  /**
+   * Map a database row to a PaymentBatchLine object
+   */
+  private mapRowToLine(row: PaymentBatchLineRow): PaymentBatchLine {
+    return {
+      line_number: row.line_number,
+      reference: row.reference,
+      type: row.type,
+      amount: row.amount === null ? null : Money.fromDecimal(row.amount),
+      source_account_id: row.source_account_id,
+      destination_account_id: row.destination_account_id,
+      status: row.status,
+      error: row.error,
+      transaction_id: row.transaction_id
+    };
+  }
+}
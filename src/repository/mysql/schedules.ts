@@ -0,0 +1,146 @@
+import { Money } from '../../utils/money';
+import { limitClause } from '../../utils/database';
+import { Schedule, ScheduleFrequency, ScheduleRow, ScheduleRun, ScheduleStatus } from '../../model/schedule';
+import { LockOptions, NewSchedule, NewScheduleRun, ScheduleChanges, ScheduleRepository } from '../repositories';
+import { Executor, lockClause, setClause } from './support';
+
+const RUN_COLUMNS = 'id, scheduled_for, transaction_id, status, failure_reason, created_at';
+
+export class MySqlScheduleRepository implements ScheduleRepository {
+  constructor(private readonly executor: () => Executor) {}
+
+  async insert(data: NewSchedule): Promise<void> {
+    await this.executor().execute(
+      `INSERT INTO schedules (schedule_id, user_id, source_account_id, destination_account_id, amount, frequency, start_at, end_at, next_run_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      [
+        data.schedule_id,
+        data.user_id,
+        data.source_account_id,
+        data.destination_account_id,
+        data.amount.toString(),
+        data.frequency,
+        data.start_at,
+        data.end_at ?? null,
+        data.start_at
+      ]
+    );
+  }
+
+  async findByScheduleId(scheduleId: string, options: LockOptions = {}): Promise<Schedule | null> {
+    const [rows] = await this.executor().execute(
+      `SELECT * FROM schedules WHERE schedule_id = ?${lockClause(options)}`,
+      [scheduleId]
+    );
+
+    const schedules = rows as ScheduleRow[];
+    return schedules.length > 0 ? this.mapRowToSchedule(schedules[0]) : null;
+  }
+
+  async listForUser(userId: number): Promise<Schedule[]> {
+    const [rows] = await this.executor().execute(
+      'SELECT * FROM schedules WHERE user_id = ? ORDER BY id DESC',
+      [userId]
+    );
+
+    return (rows as ScheduleRow[]).map(row => this.mapRowToSchedule(row));
+  }
+
+  async update(id: number, changes: ScheduleChanges): Promise<void> {
+    const { sql, values } = setClause({ ...changes });
+    if (values.length > 0) {
+      await this.executor().execute(`UPDATE schedules SET ${sql} WHERE id = ?`, [...values, id]);
+    }
+  }
+
+  async listDue(limit: number): Promise<Schedule[]> {
+    const [rows] = await this.executor().execute(
+      `SELECT * FROM schedules
+       WHERE status = 'active' AND next_run_at <= NOW()
+         AND (locked_until IS NULL OR locked_until < NOW())
+       ORDER BY next_run_at
+       ${limitClause(limit)}
+       FOR UPDATE SKIP LOCKED`
+    );
+
+    return (rows as ScheduleRow[]).map(row => this.mapRowToSchedule(row));
+  }
+
+  async lease(id: number, workerId: string, seconds: number): Promise<void> {
+    await this.executor().execute(
+      'UPDATE schedules SET locked_by = ?, locked_until = DATE_ADD(NOW(), INTERVAL ? SECOND) WHERE id = ?',
+      [workerId, seconds, id]
+    );
+  }
+
+  async advance(id: number, workerId: string, nextRunAt: Date | null): Promise<void> {
+    // Pausing or cancelling while the run was in flight wins over the worker's update
+    await this.executor().execute(
+      `UPDATE schedules
+       SET next_run_at = ?, run_count = run_count + 1,
+           status = CASE WHEN status = 'active' AND ? IS NULL THEN 'completed' ELSE status END,
+           locked_by = NULL, locked_until = NULL
+       WHERE id = ? AND locked_by = ?`,
+      [nextRunAt, nextRunAt, id, workerId]
+    );
+  }
+
+  async cancelForAccount(accountId: number): Promise<void> {
+    await this.executor().execute(
+      `UPDATE schedules SET status = 'cancelled', next_run_at = NULL
+       WHERE (source_account_id = ? OR destination_account_id = ?) AND status IN ('active', 'paused')`,
+      [accountId, accountId]
+    );
+  }
+
+  async insertRun(id: number, run: NewScheduleRun): Promise<void> {
+    // The unique (schedule_id, scheduled_for) key makes recording the same occurrence twice a no-op
+    await this.executor().execute(
+      `INSERT IGNORE INTO schedule_runs (schedule_id, scheduled_for, transaction_id, status, failure_reason)
+       VALUES (?, ?, ?, ?, ?)`,
+      [id, run.scheduled_for, run.transaction_id ?? null, run.status, run.failure_reason ?? null]
+    );
+  }
+
+  async findRun(id: number, scheduledFor: Date): Promise<ScheduleRun | null> {
+    const [rows] = await this.executor().execute(
+      `SELECT ${RUN_COLUMNS} FROM schedule_runs WHERE schedule_id = ? AND scheduled_for = ?`,
+      [id, scheduledFor]
+    );
+
+    const runs = rows as ScheduleRun[];
+    return runs.length > 0 ? runs[0] : null;
+  }
+
+  async listRuns(id: number): Promise<ScheduleRun[]> {
+    const [rows] = await this.executor().execute(
+      `SELECT ${RUN_COLUMNS} FROM schedule_runs WHERE schedule_id = ? ORDER BY scheduled_for DESC`,
+      [id]
+    );
+
+    return rows as ScheduleRun[];
+  }
+
+  /**
+   * Map a database row to a Schedule object
+   * @param row - The raw database row (DECIMAL amount arrives as a string)
+   */
+  private mapRowToSchedule(row: ScheduleRow): Schedule {
+    return {
+      id: row.id,
+      schedule_id: row.schedule_id,
+      user_id: row.user_id,
+      source_account_id: row.source_account_id,
+      destination_account_id: row.destination_account_id,
+      amount: Money.fromDecimal(row.amount),
+      frequency: row.frequency as ScheduleFrequency,
+      start_at: row.start_at,
+      end_at: row.end_at ?? undefined,
+      next_run_at: row.next_run_at ?? undefined,
+      status: row.status as ScheduleStatus,
+      run_count: row.run_count,
+      created_at: row.created_at,
+      updated_at: row.updated_at
+    };
+  }
+}
@@ -0,0 +1,54 @@
+import { PoolConnection } from 'mysql2/promise';
+import { Money } from '../../utils/money';
+import { User, UserRow } from '../../model/user';
+
+// Runs statements on the pool or on the connection of an open transaction
+export type Executor = Pick<PoolConnection, 'execute'>;
+
+export const USER_COLUMNS = 'id, username, role, kyc_tier, require_signed_requests, created_at, updated_at';
+export const ACCOUNT_COLUMNS = 'id, user_id, account_number, balance, status, frozen_by, closed_at, created_at, updated_at';
+
+/**
+ * Read the MySQL error code of a failed statement
+ */
+export const errorCode = (error: unknown): string | undefined => (error as { code?: string }).code;
+
+/**
+ * Append FOR UPDATE to a query when the caller asked for a lock
+ */
+export const lockClause = (options: { forUpdate?: boolean } = {}): string => (options.forUpdate ? ' FOR UPDATE' : '');
+
+/**
+ * JSON columns may arrive as strings or already parsed, depending on the driver settings
+ */
+export const parseJson = <T>(value: string | T): T => (typeof value === 'string' ? JSON.parse(value) : value);
+
+/**
+ * Build the SET clause and values of an UPDATE from the defined fields of a change
+ */
+export function setClause(changes: Record<string, unknown>): { sql: string; values: any[] } {
+  const columns = Object.keys(changes).filter(column => changes[column] !== undefined);
+
+  return {
+    sql: columns.map(column => `${column} = ?`).join(', '),
+    values: columns.map(column => {
+      const value = changes[column];
+      return value instanceof Money ? value.toString() : value;
+    })
+  };
+}
+
+/**
+ * Map a users row to a User object
+ */
+export function mapRowToUser(row: UserRow): User {
+  return {
+    id: row.id,
+    username: row.username,
+    role: row.role,
+    kyc_tier: row.kyc_tier,
+    require_signed_requests: Boolean(row.require_signed_requests),
+    created_at: new Date(row.created_at),
+    updated_at: new Date(row.updated_at)
+  };
+}
@@ -0,0 +1,95 @@
+import { Money } from '../../utils/money';
+import { limitClause } from '../../utils/database';
+import { ChainedTransaction, ChainedTransactionRow, ChainHead, LinkedTransaction } from '../../model/transactionChain';
+import { ChainLink, LockOptions, TransactionChainRepository } from '../repositories';
+import { Executor, lockClause } from './support';
+
+const CHAIN_COLUMNS = `t.transaction_id, t.type, t.amount, t.source_account_id, t.destination_account_id,
+  t.original_transaction_id, t.batch_id, t.reversed_amount, t.status, t.failure_reason,
+  UNIX_TIMESTAMP(t.created_at) AS created_epoch, t.chain_sequence, t.prev_hash, t.row_hash`;
+
+export class MySqlTransactionChainRepository implements TransactionChainRepository {
+  constructor(private readonly executor: () => Executor) {}
+
+  async getHead(options: LockOptions = {}): Promise<ChainHead> {
+    const [rows] = await this.executor().execute(
+      `SELECT last_sequence, last_hash FROM transaction_chain_state WHERE id = 1${lockClause(options)}`
+    );
+
+    const state = (rows as { last_sequence: number; last_hash: string }[])[0];
+    return { sequence: Number(state.last_sequence), hash: state.last_hash };
+  }
+
+  async findTransaction(transactionId: string): Promise<ChainedTransaction | null> {
+    const [rows] = await this.executor().execute(
+      `SELECT ${CHAIN_COLUMNS} FROM transactions t WHERE t.transaction_id = ?`,
+      [transactionId]
+    );
+
+    const transactions = rows as ChainedTransactionRow[];
+    return transactions.length > 0 ? this.mapRowToChained(transactions[0]) : null;
+  }
+
+  async listUnlinked(limit: number): Promise<ChainedTransaction[]> {
+    const [rows] = await this.executor().execute(
+      `SELECT ${CHAIN_COLUMNS} FROM transactions t
+       WHERE t.chain_sequence IS NULL AND t.status <> 'pending_review'
+       ORDER BY t.id
+       ${limitClause(limit)}`
+    );
+
+    return (rows as ChainedTransactionRow[]).map(row => this.mapRowToChained(row));
+  }
+
+  async countUnlinked(): Promise<number> {
+    const [rows] = await this.executor().execute(
+      "SELECT COUNT(*) AS count FROM transactions WHERE chain_sequence IS NULL AND status <> 'pending_review'"
+    );
+
+    return Number((rows as { count: number }[])[0].count);
+  }
+
+  async listLinked(afterSequence: number, limit: number): Promise<LinkedTransaction[]> {
+    const [rows] = await this.executor().execute(
+      `SELECT ${CHAIN_COLUMNS},
+         (SELECT COALESCE(SUM(r.amount), 0) FROM transactions r
+          WHERE r.original_transaction_id = t.transaction_id AND r.type = 'reversal'
+            AND r.status = 'completed' AND r.chain_sequence IS NOT NULL) AS linked_reversed
+       FROM transactions t
+       WHERE t.chain_sequence > ?
+       ORDER BY t.chain_sequence
+       ${limitClause(limit)}`,
+      [afterSequence]
+    );
+
+    return (rows as (ChainedTransactionRow & { linked_reversed: string })[]).map(row => ({
+      ...this.mapRowToChained(row),
+      linked_reversed: Money.fromDecimal(row.linked_reversed)
+    }));
+  }
+
+  async link(transactionId: string, link: ChainLink): Promise<void> {
+    await this.executor().execute(
+      'UPDATE transactions SET chain_sequence = ?, prev_hash = ?, row_hash = ? WHERE transaction_id = ?',
+      [link.sequence, link.prev_hash, link.row_hash, transactionId]
+    );
+    await this.executor().execute(
+      'UPDATE transaction_chain_state SET last_sequence = ?, last_hash = ? WHERE id = 1',
+      [link.sequence, link.row_hash]
+    );
+  }
+
+  /**
+   * Map a database row to a ChainedTransaction object
+   * @param row - The raw database row (DECIMAL amounts arrive as strings)
+   */
+  private mapRowToChained(row: ChainedTransactionRow): ChainedTransaction {
+    return {
+      ...row,
+      amount: Money.fromDecimal(row.amount),
+      reversed_amount: Money.fromDecimal(row.reversed_amount),
+      created_epoch: Number(row.created_epoch),
+      chain_sequence: row.chain_sequence === null ? null : Number(row.chain_sequence)
+    };
+  }
+}
@@ -0,0 +1,345 @@
+import { Money } from '../../utils/money';
+import { limitClause } from '../../utils/database';
+import { LedgerService } from '../../service/ledgerService';
+import { LedgerPosting, LedgerSummary } from '../../model/ledger';
+import { LimitedTransactionType, LimitUsage } from '../../model/limit';
+import { StatementEntry, StatementEntryRow } from '../../model/statement';
+import {
+  AccountSummary,
+  AccountTransaction,
+  AccountTransactionRow,
+  FailedTransactionSummary,
+  Transaction,
+  TransactionRow,
+  TransactionStatus,
+  TransactionType
+} from '../../model/transaction';
+import {
+  AccountHistoryQuery,
+  LockOptions,
+  NewTransaction,
+  OutgoingQuery,
+  TransactionChanges,
+  TransactionRepository
+} from '../repositories';
+import { Executor, lockClause, setClause } from './support';
+
+export class MySqlTransactionRepository implements TransactionRepository {
+  constructor(private readonly executor: () => Executor) {}
+
+  async findByTransactionId(transactionId: string, options: LockOptions = {}): Promise<Transaction | null> {
+    const [rows] = await this.executor().execute(
+      `SELECT * FROM transactions WHERE transaction_id = ?${lockClause(options)}`,
+      [transactionId]
+    );
+
+    const transactions = rows as TransactionRow[];
+    return transactions.length > 0 ? this.mapRowToTransaction(transactions[0]) : null;
+  }
+
+  async findByBatchId(batchId: string): Promise<Transaction[]> {
+    const [rows] = await this.executor().execute(
+      'SELECT * FROM transactions WHERE batch_id = ? ORDER BY id',
+      [batchId]
+    );
+
+    return (rows as TransactionRow[]).map(row => this.mapRowToTransaction(row));
+  }
+
+  async insert(record: NewTransaction): Promise<void> {
+    await this.executor().execute(
+      `INSERT INTO transactions (transaction_id, type, amount, source_account_id, destination_account_id, original_transaction_id, batch_id, status, failure_reason)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      [
+        record.transaction_id,
+        record.type,
+        record.amount.toString(),
+        record.source_account_id || null,
+        record.destination_account_id || null,
+        record.original_transaction_id || null,
+        record.batch_id || null,
+        record.status,
+        record.failure_reason || null
+      ]
+    );
+    await this.recordBalancesAfter(record.transaction_id);
+  }
+
+  async update(transactionId: string, changes: TransactionChanges): Promise<void> {
+    const { sql, values } = setClause({ ...changes });
+    if (values.length > 0) {
+      await this.executor().execute(`UPDATE transactions SET ${sql} WHERE transaction_id = ?`, [...values, transactionId]);
+    }
+  }
+
+  async recordJournalEntry(transactionId: string, description: string, postings: LedgerPosting[]): Promise<void> {
+    await LedgerService.recordJournalEntry(this.executor(), transactionId, description, postings);
+    await this.recordBalancesAfter(transactionId);
+  }
+
+  async listForAccount(accountId: number, query: AccountHistoryQuery): Promise<AccountTransaction[]> {
+    const conditions: string[] = ['(source_account_id = ? OR destination_account_id = ?)'];
+    const params: any[] = [accountId, accountId];
+
+    if (query.type) {
+      conditions.push('type = ?');
+      params.push(query.type);
+    }
+    if (query.status) {
+      conditions.push('status = ?');
+      params.push(query.status);
+    }
+    if (query.direction === 'in') {
+      conditions.push('destination_account_id = ?');
+      params.push(accountId);
+    } else if (query.direction === 'out') {
+      conditions.push('source_account_id = ?');
+      params.push(accountId);
+    }
+    if (query.min_amount !== undefined) {
+      conditions.push('amount >= ?');
+      params.push(query.min_amount.toString());
+    }
+    if (query.max_amount !== undefined) {
+      conditions.push('amount <= ?');
+      params.push(query.max_amount.toString());
+    }
+    if (query.from) {
+      conditions.push('created_at >= ?');
+      params.push(query.from);
+    }
+    if (query.to) {
+      conditions.push('created_at <= ?');
+      params.push(query.to);
+    }
+    if (query.before_id !== undefined) {
+      conditions.push('id < ?');
+      params.push(query.before_id);
+    }
+
+    const [rows] = await this.executor().execute(`
+      SELECT transactions.*,
+        CASE
+          WHEN status IN ('failed', 'pending_review') THEN 0
+          WHEN source_account_id = ? AND destination_account_id = ? THEN 0
+          WHEN destination_account_id = ? THEN amount
+          ELSE -amount
+        END AS signed_amount,
+        IF(destination_account_id = ?, destination_balance_after, source_balance_after) AS running_balance
+      FROM transactions
+      WHERE ${conditions.join(' AND ')}
+      ORDER BY id DESC
+      ${limitClause(query.limit)}
+    `, [accountId, accountId, accountId, accountId, ...params]);
+
+    return (rows as AccountTransactionRow[]).map(row => ({
+      ...this.mapRowToTransaction(row),
+      direction: row.destination_account_id === accountId ? 'in' as const : 'out' as const,
+      signed_amount: Money.fromDecimal(row.signed_amount),
+      running_balance: Money.fromDecimal(row.running_balance)
+    }));
+  }
+
+  async countOutgoing(sourceAccountId: number, query: OutgoingQuery): Promise<number> {
+    const conditions: string[] = [];
+    const params: (string | number)[] = [];
+    if (query.type) {
+      conditions.push('type = ?');
+      params.push(query.type);
+    }
+    if (query.multiple_of) {
+      conditions.push('MOD(ROUND(amount * 100), ?) = 0');
+      params.push(query.multiple_of.minorUnits);
+    }
+
+    const [rows] = await this.executor().execute(
+      `SELECT COUNT(*) AS count FROM transactions
+       WHERE source_account_id = ? AND status <> 'failed'
+         AND created_at >= NOW() - INTERVAL ? MINUTE${conditions.map(condition => ` AND ${condition}`).join('')}`,
+      [sourceAccountId, query.within_minutes, ...params]
+    );
+
+    return Number((rows as { count: number }[])[0].count);
+  }
+
+  async hasTransferred(sourceAccountId: number, destinationAccountId: number): Promise<boolean> {
+    const [rows] = await this.executor().execute(
+      `SELECT 1 FROM transactions
+       WHERE source_account_id = ? AND destination_account_id = ? AND type = 'transfer' AND status <> 'failed'
+       LIMIT 1`,
+      [sourceAccountId, destinationAccountId]
+    );
+
+    return (rows as unknown[]).length > 0;
+  }
+
+  async getUsage(type: LimitedTransactionType, scope: 'account' | 'user', id: number): Promise<LimitUsage> {
+    const column = type === 'deposit' ? 'destination_account_id' : 'source_account_id';
+    const filter = scope === 'account' ? `${column} = ?` : `${column} IN (SELECT id FROM accounts WHERE user_id = ?)`;
+
+    const [rows] = await this.executor().execute(
+      `SELECT
+         COALESCE(SUM(CASE WHEN created_at >= NOW() - INTERVAL 1 DAY THEN amount END), 0) AS daily,
+         COALESCE(SUM(amount), 0) AS monthly
+       FROM transactions
+       WHERE type = ? AND status NOT IN ('failed', 'pending_review') AND ${filter} AND created_at >= NOW() - INTERVAL 30 DAY`,
+      [type, id]
+    );
+
+    const usage = (rows as { daily: string; monthly: string }[])[0];
+    return {
+      daily: Money.fromDecimal(usage.daily),
+      monthly: Money.fromDecimal(usage.monthly)
+    };
+  }
+
+  async getPostedBalance(accountId: number, before: Date): Promise<Money> {
+    const [rows] = await this.executor().execute(
+      `SELECT COALESCE(SUM(p.amount), 0) AS balance
+       FROM ledger_postings p
+       JOIN journal_entries je ON je.id = p.journal_entry_id
+       WHERE p.account_id = ? AND je.created_at < ?`,
+      [accountId, before]
+    );
+
+    return Money.fromDecimal((rows as { balance: string }[])[0].balance);
+  }
+
+  async listJournalEntries(accountId: number, from: Date, to: Date): Promise<StatementEntry[]> {
+    // Postings are summed per journal entry in case an entry touches the account twice
+    const [rows] = await this.executor().execute(
+      `SELECT
+         je.id AS journal_entry_id,
+         je.created_at AS booked_at,
+         je.description,
+         t.transaction_id,
+         t.type,
+         t.original_transaction_id,
+         t.source_account_id,
+         t.destination_account_id,
+         src.account_number AS source_account_number,
+         dst.account_number AS destination_account_number,
+         SUM(p.amount) AS amount
+       FROM ledger_postings p
+       JOIN journal_entries je ON je.id = p.journal_entry_id
+       LEFT JOIN transactions t ON t.transaction_id = je.transaction_id
+       LEFT JOIN accounts src ON src.id = t.source_account_id
+       LEFT JOIN accounts dst ON dst.id = t.destination_account_id
+       WHERE p.account_id = ? AND je.created_at >= ? AND je.created_at < ?
+       GROUP BY je.id, je.created_at, je.description, t.transaction_id, t.type, t.original_transaction_id,
+         t.source_account_id, t.destination_account_id, src.account_number, dst.account_number
+       ORDER BY je.id`,
+      [accountId, from, to]
+    );
+
+    return (rows as StatementEntryRow[]).map(row => ({ ...row, amount: Money.fromDecimal(row.amount) }));
+  }
+
+  async summarizeAccounts(): Promise<AccountSummary[]> {
+    const [rows] = await this.executor().execute(`
+      SELECT
+        a.id as account_id,
+        a.account_number,
+        u.username,
+        a.balance as current_balance,
+        COALESCE(MAX(t.amount), 0) as largest_transaction
+      FROM accounts a
+      LEFT JOIN users u ON a.user_id = u.id
+      LEFT JOIN transactions t ON (a.id = t.source_account_id OR a.id = t.destination_account_id)
+        AND t.status NOT IN ('failed', 'pending_review')
+      GROUP BY a.id, a.account_number, u.username, a.balance
+    `);
+
+    return (rows as any[]).map(row => ({
+      account_id: row.account_id,
+      account_number: row.account_number,
+      username: row.username,
+      current_balance: Money.fromDecimal(row.current_balance),
+      largest_transaction: Money.fromDecimal(row.largest_transaction)
+    }));
+  }
+
+  async summarizeFailures(): Promise<FailedTransactionSummary[]> {
+    const [rows] = await this.executor().execute(`
+      SELECT failure_reason as reason, COUNT(*) as count
+      FROM transactions
+      WHERE status = 'failed' AND failure_reason IS NOT NULL
+      GROUP BY failure_reason
+    `);
+
+    return (rows as any[]).map(row => ({
+      reason: row.reason,
+      count: parseInt(row.count)
+    }));
+  }
+
+  async summarizeLedger(): Promise<LedgerSummary> {
+    const [accountRows] = await this.executor().execute(`
+      SELECT
+        a.id as account_id,
+        a.account_number,
+        a.balance as stored_balance,
+        COALESCE(SUM(p.amount), 0) as ledger_balance
+      FROM accounts a
+      LEFT JOIN ledger_postings p ON p.account_id = a.id
+      GROUP BY a.id, a.account_number, a.balance
+      ORDER BY a.id
+    `);
+
+    const [unbalancedRows] = await this.executor().execute(`
+      SELECT j.id as journal_entry_id, j.transaction_id, SUM(p.amount) as total
+      FROM journal_entries j
+      JOIN ledger_postings p ON p.journal_entry_id = j.id
+      GROUP BY j.id, j.transaction_id
+      HAVING SUM(p.amount) <> 0
+    `);
+
+    return {
+      accounts: (accountRows as any[]).map(row => ({
+        account_id: row.account_id,
+        account_number: row.account_number,
+        stored_balance: Money.fromDecimal(row.stored_balance),
+        ledger_balance: Money.fromDecimal(row.ledger_balance)
+      })),
+      unbalanced_entries: (unbalancedRows as any[]).map(row => ({
+        journal_entry_id: row.journal_entry_id,
+        transaction_id: row.transaction_id,
+        total: Money.fromDecimal(row.total)
+      }))
+    };
+  }
+
+  /**
+   * Store the current balances of a transaction's accounts as their balances after it
+   */
+  private async recordBalancesAfter(transactionId: string): Promise<void> {
+    await this.executor().execute(`
+      UPDATE transactions
+      SET source_balance_after = (SELECT balance FROM accounts WHERE id = transactions.source_account_id),
+        destination_balance_after = (SELECT balance FROM accounts WHERE id = transactions.destination_account_id)
+      WHERE transaction_id = ?
+    `, [transactionId]);
+  }
+
+  /**
+   * Map a database row to a Transaction object
+   * @param row - The raw database row
+   * @returns Mapped Transaction object with proper types
+   */
+  private mapRowToTransaction(row: TransactionRow): Transaction {
+    return {
+      id: row.id,
+      transaction_id: row.transaction_id,
+      type: row.type as TransactionType,
+      amount: Money.fromDecimal(row.amount),
+      source_account_id: row.source_account_id,
+      destination_account_id: row.destination_account_id,
+      original_transaction_id: row.original_transaction_id,
+      batch_id: row.batch_id,
+      reversed_amount: Money.fromDecimal(row.reversed_amount),
+      status: row.status as TransactionStatus,
+      failure_reason: row.failure_reason,
+      created_at: row.created_at
+    };
+  }
+}
@@ -0,0 +1,51 @@
+import { RowDataPacket } from 'mysql2';
+import { User, UserRow } from '../../model/user';
+import { LockOptions, NewUser, UserChanges, UserRepository } from '../repositories';
+import { Executor, USER_COLUMNS, errorCode, lockClause, mapRowToUser, setClause } from './support';
+
+export class MySqlUserRepository implements UserRepository {
+  constructor(private readonly executor: () => Executor) {}
+
+  async findById(id: number, options: LockOptions = {}): Promise<User | null> {
+    const [rows] = await this.executor().execute<RowDataPacket[]>(
+      `SELECT ${USER_COLUMNS} FROM users WHERE id = ? LIMIT 1${lockClause(options)}`,
+      [id]
+    );
+
+    return rows.length > 0 ? mapRowToUser(rows[0] as UserRow) : null;
+  }
+
+  async create(data: NewUser): Promise<User> {
+    try {
+      const [result] = await this.executor().execute(
+        'INSERT INTO users (username, role, kyc_tier) VALUES (?, ?, ?)',
+        [data.username, data.role ?? 'customer', data.kyc_tier ?? 'basic']
+      );
+      return (await this.findById((result as { insertId: number }).insertId))!;
+    } catch (error) {
+      if (errorCode(error) === 'ER_DUP_ENTRY') {
+        throw new Error('Username already exists');
+      }
+      if (errorCode(error) === 'ER_NO_REFERENCED_ROW_2') {
+        throw new Error('KYC tier does not exist');
+      }
+      throw error;
+    }
+  }
+
+  async update(id: number, changes: UserChanges): Promise<void> {
+    const { sql, values } = setClause({ ...changes });
+    if (values.length === 0) {
+      return;
+    }
+
+    try {
+      await this.executor().execute(`UPDATE users SET ${sql} WHERE id = ?`, [...values, id]);
+    } catch (error) {
+      if (errorCode(error) === 'ER_NO_REFERENCED_ROW_2') {
+        throw new Error('KYC tier does not exist');
+      }
+      throw error;
+    }
+  }
+}
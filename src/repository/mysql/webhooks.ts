@@ -0,0 +1,254 @@
+import {
+  WebhookAttempt,
+  WebhookAttemptRow,
+  WebhookDelivery,
+  WebhookDeliveryFilters,
+  WebhookDeliveryRow,
+  WebhookDeliveryStatus,
+  WebhookEndpoint,
+  WebhookEndpointRecord,
+  WebhookEndpointRow,
+  WebhookEndpointStatus,
+  WebhookEventType
+} from '../../model/webhook';
+import {
+  LockOptions,
+  NewWebhookDelivery,
+  NewWebhookEndpoint,
+  WebhookAttemptOutcome,
+  WebhookDeliveryRepository,
+  WebhookEndpointRepository
+} from '../repositories';
+import { limitClause } from '../../utils/database';
+import { Executor, lockClause, parseJson } from './support';
+
+const DELIVERY_COLUMNS = 'd.*, e.endpoint_id AS public_endpoint_id';
+
+export class MySqlWebhookEndpointRepository implements WebhookEndpointRepository {
+  constructor(private readonly executor: () => Executor) {}
+
+  async insert(data: NewWebhookEndpoint): Promise<void> {
+    await this.executor().execute(
+      `INSERT INTO webhook_endpoints (endpoint_id, user_id, url, description, events, secret)
+       VALUES (?, ?, ?, ?, ?, ?)`,
+      [data.endpoint_id, data.user_id, data.url, data.description ?? null, JSON.stringify(data.events), data.secret]
+    );
+  }
+
+  async findByEndpointId(endpointId: string, options: LockOptions = {}): Promise<WebhookEndpointRecord | null> {
+    const [rows] = await this.executor().execute(
+      `SELECT * FROM webhook_endpoints WHERE endpoint_id = ?${lockClause(options)}`,
+      [endpointId]
+    );
+
+    const endpoints = rows as WebhookEndpointRow[];
+    return endpoints.length > 0 ? { ...this.mapRowToEndpoint(endpoints[0]), secret: endpoints[0].secret } : null;
+  }
+
+  async listForUser(userId: number): Promise<WebhookEndpoint[]> {
+    const [rows] = await this.executor().execute(
+      'SELECT * FROM webhook_endpoints WHERE user_id = ? ORDER BY id DESC',
+      [userId]
+    );
+
+    return (rows as WebhookEndpointRow[]).map(row => this.mapRowToEndpoint(row));
+  }
+
+  async countActive(userId: number): Promise<number> {
+    const [rows] = await this.executor().execute(
+      "SELECT COUNT(*) AS count FROM webhook_endpoints WHERE user_id = ? AND status = 'active'",
+      [userId]
+    );
+
+    return Number((rows as { count: number }[])[0].count);
+  }
+
+  async setStatus(endpointId: string, status: WebhookEndpointStatus): Promise<void> {
+    await this.executor().execute('UPDATE webhook_endpoints SET status = ? WHERE endpoint_id = ?', [status, endpointId]);
+  }
+
+  async listSubscribed(accountId: number, eventType: WebhookEventType): Promise<WebhookEndpoint[]> {
+    const [rows] = await this.executor().execute(
+      `SELECT e.* FROM webhook_endpoints e
+       JOIN accounts a ON a.user_id = e.user_id
+       WHERE a.id = ? AND e.status = 'active'
+       ORDER BY e.id`,
+      [accountId]
+    );
+
+    return (rows as WebhookEndpointRow[])
+      .map(row => this.mapRowToEndpoint(row))
+      .filter(endpoint => endpoint.events.includes(eventType));
+  }
+
+  /**
+   * Map a database row to a WebhookEndpoint object, leaving out the secret
+   * @param row - The raw database row (the JSON events column may arrive as a string)
+   */
+  private mapRowToEndpoint(row: WebhookEndpointRow): WebhookEndpoint {
+    return {
+      id: row.id,
+      endpoint_id: row.endpoint_id,
+      user_id: row.user_id,
+      url: row.url,
+      description: row.description,
+      events: parseJson(row.events),
+      status: row.status as WebhookEndpointStatus,
+      created_at: row.created_at,
+      updated_at: row.updated_at
+    };
+  }
+}
+
+export class MySqlWebhookDeliveryRepository implements WebhookDeliveryRepository {
+  constructor(private readonly executor: () => Executor) {}
+
+  async insert(data: NewWebhookDelivery): Promise<void> {
+    // The unique (endpoint_id, event_id) key makes queueing the same event twice a no-op
+    await this.executor().execute(
+      `INSERT IGNORE INTO webhook_deliveries (delivery_id, endpoint_id, event_id, event_type, payload)
+       VALUES (?, ?, ?, ?, ?)`,
+      [data.delivery_id, data.endpoint_id, data.event_id, data.event_type, JSON.stringify(data.payload)]
+    );
+  }
+
+  async find(endpointId: string, deliveryId: string, options: LockOptions = {}): Promise<WebhookDelivery | null> {
+    const [rows] = await this.executor().execute(
+      `SELECT ${DELIVERY_COLUMNS}
+       FROM webhook_deliveries d
+       JOIN webhook_endpoints e ON e.id = d.endpoint_id
+       WHERE e.endpoint_id = ? AND d.delivery_id = ?${options.forUpdate ? ' FOR UPDATE OF d' : ''}`,
+      [endpointId, deliveryId]
+    );
+
+    const deliveries = rows as WebhookDeliveryRow[];
+    return deliveries.length > 0 ? this.mapRowToDelivery(deliveries[0]) : null;
+  }
+
+  async listForEndpoint(endpointId: string, filters: WebhookDeliveryFilters): Promise<WebhookDelivery[]> {
+    const params: (string | number)[] = [endpointId];
+    let statusCondition = '';
+    if (filters.status) {
+      statusCondition = 'AND d.status = ?';
+      params.push(filters.status);
+    }
+
+    const [rows] = await this.executor().execute(
+      `SELECT ${DELIVERY_COLUMNS}
+       FROM webhook_deliveries d
+       JOIN webhook_endpoints e ON e.id = d.endpoint_id
+       WHERE e.endpoint_id = ? ${statusCondition}
+       ORDER BY d.id DESC
+       ${limitClause(filters.limit)}`,
+      params
+    );
+
+    return (rows as WebhookDeliveryRow[]).map(row => this.mapRowToDelivery(row));
+  }
+
+  async listDue(limit: number): Promise<WebhookDelivery[]> {
+    const [rows] = await this.executor().execute(
+      `SELECT ${DELIVERY_COLUMNS}
+       FROM webhook_deliveries d
+       JOIN webhook_endpoints e ON e.id = d.endpoint_id
+       WHERE d.status = 'pending' AND d.next_attempt_at <= NOW() AND e.status = 'active'
+         AND (d.locked_until IS NULL OR d.locked_until < NOW())
+       ORDER BY d.next_attempt_at
+       ${limitClause(limit)}
+       FOR UPDATE OF d SKIP LOCKED`
+    );
+
+    return (rows as WebhookDeliveryRow[]).map(row => this.mapRowToDelivery(row));
+  }
+
+  async lease(id: number, workerId: string, seconds: number): Promise<void> {
+    await this.executor().execute(
+      'UPDATE webhook_deliveries SET locked_by = ?, locked_until = DATE_ADD(NOW(), INTERVAL ? SECOND) WHERE id = ?',
+      [workerId, seconds, id]
+    );
+  }
+
+  async recordAttempt(
+    id: number,
+    attempt: Omit<WebhookAttempt, 'attempted_at'>,
+    outcome: WebhookAttemptOutcome
+  ): Promise<void> {
+    await this.executor().execute(
+      `INSERT INTO webhook_attempts (delivery_id, response_status, error, duration_ms, succeeded)
+       VALUES (?, ?, ?, ?, ?)`,
+      [id, attempt.response_status, attempt.error, attempt.duration_ms, attempt.succeeded]
+    );
+
+    if (outcome.status === 'pending') {
+      await this.executor().execute(
+        `UPDATE webhook_deliveries
+         SET attempt_count = ?, last_attempt_at = NOW(), next_attempt_at = DATE_ADD(NOW(), INTERVAL ? SECOND),
+             locked_by = NULL, locked_until = NULL
+         WHERE id = ?`,
+        [outcome.attempt_count, outcome.retry_in_seconds ?? 0, id]
+      );
+      return;
+    }
+
+    await this.executor().execute(
+      `UPDATE webhook_deliveries
+       SET status = ?, attempt_count = ?, last_attempt_at = NOW(),
+           delivered_at = ${outcome.status === 'delivered' ? 'NOW()' : 'delivered_at'},
+           next_attempt_at = NULL, locked_by = NULL, locked_until = NULL
+       WHERE id = ?`,
+      [outcome.status, outcome.attempt_count, id]
+    );
+  }
+
+  async listAttempts(id: number): Promise<WebhookAttempt[]> {
+    const [rows] = await this.executor().execute(
+      'SELECT * FROM webhook_attempts WHERE delivery_id = ? ORDER BY id',
+      [id]
+    );
+
+    return (rows as WebhookAttemptRow[]).map(row => this.mapRowToAttempt(row));
+  }
+
+  async requeue(id: number): Promise<void> {
+    await this.executor().execute(
+      `UPDATE webhook_deliveries
+       SET status = 'pending', attempt_count = 0, next_attempt_at = NOW(), locked_by = NULL, locked_until = NULL
+       WHERE id = ?`,
+      [id]
+    );
+  }
+
+  /**
+   * Map a database row to a WebhookDelivery object
+   * @param row - The raw database row joined with its endpoint's public ID
+   */
+  private mapRowToDelivery(row: WebhookDeliveryRow): WebhookDelivery {
+    return {
+      id: row.id,
+      delivery_id: row.delivery_id,
+      endpoint_id: row.public_endpoint_id,
+      event_id: row.event_id,
+      event_type: row.event_type as WebhookEventType,
+      payload: parseJson(row.payload),
+      status: row.status as WebhookDeliveryStatus,
+      attempt_count: row.attempt_count,
+      next_attempt_at: row.next_attempt_at,
+      last_attempt_at: row.last_attempt_at,
+      delivered_at: row.delivered_at,
+      created_at: row.created_at
+    };
+  }
+
+  /**
+   * Map a database row to a WebhookAttempt object
+   */
+  private mapRowToAttempt(row: WebhookAttemptRow): WebhookAttempt {
+    return {
+      response_status: row.response_status,
+      error: row.error,
+      duration_ms: row.duration_ms,
+      succeeded: Boolean(row.succeeded),
+      attempted_at: row.attempted_at
+    };
+  }
+}
@@ -0,0 +1,747 @@
+/**
+ * Repository interfaces - the storage contracts behind every service
+ * Every backend (MySQL, SQLite, in-memory) implements these with the same semantics; the contract
+ * suite in test/storage.test.ts checks them against each other
+ */
+
+import { StorageBackend } from '../config/storage';
+import { Money } from '../utils/money';
+import { User, UserRole } from '../model/user';
+import { Account, AccountStatus } from '../model/account';
+import { LedgerPosting, LedgerSummary } from '../model/ledger';
+import {
+  AccountBalance,
+  AccountSummary,
+  AccountTransaction,
+  FailedTransactionSummary,
+  Transaction,
+  TransactionHistoryFilters,
+  TransactionStatus,
+  TransactionType
+} from '../model/transaction';
+import { IdempotencyRecord, IdempotentResponse } from '../model/idempotency';
+import { LimitedTransactionType, LimitUsage, TransactionLimit } from '../model/limit';
+import { FraudReview, ReviewStatus, RuleHit } from '../model/fraud';
+import { ChainedTransaction, ChainHead, LinkedTransaction } from '../model/transactionChain';
+import { DomainEvent, DomainEventType, OutboxEvent } from '../model/outbox';
+import { AuditEntry, AuditQuery } from '../model/audit';
+import { ApiKeyRecord } from '../model/apiKey';
+import { Hold, HoldStatus } from '../model/hold';
+import { StatementEntry } from '../model/statement';
+import { Schedule, ScheduleFrequency, ScheduleRun, ScheduleStatus } from '../model/schedule';
+import {
+  WebhookAttempt,
+  WebhookDelivery,
+  WebhookDeliveryFilters,
+  WebhookDeliveryStatus,
+  WebhookEndpoint,
+  WebhookEndpointRecord,
+  WebhookEndpointStatus,
+  WebhookEventType
+} from '../model/webhook';
+import {
+  PaymentBatch,
+  PaymentBatchMode,
+  PaymentBatchStatus,
+  PaymentBatchLine,
+  PaymentFileFormat,
+  PaymentLineStatus
+} from '../model/paymentBatch';
+
+// KYC tiers seeded by migrations/011_transaction_limits.sql; the other backends start with the same set
+export const KYC_TIER_CODES = ['basic', 'verified', 'enhanced'];
+
+// Limits seeded by migrations/011_transaction_limits.sql, as [tier, type, per transaction, daily per
+// account, monthly per account, daily per user, monthly per user]
+export const DEFAULT_TRANSACTION_LIMITS: [string, LimitedTransactionType, string, string, string, string, string][] = [
+  ['basic', 'deposit', '1000.00', '2000.00', '10000.00', '3000.00', '15000.00'],
+  ['basic', 'withdrawal', '500.00', '1000.00', '5000.00', '1500.00', '7500.00'],
+  ['basic', 'transfer', '1000.00', '2000.00', '10000.00', '3000.00', '15000.00'],
+  ['verified', 'deposit', '10000.00', '20000.00', '100000.00', '30000.00', '150000.00'],
+  ['verified', 'withdrawal', '5000.00', '10000.00', '50000.00', '15000.00', '75000.00'],
+  ['verified', 'transfer', '10000.00', '20000.00', '100000.00', '30000.00', '150000.00'],
+  ['enhanced', 'deposit', '100000.00', '250000.00', '1000000.00', '500000.00', '2000000.00'],
+  ['enhanced', 'withdrawal', '100000.00', '250000.00', '1000000.00', '500000.00', '2000000.00'],
+  ['enhanced', 'transfer', '100000.00', '250000.00', '1000000.00', '500000.00', '2000000.00']
+];
+
+export interface LockOptions {
+  // Lock the row until the session ends (SELECT ... FOR UPDATE on MySQL)
+  forUpdate?: boolean;
+}
+
+export interface NewUser {
+  username: string;
+  role?: UserRole;
+  kyc_tier?: string;
+}
+
+export interface UserChanges {
+  role?: UserRole;
+  kyc_tier?: string;
+  require_signed_requests?: boolean;
+}
+
+export interface NewAccount {
+  user_id: number;
+  account_number: string;
+}
+
+export interface AccountChanges {
+  status?: AccountStatus;
+  frozen_by?: number | null;
+  closed_at?: Date | null;
+}
+
+export interface NewTransaction {
+  transaction_id: string;
+  type: TransactionType;
+  amount: Money;
+  source_account_id?: number;
+  destination_account_id?: number;
+  original_transaction_id?: string;
+  batch_id?: string;
+  status: TransactionStatus;
+  failure_reason?: string;
+}
+
+export interface TransactionChanges {
+  status?: TransactionStatus;
+  failure_reason?: string | null;
+  reversed_amount?: Money;
+}
+
+// Account history filters with the cursor already decoded into the ID to continue below
+export interface AccountHistoryQuery extends Omit<TransactionHistoryFilters, 'cursor'> {
+  before_id?: number;
+}
+
+// Outgoing transactions of an account in a recent window, for fraud screening
+export interface OutgoingQuery {
+  within_minutes: number;
+  type?: TransactionType;
+  // Only amounts that are a whole multiple of this one
+  multiple_of?: Money;
+}
+
+export interface NewIdempotencyKey {
+  user_id: number;
+  key: string;
+  fingerprint: string;
+  ttl_seconds: number;
+}
+
+export interface NewFraudReview {
+  review_id: string;
+  transaction_id: string;
+  rule_hits: RuleHit[];
+}
+
+export interface ReviewDecision {
+  status: 'approved' | 'rejected';
+  reviewed_by: number;
+  review_note: string | null;
+}
+
+export interface ChainLink {
+  sequence: number;
+  prev_hash: string;
+  row_hash: string;
+}
+
+export interface NewOutboxEvent {
+  account_id: number;
+  event: DomainEvent;
+}
+
+export type NewAuditEntry = Omit<AuditEntry, 'id' | 'created_at'>;
+
+// Audit filters with the cursor already decoded into the ID to continue below
+export interface AuditLogQuery extends Omit<AuditQuery, 'cursor'> {
+  before_id?: number;
+}
+
+export interface NewApiKey {
+  key_id: string;
+  user_id: number;
+  label: string;
+  salt: string;
+  secret_hash: string;
+  signing_secret: string | null;
+  require_signature: boolean;
+  expires_at: Date | null;
+  rotated_from: string | null;
+}
+
+export interface ApiKeyChanges {
+  require_signature?: boolean;
+  revoked_at?: Date;
+}
+
+export interface NewHold {
+  hold_id: string;
+  account_id: number;
+  destination_account_id?: number;
+  amount: Money;
+  expires_in_seconds: number;
+}
+
+export interface HoldChanges {
+  status?: HoldStatus;
+  captured_amount?: Money | null;
+  transaction_id?: string;
+}
+
+export interface NewSchedule {
+  schedule_id: string;
+  user_id: number;
+  source_account_id: number;
+  destination_account_id: number;
+  amount: Money;
+  frequency: ScheduleFrequency;
+  start_at: Date;
+  end_at?: Date;
+}
+
+export interface ScheduleChanges {
+  status?: ScheduleStatus;
+  next_run_at?: Date | null;
+}
+
+export interface NewScheduleRun {
+  scheduled_for: Date;
+  transaction_id?: string;
+  status: 'completed' | 'failed';
+  failure_reason?: string;
+}
+
+export interface NewWebhookEndpoint {
+  endpoint_id: string;
+  user_id: number;
+  url: string;
+  description?: string;
+  events: WebhookEventType[];
+  // Sealed with the signing encryption key
+  secret: string;
+}
+
+export interface NewWebhookDelivery {
+  delivery_id: string;
+  endpoint_id: number;
+  event_id: string;
+  event_type: WebhookEventType;
+  payload: DomainEvent;
+}
+
+// Where a delivery goes after an attempt; retry_in_seconds is required while it stays pending
+export interface WebhookAttemptOutcome {
+  status: WebhookDeliveryStatus;
+  attempt_count: number;
+  retry_in_seconds?: number;
+}
+
+export interface NewPaymentBatchLine {
+  line_number: number;
+  reference: string | null;
+  type: string | null;
+  amount: Money | null;
+  source_account_id: number | null;
+  destination_account_id: number | null;
+  status: 'valid' | 'invalid';
+  error: string | null;
+}
+
+export interface NewPaymentBatch {
+  batch_id: string;
+  user_id: number;
+  file_format: PaymentFileFormat;
+  file_reference: string | null;
+  mode: PaymentBatchMode;
+  valid_line_count: number;
+  total_amount: Money;
+  lines: NewPaymentBatchLine[];
+}
+
+export interface PaymentBatchChanges {
+  status: PaymentBatchStatus;
+  confirmed_at?: Date;
+  completed_at?: Date;
+}
+
+export interface PaymentLineOutcome {
+  status: PaymentLineStatus;
+  error: string | null;
+  transaction_id: string | null;
+}
+
+export interface UserRepository {
+  /**
+   * @returns The user, or null if it does not exist
+   */
+  findById(id: number, options?: LockOptions): Promise<User | null>;
+
+  /**
+   * @throws Error 'Username already exists' or 'KYC tier does not exist'
+   */
+  create(data: NewUser): Promise<User>;
+
+  /**
+   * @throws Error 'KYC tier does not exist'
+   */
+  update(id: number, changes: UserChanges): Promise<void>;
+}
+
+export interface AccountRepository {
+  /**
+   * @returns The account, or null if it does not exist
+   */
+  findById(id: number, options?: LockOptions): Promise<Account | null>;
+
+  findByAccountNumber(accountNumber: string): Promise<Account | null>;
+
+  /**
+   * @returns The user's accounts ordered by ID
+   */
+  listForUser(userId: number): Promise<Account[]>;
+
+  /**
+   * Create an active account with a zero balance
+   * @throws Error 'Account number already exists' or 'User does not exist'
+   */
+  create(data: NewAccount): Promise<Account>;
+
+  update(id: number, changes: AccountChanges): Promise<void>;
+
+  /**
+   * The ledger balance and what is left of it after active authorization holds
+   * @returns The balances, or null if the account does not exist
+   */
+  getBalance(id: number): Promise<AccountBalance | null>;
+}
+
+export interface TransactionRepository {
+  findByTransactionId(transactionId: string, options?: LockOptions): Promise<Transaction | null>;
+
+  /**
+   * @returns The legs of a batch ordered by ID, empty if no transaction carries the batch ID
+   */
+  findByBatchId(batchId: string): Promise<Transaction[]>;
+
+  /**
+   * Record a transaction with the current balances of its accounts as their balances after it;
+   * recordJournalEntry replaces them once its money moves
+   */
+  insert(record: NewTransaction): Promise<void>;
+
+  update(transactionId: string, changes: TransactionChanges): Promise<void>;
+
+  /**
+   * Record a balanced journal entry, apply its postings to customer account balances and store
+   * the resulting balances on the transaction
+   * Callers must already hold the locks of every customer account in the postings
+   * @throws Error if the postings do not sum to zero
+   */
+  recordJournalEntry(transactionId: string, description: string, postings: LedgerPosting[]): Promise<void>;
+
+  /**
+   * Transactions touching an account, newest first, each with its signed effect on the account and
+   * the balance the account had right after it settled. The balance is stored at settlement, so a
+   * transaction settled late (after fraud review) never changes the balances shown for older rows
+   * @returns At most query.limit rows
+   */
+  listForAccount(accountId: number, query: AccountHistoryQuery): Promise<AccountTransaction[]>;
+
+  /**
+   * Count the transactions an account sent recently that were not rejected
+   */
+  countOutgoing(sourceAccountId: number, query: OutgoingQuery): Promise<number>;
+
+  /**
+   * Whether the source has ever sent a transfer to the destination that was not rejected
+   */
+  hasTransferred(sourceAccountId: number, destinationAccountId: number): Promise<boolean>;
+
+  /**
+   * Sum the transactions of one type that moved money in the last day and the last 30 days,
+   * charged to one account or to every account of a user
+   * Deposits are charged to their destination, withdrawals and transfers to their source
+   */
+  getUsage(type: LimitedTransactionType, scope: 'account' | 'user', id: number): Promise<LimitUsage>;
+
+  /**
+   * The sum of an account's postings in journal entries booked before a point in time
+   */
+  getPostedBalance(accountId: number, before: Date): Promise<Money>;
+
+  /**
+   * Journal entries booked on an account in [from, to), in booking order, with the account's
+   * postings summed per entry and the transaction that caused the entry
+   */
+  listJournalEntries(accountId: number, from: Date, to: Date): Promise<StatementEntry[]>;
+
+  /**
+   * Every account with its owner, balance and largest transaction that moved money
+   */
+  summarizeAccounts(): Promise<AccountSummary[]>;
+
+  /**
+   * Failed transactions counted by failure reason
+   */
+  summarizeFailures(): Promise<FailedTransactionSummary[]>;
+
+  /**
+   * Every account's stored balance next to the sum of its journal postings, and the journal
+   * entries whose postings do not sum to zero
+   */
+  summarizeLedger(): Promise<LedgerSummary>;
+}
+
+export interface IdempotencyKeyRepository {
+  /**
+   * @returns The unexpired key, or null if it was never used or has expired
+   */
+  find(userId: number, key: string, options?: LockOptions): Promise<IdempotencyRecord | null>;
+
+  /**
+   * Reserve a key, replacing an expired reservation of it
+   * On MySQL a concurrent claim of the same key waits until this session ends
+   * @throws Error 'Idempotency key is already in use' if an unexpired reservation exists
+   */
+  claim(data: NewIdempotencyKey): Promise<void>;
+
+  /**
+   * Store the response that replays of the key receive
+   */
+  complete(userId: number, key: string, response: IdempotentResponse, transactionId: string | null): Promise<void>;
+}
+
+export interface LimitRepository {
+  /**
+   * @returns The limits of a tier for one transaction type, or null if none are configured
+   */
+  find(tier: string, type: LimitedTransactionType): Promise<TransactionLimit | null>;
+}
+
+export interface FraudReviewRepository {
+  insert(data: NewFraudReview): Promise<void>;
+
+  findByReviewId(reviewId: string, options?: LockOptions): Promise<FraudReview | null>;
+
+  /**
+   * @returns Reviews in the status, oldest first
+   */
+  listByStatus(status: ReviewStatus, limit: number): Promise<FraudReview[]>;
+
+  /**
+   * Record a reviewer's decision, stamped with the current time
+   */
+  decide(reviewId: string, decision: ReviewDecision): Promise<void>;
+}
+
+export interface TransactionChainRepository {
+  /**
+   * The last link of the chain, or sequence 0 with the genesis hash while it is empty
+   */
+  getHead(options?: LockOptions): Promise<ChainHead>;
+
+  /**
+   * @returns The transaction with its link, or null if it does not exist
+   */
+  findTransaction(transactionId: string): Promise<ChainedTransaction | null>;
+
+  /**
+   * @returns Final transactions that are not linked yet, oldest first
+   */
+  listUnlinked(limit: number): Promise<ChainedTransaction[]>;
+
+  countUnlinked(): Promise<number>;
+
+  /**
+   * Linked transactions after a chain position, in chain order, each with the sum of its linked
+   * completed reversals
+   */
+  listLinked(afterSequence: number, limit: number): Promise<LinkedTransaction[]>;
+
+  /**
+   * Store a transaction's link and make it the head of the chain
+   */
+  link(transactionId: string, link: ChainLink): Promise<void>;
+}
+
+export interface OutboxRepository {
+  insert(data: NewOutboxEvent): Promise<void>;
+
+  /**
+   * @returns Events not published yet, in the order they were written
+   */
+  listUnpublished(limit: number): Promise<OutboxEvent[]>;
+
+  /**
+   * Mark an event published at a sequence number, stamped with the current time
+   */
+  markPublished(id: number, sequence: number): Promise<void>;
+
+  /**
+   * The sequence number of the most recently published event (0 if none)
+   * Locking it serializes relays
+   */
+  getLastSequence(options?: LockOptions): Promise<number>;
+
+  setLastSequence(sequence: number): Promise<void>;
+
+  /**
+   * @returns Published events after a sequence number, in sequence order
+   */
+  listPublished(afterSequence: number, limit: number, accountId?: number): Promise<OutboxEvent[]>;
+}
+
+/**
+ * The audit log is append-only: there is deliberately no way to change or remove an entry
+ */
+export interface AuditLogRepository {
+  insert(entry: NewAuditEntry): Promise<void>;
+
+  /**
+   * @returns Matching entries, newest first, at most query.limit of them
+   */
+  list(query: AuditLogQuery): Promise<AuditEntry[]>;
+
+  findByAuditId(auditId: string): Promise<AuditEntry | null>;
+}
+
+export interface ApiKeyRepository {
+  /**
+   * @returns An unexpired, unrevoked key with its user, or null
+   */
+  findActiveWithUser(keyId: string): Promise<{ key: ApiKeyRecord; user: User } | null>;
+
+  findByKeyId(keyId: string, options?: LockOptions): Promise<ApiKeyRecord | null>;
+
+  /**
+   * @returns The user's keys, newest first, including expired and revoked ones
+   */
+  listForUser(userId: number): Promise<ApiKeyRecord[]>;
+
+  /**
+   * Count the user's keys that are neither revoked nor expired
+   * @param options - signing to count only keys issued with a signing secret
+   */
+  countActive(userId: number, options?: { signing?: boolean }): Promise<number>;
+
+  /**
+   * @throws Error 'API key ID already exists'
+   */
+  insert(data: NewApiKey): Promise<void>;
+
+  update(id: number, changes: ApiKeyChanges): Promise<void>;
+
+  /**
+   * Make a key expire within the given number of seconds, unless it expires sooner already
+   */
+  expireWithin(id: number, seconds: number): Promise<void>;
+
+  /**
+   * Record that a key was used, at most once a minute
+   */
+  touch(id: number): Promise<void>;
+
+  /**
+   * Remember a request nonce of a key until it expires, forgetting the key's expired nonces
+   * @throws Error 'Request nonce has already been used'
+   */
+  consumeNonce(keyId: string, nonce: string, expiresAt: Date): Promise<void>;
+}
+
+export interface HoldRepository {
+  /**
+   * @returns The hold with its stored status, or null if it does not exist
+   */
+  findByHoldId(holdId: string, options?: LockOptions): Promise<Hold | null>;
+
+  insert(data: NewHold): Promise<void>;
+
+  update(holdId: string, changes: HoldChanges): Promise<void>;
+}
+
+export interface ScheduleRepository {
+  insert(data: NewSchedule): Promise<void>;
+
+  findByScheduleId(scheduleId: string, options?: LockOptions): Promise<Schedule | null>;
+
+  /**
+   * @returns The user's schedules, newest first
+   */
+  listForUser(userId: number): Promise<Schedule[]>;
+
+  update(id: number, changes: ScheduleChanges): Promise<void>;
+
+  /**
+   * Active schedules that are due and not leased, soonest first
+   * On MySQL the rows are locked, skipping rows other sessions hold
+   */
+  listDue(limit: number): Promise<Schedule[]>;
+
+  /**
+   * Lease a schedule to a worker for a number of seconds
+   */
+  lease(id: number, workerId: string, seconds: number): Promise<void>;
+
+  /**
+   * Count a run and move a schedule leased by the worker to its next occurrence, releasing the
+   * lease; an active schedule without a next occurrence is completed
+   */
+  advance(id: number, workerId: string, nextRunAt: Date | null): Promise<void>;
+
+  /**
+   * Cancel the active and paused schedules that pay into or out of an account
+   */
+  cancelForAccount(accountId: number): Promise<void>;
+
+  /**
+   * Record an occurrence; recording the same occurrence again is a no-op
+   */
+  insertRun(id: number, run: NewScheduleRun): Promise<void>;
+
+  findRun(id: number, scheduledFor: Date): Promise<ScheduleRun | null>;
+
+  /**
+   * @returns The schedule's runs, newest occurrence first
+   */
+  listRuns(id: number): Promise<ScheduleRun[]>;
+}
+
+export interface WebhookEndpointRepository {
+  insert(data: NewWebhookEndpoint): Promise<void>;
+
+  findByEndpointId(endpointId: string, options?: LockOptions): Promise<WebhookEndpointRecord | null>;
+
+  /**
+   * @returns The user's endpoints, newest first
+   */
+  listForUser(userId: number): Promise<WebhookEndpoint[]>;
+
+  countActive(userId: number): Promise<number>;
+
+  setStatus(endpointId: string, status: WebhookEndpointStatus): Promise<void>;
+
+  /**
+   * @returns The active endpoints of the account's owner that receive the event type
+   */
+  listSubscribed(accountId: number, eventType: WebhookEventType): Promise<WebhookEndpoint[]>;
+}
+
+export interface WebhookDeliveryRepository {
+  /**
+   * Queue a delivery; queueing the same event for the same endpoint again is a no-op
+   */
+  insert(data: NewWebhookDelivery): Promise<void>;
+
+  find(endpointId: string, deliveryId: string, options?: LockOptions): Promise<WebhookDelivery | null>;
+
+  /**
+   * @returns The endpoint's deliveries, newest first
+   */
+  listForEndpoint(endpointId: string, filters: WebhookDeliveryFilters): Promise<WebhookDelivery[]>;
+
+  /**
+   * Pending deliveries of active endpoints that are due and not leased, soonest first
+   * On MySQL the rows are locked, skipping rows other sessions hold
+   */
+  listDue(limit: number): Promise<WebhookDelivery[]>;
+
+  /**
+   * Lease a delivery to a worker for a number of seconds
+   */
+  lease(id: number, workerId: string, seconds: number): Promise<void>;
+
+  /**
+   * Record an attempt, stamped with the current time, and move the delivery to its outcome,
+   * releasing the lease
+   */
+  recordAttempt(id: number, attempt: Omit<WebhookAttempt, 'attempted_at'>, outcome: WebhookAttemptOutcome): Promise<void>;
+
+  /**
+   * @returns The delivery's attempts, oldest first
+   */
+  listAttempts(id: number): Promise<WebhookAttempt[]>;
+
+  /**
+   * Make a delivery pending and due now with no attempts counted
+   */
+  requeue(id: number): Promise<void>;
+}
+
+export interface PaymentBatchRepository {
+  /**
+   * Store a previewed batch with its lines
+   */
+  insert(data: NewPaymentBatch): Promise<void>;
+
+  findByBatchId(batchId: string, options?: LockOptions): Promise<PaymentBatch | null>;
+
+  /**
+   * @returns The user's most recent batches, newest first
+   */
+  listForUser(userId: number, limit: number): Promise<PaymentBatch[]>;
+
+  /**
+   * @returns Best-effort batches still processing, oldest first
+   */
+  listProcessing(): Promise<PaymentBatch[]>;
+
+  update(id: number, changes: PaymentBatchChanges): Promise<void>;
+
+  /**
+   * @returns The batch's lines in line order, optionally only those in one status
+   */
+  listLines(id: number, status?: PaymentLineStatus): Promise<PaymentBatchLine[]>;
+
+  findLine(id: number, lineNumber: number, options?: LockOptions): Promise<PaymentBatchLine | null>;
+
+  /**
+   * Record the outcome of a line
+   * @param expected - Only change the line while it is still in this status
+   */
+  updateLine(id: number, lineNumber: number, outcome: PaymentLineOutcome, expected?: PaymentLineStatus): Promise<void>;
+}
+
+export interface Repositories {
+  users: UserRepository;
+  accounts: AccountRepository;
+  transactions: TransactionRepository;
+  idempotencyKeys: IdempotencyKeyRepository;
+  limits: LimitRepository;
+  fraudReviews: FraudReviewRepository;
+  transactionChain: TransactionChainRepository;
+  outbox: OutboxRepository;
+  auditLog: AuditLogRepository;
+  apiKeys: ApiKeyRepository;
+  holds: HoldRepository;
+  schedules: ScheduleRepository;
+  webhookEndpoints: WebhookEndpointRepository;
+  webhookDeliveries: WebhookDeliveryRepository;
+  paymentBatches: PaymentBatchRepository;
+}
+
+/**
+ * Repositories bound to one open database transaction
+ */
+export type StorageSession = Repositories;
+
+export interface Storage {
+  readonly backend: StorageBackend;
+
+  // Repositories outside any transaction; every call reads or writes committed data on its own
+  readonly repositories: Repositories;
+
+  initialize(): Promise<void>;
+
+  /**
+   * Run work in one database transaction, committing if it resolves and rolling back if it throws
+   * On SQLite and in memory transactions run one at a time, and repositories() must not be used
+   * inside one: it waits for the transaction to finish
+   */
+  transaction<T>(work: (session: StorageSession) => Promise<T>): Promise<T>;
+
+  close(): Promise<void>;
+}
@@ -0,0 +1,95 @@
+import { Money } from '../../utils/money';
+import { Account, AccountStatus } from '../../model/account';
+import { AccountBalance } from '../../model/transaction';
+import { AccountChanges, AccountRepository, NewAccount } from '../repositories';
+import { Scope, all, get, rethrowConstraint, run, update } from './support';
+
+interface SqliteAccountRow {
+  id: number;
+  user_id: number;
+  account_number: string;
+  balance: number;
+  status: string;
+  frozen_by: number | null;
+  closed_at: number | null;
+  created_at: number;
+  updated_at: number;
+}
+
+export class SqliteAccountRepository implements AccountRepository {
+  constructor(private readonly scope: Scope) {}
+
+  findById(id: number): Promise<Account | null> {
+    return this.scope(database => {
+      const row = get<SqliteAccountRow>(database, 'SELECT * FROM accounts WHERE id = ?', [id]);
+      return row ? this.mapRowToAccount(row) : null;
+    });
+  }
+
+  findByAccountNumber(accountNumber: string): Promise<Account | null> {
+    return this.scope(database => {
+      const row = get<SqliteAccountRow>(database, 'SELECT * FROM accounts WHERE account_number = ?', [accountNumber]);
+      return row ? this.mapRowToAccount(row) : null;
+    });
+  }
+
+  listForUser(userId: number): Promise<Account[]> {
+    return this.scope(database =>
+      all<SqliteAccountRow>(database, 'SELECT * FROM accounts WHERE user_id = ? ORDER BY id', [userId])
+        .map(row => this.mapRowToAccount(row))
+    );
+  }
+
+  create(data: NewAccount): Promise<Account> {
+    return this.scope(database => {
+      const now = Date.now();
+      try {
+        const id = run(
+          database,
+          'INSERT INTO accounts (account_number, user_id, created_at, updated_at) VALUES (?, ?, ?, ?)',
+          [data.account_number, data.user_id, now, now]
+        );
+        return this.mapRowToAccount(get<SqliteAccountRow>(database, 'SELECT * FROM accounts WHERE id = ?', [id])!);
+      } catch (error) {
+        rethrowConstraint(error, { unique: 'Account number already exists', foreignKey: 'User does not exist' });
+      }
+    });
+  }
+
+  update(id: number, changes: AccountChanges): Promise<void> {
+    return this.scope(database => {
+      update(database, 'accounts', 'id', id, { ...changes, updated_at: Date.now() });
+    });
+  }
+
+  getBalance(id: number): Promise<AccountBalance | null> {
+    return this.scope(database => {
+      const row = get<{ balance: number; available_balance: number }>(database, `
+        SELECT a.balance, a.balance - COALESCE((
+          SELECT SUM(h.amount) FROM holds h
+          WHERE h.account_id = a.id AND h.status = 'held' AND h.expires_at > ?
+        ), 0) AS available_balance
+        FROM accounts a
+        WHERE a.id = ?
+      `, [Date.now(), id]);
+
+      return row
+        ? { balance: Money.fromMinorUnits(row.balance), available_balance: Money.fromMinorUnits(row.available_balance) }
+        : null;
+    });
+  }
+
+  private mapRowToAccount(row: SqliteAccountRow): Account {
+    return {
+      id: row.id,
+      user_id: row.user_id,
+      account_number: row.account_number,
+      balance: Money.fromMinorUnits(row.balance),
+      status: row.status as AccountStatus,
+      frozen_by: row.frozen_by,
+      closed_at: row.closed_at === null ? null : new Date(row.closed_at),
+      created_at: new Date(row.created_at),
+      updated_at: new Date(row.updated_at)
+    };
+  }
+}
@@ -0,0 +1,136 @@
+import { User } from '../../model/user';
+import { ApiKeyRecord } from '../../model/apiKey';
+import { ApiKeyChanges, ApiKeyRepository, NewApiKey } from '../repositories';
+import { Scope, SqliteUserRow, all, get, mapRowToUser, rethrowConstraint, run, toDate, update } from './support';
+
+interface SqliteApiKeyRow {
+  id: number;
+  key_id: string;
+  user_id: number;
+  label: string;
+  salt: string;
+  secret_hash: string;
+  signing_secret: string | null;
+  require_signature: number;
+  expires_at: number | null;
+  revoked_at: number | null;
+  last_used_at: number | null;
+  rotated_from: string | null;
+  created_at: number;
+}
+
+// A key is active while it is neither revoked nor expired
+const ACTIVE = 'revoked_at IS NULL AND (expires_at IS NULL OR expires_at > ?)';
+
+export class SqliteApiKeyRepository implements ApiKeyRepository {
+  constructor(private readonly scope: Scope) {}
+
+  findActiveWithUser(keyId: string): Promise<{ key: ApiKeyRecord; user: User } | null> {
+    return this.scope(database => {
+      const key = get<SqliteApiKeyRow>(database, `SELECT * FROM api_keys WHERE key_id = ? AND ${ACTIVE}`, [keyId, Date.now()]);
+      if (!key) {
+        return null;
+      }
+
+      const user = get<SqliteUserRow>(database, 'SELECT * FROM users WHERE id = ?', [key.user_id])!;
+      return { key: this.mapRowToKey(key), user: mapRowToUser(user) };
+    });
+  }
+
+  findByKeyId(keyId: string): Promise<ApiKeyRecord | null> {
+    return this.scope(database => {
+      const row = get<SqliteApiKeyRow>(database, 'SELECT * FROM api_keys WHERE key_id = ?', [keyId]);
+      return row ? this.mapRowToKey(row) : null;
+    });
+  }
+
+  listForUser(userId: number): Promise<ApiKeyRecord[]> {
+    return this.scope(database =>
+      all<SqliteApiKeyRow>(database, 'SELECT * FROM api_keys WHERE user_id = ? ORDER BY created_at DESC, id DESC', [userId])
+        .map(row => this.mapRowToKey(row))
+    );
+  }
+
+  countActive(userId: number, options: { signing?: boolean } = {}): Promise<number> {
+    return this.scope(database =>
+      get<{ count: number }>(database, `
+        SELECT COUNT(*) AS count FROM api_keys
+        WHERE user_id = ?${options.signing ? ' AND signing_secret IS NOT NULL' : ''} AND ${ACTIVE}
+      `, [userId, Date.now()])!.count
+    );
+  }
+
+  insert(data: NewApiKey): Promise<void> {
+    return this.scope(database => {
+      try {
+        run(
+          database,
+          `INSERT INTO api_keys
+             (key_id, user_id, label, salt, secret_hash, signing_secret, require_signature, expires_at, rotated_from, created_at)
+           VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+          [
+            data.key_id,
+            data.user_id,
+            data.label,
+            data.salt,
+            data.secret_hash,
+            data.signing_secret,
+            data.require_signature,
+            data.expires_at,
+            data.rotated_from,
+            Date.now()
+          ]
+        );
+      } catch (error) {
+        rethrowConstraint(error, { unique: 'API key ID already exists' });
+      }
+    });
+  }
+
+  update(id: number, changes: ApiKeyChanges): Promise<void> {
+    return this.scope(database => {
+      update(database, 'api_keys', 'id', id, { ...changes });
+    });
+  }
+
+  expireWithin(id: number, seconds: number): Promise<void> {
+    return this.scope(database => {
+      const deadline = Date.now() + seconds * 1000;
+      run(database, 'UPDATE api_keys SET expires_at = MIN(COALESCE(expires_at, ?), ?) WHERE id = ?', [deadline, deadline, id]);
+    });
+  }
+
+  touch(id: number): Promise<void> {
+    return this.scope(database => {
+      const now = Date.now();
+      run(
+        database,
+        'UPDATE api_keys SET last_used_at = ? WHERE id = ? AND (last_used_at IS NULL OR last_used_at < ?)',
+        [now, id, now - 60 * 1000]
+      );
+    });
+  }
+
+  consumeNonce(keyId: string, nonce: string, expiresAt: Date): Promise<void> {
+    return this.scope(database => {
+      run(database, 'DELETE FROM request_nonces WHERE key_id = ? AND expires_at <= ?', [keyId, Date.now()]);
+
+      try {
+        run(database, 'INSERT INTO request_nonces (key_id, nonce, expires_at) VALUES (?, ?, ?)', [keyId, nonce, expiresAt]);
+      } catch (error) {
+        rethrowConstraint(error, { unique: 'Request nonce has already been used' });
+      }
+    });
+  }
+
+  private mapRowToKey(row: SqliteApiKeyRow): ApiKeyRecord {
+    return {
+      ...row,
+      require_signature: Boolean(row.require_signature),
+      expires_at: toDate(row.expires_at),
+      revoked_at: toDate(row.revoked_at),
+      last_used_at: toDate(row.last_used_at),
+      created_at: new Date(row.created_at)
+    };
+  }
+}
@@ -0,0 +1,112 @@
+import { UserRole } from '../../model/user';
+import { AuditActorType, AuditCategory, AuditEntry, AuditOutcome, AuditResourceType } from '../../model/audit';
+import { AuditLogQuery, AuditLogRepository, NewAuditEntry } from '../repositories';
+import { Scope, all, get, run } from './support';
+
+interface SqliteAuditRow {
+  id: number;
+  audit_id: string;
+  category: string;
+  action: string;
+  actor_type: string;
+  actor_user_id: number | null;
+  actor_role: string | null;
+  actor_key_id: string | null;
+  ip: string | null;
+  user_agent: string | null;
+  request_id: string | null;
+  method: string | null;
+  path: string | null;
+  resource_type: string | null;
+  resource_id: string | null;
+  before_value: string | null;
+  after_value: string | null;
+  outcome: string;
+  status_code: number | null;
+  error_code: string | null;
+  duration_ms: number | null;
+  created_at: number;
+}
+
+const AUDIT_COLUMNS = [
+  'audit_id', 'category', 'action', 'actor_type', 'actor_user_id', 'actor_role', 'actor_key_id', 'ip', 'user_agent',
+  'request_id', 'method', 'path', 'resource_type', 'resource_id', 'before_value', 'after_value', 'outcome',
+  'status_code', 'error_code', 'duration_ms'
+] as const;
+
+export class SqliteAuditLogRepository implements AuditLogRepository {
+  constructor(private readonly scope: Scope) {}
+
+  insert(entry: NewAuditEntry): Promise<void> {
+    return this.scope(database => {
+      run(
+        database,
+        `INSERT INTO audit_log (${AUDIT_COLUMNS.join(', ')}, created_at)
+         VALUES (${AUDIT_COLUMNS.map(() => '?').join(', ')}, ?)`,
+        [
+          ...AUDIT_COLUMNS.map(column =>
+            (column === 'before_value' || column === 'after_value') && entry[column] !== null
+              ? JSON.stringify(entry[column])
+              : entry[column]
+          ),
+          Date.now()
+        ]
+      );
+    });
+  }
+
+  list(query: AuditLogQuery): Promise<AuditEntry[]> {
+    const conditions: string[] = [];
+    const params: unknown[] = [];
+
+    const equalityFilters = ['category', 'action', 'actor_user_id', 'resource_type', 'resource_id', 'request_id', 'outcome'] as const;
+    for (const column of equalityFilters) {
+      if (query[column] !== undefined) {
+        conditions.push(`${column} = ?`);
+        params.push(query[column]);
+      }
+    }
+    if (query.from) {
+      conditions.push('created_at >= ?');
+      params.push(query.from);
+    }
+    if (query.to) {
+      conditions.push('created_at <= ?');
+      params.push(query.to);
+    }
+    if (query.before_id !== undefined) {
+      conditions.push('id < ?');
+      params.push(query.before_id);
+    }
+
+    return this.scope(database =>
+      all<SqliteAuditRow>(database, `
+        SELECT * FROM audit_log
+        ${conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : ''}
+        ORDER BY id DESC
+        LIMIT ?
+      `, [...params, query.limit]).map(row => this.mapRowToEntry(row))
+    );
+  }
+
+  findByAuditId(auditId: string): Promise<AuditEntry | null> {
+    return this.scope(database => {
+      const row = get<SqliteAuditRow>(database, 'SELECT * FROM audit_log WHERE audit_id = ?', [auditId]);
+      return row ? this.mapRowToEntry(row) : null;
+    });
+  }
+
+  private mapRowToEntry(row: SqliteAuditRow): AuditEntry {
+    return {
+      ...row,
+      category: row.category as AuditCategory,
+      actor_type: row.actor_type as AuditActorType,
+      actor_role: row.actor_role as UserRole | null,
+      resource_type: row.resource_type as AuditResourceType | null,
+      before_value: row.before_value === null ? null : JSON.parse(row.before_value),
+      after_value: row.after_value === null ? null : JSON.parse(row.after_value),
+      outcome: row.outcome as AuditOutcome,
+      created_at: new Date(row.created_at)
+    };
+  }
+}
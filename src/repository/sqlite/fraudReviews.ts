@@ -0,0 +1,65 @@
+import { FraudReview, ReviewStatus } from '../../model/fraud';
+import { FraudReviewRepository, NewFraudReview, ReviewDecision } from '../repositories';
+import { Scope, all, get, run, toDate } from './support';
+
+interface SqliteFraudReviewRow {
+  id: number;
+  review_id: string;
+  transaction_id: string;
+  rule_hits: string;
+  status: ReviewStatus;
+  reviewed_by: number | null;
+  review_note: string | null;
+  reviewed_at: number | null;
+  created_at: number;
+}
+
+export class SqliteFraudReviewRepository implements FraudReviewRepository {
+  constructor(private readonly scope: Scope) {}
+
+  insert(data: NewFraudReview): Promise<void> {
+    return this.scope(database => {
+      run(
+        database,
+        'INSERT INTO fraud_reviews (review_id, transaction_id, rule_hits, created_at) VALUES (?, ?, ?, ?)',
+        [data.review_id, data.transaction_id, JSON.stringify(data.rule_hits), Date.now()]
+      );
+    });
+  }
+
+  findByReviewId(reviewId: string): Promise<FraudReview | null> {
+    return this.scope(database => {
+      const row = get<SqliteFraudReviewRow>(database, 'SELECT * FROM fraud_reviews WHERE review_id = ?', [reviewId]);
+      return row ? this.mapRowToReview(row) : null;
+    });
+  }
+
+  listByStatus(status: ReviewStatus, limit: number): Promise<FraudReview[]> {
+    return this.scope(database =>
+      all<SqliteFraudReviewRow>(
+        database,
+        'SELECT * FROM fraud_reviews WHERE status = ? ORDER BY created_at, id LIMIT ?',
+        [status, limit]
+      ).map(row => this.mapRowToReview(row))
+    );
+  }
+
+  decide(reviewId: string, decision: ReviewDecision): Promise<void> {
+    return this.scope(database => {
+      run(
+        database,
+        'UPDATE fraud_reviews SET status = ?, reviewed_by = ?, review_note = ?, reviewed_at = ? WHERE review_id = ?',
+        [decision.status, decision.reviewed_by, decision.review_note, Date.now(), reviewId]
+      );
+    });
+  }
+
+  private mapRowToReview(row: SqliteFraudReviewRow): FraudReview {
+    return {
+      ...row,
+      rule_hits: JSON.parse(row.rule_hits),
+      reviewed_at: toDate(row.reviewed_at),
+      created_at: new Date(row.created_at)
+    };
+  }
+}
@@ -0,0 +1,63 @@
+import { Money } from '../../utils/money';
+import { Hold, HoldStatus } from '../../model/hold';
+import { HoldChanges, HoldRepository, NewHold } from '../repositories';
+import { Scope, get, run, update } from './support';
+
+interface SqliteHoldRow {
+  id: number;
+  hold_id: string;
+  account_id: number;
+  destination_account_id: number | null;
+  amount: number;
+  captured_amount: number | null;
+  status: string;
+  transaction_id: string | null;
+  expires_at: number;
+  created_at: number;
+  updated_at: number;
+}
+
+export class SqliteHoldRepository implements HoldRepository {
+  constructor(private readonly scope: Scope) {}
+
+  findByHoldId(holdId: string): Promise<Hold | null> {
+    return this.scope(database => {
+      const row = get<SqliteHoldRow>(database, 'SELECT * FROM holds WHERE hold_id = ?', [holdId]);
+      return row ? this.mapRowToHold(row) : null;
+    });
+  }
+
+  insert(data: NewHold): Promise<void> {
+    return this.scope(database => {
+      const now = Date.now();
+      run(
+        database,
+        `INSERT INTO holds (hold_id, account_id, destination_account_id, amount, expires_at, created_at, updated_at)
+         VALUES (?, ?, ?, ?, ?, ?, ?)`,
+        [data.hold_id, data.account_id, data.destination_account_id, data.amount, now + data.expires_in_seconds * 1000, now, now]
+      );
+    });
+  }
+
+  update(holdId: string, changes: HoldChanges): Promise<void> {
+    return this.scope(database => {
+      update(database, 'holds', 'hold_id', holdId, { ...changes, updated_at: Date.now() });
+    });
+  }
+
+  private mapRowToHold(row: SqliteHoldRow): Hold {
+    return {
+      id: row.id,
+      hold_id: row.hold_id,
+      account_id: row.account_id,
+      destination_account_id: row.destination_account_id ?? undefined,
+      amount: Money.fromMinorUnits(row.amount),
+      captured_amount: row.captured_amount === null ? undefined : Money.fromMinorUnits(row.captured_amount),
+      status: row.status as HoldStatus,
+      transaction_id: row.transaction_id ?? undefined,
+      expires_at: new Date(row.expires_at),
+      created_at: new Date(row.created_at),
+      updated_at: new Date(row.updated_at)
+    };
+  }
+}
@@ -0,0 +1,72 @@
+import { IdempotencyRecord, IdempotentResponse } from '../../model/idempotency';
+import { IdempotencyKeyRepository, NewIdempotencyKey } from '../repositories';
+import { Scope, get, rethrowConstraint, run, toDate } from './support';
+
+interface SqliteIdempotencyRow {
+  id: number;
+  user_id: number;
+  idempotency_key: string;
+  request_fingerprint: string;
+  response_status: number | null;
+  response_body: string | null;
+  transaction_id: string | null;
+  created_at: number;
+  expires_at: number;
+}
+
+export class SqliteIdempotencyKeyRepository implements IdempotencyKeyRepository {
+  constructor(private readonly scope: Scope) {}
+
+  find(userId: number, key: string): Promise<IdempotencyRecord | null> {
+    return this.scope(database => {
+      const row = get<SqliteIdempotencyRow>(
+        database,
+        'SELECT * FROM idempotency_keys WHERE user_id = ? AND idempotency_key = ? AND expires_at > ?',
+        [userId, key, Date.now()]
+      );
+      return row ? this.mapRowToRecord(row) : null;
+    });
+  }
+
+  claim(data: NewIdempotencyKey): Promise<void> {
+    return this.scope(database => {
+      const now = Date.now();
+      run(
+        database,
+        'DELETE FROM idempotency_keys WHERE user_id = ? AND idempotency_key = ? AND expires_at <= ?',
+        [data.user_id, data.key, now]
+      );
+
+      try {
+        run(
+          database,
+          `INSERT INTO idempotency_keys (user_id, idempotency_key, request_fingerprint, created_at, expires_at)
+           VALUES (?, ?, ?, ?, ?)`,
+          [data.user_id, data.key, data.fingerprint, now, now + data.ttl_seconds * 1000]
+        );
+      } catch (error) {
+        rethrowConstraint(error, { unique: 'Idempotency key is already in use' });
+      }
+    });
+  }
+
+  complete(userId: number, key: string, response: IdempotentResponse, transactionId: string | null): Promise<void> {
+    return this.scope(database => {
+      run(
+        database,
+        `UPDATE idempotency_keys SET response_status = ?, response_body = ?, transaction_id = ?
+         WHERE user_id = ? AND idempotency_key = ?`,
+        [response.status, JSON.stringify(response.body), transactionId, userId, key]
+      );
+    });
+  }
+
+  private mapRowToRecord(row: SqliteIdempotencyRow): IdempotencyRecord {
+    return {
+      ...row,
+      response_body: row.response_body === null ? null : JSON.parse(row.response_body),
+      created_at: new Date(row.created_at),
+      expires_at: toDate(row.expires_at)!
+    };
+  }
+}
@@ -0,0 +1,131 @@
+import type { DatabaseSync } from 'node:sqlite';
+import { Mutex } from '../../utils/mutex';
+import { Money } from '../../utils/money';
+import { GENESIS_HASH } from '../../utils/transactionChain';
+import { DEFAULT_TRANSACTION_LIMITS, KYC_TIER_CODES, Repositories, Storage, StorageSession } from '../repositories';
+import { SCHEMA } from './schema';
+import { Scope } from './support';
+import { SqliteUserRepository } from './users';
+import { SqliteAccountRepository } from './accounts';
+import { SqliteTransactionRepository } from './transactions';
+import { SqliteIdempotencyKeyRepository } from './idempotencyKeys';
+import { SqliteLimitRepository } from './limits';
+import { SqliteFraudReviewRepository } from './fraudReviews';
+import { SqliteTransactionChainRepository } from './transactionChain';
+import { SqliteOutboxRepository } from './outbox';
+import { SqliteAuditLogRepository } from './auditLog';
+import { SqliteApiKeyRepository } from './apiKeys';
+import { SqliteHoldRepository } from './holds';
+import { SqliteScheduleRepository } from './schedules';
+import { SqliteWebhookDeliveryRepository, SqliteWebhookEndpointRepository } from './webhooks';
+import { SqlitePaymentBatchRepository } from './paymentBatches';
+
+/**
+ * Bind every repository to one scope: autocommit, or the connection inside an open transaction
+ */
+function sqliteRepositories(scope: Scope): Repositories {
+  return {
+    users: new SqliteUserRepository(scope),
+    accounts: new SqliteAccountRepository(scope),
+    transactions: new SqliteTransactionRepository(scope),
+    idempotencyKeys: new SqliteIdempotencyKeyRepository(scope),
+    limits: new SqliteLimitRepository(scope),
+    fraudReviews: new SqliteFraudReviewRepository(scope),
+    transactionChain: new SqliteTransactionChainRepository(scope),
+    outbox: new SqliteOutboxRepository(scope),
+    auditLog: new SqliteAuditLogRepository(scope),
+    apiKeys: new SqliteApiKeyRepository(scope),
+    holds: new SqliteHoldRepository(scope),
+    schedules: new SqliteScheduleRepository(scope),
+    webhookEndpoints: new SqliteWebhookEndpointRepository(scope),
+    webhookDeliveries: new SqliteWebhookDeliveryRepository(scope),
+    paymentBatches: new SqlitePaymentBatchRepository(scope)
+  };
+}
+
+/**
+ * SQLite storage - a single file (or in-memory) database, created on first use
+ * Uses the node:sqlite module, which needs Node.js 22.5 or later. The one connection is shared,
+ * so transactions run one at a time (BEGIN IMMEDIATE) and row locks are not needed
+ */
+export class SqliteStorage implements Storage {
+  readonly backend = 'sqlite' as const;
+
+  private database: DatabaseSync | null = null;
+  private readonly mutex = new Mutex();
+
+  // Calls outside a transaction queue behind running transactions and autocommit
+  private readonly autocommit: Scope = work => this.mutex.run(() => work(this.getDatabase()));
+
+  readonly repositories: Repositories = sqliteRepositories(this.autocommit);
+
+  constructor(private readonly path: string) {}
+
+  async initialize(): Promise<void> {
+    let sqlite: typeof import('node:sqlite');
+    try {
+      sqlite = await import('node:sqlite');
+    } catch (error) {
+      throw new Error(`The SQLite storage backend needs Node.js 22.5 or later (running ${process.version})`);
+    }
+
+    const database = new sqlite.DatabaseSync(this.path);
+    database.exec('PRAGMA foreign_keys = ON');
+    if (this.path !== ':memory:') {
+      database.exec('PRAGMA journal_mode = WAL');
+    }
+    database.exec(SCHEMA);
+
+    const insertTier = database.prepare('INSERT OR IGNORE INTO kyc_tiers (code) VALUES (?)');
+    for (const code of KYC_TIER_CODES) {
+      insertTier.run(code);
+    }
+
+    const insertLimit = database.prepare(`
+      INSERT OR IGNORE INTO transaction_limits
+        (kyc_tier, transaction_type, per_transaction_max, daily_account_max, monthly_account_max, daily_user_max, monthly_user_max)
+      VALUES (?, ?, ?, ?, ?, ?, ?)
+    `);
+    for (const [tier, type, ...limits] of DEFAULT_TRANSACTION_LIMITS) {
+      insertLimit.run(tier, type, ...limits.map(limit => Money.fromDecimal(limit).minorUnits));
+    }
+
+    database.exec(`
+      INSERT OR IGNORE INTO transaction_chain_state (id, last_sequence, last_hash) VALUES (1, 0, '${GENESIS_HASH}');
+      INSERT OR IGNORE INTO outbox_relay_state (id, last_sequence) VALUES (1, 0);
+    `);
+
+    this.database = database;
+  }
+
+  async transaction<T>(work: (session: StorageSession) => Promise<T>): Promise<T> {
+    return this.mutex.run(async () => {
+      const database = this.getDatabase();
+      const scope: Scope = async work => work(database);
+
+      database.exec('BEGIN IMMEDIATE');
+      try {
+        const result = await work(sqliteRepositories(scope));
+        database.exec('COMMIT');
+        return result;
+      } catch (error) {
+        database.exec('ROLLBACK');
+        throw error;
+      }
+    });
+  }
+
+  async close(): Promise<void> {
+    if (this.database) {
+      this.database.close();
+      this.database = null;
+    }
+  }
+
+  private getDatabase(): DatabaseSync {
+    if (!this.database) {
+      throw new Error('Storage not initialized. Call initialize() first.');
+    }
+    return this.database;
+  }
+}
@@ -0,0 +1,40 @@
+import { LimitedTransactionType, TransactionLimit } from '../../model/limit';
+import { LimitRepository } from '../repositories';
+import { Scope, get, toMoney } from './support';
+
+interface SqliteLimitRow {
+  kyc_tier: string;
+  transaction_type: LimitedTransactionType;
+  per_transaction_max: number | null;
+  daily_account_max: number | null;
+  monthly_account_max: number | null;
+  daily_user_max: number | null;
+  monthly_user_max: number | null;
+}
+
+export class SqliteLimitRepository implements LimitRepository {
+  constructor(private readonly scope: Scope) {}
+
+  find(tier: string, type: LimitedTransactionType): Promise<TransactionLimit | null> {
+    return this.scope(database => {
+      const row = get<SqliteLimitRow>(
+        database,
+        'SELECT * FROM transaction_limits WHERE kyc_tier = ? AND transaction_type = ?',
+        [tier, type]
+      );
+      return row ? this.mapRowToLimit(row) : null;
+    });
+  }
+
+  private mapRowToLimit(row: SqliteLimitRow): TransactionLimit {
+    return {
+      kyc_tier: row.kyc_tier,
+      transaction_type: row.transaction_type,
+      per_transaction_max: toMoney(row.per_transaction_max),
+      daily_account_max: toMoney(row.daily_account_max),
+      monthly_account_max: toMoney(row.monthly_account_max),
+      daily_user_max: toMoney(row.daily_user_max),
+      monthly_user_max: toMoney(row.monthly_user_max)
+    };
+  }
+}
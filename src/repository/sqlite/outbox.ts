@@ -0,0 +1,81 @@
+import { DomainEventType, OutboxEvent } from '../../model/outbox';
+import { NewOutboxEvent, OutboxRepository } from '../repositories';
+import { Scope, all, get, run, toDate } from './support';
+
+interface SqliteOutboxRow {
+  id: number;
+  event_id: string;
+  event_type: string;
+  account_id: number;
+  payload: string;
+  sequence: number | null;
+  published_at: number | null;
+  created_at: number;
+}
+
+export class SqliteOutboxRepository implements OutboxRepository {
+  constructor(private readonly scope: Scope) {}
+
+  insert(data: NewOutboxEvent): Promise<void> {
+    return this.scope(database => {
+      run(
+        database,
+        'INSERT INTO outbox_events (event_id, event_type, account_id, payload, created_at) VALUES (?, ?, ?, ?, ?)',
+        [data.event.id, data.event.type, data.account_id, JSON.stringify(data.event), Date.now()]
+      );
+    });
+  }
+
+  listUnpublished(limit: number): Promise<OutboxEvent[]> {
+    return this.scope(database =>
+      all<SqliteOutboxRow>(database, 'SELECT * FROM outbox_events WHERE published_at IS NULL ORDER BY id LIMIT ?', [limit])
+        .map(row => this.mapRowToEvent(row))
+    );
+  }
+
+  markPublished(id: number, sequence: number): Promise<void> {
+    return this.scope(database => {
+      run(database, 'UPDATE outbox_events SET sequence = ?, published_at = ? WHERE id = ?', [sequence, Date.now(), id]);
+    });
+  }
+
+  getLastSequence(): Promise<number> {
+    return this.scope(database =>
+      get<{ last_sequence: number }>(database, 'SELECT last_sequence FROM outbox_relay_state WHERE id = 1')?.last_sequence ?? 0
+    );
+  }
+
+  setLastSequence(sequence: number): Promise<void> {
+    return this.scope(database => {
+      run(database, 'UPDATE outbox_relay_state SET last_sequence = ? WHERE id = 1', [sequence]);
+    });
+  }
+
+  listPublished(afterSequence: number, limit: number, accountId?: number): Promise<OutboxEvent[]> {
+    const params: number[] = [afterSequence];
+    let accountCondition = '';
+    if (accountId !== undefined) {
+      accountCondition = 'AND account_id = ?';
+      params.push(accountId);
+    }
+
+    return this.scope(database =>
+      all<SqliteOutboxRow>(database, `
+        SELECT * FROM outbox_events
+        WHERE sequence > ? ${accountCondition}
+        ORDER BY sequence
+        LIMIT ?
+      `, [...params, limit]).map(row => this.mapRowToEvent(row))
+    );
+  }
+
+  private mapRowToEvent(row: SqliteOutboxRow): OutboxEvent {
+    return {
+      ...row,
+      event_type: row.event_type as DomainEventType,
+      payload: JSON.parse(row.payload),
+      published_at: toDate(row.published_at),
+      created_at: new Date(row.created_at)
+    };
+  }
+}
@@ -0,0 +1,137 @@
+import { Money } from '../../utils/money';
+import { PaymentBatch, PaymentBatchLine, PaymentBatchRow, PaymentLineStatus } from '../../model/paymentBatch';
+import {
+  NewPaymentBatch,
+  PaymentBatchChanges,
+  PaymentBatchRepository,
+  PaymentLineOutcome
+} from '../repositories';
+import { Scope, all, get, run, toDate, toMoney, update } from './support';
+
+type SqliteBatchRow = Omit<PaymentBatchRow, 'total_amount' | 'created_at' | 'confirmed_at' | 'completed_at'> & {
+  total_amount: number;
+  created_at: number;
+  confirmed_at: number | null;
+  completed_at: number | null;
+};
+
+type SqliteLineRow = Omit<PaymentBatchLine, 'amount'> & { amount: number | null };
+
+const LINE_COLUMNS = `line_number, reference, type, amount, source_account_id, destination_account_id, status, error,
+  transaction_id`;
+
+export class SqlitePaymentBatchRepository implements PaymentBatchRepository {
+  constructor(private readonly scope: Scope) {}
+
+  insert(data: NewPaymentBatch): Promise<void> {
+    return this.scope(database => {
+      const id = run(database, `
+        INSERT INTO payment_batches
+          (batch_id, user_id, file_format, file_reference, mode, line_count, valid_line_count, total_amount, created_at)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+      `, [
+        data.batch_id,
+        data.user_id,
+        data.file_format,
+        data.file_reference,
+        data.mode,
+        data.lines.length,
+        data.valid_line_count,
+        data.total_amount,
+        Date.now()
+      ]);
+
+      for (const line of data.lines) {
+        run(database, `
+          INSERT INTO payment_batch_lines
+            (batch_id, line_number, reference, type, amount, source_account_id, destination_account_id, status, error)
+          VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+        `, [
+          id,
+          line.line_number,
+          line.reference,
+          line.type,
+          line.amount,
+          line.source_account_id,
+          line.destination_account_id,
+          line.status,
+          line.error
+        ]);
+      }
+    });
+  }
+
+  findByBatchId(batchId: string): Promise<PaymentBatch | null> {
+    return this.scope(database => {
+      const row = get<SqliteBatchRow>(database, 'SELECT * FROM payment_batches WHERE batch_id = ?', [batchId]);
+      return row ? this.mapRowToBatch(row) : null;
+    });
+  }
+
+  listForUser(userId: number, limit: number): Promise<PaymentBatch[]> {
+    return this.scope(database =>
+      all<SqliteBatchRow>(
+        database,
+        'SELECT * FROM payment_batches WHERE user_id = ? ORDER BY created_at DESC, id DESC LIMIT ?',
+        [userId, limit]
+      ).map(row => this.mapRowToBatch(row))
+    );
+  }
+
+  listProcessing(): Promise<PaymentBatch[]> {
+    return this.scope(database =>
+      all<SqliteBatchRow>(database, "SELECT * FROM payment_batches WHERE status = 'processing' AND mode = 'best_effort' ORDER BY id")
+        .map(row => this.mapRowToBatch(row))
+    );
+  }
+
+  update(id: number, changes: PaymentBatchChanges): Promise<void> {
+    return this.scope(database => {
+      update(database, 'payment_batches', 'id', id, { ...changes });
+    });
+  }
+
+  listLines(id: number, status?: PaymentLineStatus): Promise<PaymentBatchLine[]> {
+    return this.scope(database =>
+      all<SqliteLineRow>(
+        database,
+        `SELECT ${LINE_COLUMNS} FROM payment_batch_lines WHERE batch_id = ?${status ? ' AND status = ?' : ''} ORDER BY line_number`,
+        status ? [id, status] : [id]
+      ).map(row => this.mapRowToLine(row))
+    );
+  }
+
+  findLine(id: number, lineNumber: number): Promise<PaymentBatchLine | null> {
+    return this.scope(database => {
+      const row = get<SqliteLineRow>(
+        database,
+        `SELECT ${LINE_COLUMNS} FROM payment_batch_lines WHERE batch_id = ? AND line_number = ?`,
+        [id, lineNumber]
+      );
+      return row ? this.mapRowToLine(row) : null;
+    });
+  }
+
+  updateLine(id: number, lineNumber: number, outcome: PaymentLineOutcome, expected?: PaymentLineStatus): Promise<void> {
+    return this.scope(database => {
+      run(database, `
+        UPDATE payment_batch_lines SET status = ?, error = ?, transaction_id = ?
+        WHERE batch_id = ? AND line_number = ?${expected ? ' AND status = ?' : ''}
+      `, [outcome.status, outcome.error, outcome.transaction_id, id, lineNumber, ...(expected ? [expected] : [])]);
+    });
+  }
+
+  private mapRowToBatch(row: SqliteBatchRow): PaymentBatch {
+    return {
+      ...row,
+      total_amount: Money.fromMinorUnits(row.total_amount),
+      created_at: new Date(row.created_at),
+      confirmed_at: toDate(row.confirmed_at),
+      completed_at: toDate(row.completed_at)
+    };
+  }
+
+  private mapRowToLine(row: SqliteLineRow): PaymentBatchLine {
+    return { ...row, amount: toMoney(row.amount) };
+  }
+}
@@ -0,0 +1,180 @@
+import { Money } from '../../utils/money';
+import { Schedule, ScheduleFrequency, ScheduleRun, ScheduleStatus } from '../../model/schedule';
+import { NewSchedule, NewScheduleRun, ScheduleChanges, ScheduleRepository } from '../repositories';
+import { Scope, all, get, run, update } from './support';
+
+interface SqliteScheduleRow {
+  id: number;
+  schedule_id: string;
+  user_id: number;
+  source_account_id: number;
+  destination_account_id: number;
+  amount: number;
+  frequency: string;
+  start_at: number;
+  end_at: number | null;
+  next_run_at: number | null;
+  status: string;
+  run_count: number;
+  created_at: number;
+  updated_at: number;
+}
+
+interface SqliteScheduleRunRow {
+  id: number;
+  scheduled_for: number;
+  transaction_id: string | null;
+  status: 'completed' | 'failed';
+  failure_reason: string | null;
+  created_at: number;
+}
+
+const RUN_COLUMNS = 'id, scheduled_for, transaction_id, status, failure_reason, created_at';
+
+export class SqliteScheduleRepository implements ScheduleRepository {
+  constructor(private readonly scope: Scope) {}
+
+  insert(data: NewSchedule): Promise<void> {
+    return this.scope(database => {
+      const now = Date.now();
+      run(
+        database,
+        `INSERT INTO schedules
+           (schedule_id, user_id, source_account_id, destination_account_id, amount, frequency, start_at, end_at, next_run_at, created_at, updated_at)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+        [
+          data.schedule_id,
+          data.user_id,
+          data.source_account_id,
+          data.destination_account_id,
+          data.amount,
+          data.frequency,
+          data.start_at,
+          data.end_at,
+          data.start_at,
+          now,
+          now
+        ]
+      );
+    });
+  }
+
+  findByScheduleId(scheduleId: string): Promise<Schedule | null> {
+    return this.scope(database => {
+      const row = get<SqliteScheduleRow>(database, 'SELECT * FROM schedules WHERE schedule_id = ?', [scheduleId]);
+      return row ? this.mapRowToSchedule(row) : null;
+    });
+  }
+
+  listForUser(userId: number): Promise<Schedule[]> {
+    return this.scope(database =>
+      all<SqliteScheduleRow>(database, 'SELECT * FROM schedules WHERE user_id = ? ORDER BY id DESC', [userId])
+        .map(row => this.mapRowToSchedule(row))
+    );
+  }
+
+  update(id: number, changes: ScheduleChanges): Promise<void> {
+    return this.scope(database => {
+      update(database, 'schedules', 'id', id, { ...changes, updated_at: Date.now() });
+    });
+  }
+
+  listDue(limit: number): Promise<Schedule[]> {
+    return this.scope(database => {
+      const now = Date.now();
+      return all<SqliteScheduleRow>(database, `
+        SELECT * FROM schedules
+        WHERE status = 'active' AND next_run_at <= ?
+          AND (locked_until IS NULL OR locked_until < ?)
+        ORDER BY next_run_at
+        LIMIT ?
+      `, [now, now, limit]).map(row => this.mapRowToSchedule(row));
+    });
+  }
+
+  lease(id: number, workerId: string, seconds: number): Promise<void> {
+    return this.scope(database => {
+      run(database, 'UPDATE schedules SET locked_by = ?, locked_until = ? WHERE id = ?', [workerId, Date.now() + seconds * 1000, id]);
+    });
+  }
+
+  advance(id: number, workerId: string, nextRunAt: Date | null): Promise<void> {
+    // Pausing or cancelling while the run was in flight wins over the worker's update
+    return this.scope(database => {
+      run(database, `
+        UPDATE schedules
+        SET next_run_at = ?, run_count = run_count + 1,
+          status = CASE WHEN status = 'active' AND ? IS NULL THEN 'completed' ELSE status END,
+          locked_by = NULL, locked_until = NULL, updated_at = ?
+        WHERE id = ? AND locked_by = ?
+      `, [nextRunAt, nextRunAt, Date.now(), id, workerId]);
+    });
+  }
+
+  cancelForAccount(accountId: number): Promise<void> {
+    return this.scope(database => {
+      run(database, `
+        UPDATE schedules SET status = 'cancelled', next_run_at = NULL, updated_at = ?
+        WHERE (source_account_id = ? OR destination_account_id = ?) AND status IN ('active', 'paused')
+      `, [Date.now(), accountId, accountId]);
+    });
+  }
+
+  insertRun(id: number, scheduleRun: NewScheduleRun): Promise<void> {
+    // The unique (schedule_id, scheduled_for) key makes recording the same occurrence twice a no-op
+    return this.scope(database => {
+      run(database, `
+        INSERT OR IGNORE INTO schedule_runs (schedule_id, scheduled_for, transaction_id, status, failure_reason, created_at)
+        VALUES (?, ?, ?, ?, ?, ?)
+      `, [id, scheduleRun.scheduled_for, scheduleRun.transaction_id, scheduleRun.status, scheduleRun.failure_reason, Date.now()]);
+    });
+  }
+
+  findRun(id: number, scheduledFor: Date): Promise<ScheduleRun | null> {
+    return this.scope(database => {
+      const row = get<SqliteScheduleRunRow>(
+        database,
+        `SELECT ${RUN_COLUMNS} FROM schedule_runs WHERE schedule_id = ? AND scheduled_for = ?`,
+        [id, scheduledFor]
+      );
+      return row ? this.mapRowToRun(row) : null;
+    });
+  }
+
+  listRuns(id: number): Promise<ScheduleRun[]> {
+    return this.scope(database =>
+      all<SqliteScheduleRunRow>(database, `SELECT ${RUN_COLUMNS} FROM schedule_runs WHERE schedule_id = ? ORDER BY scheduled_for DESC`, [id])
+        .map(row => this.mapRowToRun(row))
+    );
+  }
+
+  private mapRowToSchedule(row: SqliteScheduleRow): Schedule {
+    return {
+      id: row.id,
+      schedule_id: row.schedule_id,
+      user_id: row.user_id,
+      source_account_id: row.source_account_id,
+      destination_account_id: row.destination_account_id,
+      amount: Money.fromMinorUnits(row.amount),
+      frequency: row.frequency as ScheduleFrequency,
+      start_at: new Date(row.start_at),
+      end_at: row.end_at === null ? undefined : new Date(row.end_at),
+      next_run_at: row.next_run_at === null ? undefined : new Date(row.next_run_at),
+      status: row.status as ScheduleStatus,
+      run_count: row.run_count,
+      created_at: new Date(row.created_at),
+      updated_at: new Date(row.updated_at)
+    };
+  }
+
+  private mapRowToRun(row: SqliteScheduleRunRow): ScheduleRun {
+    return {
+      id: row.id,
+      scheduled_for: new Date(row.scheduled_for),
+      transaction_id: row.transaction_id ?? undefined,
+      status: row.status,
+      failure_reason: row.failure_reason ?? undefined,
+      created_at: new Date(row.created_at)
+    };
+  }
+}
@@ -0,0 +1,320 @@
+/**
+ * The SQLite schema, mirroring migrations/ with the types SQLite has
+ */
+
+// Amounts are stored in minor units and timestamps in epoch milliseconds, so SQLite never
+// does floating point money arithmetic and dates compare as integers
+export const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS kyc_tiers (
+    code TEXT PRIMARY KEY
+  );
+
+  CREATE TABLE IF NOT EXISTS users (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    username TEXT NOT NULL UNIQUE,
+    role TEXT NOT NULL DEFAULT 'customer' CHECK (role IN ('customer', 'support', 'auditor', 'admin')),
+    kyc_tier TEXT NOT NULL DEFAULT 'basic' REFERENCES kyc_tiers (code),
+    require_signed_requests INTEGER NOT NULL DEFAULT 0,
+    created_at INTEGER NOT NULL,
+    updated_at INTEGER NOT NULL
+  );
+
+  CREATE TABLE IF NOT EXISTS accounts (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    account_number TEXT NOT NULL UNIQUE,
+    user_id INTEGER NOT NULL REFERENCES users (id),
+    balance INTEGER NOT NULL DEFAULT 0 CHECK (balance >= 0),
+    status TEXT NOT NULL DEFAULT 'active' CHECK (status IN ('active', 'frozen', 'closed')),
+    frozen_by INTEGER NULL REFERENCES users (id),
+    closed_at INTEGER NULL,
+    created_at INTEGER NOT NULL,
+    updated_at INTEGER NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS idx_accounts_user_id ON accounts (user_id);
+
+  CREATE TABLE IF NOT EXISTS transactions (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    transaction_id TEXT NOT NULL UNIQUE,
+    type TEXT NOT NULL CHECK (type IN ('deposit', 'withdrawal', 'transfer', 'reversal')),
+    amount INTEGER NOT NULL,
+    source_account_id INTEGER NULL REFERENCES accounts (id),
+    destination_account_id INTEGER NULL REFERENCES accounts (id),
+    original_transaction_id TEXT NULL REFERENCES transactions (transaction_id),
+    batch_id TEXT NULL,
+    reversed_amount INTEGER NOT NULL DEFAULT 0,
+    source_balance_after INTEGER NULL,
+    destination_balance_after INTEGER NULL,
+    status TEXT NOT NULL CHECK (status IN ('completed', 'failed', 'reversed', 'partially_reversed', 'pending_review')),
+    failure_reason TEXT NULL,
+    chain_sequence INTEGER NULL UNIQUE,
+    prev_hash TEXT NULL,
+    row_hash TEXT NULL,
+    created_at INTEGER NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS idx_transactions_source ON transactions (source_account_id);
+  CREATE INDEX IF NOT EXISTS idx_transactions_destination ON transactions (destination_account_id);
+  CREATE INDEX IF NOT EXISTS idx_transactions_batch ON transactions (batch_id);
+
+  CREATE TABLE IF NOT EXISTS journal_entries (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    transaction_id TEXT NULL UNIQUE REFERENCES transactions (transaction_id),
+    description TEXT NOT NULL,
+    created_at INTEGER NOT NULL
+  );
+
+  CREATE TABLE IF NOT EXISTS ledger_postings (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    journal_entry_id INTEGER NOT NULL REFERENCES journal_entries (id),
+    account_id INTEGER NULL REFERENCES accounts (id),
+    system_account TEXT NULL CHECK (system_account IN ('CASH_IN', 'CASH_OUT', 'OPENING_BALANCE')),
+    amount INTEGER NOT NULL CHECK (amount <> 0),
+    CHECK ((account_id IS NULL) <> (system_account IS NULL))
+  );
+  CREATE INDEX IF NOT EXISTS idx_ledger_postings_entry ON ledger_postings (journal_entry_id);
+  CREATE INDEX IF NOT EXISTS idx_ledger_postings_account ON ledger_postings (account_id);
+
+  CREATE TABLE IF NOT EXISTS idempotency_keys (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    user_id INTEGER NOT NULL REFERENCES users (id) ON DELETE CASCADE,
+    idempotency_key TEXT NOT NULL,
+    request_fingerprint TEXT NOT NULL,
+    response_status INTEGER NULL,
+    response_body TEXT NULL,
+    transaction_id TEXT NULL,
+    created_at INTEGER NOT NULL,
+    expires_at INTEGER NOT NULL,
+    UNIQUE (user_id, idempotency_key)
+  );
+
+  CREATE TABLE IF NOT EXISTS transaction_limits (
+    kyc_tier TEXT NOT NULL REFERENCES kyc_tiers (code),
+    transaction_type TEXT NOT NULL CHECK (transaction_type IN ('deposit', 'withdrawal', 'transfer')),
+    per_transaction_max INTEGER NULL,
+    daily_account_max INTEGER NULL,
+    monthly_account_max INTEGER NULL,
+    daily_user_max INTEGER NULL,
+    monthly_user_max INTEGER NULL,
+    PRIMARY KEY (kyc_tier, transaction_type)
+  );
+
+  CREATE TABLE IF NOT EXISTS fraud_reviews (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    review_id TEXT NOT NULL UNIQUE,
+    transaction_id TEXT NOT NULL UNIQUE REFERENCES transactions (transaction_id),
+    rule_hits TEXT NOT NULL,
+    status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'approved', 'rejected')),
+    reviewed_by INTEGER NULL REFERENCES users (id),
+    review_note TEXT NULL,
+    reviewed_at INTEGER NULL,
+    created_at INTEGER NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS idx_fraud_reviews_status ON fraud_reviews (status, created_at);
+
+  CREATE TABLE IF NOT EXISTS transaction_chain_state (
+    id INTEGER PRIMARY KEY,
+    last_sequence INTEGER NOT NULL DEFAULT 0,
+    last_hash TEXT NOT NULL
+  );
+
+  CREATE TABLE IF NOT EXISTS outbox_events (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    event_id TEXT NOT NULL UNIQUE,
+    event_type TEXT NOT NULL,
+    account_id INTEGER NOT NULL REFERENCES accounts (id),
+    payload TEXT NOT NULL,
+    sequence INTEGER NULL UNIQUE,
+    published_at INTEGER NULL,
+    created_at INTEGER NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS idx_outbox_unpublished ON outbox_events (published_at, id);
+
+  CREATE TABLE IF NOT EXISTS outbox_relay_state (
+    id INTEGER PRIMARY KEY,
+    last_sequence INTEGER NOT NULL DEFAULT 0
+  );
+
+  CREATE TABLE IF NOT EXISTS audit_log (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    audit_id TEXT NOT NULL UNIQUE,
+    category TEXT NOT NULL CHECK (category IN ('request', 'state_change')),
+    action TEXT NOT NULL,
+    actor_type TEXT NOT NULL CHECK (actor_type IN ('user', 'anonymous', 'system')),
+    actor_user_id INTEGER NULL,
+    actor_role TEXT NULL,
+    actor_key_id TEXT NULL,
+    ip TEXT NULL,
+    user_agent TEXT NULL,
+    request_id TEXT NULL,
+    method TEXT NULL,
+    path TEXT NULL,
+    resource_type TEXT NULL,
+    resource_id TEXT NULL,
+    before_value TEXT NULL,
+    after_value TEXT NULL,
+    outcome TEXT NOT NULL CHECK (outcome IN ('success', 'failure')),
+    status_code INTEGER NULL,
+    error_code TEXT NULL,
+    duration_ms INTEGER NULL,
+    created_at INTEGER NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS idx_audit_log_created ON audit_log (created_at);
+
+  CREATE TRIGGER IF NOT EXISTS audit_log_no_update BEFORE UPDATE ON audit_log
+  BEGIN
+    SELECT RAISE(ABORT, 'audit_log is append-only');
+  END;
+
+  CREATE TRIGGER IF NOT EXISTS audit_log_no_delete BEFORE DELETE ON audit_log
+  BEGIN
+    SELECT RAISE(ABORT, 'audit_log is append-only');
+  END;
+
+  CREATE TABLE IF NOT EXISTS api_keys (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    key_id TEXT NOT NULL UNIQUE,
+    user_id INTEGER NOT NULL REFERENCES users (id) ON DELETE CASCADE,
+    label TEXT NOT NULL,
+    salt TEXT NOT NULL,
+    secret_hash TEXT NOT NULL,
+    signing_secret TEXT NULL,
+    require_signature INTEGER NOT NULL DEFAULT 0,
+    expires_at INTEGER NULL,
+    revoked_at INTEGER NULL,
+    last_used_at INTEGER NULL,
+    rotated_from TEXT NULL,
+    created_at INTEGER NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS idx_api_keys_user ON api_keys (user_id);
+
+  CREATE TABLE IF NOT EXISTS request_nonces (
+    key_id TEXT NOT NULL,
+    nonce TEXT NOT NULL,
+    expires_at INTEGER NOT NULL,
+    PRIMARY KEY (key_id, nonce)
+  );
+
+  CREATE TABLE IF NOT EXISTS holds (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    hold_id TEXT NOT NULL UNIQUE,
+    account_id INTEGER NOT NULL REFERENCES accounts (id),
+    destination_account_id INTEGER NULL REFERENCES accounts (id),
+    amount INTEGER NOT NULL CHECK (amount > 0),
+    captured_amount INTEGER NULL,
+    status TEXT NOT NULL DEFAULT 'held' CHECK (status IN ('held', 'captured', 'voided', 'expired')),
+    transaction_id TEXT NULL REFERENCES transactions (transaction_id),
+    expires_at INTEGER NOT NULL,
+    created_at INTEGER NOT NULL,
+    updated_at INTEGER NOT NULL,
+    CHECK (captured_amount IS NULL OR captured_amount <= amount)
+  );
+  CREATE INDEX IF NOT EXISTS idx_holds_account ON holds (account_id, status, expires_at);
+
+  CREATE TABLE IF NOT EXISTS schedules (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    schedule_id TEXT NOT NULL UNIQUE,
+    user_id INTEGER NOT NULL REFERENCES users (id) ON DELETE CASCADE,
+    source_account_id INTEGER NOT NULL REFERENCES accounts (id),
+    destination_account_id INTEGER NOT NULL REFERENCES accounts (id),
+    amount INTEGER NOT NULL CHECK (amount > 0),
+    frequency TEXT NOT NULL CHECK (frequency IN ('once', 'daily', 'weekly', 'monthly')),
+    start_at INTEGER NOT NULL,
+    end_at INTEGER NULL,
+    next_run_at INTEGER NULL,
+    status TEXT NOT NULL DEFAULT 'active' CHECK (status IN ('active', 'paused', 'cancelled', 'completed')),
+    run_count INTEGER NOT NULL DEFAULT 0,
+    locked_by TEXT NULL,
+    locked_until INTEGER NULL,
+    created_at INTEGER NOT NULL,
+    updated_at INTEGER NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS idx_schedules_due ON schedules (status, next_run_at);
+
+  CREATE TABLE IF NOT EXISTS schedule_runs (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    schedule_id INTEGER NOT NULL REFERENCES schedules (id) ON DELETE CASCADE,
+    scheduled_for INTEGER NOT NULL,
+    transaction_id TEXT NULL REFERENCES transactions (transaction_id),
+    status TEXT NOT NULL CHECK (status IN ('completed', 'failed')),
+    failure_reason TEXT NULL,
+    created_at INTEGER NOT NULL,
+    UNIQUE (schedule_id, scheduled_for)
+  );
+
+  CREATE TABLE IF NOT EXISTS webhook_endpoints (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    endpoint_id TEXT NOT NULL UNIQUE,
+    user_id INTEGER NOT NULL REFERENCES users (id) ON DELETE CASCADE,
+    url TEXT NOT NULL,
+    description TEXT NULL,
+    events TEXT NOT NULL,
+    secret TEXT NOT NULL,
+    status TEXT NOT NULL DEFAULT 'active' CHECK (status IN ('active', 'disabled')),
+    created_at INTEGER NOT NULL,
+    updated_at INTEGER NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS idx_webhook_endpoints_user ON webhook_endpoints (user_id, status);
+
+  CREATE TABLE IF NOT EXISTS webhook_deliveries (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    delivery_id TEXT NOT NULL UNIQUE,
+    endpoint_id INTEGER NOT NULL REFERENCES webhook_endpoints (id) ON DELETE CASCADE,
+    event_id TEXT NOT NULL,
+    event_type TEXT NOT NULL,
+    payload TEXT NOT NULL,
+    status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'delivered', 'failed')),
+    attempt_count INTEGER NOT NULL DEFAULT 0,
+    next_attempt_at INTEGER NULL,
+    last_attempt_at INTEGER NULL,
+    delivered_at INTEGER NULL,
+    locked_by TEXT NULL,
+    locked_until INTEGER NULL,
+    created_at INTEGER NOT NULL,
+    UNIQUE (endpoint_id, event_id)
+  );
+  CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_due ON webhook_deliveries (status, next_attempt_at);
+
+  CREATE TABLE IF NOT EXISTS webhook_attempts (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    delivery_id INTEGER NOT NULL REFERENCES webhook_deliveries (id) ON DELETE CASCADE,
+    response_status INTEGER NULL,
+    error TEXT NULL,
+    duration_ms INTEGER NOT NULL,
+    succeeded INTEGER NOT NULL,
+    attempted_at INTEGER NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS idx_webhook_attempts_delivery ON webhook_attempts (delivery_id);
+
+  CREATE TABLE IF NOT EXISTS payment_batches (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    batch_id TEXT NOT NULL UNIQUE,
+    user_id INTEGER NOT NULL REFERENCES users (id) ON DELETE CASCADE,
+    file_format TEXT NOT NULL CHECK (file_format IN ('csv', 'pain001')),
+    file_reference TEXT NULL,
+    mode TEXT NOT NULL CHECK (mode IN ('all_or_nothing', 'best_effort')),
+    status TEXT NOT NULL DEFAULT 'previewed'
+      CHECK (status IN ('previewed', 'processing', 'completed', 'partially_completed', 'failed', 'cancelled')),
+    line_count INTEGER NOT NULL,
+    valid_line_count INTEGER NOT NULL,
+    total_amount INTEGER NOT NULL,
+    created_at INTEGER NOT NULL,
+    confirmed_at INTEGER NULL,
+    completed_at INTEGER NULL
+  );
+  CREATE INDEX IF NOT EXISTS idx_payment_batches_user ON payment_batches (user_id, created_at);
+
+  CREATE TABLE IF NOT EXISTS payment_batch_lines (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    batch_id INTEGER NOT NULL REFERENCES payment_batches (id) ON DELETE CASCADE,
+    line_number INTEGER NOT NULL,
+    reference TEXT NULL,
+    type TEXT NULL,
+    amount INTEGER NULL,
+    source_account_id INTEGER NULL,
+    destination_account_id INTEGER NULL,
+    status TEXT NOT NULL
+      CHECK (status IN ('valid', 'invalid', 'completed', 'failed', 'pending_review', 'not_executed')),
+    error TEXT NULL,
+    transaction_id TEXT NULL REFERENCES transactions (transaction_id),
+    UNIQUE (batch_id, line_number)
+  );
+`;
@@ -0,0 +1,91 @@
+import type { DatabaseSync, SQLInputValue } from 'node:sqlite';
+import { Money } from '../../utils/money';
+import { User, UserRole } from '../../model/user';
+
+// Runs work against the connection, inside the session's transaction or on its own
+export type Scope = <T>(work: (database: DatabaseSync) => T) => Promise<T>;
+
+export interface SqliteUserRow {
+  id: number;
+  username: string;
+  role: string;
+  kyc_tier: string;
+  require_signed_requests: number;
+  created_at: number;
+  updated_at: number;
+}
+
+/**
+ * Convert a value to what SQLite stores for it
+ */
+const toSqlite = (value: unknown): SQLInputValue => {
+  if (value === undefined || value === null) {
+    return null;
+  }
+  if (value instanceof Money) {
+    return value.minorUnits;
+  }
+  if (value instanceof Date) {
+    return value.getTime();
+  }
+  if (typeof value === 'boolean') {
+    return value ? 1 : 0;
+  }
+  return value as SQLInputValue;
+};
+
+export function all<T>(database: DatabaseSync, sql: string, params: unknown[] = []): T[] {
+  return database.prepare(sql).all(...params.map(toSqlite)) as unknown as T[];
+}
+
+export function get<T>(database: DatabaseSync, sql: string, params: unknown[] = []): T | null {
+  return (database.prepare(sql).get(...params.map(toSqlite)) as unknown as T | undefined) ?? null;
+}
+
+export function run(database: DatabaseSync, sql: string, params: unknown[] = []): number {
+  return Number(database.prepare(sql).run(...params.map(toSqlite)).lastInsertRowid);
+}
+
+/**
+ * Apply the defined fields of a change to one row
+ */
+export function update(database: DatabaseSync, table: string, key: string, id: unknown, changes: Record<string, unknown>): void {
+  const columns = Object.keys(changes).filter(column => changes[column] !== undefined);
+  if (columns.length > 0) {
+    run(
+      database,
+      `UPDATE ${table} SET ${columns.map(column => `${column} = ?`).join(', ')} WHERE ${key} = ?`,
+      [...columns.map(column => changes[column]), id]
+    );
+  }
+}
+
+/**
+ * Translate SQLite constraint failures into the errors the repositories promise
+ */
+export function rethrowConstraint(error: unknown, messages: { unique?: string; foreignKey?: string }): never {
+  const message = (error as Error).message ?? '';
+  if (messages.unique && message.includes('UNIQUE constraint failed')) {
+    throw new Error(messages.unique);
+  }
+  if (messages.foreignKey && message.includes('FOREIGN KEY constraint failed')) {
+    throw new Error(messages.foreignKey);
+  }
+  throw error;
+}
+
+export const toDate = (value: number | null): Date | null => (value === null ? null : new Date(value));
+
+export const toMoney = (value: number | null): Money | null => (value === null ? null : Money.fromMinorUnits(value));
+
+export function mapRowToUser(row: SqliteUserRow): User {
+  return {
+    id: row.id,
+    username: row.username,
+    role: row.role as UserRole,
+    kyc_tier: row.kyc_tier,
+    require_signed_requests: Boolean(row.require_signed_requests),
+    created_at: new Date(row.created_at),
+    updated_at: new Date(row.updated_at)
+  };
+}
@@ -0,0 +1,100 @@
+import { Money } from '../../utils/money';
+import { ChainedTransaction, ChainHead, LinkedTransaction } from '../../model/transactionChain';
+import { ChainLink, TransactionChainRepository } from '../repositories';
+import { Scope, all, get, run } from './support';
+
+// Timestamps are epoch milliseconds; the chain hashes whole Unix seconds
+const CHAIN_COLUMNS = `t.transaction_id, t.type, t.amount, t.source_account_id, t.destination_account_id,
+  t.original_transaction_id, t.batch_id, t.reversed_amount, t.status, t.failure_reason,
+  t.created_at / 1000 AS created_epoch, t.chain_sequence, t.prev_hash, t.row_hash`;
+
+type SqliteChainedRow = Omit<ChainedTransaction, 'amount' | 'reversed_amount'> & {
+  amount: number;
+  reversed_amount: number;
+};
+
+export class SqliteTransactionChainRepository implements TransactionChainRepository {
+  constructor(private readonly scope: Scope) {}
+
+  getHead(): Promise<ChainHead> {
+    return this.scope(database => {
+      const state = get<{ last_sequence: number; last_hash: string }>(
+        database,
+        'SELECT last_sequence, last_hash FROM transaction_chain_state WHERE id = 1'
+      )!;
+      return { sequence: state.last_sequence, hash: state.last_hash };
+    });
+  }
+
+  findTransaction(transactionId: string): Promise<ChainedTransaction | null> {
+    return this.scope(database => {
+      const row = get<SqliteChainedRow>(
+        database,
+        `SELECT ${CHAIN_COLUMNS} FROM transactions t WHERE t.transaction_id = ?`,
+        [transactionId]
+      );
+      return row ? this.mapRowToChained(row) : null;
+    });
+  }
+
+  listUnlinked(limit: number): Promise<ChainedTransaction[]> {
+    return this.scope(database =>
+      all<SqliteChainedRow>(database, `
+        SELECT ${CHAIN_COLUMNS} FROM transactions t
+        WHERE t.chain_sequence IS NULL AND t.status <> 'pending_review'
+        ORDER BY t.id
+        LIMIT ?
+      `, [limit]).map(row => this.mapRowToChained(row))
+    );
+  }
+
+  countUnlinked(): Promise<number> {
+    return this.scope(database =>
+      get<{ count: number }>(
+        database,
+        "SELECT COUNT(*) AS count FROM transactions WHERE chain_sequence IS NULL AND status <> 'pending_review'"
+      )!.count
+    );
+  }
+
+  listLinked(afterSequence: number, limit: number): Promise<LinkedTransaction[]> {
+    return this.scope(database =>
+      all<SqliteChainedRow & { linked_reversed: number }>(database, `
+        SELECT ${CHAIN_COLUMNS},
+          (SELECT COALESCE(SUM(r.amount), 0) FROM transactions r
+           WHERE r.original_transaction_id = t.transaction_id AND r.type = 'reversal'
+             AND r.status = 'completed' AND r.chain_sequence IS NOT NULL) AS linked_reversed
+        FROM transactions t
+        WHERE t.chain_sequence > ?
+        ORDER BY t.chain_sequence
+        LIMIT ?
+      `, [afterSequence, limit]).map(row => ({
+        ...this.mapRowToChained(row),
+        linked_reversed: Money.fromMinorUnits(row.linked_reversed)
+      }))
+    );
+  }
+
+  link(transactionId: string, link: ChainLink): Promise<void> {
+    return this.scope(database => {
+      run(
+        database,
+        'UPDATE transactions SET chain_sequence = ?, prev_hash = ?, row_hash = ? WHERE transaction_id = ?',
+        [link.sequence, link.prev_hash, link.row_hash, transactionId]
+      );
+      run(
+        database,
+        'UPDATE transaction_chain_state SET last_sequence = ?, last_hash = ? WHERE id = 1',
+        [link.sequence, link.row_hash]
+      );
+    });
+  }
+
+  private mapRowToChained(row: SqliteChainedRow): ChainedTransaction {
+    return {
+      ...row,
+      amount: Money.fromMinorUnits(row.amount),
+      reversed_amount: Money.fromMinorUnits(row.reversed_amount)
+    };
+  }
+}
@@ -0,0 +1,379 @@
+import type { DatabaseSync } from 'node:sqlite';
+import { Money } from '../../utils/money';
+import { LedgerService } from '../../service/ledgerService';
+import { LedgerPosting, LedgerSummary } from '../../model/ledger';
+import { LimitedTransactionType, LimitUsage } from '../../model/limit';
+import { StatementEntry } from '../../model/statement';
+import {
+  AccountSummary,
+  AccountTransaction,
+  FailedTransactionSummary,
+  Transaction,
+  TransactionStatus,
+  TransactionType
+} from '../../model/transaction';
+import {
+  AccountHistoryQuery,
+  NewTransaction,
+  OutgoingQuery,
+  TransactionChanges,
+  TransactionRepository
+} from '../repositories';
+import { Scope, all, get, run, update } from './support';
+
+const MINUTE = 60 * 1000;
+const DAY = 24 * 60 * MINUTE;
+
+interface SqliteTransactionRow {
+  id: number;
+  transaction_id: string;
+  type: string;
+  amount: number;
+  source_account_id: number | null;
+  destination_account_id: number | null;
+  original_transaction_id: string | null;
+  batch_id: string | null;
+  reversed_amount: number;
+  status: string;
+  failure_reason: string | null;
+  created_at: number;
+}
+
+export class SqliteTransactionRepository implements TransactionRepository {
+  constructor(private readonly scope: Scope) {}
+
+  findByTransactionId(transactionId: string): Promise<Transaction | null> {
+    return this.scope(database => {
+      const row = get<SqliteTransactionRow>(database, 'SELECT * FROM transactions WHERE transaction_id = ?', [transactionId]);
+      return row ? this.mapRowToTransaction(row) : null;
+    });
+  }
+
+  findByBatchId(batchId: string): Promise<Transaction[]> {
+    return this.scope(database =>
+      all<SqliteTransactionRow>(database, 'SELECT * FROM transactions WHERE batch_id = ? ORDER BY id', [batchId])
+        .map(row => this.mapRowToTransaction(row))
+    );
+  }
+
+  insert(record: NewTransaction): Promise<void> {
+    return this.scope(database => {
+      run(
+        database,
+        `INSERT INTO transactions (transaction_id, type, amount, source_account_id, destination_account_id, original_transaction_id, batch_id, status, failure_reason, created_at)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+        [
+          record.transaction_id,
+          record.type,
+          record.amount,
+          record.source_account_id,
+          record.destination_account_id,
+          record.original_transaction_id,
+          record.batch_id,
+          record.status,
+          record.failure_reason,
+          Date.now()
+        ]
+      );
+      this.recordBalancesAfter(database, record.transaction_id);
+    });
+  }
+
+  update(transactionId: string, changes: TransactionChanges): Promise<void> {
+    return this.scope(database => {
+      update(database, 'transactions', 'transaction_id', transactionId, { ...changes });
+    });
+  }
+
+  recordJournalEntry(transactionId: string, description: string, postings: LedgerPosting[]): Promise<void> {
+    return this.scope(database => {
+      LedgerService.assertBalanced(postings);
+
+      // The savepoint makes the entry atomic even when called outside a session
+      database.exec('SAVEPOINT journal_entry');
+      try {
+        const journalEntryId = run(
+          database,
+          'INSERT INTO journal_entries (transaction_id, description, created_at) VALUES (?, ?, ?)',
+          [transactionId, description, Date.now()]
+        );
+
+        for (const posting of postings) {
+          run(
+            database,
+            'INSERT INTO ledger_postings (journal_entry_id, account_id, system_account, amount) VALUES (?, ?, ?, ?)',
+            [journalEntryId, posting.account_id, posting.system_account, posting.amount]
+          );
+
+          if (posting.account_id !== undefined) {
+            run(
+              database,
+              'UPDATE accounts SET balance = balance + ?, updated_at = ? WHERE id = ?',
+              [posting.amount, Date.now(), posting.account_id]
+            );
+          }
+        }
+        this.recordBalancesAfter(database, transactionId);
+        database.exec('RELEASE journal_entry');
+      } catch (error) {
+        database.exec('ROLLBACK TO journal_entry');
+        database.exec('RELEASE journal_entry');
+        throw error;
+      }
+    });
+  }
+
+  listForAccount(accountId: number, query: AccountHistoryQuery): Promise<AccountTransaction[]> {
+    const conditions: string[] = ['(source_account_id = ? OR destination_account_id = ?)'];
+    const params: unknown[] = [accountId, accountId];
+
+    if (query.type) {
+      conditions.push('type = ?');
+      params.push(query.type);
+    }
+    if (query.status) {
+      conditions.push('status = ?');
+      params.push(query.status);
+    }
+    if (query.direction === 'in') {
+      conditions.push('destination_account_id = ?');
+      params.push(accountId);
+    } else if (query.direction === 'out') {
+      conditions.push('source_account_id = ?');
+      params.push(accountId);
+    }
+    if (query.min_amount !== undefined) {
+      conditions.push('amount >= ?');
+      params.push(query.min_amount);
+    }
+    if (query.max_amount !== undefined) {
+      conditions.push('amount <= ?');
+      params.push(query.max_amount);
+    }
+    if (query.from) {
+      conditions.push('created_at >= ?');
+      params.push(query.from);
+    }
+    if (query.to) {
+      conditions.push('created_at <= ?');
+      params.push(query.to);
+    }
+    if (query.before_id !== undefined) {
+      conditions.push('id < ?');
+      params.push(query.before_id);
+    }
+
+    return this.scope(database =>
+      all<SqliteTransactionRow & { signed_amount: number; running_balance: number }>(database, `
+        SELECT transactions.*,
+          CASE
+            WHEN status IN ('failed', 'pending_review') THEN 0
+            WHEN source_account_id = ? AND destination_account_id = ? THEN 0
+            WHEN destination_account_id = ? THEN amount
+            ELSE -amount
+          END AS signed_amount,
+          IIF(destination_account_id = ?, destination_balance_after, source_balance_after) AS running_balance
+        FROM transactions
+        WHERE ${conditions.join(' AND ')}
+        ORDER BY id DESC
+        LIMIT ?
+      `, [accountId, accountId, accountId, accountId, ...params, query.limit]).map(row => ({
+        ...this.mapRowToTransaction(row),
+        direction: row.destination_account_id === accountId ? 'in' as const : 'out' as const,
+        signed_amount: Money.fromMinorUnits(row.signed_amount),
+        running_balance: Money.fromMinorUnits(row.running_balance)
+      }))
+    );
+  }
+
+  countOutgoing(sourceAccountId: number, query: OutgoingQuery): Promise<number> {
+    const conditions: string[] = [];
+    const params: unknown[] = [];
+    if (query.type) {
+      conditions.push('type = ?');
+      params.push(query.type);
+    }
+    if (query.multiple_of) {
+      conditions.push('amount % ? = 0');
+      params.push(query.multiple_of);
+    }
+
+    return this.scope(database =>
+      get<{ count: number }>(database, `
+        SELECT COUNT(*) AS count FROM transactions
+        WHERE source_account_id = ? AND status <> 'failed'
+          AND created_at >= ?${conditions.map(condition => ` AND ${condition}`).join('')}
+      `, [sourceAccountId, Date.now() - query.within_minutes * MINUTE, ...params])!.count
+    );
+  }
+
+  hasTransferred(sourceAccountId: number, destinationAccountId: number): Promise<boolean> {
+    return this.scope(database =>
+      get(database, `
+        SELECT 1 FROM transactions
+        WHERE source_account_id = ? AND destination_account_id = ? AND type = 'transfer' AND status <> 'failed'
+        LIMIT 1
+      `, [sourceAccountId, destinationAccountId]) !== null
+    );
+  }
+
+  getUsage(type: LimitedTransactionType, scope: 'account' | 'user', id: number): Promise<LimitUsage> {
+    const column = type === 'deposit' ? 'destination_account_id' : 'source_account_id';
+    const filter = scope === 'account' ? `${column} = ?` : `${column} IN (SELECT id FROM accounts WHERE user_id = ?)`;
+    const now = Date.now();
+
+    return this.scope(database => {
+      const usage = get<{ daily: number; monthly: number }>(database, `
+        SELECT
+          COALESCE(SUM(CASE WHEN created_at >= ? THEN amount END), 0) AS daily,
+          COALESCE(SUM(amount), 0) AS monthly
+        FROM transactions
+        WHERE type = ? AND status NOT IN ('failed', 'pending_review') AND ${filter} AND created_at >= ?
+      `, [now - DAY, type, id, now - 30 * DAY])!;
+
+      return {
+        daily: Money.fromMinorUnits(usage.daily),
+        monthly: Money.fromMinorUnits(usage.monthly)
+      };
+    });
+  }
+
+  getPostedBalance(accountId: number, before: Date): Promise<Money> {
+    return this.scope(database =>
+      Money.fromMinorUnits(get<{ balance: number }>(database, `
+        SELECT COALESCE(SUM(p.amount), 0) AS balance
+        FROM ledger_postings p
+        JOIN journal_entries je ON je.id = p.journal_entry_id
+        WHERE p.account_id = ? AND je.created_at < ?
+      `, [accountId, before])!.balance)
+    );
+  }
+
+  listJournalEntries(accountId: number, from: Date, to: Date): Promise<StatementEntry[]> {
+    // Postings are summed per journal entry in case an entry touches the account twice
+    return this.scope(database =>
+      all<Omit<StatementEntry, 'booked_at' | 'amount'> & { booked_at: number; amount: number }>(database, `
+        SELECT
+          je.id AS journal_entry_id,
+          je.created_at AS booked_at,
+          je.description,
+          t.transaction_id,
+          t.type,
+          t.original_transaction_id,
+          t.source_account_id,
+          t.destination_account_id,
+          src.account_number AS source_account_number,
+          dst.account_number AS destination_account_number,
+          SUM(p.amount) AS amount
+        FROM ledger_postings p
+        JOIN journal_entries je ON je.id = p.journal_entry_id
+        LEFT JOIN transactions t ON t.transaction_id = je.transaction_id
+        LEFT JOIN accounts src ON src.id = t.source_account_id
+        LEFT JOIN accounts dst ON dst.id = t.destination_account_id
+        WHERE p.account_id = ? AND je.created_at >= ? AND je.created_at < ?
+        GROUP BY je.id
+        ORDER BY je.id
+      `, [accountId, from, to]).map(row => ({
+        ...row,
+        booked_at: new Date(row.booked_at),
+        amount: Money.fromMinorUnits(row.amount)
+      }))
+    );
+  }
+
+  summarizeAccounts(): Promise<AccountSummary[]> {
+    return this.scope(database =>
+      all<{ account_id: number; account_number: string; username: string; current_balance: number; largest_transaction: number }>(database, `
+        SELECT
+          a.id as account_id,
+          a.account_number,
+          u.username,
+          a.balance as current_balance,
+          COALESCE(MAX(t.amount), 0) as largest_transaction
+        FROM accounts a
+        LEFT JOIN users u ON a.user_id = u.id
+        LEFT JOIN transactions t ON (a.id = t.source_account_id OR a.id = t.destination_account_id)
+          AND t.status NOT IN ('failed', 'pending_review')
+        GROUP BY a.id, a.account_number, u.username, a.balance
+      `).map(row => ({
+        account_id: row.account_id,
+        account_number: row.account_number,
+        username: row.username,
+        current_balance: Money.fromMinorUnits(row.current_balance),
+        largest_transaction: Money.fromMinorUnits(row.largest_transaction)
+      }))
+    );
+  }
+
+  summarizeFailures(): Promise<FailedTransactionSummary[]> {
+    return this.scope(database =>
+      all<FailedTransactionSummary>(database, `
+        SELECT failure_reason as reason, COUNT(*) as count
+        FROM transactions
+        WHERE status = 'failed' AND failure_reason IS NOT NULL
+        GROUP BY failure_reason
+      `)
+    );
+  }
+
+  summarizeLedger(): Promise<LedgerSummary> {
+    return this.scope(database => ({
+      accounts: all<{ account_id: number; account_number: string; stored_balance: number; ledger_balance: number }>(database, `
+        SELECT
+          a.id as account_id,
+          a.account_number,
+          a.balance as stored_balance,
+          COALESCE(SUM(p.amount), 0) as ledger_balance
+        FROM accounts a
+        LEFT JOIN ledger_postings p ON p.account_id = a.id
+        GROUP BY a.id, a.account_number, a.balance
+        ORDER BY a.id
+      `).map(row => ({
+        account_id: row.account_id,
+        account_number: row.account_number,
+        stored_balance: Money.fromMinorUnits(row.stored_balance),
+        ledger_balance: Money.fromMinorUnits(row.ledger_balance)
+      })),
+      unbalanced_entries: all<{ journal_entry_id: number; transaction_id: string | null; total: number }>(database, `
+        SELECT j.id as journal_entry_id, j.transaction_id, SUM(p.amount) as total
+        FROM journal_entries j
+        JOIN ledger_postings p ON p.journal_entry_id = j.id
+        GROUP BY j.id, j.transaction_id
+        HAVING SUM(p.amount) <> 0
+      `).map(row => ({
+        journal_entry_id: row.journal_entry_id,
+        transaction_id: row.transaction_id,
+        total: Money.fromMinorUnits(row.total)
+      }))
+    }));
+  }
+
+  /**
+   * Store the current balances of a transaction's accounts as their balances after it
+   */
+  private recordBalancesAfter(database: DatabaseSync, transactionId: string): void {
+    run(database, `
+      UPDATE transactions
+      SET source_balance_after = (SELECT balance FROM accounts WHERE id = transactions.source_account_id),
+        destination_balance_after = (SELECT balance FROM accounts WHERE id = transactions.destination_account_id)
+      WHERE transaction_id = ?
+    `, [transactionId]);
+  }
+
+  private mapRowToTransaction(row: SqliteTransactionRow): Transaction {
+    return {
+      id: row.id,
+      transaction_id: row.transaction_id,
+      type: row.type as TransactionType,
+      amount: Money.fromMinorUnits(row.amount),
+      source_account_id: row.source_account_id ?? undefined,
+      destination_account_id: row.destination_account_id ?? undefined,
+      original_transaction_id: row.original_transaction_id ?? undefined,
+      batch_id: row.batch_id ?? undefined,
+      reversed_amount: Money.fromMinorUnits(row.reversed_amount),
+      status: row.status as TransactionStatus,
+      failure_reason: row.failure_reason ?? undefined,
+      created_at: new Date(row.created_at)
+    };
+  }
+}
@@ -0,0 +1,40 @@
+import { User } from '../../model/user';
+import { NewUser, UserChanges, UserRepository } from '../repositories';
+import { Scope, SqliteUserRow, get, mapRowToUser, rethrowConstraint, run, update } from './support';
+
+export class SqliteUserRepository implements UserRepository {
+  constructor(private readonly scope: Scope) {}
+
+  findById(id: number): Promise<User | null> {
+    return this.scope(database => {
+      const row = get<SqliteUserRow>(database, 'SELECT * FROM users WHERE id = ?', [id]);
+      return row ? mapRowToUser(row) : null;
+    });
+  }
+
+  create(data: NewUser): Promise<User> {
+    return this.scope(database => {
+      const now = Date.now();
+      try {
+        const id = run(
+          database,
+          'INSERT INTO users (username, role, kyc_tier, created_at, updated_at) VALUES (?, ?, ?, ?, ?)',
+          [data.username, data.role ?? 'customer', data.kyc_tier ?? 'basic', now, now]
+        );
+        return mapRowToUser(get<SqliteUserRow>(database, 'SELECT * FROM users WHERE id = ?', [id])!);
+      } catch (error) {
+        rethrowConstraint(error, { unique: 'Username already exists', foreignKey: 'KYC tier does not exist' });
+      }
+    });
+  }
+
+  update(id: number, changes: UserChanges): Promise<void> {
+    return this.scope(database => {
+      try {
+        update(database, 'users', 'id', id, { ...changes, updated_at: Date.now() });
+      } catch (error) {
+        rethrowConstraint(error, { foreignKey: 'KYC tier does not exist' });
+      }
+    });
+  }
+}
@@ -0,0 +1,260 @@
+import {
+  WebhookAttempt,
+  WebhookDelivery,
+  WebhookDeliveryFilters,
+  WebhookDeliveryStatus,
+  WebhookEndpoint,
+  WebhookEndpointRecord,
+  WebhookEndpointStatus,
+  WebhookEventType
+} from '../../model/webhook';
+import {
+  NewWebhookDelivery,
+  NewWebhookEndpoint,
+  WebhookAttemptOutcome,
+  WebhookDeliveryRepository,
+  WebhookEndpointRepository
+} from '../repositories';
+import { Scope, all, get, run, toDate } from './support';
+
+interface SqliteEndpointRow {
+  id: number;
+  endpoint_id: string;
+  user_id: number;
+  url: string;
+  description: string | null;
+  events: string;
+  secret: string;
+  status: string;
+  created_at: number;
+  updated_at: number;
+}
+
+interface SqliteDeliveryRow {
+  id: number;
+  delivery_id: string;
+  public_endpoint_id: string;
+  event_id: string;
+  event_type: string;
+  payload: string;
+  status: string;
+  attempt_count: number;
+  next_attempt_at: number | null;
+  last_attempt_at: number | null;
+  delivered_at: number | null;
+  created_at: number;
+}
+
+interface SqliteAttemptRow {
+  response_status: number | null;
+  error: string | null;
+  duration_ms: number;
+  succeeded: number;
+  attempted_at: number;
+}
+
+const DELIVERY_COLUMNS = 'd.*, e.endpoint_id AS public_endpoint_id';
+
+export class SqliteWebhookEndpointRepository implements WebhookEndpointRepository {
+  constructor(private readonly scope: Scope) {}
+
+  insert(data: NewWebhookEndpoint): Promise<void> {
+    return this.scope(database => {
+      const now = Date.now();
+      run(
+        database,
+        `INSERT INTO webhook_endpoints (endpoint_id, user_id, url, description, events, secret, created_at, updated_at)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+        [data.endpoint_id, data.user_id, data.url, data.description, JSON.stringify(data.events), data.secret, now, now]
+      );
+    });
+  }
+
+  findByEndpointId(endpointId: string): Promise<WebhookEndpointRecord | null> {
+    return this.scope(database => {
+      const row = get<SqliteEndpointRow>(database, 'SELECT * FROM webhook_endpoints WHERE endpoint_id = ?', [endpointId]);
+      return row ? { ...this.mapRowToEndpoint(row), secret: row.secret } : null;
+    });
+  }
+
+  listForUser(userId: number): Promise<WebhookEndpoint[]> {
+    return this.scope(database =>
+      all<SqliteEndpointRow>(database, 'SELECT * FROM webhook_endpoints WHERE user_id = ? ORDER BY id DESC', [userId])
+        .map(row => this.mapRowToEndpoint(row))
+    );
+  }
+
+  countActive(userId: number): Promise<number> {
+    return this.scope(database =>
+      get<{ count: number }>(
+        database,
+        "SELECT COUNT(*) AS count FROM webhook_endpoints WHERE user_id = ? AND status = 'active'",
+        [userId]
+      )!.count
+    );
+  }
+
+  setStatus(endpointId: string, status: WebhookEndpointStatus): Promise<void> {
+    return this.scope(database => {
+      run(database, 'UPDATE webhook_endpoints SET status = ?, updated_at = ? WHERE endpoint_id = ?', [status, Date.now(), endpointId]);
+    });
+  }
+
+  listSubscribed(accountId: number, eventType: WebhookEventType): Promise<WebhookEndpoint[]> {
+    return this.scope(database =>
+      all<SqliteEndpointRow>(database, `
+        SELECT e.* FROM webhook_endpoints e
+        JOIN accounts a ON a.user_id = e.user_id
+        WHERE a.id = ? AND e.status = 'active'
+        ORDER BY e.id
+      `, [accountId])
+        .map(row => this.mapRowToEndpoint(row))
+        .filter(endpoint => endpoint.events.includes(eventType))
+    );
+  }
+
+  private mapRowToEndpoint(row: SqliteEndpointRow): WebhookEndpoint {
+    return {
+      id: row.id,
+      endpoint_id: row.endpoint_id,
+      user_id: row.user_id,
+      url: row.url,
+      description: row.description,
+      events: JSON.parse(row.events),
+      status: row.status as WebhookEndpointStatus,
+      created_at: new Date(row.created_at),
+      updated_at: new Date(row.updated_at)
+    };
+  }
+}
+
+export class SqliteWebhookDeliveryRepository implements WebhookDeliveryRepository {
+  constructor(private readonly scope: Scope) {}
+
+  insert(data: NewWebhookDelivery): Promise<void> {
+    // The unique (endpoint_id, event_id) key makes queueing the same event twice a no-op
+    return this.scope(database => {
+      const now = Date.now();
+      run(database, `
+        INSERT OR IGNORE INTO webhook_deliveries (delivery_id, endpoint_id, event_id, event_type, payload, next_attempt_at, created_at)
+        VALUES (?, ?, ?, ?, ?, ?, ?)
+      `, [data.delivery_id, data.endpoint_id, data.event_id, data.event_type, JSON.stringify(data.payload), now, now]);
+    });
+  }
+
+  find(endpointId: string, deliveryId: string): Promise<WebhookDelivery | null> {
+    return this.scope(database => {
+      const row = get<SqliteDeliveryRow>(database, `
+        SELECT ${DELIVERY_COLUMNS}
+        FROM webhook_deliveries d
+        JOIN webhook_endpoints e ON e.id = d.endpoint_id
+        WHERE e.endpoint_id = ? AND d.delivery_id = ?
+      `, [endpointId, deliveryId]);
+      return row ? this.mapRowToDelivery(row) : null;
+    });
+  }
+
+  listForEndpoint(endpointId: string, filters: WebhookDeliveryFilters): Promise<WebhookDelivery[]> {
+    const params: unknown[] = [endpointId];
+    let statusCondition = '';
+    if (filters.status) {
+      statusCondition = 'AND d.status = ?';
+      params.push(filters.status);
+    }
+
+    return this.scope(database =>
+      all<SqliteDeliveryRow>(database, `
+        SELECT ${DELIVERY_COLUMNS}
+        FROM webhook_deliveries d
+        JOIN webhook_endpoints e ON e.id = d.endpoint_id
+        WHERE e.endpoint_id = ? ${statusCondition}
+        ORDER BY d.id DESC
+        LIMIT ?
+      `, [...params, filters.limit]).map(row => this.mapRowToDelivery(row))
+    );
+  }
+
+  listDue(limit: number): Promise<WebhookDelivery[]> {
+    return this.scope(database => {
+      const now = Date.now();
+      return all<SqliteDeliveryRow>(database, `
+        SELECT ${DELIVERY_COLUMNS}
+        FROM webhook_deliveries d
+        JOIN webhook_endpoints e ON e.id = d.endpoint_id
+        WHERE d.status = 'pending' AND d.next_attempt_at <= ? AND e.status = 'active'
+          AND (d.locked_until IS NULL OR d.locked_until < ?)
+        ORDER BY d.next_attempt_at
+        LIMIT ?
+      `, [now, now, limit]).map(row => this.mapRowToDelivery(row));
+    });
+  }
+
+  lease(id: number, workerId: string, seconds: number): Promise<void> {
+    return this.scope(database => {
+      run(database, 'UPDATE webhook_deliveries SET locked_by = ?, locked_until = ? WHERE id = ?', [workerId, Date.now() + seconds * 1000, id]);
+    });
+  }
+
+  recordAttempt(id: number, attempt: Omit<WebhookAttempt, 'attempted_at'>, outcome: WebhookAttemptOutcome): Promise<void> {
+    return this.scope(database => {
+      const now = Date.now();
+      run(database, `
+        INSERT INTO webhook_attempts (delivery_id, response_status, error, duration_ms, succeeded, attempted_at)
+        VALUES (?, ?, ?, ?, ?, ?)
+      `, [id, attempt.response_status, attempt.error, attempt.duration_ms, attempt.succeeded, now]);
+
+      const pending = outcome.status === 'pending';
+      run(database, `
+        UPDATE webhook_deliveries
+        SET status = ?, attempt_count = ?, last_attempt_at = ?,
+          delivered_at = ${outcome.status === 'delivered' ? '?' : 'delivered_at'},
+          next_attempt_at = ?, locked_by = NULL, locked_until = NULL
+        WHERE id = ?
+      `, [
+        outcome.status,
+        outcome.attempt_count,
+        now,
+        ...(outcome.status === 'delivered' ? [now] : []),
+        pending ? now + (outcome.retry_in_seconds ?? 0) * 1000 : null,
+        id
+      ]);
+    });
+  }
+
+  listAttempts(id: number): Promise<WebhookAttempt[]> {
+    return this.scope(database =>
+      all<SqliteAttemptRow>(
+        database,
+        'SELECT response_status, error, duration_ms, succeeded, attempted_at FROM webhook_attempts WHERE delivery_id = ? ORDER BY id',
+        [id]
+      ).map(row => ({ ...row, succeeded: Boolean(row.succeeded), attempted_at: new Date(row.attempted_at) }))
+    );
+  }
+
+  requeue(id: number): Promise<void> {
+    return this.scope(database => {
+      run(database, `
+        UPDATE webhook_deliveries
+        SET status = 'pending', attempt_count = 0, next_attempt_at = ?, locked_by = NULL, locked_until = NULL
+        WHERE id = ?
+      `, [Date.now(), id]);
+    });
+  }
+
+  private mapRowToDelivery(row: SqliteDeliveryRow): WebhookDelivery {
+    return {
+      id: row.id,
+      delivery_id: row.delivery_id,
+      endpoint_id: row.public_endpoint_id,
+      event_id: row.event_id,
+      event_type: row.event_type as WebhookEventType,
+      payload: JSON.parse(row.payload),
+      status: row.status as WebhookDeliveryStatus,
+      attempt_count: row.attempt_count,
+      next_attempt_at: toDate(row.next_attempt_at),
+      last_attempt_at: toDate(row.last_attempt_at),
+      delivered_at: toDate(row.delivered_at),
+      created_at: new Date(row.created_at)
+    };
+  }
+}
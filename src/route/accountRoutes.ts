@@ -5,10 +5,67 @@ import { asyncHandler } from '../middleware/error';
 
 const router = Router();
 
+// Open a new account for the authenticated user
+router.post('/',
+  asyncHandler(AccountController.openAccount)
+);
+
+// List the authenticated user's accounts
+router.get('/',
+  asyncHandler(AccountController.listAccounts)
+);
+
+// Live feed of the account's events over Server-Sent Events (resume with Last-Event-ID)
+router.get('/:accountId/events',
+  validate(schemas.accountId, 'params'),
+  validate(schemas.eventStreamHeaders, 'headers'),
+  validate(schemas.eventStreamQuery, 'query'),
+  asyncHandler(AccountController.streamEvents)
+);
+
 // Get account balance
 router.get('/:accountId/balance', 
   validate(schemas.accountId, 'params'), 
   asyncHandler(AccountController.getAccountBalance)
 );
 
+// List account transactions (cursor paginated, filterable)
+router.get('/:accountId/transactions',
+  validate(schemas.accountId, 'params'),
+  validate(schemas.transactionHistoryQuery, 'query'),
+  asyncHandler(AccountController.getAccountTransactions)
+);
+
+// Get a statement for a date range (?from=YYYY-MM-DD&to=YYYY-MM-DD&format=json|csv|html|pdf)
+router.get('/:accountId/statements',
+  validate(schemas.accountId, 'params'),
+  validate(schemas.statementRangeQuery, 'query'),
+  asyncHandler(AccountController.getStatement)
+);
+
+// Get the statement for a calendar month (?format=json|csv|html|pdf)
+router.get('/:accountId/statements/:period',
+  validate(schemas.statementPeriod, 'params'),
+  validate(schemas.statementQuery, 'query'),
+  asyncHandler(AccountController.getStatement)
+);
+
+// Freeze an account
+router.post('/:accountId/freeze',
+  validate(schemas.accountId, 'params'),
+  asyncHandler(AccountController.freezeAccount)
+);
+
+// Unfreeze a frozen account
+router.post('/:accountId/unfreeze',
+  validate(schemas.accountId, 'params'),
+  asyncHandler(AccountController.unfreezeAccount)
+);
+
+// Close an account with a zero balance
+router.post('/:accountId/close',
+  validate(schemas.accountId, 'params'),
+  asyncHandler(AccountController.closeAccount)
+);
+
 export default router;
\ No newline at end of file
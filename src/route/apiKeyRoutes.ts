@@ -0,0 +1,45 @@
+import { Router } from 'express';
+import { ApiKeyController } from '../controller/apiKeyController';
+import { validate, schemas } from '../middleware/validation';
+import { asyncHandler } from '../middleware/error';
+
+const router = Router();
+
+// Issue a new API key (the secret is only returned here)
+router.post('/',
+  validate(schemas.apiKey, 'body'),
+  asyncHandler(ApiKeyController.createApiKey)
+);
+
+// List API key metadata
+router.get('/',
+  asyncHandler(ApiKeyController.listApiKeys)
+);
+
+// Require signed requests for every key of the authenticated user
+router.put('/signing',
+  validate(schemas.signingRequirement, 'body'),
+  asyncHandler(ApiKeyController.setUserSigningRequirement)
+);
+
+// Require signed requests for a single key
+router.put('/:keyId/signing',
+  validate(schemas.apiKeyId, 'params'),
+  validate(schemas.signingRequirement, 'body'),
+  asyncHandler(ApiKeyController.setKeySigningRequirement)
+);
+
+// Replace a key with a new one; the old key expires after a grace period
+router.post('/:keyId/rotate',
+  validate(schemas.apiKeyId, 'params'),
+  validate(schemas.apiKeyRotation, 'body'),
+  asyncHandler(ApiKeyController.rotateApiKey)
+);
+
+// Revoke a key immediately
+router.post('/:keyId/revoke',
+  validate(schemas.apiKeyId, 'params'),
+  asyncHandler(ApiKeyController.revokeApiKey)
+);
+
+export default router;
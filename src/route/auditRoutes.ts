@@ -0,0 +1,20 @@
+import { Router } from 'express';
+import { AuditController } from '../controller/auditController';
+import { validate, schemas } from '../middleware/validation';
+import { asyncHandler } from '../middleware/error';
+
+const router = Router();
+
+// Query the audit log, newest first
+router.get('/',
+  validate(schemas.auditQuery, 'query'),
+  asyncHandler(AuditController.listEntries)
+);
+
+// Get one audit entry
+router.get('/:auditId',
+  validate(schemas.auditId, 'params'),
+  asyncHandler(AuditController.getEntry)
+);
+
+export default router;
@@ -0,0 +1,17 @@
+import { Router } from 'express';
+import { DocsController } from '../controller/docsController';
+import { asyncHandler } from '../middleware/error';
+
+const router = Router();
+
+// Browsable API reference
+router.get('/',
+  asyncHandler(DocsController.getDocsPage)
+);
+
+// OpenAPI 3 document of the /api routes
+router.get('/openapi.json',
+  asyncHandler(DocsController.getOpenApiDocument)
+);
+
+export default router;
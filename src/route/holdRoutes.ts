@@ -0,0 +1,33 @@
+import { Router } from 'express';
+import { HoldController } from '../controller/holdController';
+import { validate, schemas } from '../middleware/validation';
+import { asyncHandler } from '../middleware/error';
+
+const router = Router();
+
+// Authorize a hold (reserve funds)
+router.post('/',
+  validate(schemas.hold, 'body'),
+  asyncHandler(HoldController.authorizeHold)
+);
+
+// Get a hold
+router.get('/:holdId',
+  validate(schemas.holdId, 'params'),
+  asyncHandler(HoldController.getHold)
+);
+
+// Capture a hold in full or in part
+router.post('/:holdId/capture',
+  validate(schemas.holdId, 'params'),
+  validate(schemas.holdCapture, 'body'),
+  asyncHandler(HoldController.captureHold)
+);
+
+// Void a hold (release funds)
+router.post('/:holdId/void',
+  validate(schemas.holdId, 'params'),
+  asyncHandler(HoldController.voidHold)
+);
+
+export default router;
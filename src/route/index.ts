@@ -1,19 +1,64 @@
-import { Router } from 'express';
+import { RequestHandler, Router } from 'express';
 import accountRoutes from './accountRoutes';
 import transactionRoutes from './transactionRoutes';
 import reportRoutes from './reportRoutes';
+import holdRoutes from './holdRoutes';
+import scheduleRoutes from './scheduleRoutes';
+import apiKeyRoutes from './apiKeyRoutes';
+import userRoutes from './userRoutes';
+import reviewRoutes from './reviewRoutes';
+import paymentBatchRoutes from './paymentBatchRoutes';
+import webhookRoutes from './webhookRoutes';
+import auditRoutes from './auditRoutes';
 import { authenticateUser } from '../middleware/auth';
+import { auditRequests } from '../middleware/audit';
+import { requirePermission } from '../middleware/authorize';
 
 const router = Router();
 
-// Mount public routes (no authentication required)
-router.use('/reports', reportRoutes);
+/**
+ * A router mounted below /api, with the guards that run before it
+ */
+export interface MountedRouter {
+  path: string;
+  guards: RequestHandler[];
+  router: Router;
+}
 
-// Apply authentication middleware to protected routes
+// Express keeps no path for mounted routers, so they are recorded for the OpenAPI document (see docs/)
+export const mountedRouters: MountedRouter[] = [];
+
+const mount = (path: string, ...handlers: [...guards: RequestHandler[], router: Router]) => {
+  const guards = handlers.slice(0, -1) as RequestHandler[];
+  const mounted = handlers[handlers.length - 1] as Router;
+
+  mountedRouters.push({ path, guards, router: mounted });
+  router.use(path, ...guards, mounted);
+};
+
+// Audit every API request, including those that fail authentication
+router.use(auditRequests);
+
+// Apply authentication middleware to all API routes
 router.use(authenticateUser);
 
 // Mount protected routes
-router.use('/accounts', accountRoutes);
-router.use('/transactions', transactionRoutes);
+mount('/accounts', accountRoutes);
+mount('/transactions', transactionRoutes);
+mount('/holds', holdRoutes);
+mount('/schedules', scheduleRoutes);
+mount('/keys', apiKeyRoutes);
+mount('/users', userRoutes);
+mount('/payment-batches', paymentBatchRoutes);
+mount('/webhooks', webhookRoutes);
+
+// Cross-account reports are limited to privileged roles
+mount('/reports', requirePermission('reports:read'), reportRoutes);
+
+// Transactions held by fraud screening are decided by admins
+mount('/reviews', requirePermission('reviews:manage'), reviewRoutes);
+
+// The audit log is read-only, and only for auditors and admins
+mount('/audit', requirePermission('audit:read'), auditRoutes);
 
 export default router;
\ No newline at end of file
@@ -0,0 +1,37 @@
+import { Router } from 'express';
+import { PaymentBatchController } from '../controller/paymentBatchController';
+import { validate, schemas } from '../middleware/validation';
+import { asyncHandler } from '../middleware/error';
+
+const router = Router();
+
+// Upload a CSV or pain.001 payment file and preview its lines (?mode=all_or_nothing|best_effort)
+router.post('/',
+  validate(schemas.paymentBatchUpload, 'query'),
+  asyncHandler(PaymentBatchController.uploadBatch)
+);
+
+// List the authenticated user's payment batches
+router.get('/',
+  asyncHandler(PaymentBatchController.listBatches)
+);
+
+// Get a payment batch with the status of every line
+router.get('/:batchId',
+  validate(schemas.batchId, 'params'),
+  asyncHandler(PaymentBatchController.getBatch)
+);
+
+// Execute the valid lines of a previewed batch
+router.post('/:batchId/confirm',
+  validate(schemas.batchId, 'params'),
+  asyncHandler(PaymentBatchController.confirmBatch)
+);
+
+// Discard a previewed batch
+router.post('/:batchId/cancel',
+  validate(schemas.batchId, 'params'),
+  asyncHandler(PaymentBatchController.cancelBatch)
+);
+
+export default router;
@@ -9,4 +9,14 @@ router.get('/summary',
   asyncHandler(ReportController.getSummaryReport)
 );
 
+// Reconcile account balances against the ledger
+router.get('/reconciliation',
+  asyncHandler(ReportController.getReconciliationReport)
+);
+
+// Walk the transaction hash chain and report the first broken link
+router.get('/chain',
+  asyncHandler(ReportController.getChainVerification)
+);
+
 export default router;
\ No newline at end of file
@@ -0,0 +1,34 @@
+import { Router } from 'express';
+import { ReviewController } from '../controller/reviewController';
+import { validate, schemas } from '../middleware/validation';
+import { asyncHandler } from '../middleware/error';
+
+const router = Router();
+
+// List fraud reviews (pending by default)
+router.get('/',
+  validate(schemas.reviewQuery, 'query'),
+  asyncHandler(ReviewController.listReviews)
+);
+
+// Get a fraud review with the rules that flagged it
+router.get('/:reviewId',
+  validate(schemas.reviewId, 'params'),
+  asyncHandler(ReviewController.getReview)
+);
+
+// Approve a held transaction and apply it
+router.post('/:reviewId/approve',
+  validate(schemas.reviewId, 'params'),
+  validate(schemas.reviewDecision, 'body'),
+  asyncHandler(ReviewController.approveReview)
+);
+
+// Reject a held transaction
+router.post('/:reviewId/reject',
+  validate(schemas.reviewId, 'params'),
+  validate(schemas.reviewDecision, 'body'),
+  asyncHandler(ReviewController.rejectReview)
+);
+
+export default router;
@@ -0,0 +1,49 @@
+import { Router } from 'express';
+import { ScheduleController } from '../controller/scheduleController';
+import { validate, schemas } from '../middleware/validation';
+import { asyncHandler } from '../middleware/error';
+
+const router = Router();
+
+// Create a scheduled or recurring transfer
+router.post('/',
+  validate(schemas.schedule, 'body'),
+  asyncHandler(ScheduleController.createSchedule)
+);
+
+// List the authenticated user's schedules
+router.get('/',
+  asyncHandler(ScheduleController.listSchedules)
+);
+
+// Get a schedule
+router.get('/:scheduleId',
+  validate(schemas.scheduleId, 'params'),
+  asyncHandler(ScheduleController.getSchedule)
+);
+
+// List the recorded runs of a schedule
+router.get('/:scheduleId/runs',
+  validate(schemas.scheduleId, 'params'),
+  asyncHandler(ScheduleController.listScheduleRuns)
+);
+
+// Pause a schedule
+router.post('/:scheduleId/pause',
+  validate(schemas.scheduleId, 'params'),
+  asyncHandler(ScheduleController.pauseSchedule)
+);
+
+// Resume a paused schedule
+router.post('/:scheduleId/resume',
+  validate(schemas.scheduleId, 'params'),
+  asyncHandler(ScheduleController.resumeSchedule)
+);
+
+// Cancel a schedule
+router.post('/:scheduleId/cancel',
+  validate(schemas.scheduleId, 'params'),
+  asyncHandler(ScheduleController.cancelSchedule)
+);
+
+export default router;
@@ -7,8 +7,41 @@ const router = Router();
 
 // Submit transaction
 router.post('/', 
+  validate(schemas.idempotencyHeaders, 'headers'),
   validate(schemas.transaction, 'body'), 
   asyncHandler(TransactionController.submitTransaction)
 );
 
+// Submit several transactions that complete or fail together
+router.post('/batches',
+  validate(schemas.idempotencyHeaders, 'headers'),
+  validate(schemas.transactionBatch, 'body'),
+  asyncHandler(TransactionController.submitBatch)
+);
+
+// Get the legs of a batch
+router.get('/batches/:batchId',
+  validate(schemas.batchId, 'params'),
+  asyncHandler(TransactionController.getBatch)
+);
+
+// Public key that transaction receipts are signed with
+router.get('/receipt-key',
+  asyncHandler(TransactionController.getReceiptKey)
+);
+
+// Signed receipt of a transaction, verifiable against the hash chain
+router.get('/:transactionId/receipt',
+  validate(schemas.transactionId, 'params'),
+  asyncHandler(TransactionController.getReceipt)
+);
+
+// Reverse (refund) a completed transaction in full or in part
+router.post('/:transactionId/reverse',
+  validate(schemas.transactionId, 'params'),
+  validate(schemas.idempotencyHeaders, 'headers'),
+  validate(schemas.reversal, 'body'),
+  asyncHandler(TransactionController.reverseTransaction)
+);
+
 export default router;
\ No newline at end of file
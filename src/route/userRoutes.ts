@@ -0,0 +1,42 @@
+import { Router } from 'express';
+import { UserController } from '../controller/userController';
+import { validate, schemas } from '../middleware/validation';
+import { requirePermission } from '../middleware/authorize';
+import { asyncHandler } from '../middleware/error';
+
+const router = Router();
+
+// Get the authenticated user, including their role
+router.get('/me',
+  asyncHandler(UserController.getCurrentUser)
+);
+
+// Get the authenticated user's transaction limits and usage
+router.get('/me/limits',
+  asyncHandler(UserController.getUserLimits)
+);
+
+// Get any user's transaction limits and usage
+router.get('/:userId/limits',
+  requirePermission('accounts:read:any'),
+  validate(schemas.userId, 'params'),
+  asyncHandler(UserController.getUserLimits)
+);
+
+// Move a user to another KYC tier
+router.put('/:userId/kyc-tier',
+  requirePermission('users:manage'),
+  validate(schemas.userId, 'params'),
+  validate(schemas.kycTier, 'body'),
+  asyncHandler(UserController.setUserKycTier)
+);
+
+// Assign a role to a user
+router.put('/:userId/role',
+  requirePermission('users:manage'),
+  validate(schemas.userId, 'params'),
+  validate(schemas.userRole, 'body'),
+  asyncHandler(UserController.setUserRole)
+);
+
+export default router;
@@ -0,0 +1,50 @@
+import { Router } from 'express';
+import { WebhookController } from '../controller/webhookController';
+import { validate, schemas } from '../middleware/validation';
+import { asyncHandler } from '../middleware/error';
+
+const router = Router();
+
+// Register an endpoint; the response contains its signing secret, shown only once
+router.post('/',
+  validate(schemas.webhookEndpoint, 'body'),
+  asyncHandler(WebhookController.registerEndpoint)
+);
+
+// List the authenticated user's endpoints
+router.get('/',
+  asyncHandler(WebhookController.listEndpoints)
+);
+
+// Get an endpoint
+router.get('/:endpointId',
+  validate(schemas.endpointId, 'params'),
+  asyncHandler(WebhookController.getEndpoint)
+);
+
+// Disable an endpoint; nothing more is sent to it
+router.delete('/:endpointId',
+  validate(schemas.endpointId, 'params'),
+  asyncHandler(WebhookController.disableEndpoint)
+);
+
+// List an endpoint's deliveries (?status=pending|delivered|failed&limit=)
+router.get('/:endpointId/deliveries',
+  validate(schemas.endpointId, 'params'),
+  validate(schemas.webhookDeliveryQuery, 'query'),
+  asyncHandler(WebhookController.listDeliveries)
+);
+
+// Get a delivery with its attempt history
+router.get('/:endpointId/deliveries/:deliveryId',
+  validate(schemas.webhookDeliveryId, 'params'),
+  asyncHandler(WebhookController.getDelivery)
+);
+
+// Send a failed delivery again
+router.post('/:endpointId/deliveries/:deliveryId/replay',
+  validate(schemas.webhookDeliveryId, 'params'),
+  asyncHandler(WebhookController.replayDelivery)
+);
+
+export default router;
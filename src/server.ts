@@ -5,7 +5,14 @@ config();
 
 import app from './app';
 import { db } from './utils/database';
+import { storage } from './repository';
 import { databaseConfig } from './config/database';
+import { storageConfig } from './config/storage';
+import { scheduleWorker } from './worker/scheduleWorker';
+import { webhookWorker } from './worker/webhookWorker';
+import { outboxRelay } from './worker/outboxRelay';
+import { accountEventStream } from './worker/accountEventStream';
+import { PaymentBatchService } from './service/paymentBatchService';
 
 const PORT = process.env.PORT || 3000;
 
@@ -14,20 +21,38 @@ const PORT = process.env.PORT || 3000;
  */
 async function startServer(): Promise<void> {
   try {
+    // The MySQL pool is only needed when the repositories run on it
+    const usesMysql = storageConfig.backend === 'mysql';
+
     // Initialize database connection
-    console.log('Initializing database connection...');
-    await db.initialize();
-    console.log('Database connection established successfully');
+    console.log(`Initializing ${storageConfig.backend} storage...`);
+    if (usesMysql) {
+      await db.initialize();
+    }
+    await storage.initialize();
+    console.log('Storage initialized successfully');
 
     // Start the server
     const server = app.listen(PORT, () => {
       console.log(`Banking API server is running on port ${PORT}`);
       console.log(`Environment: ${process.env.NODE_ENV || 'development'}`);
-      console.log(`Database: ${databaseConfig.host}:${databaseConfig.port}/${databaseConfig.database}`);
+      console.log(usesMysql
+        ? `Database: ${databaseConfig.host}:${databaseConfig.port}/${databaseConfig.database}`
+        : `Storage: ${storageConfig.backend}${storageConfig.backend === 'sqlite' ? ` (${storageConfig.sqlitePath})` : ''}`);
       console.log(`Health check: http://localhost:${PORT}/health`);
       console.log(`API docs: http://localhost:${PORT}/api`);
     });
 
+    // Start background workers
+    scheduleWorker.start();
+    webhookWorker.start();
+    outboxRelay.start();
+
+    // Finish best-effort payment batches a previous process stopped in the middle of
+    PaymentBatchService.resumeProcessing()
+      .then(count => count > 0 && console.log(`Resumed ${count} payment batch(es)`))
+      .catch(error => console.error('Payment batch resume error:', error));
+
     // Handle server errors
     server.on('error', (error: NodeJS.ErrnoException) => {
       if (error.syscall !== 'listen') {
@@ -58,15 +83,24 @@ async function startServer(): Promise<void> {
         console.log('HTTP server closed');
         
         try {
-          await db.close();
-          console.log('Database connection closed');
+          await scheduleWorker.stop();
+          await webhookWorker.stop();
+          await outboxRelay.stop();
+          await storage.close();
+          if (usesMysql) {
+            await db.close();
+          }
+          console.log('Storage closed');
           process.exit(0);
         } catch (error) {
-          console.error('Error closing database connection:', error);
+          console.error('Error during shutdown:', error);
           process.exit(1);
         }
       });
 
+      // Open event streams would otherwise keep the server from closing
+      accountEventStream.close();
+
       // Force close after 10 seconds
       setTimeout(() => {
         console.error('Could not close connections in time, forcefully shutting down');
@@ -1,10 +1,15 @@
-import { db } from '../utils/database';
-import { RowDataPacket } from 'mysql2';
-import { Account, AccountRow } from '../model/account';
+import { randomInt } from 'crypto';
+import { storage, StorageSession } from '../repository';
+import { Account, AccountStatus } from '../model/account';
+import { Money } from '../utils/money';
+import { AuditService } from './auditService';
+
+const ACCOUNT_NUMBER_ATTEMPTS = 5;
 
 /**
  * Account service - handles account-related database operations
- * Provides methods for retrieving account information
+ * Provides methods for retrieving account information and managing the account lifecycle
+ * (active ⇄ frozen → closed)
  */
 export class AccountService {
   /**
@@ -13,15 +18,7 @@ export class AccountService {
    * @returns Account object or null if not found
    */
   static async findById(id: number): Promise<Account | null> {
-    const sql = `
-      SELECT id, user_id, account_number, balance, created_at, updated_at
-      FROM accounts
-      WHERE id = ?
-    `;
-    
-    const [rows] = await db.getPool().execute<RowDataPacket[]>(sql, [id]);
-    
-    return rows.length > 0 ? rows[0] as Account : null;
+    return storage.repositories().accounts.findById(id);
   }
 
   /**
@@ -30,14 +27,200 @@ export class AccountService {
    * @returns Account object or null if not found
    */
   static async findByAccountNumber(accountNumber: string): Promise<Account | null> {
-    const sql = `
-      SELECT id, user_id, account_number, balance, created_at, updated_at
-      FROM accounts
-      WHERE account_number = ?
-    `;
+    return storage.repositories().accounts.findByAccountNumber(accountNumber);
+  }
+
+  /**
+   * Lock account rows for the rest of the caller's database transaction
+   * Rows are always locked in ascending ID order so two opposing transfers cannot deadlock
+   * @param session - Storage session with an open transaction
+   * @param accountIds - Account IDs involved in the operation (undefined entries are ignored)
+   * @returns The status of every account that exists and is now locked, keyed by ID
+   */
+  static async lockAccounts(session: StorageSession, accountIds: (number | undefined)[]): Promise<Map<number, AccountStatus>> {
+    const ids = Array.from(new Set(accountIds.filter((id): id is number => id !== undefined)))
+      .sort((a, b) => a - b);
+    const locked = new Map<number, AccountStatus>();
+    
+    for (const id of ids) {
+      const account = await session.accounts.findById(id, { forUpdate: true });
+      if (account) {
+        locked.set(id, account.status);
+      }
+    }
     
-    const [rows] = await db.getPool().execute<RowDataPacket[]>(sql, [accountNumber]);
+    return locked;
+  }
+
+  /**
+   * Describe why a locked account cannot take part in a transaction
+   * @param locked - Result of lockAccounts
+   * @param accountId - The account to check (undefined is ignored)
+   * @param role - 'Source' or 'Destination', used in the reason
+   * @returns A failure reason such as 'Source account is frozen', or undefined if the account is usable
+   */
+  static inactiveReason(
+    locked: Map<number, AccountStatus>,
+    accountId: number | undefined,
+    role: 'Source' | 'Destination'
+  ): string | undefined {
+    const status = accountId !== undefined ? locked.get(accountId) : undefined;
+    return status && status !== 'active' ? `${role} account is ${status}` : undefined;
+  }
+
+  /**
+   * Get the balance that can still be spent: the ledger balance minus active authorization holds
+   * Call after lockAccounts so no hold or debit can be added concurrently
+   * @param session - Storage session with an open transaction
+   * @param accountId - The account to check
+   * @returns The available balance, or null if the account does not exist
+   */
+  static async getAvailableBalance(session: StorageSession, accountId: number): Promise<Money | null> {
+    const balance = await session.accounts.getBalance(accountId);
+    
+    return balance ? balance.available_balance : null;
+  }
+
+  /**
+   * List the accounts owned by a user, including frozen and closed ones
+   * @param userId - The owning user
+   * @returns Accounts ordered by ID
+   */
+  static async listForUser(userId: number): Promise<Account[]> {
+    return storage.repositories().accounts.listForUser(userId);
+  }
+
+  /**
+   * Open a new, empty account with a generated account number
+   * @param userId - The owning user
+   * @returns The created account
+   * @throws Error if no unused account number could be generated
+   */
+  static async open(userId: number): Promise<Account> {
+    for (let attempt = 0; attempt < ACCOUNT_NUMBER_ATTEMPTS; attempt++) {
+      try {
+        return await storage.transaction(async (session) => {
+          const account = await session.accounts.create({ user_id: userId, account_number: this.generateAccountNumber() });
+          
+          await AuditService.recordChange(session, {
+            action: 'account.opened',
+            resource_type: 'account',
+            resource_id: account.id,
+            after: account
+          });
+          
+          return account;
+        });
+      } catch (error) {
+        // A collision with an existing number is retried with a fresh one
+        if ((error as Error).message !== 'Account number already exists') {
+          throw error;
+        }
+      }
+    }
     
-    return rows.length > 0 ? rows[0] as Account : null;
+    throw new Error('Account number already exists');
+  }
+
+  /**
+   * Freeze an active account: no money can move in or out until it is unfrozen
+   * @param accountId - The account to freeze
+   * @param frozenBy - The user placing the freeze (the owner or a staff member)
+   * @returns The updated account
+   * @throws Error if the account is missing or not active
+   */
+  static async freeze(accountId: number, frozenBy: number): Promise<Account> {
+    return this.transition(accountId, ['active'], 'account.frozen', async (session) => {
+      await session.accounts.update(accountId, { status: 'frozen', frozen_by: frozenBy });
+    });
+  }
+
+  /**
+   * Return a frozen account to active
+   * A freeze placed by anyone other than the owner can only be lifted with staff privileges
+   * @param accountId - The account to unfreeze
+   * @param canLiftStaffFreeze - Whether the caller may lift a freeze the owner did not place
+   * @returns The updated account
+   * @throws Error if the account is missing or not frozen, or the freeze was placed by staff
+   */
+  static async unfreeze(accountId: number, canLiftStaffFreeze: boolean): Promise<Account> {
+    return this.transition(accountId, ['frozen'], 'account.unfrozen', async (session, account) => {
+      if (account.frozen_by !== null && account.frozen_by !== account.user_id && !canLiftStaffFreeze) {
+        throw new Error('Account was frozen by staff');
+      }
+
+      await session.accounts.update(accountId, { status: 'active', frozen_by: null });
+    });
+  }
+
+  /**
+   * Close an account permanently; the row and its history are kept
+   * Schedules that still pay into or out of the account are cancelled
+   * @param accountId - The account to close
+   * @returns The updated account
+   * @throws Error if the account is missing, already closed or its balance is not zero
+   */
+  static async close(accountId: number): Promise<Account> {
+    return this.transition(accountId, ['active', 'frozen'], 'account.closed', async (session, account) => {
+      // A zero balance also means no authorization hold can still be active
+      if (!account.balance.isZero()) {
+        throw new Error('Account balance must be zero to close');
+      }
+      
+      await session.accounts.update(accountId, { status: 'closed', closed_at: new Date() });
+      
+      await session.schedules.cancelForAccount(accountId);
+    });
+  }
+
+  /**
+   * Lock an account, check its current status and apply a change in one database transaction
+   * The change is audited with the account before and after it
+   * @param accountId - The account to change
+   * @param allowed - Statuses the account must be in
+   * @param action - The audited action
+   * @param change - Work to perform on the locked account
+   * @returns The account after the change
+   * @private
+   */
+  private static async transition(
+    accountId: number,
+    allowed: AccountStatus[],
+    action: string,
+    change: (session: StorageSession, account: Account) => Promise<void>
+  ): Promise<Account> {
+    return storage.transaction(async (session) => {
+      const account = await session.accounts.findById(accountId, { forUpdate: true });
+      
+      if (!account) {
+        throw new Error('Account not found');
+      }
+      
+      if (!allowed.includes(account.status)) {
+        throw new Error(`Account is ${account.status}`);
+      }
+      
+      await change(session, account);
+      
+      const updated = (await session.accounts.findById(accountId))!;
+      await AuditService.recordChange(session, {
+        action,
+        resource_type: 'account',
+        resource_id: accountId,
+        before: account,
+        after: updated
+      });
+      
+      return updated;
+    });
+  }
+
+  /**
+   * Generate a candidate account number: 'ACC' followed by 12 random digits
+   * Uniqueness is enforced by the unique index on account_number
+   * @private
+   */
+  private static generateAccountNumber(): string {
+    return `ACC${randomInt(0, 1e12).toString().padStart(12, '0')}`;
   }
 }
\ No newline at end of file
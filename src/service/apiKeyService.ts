@@ -0,0 +1,365 @@
+import { storage, StorageSession } from '../repository';
+import { generateApiKey, parseApiKey, verifySecret } from '../utils/apiKey';
+import { openSecret, sealSecret, verifyRequestSignature } from '../utils/requestSigning';
+import { apiKeyConfig } from '../config/apiKeys';
+import { signingConfig } from '../config/signing';
+import { AuditService } from './auditService';
+import {
+  ApiKey,
+  ApiKeyRecord,
+  CreateApiKeyData,
+  RotateApiKeyData,
+  IssuedApiKey,
+  SignedRequest,
+  AuthenticatedKey
+} from '../model/apiKey';
+import { User } from '../model/user';
+
+const KEY_ID_ATTEMPTS = 5;
+
+/**
+ * API key service - issues, verifies, rotates and revokes hashed API keys
+ * Only key metadata ever leaves this service; secrets are returned once, when issued
+ */
+export class ApiKeyService {
+  /**
+   * Resolve a presented X-Secret-Key to its user and key
+   * @param token - The key exactly as sent by the client
+   * @returns The user and key metadata, or null if the key is unknown, wrong, expired or revoked
+   * @throws Error if the key or its user requires signed requests
+   */
+  static async authenticate(token: string): Promise<AuthenticatedKey | null> {
+    const { keyId, secret } = parseApiKey(token);
+
+    const found = await storage.repositories().apiKeys.findActiveWithUser(keyId);
+    if (!found || !verifySecret(found.key.salt, secret, found.key.secret_hash)) {
+      return null;
+    }
+
+    if (found.key.require_signature || found.user.require_signed_requests) {
+      throw new Error('Signed request required');
+    }
+
+    return this.touch(found.key, found.user);
+  }
+
+  /**
+   * Resolve a signed request to its user and key
+   * The signature is checked first, then the timestamp, and only then is the nonce recorded,
+   * so unsigned traffic cannot fill the nonce table
+   * @param request - The signature headers and the request they cover
+   * @returns The user and key metadata, or null if the key is unknown, inactive or the signature is wrong
+   * @throws Error if the timestamp is outside the validity window or the nonce was already used
+   */
+  static async authenticateSigned(request: SignedRequest): Promise<AuthenticatedKey | null> {
+    const found = await storage.repositories().apiKeys.findActiveWithUser(request.key_id);
+    if (!found || !found.key.signing_secret || !signingConfig.encryptionKey) {
+      return null;
+    }
+
+    const secret = openSecret(signingConfig.encryptionKey, found.key.signing_secret);
+    if (!verifyRequestSignature(secret, request, request.signature)) {
+      return null;
+    }
+
+    const timestamp = Number(request.timestamp);
+    if (!Number.isInteger(timestamp) || Math.abs(Date.now() / 1000 - timestamp) > signingConfig.maxClockSkewSeconds) {
+      throw new Error('Request timestamp is outside the allowed window');
+    }
+
+    // Remember the nonce until its signature can no longer pass the timestamp check
+    await storage.repositories().apiKeys.consumeNonce(
+      found.key.key_id,
+      request.nonce,
+      new Date((timestamp + signingConfig.maxClockSkewSeconds) * 1000)
+    );
+
+    return this.touch(found.key, found.user);
+  }
+
+  /**
+   * List the metadata of every key a user holds, newest first
+   * @param userId - The owning user
+   * @returns Keys including expired and revoked ones
+   */
+  static async listForUser(userId: number): Promise<ApiKey[]> {
+    const keys = await storage.repositories().apiKeys.listForUser(userId);
+
+    return keys.map(key => this.mapRecordToApiKey(key));
+  }
+
+  /**
+   * Issue a new key
+   * @param userId - The owning user
+   * @param data - Label and optional expiry
+   * @returns The key metadata and its secret (shown only once)
+   * @throws Error if the user already holds the maximum number of active keys
+   */
+  static async create(userId: number, data: CreateApiKeyData): Promise<IssuedApiKey> {
+    return storage.transaction(async (session) => {
+      await this.assertBelowLimit(session, userId);
+      return this.issue(session, userId, data.label, data.expires_at ?? null, data.require_signature ?? false, null);
+    });
+  }
+
+  /**
+   * Replace a key with a new one carrying the same label
+   * The old key keeps working for the configured grace period so clients can switch over;
+   * the new key inherits its signing requirement
+   * @param userId - The owning user
+   * @param keyId - The public id of the key to rotate
+   * @param data - Optional expiry of the new key
+   * @returns The new key metadata and its secret (shown only once)
+   * @throws Error if the key is missing, not owned by the user, expired or revoked
+   */
+  static async rotate(userId: number, keyId: string, data: RotateApiKeyData): Promise<IssuedApiKey> {
+    return storage.transaction(async (session) => {
+      const current = await this.lockActiveKey(session, userId, keyId);
+
+      await session.apiKeys.expireWithin(current.id, apiKeyConfig.rotationGraceSeconds);
+
+      await AuditService.recordChange(session, {
+        action: 'api_key.rotated',
+        resource_type: 'api_key',
+        resource_id: current.key_id,
+        before: current,
+        after: await this.fetchApiKey(session, current.key_id)
+      });
+
+      return this.issue(
+        session,
+        userId,
+        current.label,
+        data.expires_at ?? null,
+        current.require_signature,
+        current.key_id
+      );
+    });
+  }
+
+  /**
+   * Revoke a key immediately
+   * @param userId - The owning user
+   * @param keyId - The public id of the key to revoke
+   * @returns The revoked key metadata
+   * @throws Error if the key is missing, already inactive, or the user's last active key
+   */
+  static async revoke(userId: number, keyId: string): Promise<ApiKey> {
+    return storage.transaction(async (session) => {
+      const current = await this.lockActiveKey(session, userId, keyId);
+
+      // Revoking the last key would lock the user out with no way to issue a new one
+      if ((await session.apiKeys.countActive(userId)) <= 1) {
+        throw new Error('Cannot revoke the last active API key');
+      }
+
+      await session.apiKeys.update(current.id, { revoked_at: new Date() });
+
+      return this.recordKeyChange(session, 'api_key.revoked', current);
+    });
+  }
+
+  /**
+   * Require or stop requiring signed requests for one key
+   * @param userId - The owning user
+   * @param keyId - The public id of the key
+   * @param required - Whether X-Secret-Key authentication is refused for the key
+   * @returns The updated key metadata
+   * @throws Error if the key is missing, inactive, or was issued without a signing secret
+   */
+  static async setKeySigningRequirement(userId: number, keyId: string, required: boolean): Promise<ApiKey> {
+    return storage.transaction(async (session) => {
+      const current = await this.lockActiveKey(session, userId, keyId);
+
+      if (required && !current.signing_enabled) {
+        throw new Error('API key does not support request signing');
+      }
+
+      await session.apiKeys.update(current.id, { require_signature: required });
+
+      return this.recordKeyChange(session, 'api_key.signing_requirement_changed', current);
+    });
+  }
+
+  /**
+   * Require or stop requiring signed requests for every key of a user
+   * @param userId - The user to configure
+   * @param required - Whether X-Secret-Key authentication is refused for all of the user's keys
+   * @throws Error if requiring signatures would leave the user without a usable key
+   */
+  static async setUserSigningRequirement(userId: number, required: boolean): Promise<void> {
+    await storage.transaction(async (session) => {
+      const before = await session.users.findById(userId, { forUpdate: true });
+
+      if (required && (await session.apiKeys.countActive(userId, { signing: true })) === 0) {
+        throw new Error('No active API key supports request signing');
+      }
+
+      await session.users.update(userId, { require_signed_requests: required });
+
+      await AuditService.recordChange(session, {
+        action: 'user.signing_requirement_changed',
+        resource_type: 'user',
+        resource_id: userId,
+        before: before && { require_signed_requests: before.require_signed_requests },
+        after: { require_signed_requests: required }
+      });
+    });
+  }
+
+  /**
+   * Record last use of an authenticated key and build the request identity
+   * Recording every request would turn each read into a write; minute resolution is enough
+   * @private
+   */
+  private static async touch(key: ApiKeyRecord, user: User): Promise<AuthenticatedKey> {
+    await storage.repositories().apiKeys.touch(key.id);
+
+    return {
+      user,
+      apiKey: this.mapRecordToApiKey(key)
+    };
+  }
+
+  /**
+   * Generate, store and return a key, retrying on the unlikely key id collision
+   * The secret is also stored encrypted when request signing is configured
+   * @private
+   */
+  private static async issue(
+    session: StorageSession,
+    userId: number,
+    label: string,
+    expiresAt: Date | null,
+    requireSignature: boolean,
+    rotatedFrom: string | null
+  ): Promise<IssuedApiKey> {
+    if (requireSignature && !signingConfig.encryptionKey) {
+      throw new Error('Request signing is not configured');
+    }
+
+    for (let attempt = 0; attempt < KEY_ID_ATTEMPTS; attempt++) {
+      const generated = generateApiKey();
+      const signingSecret = signingConfig.encryptionKey
+        ? sealSecret(signingConfig.encryptionKey, generated.secret)
+        : null;
+
+      try {
+        await session.apiKeys.insert({
+          key_id: generated.keyId,
+          user_id: userId,
+          label,
+          salt: generated.salt,
+          secret_hash: generated.secretHash,
+          signing_secret: signingSecret,
+          require_signature: requireSignature,
+          expires_at: expiresAt,
+          rotated_from: rotatedFrom
+        });
+      } catch (error) {
+        if ((error as Error).message === 'API key ID already exists') {
+          continue;
+        }
+        throw error;
+      }
+
+      const apiKey = await this.fetchApiKey(session, generated.keyId);
+      // Only the key metadata is audited, never the secret
+      await AuditService.recordChange(session, {
+        action: 'api_key.created',
+        resource_type: 'api_key',
+        resource_id: apiKey.key_id,
+        after: apiKey
+      });
+
+      return {
+        api_key: apiKey,
+        secret: generated.token
+      };
+    }
+
+    throw new Error('Failed to generate a unique API key id');
+  }
+
+  /**
+   * Lock one of the user's keys and verify it is still active
+   * Keys of other users are reported as not found
+   * @private
+   */
+  private static async lockActiveKey(session: StorageSession, userId: number, keyId: string): Promise<ApiKey> {
+    const key = await session.apiKeys.findByKeyId(keyId, { forUpdate: true });
+    if (!key || key.user_id !== userId) {
+      throw new Error('API key not found');
+    }
+
+    const apiKey = this.mapRecordToApiKey(key);
+    if (apiKey.status !== 'active') {
+      throw new Error(`API key is ${apiKey.status}`);
+    }
+
+    return apiKey;
+  }
+
+  /**
+   * Reject a new key once the user holds the maximum number of active keys
+   * The user row is locked so concurrent requests cannot both pass the check
+   * @private
+   */
+  private static async assertBelowLimit(session: StorageSession, userId: number): Promise<void> {
+    await session.users.findById(userId, { forUpdate: true });
+
+    if ((await session.apiKeys.countActive(userId)) >= apiKeyConfig.maxActiveKeysPerUser) {
+      throw new Error('API key limit reached');
+    }
+  }
+
+  /**
+   * Read a changed key back and audit it against its state before the change
+   * @private
+   */
+  private static async recordKeyChange(session: StorageSession, action: string, before: ApiKey): Promise<ApiKey> {
+    const after = await this.fetchApiKey(session, before.key_id);
+    await AuditService.recordChange(session, {
+      action,
+      resource_type: 'api_key',
+      resource_id: before.key_id,
+      before,
+      after
+    });
+
+    return after;
+  }
+
+  /**
+   * Read a key back in the session that wrote it
+   * @private
+   */
+  private static async fetchApiKey(session: StorageSession, keyId: string): Promise<ApiKey> {
+    return this.mapRecordToApiKey((await session.apiKeys.findByKeyId(keyId))!);
+  }
+
+  /**
+   * Map a stored key to its metadata, dropping the salt, hash and signing secret
+   * @param key - The stored key
+   * @returns ApiKey with its status derived from revoked_at and expires_at
+   * @private
+   */
+  private static mapRecordToApiKey(key: ApiKeyRecord): ApiKey {
+    const expired = key.expires_at !== null && key.expires_at.getTime() <= Date.now();
+
+    return {
+      id: key.id,
+      key_id: key.key_id,
+      user_id: key.user_id,
+      label: key.label,
+      status: key.revoked_at ? 'revoked' : expired ? 'expired' : 'active',
+      signing_enabled: key.signing_secret !== null,
+      require_signature: key.require_signature,
+      expires_at: key.expires_at,
+      revoked_at: key.revoked_at,
+      last_used_at: key.last_used_at,
+      rotated_from: key.rotated_from,
+      created_at: key.created_at
+    };
+  }
+}
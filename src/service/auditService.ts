@@ -0,0 +1,166 @@
+import { v4 as uuidv4 } from 'uuid';
+import { AuditLogRepository, storage, StorageSession } from '../repository';
+import { getRequestContext } from '../utils/requestContext';
+import {
+  AuditEntry,
+  AuditCategory,
+  AuditActorType,
+  AuditOutcome,
+  AuditResourceType,
+  AuditChange,
+  AuditRequest,
+  AuditQuery,
+  AuditPage
+} from '../model/audit';
+
+const USER_AGENT_MAX_LENGTH = 255;
+const PATH_MAX_LENGTH = 255;
+
+/**
+ * Audit service - append-only record of API access and state changes
+ * State changes are written in the session that makes them, so an entry exists if and only if
+ * the change committed. The actor (user, key, IP, user agent, request id) comes from the request
+ * context; changes made outside a request, e.g. by workers, are attributed to 'system'.
+ * There is deliberately no way to update or delete entries, and the MySQL and SQLite triggers refuse both.
+ */
+export class AuditService {
+  /**
+   * Record a state change in the database transaction that makes it
+   * @param session - Storage session with the open transaction making the change
+   * @param change - What changed, with its value before and after the change
+   */
+  static async recordChange(session: StorageSession, change: AuditChange): Promise<void> {
+    await this.insert(session.auditLog, {
+      category: 'state_change',
+      action: change.action,
+      resource_type: change.resource_type,
+      resource_id: String(change.resource_id),
+      before_value: change.before ?? null,
+      after_value: change.after ?? null,
+      outcome: 'success'
+    });
+  }
+
+  /**
+   * Record one API request once its response has been sent
+   * Failures are logged rather than thrown: the response is already on its way to the client
+   * @param request - Method, path, status and timing of the request
+   */
+  static async recordRequest(request: AuditRequest): Promise<void> {
+    try {
+      await this.insert(storage.repositories().auditLog, {
+        category: 'request',
+        action: 'api.request',
+        method: request.method,
+        path: request.path.slice(0, PATH_MAX_LENGTH),
+        outcome: request.status_code < 400 ? 'success' : 'failure',
+        status_code: request.status_code,
+        error_code: request.error_code,
+        duration_ms: request.duration_ms
+      });
+    } catch (error) {
+      console.error('Failed to record audit entry:', error);
+    }
+  }
+
+  /**
+   * List audit entries, newest first, with cursor pagination
+   * @param query - Optional category, action, actor, resource, request, outcome and date filters plus cursor and page size
+   * @returns A page of entries and the cursor for the next page (null on the last page)
+   * @throws Error if the cursor is malformed
+   */
+  static async list(query: AuditQuery): Promise<AuditPage> {
+    const { cursor, ...filters } = query;
+    const entries = await storage.repositories().auditLog.list({
+      ...filters,
+      limit: query.limit + 1,
+      before_id: cursor ? this.decodeCursor(cursor) : undefined
+    });
+
+    const hasMore = entries.length > query.limit;
+    const page = hasMore ? entries.slice(0, query.limit) : entries;
+
+    return {
+      entries: page,
+      next_cursor: hasMore ? this.encodeCursor(page[page.length - 1].id) : null
+    };
+  }
+
+  /**
+   * Find an audit entry by its public id
+   * @param auditId - The audit entry UUID
+   * @returns The entry, or null if it does not exist
+   */
+  static async findByAuditId(auditId: string): Promise<AuditEntry | null> {
+    return storage.repositories().auditLog.findByAuditId(auditId);
+  }
+
+  /**
+   * Insert an entry, filling in the actor from the current request context
+   * @private
+   */
+  private static async insert(
+    auditLog: AuditLogRepository,
+    entry: {
+      category: AuditCategory;
+      action: string;
+      outcome: AuditOutcome;
+      method?: string;
+      path?: string;
+      resource_type?: AuditResourceType;
+      resource_id?: string;
+      before_value?: unknown;
+      after_value?: unknown;
+      status_code?: number;
+      error_code?: string | null;
+      duration_ms?: number;
+    }
+  ): Promise<void> {
+    const context = getRequestContext();
+    const actorType: AuditActorType = !context ? 'system' : context.user_id !== undefined ? 'user' : 'anonymous';
+
+    await auditLog.insert({
+      audit_id: uuidv4(),
+      category: entry.category,
+      action: entry.action,
+      actor_type: actorType,
+      actor_user_id: context?.user_id ?? null,
+      actor_role: context?.role ?? null,
+      actor_key_id: context?.key_id ?? null,
+      ip: context?.ip ?? null,
+      user_agent: context?.user_agent?.slice(0, USER_AGENT_MAX_LENGTH) ?? null,
+      request_id: context?.request_id ?? null,
+      method: entry.method ?? null,
+      path: entry.path ?? null,
+      resource_type: entry.resource_type ?? null,
+      resource_id: entry.resource_id ?? null,
+      before_value: entry.before_value ?? null,
+      after_value: entry.after_value ?? null,
+      outcome: entry.outcome,
+      status_code: entry.status_code ?? null,
+      error_code: entry.error_code ?? null,
+      duration_ms: entry.duration_ms ?? null
+    });
+  }
+
+  /**
+   * Encode the last seen row ID as an opaque pagination cursor
+   * @private
+   */
+  private static encodeCursor(id: number): string {
+    return Buffer.from(String(id)).toString('base64url');
+  }
+
+  /**
+   * Decode a pagination cursor produced by encodeCursor
+   * @throws Error if the cursor is malformed
+   * @private
+   */
+  private static decodeCursor(cursor: string): number {
+    const id = parseInt(Buffer.from(cursor, 'base64url').toString('utf-8'), 10);
+    if (isNaN(id) || id <= 0) {
+      throw new Error('Invalid cursor');
+    }
+    return id;
+  }
+}
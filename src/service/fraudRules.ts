@@ -0,0 +1,118 @@
+import { StorageSession } from '../repository';
+import { Money } from '../utils/money';
+import { fraudConfig } from '../config/fraud';
+import { FraudRule } from '../model/fraud';
+import { CreateTransactionData } from '../model/transaction';
+
+/**
+ * Built-in fraud screening rules
+ * Each factory returns a FraudRule; FraudService runs them in order. Outgoing money is judged
+ * by the source account's recent activity, counting every transaction that was not rejected.
+ */
+
+/**
+ * Block more than maxTransfers transfers from one account within windowMinutes
+ */
+export function transferVelocityRule(maxTransfers: number, windowMinutes: number): FraudRule {
+  return {
+    name: 'transfer_velocity',
+    async evaluate(session: StorageSession, data: CreateTransactionData) {
+      if (data.type !== 'transfer' || data.source_account_id === undefined) {
+        return { action: 'allow' };
+      }
+
+      const recent = await session.transactions.countOutgoing(data.source_account_id, {
+        within_minutes: windowMinutes,
+        type: 'transfer'
+      });
+      return recent >= maxTransfers
+        ? { action: 'block', reason: `More than ${maxTransfers} transfers in ${windowMinutes} minutes` }
+        : { action: 'allow' };
+    }
+  };
+}
+
+/**
+ * Flag the first transfer to a destination the source has never paid before, at or above a threshold
+ */
+export function newDestinationRule(threshold: Money): FraudRule {
+  return {
+    name: 'new_destination',
+    async evaluate(session: StorageSession, data: CreateTransactionData) {
+      if (data.type !== 'transfer' || data.source_account_id === undefined || data.amount.compare(threshold) < 0) {
+        return { action: 'allow' };
+      }
+
+      const known = data.destination_account_id !== undefined &&
+        await session.transactions.hasTransferred(data.source_account_id, data.destination_account_id);
+
+      return !known
+        ? { action: 'flag', reason: `First transfer to a new destination of ${threshold.toString()} or more` }
+        : { action: 'allow' };
+    }
+  };
+}
+
+/**
+ * Flag the burstCount-th round-amount (a multiple of unit) debit within windowMinutes
+ */
+export function roundAmountBurstRule(unit: Money, burstCount: number, windowMinutes: number): FraudRule {
+  return {
+    name: 'round_amount_burst',
+    async evaluate(session: StorageSession, data: CreateTransactionData) {
+      if (
+        data.type === 'deposit' ||
+        data.source_account_id === undefined ||
+        data.amount.minorUnits % unit.minorUnits !== 0
+      ) {
+        return { action: 'allow' };
+      }
+
+      const recent = await session.transactions.countOutgoing(data.source_account_id, {
+        within_minutes: windowMinutes,
+        multiple_of: unit
+      });
+      return recent + 1 >= burstCount
+        ? { action: 'flag', reason: `${burstCount} or more round-amount debits in ${windowMinutes} minutes` }
+        : { action: 'allow' };
+    }
+  };
+}
+
+/**
+ * Flag a debit of more than percent% of the account balance, ignoring amounts below minAmount
+ */
+export function balanceDrainRule(percent: number, minAmount: Money): FraudRule {
+  return {
+    name: 'balance_drain',
+    async evaluate(session: StorageSession, data: CreateTransactionData) {
+      if (data.type === 'deposit' || data.source_account_id === undefined || data.amount.compare(minAmount) < 0) {
+        return { action: 'allow' };
+      }
+
+      const account = await session.accounts.findById(data.source_account_id);
+      if (!account) {
+        return { action: 'allow' };
+      }
+
+      // Compare in cents: amount / balance > percent / 100
+      return data.amount.minorUnits * 100 > account.balance.minorUnits * percent
+        ? { action: 'flag', reason: `Debit of more than ${percent}% of the account balance` }
+        : { action: 'allow' };
+    }
+  };
+}
+
+/**
+ * The rules enabled by default, configured from FRAUD_* environment variables
+ */
+export const defaultFraudRules: FraudRule[] = [
+  transferVelocityRule(fraudConfig.velocityMaxTransfers, fraudConfig.velocityWindowMinutes),
+  newDestinationRule(Money.fromDecimal(fraudConfig.newDestinationThreshold)),
+  roundAmountBurstRule(
+    Money.fromDecimal(fraudConfig.roundAmountUnit),
+    fraudConfig.roundAmountBurstCount,
+    fraudConfig.roundAmountWindowMinutes
+  ),
+  balanceDrainRule(fraudConfig.balanceDrainPercent, Money.fromDecimal(fraudConfig.balanceDrainMinAmount))
+];
@@ -0,0 +1,74 @@
+import { v4 as uuidv4 } from 'uuid';
+import { StorageSession } from '../repository';
+import { fraudConfig } from '../config/fraud';
+import { FraudRule, RuleHit, ScreeningResult } from '../model/fraud';
+import { CreateTransactionData } from '../model/transaction';
+import { defaultFraudRules } from './fraudRules';
+
+/**
+ * Fraud service - runs transactions through the pluggable screening pipeline
+ * Any block wins; otherwise any flag sends the transaction to the review queue
+ */
+export class FraudService {
+  private static rules: FraudRule[] = [...defaultFraudRules];
+
+  /**
+   * Add a rule to the end of the pipeline
+   * @param rule - The rule to add
+   */
+  static register(rule: FraudRule): void {
+    this.rules.push(rule);
+  }
+
+  /**
+   * Replace the whole pipeline, e.g. to disable or reorder the built-in rules
+   * @param rules - The rules to run, in order
+   */
+  static setRules(rules: FraudRule[]): void {
+    this.rules = [...rules];
+  }
+
+  /**
+   * Run every rule against a transaction that would otherwise complete
+   * @param session - Storage session with an open transaction and the account locks held
+   * @param data - The transaction about to be applied
+   * @returns The combined decision and every rule that did not allow
+   */
+  static async screen(session: StorageSession, data: CreateTransactionData): Promise<ScreeningResult> {
+    if (!fraudConfig.enabled) {
+      return { action: 'allow', hits: [] };
+    }
+
+    const hits: RuleHit[] = [];
+    for (const rule of this.rules) {
+      const result = await rule.evaluate(session, data);
+      if (result.action !== 'allow') {
+        hits.push({ rule: rule.name, action: result.action, reason: result.reason ?? rule.name });
+      }
+    }
+
+    const block = hits.find(hit => hit.action === 'block');
+    if (block) {
+      return { action: 'block', reason: block.reason, hits };
+    }
+    if (hits.length > 0) {
+      return { action: 'flag', reason: hits.map(hit => hit.reason).join('; '), hits };
+    }
+    return { action: 'allow', hits };
+  }
+
+  /**
+   * Put a flagged transaction on the review queue
+   * @param session - Storage session with an open transaction
+   * @param transactionId - The pending_review transaction
+   * @param hits - The rules that flagged it
+   * @returns The public review ID
+   */
+  static async openReview(session: StorageSession, transactionId: string, hits: RuleHit[]): Promise<string> {
+    const reviewId = uuidv4();
+
+    await session.fraudReviews.insert({ review_id: reviewId, transaction_id: transactionId, rule_hits: hits });
+
+    return reviewId;
+  }
+}
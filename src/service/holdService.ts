@@ -0,0 +1,184 @@
+import { v4 as uuidv4 } from 'uuid';
+import { storage, StorageSession } from '../repository';
+import { retryOnLockConflict } from '../utils/retry';
+import { holdConfig } from '../config/holds';
+import { Hold, CreateHoldData, CaptureHoldData, CaptureHoldResult } from '../model/hold';
+import { AccountService } from './accountService';
+import { TransactionService } from './transactionService';
+import { FraudService } from './fraudService';
+
+/**
+ * Hold service - two-phase payments
+ * Authorizing reserves funds against the available balance, capturing moves them through
+ * a regular withdrawal or transfer, voiding or expiry releases them
+ */
+export class HoldService {
+  /**
+   * Find a hold by its public hold ID
+   * @param holdId - The UUID returned when the hold was authorized
+   * @returns Hold object or null if not found
+   */
+  static async findByHoldId(holdId: string): Promise<Hold | null> {
+    const hold = await storage.repositories().holds.findByHoldId(holdId);
+    return hold ? this.presentHold(hold) : null;
+  }
+
+  /**
+   * Reserve funds on the source account
+   * @param data - Source account, optional destination account, amount and lifetime
+   * @returns The created hold
+   * @throws Error if an account is missing, frozen or closed, the available balance is insufficient
+   * or fraud screening does not allow it
+   */
+  static async authorize(data: CreateHoldData): Promise<Hold> {
+    return retryOnLockConflict(() => storage.transaction(async (session) => {
+      const locked = await AccountService.lockAccounts(session, [data.source_account_id, data.destination_account_id]);
+
+      if (!locked.has(data.source_account_id)) {
+        throw new Error('Source account not found');
+      }
+      if (data.destination_account_id !== undefined && !locked.has(data.destination_account_id)) {
+        throw new Error('Destination account not found');
+      }
+
+      const inactiveReason =
+        AccountService.inactiveReason(locked, data.source_account_id, 'Source') ??
+        AccountService.inactiveReason(locked, data.destination_account_id, 'Destination');
+      if (inactiveReason) {
+        throw new Error(inactiveReason);
+      }
+
+      const available = await AccountService.getAvailableBalance(session, data.source_account_id);
+      if (!available || !available.greaterThanOrEqual(data.amount)) {
+        throw new Error('Insufficient funds');
+      }
+
+      // Holds are screened when authorized; there is no review queue for them, so a flag declines too
+      const screening = await FraudService.screen(session, {
+        type: data.destination_account_id !== undefined ? 'transfer' : 'withdrawal',
+        amount: data.amount,
+        source_account_id: data.source_account_id,
+        destination_account_id: data.destination_account_id
+      });
+      if (screening.action !== 'allow') {
+        throw new Error(`Hold declined: ${screening.reason}`);
+      }
+
+      const holdId = uuidv4();
+      await session.holds.insert({
+        hold_id: holdId,
+        account_id: data.source_account_id,
+        destination_account_id: data.destination_account_id,
+        amount: data.amount,
+        expires_in_seconds: data.expires_in_seconds ?? holdConfig.defaultTtlSeconds
+      });
+
+      return this.fetchHold(session, holdId);
+    }));
+  }
+
+  /**
+   * Capture all or part of a hold; the remainder is released
+   * @param holdId - The hold to capture
+   * @param data - Optional partial amount (defaults to the full hold)
+   * @returns The captured hold and the completed withdrawal or transfer
+   * @throws Error if the hold is missing, no longer active, expired or the amount is too large
+   */
+  static async capture(holdId: string, data: CaptureHoldData): Promise<CaptureHoldResult> {
+    return retryOnLockConflict(() => this.withActiveHold(holdId, async (session, hold) => {
+      const amount = data.amount ?? hold.amount;
+      if (amount.compare(hold.amount) > 0) {
+        throw new Error('Capture amount exceeds the held amount');
+      }
+
+      // Screened at authorization, so the capture is not screened again
+      // Release the reservation first so the capture can spend the funds it held
+      await session.holds.update(hold.hold_id, { status: 'captured', captured_amount: amount });
+
+      const transaction = await TransactionService.applyTransaction(session, {
+        type: hold.destination_account_id ? 'transfer' : 'withdrawal',
+        amount,
+        source_account_id: hold.account_id,
+        destination_account_id: hold.destination_account_id
+      }, { skipScreening: true });
+
+      if (transaction.status !== 'completed') {
+        throw new Error(`Capture failed: ${transaction.failure_reason}`);
+      }
+
+      await session.holds.update(hold.hold_id, { transaction_id: transaction.transaction_id });
+
+      return {
+        hold: await this.fetchHold(session, hold.hold_id),
+        transaction
+      };
+    }));
+  }
+
+  /**
+   * Release a hold without moving any money
+   * @param holdId - The hold to void
+   * @returns The voided hold
+   * @throws Error if the hold is missing, no longer active or expired
+   */
+  static async void(holdId: string): Promise<Hold> {
+    return retryOnLockConflict(() => this.withActiveHold(holdId, async (session, hold) => {
+      await session.holds.update(hold.hold_id, { status: 'voided', captured_amount: null });
+      return this.fetchHold(session, hold.hold_id);
+    }));
+  }
+
+  /**
+   * Lock a hold, verify it is still active and run an operation on it in one database transaction
+   * An expired hold is marked 'expired' (and committed) before the error is raised
+   * @param holdId - The hold to operate on
+   * @param operation - Work to perform on the locked, active hold
+   * @returns The operation result
+   * @private
+   */
+  private static async withActiveHold<T>(
+    holdId: string,
+    operation: (session: StorageSession, hold: Hold) => Promise<T>
+  ): Promise<T> {
+    const outcome = await storage.transaction(async (session) => {
+      const hold = await session.holds.findByHoldId(holdId, { forUpdate: true });
+      if (!hold) {
+        throw new Error('Hold not found');
+      }
+
+      // Returning instead of throwing commits the expiry
+      if (hold.status === 'held' && hold.expires_at.getTime() <= Date.now()) {
+        await session.holds.update(holdId, { status: 'expired' });
+        return { expired: true as const };
+      }
+
+      if (hold.status !== 'held') {
+        throw new Error('Hold is no longer active');
+      }
+
+      return { expired: false as const, result: await operation(session, hold) };
+    });
+
+    if (outcome.expired) {
+      throw new Error('Hold has expired');
+    }
+    return outcome.result;
+  }
+
+  /**
+   * Read a hold back in the session that wrote it
+   * @private
+   */
+  private static async fetchHold(session: StorageSession, holdId: string): Promise<Hold> {
+    return this.presentHold((await session.holds.findByHoldId(holdId))!);
+  }
+
+  /**
+   * Holds past their expiry are reported as expired even before they are marked
+   * @private
+   */
+  private static presentHold(hold: Hold): Hold {
+    const expired = hold.status === 'held' && hold.expires_at.getTime() <= Date.now();
+    return expired ? { ...hold, status: 'expired' } : hold;
+  }
+}
@@ -0,0 +1,109 @@
+import { createHash } from 'crypto';
+import { storage, StorageSession } from '../repository';
+import { idempotencyConfig } from '../config/idempotency';
+import { IdempotencyContext, IdempotentResponse } from '../model/idempotency';
+
+/**
+ * Idempotency service - stores and replays responses keyed by the Idempotency-Key header
+ * Keys are scoped per user and expire after the configured window
+ */
+export class IdempotencyService {
+  /**
+   * Build a stable fingerprint of a request so replays can be matched against the original
+   * @param method - HTTP method of the request
+   * @param path - Request path (without query string)
+   * @param body - Parsed request body
+   * @returns Hex encoded SHA-256 of the canonical request
+   */
+  static fingerprint(method: string, path: string, body: unknown): string {
+    const canonical = JSON.stringify({
+      method: method.toUpperCase(),
+      path,
+      body: this.canonicalize(body)
+    });
+
+    return createHash('sha256').update(canonical).digest('hex');
+  }
+
+  /**
+   * Look up the stored response for an unexpired key
+   * @param context - The user, key and fingerprint of the incoming request
+   * @param session - Storage session to read in; committed data when omitted
+   * @returns The stored response, or null if the key has not been used yet
+   * @throws Error if the key was used with a different request payload
+   */
+  static async findResponse(context: IdempotencyContext, session?: StorageSession): Promise<IdempotentResponse | null> {
+    const record = await (session ?? storage.repositories()).idempotencyKeys.find(context.user_id, context.key);
+    if (!record) {
+      return null;
+    }
+
+    if (record.request_fingerprint !== context.fingerprint) {
+      throw new Error('Idempotency key already used with a different request');
+    }
+
+    if (record.response_status === null) {
+      return null;
+    }
+
+    return {
+      status: record.response_status,
+      body: record.response_body
+    };
+  }
+
+  /**
+   * Reserve a key inside the caller's database transaction
+   * On MySQL a concurrent request with the same key blocks on the unique index until this one commits
+   * @param session - Storage session with an open transaction
+   * @param context - The user, key and fingerprint of the incoming request
+   * @throws Error if the key was claimed by a request that has already committed
+   */
+  static async claim(session: StorageSession, context: IdempotencyContext): Promise<void> {
+    await session.idempotencyKeys.claim({
+      user_id: context.user_id,
+      key: context.key,
+      fingerprint: context.fingerprint,
+      ttl_seconds: idempotencyConfig.ttlSeconds
+    });
+  }
+
+  /**
+   * Store the response for a claimed key inside the caller's database transaction
+   * @param session - Storage session with an open transaction
+   * @param context - The context previously passed to claim()
+   * @param response - The status and body that will be replayed
+   * @param transactionId - The transaction created by the request, if any
+   */
+  static async complete(
+    session: StorageSession,
+    context: IdempotencyContext,
+    response: IdempotentResponse,
+    transactionId: string | null
+  ): Promise<void> {
+    await session.idempotencyKeys.complete(context.user_id, context.key, response, transactionId);
+  }
+
+  /**
+   * Recursively sort object keys so equivalent bodies produce the same fingerprint
+   * @param value - Any JSON compatible value
+   * @returns The value with object keys in sorted order
+   * @private
+   */
+  private static canonicalize(value: unknown): unknown {
+    if (Array.isArray(value)) {
+      return value.map(item => this.canonicalize(item));
+    }
+
+    if (value !== null && typeof value === 'object') {
+      return Object.keys(value as Record<string, unknown>)
+        .sort()
+        .reduce<Record<string, unknown>>((sorted, key) => {
+          sorted[key] = this.canonicalize((value as Record<string, unknown>)[key]);
+          return sorted;
+        }, {});
+    }
+
+    return value;
+  }
+}
@@ -0,0 +1,86 @@
+import { PoolConnection } from 'mysql2/promise';
+import { storage } from '../repository';
+import { Money } from '../utils/money';
+import { LedgerPosting, ReconciliationReport } from '../model/ledger';
+
+/**
+ * Ledger service - writes balanced journal entries and reconciles balances against them
+ * accounts.balance is a projection of the postings, updated in the same database transaction
+ */
+export class LedgerService {
+  /**
+   * Record a journal entry and apply its postings to customer account balances
+   * Callers must already hold row locks on every customer account in the postings
+   * @param connection - Database connection with an open transaction
+   * @param transactionId - The transaction the entry belongs to
+   * @param description - Human readable description of the entry
+   * @param postings - Postings that must sum to zero
+   * @returns The ID of the created journal entry
+   * @throws Error if the postings do not sum to zero
+   */
+  static async recordJournalEntry(
+    connection: Pick<PoolConnection, 'execute'>,
+    transactionId: string,
+    description: string,
+    postings: LedgerPosting[]
+  ): Promise<number> {
+    this.assertBalanced(postings);
+
+    const [result] = await connection.execute(
+      'INSERT INTO journal_entries (transaction_id, description) VALUES (?, ?)',
+      [transactionId, description]
+    );
+    const journalEntryId = (result as { insertId: number }).insertId;
+
+    for (const posting of postings) {
+      await connection.execute(
+        `INSERT INTO ledger_postings (journal_entry_id, account_id, system_account_id, amount)
+         VALUES (?, ?, (SELECT id FROM system_accounts WHERE code = ?), ?)`,
+        [journalEntryId, posting.account_id ?? null, posting.system_account ?? null, posting.amount.toString()]
+      );
+
+      if (posting.account_id !== undefined) {
+        await connection.execute(
+          'UPDATE accounts SET balance = balance + ? WHERE id = ?',
+          [posting.amount.toString(), posting.account_id]
+        );
+      }
+    }
+
+    return journalEntryId;
+  }
+
+  /**
+   * Compare every stored account balance with the sum of its postings
+   * and list journal entries whose postings do not sum to zero
+   * @returns Reconciliation report; balanced is true when nothing disagrees
+   */
+  static async getReconciliation(): Promise<ReconciliationReport> {
+    const summary = await storage.repositories().transactions.summarizeLedger();
+
+    const accounts = summary.accounts.map(account => ({
+      ...account,
+      difference: account.stored_balance.subtract(account.ledger_balance)
+    }));
+
+    return {
+      balanced: summary.unbalanced_entries.length === 0 && accounts.every(account => account.difference.isZero()),
+      accounts,
+      unbalanced_entries: summary.unbalanced_entries
+    };
+  }
+
+  /**
+   * Verify that postings sum to exactly zero
+   * Also used by the SQLite and in-memory storage backends, which keep their own journal
+   * @param postings - Postings of a single journal entry
+   * @throws Error if the postings are empty or unbalanced
+   */
+  static assertBalanced(postings: LedgerPosting[]): void {
+    const total = postings.reduce((sum, posting) => sum.add(posting.amount), Money.ZERO);
+
+    if (postings.length < 2 || !total.isZero()) {
+      throw new Error('Ledger postings do not balance');
+    }
+  }
+}
@@ -0,0 +1,120 @@
+import { storage, StorageSession } from '../repository';
+import { Money } from '../utils/money';
+import { CreateTransactionData } from '../model/transaction';
+import {
+  LimitedTransactionType,
+  TransactionLimit,
+  UserLimitsReport
+} from '../model/limit';
+
+const LIMITED_TYPES: LimitedTransactionType[] = ['deposit', 'withdrawal', 'transfer'];
+
+/**
+ * Limit service - per-transaction maximums and rolling daily (24h) / monthly (30 day) totals
+ * per account and per user, looked up by the user's KYC tier and the transaction type
+ */
+export class LimitService {
+  /**
+   * Check a transaction against the limits of the user it is charged to
+   * Deposits count against the destination owner, withdrawals and transfers against the source owner.
+   * The user row is locked so concurrent transactions from the user's other accounts cannot
+   * both pass the user-wide totals; callers must already hold the account locks
+   * @param session - Storage session with an open transaction
+   * @param data - The transaction about to be applied
+   * @returns The failure reason of the first limit breached, or undefined if the transaction is within limits
+   */
+  static async checkLimits(session: StorageSession, data: CreateTransactionData): Promise<string | undefined> {
+    const type = data.type;
+    const accountId = type === 'deposit' ? data.destination_account_id : data.source_account_id;
+    if (accountId === undefined) {
+      return undefined;
+    }
+
+    const account = await session.accounts.findById(accountId);
+    const owner = account ? await session.users.findById(account.user_id, { forUpdate: true }) : null;
+    if (!owner) {
+      return undefined;
+    }
+
+    const limits = await session.limits.find(owner.kyc_tier, type);
+    if (!limits) {
+      return undefined;
+    }
+
+    if (this.exceeds(data.amount, Money.ZERO, limits.per_transaction_max)) {
+      return `Per-transaction ${type} limit exceeded`;
+    }
+
+    const accountUsage = await session.transactions.getUsage(type, 'account', accountId);
+    if (this.exceeds(data.amount, accountUsage.daily, limits.daily_account_max)) {
+      return `Daily ${type} limit exceeded for account`;
+    }
+    if (this.exceeds(data.amount, accountUsage.monthly, limits.monthly_account_max)) {
+      return `Monthly ${type} limit exceeded for account`;
+    }
+
+    const userUsage = await session.transactions.getUsage(type, 'user', owner.id);
+    if (this.exceeds(data.amount, userUsage.daily, limits.daily_user_max)) {
+      return `Daily ${type} limit exceeded for user`;
+    }
+    if (this.exceeds(data.amount, userUsage.monthly, limits.monthly_user_max)) {
+      return `Monthly ${type} limit exceeded for user`;
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Report a user's tier, limits and current usage for every limited transaction type
+   * @param userId - The user to report on
+   * @returns Limits and user-wide usage per transaction type
+   * @throws Error if the user does not exist
+   */
+  static async getUserLimits(userId: number): Promise<UserLimitsReport> {
+    const repositories = storage.repositories();
+
+    const user = await repositories.users.findById(userId);
+    if (!user) {
+      throw new Error('User does not exist');
+    }
+
+    const limits = [];
+    for (const type of LIMITED_TYPES) {
+      limits.push({
+        transaction_type: type,
+        limits: (await repositories.limits.find(user.kyc_tier, type)) ?? this.unlimited(user.kyc_tier, type),
+        user_usage: await repositories.transactions.getUsage(type, 'user', userId)
+      });
+    }
+
+    return {
+      user_id: userId,
+      kyc_tier: user.kyc_tier,
+      limits
+    };
+  }
+
+  /**
+   * Whether adding amount to what was already used goes over a limit (null is unlimited)
+   * @private
+   */
+  private static exceeds(amount: Money, used: Money, limit: Money | null): boolean {
+    return limit !== null && used.add(amount).compare(limit) > 0;
+  }
+
+  /**
+   * Limits for a tier without a configured row
+   * @private
+   */
+  private static unlimited(tier: string, type: LimitedTransactionType): TransactionLimit {
+    return {
+      kyc_tier: tier,
+      transaction_type: type,
+      per_transaction_max: null,
+      daily_account_max: null,
+      monthly_account_max: null,
+      daily_user_max: null,
+      monthly_user_max: null
+    };
+  }
+}
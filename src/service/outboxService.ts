@@ -0,0 +1,109 @@
+import { v4 as uuidv4 } from 'uuid';
+import { storage, StorageSession } from '../repository';
+import { Transaction } from '../model/transaction';
+import { DomainEvent, DomainEventType, OutboxEvent } from '../model/outbox';
+import { WebhookService } from './webhookService';
+
+/**
+ * Outbox service - transactional outbox for account activity
+ * Services record events in the session that changes the balance, so they commit or roll back
+ * with it. The relay publishes committed events in order, handing them to webhooks in the same
+ * database transaction, and SSE streams read the published events.
+ */
+export class OutboxService {
+  /**
+   * Record the events for a transaction that reached its final state (or pending review)
+   * Each involved account gets its own transaction event and, when money moved, a balance event
+   * @param session - Storage session with the open transaction that recorded it
+   * @param transaction - The recorded transaction
+   */
+  static async recordTransactionEvents(session: StorageSession, transaction: Transaction): Promise<void> {
+    const type: DomainEventType = transaction.status === 'failed'
+      ? 'transaction.failed'
+      : transaction.status === 'pending_review' ? 'transaction.pending_review' : 'transaction.completed';
+
+    const accountIds = [...new Set([transaction.source_account_id, transaction.destination_account_id])]
+      .filter((accountId): accountId is number => !!accountId);
+
+    for (const accountId of accountIds) {
+      await this.record(session, accountId, type, { account_id: accountId, transaction });
+    }
+
+    if (type !== 'transaction.completed') {
+      return;
+    }
+
+    for (const accountId of accountIds) {
+      const account = await session.accounts.findById(accountId);
+
+      await this.record(session, accountId, 'account.balance_changed', {
+        account_id: accountId,
+        balance: account!.balance,
+        transaction_id: transaction.transaction_id
+      });
+    }
+  }
+
+  /**
+   * Write one event to the outbox
+   * @param session - Storage session with an open transaction
+   * @param accountId - The account the event is about
+   * @param type - The event type
+   * @param data - The event data
+   */
+  static async record(
+    session: StorageSession,
+    accountId: number,
+    type: DomainEventType,
+    data: Record<string, unknown>
+  ): Promise<void> {
+    const event: DomainEvent = { id: uuidv4(), type, created_at: new Date().toISOString(), data };
+
+    await session.outbox.insert({ account_id: accountId, event });
+  }
+
+  /**
+   * Publish the oldest unpublished events
+   * Locking the last sequence serializes relays, so every published event gets the next sequence number
+   * and webhook deliveries are queued in the same database transaction
+   * @param limit - Maximum events to publish
+   * @returns The published events, in sequence order
+   */
+  static async relay(limit: number): Promise<OutboxEvent[]> {
+    return storage.transaction(async (session) => {
+      let sequence = await session.outbox.getLastSequence({ forUpdate: true });
+
+      const events = await session.outbox.listUnpublished(limit);
+
+      for (const event of events) {
+        event.sequence = ++sequence;
+        await session.outbox.markPublished(event.id, event.sequence);
+        await WebhookService.enqueueEvent(session, event);
+      }
+
+      if (events.length > 0) {
+        await session.outbox.setLastSequence(sequence);
+      }
+
+      return events;
+    });
+  }
+
+  /**
+   * List published events after a sequence number, oldest first
+   * @param afterSequence - Only events with a higher sequence number are returned
+   * @param limit - Maximum events to return
+   * @param accountId - Optional account to restrict the events to
+   * @returns Published events in sequence order
+   */
+  static async listPublished(afterSequence: number, limit: number, accountId?: number): Promise<OutboxEvent[]> {
+    return storage.repositories().outbox.listPublished(afterSequence, limit, accountId);
+  }
+
+  /**
+   * The sequence number of the most recently published event (0 if none)
+   */
+  static async latestSequence(): Promise<number> {
+    return storage.repositories().outbox.getLastSequence();
+  }
+}
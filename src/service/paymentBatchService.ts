@@ -0,0 +1,477 @@
+import { v4 as uuidv4 } from 'uuid';
+import { storage, StorageSession } from '../repository';
+import { Money } from '../utils/money';
+import { retryOnLockConflict } from '../utils/retry';
+import { parseCsvPaymentFile, parsePain001PaymentFile } from '../utils/paymentFile';
+import { schemas } from '../middleware/validation';
+import { paymentBatchConfig } from '../config/paymentBatches';
+import { statementConfig } from '../config/statements';
+import { Account } from '../model/account';
+import { CreateTransactionData, Transaction } from '../model/transaction';
+import { IdempotencyContext } from '../model/idempotency';
+import {
+  CreatePaymentBatchData,
+  ParsedPaymentLine,
+  PaymentBatch,
+  PaymentBatchLine,
+  PaymentBatchStatus,
+  PaymentLineStatus
+} from '../model/paymentBatch';
+import { AccountService } from './accountService';
+import { IdempotencyService } from './idempotencyService';
+import { TransactionService } from './transactionService';
+
+/**
+ * A payment line after validation, ready to be stored
+ */
+interface ValidatedLine {
+  line_number: number;
+  reference: string | null;
+  data: Partial<CreateTransactionData>;
+  error?: string;
+}
+
+/**
+ * Payment batch service - bulk payment files
+ * Uploading parses and validates every line and stores the batch as 'previewed' without moving
+ * money; confirming executes the valid lines all-or-nothing (one database transaction) or
+ * best-effort (one database transaction per line, resumable while the batch is 'processing')
+ */
+export class PaymentBatchService {
+  /**
+   * Parse and validate a payment file and store it as a batch awaiting confirmation
+   * Lines get the checks of POST /api/transactions: schemas.transaction, the source account (and a
+   * deposit's destination) must belong to the uploader, and referenced accounts must exist
+   * @param data - Uploader, file format and content, and execution mode
+   * @returns The previewed batch with every line and its validation result
+   * @throws Error if the file cannot be read as a whole or has too many lines
+   */
+  static async preview(data: CreatePaymentBatchData): Promise<PaymentBatch> {
+    const file = data.file_format === 'csv'
+      ? parseCsvPaymentFile(data.content)
+      : parsePain001PaymentFile(data.content, statementConfig.currency);
+
+    if (file.lines.length === 0) {
+      throw new Error('Invalid payment file: no payment lines');
+    }
+    if (file.lines.length > paymentBatchConfig.maxLines) {
+      throw new Error(`Invalid payment file: more than ${paymentBatchConfig.maxLines} payment lines`);
+    }
+
+    const accounts = new Map<string, Account | null>();
+    const lines: ValidatedLine[] = [];
+    for (const line of file.lines) {
+      lines.push(await this.validateLine(data.user_id, line, accounts));
+    }
+
+    const valid = lines.filter(line => !line.error);
+    const total = valid.reduce((sum, line) => sum.add(line.data.amount!), Money.ZERO);
+    const batchId = uuidv4();
+
+    await storage.transaction(session => session.paymentBatches.insert({
+      batch_id: batchId,
+      user_id: data.user_id,
+      file_format: data.file_format,
+      file_reference: file.file_reference,
+      mode: data.mode,
+      valid_line_count: valid.length,
+      total_amount: total,
+      lines: lines.map(line => ({
+        line_number: line.line_number,
+        reference: line.reference,
+        type: line.data.type ?? null,
+        amount: line.data.amount ?? null,
+        source_account_id: line.data.source_account_id ?? null,
+        destination_account_id: line.data.destination_account_id ?? null,
+        status: line.error ? 'invalid' : 'valid',
+        error: line.error?.slice(0, 255) ?? null
+      }))
+    }));
+
+    return (await this.findByBatchId(batchId))!;
+  }
+
+  /**
+   * Find a batch by its public batch ID
+   * @param batchId - The batch UUID
+   * @param withLines - Whether to include every line
+   * @returns Batch object or null if not found
+   */
+  static async findByBatchId(batchId: string, withLines: boolean = true): Promise<PaymentBatch | null> {
+    const repositories = storage.repositories();
+
+    const batch = await repositories.paymentBatches.findByBatchId(batchId);
+    if (!batch || !withLines) {
+      return batch;
+    }
+
+    return { ...batch, lines: await repositories.paymentBatches.listLines(batch.id) };
+  }
+
+  /**
+   * List a user's batches, newest first, without their lines
+   * @param userId - The uploader
+   * @returns The user's most recent batches
+   */
+  static async listForUser(userId: number): Promise<PaymentBatch[]> {
+    return storage.repositories().paymentBatches.listForUser(userId, 100);
+  }
+
+  /**
+   * Execute the valid lines of a previewed batch in the batch's mode
+   * Confirming a best-effort batch that is still 'processing' resumes it with the lines that have no outcome yet
+   * @param batchId - The batch to confirm
+   * @returns The batch with the outcome and transaction of every line
+   * @throws Error if the batch is missing or not previewed (or processing), or an all-or-nothing batch has invalid lines
+   */
+  static async confirm(batchId: string): Promise<PaymentBatch> {
+    const batch = await this.findByBatchId(batchId, false);
+    if (!batch) {
+      throw new Error('Payment batch not found');
+    }
+
+    if (batch.mode === 'all_or_nothing') {
+      await this.runAllOrNothing(batch);
+    } else {
+      await this.runBestEffort(batch);
+    }
+
+    return (await this.findByBatchId(batchId))!;
+  }
+
+  /**
+   * Resume every best-effort batch left 'processing', e.g. by a crash in the middle of its lines
+   * Safe while another process still runs one of them: each line is executed at most once
+   * @returns The number of batches resumed
+   */
+  static async resumeProcessing(): Promise<number> {
+    const batches = await storage.repositories().paymentBatches.listProcessing();
+    for (const batch of batches) {
+      await this.runBestEffort(batch);
+    }
+
+    return batches.length;
+  }
+
+  /**
+   * Cancel a previewed batch so it can no longer be confirmed
+   * @param batchId - The batch to cancel
+   * @returns The cancelled batch
+   * @throws Error if the batch is missing or not previewed
+   */
+  static async cancel(batchId: string): Promise<PaymentBatch> {
+    await retryOnLockConflict(() => storage.transaction(async (session) => {
+      const batch = await this.lockBatch(session, batchId, ['previewed']);
+      await session.paymentBatches.update(batch.id, { status: 'cancelled' });
+    }));
+
+    return (await this.findByBatchId(batchId))!;
+  }
+
+  /**
+   * Apply every line in one database transaction; if any line would not complete, roll back
+   * and record each failing line's reason, leaving the others not executed
+   * @private
+   */
+  private static async runAllOrNothing(batch: PaymentBatch): Promise<void> {
+    let failures: Map<number, string> | null = null;
+
+    try {
+      await retryOnLockConflict(() => storage.transaction(async (session) => {
+        failures = null;
+        const locked = await this.lockBatch(session, batch.batch_id, ['previewed']);
+
+        const lines = await session.paymentBatches.listLines(batch.id);
+        if (lines.some(line => line.status === 'invalid')) {
+          throw new Error('Payment batch has invalid lines');
+        }
+
+        // Account ownership was checked at upload; check it again as of now
+        const refused = new Map<number, string>();
+        for (const line of lines) {
+          const reason = await this.accountsError(batch.user_id, this.toTransactionData(line), id => session.accounts.findById(id));
+          if (reason) {
+            refused.set(line.line_number, reason);
+          }
+        }
+        if (refused.size > 0) {
+          failures = refused;
+          throw new Error('Payment batch failed');
+        }
+
+        // Legs carry the payment batch's ID, linking the transactions to it
+        const applied = await TransactionService.applyBatch(session, lines.map(line => this.toTransactionData(line)), batch.batch_id);
+        if (applied.failures.size > 0) {
+          failures = new Map([...applied.failures].map(([index, reason]) => [lines[index].line_number, reason]));
+          throw new Error('Payment batch failed');
+        }
+
+        for (const [index, line] of lines.entries()) {
+          await this.updateLine(session, batch.id, line.line_number, 'completed', null, applied.transactions[index].transaction_id);
+        }
+        await this.finish(session, locked, 'completed');
+      }));
+    } catch (error) {
+      if (!failures) {
+        throw error;
+      }
+    }
+
+    if (failures) {
+      const reasons: Map<number, string> = failures;
+
+      // The transactions were rolled back; record why the batch failed
+      await retryOnLockConflict(() => storage.transaction(async (session) => {
+        const locked = await this.lockBatch(session, batch.batch_id, ['previewed']);
+
+        for (const line of await session.paymentBatches.listLines(batch.id)) {
+          const reason = reasons.get(line.line_number);
+          await this.updateLine(session, batch.id, line.line_number, reason ? 'failed' : 'not_executed', reason ?? null, null);
+        }
+        await this.finish(session, locked, 'failed');
+      }));
+    }
+  }
+
+  /**
+   * Submit every valid line as its own transaction and record each outcome
+   * The batch is 'processing' until every valid line has an outcome, so a run that stops part-way
+   * (a crash, a failed write) is finished by confirming the batch again or by resumeProcessing()
+   * @private
+   */
+  private static async runBestEffort(batch: PaymentBatch): Promise<void> {
+    await retryOnLockConflict(() => storage.transaction(async (session) => {
+      const locked = await this.lockBatch(session, batch.batch_id, ['previewed', 'processing']);
+      if (locked.status === 'previewed') {
+        await session.paymentBatches.update(batch.id, { status: 'processing', confirmed_at: new Date() });
+      }
+    }));
+
+    for (const line of await storage.repositories().paymentBatches.listLines(batch.id, 'valid')) {
+      await this.runLine(batch, line);
+    }
+
+    await retryOnLockConflict(() => storage.transaction(async (session) => {
+      // A concurrent run of the same batch may have finished it already
+      const locked = await this.lockBatch(session, batch.batch_id, ['processing', 'completed', 'partially_completed', 'failed']);
+      if (locked.status !== 'processing') {
+        return;
+      }
+
+      const lines = await session.paymentBatches.listLines(batch.id);
+      if (lines.some(line => line.status === 'valid')) {
+        return;
+      }
+
+      const completed = lines.filter(line => line.status === 'completed').length;
+      const outcome: PaymentBatchStatus =
+        completed === locked.valid_line_count ? 'completed' : completed === 0 ? 'failed' : 'partially_completed';
+      await this.finish(session, locked, outcome);
+    }));
+  }
+
+  /**
+   * Execute one line of a best-effort batch and record its outcome in the same database transaction
+   * The line row is locked and must still be 'valid', so a line is never run twice, whether a run is
+   * resumed or two runs overlap. The line also claims the idempotency key
+   * payment-batch:<batch_id>:<line_number>: a line paid before its outcome was recorded this way is
+   * recorded from the stored response instead of being paid again
+   * @private
+   */
+  private static async runLine(batch: PaymentBatch, line: PaymentBatchLine): Promise<void> {
+    const data = this.toTransactionData(line);
+    const idempotency: IdempotencyContext = {
+      user_id: batch.user_id,
+      key: `payment-batch:${batch.batch_id}:${line.line_number}`,
+      fingerprint: IdempotencyService.fingerprint('POST', `/payment-batches/${batch.batch_id}/lines/${line.line_number}`, data)
+    };
+
+    try {
+      await retryOnLockConflict(() => storage.transaction(async (session) => {
+        const locked = await session.paymentBatches.findLine(batch.id, line.line_number, { forUpdate: true });
+        if (locked?.status !== 'valid') {
+          return;
+        }
+
+        // Account ownership was checked at upload; check it again as of now
+        const refused = await this.accountsError(batch.user_id, data, id => session.accounts.findById(id));
+        if (refused) {
+          await this.updateLine(session, batch.id, line.line_number, 'failed', refused, null);
+          return;
+        }
+
+        let transaction: Pick<Transaction, 'transaction_id' | 'status' | 'failure_reason'>;
+        try {
+          await IdempotencyService.claim(session, idempotency);
+          transaction = await TransactionService.applyTransaction(session, data);
+          await IdempotencyService.complete(session, idempotency, { status: 201, body: transaction }, transaction.transaction_id);
+        } catch (claimError) {
+          const stored = claimError instanceof Error && claimError.message === 'Idempotency key is already in use'
+            ? await IdempotencyService.findResponse(idempotency, session)
+            : null;
+          if (!stored) {
+            throw claimError;
+          }
+          transaction = stored.body as typeof transaction;
+        }
+
+        const status: PaymentLineStatus =
+          transaction.status === 'pending_review' ? 'pending_review' : transaction.status === 'failed' ? 'failed' : 'completed';
+        await this.updateLine(session, batch.id, line.line_number, status, transaction.failure_reason ?? null, transaction.transaction_id);
+      }));
+    } catch (error) {
+      // Nothing of the line was committed; record why, unless another run has recorded it meanwhile
+      await storage.repositories().paymentBatches.updateLine(
+        batch.id,
+        line.line_number,
+        { status: 'failed', error: (error instanceof Error ? error.message : 'Unknown error').slice(0, 255), transaction_id: null },
+        'valid'
+      );
+    }
+  }
+
+  /**
+   * Validate one parsed line against the transaction API rules
+   * @param accounts - Account lookups shared across the file, keyed by "id:<id>" or "number:<number>"
+   * @private
+   */
+  private static async validateLine(
+    userId: number,
+    line: ParsedPaymentLine,
+    accounts: Map<string, Account | null>
+  ): Promise<ValidatedLine> {
+    const result: ValidatedLine = { line_number: line.line_number, reference: line.reference, data: {} };
+    const lookup = async (key: string, find: () => Promise<Account | null>) => {
+      if (!accounts.has(key)) {
+        accounts.set(key, await find());
+      }
+      return accounts.get(key)!;
+    };
+
+    // pain.001 identifies accounts by number; resolve them to the IDs the transaction API takes
+    const fields: Record<string, string | number> = { ...line.fields };
+    for (const side of ['source', 'destination'] as const) {
+      const accountNumber = line.fields[`${side}_account_number`];
+      if (accountNumber !== undefined) {
+        delete fields[`${side}_account_number`];
+        const account = await lookup(`number:${accountNumber}`, () => AccountService.findByAccountNumber(accountNumber));
+        if (!account) {
+          return { ...result, error: line.error ?? `Account ${accountNumber} not found` };
+        }
+        fields[`${side}_account_id`] = account.id;
+      }
+    }
+
+    if (line.error) {
+      return { ...result, error: line.error };
+    }
+
+    const { error, value } = schemas.transaction.validate(fields, { abortEarly: false });
+    if (error) {
+      return { ...result, error: error.details.map(detail => detail.message).join(', ') };
+    }
+
+    const data = value as CreateTransactionData;
+    result.data = data;
+
+    const refused = await this.accountsError(userId, data, id => lookup(`id:${id}`, () => AccountService.findById(id)));
+    return refused ? { ...result, error: refused } : result;
+  }
+
+  /**
+   * The ownership checks of TransactionController: the accounts must exist, and the uploader must
+   * own the source account and a deposit's destination
+   * @param find - Looks up an account by ID
+   * @returns Why the line may not run, or undefined
+   * @private
+   */
+  private static async accountsError(
+    userId: number,
+    data: CreateTransactionData,
+    find: (accountId: number) => Promise<Account | null>
+  ): Promise<string | undefined> {
+    if (data.source_account_id !== undefined) {
+      const source = await find(data.source_account_id);
+      if (!source) {
+        return 'Source account not found';
+      }
+      if (source.user_id !== userId) {
+        return 'Unauthorized access to source account';
+      }
+    }
+
+    if (data.destination_account_id !== undefined) {
+      const destination = await find(data.destination_account_id);
+      if (!destination) {
+        return 'Destination account not found';
+      }
+      if (data.type === 'deposit' && destination.user_id !== userId) {
+        return 'Unauthorized access to destination account';
+      }
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Lock a batch and require one of the given statuses
+   * @private
+   */
+  private static async lockBatch(
+    session: StorageSession,
+    batchId: string,
+    allowed: PaymentBatchStatus[]
+  ): Promise<PaymentBatch> {
+    const batch = await session.paymentBatches.findByBatchId(batchId, { forUpdate: true });
+    if (!batch) {
+      throw new Error('Payment batch not found');
+    }
+
+    if (!allowed.includes(batch.status)) {
+      throw new Error(`Payment batch is ${batch.status}`);
+    }
+
+    return batch;
+  }
+
+  /**
+   * Record the outcome of a line
+   * @private
+   */
+  private static async updateLine(
+    session: StorageSession,
+    id: number,
+    lineNumber: number,
+    status: PaymentLineStatus,
+    error: string | null,
+    transactionId: string | null
+  ): Promise<void> {
+    await session.paymentBatches.updateLine(id, lineNumber, {
+      status,
+      error: error?.slice(0, 255) ?? null,
+      transaction_id: transactionId
+    });
+  }
+
+  /**
+   * Mark a batch as finished
+   * @private
+   */
+  private static async finish(session: StorageSession, batch: PaymentBatch, status: PaymentBatchStatus): Promise<void> {
+    const now = new Date();
+    await session.paymentBatches.update(batch.id, { status, confirmed_at: batch.confirmed_at ?? now, completed_at: now });
+  }
+
+  /**
+   * Turn a stored valid line back into transaction data
+   * @private
+   */
+  private static toTransactionData(line: PaymentBatchLine): CreateTransactionData {
+    return {
+      type: line.type as CreateTransactionData['type'],
+      amount: line.amount!,
+      source_account_id: line.source_account_id ?? undefined,
+      destination_account_id: line.destination_account_id ?? undefined
+    };
+  }
+}
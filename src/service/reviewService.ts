@@ -0,0 +1,93 @@
+import { storage, StorageSession } from '../repository';
+import { retryOnLockConflict } from '../utils/retry';
+import { FraudReview, ReviewDecisionData, ReviewDecisionResult, ReviewStatus } from '../model/fraud';
+import { Transaction } from '../model/transaction';
+import { TransactionService } from './transactionService';
+
+/**
+ * Review service - the queue of transactions held by fraud screening
+ * Approving applies the transaction (it may still fail on balance or limits), rejecting fails it
+ */
+export class ReviewService {
+  /**
+   * List reviews by status, oldest first so the queue is worked in arrival order
+   * @param status - The review status to list
+   * @param limit - Maximum number of reviews to return
+   * @returns Matching reviews
+   */
+  static async list(status: ReviewStatus, limit: number): Promise<FraudReview[]> {
+    return storage.repositories().fraudReviews.listByStatus(status, limit);
+  }
+
+  /**
+   * Find a review by its public review ID
+   * @param reviewId - The review UUID
+   * @returns Review object or null if not found
+   */
+  static async findByReviewId(reviewId: string): Promise<FraudReview | null> {
+    return storage.repositories().fraudReviews.findByReviewId(reviewId);
+  }
+
+  /**
+   * Approve a review and apply its transaction
+   * @param reviewId - The review to approve
+   * @param reviewerId - The user deciding
+   * @param data - Optional note
+   * @returns The decided review and the transaction, now completed or failed
+   * @throws Error if the review is missing or already decided
+   */
+  static async approve(reviewId: string, reviewerId: number, data: ReviewDecisionData): Promise<ReviewDecisionResult> {
+    return this.decide(reviewId, reviewerId, 'approved', data, (session, transactionId) =>
+      TransactionService.settlePendingTransaction(session, transactionId)
+    );
+  }
+
+  /**
+   * Reject a review and fail its transaction without moving money
+   * @param reviewId - The review to reject
+   * @param reviewerId - The user deciding
+   * @param data - Optional note
+   * @returns The decided review and the failed transaction
+   * @throws Error if the review is missing or already decided
+   */
+  static async reject(reviewId: string, reviewerId: number, data: ReviewDecisionData): Promise<ReviewDecisionResult> {
+    return this.decide(reviewId, reviewerId, 'rejected', data, (session, transactionId) =>
+      TransactionService.rejectPendingTransaction(session, transactionId)
+    );
+  }
+
+  /**
+   * Lock a pending review, record the decision and settle its transaction in one database transaction
+   * @private
+   */
+  private static async decide(
+    reviewId: string,
+    reviewerId: number,
+    decision: 'approved' | 'rejected',
+    data: ReviewDecisionData,
+    settle: (session: StorageSession, transactionId: string) => Promise<Transaction>
+  ): Promise<ReviewDecisionResult> {
+    return retryOnLockConflict(() => storage.transaction(async (session) => {
+      const review = await session.fraudReviews.findByReviewId(reviewId, { forUpdate: true });
+      if (!review) {
+        throw new Error('Review not found');
+      }
+      if (review.status !== 'pending') {
+        throw new Error(`Review is already ${review.status}`);
+      }
+
+      const transaction = await settle(session, review.transaction_id);
+
+      await session.fraudReviews.decide(reviewId, {
+        status: decision,
+        reviewed_by: reviewerId,
+        review_note: data.note ?? null
+      });
+
+      return {
+        review: (await session.fraudReviews.findByReviewId(reviewId))!,
+        transaction
+      };
+    }));
+  }
+}
@@ -0,0 +1,290 @@
+import { v4 as uuidv4 } from 'uuid';
+import { storage, StorageSession } from '../repository';
+import { schedulerConfig } from '../config/scheduler';
+import { Schedule, ScheduleRun, ScheduleStatus, ScheduleFrequency, CreateScheduleData } from '../model/schedule';
+import { Transaction } from '../model/transaction';
+import { IdempotencyContext } from '../model/idempotency';
+import { TransactionService } from './transactionService';
+import { IdempotencyService } from './idempotencyService';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Schedule service - standing orders executed by the background schedule worker
+ * Each occurrence is submitted through TransactionService.submitTransaction with an
+ * idempotency key derived from the schedule and occurrence, so a crash between moving
+ * the money and recording the run can never execute the same occurrence twice
+ */
+export class ScheduleService {
+  /**
+   * Create a schedule owned by the owner of the source account
+   * @param userId - The owner of the source account
+   * @param data - Accounts, amount, frequency and the first/last execution times
+   * @returns The created schedule
+   */
+  static async create(userId: number, data: CreateScheduleData): Promise<Schedule> {
+    const scheduleId = uuidv4();
+
+    await storage.repositories().schedules.insert({
+      schedule_id: scheduleId,
+      user_id: userId,
+      source_account_id: data.source_account_id,
+      destination_account_id: data.destination_account_id,
+      amount: data.amount,
+      frequency: data.frequency,
+      start_at: data.start_at,
+      end_at: data.end_at
+    });
+
+    return (await this.findByScheduleId(scheduleId))!;
+  }
+
+  /**
+   * Find a schedule by its public schedule ID
+   * @param scheduleId - The UUID returned when the schedule was created
+   * @returns Schedule object or null if not found
+   */
+  static async findByScheduleId(scheduleId: string): Promise<Schedule | null> {
+    return storage.repositories().schedules.findByScheduleId(scheduleId);
+  }
+
+  /**
+   * List the schedules owned by a user, newest first
+   * @param userId - The owner
+   * @returns The user's schedules
+   */
+  static async listForUser(userId: number): Promise<Schedule[]> {
+    return storage.repositories().schedules.listForUser(userId);
+  }
+
+  /**
+   * List the recorded runs of a schedule, newest first
+   * @param schedule - The schedule whose runs are requested
+   * @returns The recorded runs
+   */
+  static async listRuns(schedule: Schedule): Promise<ScheduleRun[]> {
+    return storage.repositories().schedules.listRuns(schedule.id);
+  }
+
+  /**
+   * Pause an active schedule; occurrences missed while paused are skipped
+   * @param scheduleId - The schedule to pause
+   * @returns The updated schedule
+   * @throws Error if the schedule is not active
+   */
+  static async pause(scheduleId: string): Promise<Schedule> {
+    return this.transition(scheduleId, ['active'], async (session, schedule) => {
+      await session.schedules.update(schedule.id, { status: 'paused' });
+    });
+  }
+
+  /**
+   * Resume a paused schedule from its next occurrence that is not in the past
+   * @param scheduleId - The schedule to resume
+   * @returns The updated schedule (completed if no occurrence is left)
+   * @throws Error if the schedule is not paused
+   */
+  static async resume(scheduleId: string): Promise<Schedule> {
+    return this.transition(scheduleId, ['paused'], async (session, schedule) => {
+      const now = new Date();
+      let nextRunAt = schedule.next_run_at && schedule.next_run_at >= now
+        ? schedule.next_run_at
+        : this.nextOccurrence(schedule.start_at, schedule.frequency, new Date(now.getTime() - 1));
+
+      if (nextRunAt && schedule.end_at && nextRunAt > schedule.end_at) {
+        nextRunAt = null;
+      }
+
+      await session.schedules.update(schedule.id, { status: nextRunAt ? 'active' : 'completed', next_run_at: nextRunAt });
+    });
+  }
+
+  /**
+   * Cancel a schedule permanently
+   * @param scheduleId - The schedule to cancel
+   * @returns The updated schedule
+   * @throws Error if the schedule is already cancelled or completed
+   */
+  static async cancel(scheduleId: string): Promise<Schedule> {
+    return this.transition(scheduleId, ['active', 'paused'], async (session, schedule) => {
+      await session.schedules.update(schedule.id, { status: 'cancelled' });
+    });
+  }
+
+  /**
+   * Lease due schedules to a worker
+   * On MySQL SKIP LOCKED lets concurrent instances claim disjoint batches without waiting on each other,
+   * and the lease keeps a claimed schedule away from other workers until it is recorded or expires
+   * @param workerId - Unique identifier of the claiming worker
+   * @param limit - Maximum number of schedules to claim
+   * @returns The claimed schedules
+   */
+  static async claimDue(workerId: string, limit: number): Promise<Schedule[]> {
+    return storage.transaction(async (session) => {
+      const schedules = await session.schedules.listDue(limit);
+
+      for (const schedule of schedules) {
+        await session.schedules.lease(schedule.id, workerId, schedulerConfig.leaseSeconds);
+      }
+
+      return schedules;
+    });
+  }
+
+  /**
+   * Execute the due occurrence of a claimed schedule and record the run
+   * Insufficient funds and other recorded failures still advance the schedule
+   * @param schedule - A schedule returned by claimDue
+   * @param workerId - The worker holding the lease
+   * @returns The recorded run
+   */
+  static async executeRun(schedule: Schedule, workerId: string): Promise<ScheduleRun> {
+    const scheduledFor = schedule.next_run_at!;
+    let transaction: Transaction | undefined;
+    let failureReason: string | undefined;
+
+    try {
+      transaction = await this.submitOccurrence(schedule, scheduledFor);
+      if (transaction.status === 'failed') {
+        failureReason = transaction.failure_reason;
+      }
+    } catch (error) {
+      failureReason = error instanceof Error ? error.message : 'Unknown error';
+    }
+
+    // Occurrences missed while the worker was down are skipped rather than paid out in a burst
+    const now = new Date();
+    let nextRunAt = this.nextOccurrence(
+      schedule.start_at,
+      schedule.frequency,
+      scheduledFor > now ? scheduledFor : now
+    );
+    if (nextRunAt && schedule.end_at && nextRunAt > schedule.end_at) {
+      nextRunAt = null;
+    }
+
+    return storage.transaction(async (session) => {
+      // Recording the same occurrence twice is a no-op
+      await session.schedules.insertRun(schedule.id, {
+        scheduled_for: scheduledFor,
+        transaction_id: transaction?.transaction_id,
+        status: failureReason ? 'failed' : 'completed',
+        failure_reason: failureReason ? failureReason.slice(0, 255) : undefined
+      });
+
+      // Pausing or cancelling while the run was in flight wins over the worker's update
+      await session.schedules.advance(schedule.id, workerId, nextRunAt);
+
+      return (await session.schedules.findRun(schedule.id, scheduledFor))!;
+    });
+  }
+
+  /**
+   * Compute the first occurrence strictly after a point in time
+   * Monthly schedules keep the start day, clamped to the last day of shorter months
+   * @param startAt - The first occurrence
+   * @param frequency - How often the schedule repeats
+   * @param after - Occurrences at or before this time are skipped
+   * @returns The next occurrence, or null if the schedule does not repeat
+   */
+  static nextOccurrence(startAt: Date, frequency: ScheduleFrequency, after: Date): Date | null {
+    if (startAt > after) {
+      return startAt;
+    }
+
+    switch (frequency) {
+      case 'once':
+        return null;
+
+      case 'daily':
+      case 'weekly': {
+        const step = frequency === 'daily' ? DAY_MS : 7 * DAY_MS;
+        const occurrences = Math.floor((after.getTime() - startAt.getTime()) / step) + 1;
+        return new Date(startAt.getTime() + occurrences * step);
+      }
+
+      case 'monthly': {
+        let months = Math.max(
+          1,
+          (after.getUTCFullYear() - startAt.getUTCFullYear()) * 12 + (after.getUTCMonth() - startAt.getUTCMonth())
+        );
+        let candidate = this.addMonths(startAt, months);
+        while (candidate <= after) {
+          candidate = this.addMonths(startAt, ++months);
+        }
+        return candidate;
+      }
+    }
+  }
+
+  /**
+   * Submit one occurrence through the regular transaction path
+   * A retried occurrence replays the transaction recorded by the first attempt
+   * @private
+   */
+  private static async submitOccurrence(schedule: Schedule, scheduledFor: Date): Promise<Transaction> {
+    const data = {
+      type: 'transfer' as const,
+      amount: schedule.amount,
+      source_account_id: schedule.source_account_id,
+      destination_account_id: schedule.destination_account_id
+    };
+    const idempotency: IdempotencyContext = {
+      user_id: schedule.user_id,
+      key: `schedule:${schedule.schedule_id}:${scheduledFor.toISOString()}`,
+      fingerprint: IdempotencyService.fingerprint('POST', `/schedules/${schedule.schedule_id}/runs`, data)
+    };
+
+    const previous = await IdempotencyService.findResponse(idempotency);
+    if (previous) {
+      return previous.body as Transaction;
+    }
+
+    return TransactionService.submitTransaction(data, idempotency);
+  }
+
+  /**
+   * Lock a schedule, check its current status and apply a change in one database transaction
+   * @private
+   */
+  private static async transition(
+    scheduleId: string,
+    allowed: ScheduleStatus[],
+    change: (session: StorageSession, schedule: Schedule) => Promise<void>
+  ): Promise<Schedule> {
+    await storage.transaction(async (session) => {
+      const schedule = await session.schedules.findByScheduleId(scheduleId, { forUpdate: true });
+      if (!schedule) {
+        throw new Error('Schedule not found');
+      }
+
+      if (!allowed.includes(schedule.status)) {
+        throw new Error(`Schedule is ${schedule.status}`);
+      }
+
+      await change(session, schedule);
+    });
+
+    return (await this.findByScheduleId(scheduleId))!;
+  }
+
+  /**
+   * Add whole months to a date in UTC, clamping the day to the target month's length
+   * @private
+   */
+  private static addMonths(date: Date, months: number): Date {
+    const year = date.getUTCFullYear();
+    const month = date.getUTCMonth() + months;
+    const lastDay = new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+
+    return new Date(Date.UTC(
+      year,
+      month,
+      Math.min(date.getUTCDate(), lastDay),
+      date.getUTCHours(),
+      date.getUTCMinutes(),
+      date.getUTCSeconds(),
+      date.getUTCMilliseconds()
+    ));
+  }
+}
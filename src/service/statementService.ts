@@ -0,0 +1,92 @@
+import { storage } from '../repository';
+import { Money } from '../utils/money';
+import { Statement, StatementEntry, StatementLine } from '../model/statement';
+
+/**
+ * Statement service - account statements built from the ledger
+ * Lines are journal entries booked on the account in the period, so a transaction appears
+ * when its money moved (a reviewed transaction on approval, not submission)
+ */
+export class StatementService {
+  /**
+   * Build the statement of an account for a period
+   * Opening balance and lines are read in one database transaction so they come from one snapshot
+   * @param accountId - The account to report on
+   * @param start - Start of the period (inclusive)
+   * @param end - End of the period (exclusive)
+   * @returns Opening and closing balances, totals and every booked entry with its running balance
+   * @throws Error if the account does not exist
+   */
+  static async getStatement(accountId: number, start: Date, end: Date): Promise<Statement> {
+    return storage.transaction(async (session) => {
+      const account = await session.accounts.findById(accountId);
+      const holder = account ? await session.users.findById(account.user_id) : null;
+      if (!account || !holder) {
+        throw new Error('Account not found');
+      }
+
+      const openingBalance = await session.transactions.getPostedBalance(accountId, start);
+      const entries = await session.transactions.listJournalEntries(accountId, start, end);
+
+      let balance = openingBalance;
+      let totalIn = Money.ZERO;
+      let totalOut = Money.ZERO;
+      const lines: StatementLine[] = [];
+
+      for (const entry of entries) {
+        const amount = entry.amount;
+        balance = balance.add(amount);
+        if (amount.isNegative()) {
+          totalOut = totalOut.add(amount.negate());
+        } else {
+          totalIn = totalIn.add(amount);
+        }
+
+        lines.push({
+          journal_entry_id: entry.journal_entry_id,
+          booked_at: entry.booked_at,
+          transaction_id: entry.transaction_id,
+          type: entry.type,
+          description: this.describe(entry, accountId),
+          amount,
+          running_balance: balance
+        });
+      }
+
+      return {
+        account_id: accountId,
+        account_number: account.account_number,
+        account_holder: holder.username,
+        period_start: start,
+        period_end: end,
+        opening_balance: openingBalance,
+        total_in: totalIn,
+        total_out: totalOut,
+        closing_balance: balance,
+        lines
+      };
+    });
+  }
+
+  /**
+   * Human readable description of an entry from the account holder's point of view
+   * @private
+   */
+  private static describe(entry: StatementEntry, accountId: number): string {
+    switch (entry.type) {
+      case 'deposit':
+        return 'Deposit';
+      case 'withdrawal':
+        return 'Withdrawal';
+      case 'transfer':
+        return entry.source_account_id === accountId
+          ? `Transfer to ${entry.destination_account_number}`
+          : `Transfer from ${entry.source_account_number}`;
+      case 'reversal':
+        return `Reversal of ${entry.original_transaction_id}`;
+      default:
+        // Entries without a transaction, such as the opening balance import
+        return entry.description;
+    }
+  }
+}
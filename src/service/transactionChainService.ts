@@ -0,0 +1,259 @@
+import { storage, StorageSession } from '../repository';
+import { GENESIS_HASH, hashChainLink, receiptKeyId, signReceiptHash } from '../utils/transactionChain';
+import { receiptConfig } from '../config/receipts';
+import {
+  ChainBreak,
+  ChainContents,
+  ChainedTransaction,
+  ChainHead,
+  ChainVerification,
+  LinkedTransaction,
+  ReceiptPublicKey,
+  TransactionReceipt
+} from '../model/transactionChain';
+
+const VERIFY_PAGE_SIZE = 1000;
+
+/**
+ * Transaction chain service - links final transactions into a tamper-evident hash chain
+ * Links are appended in the session that decides the transaction, so a row is linked if and
+ * only if its outcome committed. The chain head is locked by every append, which serializes
+ * appends; it is always the last lock a money movement takes.
+ */
+export class TransactionChainService {
+  /**
+   * Link a transaction whose outcome is final to the end of the chain
+   * Does nothing if the row is already linked
+   * @param session - Storage session with the open transaction that decided it
+   * @param transactionId - The transaction to link
+   */
+  static async append(session: StorageSession, transactionId: string): Promise<void> {
+    const head = await session.transactionChain.getHead({ forUpdate: true });
+
+    const transaction = await session.transactionChain.findTransaction(transactionId);
+    if (!transaction || transaction.chain_sequence !== null) {
+      return;
+    }
+
+    await this.link(session, transaction, head);
+  }
+
+  /**
+   * Link final transactions that are not in the chain yet, oldest first
+   * Used once after the chain is introduced, for rows written before it
+   * @param limit - Maximum rows to link
+   * @returns The number of rows linked
+   */
+  static async backfill(limit: number): Promise<number> {
+    return storage.transaction(async (session) => {
+      let head = await session.transactionChain.getHead({ forUpdate: true });
+
+      const transactions = await session.transactionChain.listUnlinked(limit);
+      for (const transaction of transactions) {
+        head = await this.link(session, transaction, head);
+      }
+
+      return transactions.length;
+    });
+  }
+
+  /**
+   * Walk the chain from the first link and report the first broken one
+   * Reads one consistent snapshot, so links appended meanwhile are neither checked nor reported
+   * @returns Whether the chain is intact, how many links were checked and the first break
+   */
+  static async verify(): Promise<ChainVerification> {
+    return storage.transaction(async (session) => {
+      const head = await session.transactionChain.getHead();
+
+      let checked = 0;
+      let previous: ChainHead = { sequence: 0, hash: GENESIS_HASH };
+      let broken: ChainBreak | null = null;
+
+      while (!broken) {
+        const page = await session.transactionChain.listLinked(previous.sequence, VERIFY_PAGE_SIZE);
+        for (const transaction of page) {
+          broken = this.checkLink(transaction, previous);
+          if (broken) {
+            break;
+          }
+          previous = { sequence: transaction.chain_sequence!, hash: transaction.row_hash! };
+          checked++;
+        }
+
+        if (page.length < VERIFY_PAGE_SIZE) {
+          break;
+        }
+      }
+
+      if (!broken && (previous.sequence !== head.sequence || previous.hash !== head.hash)) {
+        broken = {
+          sequence: previous.sequence + 1,
+          transaction_id: null,
+          reason: 'head_mismatch',
+          expected: `${head.sequence}:${head.hash}`,
+          actual: `${previous.sequence}:${previous.hash}`
+        };
+      }
+
+      return {
+        valid: broken === null,
+        checked,
+        head,
+        first_broken_link: broken,
+        unchained: await session.transactionChain.countUnlinked()
+      };
+    });
+  }
+
+  /**
+   * Build a signed receipt for a linked transaction
+   * @param transactionId - The transaction the receipt is for
+   * @returns The receipt, or null while the transaction is not linked (held for review)
+   * @throws Error if receipt signing is not configured, the transaction does not exist or its link is broken
+   */
+  static async getReceipt(transactionId: string): Promise<TransactionReceipt | null> {
+    if (!receiptConfig.signingKey || !receiptConfig.publicKey) {
+      throw new Error('Receipt signing is not configured');
+    }
+
+    const transaction = await storage.repositories().transactionChain.findTransaction(transactionId);
+    if (!transaction) {
+      throw new Error('Transaction not found');
+    }
+
+    if (transaction.chain_sequence === null) {
+      return null;
+    }
+
+    // Never vouch for a row that was altered after it was linked
+    const contents = this.toContents(transaction, transaction.chain_sequence);
+    if (hashChainLink(transaction.prev_hash!, contents) !== transaction.row_hash) {
+      throw new Error('Transaction chain link is broken');
+    }
+
+    return {
+      version: 1,
+      algorithm: 'Ed25519',
+      key_id: receiptKeyId(receiptConfig.publicKey),
+      contents,
+      prev_hash: transaction.prev_hash!,
+      row_hash: transaction.row_hash!,
+      signature: signReceiptHash(receiptConfig.signingKey, transaction.row_hash!)
+    };
+  }
+
+  /**
+   * Whether receipts can be issued
+   */
+  static receiptsEnabled(): boolean {
+    return receiptConfig.signingKey !== null;
+  }
+
+  /**
+   * The public key clients verify receipts with
+   * @throws Error if receipt signing is not configured
+   */
+  static getPublicKey(): ReceiptPublicKey {
+    if (!receiptConfig.publicKey) {
+      throw new Error('Receipt signing is not configured');
+    }
+
+    return {
+      key_id: receiptKeyId(receiptConfig.publicKey),
+      algorithm: 'Ed25519',
+      public_key: receiptConfig.publicKey.export({ type: 'spki', format: 'pem' }).toString()
+    };
+  }
+
+  /**
+   * Link a transaction after the current head, making it the new head
+   * @returns The new head
+   * @private
+   */
+  private static async link(
+    session: StorageSession,
+    transaction: ChainedTransaction,
+    head: ChainHead
+  ): Promise<ChainHead> {
+    const sequence = head.sequence + 1;
+    const rowHash = hashChainLink(head.hash, this.toContents(transaction, sequence));
+
+    await session.transactionChain.link(transaction.transaction_id, {
+      sequence,
+      prev_hash: head.hash,
+      row_hash: rowHash
+    });
+
+    return { sequence, hash: rowHash };
+  }
+
+  /**
+   * Check one link against the link before it
+   * @returns The break, or null if the link is intact
+   * @private
+   */
+  private static checkLink(transaction: LinkedTransaction, previous: ChainHead): ChainBreak | null {
+    const sequence = transaction.chain_sequence!;
+    if (sequence !== previous.sequence + 1) {
+      return {
+        sequence: previous.sequence + 1,
+        transaction_id: null,
+        reason: 'missing_link',
+        expected: String(previous.sequence + 1),
+        actual: String(sequence)
+      };
+    }
+
+    const brokenLink = (reason: ChainBreak['reason'], expected: string, actual: string | null): ChainBreak => ({
+      sequence,
+      transaction_id: transaction.transaction_id,
+      reason,
+      expected,
+      actual
+    });
+
+    if (transaction.prev_hash !== previous.hash) {
+      return brokenLink('prev_hash_mismatch', previous.hash, transaction.prev_hash);
+    }
+
+    const rowHash = hashChainLink(transaction.prev_hash, this.toContents(transaction, sequence));
+    if (rowHash !== transaction.row_hash) {
+      return brokenLink('content_mismatch', rowHash, transaction.row_hash);
+    }
+
+    // reversed_amount and the reversed statuses change after linking, so they are checked
+    // against the linked reversals instead of the hash
+    const reversed = transaction.linked_reversed;
+    const expectedStatus = transaction.status === 'failed'
+      ? 'failed'
+      : reversed.isZero() ? 'completed' : reversed.equals(transaction.amount) ? 'reversed' : 'partially_reversed';
+    const expected = `${expectedStatus}:${reversed.toString()}`;
+    const actual = `${transaction.status}:${transaction.reversed_amount.toString()}`;
+    if (expected !== actual) {
+      return brokenLink('reversal_mismatch', expected, actual);
+    }
+
+    return null;
+  }
+
+  /**
+   * The hashed contents of a transaction at a chain position
+   * @private
+   */
+  private static toContents(transaction: ChainedTransaction, sequence: number): ChainContents {
+    return {
+      sequence,
+      transaction_id: transaction.transaction_id,
+      type: transaction.type,
+      amount: transaction.amount.toString(),
+      source_account_id: transaction.source_account_id,
+      destination_account_id: transaction.destination_account_id,
+      original_transaction_id: transaction.original_transaction_id,
+      batch_id: transaction.batch_id,
+      status: transaction.status === 'failed' ? 'failed' : 'completed',
+      failure_reason: transaction.failure_reason,
+      created_at: transaction.created_epoch
+    };
+  }
+}
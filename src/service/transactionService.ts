@@ -1,121 +1,567 @@
-import { db } from '../utils/database';
-import { Transaction, CreateTransactionData, TransactionRow, SummaryReport, AccountSummary, FailedTransactionSummary } from '../model/transaction';
+import { storage, StorageSession } from '../repository';
+import { Transaction, CreateTransactionData, SummaryReport, TransactionHistoryFilters, TransactionHistoryPage, TransactionStatus, ReverseTransactionData, ReversalResult, AccountBalance, TransactionBatch, AppliedBatch } from '../model/transaction';
+import { IdempotencyContext } from '../model/idempotency';
+import { IdempotencyService } from './idempotencyService';
+import { LimitService } from './limitService';
+import { FraudService } from './fraudService';
+import { AccountService } from './accountService';
+import { OutboxService } from './outboxService';
+import { AuditService } from './auditService';
+import { TransactionChainService } from './transactionChainService';
+import { LedgerPosting } from '../model/ledger';
+import { RuleHit } from '../model/fraud';
+import { retryOnLockConflict } from '../utils/retry';
+import { Money } from '../utils/money';
 import { v4 as uuidv4 } from 'uuid';
 
 /**
  * Transaction service - handles transaction-related database operations
- * Manages deposits, withdrawals, transfers, and transaction reporting
+ * Manages deposits, withdrawals, transfers, reversals, and transaction reporting
  */
 export class TransactionService {
   /**
    * Submit a new transaction (deposit, withdrawal, or transfer)
-   * Uses database transactions to ensure data consistency
+   * Uses database transactions to ensure data consistency and retries on deadlocks or lock wait timeouts
    * @param data - Transaction data including type, amount, and account IDs
+   * @param idempotency - Optional Idempotency-Key context, claimed and completed in the same database transaction
    * @returns The created transaction object
-   * @throws Error if database operation fails
+   * @throws Error if database operation fails or the idempotency key is already in use
    */
-  static async submitTransaction(data: CreateTransactionData): Promise<Transaction> {
-    const connection = await db.getPool().getConnection();
+  static async submitTransaction(data: CreateTransactionData, idempotency?: IdempotencyContext): Promise<Transaction> {
+    return retryOnLockConflict(() => this.executeTransaction(data, idempotency));
+  }
+  
+  /**
+   * Run a single attempt of submitTransaction inside one database transaction
+   * @param data - Transaction data including type, amount, and account IDs
+   * @param idempotency - Optional Idempotency-Key context
+   * @returns The created transaction object
+   * @private
+   */
+  private static async executeTransaction(data: CreateTransactionData, idempotency?: IdempotencyContext): Promise<Transaction> {
+    return storage.transaction(async (session) => {
+      if (idempotency) {
+        await IdempotencyService.claim(session, idempotency);
+      }
+      
+      const transaction = await this.applyTransaction(session, data);
+      
+      if (idempotency) {
+        await IdempotencyService.complete(session, idempotency, { status: 201, body: transaction }, transaction.transaction_id);
+      }
+      
+      return transaction;
+    });
+  }
+  
+  /**
+   * Validate, screen, apply and record a transaction in the caller's storage session
+   * Involved accounts are locked up front so balance checks and updates cannot interleave;
+   * the caller owns the database transaction and must commit or roll back. Its outbox events are
+   * written in the same session, so they commit or roll back with it.
+   * A transaction that would complete is run through fraud screening: blocked ones are
+   * recorded as failed, flagged ones as pending_review (no money moves) with a review opened for them
+   * @param session - Storage session with an open transaction
+   * @param data - Transaction data including type, amount, and account IDs
+   * @param options - skipScreening for money movements already approved elsewhere (hold captures),
+   * batchId to link the transaction to the other legs of a batch
+   * @returns The recorded transaction (completed, failed or pending_review)
+   */
+  static async applyTransaction(
+    session: StorageSession,
+    data: CreateTransactionData,
+    options: { skipScreening?: boolean; batchId?: string } = {}
+  ): Promise<Transaction> {
+    const transactionId = uuidv4();
+    const evaluation = await this.evaluateTransaction(session, data);
+    let status: TransactionStatus = evaluation.status;
+    let failureReason = evaluation.failure_reason;
+    let hits: RuleHit[] = [];
+    
+    if (status === 'completed' && !options.skipScreening) {
+      const screening = await FraudService.screen(session, data);
+      if (screening.action === 'block') {
+        status = 'failed';
+        failureReason = screening.reason;
+      } else if (screening.action === 'flag') {
+        status = 'pending_review';
+        failureReason = screening.reason;
+        hits = screening.hits;
+      }
+    }
+    
+    // Insert transaction record
+    await session.transactions.insert({
+      transaction_id: transactionId,
+      type: data.type,
+      amount: data.amount,
+      source_account_id: data.source_account_id,
+      destination_account_id: data.destination_account_id,
+      batch_id: options.batchId,
+      status,
+      failure_reason: failureReason
+    });
+    
+    // Completed transactions move money through a balanced journal entry
+    if (status === 'completed') {
+      await session.transactions.recordJournalEntry(transactionId, `${data.type} ${transactionId}`, evaluation.postings);
+    } else if (status === 'pending_review') {
+      await FraudService.openReview(session, transactionId, hits);
+    }
+    
+    return this.recordAndFetch(session, transactionId);
+  }
+  
+  /**
+   * Submit several transactions that must all complete together, e.g. splitting a bill
+   * All legs run in one database transaction. If any leg would not complete, nothing moves:
+   * the work is rolled back and every leg is recorded as failed, the failing ones with their own
+   * reason and the rest with 'Batch rolled back'. Either way the legs share one batch ID
+   * @param legs - The deposits, withdrawals and transfers to apply, in order
+   * @param idempotency - Optional Idempotency-Key context, claimed and completed with the outcome
+   * @returns The batch with every leg, completed or failed
+   * @throws Error if database operation fails or the idempotency key is already in use
+   */
+  static async submitBatch(legs: CreateTransactionData[], idempotency?: IdempotencyContext): Promise<TransactionBatch> {
+    const batchId = uuidv4();
+    let failures: Map<number, string> | null = null;
     
     try {
-      await connection.beginTransaction();
+      return await retryOnLockConflict(() => storage.transaction(async (session) => {
+        failures = null;
+        
+        if (idempotency) {
+          await IdempotencyService.claim(session, idempotency);
+        }
+        
+        const applied = await this.applyBatch(session, legs, batchId);
+        if (applied.failures.size > 0) {
+          failures = applied.failures;
+          throw new Error('Transaction batch failed');
+        }
+        
+        const batch: TransactionBatch = { batch_id: batchId, status: 'completed', legs: applied.transactions };
+        
+        if (idempotency) {
+          await IdempotencyService.complete(session, idempotency, { status: 201, body: batch }, null);
+        }
+        
+        return batch;
+      }));
+    } catch (error) {
+      if (!failures) {
+        throw error;
+      }
+    }
+    
+    const reasons: Map<number, string> = failures;
+    
+    // The legs were rolled back; record each of them as failed under the same batch ID
+    return retryOnLockConflict(() => storage.transaction(async (session) => {
+      if (idempotency) {
+        await IdempotencyService.claim(session, idempotency);
+      }
+      
+      const transactions: Transaction[] = [];
+      for (const [index, leg] of legs.entries()) {
+        const transactionId = uuidv4();
+        await session.transactions.insert({
+          transaction_id: transactionId,
+          type: leg.type,
+          amount: leg.amount,
+          source_account_id: leg.source_account_id,
+          destination_account_id: leg.destination_account_id,
+          batch_id: batchId,
+          status: 'failed',
+          failure_reason: reasons.get(index) ?? 'Batch rolled back'
+        });
+        transactions.push(await this.recordAndFetch(session, transactionId));
+      }
+      
+      const batch: TransactionBatch = { batch_id: batchId, status: 'failed', legs: transactions };
+      
+      if (idempotency) {
+        await IdempotencyService.complete(session, idempotency, { status: 201, body: batch }, null);
+      }
+      
+      return batch;
+    }));
+  }
+  
+  /**
+   * Apply the legs of a batch in the caller's storage session, linking them by batch ID
+   * Every involved account is locked up front in ascending order, so legs cannot deadlock each
+   * other or concurrent batches. Legs are applied even after one fails; the caller decides
+   * whether to commit or roll back
+   * @param session - Storage session with an open transaction
+   * @param legs - The transactions to apply, in order
+   * @param batchId - The shared batch ID recorded on every leg
+   * @returns The recorded legs and, by leg index, why each leg that did not complete failed
+   */
+  static async applyBatch(session: StorageSession, legs: CreateTransactionData[], batchId: string): Promise<AppliedBatch> {
+    await AccountService.lockAccounts(session, legs.flatMap(leg => [leg.source_account_id, leg.destination_account_id]));
+    
+    const transactions: Transaction[] = [];
+    const failures = new Map<number, string>();
+    
+    for (const [index, leg] of legs.entries()) {
+      const transaction = await this.applyTransaction(session, leg, { batchId });
+      transactions.push(transaction);
+      
+      if (transaction.status === 'pending_review') {
+        failures.set(index, `Held for fraud review: ${transaction.failure_reason}`);
+      } else if (transaction.status !== 'completed') {
+        failures.set(index, transaction.failure_reason ?? 'Transaction failed');
+      }
+    }
+    
+    return { transactions, failures };
+  }
+  
+  /**
+   * Find the legs of a batch
+   * @param batchId - The UUID returned when the batch was submitted
+   * @returns The batch, failed if any leg failed, or null if no transaction carries the ID
+   */
+  static async findByBatchId(batchId: string): Promise<TransactionBatch | null> {
+    const legs = await storage.repositories().transactions.findByBatchId(batchId);
+    if (legs.length === 0) {
+      return null;
+    }
+    
+    return {
+      batch_id: batchId,
+      status: legs.some(leg => leg.status === 'failed') ? 'failed' : 'completed',
+      legs
+    };
+  }
+  
+  /**
+   * Apply a pending_review transaction after a reviewer approved it
+   * Accounts, balances and limits are checked again as of now, so the transaction may still fail
+   * @param session - Storage session with an open transaction
+   * @param transactionId - The transaction held for review
+   * @returns The transaction, now completed or failed
+   * @throws Error if the transaction is missing or not pending review
+   */
+  static async settlePendingTransaction(session: StorageSession, transactionId: string): Promise<Transaction> {
+    const pending = await this.lockPendingTransaction(session, transactionId);
+    
+    const data: CreateTransactionData = {
+      type: pending.type as CreateTransactionData['type'],
+      amount: pending.amount,
+      source_account_id: pending.source_account_id,
+      destination_account_id: pending.destination_account_id
+    };
+    
+    // The pending row itself does not count towards limits, so re-checking does not double count it
+    const evaluation = await this.evaluateTransaction(session, data);
+    
+    await session.transactions.update(transactionId, {
+      status: evaluation.status,
+      failure_reason: evaluation.failure_reason ?? null
+    });
+    
+    if (evaluation.status === 'completed') {
+      await session.transactions.recordJournalEntry(transactionId, `${data.type} ${transactionId}`, evaluation.postings);
+    }
+    
+    return this.recordAndFetch(session, transactionId, 'transaction.settled', pending);
+  }
+  
+  /**
+   * Fail a pending_review transaction after a reviewer rejected it
+   * @param session - Storage session with an open transaction
+   * @param transactionId - The transaction held for review
+   * @returns The failed transaction
+   * @throws Error if the transaction is missing or not pending review
+   */
+  static async rejectPendingTransaction(session: StorageSession, transactionId: string): Promise<Transaction> {
+    const pending = await this.lockPendingTransaction(session, transactionId);
+    
+    await session.transactions.update(transactionId, { status: 'failed', failure_reason: 'Rejected by fraud review' });
+    
+    return this.recordAndFetch(session, transactionId, 'transaction.rejected', pending);
+  }
+  
+  /**
+   * Decide whether a transaction can complete and build its ledger postings
+   * Locks the involved accounts, then checks amount, account state, balance and KYC tier limits (MySQL only)
+   * @param session - Storage session with an open transaction
+   * @param data - Transaction data including type, amount, and account IDs
+   * @returns 'completed' with the postings to record, or 'failed' with the reason
+   * @private
+   */
+  private static async evaluateTransaction(
+    session: StorageSession,
+    data: CreateTransactionData
+  ): Promise<{ status: 'completed' | 'failed'; failure_reason?: string; postings: LedgerPosting[] }> {
+    // Validate transaction data
+    if (!data.amount.isPositive()) {
+      return { status: 'failed', failure_reason: 'Negative or zero amount not allowed', postings: [] };
+    }
+    
+    const lockedAccounts = await AccountService.lockAccounts(session, [data.source_account_id, data.destination_account_id]);
+    
+    // Frozen or closed accounts can neither send nor receive money
+    const inactiveReason =
+      AccountService.inactiveReason(lockedAccounts, data.source_account_id, 'Source') ??
+      AccountService.inactiveReason(lockedAccounts, data.destination_account_id, 'Destination');
+    
+    if (inactiveReason) {
+      return { status: 'failed', failure_reason: inactiveReason, postings: [] };
+    }
+    
+    let postings: LedgerPosting[];
+    
+    // Process based on transaction type
+    switch (data.type) {
+      case 'deposit':
+        if (!data.destination_account_id) {
+          return { status: 'failed', failure_reason: 'Destination account required for deposit', postings: [] };
+        }
+        if (!lockedAccounts.has(data.destination_account_id)) {
+          return { status: 'failed', failure_reason: 'Destination account not found', postings: [] };
+        }
+        postings = this.depositPostings(data.destination_account_id, data.amount);
+        break;
+      
+      case 'withdrawal':
+        if (!data.source_account_id) {
+          return { status: 'failed', failure_reason: 'Source account required for withdrawal', postings: [] };
+        }
+        if (!(await this.checkSufficientBalance(session, data.source_account_id, data.amount))) {
+          return { status: 'failed', failure_reason: 'Insufficient funds', postings: [] };
+        }
+        postings = this.withdrawalPostings(data.source_account_id, data.amount);
+        break;
+      
+      case 'transfer':
+        if (!data.source_account_id || !data.destination_account_id) {
+          return { status: 'failed', failure_reason: 'Both source and destination accounts required for transfer', postings: [] };
+        }
+        if (!lockedAccounts.has(data.destination_account_id)) {
+          return { status: 'failed', failure_reason: 'Destination account not found', postings: [] };
+        }
+        if (!(await this.checkSufficientBalance(session, data.source_account_id, data.amount))) {
+          return { status: 'failed', failure_reason: 'Insufficient funds', postings: [] };
+        }
+        postings = this.transferPostings(data.source_account_id, data.destination_account_id, data.amount);
+        break;
+    }
+    
+    // Limits of the user's KYC tier apply once the transaction could otherwise go through
+    const limitReason = await LimitService.checkLimits(session, data);
+    if (limitReason) {
+      return { status: 'failed', failure_reason: limitReason, postings: [] };
+    }
+    
+    return { status: 'completed', postings };
+  }
+  
+  /**
+   * Lock a transaction row and require it to be waiting for review
+   * @param session - Storage session with an open transaction
+   * @param transactionId - The transaction to lock
+   * @returns The locked transaction
+   * @throws Error if the transaction is missing or not pending review
+   * @private
+   */
+  private static async lockPendingTransaction(session: StorageSession, transactionId: string): Promise<Transaction> {
+    const transaction = await session.transactions.findByTransactionId(transactionId, { forUpdate: true });
+    if (!transaction) {
+      throw new Error('Transaction not found');
+    }
+    
+    if (transaction.status !== 'pending_review') {
+      throw new Error('Transaction is not pending review');
+    }
+    
+    return transaction;
+  }
+  
+  /**
+   * Find a transaction by its public transaction ID
+   * @param transactionId - The UUID returned when the transaction was submitted
+   * @returns Transaction object or null if not found
+   */
+  static async findByTransactionId(transactionId: string): Promise<Transaction | null> {
+    return storage.repositories().transactions.findByTransactionId(transactionId);
+  }
+  
+  /**
+   * Reverse a completed transaction in full or in part with a linked compensating transaction
+   * The compensating transaction moves money in the opposite direction and is recorded as failed
+   * with 'Insufficient funds' if the account it debits has already spent the money, or if either
+   * account has since been frozen or closed
+   * @param transactionId - The transaction to reverse
+   * @param data - Optional partial amount (defaults to the remaining reversible amount)
+   * @param idempotency - Optional Idempotency-Key context
+   * @returns The compensating transaction and the updated original
+   * @throws Error if the transaction is missing, failed, a reversal itself, or the amount is too large
+   */
+  static async reverseTransaction(
+    transactionId: string,
+    data: ReverseTransactionData,
+    idempotency?: IdempotencyContext
+  ): Promise<ReversalResult> {
+    return retryOnLockConflict(() => this.executeReversal(transactionId, data, idempotency));
+  }
+  
+  /**
+   * Run a single attempt of reverseTransaction inside one database transaction
+   * The original row is locked first so concurrent partial reversals cannot exceed its amount
+   * @param transactionId - The transaction to reverse
+   * @param data - Optional partial amount
+   * @param idempotency - Optional Idempotency-Key context
+   * @returns The compensating transaction and the updated original
+   * @private
+   */
+  private static async executeReversal(
+    transactionId: string,
+    data: ReverseTransactionData,
+    idempotency?: IdempotencyContext
+  ): Promise<ReversalResult> {
+    return storage.transaction(async (session) => {
+      if (idempotency) {
+        await IdempotencyService.claim(session, idempotency);
+      }
+      
+      const original = await session.transactions.findByTransactionId(transactionId, { forUpdate: true });
+      if (!original) {
+        throw new Error('Transaction not found');
+      }
+      
+      if (original.type === 'reversal') {
+        throw new Error('Reversal transactions cannot be reversed');
+      }
+      if (original.status === 'failed') {
+        throw new Error('Failed transactions cannot be reversed');
+      }
+      if (original.status === 'pending_review') {
+        throw new Error('Transactions pending review cannot be reversed');
+      }
+      
+      const remaining = original.amount.subtract(original.reversed_amount);
+      const amount = data.amount ?? remaining;
+      
+      if (remaining.isZero()) {
+        throw new Error('Transaction is already fully reversed');
+      }
+      if (!amount.isPositive()) {
+        throw new Error('Reversal amount must be positive');
+      }
+      if (amount.compare(remaining) > 0) {
+        throw new Error('Reversal amount exceeds the remaining reversible amount');
+      }
+      
+      // The reversal moves money in the opposite direction of the original
+      const sourceId = original.type === 'withdrawal' ? undefined : original.destination_account_id;
+      const destinationId = original.type === 'deposit' ? undefined : original.source_account_id;
+      
+      const lockedAccounts = await AccountService.lockAccounts(session, [sourceId, destinationId]);
       
-      const transactionId = uuidv4();
       let status: 'completed' | 'failed' = 'completed';
-      let failureReason: string | undefined;
+      let failureReason: string | undefined =
+        AccountService.inactiveReason(lockedAccounts, sourceId, 'Source') ??
+        AccountService.inactiveReason(lockedAccounts, destinationId, 'Destination');
       
-      // Validate transaction data
-      if (data.amount <= 0) {
+      if (failureReason) {
         status = 'failed';
-        failureReason = 'Negative or zero amount not allowed';
-      } else {
-        // Process based on transaction type
-        switch (data.type) {
-          case 'deposit':
-            if (!data.destination_account_id) {
-              status = 'failed';
-              failureReason = 'Destination account required for deposit';
-            } else {
-              await this.processDeposit(connection, data.destination_account_id, data.amount);
-            }
-            break;
-            
-          case 'withdrawal':
-            if (!data.source_account_id) {
-              status = 'failed';
-              failureReason = 'Source account required for withdrawal';
-            } else {
-              const hasBalance = await this.checkSufficientBalance(connection, data.source_account_id, data.amount);
-              if (!hasBalance) {
-                status = 'failed';
-                failureReason = 'Insufficient funds';
-              } else {
-                await this.processWithdrawal(connection, data.source_account_id, data.amount);
-              }
-            }
-            break;
-            
-          case 'transfer':
-            if (!data.source_account_id || !data.destination_account_id) {
-              status = 'failed';
-              failureReason = 'Both source and destination accounts required for transfer';
-            } else {
-              const hasBalance = await this.checkSufficientBalance(connection, data.source_account_id, data.amount);
-              if (!hasBalance) {
-                status = 'failed';
-                failureReason = 'Insufficient funds';
-              } else {
-                await this.processTransfer(connection, data.source_account_id, data.destination_account_id, data.amount);
-              }
-            }
-            break;
-        }
+      } else if (sourceId !== undefined && !(await this.checkSufficientBalance(session, sourceId, amount))) {
+        status = 'failed';
+        failureReason = 'Insufficient funds';
       }
       
-      // Insert transaction record
-      const [result] = await connection.execute(
-        `INSERT INTO transactions (transaction_id, type, amount, source_account_id, destination_account_id, status, failure_reason) 
-         VALUES (?, ?, ?, ?, ?, ?, ?)`,
-        [transactionId, data.type, data.amount, data.source_account_id || null, data.destination_account_id || null, status, failureReason || null]
-      );
+      const reversalId = uuidv4();
+      await session.transactions.insert({
+        transaction_id: reversalId,
+        type: 'reversal',
+        amount,
+        source_account_id: sourceId,
+        destination_account_id: destinationId,
+        original_transaction_id: original.transaction_id,
+        status,
+        failure_reason: failureReason
+      });
+      
+      if (status === 'completed') {
+        await session.transactions.recordJournalEntry(
+          reversalId,
+          `reversal ${reversalId} of ${original.transaction_id}`,
+          this.reversalPostings(original, amount)
+        );
+        
+        const reversedAmount = original.reversed_amount.add(amount);
+        await session.transactions.update(original.transaction_id, {
+          reversed_amount: reversedAmount,
+          status: reversedAmount.equals(original.amount) ? 'reversed' : 'partially_reversed'
+        });
+      }
       
-      await connection.commit();
+      const result: ReversalResult = {
+        reversal: await this.recordAndFetch(session, reversalId),
+        original: (await session.transactions.findByTransactionId(original.transaction_id))!
+      };
       
-      // Fetch and return the created transaction
-      const [rows] = await connection.execute(
-        'SELECT * FROM transactions WHERE transaction_id = ?',
-        [transactionId]
-      );
+      if (status === 'completed') {
+        await AuditService.recordChange(session, {
+          action: 'transaction.reversed',
+          resource_type: 'transaction',
+          resource_id: original.transaction_id,
+          before: original,
+          after: result.original
+        });
+      }
       
-      const transactionRow = (rows as TransactionRow[])[0];
-      return this.mapRowToTransaction(transactionRow);
+      if (idempotency) {
+        await IdempotencyService.complete(session, idempotency, { status: 201, body: result }, reversalId);
+      }
       
-    } catch (error) {
-      await connection.rollback();
-      throw error;
-    } finally {
-      connection.release();
-    }
+      return result;
+    });
   }
   
   /**
-   * Get the current balance for a specific account
+   * Get the current ledger and available balance for a specific account
    * @param accountId - The ID of the account to query
-   * @returns The current account balance
+   * @returns The ledger balance and the balance not reserved by active authorization holds
    * @throws Error if account not found
    */
-  static async getAccountBalance(accountId: number): Promise<number> {
-    const [rows] = await db.getPool().execute(
-      'SELECT balance FROM accounts WHERE id = ?',
-      [accountId]
-    );
-    
-    const accounts = rows as { balance: string }[];
-    if (accounts.length === 0) {
+  static async getAccountBalance(accountId: number): Promise<AccountBalance> {
+    const balance = await storage.repositories().accounts.getBalance(accountId);
+    if (!balance) {
       throw new Error('Account not found');
     }
     
-    return parseFloat(accounts[0].balance);
+    return balance;
+  }
+  
+  /**
+   * List transactions touching an account, newest first, with cursor pagination
+   * Each row carries its signed effect on the account and the balance right after it
+   * @param accountId - The ID of the account whose history is requested
+   * @param filters - Optional type, status, direction, amount and date filters plus cursor and page size
+   * @returns A page of transactions and the cursor for the next page (null on the last page)
+   */
+  static async getAccountTransactions(accountId: number, filters: TransactionHistoryFilters): Promise<TransactionHistoryPage> {
+    const { cursor, ...query } = filters;
+    
+    // One row more than the page tells whether there is a next page
+    const rows = await storage.repositories().transactions.listForAccount(accountId, {
+      ...query,
+      before_id: cursor ? this.decodeCursor(cursor) : undefined,
+      limit: filters.limit + 1
+    });
+    
+    const hasMore = rows.length > filters.limit;
+    const transactions = hasMore ? rows.slice(0, filters.limit) : rows;
+    
+    return {
+      account_id: accountId,
+      transactions,
+      next_cursor: hasMore ? this.encodeCursor(transactions[transactions.length - 1].id) : null
+    };
   }
   
   /**
@@ -123,135 +569,151 @@ export class TransactionService {
    * @returns Summary report containing account balances, largest transactions, and failure reasons
    */
   static async getSummaryReport(): Promise<SummaryReport> {
-    // Get account summaries
-    const [accountRows] = await db.getPool().execute(`
-      SELECT 
-        a.id as account_id,
-        a.account_number,
-        u.username,
-        a.balance as current_balance,
-        COALESCE(MAX(t.amount), 0) as largest_transaction
-      FROM accounts a
-      LEFT JOIN users u ON a.user_id = u.id
-      LEFT JOIN transactions t ON (a.id = t.source_account_id OR a.id = t.destination_account_id) 
-        AND t.status = 'completed'
-      GROUP BY a.id, a.account_number, u.username, a.balance
-    `);
-    
-    const accounts = (accountRows as any[]).map(row => ({
-      account_id: row.account_id,
-      account_number: row.account_number,
-      username: row.username,
-      current_balance: parseFloat(row.current_balance),
-      largest_transaction: parseFloat(row.largest_transaction)
-    }));
-    
-    // Get failed transaction summaries
-    const [failedRows] = await db.getPool().execute(`
-      SELECT failure_reason as reason, COUNT(*) as count
-      FROM transactions 
-      WHERE status = 'failed' AND failure_reason IS NOT NULL
-      GROUP BY failure_reason
-    `);
-    
-    const failed_transactions = (failedRows as any[]).map(row => ({
-      reason: row.reason,
-      count: parseInt(row.count)
-    }));
+    const repositories = storage.repositories();
     
     return {
-      accounts,
-      failed_transactions
+      accounts: await repositories.transactions.summarizeAccounts(),
+      failed_transactions: await repositories.transactions.summarizeFailures()
     };
   }
   
   /**
-   * Check if an account has sufficient balance for a transaction
-   * @param connection - Database connection object
-   * @param accountId - The account ID to check
-   * @param amount - The amount to verify against the balance
-   * @returns True if balance is sufficient, false otherwise
+   * Check if an account has sufficient available balance for a transaction
+   * Funds reserved by outstanding authorization holds are not available
+   * @param session - Storage session with an open transaction
+   * @param accountId - The account ID to check (must already be locked)
+   * @param amount - The amount to verify against the available balance
+   * @returns True if available balance is sufficient, false otherwise
    * @private
    */
-  private static async checkSufficientBalance(connection: any, accountId: number, amount: number): Promise<boolean> {
-    const [rows] = await connection.execute(
-      'SELECT balance FROM accounts WHERE id = ?',
-      [accountId]
-    );
-    
-    const accounts = rows as { balance: string }[];
-    if (accounts.length === 0) {
-      return false;
-    }
+  private static async checkSufficientBalance(session: StorageSession, accountId: number, amount: Money): Promise<boolean> {
+    const available = await AccountService.getAvailableBalance(session, accountId);
     
-    return parseFloat(accounts[0].balance) >= amount;
+    return available !== null && available.greaterThanOrEqual(amount);
   }
   
   /**
-   * Process a deposit transaction by increasing account balance
-   * @param connection - Database connection object
+   * Build the postings for a deposit: cash comes in, the account is credited
    * @param accountId - The destination account ID
    * @param amount - The amount to deposit
+   * @returns Balanced ledger postings
    * @private
    */
-  private static async processDeposit(connection: any, accountId: number, amount: number): Promise<void> {
-    await connection.execute(
-      'UPDATE accounts SET balance = balance + ? WHERE id = ?',
-      [amount, accountId]
-    );
+  private static depositPostings(accountId: number, amount: Money): LedgerPosting[] {
+    return [
+      { account_id: accountId, amount },
+      { system_account: 'CASH_IN', amount: amount.negate() }
+    ];
   }
   
   /**
-   * Process a withdrawal transaction by decreasing account balance
-   * @param connection - Database connection object
+   * Build the postings for a withdrawal: the account is debited, cash goes out
    * @param accountId - The source account ID
    * @param amount - The amount to withdraw
+   * @returns Balanced ledger postings
    * @private
    */
-  private static async processWithdrawal(connection: any, accountId: number, amount: number): Promise<void> {
-    await connection.execute(
-      'UPDATE accounts SET balance = balance - ? WHERE id = ?',
-      [amount, accountId]
-    );
+  private static withdrawalPostings(accountId: number, amount: Money): LedgerPosting[] {
+    return [
+      { account_id: accountId, amount: amount.negate() },
+      { system_account: 'CASH_OUT', amount }
+    ];
   }
   
   /**
-   * Process a transfer transaction by moving funds between accounts
-   * @param connection - Database connection object
+   * Build the postings for a transfer: the source is debited, the destination credited
    * @param sourceId - The source account ID
    * @param destinationId - The destination account ID
    * @param amount - The amount to transfer
+   * @returns Balanced ledger postings
    * @private
    */
-  private static async processTransfer(connection: any, sourceId: number, destinationId: number, amount: number): Promise<void> {
-    await connection.execute(
-      'UPDATE accounts SET balance = balance - ? WHERE id = ?',
-      [amount, sourceId]
-    );
-    
-    await connection.execute(
-      'UPDATE accounts SET balance = balance + ? WHERE id = ?',
-      [amount, destinationId]
-    );
+  private static transferPostings(sourceId: number, destinationId: number, amount: Money): LedgerPosting[] {
+    return [
+      { account_id: sourceId, amount: amount.negate() },
+      { account_id: destinationId, amount }
+    ];
   }
   
   /**
-   * Map a database row to a Transaction object
-   * @param row - The raw database row
-   * @returns Mapped Transaction object with proper types
+   * Build the postings that undo (part of) an original transaction
+   * @param original - The transaction being reversed
+   * @param amount - The amount to reverse
+   * @returns Balanced ledger postings, the mirror image of the original's
    * @private
    */
-  private static mapRowToTransaction(row: TransactionRow): Transaction {
-    return {
-      id: row.id,
-      transaction_id: row.transaction_id,
-      type: row.type as 'deposit' | 'withdrawal' | 'transfer',
-      amount: parseFloat(row.amount),
-      source_account_id: row.source_account_id,
-      destination_account_id: row.destination_account_id,
-      status: row.status as 'completed' | 'failed',
-      failure_reason: row.failure_reason,
-      created_at: row.created_at
-    };
+  private static reversalPostings(original: Transaction, amount: Money): LedgerPosting[] {
+    switch (original.type) {
+      case 'deposit':
+        return [
+          { account_id: original.destination_account_id, amount: amount.negate() },
+          { system_account: 'CASH_IN', amount }
+        ];
+      case 'withdrawal':
+        return [
+          { account_id: original.source_account_id, amount },
+          { system_account: 'CASH_OUT', amount: amount.negate() }
+        ];
+      default:
+        return this.transferPostings(original.destination_account_id!, original.source_account_id!, amount);
+    }
+  }
+  
+  /**
+   * Read a transaction back and, in the same database transaction, link it into the hash chain
+   * once its outcome is final and write its outbox events and audit entry
+   * @param session - Storage session with the open transaction that recorded it
+   * @param transactionId - The transaction to read
+   * @param action - The audited action; new transactions are 'transaction.created'
+   * @param before - The transaction as it was before an update
+   * @returns Mapped Transaction object
+   * @private
+   */
+  private static async recordAndFetch(
+    session: StorageSession,
+    transactionId: string,
+    action: string = 'transaction.created',
+    before?: Transaction
+  ): Promise<Transaction> {
+    const transaction = (await session.transactions.findByTransactionId(transactionId))!;
+    
+    if (transaction.status !== 'pending_review') {
+      await TransactionChainService.append(session, transactionId);
+    }
+    await OutboxService.recordTransactionEvents(session, transaction);
+    await AuditService.recordChange(session, {
+      action,
+      resource_type: 'transaction',
+      resource_id: transactionId,
+      before,
+      after: transaction
+    });
+    
+    return transaction;
+  }
+  
+  /**
+   * Encode the last seen row ID as an opaque pagination cursor
+   * @param id - The ID of the last row on the current page
+   * @returns URL-safe base64 cursor
+   * @private
+   */
+  private static encodeCursor(id: number): string {
+    return Buffer.from(String(id)).toString('base64url');
+  }
+  
+  /**
+   * Decode a pagination cursor produced by encodeCursor
+   * @param cursor - URL-safe base64 cursor
+   * @returns The row ID to continue after
+   * @throws Error if the cursor is malformed
+   * @private
+   */
+  private static decodeCursor(cursor: string): number {
+    const id = parseInt(Buffer.from(cursor, 'base64url').toString('utf-8'), 10);
+    if (isNaN(id) || id <= 0) {
+      throw new Error('Invalid cursor');
+    }
+    return id;
   }
 }
\ No newline at end of file
@@ -1,42 +1,75 @@
-import { db } from '../utils/database';
-import { User, UserRow } from '../model/user';
+import { storage } from '../repository';
+import { User, UserRole } from '../model/user';
+import { AuditService } from './auditService';
 
 /**
- * User service - handles authentication-related database operations
- * Only includes methods needed for the authentication middleware
+ * User service - handles user-related database operations
+ * Authentication itself goes through ApiKeyService
  */
 export class UserService {
   /**
-   * Find a user by their secret key (used for authentication)
-   * @param secretKey - The secret key to search for
+   * Find a user by ID
+   * @param id - The user ID to search for
    * @returns User object or null if not found
    */
-  static async findBySecretKey(secretKey: string): Promise<User | null> {
+  static async findById(id: number): Promise<User | null> {
     try {
-      const query = `
-        SELECT id, username, secret_key, created_at, updated_at
-        FROM users
-        WHERE secret_key = ?
-        LIMIT 1
-      `;
-      
-      const rows = await db.query<UserRow>(query, [secretKey]);
-      
-      if (rows.length === 0) {
-        return null;
-      }
-      
-      const row = rows[0];
-      return {
-        id: row.id,
-        username: row.username,
-        secret_key: row.secret_key,
-        created_at: new Date(row.created_at),
-        updated_at: new Date(row.updated_at)
-      };
+      return await storage.repositories().users.findById(id);
     } catch (error) {
-      console.error('Error finding user by secret key:', error);
+      console.error('Error finding user by ID:', error);
       throw new Error('Failed to find user');
     }
   }
+
+  /**
+   * Assign a role to a user
+   * @param id - The user to update
+   * @param role - The new role
+   * @returns The updated user
+   * @throws Error if the user does not exist
+   */
+  static async setRole(id: number, role: UserRole): Promise<User> {
+    return this.updateAudited(id, 'role', role, 'user.role_changed');
+  }
+
+  /**
+   * Move a user to another KYC tier, which changes their transaction limits
+   * @param id - The user to update
+   * @param tier - The code of an existing tier in kyc_tiers
+   * @returns The updated user
+   * @throws Error if the user or the tier does not exist
+   */
+  static async setKycTier(id: number, tier: string): Promise<User> {
+    return this.updateAudited(id, 'kyc_tier', tier, 'user.kyc_tier_changed');
+  }
+
+  /**
+   * Change one column of a locked user row and audit the old and new value
+   * @private
+   */
+  private static async updateAudited(
+    id: number,
+    column: 'role' | 'kyc_tier',
+    value: string,
+    action: string
+  ): Promise<User> {
+    await storage.transaction(async (session) => {
+      const user = await session.users.findById(id, { forUpdate: true });
+      if (!user) {
+        throw new Error('User does not exist');
+      }
+
+      await session.users.update(id, { [column]: value });
+
+      await AuditService.recordChange(session, {
+        action,
+        resource_type: 'user',
+        resource_id: id,
+        before: { [column]: user[column] },
+        after: { [column]: value }
+      });
+    });
+
+    return (await this.findById(id))!;
+  }
 }
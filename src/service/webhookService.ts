@@ -0,0 +1,287 @@
+import { v4 as uuidv4 } from 'uuid';
+import { storage, StorageSession } from '../repository';
+import { retryOnLockConflict } from '../utils/retry';
+import { openSecret, sealSecret } from '../utils/requestSigning';
+import { generateWebhookSecret, signWebhook } from '../utils/webhookSignature';
+import { assertWebhookUrl, postWebhook } from '../utils/webhookTarget';
+import { signingConfig } from '../config/signing';
+import { webhookConfig } from '../config/webhooks';
+import { OutboxEvent } from '../model/outbox';
+import {
+  WebhookEndpoint,
+  WebhookEndpointRecord,
+  IssuedWebhookEndpoint,
+  CreateWebhookEndpointData,
+  WebhookEventType,
+  WebhookDelivery,
+  WebhookDeliveryFilters,
+  WebhookAttempt
+} from '../model/webhook';
+
+/**
+ * Webhook service - registers endpoints and delivers transaction and balance events to them
+ * Deliveries are queued by the outbox relay once the change that caused them has committed,
+ * so delivery can never block or roll back a money movement. The webhook worker sends queued
+ * deliveries and retries failures with exponential backoff.
+ */
+export class WebhookService {
+  /**
+   * Register an endpoint for a user
+   * @param data - Owner, URL, optional description and the event types to receive
+   * @returns The endpoint including its signing secret, which is not shown again
+   * @throws Error if secrets cannot be encrypted, the URL does not resolve to public addresses,
+   * or the user has too many endpoints
+   */
+  static async register(data: CreateWebhookEndpointData): Promise<IssuedWebhookEndpoint> {
+    if (!signingConfig.encryptionKey) {
+      throw new Error('Webhook signing is not configured');
+    }
+    const encryptionKey = signingConfig.encryptionKey;
+
+    await assertWebhookUrl(data.url, webhookConfig.allowPrivateNetworks);
+
+    const endpointId = uuidv4();
+    const secret = generateWebhookSecret();
+
+    await storage.transaction(async (session) => {
+      // Lock the user's row so concurrent registrations cannot both pass the limit
+      await session.users.findById(data.user_id, { forUpdate: true });
+
+      if ((await session.webhookEndpoints.countActive(data.user_id)) >= webhookConfig.maxEndpointsPerUser) {
+        throw new Error('Webhook endpoint limit reached');
+      }
+
+      await session.webhookEndpoints.insert({
+        endpoint_id: endpointId,
+        user_id: data.user_id,
+        url: data.url,
+        description: data.description,
+        events: data.events,
+        secret: sealSecret(encryptionKey, secret)
+      });
+    });
+
+    return { ...(await this.findByEndpointId(endpointId))!, secret };
+  }
+
+  /**
+   * Find an endpoint by its public ID
+   * @param endpointId - The UUID returned when the endpoint was registered
+   * @returns WebhookEndpoint object or null if not found
+   */
+  static async findByEndpointId(endpointId: string): Promise<WebhookEndpoint | null> {
+    const endpoint = await storage.repositories().webhookEndpoints.findByEndpointId(endpointId);
+    return endpoint ? this.withoutSecret(endpoint) : null;
+  }
+
+  /**
+   * List a user's endpoints, newest first
+   * @param userId - The owner
+   * @returns The user's endpoints, active and disabled
+   */
+  static async listForUser(userId: number): Promise<WebhookEndpoint[]> {
+    return storage.repositories().webhookEndpoints.listForUser(userId);
+  }
+
+  /**
+   * Stop sending events to an endpoint; its pending deliveries are not sent
+   * @param endpointId - The endpoint to disable
+   * @returns The disabled endpoint
+   * @throws Error if the endpoint is missing or already disabled
+   */
+  static async disable(endpointId: string): Promise<WebhookEndpoint> {
+    await storage.transaction(async (session) => {
+      const endpoint = await session.webhookEndpoints.findByEndpointId(endpointId, { forUpdate: true });
+      if (!endpoint) {
+        throw new Error('Webhook endpoint not found');
+      }
+      if (endpoint.status !== 'active') {
+        throw new Error(`Webhook endpoint is ${endpoint.status}`);
+      }
+
+      await session.webhookEndpoints.setStatus(endpointId, 'disabled');
+    });
+
+    return (await this.findByEndpointId(endpointId))!;
+  }
+
+  /**
+   * List the deliveries of an endpoint, newest first
+   * @param endpointId - The endpoint
+   * @param filters - Optional status and page size
+   * @returns Deliveries without their attempt history
+   */
+  static async listDeliveries(endpointId: string, filters: WebhookDeliveryFilters): Promise<WebhookDelivery[]> {
+    return storage.repositories().webhookDeliveries.listForEndpoint(endpointId, filters);
+  }
+
+  /**
+   * Find a delivery of an endpoint with every attempt made so far
+   * @param endpointId - The endpoint the delivery belongs to
+   * @param deliveryId - The delivery's public ID
+   * @returns The delivery with its attempts, oldest first, or null if not found
+   */
+  static async findDelivery(endpointId: string, deliveryId: string): Promise<WebhookDelivery | null> {
+    const repositories = storage.repositories();
+
+    const delivery = await repositories.webhookDeliveries.find(endpointId, deliveryId);
+    if (!delivery) {
+      return null;
+    }
+
+    return {
+      ...delivery,
+      attempts: await repositories.webhookDeliveries.listAttempts(delivery.id)
+    };
+  }
+
+  /**
+   * Queue a failed delivery to be sent again, with a fresh set of retries
+   * The same event ID is sent, so receivers can recognise a replay they already processed
+   * @param endpointId - The endpoint the delivery belongs to
+   * @param deliveryId - The delivery to replay
+   * @returns The delivery, pending again
+   * @throws Error if the delivery is missing or not failed, or the endpoint is disabled
+   */
+  static async replay(endpointId: string, deliveryId: string): Promise<WebhookDelivery> {
+    await storage.transaction(async (session) => {
+      const endpoint = await session.webhookEndpoints.findByEndpointId(endpointId, { forUpdate: true });
+      const delivery = endpoint && await session.webhookDeliveries.find(endpointId, deliveryId, { forUpdate: true });
+      if (!endpoint || !delivery) {
+        throw new Error('Webhook delivery not found');
+      }
+      if (endpoint.status !== 'active') {
+        throw new Error(`Webhook endpoint is ${endpoint.status}`);
+      }
+      if (delivery.status !== 'failed') {
+        throw new Error(`Webhook delivery is ${delivery.status}`);
+      }
+
+      await session.webhookDeliveries.requeue(delivery.id);
+    });
+
+    return (await this.findDelivery(endpointId, deliveryId))!;
+  }
+
+  /**
+   * Queue a published outbox event for every active endpoint of the account owner subscribed to its type
+   * Called by the outbox relay, so deliveries are only ever queued for committed changes
+   * @param session - The relay's storage session with an open transaction
+   * @param event - The event being published
+   */
+  static async enqueueEvent(session: StorageSession, event: OutboxEvent): Promise<void> {
+    // transaction.pending_review is never sent to webhooks
+    if (event.event_type === 'transaction.pending_review') {
+      return;
+    }
+    const eventType: WebhookEventType = event.event_type;
+
+    for (const endpoint of await session.webhookEndpoints.listSubscribed(event.account_id, eventType)) {
+      // Queueing the same event twice is a no-op
+      await session.webhookDeliveries.insert({
+        delivery_id: uuidv4(),
+        endpoint_id: endpoint.id,
+        event_id: event.event_id,
+        event_type: eventType,
+        payload: event.payload
+      });
+    }
+  }
+
+  /**
+   * Lease due deliveries of active endpoints for one worker
+   * @param workerId - The worker taking the lease
+   * @param limit - Maximum deliveries to claim
+   * @returns The claimed deliveries
+   */
+  static async claimDue(workerId: string, limit: number): Promise<WebhookDelivery[]> {
+    return storage.transaction(async (session) => {
+      const deliveries = await session.webhookDeliveries.listDue(limit);
+
+      for (const delivery of deliveries) {
+        await session.webhookDeliveries.lease(delivery.id, workerId, webhookConfig.leaseSeconds);
+      }
+
+      return deliveries;
+    });
+  }
+
+  /**
+   * POST a claimed delivery to its endpoint and record the attempt
+   * A 2xx response marks it delivered; anything else schedules a retry with exponential backoff
+   * until the attempts run out and the delivery is marked failed. The endpoint's host is resolved
+   * and checked again for every attempt, and only the response status is kept
+   * @param delivery - A delivery returned by claimDue
+   * @returns The outcome of the attempt
+   */
+  static async attempt(delivery: WebhookDelivery): Promise<WebhookAttempt> {
+    const endpoint = (await storage.repositories().webhookEndpoints.findByEndpointId(delivery.endpoint_id))!;
+
+    const body = JSON.stringify(delivery.payload);
+    const startedAt = Date.now();
+    let responseStatus: number | null = null;
+    let error: string | null = null;
+
+    try {
+      if (!signingConfig.encryptionKey) {
+        throw new Error('Webhook signing is not configured');
+      }
+
+      // Redirects are not followed: a 3xx is just an unsuccessful status
+      responseStatus = await postWebhook(endpoint.url, body, {
+        headers: {
+          'Content-Type': 'application/json',
+          'User-Agent': 'banking-api-webhooks/1.0',
+          'X-Webhook-Id': delivery.delivery_id,
+          'X-Webhook-Event': delivery.event_type,
+          'X-Webhook-Signature': signWebhook(openSecret(signingConfig.encryptionKey, endpoint.secret), body)
+        },
+        timeoutMs: webhookConfig.timeoutMs,
+        allowPrivate: webhookConfig.allowPrivateNetworks
+      });
+    } catch (caught) {
+      error = (caught instanceof Error ? caught.message : String(caught)).slice(0, 255);
+    }
+
+    const succeeded = responseStatus !== null && responseStatus >= 200 && responseStatus < 300;
+    const durationMs = Date.now() - startedAt;
+    const attemptCount = delivery.attempt_count + 1;
+
+    await retryOnLockConflict(() => storage.transaction(async (session) => {
+      await session.webhookDeliveries.recordAttempt(
+        delivery.id,
+        { response_status: responseStatus, error, duration_ms: durationMs, succeeded },
+        succeeded
+          ? { status: 'delivered', attempt_count: attemptCount }
+          : attemptCount >= webhookConfig.maxAttempts
+            ? { status: 'failed', attempt_count: attemptCount }
+            : { status: 'pending', attempt_count: attemptCount, retry_in_seconds: this.backoffSeconds(attemptCount) }
+      );
+    }));
+
+    return {
+      response_status: responseStatus,
+      error,
+      duration_ms: durationMs,
+      succeeded,
+      attempted_at: new Date(startedAt)
+    };
+  }
+
+  /**
+   * Delay before the next attempt after the given number of failed attempts
+   * @private
+   */
+  private static backoffSeconds(failedAttempts: number): number {
+    return Math.min(webhookConfig.baseDelaySeconds * 2 ** (failedAttempts - 1), webhookConfig.maxDelaySeconds);
+  }
+
+  /**
+   * Leave out the sealed secret of a stored endpoint
+   * @private
+   */
+  private static withoutSecret(endpoint: WebhookEndpointRecord): WebhookEndpoint {
+    const { secret: _secret, ...rest } = endpoint;
+    return rest;
+  }
+}
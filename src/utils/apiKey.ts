@@ -0,0 +1,76 @@
+import { createHash, randomBytes, timingSafeEqual } from 'crypto';
+
+/**
+ * API key format helpers
+ *
+ * Keys are issued as `bk_<key id>_<secret>`: the 12 hex character key id is public and used
+ * to look the key up, the 64 hex character secret is only ever stored as a salted SHA-256 hash.
+ * The secret carries 256 bits of randomness, so a fast hash is enough; a slow KDF would only
+ * add latency to every request.
+ *
+ * Keys issued before hashing was introduced have no prefix. Their key id is derived from the
+ * secret itself (the first 12 hex characters of its SHA-256), which is how migration 008
+ * imported them, so they keep working until they are rotated.
+ */
+
+const KEY_PATTERN = /^bk_([0-9a-f]{12})_([0-9a-f]{64})$/;
+
+export interface ParsedApiKey {
+  keyId: string;
+  secret: string;
+}
+
+export interface GeneratedApiKey extends ParsedApiKey {
+  token: string;
+  salt: string;
+  secretHash: string;
+}
+
+/**
+ * Generate a new key id, secret and the values to store for them
+ */
+export function generateApiKey(): GeneratedApiKey {
+  const keyId = randomBytes(6).toString('hex');
+  const secret = randomBytes(32).toString('hex');
+  const salt = randomBytes(16).toString('hex');
+
+  return {
+    keyId,
+    secret,
+    token: `bk_${keyId}_${secret}`,
+    salt,
+    secretHash: hashSecret(salt, secret)
+  };
+}
+
+/**
+ * Split a presented key into its lookup id and secret
+ */
+export function parseApiKey(token: string): ParsedApiKey {
+  const match = KEY_PATTERN.exec(token);
+  if (match) {
+    return { keyId: match[1], secret: match[2] };
+  }
+
+  return {
+    keyId: createHash('sha256').update(token).digest('hex').slice(0, 12),
+    secret: token
+  };
+}
+
+/**
+ * Hash a secret with its salt; matches SHA2(CONCAT(salt, secret), 256) in MySQL
+ */
+export function hashSecret(salt: string, secret: string): string {
+  return createHash('sha256').update(salt + secret).digest('hex');
+}
+
+/**
+ * Compare a presented secret with a stored hash in constant time
+ */
+export function verifySecret(salt: string, secret: string, secretHash: string): boolean {
+  const expected = Buffer.from(secretHash, 'hex');
+  const actual = Buffer.from(hashSecret(salt, secret), 'hex');
+
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
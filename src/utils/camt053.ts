@@ -0,0 +1,174 @@
+import { Statement, StatementLine } from '../model/statement';
+import { Money } from './money';
+
+/**
+ * ISO 20022 camt.053.001.02 (BankToCustomerStatementV02) export
+ * One Stmt per document with opening (OPBD) and closing (CLBD) booked balances and one booked
+ * Ntry per statement line. Amounts are unsigned with CRDT/DBIT indicators; transaction IDs are
+ * written without dashes where the schema allows at most 35 characters
+ */
+
+const NAMESPACE = 'urn:iso:std:iso:20022:tech:xsd:camt.053.001.02';
+
+/**
+ * Render a statement as a camt.053 XML document
+ * @param statement - The statement to render
+ * @param currency - ISO 4217 currency code of the account
+ * @param createdAt - Creation time written to the group header (defaults to now)
+ * @returns XML document
+ */
+export function renderCamt053(statement: Statement, currency: string, createdAt: Date = new Date()): string {
+  const statementId = `${statement.account_number}-${compactDate(statement.period_start)}-${compactDate(lastDay(statement))}`;
+  const credits = statement.lines.filter(line => !line.amount.isNegative());
+  const debits = statement.lines.filter(line => line.amount.isNegative());
+  const net = statement.total_in.subtract(statement.total_out);
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<Document xmlns="${NAMESPACE}">
+  <BkToCstmrStmt>
+    <GrpHdr>
+      <MsgId>${escapeXml(statementId)}</MsgId>
+      <CreDtTm>${createdAt.toISOString()}</CreDtTm>
+    </GrpHdr>
+    <Stmt>
+      <Id>${escapeXml(statementId)}</Id>
+      <CreDtTm>${createdAt.toISOString()}</CreDtTm>
+      <FrToDt>
+        <FrDtTm>${statement.period_start.toISOString()}</FrDtTm>
+        <ToDtTm>${new Date(statement.period_end.getTime() - 1000).toISOString()}</ToDtTm>
+      </FrToDt>
+      <Acct>
+        <Id>
+          <Othr>
+            <Id>${escapeXml(statement.account_number)}</Id>
+          </Othr>
+        </Id>
+        <Ccy>${currency}</Ccy>
+        <Ownr>
+          <Nm>${escapeXml(statement.account_holder)}</Nm>
+        </Ownr>
+      </Acct>
+${balance('OPBD', statement.opening_balance, currency, statement.period_start)}
+${balance('CLBD', statement.closing_balance, currency, lastDay(statement))}
+      <TxsSummry>
+        <TtlNtries>
+          <NbOfNtries>${statement.lines.length}</NbOfNtries>
+          <Sum>${statement.total_in.add(statement.total_out).toString()}</Sum>
+          <TtlNetNtryAmt>${absolute(net).toString()}</TtlNetNtryAmt>
+          <CdtDbtInd>${indicator(net)}</CdtDbtInd>
+        </TtlNtries>
+        <TtlCdtNtries>
+          <NbOfNtries>${credits.length}</NbOfNtries>
+          <Sum>${statement.total_in.toString()}</Sum>
+        </TtlCdtNtries>
+        <TtlDbtNtries>
+          <NbOfNtries>${debits.length}</NbOfNtries>
+          <Sum>${statement.total_out.toString()}</Sum>
+        </TtlDbtNtries>
+      </TxsSummry>
+${statement.lines.map(line => entry(line, currency)).join('\n')}
+    </Stmt>
+  </BkToCstmrStmt>
+</Document>
+`.replace(/\n\n+/g, '\n');
+}
+
+function balance(code: 'OPBD' | 'CLBD', amount: Money, currency: string, date: Date): string {
+  return `      <Bal>
+        <Tp>
+          <CdOrPrtry>
+            <Cd>${code}</Cd>
+          </CdOrPrtry>
+        </Tp>
+        <Amt Ccy="${currency}">${absolute(amount).toString()}</Amt>
+        <CdtDbtInd>${indicator(amount)}</CdtDbtInd>
+        <Dt>
+          <Dt>${date.toISOString().slice(0, 10)}</Dt>
+        </Dt>
+      </Bal>`;
+}
+
+function entry(line: StatementLine, currency: string): string {
+  const bookedAt = new Date(line.booked_at);
+  const reference = line.transaction_id ? line.transaction_id.replace(/-/g, '') : `JE${line.journal_entry_id}`;
+  const info = line.transaction_id ? `${line.description} (transaction ${line.transaction_id})` : line.description;
+
+  return `      <Ntry>
+        <NtryRef>${reference}</NtryRef>
+        <Amt Ccy="${currency}">${absolute(line.amount).toString()}</Amt>
+        <CdtDbtInd>${indicator(line.amount)}</CdtDbtInd>${line.type === 'reversal' ? '\n        <RvslInd>true</RvslInd>' : ''}
+        <Sts>BOOK</Sts>
+        <BookgDt>
+          <DtTm>${bookedAt.toISOString()}</DtTm>
+        </BookgDt>
+        <ValDt>
+          <Dt>${bookedAt.toISOString().slice(0, 10)}</Dt>
+        </ValDt>
+        <AcctSvcrRef>${reference}</AcctSvcrRef>
+        <BkTxCd>
+${bankTransactionCode(line)}
+        </BkTxCd>
+        <NtryDtls>
+          <TxDtls>
+            <Refs>
+              <AcctSvcrRef>${reference}</AcctSvcrRef>
+              <TxId>${reference}</TxId>
+            </Refs>
+            <RmtInf>
+              <Ustrd>${escapeXml(line.description.slice(0, 140))}</Ustrd>
+            </RmtInf>
+          </TxDtls>
+        </NtryDtls>
+        <AddtlNtryInf>${escapeXml(info.slice(0, 500))}</AddtlNtryInf>
+      </Ntry>`;
+}
+
+/**
+ * ISO bank transaction code: domain PMNT for payments and cash, proprietary codes otherwise
+ */
+function bankTransactionCode(line: StatementLine): string {
+  const family =
+    line.type === 'deposit' ? ['CNTR', 'CDPT'] :
+    line.type === 'withdrawal' ? ['CNTR', 'CWDL'] :
+    line.type === 'transfer' ? [line.amount.isNegative() ? 'ICDT' : 'RCDT', 'BOOK'] :
+    null;
+
+  if (family) {
+    return `          <Domn>
+            <Cd>PMNT</Cd>
+            <Fmly>
+              <Cd>${family[0]}</Cd>
+              <SubFmlyCd>${family[1]}</SubFmlyCd>
+            </Fmly>
+          </Domn>`;
+  }
+
+  return `          <Prtry>
+            <Cd>${line.type ? line.type.toUpperCase() : 'OPENING_BALANCE'}</Cd>
+          </Prtry>`;
+}
+
+function indicator(amount: Money): 'CRDT' | 'DBIT' {
+  return amount.isNegative() ? 'DBIT' : 'CRDT';
+}
+
+function absolute(amount: Money): Money {
+  return amount.isNegative() ? amount.negate() : amount;
+}
+
+function lastDay(statement: Statement): Date {
+  return new Date(statement.period_end.getTime() - 1);
+}
+
+function compactDate(date: Date): string {
+  return date.toISOString().slice(0, 10).replace(/-/g, '');
+}
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
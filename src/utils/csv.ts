@@ -0,0 +1,92 @@
+/**
+ * Build RFC 4180 CSV text
+ * Fields containing commas, quotes or line breaks are quoted. Fields starting with a formula
+ * character (other than negative numbers) are prefixed with a single quote so spreadsheets
+ * do not evaluate them
+ * @param rows - Rows of already formatted field values
+ * @returns CSV text with CRLF line endings
+ */
+export function toCsv(rows: (string | number | null | undefined)[][]): string {
+  return rows.map(row => row.map(formatField).join(',')).join('\r\n') + '\r\n';
+}
+
+function formatField(value: string | number | null | undefined): string {
+  if (value === null || value === undefined) {
+    return '';
+  }
+
+  let field = String(value);
+  if (typeof value === 'string' && /^[=+\-@\t\r]/.test(field) && !/^-?\d+(\.\d+)?$/.test(field)) {
+    field = `'${field}`;
+  }
+
+  return /[",\r\n]/.test(field) ? `"${field.replace(/"/g, '""')}"` : field;
+}
+
+/**
+ * Parse RFC 4180 CSV text into rows of fields
+ * Handles quoted fields with embedded commas, quotes and line breaks, and CRLF or LF line endings.
+ * Blank lines are skipped; each row keeps the 1-based line number it started on
+ * @param text - CSV text
+ * @returns Parsed rows
+ * @throws Error if a quoted field is not closed
+ */
+export function parseCsv(text: string): { line: number; fields: string[] }[] {
+  const rows: { line: number; fields: string[] }[] = [];
+  let fields: string[] = [];
+  let field = '';
+  let quoted = false;
+  let line = 1;
+  let rowLine = 1;
+
+  const endRow = () => {
+    fields.push(field);
+    if (fields.length > 1 || fields[0].trim() !== '') {
+      rows.push({ line: rowLine, fields });
+    }
+    fields = [];
+    field = '';
+  };
+
+  const input = text.replace(/^\uFEFF/, '');
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (quoted) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        if (char === '\n') {
+          line++;
+        }
+        field += char;
+      }
+    } else if (char === '"' && field === '') {
+      quoted = true;
+    } else if (char === ',') {
+      fields.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') {
+        i++;
+      }
+      endRow();
+      line++;
+      rowLine = line;
+    } else {
+      field += char;
+    }
+  }
+
+  if (quoted) {
+    throw new Error(`Unterminated quoted field starting on line ${rowLine}`);
+  }
+  if (field !== '' || fields.length > 0) {
+    endRow();
+  }
+
+  return rows;
+}
@@ -84,6 +84,21 @@ class DatabaseConnection {
   }
 }
 
+/**
+ * Build the LIMIT clause of a query
+ * mysql2 does not bind LIMIT placeholders of prepared statements reliably, so the number is
+ * checked and written into the SQL instead
+ * @param limit - Maximum number of rows
+ * @returns The clause, e.g. "LIMIT 20"
+ * @throws Error if the limit is not a non-negative integer
+ */
+export function limitClause(limit: number): string {
+  if (!Number.isSafeInteger(limit) || limit < 0) {
+    throw new Error(`Invalid LIMIT: ${limit}`);
+  }
+  return `LIMIT ${limit}`;
+}
+
 export const db = new DatabaseConnection();
 
 export { DatabaseConnection };
\ No newline at end of file
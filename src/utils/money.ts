@@ -0,0 +1,121 @@
+/**
+ * Money value type
+ *
+ * Amounts are held as an integer number of minor units (cents) so arithmetic is exact.
+ * The storage format is DECIMAL(15,2), so every amount that fits the column also fits
+ * in a safe JavaScript integer.
+ *
+ * Rounding rules:
+ * - Parsing never rounds: input with more than 2 decimal places is rejected
+ * - Values read from DECIMAL(15,2) columns (including SUM/MAX aggregates) are exact
+ * - Arithmetic is limited to add/subtract/negate, which cannot produce fractions
+ * - There is no division: comparisons against ratios must cross-multiply minor units
+ * - JSON output is a decimal string with exactly 2 decimal places, e.g. "1250.50"
+ */
+
+export const MONEY_SCALE = 2;
+
+const MINOR_UNITS_PER_UNIT = 10 ** MONEY_SCALE;
+
+// DECIMAL(15,2) holds at most 13 integer digits
+export const MAX_MINOR_UNITS = 10 ** 15 - 1;
+
+const DECIMAL_PATTERN = /^(-)?(\d+)(?:\.(\d+))?$/;
+
+export class Money {
+  static readonly ZERO = new Money(0);
+
+  private constructor(public readonly minorUnits: number) {}
+
+  /**
+   * Create a Money value from an integer number of minor units
+   * @param minorUnits - Amount in cents
+   * @throws Error if the value is not an integer or is out of range
+   */
+  static fromMinorUnits(minorUnits: number): Money {
+    if (!Number.isSafeInteger(minorUnits) || Math.abs(minorUnits) > MAX_MINOR_UNITS) {
+      throw new Error('Amount is out of range');
+    }
+    return new Money(minorUnits);
+  }
+
+  /**
+   * Parse a decimal amount such as "12.50", 12.5 or a DECIMAL column value
+   * @param value - Decimal string or number with at most 2 decimal places
+   * @throws Error if the value is not a decimal, has too many decimals or is out of range
+   */
+  static fromDecimal(value: string | number): Money {
+    const text = typeof value === 'number' ? String(value) : String(value).trim();
+    const match = DECIMAL_PATTERN.exec(text);
+
+    if (!match) {
+      throw new Error('Amount must be a decimal number');
+    }
+
+    const [, sign, whole, fraction = ''] = match;
+    if (fraction.length > MONEY_SCALE) {
+      throw new Error(`Amount must have at most ${MONEY_SCALE} decimal places`);
+    }
+
+    const minorUnits = parseInt(whole, 10) * MINOR_UNITS_PER_UNIT + parseInt(fraction.padEnd(MONEY_SCALE, '0'), 10);
+    if (minorUnits > MAX_MINOR_UNITS) {
+      throw new Error('Amount exceeds the maximum of 9999999999999.99');
+    }
+
+    return new Money(sign && minorUnits !== 0 ? -minorUnits : minorUnits);
+  }
+
+  add(other: Money): Money {
+    return Money.fromMinorUnits(this.minorUnits + other.minorUnits);
+  }
+
+  subtract(other: Money): Money {
+    return Money.fromMinorUnits(this.minorUnits - other.minorUnits);
+  }
+
+  negate(): Money {
+    return new Money(-this.minorUnits || 0);
+  }
+
+  /**
+   * Compare two amounts
+   * @returns Negative if this < other, zero if equal, positive if this > other
+   */
+  compare(other: Money): number {
+    return this.minorUnits - other.minorUnits;
+  }
+
+  equals(other: Money): boolean {
+    return this.minorUnits === other.minorUnits;
+  }
+
+  greaterThanOrEqual(other: Money): boolean {
+    return this.minorUnits >= other.minorUnits;
+  }
+
+  isPositive(): boolean {
+    return this.minorUnits > 0;
+  }
+
+  isNegative(): boolean {
+    return this.minorUnits < 0;
+  }
+
+  isZero(): boolean {
+    return this.minorUnits === 0;
+  }
+
+  /**
+   * Format as a plain decimal string with exactly 2 decimal places
+   */
+  toString(): string {
+    const absolute = Math.abs(this.minorUnits);
+    const whole = Math.floor(absolute / MINOR_UNITS_PER_UNIT);
+    const fraction = String(absolute % MINOR_UNITS_PER_UNIT).padStart(MONEY_SCALE, '0');
+    return `${this.minorUnits < 0 ? '-' : ''}${whole}.${fraction}`;
+  }
+
+  toJSON(): string {
+    return this.toString();
+  }
+}
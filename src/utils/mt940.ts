@@ -0,0 +1,96 @@
+import { Statement, StatementLine } from '../model/statement';
+import { Money } from './money';
+
+/**
+ * SWIFT MT940 (customer statement) export, as the text block accounting software imports
+ * :20: statement reference, :25: account, :28C: statement number, :60F: opening balance,
+ * :61:/:86: one pair per statement line, :62F: closing balance. Lines are CRLF-separated and
+ * limited to the SWIFT X character set; the full transaction ID is carried in :86:
+ */
+
+const MAX_LINE_LENGTH = 65;
+
+/**
+ * Render a statement as an MT940 message
+ * @param statement - The statement to render
+ * @param currency - ISO 4217 currency code of the account
+ * @returns MT940 text
+ */
+export function renderMt940(statement: Statement, currency: string): string {
+  const lastDay = new Date(statement.period_end.getTime() - 1);
+
+  const lines = [
+    `:20:${swiftText(`STMT${yymmdd(statement.period_start)}${yymmdd(lastDay)}`, 16)}`,
+    `:25:${swiftText(statement.account_number, 35)}`,
+    ':28C:1/1',
+    `:60F:${balance(statement.opening_balance, statement.period_start, currency)}`
+  ];
+
+  for (const line of statement.lines) {
+    lines.push(`:61:${statementLine(line)}`);
+    lines.push(...information(line));
+  }
+
+  lines.push(`:62F:${balance(statement.closing_balance, lastDay, currency)}`);
+  lines.push('-');
+
+  return lines.join('\r\n') + '\r\n';
+}
+
+/**
+ * Balance field: D/C mark, date, currency, amount
+ */
+function balance(amount: Money, date: Date, currency: string): string {
+  return `${amount.isNegative() ? 'D' : 'C'}${yymmdd(date)}${currency}${swiftAmount(amount)}`;
+}
+
+/**
+ * :61: value date, entry date, D/C mark (RC/RD for reversals), amount, transaction type,
+ * customer reference and bank reference
+ */
+function statementLine(line: StatementLine): string {
+  const bookedAt = new Date(line.booked_at);
+  const debit = line.amount.isNegative();
+  const mark = (line.type === 'reversal' ? 'R' : '') + (debit ? 'D' : 'C');
+  const type = line.type === 'transfer' || line.type === 'reversal' ? 'NTRF' : 'NMSC';
+  const reference = line.transaction_id
+    ? line.transaction_id.replace(/-/g, '').slice(0, 16).toUpperCase()
+    : `JE${line.journal_entry_id}`;
+
+  return `${yymmdd(bookedAt)}${yymmdd(bookedAt).slice(2)}${mark}${swiftAmount(line.amount)}${type}NONREF//${reference}`;
+}
+
+/**
+ * :86: information to the account owner, split into lines of at most 65 characters (6 at most)
+ */
+function information(line: StatementLine): string[] {
+  const text = swiftText(
+    line.transaction_id ? `${line.description} TXID ${line.transaction_id}` : line.description,
+    6 * MAX_LINE_LENGTH - 4
+  );
+
+  const first = text.slice(0, MAX_LINE_LENGTH - 4);
+  const rest = text.slice(MAX_LINE_LENGTH - 4).match(new RegExp(`.{1,${MAX_LINE_LENGTH}}`, 'g')) ?? [];
+  // Continuation lines must not look like a new field or the end of the message
+  return [`:86:${first}`, ...rest.map(chunk => chunk.replace(/^[:-]/, '.'))];
+}
+
+/**
+ * Unsigned amount with a comma as decimal separator, e.g. 1234,56
+ */
+function swiftAmount(amount: Money): string {
+  return (amount.isNegative() ? amount.negate() : amount).toString().replace('.', ',');
+}
+
+function yymmdd(date: Date): string {
+  return date.toISOString().slice(2, 10).replace(/-/g, '');
+}
+
+/**
+ * Restrict text to the SWIFT X character set and a maximum length
+ */
+function swiftText(value: string, maxLength: number): string {
+  return value
+    .replace(/[^A-Za-z0-9/\-?:().,'+ ]/g, '.')
+    .slice(0, maxLength);
+}
@@ -0,0 +1,27 @@
+/**
+ * Promise-based mutual exclusion for in-process resources such as a single SQLite connection
+ * Callers run one at a time in the order they asked; the lock is not reentrant
+ */
+export class Mutex {
+  private tail: Promise<void> = Promise.resolve();
+
+  /**
+   * Run work once every earlier caller has finished
+   * @param work - The work to run while holding the lock
+   * @returns The work's result
+   */
+  async run<T>(work: () => Promise<T> | T): Promise<T> {
+    const previous = this.tail;
+    let release!: () => void;
+    this.tail = new Promise<void>(resolve => {
+      release = resolve;
+    });
+
+    await previous;
+    try {
+      return await work();
+    } finally {
+      release();
+    }
+  }
+}
@@ -0,0 +1,162 @@
+import { ParsedPaymentFile, ParsedPaymentLine } from '../model/paymentBatch';
+import { Money } from './money';
+import { parseCsv } from './csv';
+import { child, children, parseXml, textAt, XmlElement } from './xml';
+
+/**
+ * Readers for bulk payment files
+ * Both produce raw fields named like the transaction API so every line can be validated with
+ * schemas.transaction; problems that make the whole file unusable are thrown as
+ * 'Invalid payment file: ...', problems with a single payment are reported on its line
+ */
+
+const CSV_COLUMNS = ['type', 'amount', 'source_account_id', 'destination_account_id', 'reference'];
+
+/**
+ * Read a CSV payment file
+ * The header row names the columns (any order): amount, source_account_id and
+ * destination_account_id, plus optional type (defaults to transfer) and reference
+ * @param text - The file content
+ * @returns One parsed line per data row, numbered by its line in the file
+ * @throws Error if the file cannot be parsed or the header is unusable
+ */
+export function parseCsvPaymentFile(text: string): ParsedPaymentFile {
+  let rows;
+  try {
+    rows = parseCsv(text);
+  } catch (error) {
+    throw new Error(`Invalid payment file: ${(error as Error).message}`);
+  }
+
+  if (rows.length === 0) {
+    throw new Error('Invalid payment file: file is empty');
+  }
+
+  const header = rows[0].fields.map(column => column.trim().toLowerCase());
+  const unknown = header.filter(column => !CSV_COLUMNS.includes(column));
+  if (unknown.length > 0) {
+    throw new Error(`Invalid payment file: unknown column ${unknown.join(', ')}`);
+  }
+  if (!header.includes('amount')) {
+    throw new Error('Invalid payment file: missing column amount');
+  }
+
+  const lines = rows.slice(1).map(row => {
+    const line: ParsedPaymentLine = { line_number: row.line, reference: null, fields: {} };
+
+    if (row.fields.length !== header.length) {
+      line.error = `Expected ${header.length} fields, found ${row.fields.length}`;
+      return line;
+    }
+
+    header.forEach((column, index) => {
+      const value = row.fields[index].trim();
+      if (column === 'reference') {
+        line.reference = value === '' ? null : value.slice(0, 140);
+      } else if (value !== '') {
+        line.fields[column] = value;
+      }
+    });
+    line.fields.type = line.fields.type ?? 'transfer';
+
+    return line;
+  });
+
+  return { file_reference: null, lines };
+}
+
+/**
+ * Read an ISO 20022 pain.001 (CustomerCreditTransferInitiation) file
+ * Every CdtTrfTxInf becomes a transfer from its PmtInf debtor account to the creditor account.
+ * Accounts are identified by account number in Othr/Id; the resolved account numbers are returned
+ * as source_account_number and destination_account_number for the caller to look up
+ * @param xml - The file content
+ * @param currency - The only currency accepted in InstdAmt
+ * @returns One parsed line per credit transfer, numbered in document order
+ * @throws Error if the document is malformed or its control totals do not match
+ */
+export function parsePain001PaymentFile(xml: string, currency: string): ParsedPaymentFile {
+  let document: XmlElement;
+  try {
+    document = parseXml(xml);
+  } catch (error) {
+    throw new Error(`Invalid payment file: ${(error as Error).message}`);
+  }
+
+  const initiation = child(document, 'CstmrCdtTrfInitn');
+  if (document.name !== 'Document' || !initiation) {
+    throw new Error('Invalid payment file: not a pain.001 CstmrCdtTrfInitn document');
+  }
+
+  const lines: ParsedPaymentLine[] = [];
+  let controlSum = Money.ZERO;
+
+  for (const paymentInformation of children(initiation, 'PmtInf')) {
+    const debtorAccount = child(paymentInformation, 'DbtrAcct');
+
+    for (const transfer of children(paymentInformation, 'CdtTrfTxInf')) {
+      const endToEndId = textAt(transfer, 'PmtId', 'EndToEndId');
+      const line: ParsedPaymentLine = {
+        line_number: lines.length + 1,
+        reference: (endToEndId && endToEndId !== 'NOTPROVIDED' ? endToEndId : textAt(transfer, 'RmtInf', 'Ustrd'))?.slice(0, 140) ?? null,
+        fields: { type: 'transfer' }
+      };
+      lines.push(line);
+
+      const amount = child(child(transfer, 'Amt'), 'InstdAmt');
+      if (!amount) {
+        line.error = 'Only InstdAmt amounts are supported';
+        continue;
+      }
+      line.fields.amount = amount.text.trim();
+      try {
+        controlSum = controlSum.add(Money.fromDecimal(line.fields.amount));
+      } catch {
+        // Reported when the line is validated
+      }
+
+      const source = accountNumber(debtorAccount);
+      const destination = accountNumber(child(transfer, 'CdtrAcct'));
+      if (source) {
+        line.fields.source_account_number = source;
+      }
+      if (destination) {
+        line.fields.destination_account_number = destination;
+      }
+
+      if (amount.attributes.Ccy !== currency) {
+        line.error = `Currency ${amount.attributes.Ccy ?? '(none)'} is not supported`;
+      } else if (!source || !destination) {
+        line.error = 'Debtor and creditor accounts must be identified by account number in Othr/Id';
+      }
+    }
+  }
+
+  if (lines.length === 0) {
+    throw new Error('Invalid payment file: no CdtTrfTxInf entries');
+  }
+
+  const declaredCount = textAt(initiation, 'GrpHdr', 'NbOfTxs');
+  if (declaredCount !== undefined && parseInt(declaredCount, 10) !== lines.length) {
+    throw new Error(`Invalid payment file: NbOfTxs is ${declaredCount} but the file has ${lines.length} transactions`);
+  }
+
+  const declaredSum = textAt(initiation, 'GrpHdr', 'CtrlSum');
+  if (declaredSum !== undefined && !controlSumMatches(declaredSum, controlSum)) {
+    throw new Error(`Invalid payment file: CtrlSum is ${declaredSum} but the amounts add up to ${controlSum.toString()}`);
+  }
+
+  return { file_reference: textAt(initiation, 'GrpHdr', 'MsgId')?.slice(0, 35) ?? null, lines };
+}
+
+function accountNumber(account: XmlElement | undefined): string | undefined {
+  return textAt(account, 'Id', 'Othr', 'Id') || undefined;
+}
+
+function controlSumMatches(declared: string, actual: Money): boolean {
+  try {
+    return Money.fromDecimal(declared).equals(actual);
+  } catch {
+    return false;
+  }
+}
@@ -0,0 +1,73 @@
+/**
+ * Minimal PDF writer for plain text documents
+ * Renders monospaced lines (Courier, one of the 14 standard fonts, so nothing is embedded)
+ * onto A4 pages. Only printable ASCII is supported; other characters are replaced with '?'
+ */
+
+const PAGE_WIDTH = 595;
+const PAGE_HEIGHT = 842;
+const MARGIN = 40;
+const FONT_SIZE = 9;
+const LEADING = 12;
+
+/** Lines that fit on one page at the fixed font size and leading */
+export const PDF_LINES_PER_PAGE = Math.floor((PAGE_HEIGHT - 2 * MARGIN) / LEADING);
+
+/** Characters that fit on one line (Courier glyphs are 0.6 em wide) */
+export const PDF_CHARS_PER_LINE = Math.floor((PAGE_WIDTH - 2 * MARGIN) / (FONT_SIZE * 0.6));
+
+/**
+ * Render text lines as a PDF document, starting a new page when one is full
+ * @param lines - Lines of text; longer lines are clipped at the page edge
+ * @returns The PDF file
+ */
+export function renderTextPdf(lines: string[]): Buffer {
+  const pages: string[][] = [];
+  for (let i = 0; i < Math.max(lines.length, 1); i += PDF_LINES_PER_PAGE) {
+    pages.push(lines.slice(i, i + PDF_LINES_PER_PAGE));
+  }
+
+  // Object numbers: 1 catalog, 2 page tree, 3 font, then a page and its content stream per page
+  const objects: string[] = [];
+  const pageIds = pages.map((_, index) => 4 + index * 2);
+
+  objects.push('<< /Type /Catalog /Pages 2 0 R >>');
+  objects.push(`<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(' ')}] /Count ${pages.length} >>`);
+  objects.push('<< /Type /Font /Subtype /Type1 /BaseFont /Courier /Encoding /WinAnsiEncoding >>');
+
+  pages.forEach((pageLines, index) => {
+    const text = pageLines.map(line => `(${escapeText(line)}) Tj T*`).join('\n');
+    const stream = `BT\n/F1 ${FONT_SIZE} Tf\n${LEADING} TL\n${MARGIN} ${PAGE_HEIGHT - MARGIN - FONT_SIZE} Td\n${text}\nET`;
+
+    objects.push(
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] ` +
+      `/Resources << /Font << /F1 3 0 R >> >> /Contents ${pageIds[index] + 1} 0 R >>`
+    );
+    objects.push(`<< /Length ${Buffer.byteLength(stream, 'latin1')} >>\nstream\n${stream}\nendstream`);
+  });
+
+  // The cross-reference table needs the byte offset of every object
+  let body = '%PDF-1.4\n';
+  const offsets: number[] = [];
+  objects.forEach((object, index) => {
+    offsets.push(Buffer.byteLength(body, 'latin1'));
+    body += `${index + 1} 0 obj\n${object}\nendobj\n`;
+  });
+
+  const xrefOffset = Buffer.byteLength(body, 'latin1');
+  body += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+  body += offsets.map(offset => `${String(offset).padStart(10, '0')} 00000 n \n`).join('');
+  body += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+
+  return Buffer.from(body, 'latin1');
+}
+
+/**
+ * Escape a line for a PDF string literal
+ */
+function escapeText(line: string): string {
+  return line
+    .slice(0, PDF_CHARS_PER_LINE)
+    .replace(/[^\x20-\x7e]/g, '?')
+    .replace(/[\\()]/g, match => `\\${match}`);
+}
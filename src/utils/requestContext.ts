@@ -0,0 +1,20 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import { AuditActor } from '../model/audit';
+
+const storage = new AsyncLocalStorage<AuditActor>();
+
+/**
+ * Run the rest of a request with its context available to every service it calls
+ * @param context - Request id, client address and (once authenticated) the user and key
+ * @param fn - The remainder of the request handling
+ */
+export const runWithRequestContext = <T>(context: AuditActor, fn: () => T): T => {
+  return storage.run(context, fn);
+};
+
+/**
+ * The context of the request being handled, or undefined outside a request (workers, scripts)
+ */
+export const getRequestContext = (): AuditActor | undefined => {
+  return storage.getStore();
+};
@@ -0,0 +1,72 @@
+import { createCipheriv, createDecipheriv, createHash, createHmac, randomBytes, timingSafeEqual } from 'crypto';
+
+/**
+ * Signed request helpers
+ *
+ * A signed request carries X-Api-Key-Id, X-Timestamp (unix seconds), X-Nonce and X-Signature.
+ * The signature is the hex HMAC-SHA256, keyed with the secret part of the API key, of:
+ *
+ *   METHOD \n PATH \n TIMESTAMP \n NONCE \n SHA256_HEX(BODY)
+ *
+ * where PATH is the request path including the query string and BODY the raw request body
+ * (empty for requests without one).
+ *
+ * The server keeps a copy of the secret encrypted with AES-256-GCM under API_KEY_ENCRYPTION_KEY,
+ * because an HMAC cannot be checked against the salted hash used for X-Secret-Key.
+ */
+
+export interface SignedRequestParts {
+  method: string;
+  path: string;
+  timestamp: string;
+  nonce: string;
+  body?: Buffer | string;
+}
+
+/**
+ * Build the string that is signed
+ */
+export function canonicalRequest(parts: SignedRequestParts): string {
+  const bodyHash = createHash('sha256').update(parts.body ?? '').digest('hex');
+
+  return [parts.method.toUpperCase(), parts.path, parts.timestamp, parts.nonce, bodyHash].join('\n');
+}
+
+/**
+ * Sign a request with an API key secret
+ */
+export function signRequest(secret: string, parts: SignedRequestParts): string {
+  return createHmac('sha256', secret).update(canonicalRequest(parts)).digest('hex');
+}
+
+/**
+ * Check a presented signature in constant time
+ */
+export function verifyRequestSignature(secret: string, parts: SignedRequestParts, signature: string): boolean {
+  const expected = Buffer.from(signRequest(secret, parts), 'hex');
+  const actual = Buffer.from(signature, 'hex');
+
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
+
+/**
+ * Encrypt a signing secret for storage as `iv:tag:ciphertext` (hex)
+ */
+export function sealSecret(key: Buffer, secret: string): string {
+  const iv = randomBytes(12);
+  const cipher = createCipheriv('aes-256-gcm', key, iv);
+  const ciphertext = Buffer.concat([cipher.update(secret, 'utf8'), cipher.final()]);
+
+  return [iv.toString('hex'), cipher.getAuthTag().toString('hex'), ciphertext.toString('hex')].join(':');
+}
+
+/**
+ * Decrypt a secret produced by sealSecret
+ */
+export function openSecret(key: Buffer, sealed: string): string {
+  const [iv, tag, ciphertext] = sealed.split(':').map(part => Buffer.from(part, 'hex'));
+  const decipher = createDecipheriv('aes-256-gcm', key, iv);
+  decipher.setAuthTag(tag);
+
+  return Buffer.concat([decipher.update(ciphertext), decipher.final()]).toString('utf8');
+}
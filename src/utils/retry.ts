@@ -0,0 +1,47 @@
+import { databaseConfig } from '../config/database';
+
+// InnoDB errors after which the whole transaction has been rolled back and can safely be replayed
+const RETRYABLE_LOCK_ERRORS = ['ER_LOCK_DEADLOCK', 'ER_LOCK_WAIT_TIMEOUT'];
+
+export interface RetryOptions {
+  attempts: number;
+  baseDelayMs: number;
+}
+
+/**
+ * Check whether an error is a deadlock or lock wait timeout reported by MySQL
+ */
+export const isLockConflict = (error: unknown): boolean => {
+  return typeof error === 'object' && error !== null &&
+    RETRYABLE_LOCK_ERRORS.includes((error as { code?: string }).code || '');
+};
+
+/**
+ * Run a database transaction, replaying it on deadlocks and lock wait timeouts
+ * Waits baseDelayMs * 2^attempt plus jitter between attempts
+ * @param operation - Callback that opens, runs and commits its own transaction
+ * @param options - Number of retries and base backoff delay
+ * @returns The operation result
+ * @throws The last lock error once retries are exhausted, or any non-lock error immediately
+ */
+export async function retryOnLockConflict<T>(
+  operation: () => Promise<T>,
+  options: RetryOptions = {
+    attempts: databaseConfig.lockRetryAttempts,
+    baseDelayMs: databaseConfig.lockRetryBaseDelayMs
+  }
+): Promise<T> {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await operation();
+    } catch (error) {
+      if (!isLockConflict(error) || attempt >= options.attempts) {
+        throw error;
+      }
+
+      const delay = options.baseDelayMs * 2 ** attempt + Math.random() * options.baseDelayMs;
+      console.warn(`Lock conflict (${(error as { code?: string }).code}), retrying in ${Math.round(delay)}ms`);
+      await new Promise(resolve => setTimeout(resolve, delay));
+    }
+  }
+}
@@ -0,0 +1,145 @@
+import { Statement } from '../model/statement';
+import { toCsv } from './csv';
+import { renderTextPdf } from './pdf';
+
+/**
+ * Renderings of an account statement for download and printing
+ * Times are shown in UTC; the period end is exclusive in the data and shown as the last day covered
+ */
+
+/**
+ * Render a statement as CSV: one row per line, framed by opening and closing balance rows
+ * @param statement - The statement to render
+ * @returns CSV text
+ */
+export function renderStatementCsv(statement: Statement): string {
+  const rows: (string | null)[][] = [
+    ['booked_at', 'transaction_id', 'type', 'description', 'amount', 'running_balance'],
+    [statement.period_start.toISOString(), null, null, 'Opening balance', null, statement.opening_balance.toString()]
+  ];
+
+  for (const line of statement.lines) {
+    rows.push([
+      new Date(line.booked_at).toISOString(),
+      line.transaction_id,
+      line.type,
+      line.description,
+      line.amount.toString(),
+      line.running_balance.toString()
+    ]);
+  }
+
+  rows.push([statement.period_end.toISOString(), null, null, 'Closing balance', null, statement.closing_balance.toString()]);
+
+  return toCsv(rows);
+}
+
+/**
+ * Render a statement as a standalone, printable HTML page
+ * @param statement - The statement to render
+ * @returns HTML document
+ */
+export function renderStatementHtml(statement: Statement): string {
+  const rows = statement.lines.map(line => `
+      <tr>
+        <td>${formatTime(line.booked_at)}</td>
+        <td>${escapeHtml(line.description)}</td>
+        <td class="amount">${line.amount.toString()}</td>
+        <td class="amount">${line.running_balance.toString()}</td>
+      </tr>`).join('');
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="utf-8">
+  <title>Statement ${escapeHtml(statement.account_number)} ${periodLabel(statement)}</title>
+  <style>
+    body { font-family: sans-serif; margin: 2em; color: #222; }
+    table { border-collapse: collapse; width: 100%; }
+    th, td { padding: 4px 8px; border-bottom: 1px solid #ddd; text-align: left; }
+    .amount { text-align: right; font-variant-numeric: tabular-nums; }
+    .summary td { border: none; }
+    @media print { body { margin: 0; } }
+  </style>
+</head>
+<body>
+  <h1>Account statement</h1>
+  <p>
+    Account ${escapeHtml(statement.account_number)}<br>
+    Holder ${escapeHtml(statement.account_holder)}<br>
+    Period ${periodLabel(statement)} (UTC)
+  </p>
+  <table class="summary">
+    <tr><td>Opening balance</td><td class="amount">${statement.opening_balance.toString()}</td></tr>
+    <tr><td>Total in</td><td class="amount">${statement.total_in.toString()}</td></tr>
+    <tr><td>Total out</td><td class="amount">${statement.total_out.toString()}</td></tr>
+    <tr><td>Closing balance</td><td class="amount">${statement.closing_balance.toString()}</td></tr>
+  </table>
+  <h2>Transactions</h2>
+  <table>
+    <thead>
+      <tr><th>Date</th><th>Description</th><th class="amount">Amount</th><th class="amount">Balance</th></tr>
+    </thead>
+    <tbody>${rows || '\n      <tr><td colspan="4">No transactions in this period</td></tr>'}
+    </tbody>
+  </table>
+</body>
+</html>
+`;
+}
+
+/**
+ * Render a statement as a PDF with a fixed-width table
+ * @param statement - The statement to render
+ * @returns PDF file
+ */
+export function renderStatementPdf(statement: Statement): Buffer {
+  const row = (date: string, description: string, amount: string, balance: string) =>
+    `${date.padEnd(16)}  ${description.slice(0, 38).padEnd(38)}  ${amount.padStart(15)}  ${balance.padStart(15)}`;
+
+  const lines = [
+    'ACCOUNT STATEMENT',
+    '',
+    `Account          ${statement.account_number}`,
+    `Holder           ${statement.account_holder}`,
+    `Period (UTC)     ${periodLabel(statement)}`,
+    '',
+    `Opening balance  ${statement.opening_balance.toString().padStart(15)}`,
+    `Total in         ${statement.total_in.toString().padStart(15)}`,
+    `Total out        ${statement.total_out.toString().padStart(15)}`,
+    `Closing balance  ${statement.closing_balance.toString().padStart(15)}`,
+    '',
+    row('Date', 'Description', 'Amount', 'Balance'),
+    '-'.repeat(90),
+    ...statement.lines.map(line =>
+      row(formatTime(line.booked_at), line.description, line.amount.toString(), line.running_balance.toString())
+    )
+  ];
+
+  if (statement.lines.length === 0) {
+    lines.push('No transactions in this period');
+  }
+
+  return renderTextPdf(lines);
+}
+
+/**
+ * First and last day covered, e.g. "2025-01-01 to 2025-01-31"
+ */
+function periodLabel(statement: Statement): string {
+  const lastDay = new Date(statement.period_end.getTime() - 1);
+  return `${statement.period_start.toISOString().slice(0, 10)} to ${lastDay.toISOString().slice(0, 10)}`;
+}
+
+function formatTime(value: Date): string {
+  return new Date(value).toISOString().slice(0, 16).replace('T', ' ');
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
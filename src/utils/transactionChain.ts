@@ -0,0 +1,80 @@
+import { createHash, createPublicKey, KeyObject, sign, verify } from 'crypto';
+import { ChainContents, TransactionReceipt } from '../model/transactionChain';
+
+/**
+ * Transaction hash chain helpers
+ *
+ * Every link is
+ *
+ *   row_hash = hex(SHA-256(prev_hash + "\n" + CANONICAL_CONTENTS))
+ *
+ * where CANONICAL_CONTENTS is the JSON array of the ChainContents fields in declaration order
+ * and the first link's prev_hash is 64 zeros. Receipts carry the contents, both hashes and an
+ * Ed25519 signature of "receipt.v1.<row_hash>", so a client can check one with nothing but the
+ * public key, and compare row_hash with the chain later.
+ */
+
+export const GENESIS_HASH = '0'.repeat(64);
+
+const RECEIPT_SIGNATURE_PREFIX = 'receipt.v1.';
+
+/**
+ * Serialize the contents of a link with a fixed field order
+ */
+export function canonicalChainContents(contents: ChainContents): string {
+  return JSON.stringify([
+    contents.sequence,
+    contents.transaction_id,
+    contents.type,
+    contents.amount,
+    contents.source_account_id,
+    contents.destination_account_id,
+    contents.original_transaction_id,
+    contents.batch_id,
+    contents.status,
+    contents.failure_reason,
+    contents.created_at
+  ]);
+}
+
+/**
+ * Compute the hash of a link from the previous link's hash and the row's contents
+ */
+export function hashChainLink(prevHash: string, contents: ChainContents): string {
+  return createHash('sha256').update(`${prevHash}\n${canonicalChainContents(contents)}`).digest('hex');
+}
+
+/**
+ * Short identifier of a receipt signing key: the first 16 hex characters of the SHA-256 of its SPKI DER
+ */
+export function receiptKeyId(publicKey: KeyObject): string {
+  return createHash('sha256').update(publicKey.export({ type: 'spki', format: 'der' })).digest('hex').slice(0, 16);
+}
+
+/**
+ * Sign the row hash of a receipt
+ * @returns Base64 Ed25519 signature
+ */
+export function signReceiptHash(privateKey: KeyObject, rowHash: string): string {
+  return sign(null, Buffer.from(RECEIPT_SIGNATURE_PREFIX + rowHash), privateKey).toString('base64');
+}
+
+/**
+ * Check a receipt: its row hash must follow from its contents and prev_hash, and be signed by the key
+ * @param publicKey - The receipt signing public key (KeyObject or SPKI PEM)
+ * @returns True if the receipt is intact and genuine
+ */
+export function verifyReceipt(publicKey: KeyObject | string, receipt: TransactionReceipt): boolean {
+  const key = typeof publicKey === 'string' ? createPublicKey(publicKey) : publicKey;
+
+  if (hashChainLink(receipt.prev_hash, receipt.contents) !== receipt.row_hash) {
+    return false;
+  }
+
+  return verify(
+    null,
+    Buffer.from(RECEIPT_SIGNATURE_PREFIX + receipt.row_hash),
+    key,
+    Buffer.from(receipt.signature, 'base64')
+  );
+}
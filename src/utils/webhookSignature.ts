@@ -0,0 +1,52 @@
+import { createHmac, randomBytes, timingSafeEqual } from 'crypto';
+
+/**
+ * Webhook signature helpers
+ *
+ * Every delivery carries X-Webhook-Signature: t=<unix seconds>,v1=<hex>, where the hex value is
+ * the HMAC-SHA256, keyed with the endpoint secret, of:
+ *
+ *   TIMESTAMP . BODY
+ *
+ * with BODY the raw JSON request body. Receivers should recompute it and reject stale timestamps.
+ */
+
+const SECRET_PREFIX = 'whsec_';
+
+/**
+ * Generate a new endpoint secret
+ */
+export function generateWebhookSecret(): string {
+  return SECRET_PREFIX + randomBytes(24).toString('hex');
+}
+
+/**
+ * Build the X-Webhook-Signature header value for a body
+ */
+export function signWebhook(secret: string, body: string, timestamp: number = Math.floor(Date.now() / 1000)): string {
+  const signature = createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+
+  return `t=${timestamp},v1=${signature}`;
+}
+
+/**
+ * Check an X-Webhook-Signature header in constant time
+ * @returns True if the signature matches and the timestamp is within toleranceSeconds of now
+ */
+export function verifyWebhookSignature(secret: string, body: string, header: string, toleranceSeconds: number = 300): boolean {
+  const parts = new Map(header.split(',').map(part => {
+    const index = part.indexOf('=');
+    return [part.slice(0, index).trim(), part.slice(index + 1).trim()] as [string, string];
+  }));
+
+  const timestamp = parseInt(parts.get('t') ?? '', 10);
+  const signature = parts.get('v1');
+  if (isNaN(timestamp) || !signature || Math.abs(Date.now() / 1000 - timestamp) > toleranceSeconds) {
+    return false;
+  }
+
+  const expected = Buffer.from(signWebhook(secret, body, timestamp).split('v1=')[1], 'hex');
+  const actual = Buffer.from(signature, 'hex');
+
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
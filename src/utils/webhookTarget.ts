@@ -0,0 +1,133 @@
+import { BlockList, isIP, LookupFunction } from 'net';
+import { lookup as dnsLookup, LookupAddress } from 'dns';
+import http from 'http';
+import https from 'https';
+
+/**
+ * Webhook target checks
+ *
+ * Webhook URLs are chosen by users, so without these checks the delivery worker could be pointed
+ * at the API's own network: loopback, private ranges, link-local (including cloud metadata at
+ * 169.254.169.254) and the like. A URL must resolve to public addresses only. The check runs at
+ * registration and again on every delivery, where the connection is made to the address that
+ * passed the check, so a DNS answer that changes in between cannot slip through.
+ */
+
+// Separate lists: a BlockList matches IPv4 addresses against IPv4-mapped IPv6 subnets as well
+const blockedIpv4 = new BlockList();
+const blockedIpv6 = new BlockList();
+for (const [network, prefix] of [
+  ['0.0.0.0', 8], // "this" network
+  ['10.0.0.0', 8], // private
+  ['100.64.0.0', 10], // carrier-grade NAT
+  ['127.0.0.0', 8], // loopback
+  ['169.254.0.0', 16], // link-local, cloud metadata
+  ['172.16.0.0', 12], // private
+  ['192.0.0.0', 24], // IETF protocol assignments
+  ['192.168.0.0', 16], // private
+  ['198.18.0.0', 15], // benchmarking
+  ['224.0.0.0', 4], // multicast
+  ['240.0.0.0', 4] // reserved, broadcast
+] as const) {
+  blockedIpv4.addSubnet(network, prefix, 'ipv4');
+}
+for (const [network, prefix] of [
+  ['::', 128], // unspecified
+  ['::1', 128], // loopback
+  ['::ffff:0:0', 96], // IPv4-mapped
+  ['64:ff9b::', 96], // NAT64
+  ['fc00::', 7], // unique local
+  ['fe80::', 10], // link-local
+  ['ff00::', 8] // multicast
+] as const) {
+  blockedIpv6.addSubnet(network, prefix, 'ipv6');
+}
+
+const WEBHOOK_URL_NOT_PUBLIC = 'Webhook URL must resolve to public addresses only';
+
+/**
+ * Whether an IP address may receive webhooks
+ */
+export function isPublicAddress(address: string): boolean {
+  const family = isIP(address);
+  if (family === 0) {
+    return false;
+  }
+
+  return family === 4 ? !blockedIpv4.check(address, 'ipv4') : !blockedIpv6.check(address, 'ipv6');
+}
+
+/**
+ * Resolve a host name to the addresses a webhook may be sent to
+ * @param hostname - A host name or IP literal (IPv6 with or without brackets)
+ * @param allowPrivate - Skip the public address check, e.g. for a receiver on localhost in development
+ * @returns Every address the name resolves to
+ * @throws Error if the name does not resolve, or any of its addresses is not public
+ */
+export async function resolveWebhookHost(hostname: string, allowPrivate: boolean): Promise<LookupAddress[]> {
+  const host = hostname.replace(/^\[(.*)\]$/, '$1');
+  const addresses = await new Promise<LookupAddress[]>((resolve, reject) => {
+    dnsLookup(host, { all: true, verbatim: true }, (error, result) => error ? reject(error) : resolve(result));
+  }).catch(() => {
+    throw new Error(`Webhook URL host ${host} does not resolve`);
+  });
+
+  // Every address must be public: the connection may go to any of them
+  if (!allowPrivate && (addresses.length === 0 || !addresses.every(({ address }) => isPublicAddress(address)))) {
+    throw new Error(WEBHOOK_URL_NOT_PUBLIC);
+  }
+
+  return addresses;
+}
+
+/**
+ * Check a webhook URL before it is registered
+ * @throws Error if its host does not resolve to public addresses only
+ */
+export async function assertWebhookUrl(url: string, allowPrivate: boolean): Promise<void> {
+  await resolveWebhookHost(new URL(url).hostname, allowPrivate);
+}
+
+export interface WebhookPostOptions {
+  headers: Record<string, string>;
+  timeoutMs: number;
+  allowPrivate: boolean;
+}
+
+/**
+ * POST a webhook body to a URL, connecting only to the addresses checked by resolveWebhookHost
+ * The response body is never read: only the status is kept, and the connection is closed as soon
+ * as the status line arrives, so a receiver cannot make the worker download an unbounded body
+ * @returns The HTTP status of the response
+ */
+export async function postWebhook(url: string, body: string, options: WebhookPostOptions): Promise<number> {
+  const target = new URL(url);
+  const addresses = await resolveWebhookHost(target.hostname, options.allowPrivate);
+
+  // TLS still verifies the certificate against the host name; only the address lookup is replaced
+  const lookup: LookupFunction = (_hostname, lookupOptions, callback) => {
+    if (lookupOptions.all) {
+      (callback as unknown as (error: null, addresses: LookupAddress[]) => void)(null, addresses);
+    } else {
+      callback(null, addresses[0].address, addresses[0].family);
+    }
+  };
+
+  const client = target.protocol === 'https:' ? https : http;
+
+  return new Promise<number>((resolve, reject) => {
+    const request = client.request(target, {
+      method: 'POST',
+      headers: { ...options.headers, 'Content-Length': Buffer.byteLength(body) },
+      lookup,
+      agent: false,
+      signal: AbortSignal.timeout(options.timeoutMs)
+    }, (response) => {
+      resolve(response.statusCode ?? 0);
+      response.destroy();
+    });
+
+    request.on('error', reject);
+    request.end(body);
+  });
+}
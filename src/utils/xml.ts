@@ -0,0 +1,176 @@
+/**
+ * Minimal XML reader for structured documents such as ISO 20022 messages
+ * Supports elements, attributes, text, CDATA, comments and processing instructions.
+ * Document type declarations are rejected, so no external or recursive entities can be
+ * expanded; only the five predefined and numeric character references are decoded
+ */
+
+export interface XmlElement {
+  name: string;
+  attributes: Record<string, string>;
+  children: XmlElement[];
+  text: string;
+}
+
+/**
+ * Parse an XML document into an element tree
+ * Namespace prefixes are stripped from element names, so lookups use local names
+ * @param xml - The document
+ * @returns The root element
+ * @throws Error if the document is malformed or contains a DOCTYPE
+ */
+export function parseXml(xml: string): XmlElement {
+  const stack: XmlElement[] = [];
+  let root: XmlElement | null = null;
+  let position = 0;
+
+  const input = xml.replace(/^\uFEFF/, '');
+
+  while (position < input.length) {
+    const open = input.indexOf('<', position);
+    const text = input.slice(position, open === -1 ? input.length : open);
+
+    if (stack.length > 0) {
+      stack[stack.length - 1].text += decodeEntities(text);
+    } else if (text.trim() !== '') {
+      throw new Error('Text outside the root element');
+    }
+    if (open === -1) {
+      break;
+    }
+
+    if (input.startsWith('<!--', open)) {
+      position = skipPast(input, '-->', open);
+    } else if (input.startsWith('<![CDATA[', open)) {
+      const end = input.indexOf(']]>', open);
+      if (end === -1 || stack.length === 0) {
+        throw new Error('Malformed CDATA section');
+      }
+      stack[stack.length - 1].text += input.slice(open + 9, end);
+      position = end + 3;
+    } else if (input.startsWith('<?', open)) {
+      position = skipPast(input, '?>', open);
+    } else if (input.startsWith('<!', open)) {
+      throw new Error('Document type declarations are not allowed');
+    } else if (input[open + 1] === '/') {
+      const end = input.indexOf('>', open);
+      const name = localName(input.slice(open + 2, end).trim());
+      const element = stack.pop();
+      if (end === -1 || !element || element.name !== name) {
+        throw new Error(`Unexpected closing tag </${name}>`);
+      }
+      position = end + 1;
+    } else {
+      const end = findTagEnd(input, open);
+      const selfClosing = input[end - 1] === '/';
+      const tag = input.slice(open + 1, selfClosing ? end - 1 : end);
+      const element = parseTag(tag);
+
+      if (stack.length > 0) {
+        stack[stack.length - 1].children.push(element);
+      } else if (root) {
+        throw new Error('More than one root element');
+      } else {
+        root = element;
+      }
+
+      if (!selfClosing) {
+        stack.push(element);
+      }
+      position = end + 1;
+    }
+  }
+
+  if (!root || stack.length > 0) {
+    throw new Error(stack.length > 0 ? `Unclosed element <${stack[stack.length - 1].name}>` : 'Empty document');
+  }
+
+  return root;
+}
+
+/**
+ * Find the first child with a local name
+ */
+export function child(element: XmlElement | undefined, name: string): XmlElement | undefined {
+  return element?.children.find(candidate => candidate.name === name);
+}
+
+/**
+ * Find every child with a local name
+ */
+export function children(element: XmlElement | undefined, name: string): XmlElement[] {
+  return element ? element.children.filter(candidate => candidate.name === name) : [];
+}
+
+/**
+ * Follow a path of local names and return the trimmed text of the element it ends at
+ */
+export function textAt(element: XmlElement | undefined, ...path: string[]): string | undefined {
+  const target = path.reduce<XmlElement | undefined>((current, name) => child(current, name), element);
+  return target?.text.trim();
+}
+
+function parseTag(tag: string): XmlElement {
+  const match = /^([^\s/>]+)([\s\S]*)$/.exec(tag.trim());
+  if (!match) {
+    throw new Error('Malformed start tag');
+  }
+
+  const attributes: Record<string, string> = {};
+  const pattern = /([^\s=]+)\s*=\s*("([^"]*)"|'([^']*)')/g;
+  let attribute: RegExpExecArray | null;
+  while ((attribute = pattern.exec(match[2])) !== null) {
+    attributes[localName(attribute[1])] = decodeEntities(attribute[3] ?? attribute[4]);
+  }
+
+  return { name: localName(match[1]), attributes, children: [], text: '' };
+}
+
+/**
+ * Index of the '>' closing a start tag, ignoring '>' inside quoted attribute values
+ */
+function findTagEnd(input: string, open: number): number {
+  let quote: string | null = null;
+  for (let i = open + 1; i < input.length; i++) {
+    const char = input[i];
+    if (quote) {
+      if (char === quote) {
+        quote = null;
+      }
+    } else if (char === '"' || char === "'") {
+      quote = char;
+    } else if (char === '>') {
+      return i;
+    }
+  }
+  throw new Error('Unterminated start tag');
+}
+
+function skipPast(input: string, terminator: string, from: number): number {
+  const end = input.indexOf(terminator, from);
+  if (end === -1) {
+    throw new Error(`Missing ${terminator}`);
+  }
+  return end + terminator.length;
+}
+
+function localName(name: string): string {
+  const colon = name.indexOf(':');
+  return colon === -1 ? name : name.slice(colon + 1);
+}
+
+function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-fA-F]+|#[0-9]+|lt|gt|amp|quot|apos);/g, (_, entity: string) => {
+    switch (entity) {
+      case 'lt': return '<';
+      case 'gt': return '>';
+      case 'amp': return '&';
+      case 'quot': return '"';
+      case 'apos': return "'";
+      default:
+        return String.fromCodePoint(
+          entity[1] === 'x' ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1), 10)
+        );
+    }
+  });
+}
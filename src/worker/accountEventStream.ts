@@ -0,0 +1,149 @@
+import { EventEmitter } from 'events';
+import { outboxConfig, OutboxConfig } from '../config/outbox';
+import { OutboxService } from '../service/outboxService';
+import { OutboxEvent } from '../model/outbox';
+
+const PAGE_SIZE = 500;
+
+/**
+ * Per-instance tail of published outbox events, fanned out to SSE subscribers by account
+ * Only polls while someone is subscribed. Polling the table rather than listening to the relay
+ * lets every server instance stream events whichever instance published them.
+ */
+class AccountEventStream {
+  private readonly emitter = new EventEmitter();
+  private timer: NodeJS.Timeout | null = null;
+  private lastSequence: number | null = null;
+  private starting: Promise<void> | null = null;
+  private polling = false;
+  private pollAgain = false;
+  private subscribers = 0;
+  private config: OutboxConfig;
+
+  constructor(config: OutboxConfig = outboxConfig) {
+    this.config = config;
+    this.emitter.setMaxListeners(0);
+  }
+
+  /**
+   * Receive the events of one account as they are published
+   * Resolves once the stream is tailing, so events published afterwards are not missed
+   * @param accountId - The account to follow
+   * @param listener - Called with each published event of the account
+   * @param onClose - Called when the stream shuts down
+   * @returns A function that ends the subscription
+   */
+  public async subscribe(
+    accountId: number,
+    listener: (event: OutboxEvent) => void,
+    onClose: () => void
+  ): Promise<() => void> {
+    this.emitter.on(`account:${accountId}`, listener);
+    this.emitter.on('close', onClose);
+    this.subscribers++;
+
+    let subscribed = true;
+    const unsubscribe = () => {
+      if (!subscribed) {
+        return;
+      }
+      subscribed = false;
+      this.emitter.off(`account:${accountId}`, listener);
+      this.emitter.off('close', onClose);
+      this.subscribers--;
+      if (this.subscribers === 0) {
+        this.pause();
+      }
+    };
+
+    try {
+      await this.start();
+    } catch (error) {
+      unsubscribe();
+      throw error;
+    }
+
+    return unsubscribe;
+  }
+
+  /**
+   * Check for newly published events now instead of at the next interval
+   */
+  public poll(): void {
+    if (this.subscribers === 0 || this.lastSequence === null) {
+      return;
+    }
+    if (this.polling) {
+      this.pollAgain = true;
+      return;
+    }
+
+    this.polling = true;
+    this.fetchNew()
+      .catch(error => console.error('Event stream error:', error))
+      .finally(() => {
+        this.polling = false;
+        if (this.pollAgain) {
+          this.pollAgain = false;
+          this.poll();
+        }
+      });
+  }
+
+  /**
+   * End every subscription, e.g. on shutdown, so open SSE responses do not hold the server open
+   */
+  public close(): void {
+    this.emitter.emit('close');
+  }
+
+  private async start(): Promise<void> {
+    if (this.lastSequence !== null && this.timer) {
+      return;
+    }
+
+    this.starting ??= (async () => {
+      if (this.lastSequence === null) {
+        this.lastSequence = await OutboxService.latestSequence();
+      }
+      if (!this.timer && this.subscribers > 0) {
+        this.timer = setInterval(() => this.poll(), this.config.streamPollIntervalMs);
+      }
+    })().finally(() => {
+      this.starting = null;
+    });
+
+    await this.starting;
+  }
+
+  private pause(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+    // Forget the position: a later subscriber only needs events published after it subscribed
+    this.lastSequence = null;
+  }
+
+  private async fetchNew(): Promise<void> {
+    let events: OutboxEvent[];
+    do {
+      if (this.lastSequence === null) {
+        return;
+      }
+
+      events = await OutboxService.listPublished(this.lastSequence, PAGE_SIZE);
+      for (const event of events) {
+        if (this.lastSequence === null) {
+          return;
+        }
+        this.lastSequence = event.sequence!;
+        this.emitter.emit(`account:${event.account_id}`, event);
+      }
+    } while (events.length === PAGE_SIZE);
+  }
+}
+
+export const accountEventStream = new AccountEventStream();
+
+export { AccountEventStream };
@@ -0,0 +1,76 @@
+import { outboxConfig, OutboxConfig } from '../config/outbox';
+import { OutboxService } from '../service/outboxService';
+import { accountEventStream } from './accountEventStream';
+
+/**
+ * In-process relay that publishes outbox events
+ * Publishes until the outbox is drained, then polls on a fixed interval. Several instances may
+ * run it; the relay state row makes them take turns.
+ */
+class OutboxRelay {
+  private timer: NodeJS.Timeout | null = null;
+  private currentTick: Promise<void> | null = null;
+  private running = false;
+  private config: OutboxConfig;
+
+  constructor(config: OutboxConfig = outboxConfig) {
+    this.config = config;
+  }
+
+  public start(): void {
+    if (this.running || !this.config.relayEnabled) {
+      return;
+    }
+
+    this.running = true;
+    console.log(`Outbox relay started (every ${this.config.relayPollIntervalMs}ms)`);
+    this.scheduleNextTick(0);
+  }
+
+  public async stop(): Promise<void> {
+    if (!this.running) {
+      return;
+    }
+
+    this.running = false;
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+
+    if (this.currentTick) {
+      await this.currentTick;
+    }
+    console.log('Outbox relay stopped');
+  }
+
+  private scheduleNextTick(delay: number): void {
+    this.timer = setTimeout(() => {
+      this.currentTick = this.tick().finally(() => {
+        this.currentTick = null;
+        if (this.running) {
+          this.scheduleNextTick(this.config.relayPollIntervalMs);
+        }
+      });
+    }, delay);
+  }
+
+  private async tick(): Promise<void> {
+    try {
+      let published = 0;
+      do {
+        published = (await OutboxService.relay(this.config.relayBatchSize)).length;
+        if (published > 0) {
+          // Local SSE clients need not wait for the next stream poll
+          accountEventStream.poll();
+        }
+      } while (this.running && published === this.config.relayBatchSize);
+    } catch (error) {
+      console.error('Outbox relay error:', error);
+    }
+  }
+}
+
+export const outboxRelay = new OutboxRelay();
+
+export { OutboxRelay };
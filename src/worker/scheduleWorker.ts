@@ -0,0 +1,84 @@
+import { hostname } from 'os';
+import { randomBytes } from 'crypto';
+import { schedulerConfig, SchedulerConfig } from '../config/scheduler';
+import { ScheduleService } from '../service/scheduleService';
+
+/**
+ * In-process worker that executes due schedules
+ * Polls on a fixed interval; stop() waits for the batch in flight so shutdown never
+ * interrupts a run between moving the money and recording it
+ */
+class ScheduleWorker {
+  private timer: NodeJS.Timeout | null = null;
+  private currentTick: Promise<void> | null = null;
+  private running = false;
+  private readonly workerId: string;
+  private config: SchedulerConfig;
+
+  constructor(config: SchedulerConfig = schedulerConfig) {
+    this.config = config;
+    this.workerId = `${hostname()}:${process.pid}:${randomBytes(4).toString('hex')}`;
+  }
+
+  public start(): void {
+    if (this.running || !this.config.enabled) {
+      return;
+    }
+
+    this.running = true;
+    console.log(`Schedule worker ${this.workerId} started (every ${this.config.pollIntervalMs}ms)`);
+    this.scheduleNextTick(0);
+  }
+
+  public async stop(): Promise<void> {
+    if (!this.running) {
+      return;
+    }
+
+    this.running = false;
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+
+    if (this.currentTick) {
+      await this.currentTick;
+    }
+    console.log('Schedule worker stopped');
+  }
+
+  private scheduleNextTick(delay: number): void {
+    this.timer = setTimeout(() => {
+      this.currentTick = this.tick().finally(() => {
+        this.currentTick = null;
+        if (this.running) {
+          this.scheduleNextTick(this.config.pollIntervalMs);
+        }
+      });
+    }, delay);
+  }
+
+  private async tick(): Promise<void> {
+    try {
+      const due = await ScheduleService.claimDue(this.workerId, this.config.batchSize);
+
+      for (const schedule of due) {
+        if (!this.running) {
+          // Unprocessed claims are picked up again once their lease expires
+          break;
+        }
+
+        const run = await ScheduleService.executeRun(schedule, this.workerId);
+        if (run.status === 'failed') {
+          console.warn(`Schedule ${schedule.schedule_id} run failed: ${run.failure_reason}`);
+        }
+      }
+    } catch (error) {
+      console.error('Schedule worker error:', error);
+    }
+  }
+}
+
+export const scheduleWorker = new ScheduleWorker();
+
+export { ScheduleWorker };
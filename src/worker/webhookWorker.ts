@@ -0,0 +1,86 @@
+import { hostname } from 'os';
+import { randomBytes } from 'crypto';
+import { webhookConfig, WebhookConfig } from '../config/webhooks';
+import { WebhookService } from '../service/webhookService';
+
+/**
+ * In-process worker that sends queued webhook deliveries
+ * Polls on a fixed interval; stop() waits for the batch in flight so an attempt that reached
+ * the receiver is always recorded
+ */
+class WebhookWorker {
+  private timer: NodeJS.Timeout | null = null;
+  private currentTick: Promise<void> | null = null;
+  private running = false;
+  private readonly workerId: string;
+  private config: WebhookConfig;
+
+  constructor(config: WebhookConfig = webhookConfig) {
+    this.config = config;
+    this.workerId = `${hostname()}:${process.pid}:${randomBytes(4).toString('hex')}`;
+  }
+
+  public start(): void {
+    if (this.running || !this.config.enabled) {
+      return;
+    }
+
+    this.running = true;
+    console.log(`Webhook worker ${this.workerId} started (every ${this.config.pollIntervalMs}ms)`);
+    this.scheduleNextTick(0);
+  }
+
+  public async stop(): Promise<void> {
+    if (!this.running) {
+      return;
+    }
+
+    this.running = false;
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+
+    if (this.currentTick) {
+      await this.currentTick;
+    }
+    console.log('Webhook worker stopped');
+  }
+
+  private scheduleNextTick(delay: number): void {
+    this.timer = setTimeout(() => {
+      this.currentTick = this.tick().finally(() => {
+        this.currentTick = null;
+        if (this.running) {
+          this.scheduleNextTick(this.config.pollIntervalMs);
+        }
+      });
+    }, delay);
+  }
+
+  private async tick(): Promise<void> {
+    try {
+      const due = await WebhookService.claimDue(this.workerId, this.config.batchSize);
+
+      for (const delivery of due) {
+        if (!this.running) {
+          // Unsent claims are picked up again once their lease expires
+          break;
+        }
+
+        const attempt = await WebhookService.attempt(delivery);
+        if (!attempt.succeeded) {
+          console.warn(
+            `Webhook delivery ${delivery.delivery_id} attempt failed: ${attempt.error ?? `HTTP ${attempt.response_status}`}`
+          );
+        }
+      }
+    } catch (error) {
+      console.error('Webhook worker error:', error);
+    }
+  }
+}
+
+export const webhookWorker = new WebhookWorker();
+
+export { WebhookWorker };
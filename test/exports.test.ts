@@ -0,0 +1,180 @@
+/**
+ * Statement exports for accounting software, rendered from a statement recorded on the memory
+ * backend with every entry type: the camt.053 document against a schema (with xmllint) and the
+ * MT940 message against the field layout, character set and balance arithmetic.
+ * Validates against the bundled subset of camt.053.001.02, not the official ISO 20022 schema,
+ * unless CAMT053_XSD names the official XSD; the camt.053 check is skipped when xmllint is not installed
+ */
+
+import "./support";
+
+import { after, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { execFileSync, spawnSync } from "child_process";
+import { mkdtempSync, rmSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import path from "path";
+import { v4 as uuidv4 } from "uuid";
+import { Money } from "../src/utils/money";
+import { storage } from "../src/repository";
+import { AccountService } from "../src/service/accountService";
+import { FraudService } from "../src/service/fraudService";
+import { StatementService } from "../src/service/statementService";
+import { TransactionService } from "../src/service/transactionService";
+import { Statement } from "../src/model/statement";
+import { CreateTransactionData } from "../src/model/transaction";
+import { renderCamt053 } from "../src/utils/camt053";
+import { renderMt940 } from "../src/utils/mt940";
+
+const amount = (value: string) => Money.fromDecimal(value);
+
+const SCHEMA = process.env.CAMT053_XSD || path.join(__dirname, "..", "schemas", "camt.053.001.02.subset.xsd");
+
+/**
+ * A statement from StatementService on the memory backend, with an opening balance, a deposit,
+ * both transfer directions, a withdrawal and a reversal, and a holder name that needs escaping
+ */
+async function recordedStatement(): Promise<Statement> {
+  const create = (username: string) => storage.transaction((session) => session.users.create({ username }));
+  const holder = await create(`Alice & Co <Ltd> ${uuidv4().slice(0, 8)}`);
+  const other = await create(`exports_${uuidv4().slice(0, 8)}`);
+  const account = await AccountService.open(holder.id);
+  const counterparty = await AccountService.open(other.id);
+  const submit = (data: CreateTransactionData) => TransactionService.submitTransaction(data);
+
+  await submit({ type: "deposit", amount: amount("500.00"), destination_account_id: account.id });
+  await submit({ type: "deposit", amount: amount("1000.00"), destination_account_id: counterparty.id });
+
+  // Everything before the period start makes up the opening balance
+  await new Promise((resolve) => setTimeout(resolve, 5));
+  const start = new Date();
+
+  await submit({ type: "deposit", amount: amount("250.50"), destination_account_id: account.id });
+  const outgoing = await submit({ type: "transfer", amount: amount("300.00"), source_account_id: account.id, destination_account_id: counterparty.id });
+  await submit({ type: "transfer", amount: amount("42.10"), source_account_id: counterparty.id, destination_account_id: account.id });
+  await submit({ type: "withdrawal", amount: amount("100.00"), source_account_id: account.id });
+  await TransactionService.reverseTransaction(outgoing.transaction_id, {});
+
+  return StatementService.getStatement(account.id, start, new Date(Date.now() + 60 * 1000));
+}
+
+/**
+ * @returns Why the camt.053 document cannot be validated here, or undefined
+ */
+function missingXmllint(): string | undefined {
+  const probe = spawnSync("xmllint", ["--version"], { stdio: "ignore" });
+  return probe.error ? "xmllint is not installed (libxml2-utils on Debian/Ubuntu, libxml2 on Homebrew)" : undefined;
+}
+
+/**
+ * Validate a camt.053 document with xmllint
+ * @returns xmllint's output, empty when the document is valid
+ */
+function camt053SchemaErrors(document: string): string {
+  const directory = mkdtempSync(path.join(tmpdir(), "camt053-"));
+  const file = path.join(directory, "statement.xml");
+
+  try {
+    writeFileSync(file, document);
+    execFileSync("xmllint", ["--noout", "--schema", SCHEMA, file], { stdio: "pipe" });
+    return "";
+  } catch (error) {
+    return (error as { stderr?: Buffer }).stderr?.toString() || (error as Error).message;
+  } finally {
+    rmSync(directory, { recursive: true, force: true });
+  }
+}
+
+/**
+ * Check MT940 syntax and that opening balance plus every :61: amount equals the closing balance
+ * @returns Every problem found
+ */
+function mt940Errors(statement: Statement, message: string): string[] {
+  const lines = message.split("\r\n").slice(0, -1);
+  const errors: string[] = [];
+
+  lines.forEach((line, index) => {
+    if (line.length > 65) {
+      errors.push(`line ${index + 1} is longer than 65 characters`);
+    }
+    if (/[^A-Za-z0-9/\-?:().,'+ ]/.test(line)) {
+      errors.push(`line ${index + 1} has characters outside the SWIFT X set`);
+    }
+  });
+
+  const tags = lines.filter((line) => /^:\d\d[A-Z]?:/.test(line)).map((line) => line.split(":")[1]);
+  const expected = ["20", "25", "28C", "60F", ...statement.lines.flatMap(() => ["61", "86"]), "62F"];
+  if (tags.join(",") !== expected.join(",")) {
+    errors.push(`unexpected field order ${tags.join(",")}`);
+  }
+  if (lines[lines.length - 1] !== "-") {
+    errors.push("message does not end with '-'");
+  }
+
+  const parseBalance = (field: string) => {
+    const match = /^:6[02]F:([CD])\d{6}[A-Z]{3}(\d+,\d{0,2})$/.exec(field);
+    if (!match) {
+      errors.push(`malformed balance ${field}`);
+      return Money.ZERO;
+    }
+    const amount = Money.fromDecimal(match[2].replace(",", "."));
+    return match[1] === "D" ? amount.negate() : amount;
+  };
+
+  let total = parseBalance(lines.find((line) => line.startsWith(":60F:")) ?? "");
+  for (const field of lines.filter((line) => line.startsWith(":61:"))) {
+    const match = /^:61:\d{6}\d{4}(R?)([CD])(\d+,\d{0,2})N[A-Z]{3}NONREF\/\/\S{1,16}$/.exec(field);
+    if (!match) {
+      errors.push(`malformed statement line ${field}`);
+      continue;
+    }
+    const amount = Money.fromDecimal(match[3].replace(",", "."));
+    total = total.add(match[2] === "D" ? amount.negate() : amount);
+  }
+
+  const closing = parseBalance(lines.find((line) => line.startsWith(":62F:")) ?? "");
+  if (!total.equals(closing)) {
+    errors.push(`entries add up to ${total.toString()}, closing balance is ${closing.toString()}`);
+  }
+
+  return errors;
+}
+
+describe("statement exports", () => {
+  let statement: Statement;
+
+  before(async () => {
+    await storage.initialize("memory");
+    FraudService.setRules([]);
+    statement = await recordedStatement();
+  });
+
+  after(async () => {
+    await storage.close();
+  });
+
+  it("records every entry type in the statement", () => {
+    assert.deepEqual(statement.lines.map((line) => line.type), ["deposit", "transfer", "transfer", "withdrawal", "reversal"]);
+    assert.equal(statement.opening_balance.toString(), "500.00");
+    assert.equal(statement.closing_balance.toString(), "692.60");
+  });
+
+  const schemaName = process.env.CAMT053_XSD
+    ? path.basename(SCHEMA)
+    : `the local ${path.basename(SCHEMA)}, a subset of the official schema`;
+
+  it(`renders camt.053 valid against ${schemaName}`, (t) => {
+    const skipReason = missingXmllint();
+    if (skipReason) {
+      t.skip(skipReason);
+      return;
+    }
+
+    const document = renderCamt053(statement, "EUR", new Date());
+    assert.equal(camt053SchemaErrors(document), "");
+  });
+
+  it("renders MT940 that follows the field layout and adds up", () => {
+    assert.deepEqual(mt940Errors(statement, renderMt940(statement, "EUR")), []);
+  });
+});
@@ -0,0 +1,196 @@
+/**
+ * Idempotency-Key handling on the memory backend: IdempotencyService with TransactionService, and
+ * the replay and conflict responses of TransactionController.respondIdempotently through the API
+ */
+
+import "./support";
+
+import { after, before, beforeEach, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { AddressInfo } from "node:net";
+import { Server } from "node:http";
+import { v4 as uuidv4 } from "uuid";
+import app from "../src/app";
+import { Money } from "../src/utils/money";
+import { storage } from "../src/repository";
+import { idempotencyConfig } from "../src/config/idempotency";
+import { AccountService } from "../src/service/accountService";
+import { ApiKeyService } from "../src/service/apiKeyService";
+import { FraudService } from "../src/service/fraudService";
+import { IdempotencyService } from "../src/service/idempotencyService";
+import { TransactionService } from "../src/service/transactionService";
+import { Account } from "../src/model/account";
+import { IdempotencyContext } from "../src/model/idempotency";
+import { Transaction } from "../src/model/transaction";
+
+const amount = (value: string) => Money.fromDecimal(value);
+const PATH = "/api/transactions";
+
+async function createCustomer(): Promise<number> {
+  const user = await storage.transaction((session) =>
+    session.users.create({ username: `idempotency_${uuidv4().slice(0, 8)}` })
+  );
+  return user.id;
+}
+
+async function balanceOf(accountId: number): Promise<string> {
+  return (await TransactionService.getAccountBalance(accountId)).balance.toString();
+}
+
+function contextFor(userId: number, body: unknown, key: string = uuidv4()): IdempotencyContext {
+  return { user_id: userId, key, fingerprint: IdempotencyService.fingerprint("POST", PATH, body) };
+}
+
+describe("idempotency keys", () => {
+  const ttlSeconds = idempotencyConfig.ttlSeconds;
+  let userId: number;
+  let account: Account;
+
+  before(async () => {
+    await storage.initialize("memory");
+    FraudService.setRules([]);
+  });
+
+  after(async () => {
+    await storage.close();
+  });
+
+  beforeEach(async () => {
+    idempotencyConfig.ttlSeconds = ttlSeconds;
+    userId = await createCustomer();
+    account = await AccountService.open(userId);
+  });
+
+  it("fingerprints equivalent bodies alike, whatever their key order", () => {
+    assert.equal(
+      IdempotencyService.fingerprint("post", PATH, { type: "deposit", amount: "1.00", meta: { a: 1, b: 2 } }),
+      IdempotencyService.fingerprint("POST", PATH, { meta: { b: 2, a: 1 }, amount: "1.00", type: "deposit" })
+    );
+    assert.notEqual(
+      IdempotencyService.fingerprint("POST", PATH, { amount: "1.00" }),
+      IdempotencyService.fingerprint("POST", `${PATH}/batch`, { amount: "1.00" })
+    );
+  });
+
+  it("stores the response so the same body replays it", async () => {
+    const body = { type: "deposit", amount: "5.00", destination_account_id: account.id };
+    const context = contextFor(userId, body);
+
+    const transaction = await TransactionService.submitTransaction(
+      { type: "deposit", amount: amount("5.00"), destination_account_id: account.id },
+      context
+    );
+    const stored = await IdempotencyService.findResponse(context);
+
+    assert.equal(stored?.status, 201);
+    assert.equal((stored?.body as Transaction).transaction_id, transaction.transaction_id);
+    assert.equal(await balanceOf(account.id), "5.00");
+  });
+
+  it("refuses the key for a different body", async () => {
+    const key = uuidv4();
+    await TransactionService.submitTransaction(
+      { type: "deposit", amount: amount("5.00"), destination_account_id: account.id },
+      contextFor(userId, { type: "deposit", amount: "5.00", destination_account_id: account.id }, key)
+    );
+
+    await assert.rejects(
+      IdempotencyService.findResponse(contextFor(userId, { type: "deposit", amount: "6.00", destination_account_id: account.id }, key)),
+      { message: "Idempotency key already used with a different request" }
+    );
+  });
+
+  it("lets only one of two concurrent claims move money", async () => {
+    const context = contextFor(userId, { type: "deposit", amount: "5.00", destination_account_id: account.id });
+    const data = { type: "deposit" as const, amount: amount("5.00"), destination_account_id: account.id };
+
+    const results = await Promise.allSettled([
+      TransactionService.submitTransaction(data, context),
+      TransactionService.submitTransaction(data, context),
+    ]);
+
+    assert.equal(results.filter((result) => result.status === "fulfilled").length, 1);
+    const rejected = results.find((result) => result.status === "rejected") as PromiseRejectedResult;
+    assert.equal(rejected.reason.message, "Idempotency key is already in use");
+    assert.equal(await balanceOf(account.id), "5.00");
+  });
+
+  it("frees the key once it expires", async () => {
+    idempotencyConfig.ttlSeconds = 0;
+    const key = uuidv4();
+    const first = contextFor(userId, { type: "deposit", amount: "5.00", destination_account_id: account.id }, key);
+    await TransactionService.submitTransaction({ type: "deposit", amount: amount("5.00"), destination_account_id: account.id }, first);
+
+    assert.equal(await IdempotencyService.findResponse(first), null);
+
+    // An expired key may be reused, even for a different body
+    const second = contextFor(userId, { type: "deposit", amount: "6.00", destination_account_id: account.id }, key);
+    await TransactionService.submitTransaction({ type: "deposit", amount: amount("6.00"), destination_account_id: account.id }, second);
+    assert.equal(await balanceOf(account.id), "11.00");
+  });
+
+  describe("through the API", () => {
+    let server: Server;
+    let secret: string;
+
+    before(async () => {
+      server = app.listen(0, "127.0.0.1");
+      await new Promise((resolve) => server.once("listening", resolve));
+    });
+
+    after(async () => {
+      await new Promise((resolve) => server.close(resolve));
+    });
+
+    beforeEach(async () => {
+      secret = (await ApiKeyService.create(userId, { label: "idempotency test" })).secret;
+    });
+
+    const post = (key: string, body: unknown) =>
+      fetch(`http://127.0.0.1:${(server.address() as AddressInfo).port}${PATH}`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json", "X-Secret-Key": secret, "Idempotency-Key": key },
+        body: JSON.stringify(body),
+      });
+
+    const payload = async (response: Response) =>
+      (await response.json()) as { error?: string; data: { transaction_id: string } };
+
+    it("replays the response to a repeated request", async () => {
+      const key = uuidv4();
+      const body = { type: "deposit", amount: "5.00", destination_account_id: account.id };
+
+      const first = await post(key, body);
+      const second = await post(key, body);
+
+      assert.equal(first.status, 201);
+      assert.equal(second.status, 201);
+      assert.equal(second.headers.get("Idempotent-Replayed"), "true");
+      assert.equal((await payload(second)).data.transaction_id, (await payload(first)).data.transaction_id);
+      assert.equal(await balanceOf(account.id), "5.00");
+    });
+
+    it("answers 409 when the key is reused with a different body", async () => {
+      const key = uuidv4();
+      await post(key, { type: "deposit", amount: "5.00", destination_account_id: account.id });
+
+      const conflict = await post(key, { type: "deposit", amount: "7.00", destination_account_id: account.id });
+
+      assert.equal(conflict.status, 409);
+      assert.equal((await payload(conflict)).error, "IDEMPOTENCY_KEY_MISMATCH");
+      assert.equal(await balanceOf(account.id), "5.00");
+    });
+
+    it("replays to the loser of a concurrent claim", async () => {
+      const key = uuidv4();
+      const body = { type: "deposit", amount: "5.00", destination_account_id: account.id };
+
+      const responses = await Promise.all([post(key, body), post(key, body)]);
+      const payloads = await Promise.all(responses.map(payload));
+
+      assert.deepEqual(responses.map((response) => response.status), [201, 201]);
+      assert.equal(payloads[0].data.transaction_id, payloads[1].data.transaction_id);
+      assert.equal(await balanceOf(account.id), "5.00");
+    });
+  });
+});
@@ -0,0 +1,107 @@
+/**
+ * Money parsing, formatting and range checks, and the amount rules of the request schemas
+ */
+
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { Money, MAX_MINOR_UNITS } from "../src/utils/money";
+import { schemas } from "../src/middleware/validation";
+
+describe("Money", () => {
+  it("parses decimal strings and numbers exactly", () => {
+    assert.equal(Money.fromDecimal("12.5").minorUnits, 1250);
+    assert.equal(Money.fromDecimal(" 0.07 ").minorUnits, 7);
+    assert.equal(Money.fromDecimal(19.99).minorUnits, 1999);
+    assert.equal(Money.fromDecimal("-3").minorUnits, -300);
+  });
+
+  it("rejects more than 2 decimal places instead of rounding", () => {
+    assert.throws(() => Money.fromDecimal("1.005"), { message: "Amount must have at most 2 decimal places" });
+    assert.throws(() => Money.fromDecimal("1.000"), { message: "Amount must have at most 2 decimal places" });
+    assert.throws(() => Money.fromDecimal(0.1 + 0.2), { message: "Amount must have at most 2 decimal places" });
+    assert.throws(() => Money.fromDecimal(0.07 * 100), { message: "Amount must have at most 2 decimal places" });
+  });
+
+  it("rejects anything that is not a plain decimal", () => {
+    for (const value of ["", "abc", "1e3", ".5", "12.", "+1", "1,000.00", "NaN", "Infinity"]) {
+      assert.throws(() => Money.fromDecimal(value), { message: "Amount must be a decimal number" }, value);
+    }
+    assert.throws(() => Money.fromDecimal(1e21), { message: "Amount must be a decimal number" });
+  });
+
+  it("treats negative zero as zero", () => {
+    for (const value of ["-0", "-0.00", -0]) {
+      const zero = Money.fromDecimal(value);
+      assert.ok(zero.isZero());
+      assert.ok(!zero.isNegative());
+      assert.equal(zero.toString(), "0.00");
+    }
+    assert.equal(Money.ZERO.negate().toString(), "0.00");
+  });
+
+  it("holds 9999999999999.99 and nothing beyond it", () => {
+    assert.equal(Money.fromDecimal("9999999999999.99").minorUnits, MAX_MINOR_UNITS);
+    assert.equal(Money.fromDecimal(9999999999999.99).minorUnits, MAX_MINOR_UNITS);
+    assert.equal(Money.fromDecimal("-9999999999999.99").minorUnits, -MAX_MINOR_UNITS);
+    assert.throws(() => Money.fromDecimal("10000000000000.00"), { message: "Amount exceeds the maximum of 9999999999999.99" });
+    assert.throws(() => Money.fromDecimal("-10000000000000"), { message: "Amount exceeds the maximum of 9999999999999.99" });
+
+    assert.throws(() => Money.fromMinorUnits(MAX_MINOR_UNITS + 1), { message: "Amount is out of range" });
+    assert.throws(() => Money.fromMinorUnits(1.5), { message: "Amount is out of range" });
+    const max = Money.fromMinorUnits(MAX_MINOR_UNITS);
+    assert.throws(() => max.add(Money.fromDecimal("0.01")), { message: "Amount is out of range" });
+    assert.equal(max.subtract(max).toString(), "0.00");
+  });
+
+  it("formats with exactly 2 decimal places and serializes to a JSON string", () => {
+    assert.equal(Money.fromDecimal("1250.5").toString(), "1250.50");
+    assert.equal(Money.fromDecimal("-0.05").toString(), "-0.05");
+    assert.equal(Money.fromDecimal("7").toString(), "7.00");
+    assert.equal(JSON.stringify({ amount: Money.fromDecimal("12.5") }), '{"amount":"12.50"}');
+    assert.equal(JSON.stringify([Money.fromDecimal("-9999999999999.99")]), '["-9999999999999.99"]');
+  });
+});
+
+describe("money in request schemas", () => {
+  const deposit = (amount: unknown) =>
+    schemas.transaction.validate({ type: "deposit", amount, destination_account_id: 1 });
+
+  it("converts JSON numbers and decimal strings to Money", () => {
+    for (const amount of [12.5, "12.5", "12.50"]) {
+      const { error, value } = deposit(amount);
+      assert.equal(error, undefined);
+      assert.ok(value.amount instanceof Money);
+      assert.equal(value.amount.toString(), "12.50");
+    }
+  });
+
+  it("rejects 3 or more decimals and float artifacts", () => {
+    for (const amount of ["1.005", 1.005, 0.1 + 0.2, "12.345678"]) {
+      assert.match(deposit(amount).error?.message ?? "", /"amount" is invalid: Amount must have at most 2 decimal places/, String(amount));
+    }
+  });
+
+  it("reads negative zero as zero, which positive amounts refuse", () => {
+    for (const amount of [-0, "-0", "-0.00"]) {
+      assert.equal(deposit(amount).value.amount.toString(), "0.00");
+    }
+
+    const hold = (amount: unknown) => schemas.hold.validate({ source_account_id: 1, amount });
+    for (const amount of [0, "0.00", -0, "-0", "-1.00"]) {
+      assert.match(hold(amount).error?.message ?? "", /"amount" must be positive/, String(amount));
+    }
+    assert.equal(hold("0.01").error, undefined);
+  });
+
+  it("accepts 9999999999999.99 and rejects anything larger", () => {
+    assert.equal(deposit("9999999999999.99").error, undefined);
+    assert.match(deposit("10000000000000.00").error?.message ?? "", /Amount exceeds the maximum of 9999999999999\.99/);
+    assert.ok(deposit(1e16).error);
+  });
+
+  it("rejects values that are neither numbers nor strings", () => {
+    for (const amount of [true, null, { value: "1.00" }, ["1.00"]]) {
+      assert.ok(deposit(amount).error, JSON.stringify(amount));
+    }
+  });
+});
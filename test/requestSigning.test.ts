@@ -0,0 +1,195 @@
+/**
+ * Signed requests: the canonical string and HMAC check in utils/requestSigning.ts,
+ * ApiKeyService.authenticateSigned on the memory backend, and the headers scripts/sign-request.ts
+ * prints, sent to the API
+ */
+
+import "./support";
+
+import { after, before, beforeEach, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { execFile } from "node:child_process";
+import { createHash, randomBytes } from "node:crypto";
+import { AddressInfo } from "node:net";
+import { Server } from "node:http";
+import { promisify } from "node:util";
+import { v4 as uuidv4 } from "uuid";
+import app from "../src/app";
+import { storage } from "../src/repository";
+import { signingConfig } from "../src/config/signing";
+import { AccountService } from "../src/service/accountService";
+import { ApiKeyService } from "../src/service/apiKeyService";
+import { parseApiKey } from "../src/utils/apiKey";
+import { canonicalRequest, signRequest, SignedRequestParts, verifyRequestSignature } from "../src/utils/requestSigning";
+import { SignedRequest } from "../src/model/apiKey";
+
+const sha256 = (value: string) => createHash("sha256").update(value).digest("hex");
+
+describe("request signatures", () => {
+  const secret = "test-secret";
+  const parts: SignedRequestParts = {
+    method: "post",
+    path: "/api/transactions?dry_run=1",
+    timestamp: "1700000000",
+    nonce: "nonce-0123456789abcdef",
+    body: '{"amount":"1.00"}',
+  };
+
+  it("signs method, path with query, timestamp, nonce and the body hash, one per line", () => {
+    assert.equal(
+      canonicalRequest(parts),
+      `POST\n/api/transactions?dry_run=1\n1700000000\nnonce-0123456789abcdef\n${sha256('{"amount":"1.00"}')}`
+    );
+    assert.equal(canonicalRequest({ ...parts, body: undefined }), canonicalRequest({ ...parts, body: "" }));
+    assert.equal(canonicalRequest({ ...parts, body: Buffer.from('{"amount":"1.00"}') }), canonicalRequest(parts));
+  });
+
+  it("accepts the signature of the same request only", () => {
+    const signature = signRequest(secret, parts);
+
+    assert.ok(verifyRequestSignature(secret, parts, signature));
+    assert.ok(verifyRequestSignature(secret, { ...parts, method: "POST" }, signature));
+    assert.ok(!verifyRequestSignature("other-secret", parts, signature));
+    assert.ok(!verifyRequestSignature(secret, { ...parts, body: '{"amount":"100.00"}' }, signature));
+    assert.ok(!verifyRequestSignature(secret, { ...parts, path: "/api/transactions" }, signature));
+    assert.ok(!verifyRequestSignature(secret, { ...parts, path: "/api/transactions/batch?dry_run=1" }, signature));
+    assert.ok(!verifyRequestSignature(secret, { ...parts, timestamp: "1700000001" }, signature));
+    assert.ok(!verifyRequestSignature(secret, { ...parts, nonce: "nonce-fedcba9876543210" }, signature));
+    assert.ok(!verifyRequestSignature(secret, parts, signature.slice(0, -2)));
+    assert.ok(!verifyRequestSignature(secret, parts, "not hex"));
+  });
+});
+
+describe("signed authentication", () => {
+  const encryptionKey = signingConfig.encryptionKey;
+  let userId: number;
+  let token: string;
+
+  before(async () => {
+    signingConfig.encryptionKey = randomBytes(32);
+    await storage.initialize("memory");
+  });
+
+  after(async () => {
+    await storage.close();
+    signingConfig.encryptionKey = encryptionKey;
+  });
+
+  beforeEach(async () => {
+    const user = await storage.transaction((session) =>
+      session.users.create({ username: `signing_${uuidv4().slice(0, 8)}` })
+    );
+    userId = user.id;
+    token = (await ApiKeyService.create(userId, { label: "signing test" })).secret;
+  });
+
+  /**
+   * Sign a request as a client would, now unless a timestamp is given
+   */
+  function signed(parts: Omit<SignedRequestParts, "timestamp" | "nonce"> & { timestamp?: string }): SignedRequest {
+    const { keyId, secret } = parseApiKey(token);
+    const request = {
+      ...parts,
+      timestamp: parts.timestamp ?? String(Math.floor(Date.now() / 1000)),
+      nonce: randomBytes(16).toString("hex"),
+      body: parts.body === undefined ? undefined : Buffer.from(parts.body),
+    };
+    return { ...request, key_id: keyId, signature: signRequest(secret, request) };
+  }
+
+  it("resolves a correctly signed request to its user", async () => {
+    const request = signed({ method: "POST", path: "/api/transactions?dry_run=1", body: '{"amount":"1.00"}' });
+
+    const authenticated = await ApiKeyService.authenticateSigned(request);
+
+    assert.equal(authenticated?.user.id, userId);
+    assert.equal(authenticated?.apiKey.key_id, request.key_id);
+  });
+
+  it("refuses a tampered body or a different path", async () => {
+    const request = signed({ method: "POST", path: "/api/transactions?dry_run=1", body: '{"amount":"1.00"}' });
+
+    assert.equal(await ApiKeyService.authenticateSigned({ ...request, body: Buffer.from('{"amount":"9.00"}') }), null);
+    assert.equal(await ApiKeyService.authenticateSigned({ ...request, path: "/api/transactions" }), null);
+    assert.equal(await ApiKeyService.authenticateSigned({ ...request, path: "/api/holds?dry_run=1" }), null);
+    assert.equal(await ApiKeyService.authenticateSigned({ ...request, method: "PUT" }), null);
+  });
+
+  it("refuses timestamps outside the allowed clock skew", async () => {
+    const now = Math.floor(Date.now() / 1000);
+
+    for (const timestamp of [now - signingConfig.maxClockSkewSeconds - 5, now + signingConfig.maxClockSkewSeconds + 5]) {
+      await assert.rejects(
+        ApiKeyService.authenticateSigned(signed({ method: "GET", path: "/api/accounts", timestamp: String(timestamp) })),
+        { message: "Request timestamp is outside the allowed window" }
+      );
+    }
+    await assert.rejects(
+      ApiKeyService.authenticateSigned(signed({ method: "GET", path: "/api/accounts", timestamp: "soon" })),
+      { message: "Request timestamp is outside the allowed window" }
+    );
+  });
+
+  it("accepts each nonce once", async () => {
+    const request = signed({ method: "GET", path: "/api/accounts" });
+
+    assert.notEqual(await ApiKeyService.authenticateSigned(request), null);
+    await assert.rejects(ApiKeyService.authenticateSigned(request), { message: "Request nonce has already been used" });
+  });
+
+  it("does not spend the nonce of a request with a bad signature", async () => {
+    const request = signed({ method: "GET", path: "/api/accounts" });
+
+    assert.equal(await ApiKeyService.authenticateSigned({ ...request, signature: "00".repeat(32) }), null);
+    assert.notEqual(await ApiKeyService.authenticateSigned(request), null);
+  });
+
+  describe("through the API", () => {
+    let server: Server;
+    let path: string;
+
+    before(async () => {
+      server = app.listen(0, "127.0.0.1");
+      await new Promise((resolve) => server.once("listening", resolve));
+    });
+
+    after(async () => {
+      await new Promise((resolve) => server.close(resolve));
+    });
+
+    beforeEach(async () => {
+      const account = await AccountService.open(userId);
+      path = `/api/accounts/${account.id}/transactions?limit=1`;
+    });
+
+    const send = (requestPath: string, headers: Record<string, string>) =>
+      fetch(`http://127.0.0.1:${(server.address() as AddressInfo).port}${requestPath}`, { headers });
+
+    /**
+     * Run scripts/sign-request.ts and read back the headers it prints
+     */
+    async function scriptHeaders(method: string, signedPath: string): Promise<Record<string, string>> {
+      const { stdout } = await promisify(execFile)(
+        process.execPath,
+        ["--require", "ts-node/register", "scripts/sign-request.ts", token, method, signedPath],
+        { timeout: 60000 }
+      );
+      return Object.fromEntries(
+        stdout.split("\n\n")[0].split("\n").map((line) => line.split(": ") as [string, string])
+      );
+    }
+
+    it("verifies the path with its query string, as sign-request.ts signs it", async () => {
+      const response = await send(path, await scriptHeaders("GET", path));
+
+      assert.equal(response.status, 200);
+    });
+
+    it("refuses a signature made without the query string", async () => {
+      const response = await send(path, await scriptHeaders("GET", path.split("?")[0]));
+
+      assert.equal(response.status, 401);
+      assert.equal(((await response.json()) as { message: string }).message, "Invalid request signature");
+    });
+  });
+});
@@ -0,0 +1,188 @@
+/**
+ * Standing order dates: ScheduleService.nextOccurrence (with the month clamping of addMonths), and
+ * the schedule worker's catch-up and end_at handling on the memory backend
+ */
+
+import "./support";
+
+import { after, before, beforeEach, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { v4 as uuidv4 } from "uuid";
+import { Money } from "../src/utils/money";
+import { storage } from "../src/repository";
+import { AccountService } from "../src/service/accountService";
+import { FraudService } from "../src/service/fraudService";
+import { ScheduleService } from "../src/service/scheduleService";
+import { TransactionService } from "../src/service/transactionService";
+import { Account } from "../src/model/account";
+import { CreateScheduleData, Schedule, ScheduleFrequency } from "../src/model/schedule";
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+const utc = (value: string) => new Date(`${value}Z`);
+
+/**
+ * The first occurrences of a schedule, each one strictly after the previous
+ */
+function occurrences(startAt: Date, frequency: ScheduleFrequency, count: number): string[] {
+  const dates: string[] = [];
+  let previous = new Date(startAt.getTime() - 1);
+  for (let index = 0; index < count; index++) {
+    const next = ScheduleService.nextOccurrence(startAt, frequency, previous)!;
+    dates.push(next.toISOString());
+    previous = next;
+  }
+  return dates;
+}
+
+describe("schedule occurrences", () => {
+  it("clamps the 31st to the end of shorter months and returns to the 31st", () => {
+    assert.deepEqual(occurrences(utc("2025-01-31T09:30:00"), "monthly", 6), [
+      "2025-01-31T09:30:00.000Z",
+      "2025-02-28T09:30:00.000Z",
+      "2025-03-31T09:30:00.000Z",
+      "2025-04-30T09:30:00.000Z",
+      "2025-05-31T09:30:00.000Z",
+      "2025-06-30T09:30:00.000Z",
+    ]);
+  });
+
+  it("lands on February 29 in leap years", () => {
+    assert.deepEqual(occurrences(utc("2023-12-31T00:00:00"), "monthly", 4), [
+      "2023-12-31T00:00:00.000Z",
+      "2024-01-31T00:00:00.000Z",
+      "2024-02-29T00:00:00.000Z",
+      "2024-03-31T00:00:00.000Z",
+    ]);
+    assert.equal(
+      ScheduleService.nextOccurrence(utc("2024-01-30T00:00:00"), "monthly", utc("2024-01-30T00:00:00"))!.toISOString(),
+      "2024-02-29T00:00:00.000Z"
+    );
+  });
+
+  it("keeps the start day after a clamped month far in the future", () => {
+    const next = ScheduleService.nextOccurrence(utc("2025-01-31T00:00:00"), "monthly", utc("2027-02-28T00:00:00"));
+    assert.equal(next!.toISOString(), "2027-03-31T00:00:00.000Z");
+  });
+
+  it("returns the start until it has passed, and nothing after a one-off", () => {
+    const startAt = utc("2025-03-01T12:00:00");
+
+    for (const frequency of ["once", "daily", "weekly", "monthly"] as const) {
+      assert.equal(ScheduleService.nextOccurrence(startAt, frequency, utc("2025-02-01T00:00:00")), startAt);
+    }
+    assert.equal(ScheduleService.nextOccurrence(startAt, "once", startAt), null);
+  });
+
+  it("catches daily and weekly schedules up to the first occurrence after downtime", () => {
+    const startAt = utc("2025-01-01T09:00:00");
+
+    assert.equal(ScheduleService.nextOccurrence(startAt, "daily", utc("2025-01-10T12:00:00"))!.toISOString(), "2025-01-11T09:00:00.000Z");
+    assert.equal(ScheduleService.nextOccurrence(startAt, "daily", utc("2025-01-10T09:00:00"))!.toISOString(), "2025-01-11T09:00:00.000Z");
+    assert.equal(ScheduleService.nextOccurrence(startAt, "weekly", utc("2025-02-01T00:00:00"))!.toISOString(), "2025-02-05T09:00:00.000Z");
+    assert.equal(ScheduleService.nextOccurrence(startAt, "weekly", utc("2025-01-08T09:00:00"))!.toISOString(), "2025-01-15T09:00:00.000Z");
+  });
+});
+
+describe("schedule runs", () => {
+  let userId: number;
+  let source: Account;
+  let destination: Account;
+
+  before(async () => {
+    await storage.initialize("memory");
+    FraudService.setRules([]);
+  });
+
+  after(async () => {
+    await storage.close();
+  });
+
+  beforeEach(async () => {
+    const user = await storage.transaction((session) =>
+      session.users.create({ username: `schedules_${uuidv4().slice(0, 8)}` })
+    );
+    userId = user.id;
+    source = await AccountService.open(userId);
+    destination = await AccountService.open(userId);
+    await TransactionService.submitTransaction({ type: "deposit", amount: Money.fromDecimal("100.00"), destination_account_id: source.id });
+  });
+
+  async function create(data: Omit<CreateScheduleData, "source_account_id" | "destination_account_id" | "amount">): Promise<Schedule> {
+    return ScheduleService.create(userId, {
+      ...data,
+      source_account_id: source.id,
+      destination_account_id: destination.id,
+      amount: Money.fromDecimal("1.00"),
+    });
+  }
+
+  /**
+   * Claim the schedule the way the worker does and execute its due occurrence
+   */
+  async function runDue(schedule: Schedule): Promise<Schedule> {
+    const claimed = (await ScheduleService.claimDue("test-worker", 10)).find((due) => due.id === schedule.id);
+    assert.ok(claimed, "the schedule is due");
+    await ScheduleService.executeRun(claimed, "test-worker");
+    return (await ScheduleService.findByScheduleId(schedule.schedule_id))!;
+  }
+
+  async function balanceOf(account: Account): Promise<string> {
+    return (await TransactionService.getAccountBalance(account.id)).balance.toString();
+  }
+
+  for (const [frequency, step] of [["daily", DAY_MS], ["weekly", 7 * DAY_MS]] as const) {
+    it(`runs a ${frequency} schedule once after downtime and skips the missed occurrences`, async () => {
+      const startAt = new Date(Date.now() - 10 * step - HOUR_MS);
+      const schedule = await create({ frequency, start_at: startAt });
+
+      const ran = await runDue(schedule);
+
+      assert.equal(ran.status, "active");
+      assert.equal(ran.run_count, 1);
+      assert.equal(await balanceOf(destination), "1.00");
+      const expected = startAt.getTime() + 11 * step;
+      assert.equal(ran.next_run_at!.getTime(), expected);
+      assert.ok(ran.next_run_at! > new Date());
+
+      const runs = await ScheduleService.listRuns(ran);
+      assert.deepEqual(runs.map((run) => [run.status, run.scheduled_for.getTime()]), [["completed", startAt.getTime()]]);
+      assert.deepEqual((await ScheduleService.claimDue("test-worker", 10)).filter((due) => due.id === schedule.id), []);
+    });
+  }
+
+  it("completes a schedule whose next occurrence falls after end_at", async () => {
+    const startAt = new Date(Date.now() - 3 * DAY_MS);
+    const schedule = await create({ frequency: "daily", start_at: startAt, end_at: new Date(Date.now() - DAY_MS) });
+
+    const ran = await runDue(schedule);
+
+    assert.equal(ran.status, "completed");
+    assert.equal(ran.next_run_at ?? null, null);
+    assert.equal(ran.run_count, 1);
+    assert.equal(await balanceOf(destination), "1.00");
+  });
+
+  it("keeps an occurrence that falls exactly on end_at", async () => {
+    const startAt = new Date(Date.now() - HOUR_MS);
+    const endAt = new Date(startAt.getTime() + DAY_MS);
+    const schedule = await create({ frequency: "daily", start_at: startAt, end_at: endAt });
+
+    const ran = await runDue(schedule);
+
+    assert.equal(ran.status, "active");
+    assert.equal(ran.next_run_at!.getTime(), endAt.getTime());
+  });
+
+  it("resumes from the next occurrence that is not in the past", async () => {
+    const startAt = new Date(Date.now() - 5 * DAY_MS - HOUR_MS);
+    const schedule = await create({ frequency: "daily", start_at: startAt });
+
+    await ScheduleService.pause(schedule.schedule_id);
+    const resumed = await ScheduleService.resume(schedule.schedule_id);
+
+    assert.equal(resumed.status, "active");
+    assert.equal(resumed.next_run_at!.getTime(), startAt.getTime() + 6 * DAY_MS);
+  });
+});
@@ -0,0 +1,322 @@
+/**
+ * Storage contract - the same checks against every storage backend
+ * Each backend must give the repositories in src/repository/repositories.ts the same semantics:
+ * lookups, constraint errors, journal entries, rollback, history and reports.
+ * Backends that cannot run here (no MySQL server, Node.js without node:sqlite) are skipped
+ */
+
+import { connectMySql, removeMySqlFixtures, unsupportedBackend } from "./support";
+
+import { after, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { v4 as uuidv4 } from "uuid";
+import { db } from "../src/utils/database";
+import { Money } from "../src/utils/money";
+import { storage, NewTransaction } from "../src/repository";
+import { StorageBackend } from "../src/config/storage";
+import { AccountService } from "../src/service/accountService";
+import { TransactionService } from "../src/service/transactionService";
+import { UserService } from "../src/service/userService";
+import { FraudService } from "../src/service/fraudService";
+import { AuditService } from "../src/service/auditService";
+import { LedgerService } from "../src/service/ledgerService";
+import { Account } from "../src/model/account";
+import { CreateTransactionData } from "../src/model/transaction";
+
+const BACKENDS: StorageBackend[] = ["mysql", "sqlite", "memory"];
+
+type Movement = Omit<NewTransaction, "transaction_id">;
+
+const amount = (value: string) => Money.fromDecimal(value);
+const format = (values: Money[]) => values.map((value) => value.toString());
+
+async function createUser(): Promise<number> {
+  const user = await storage.transaction((session) =>
+    session.users.create({ username: `contract_${uuidv4().slice(0, 8)}` })
+  );
+  return user.id;
+}
+
+async function openAccount(userId: number): Promise<Account> {
+  const digits = String(Math.floor(Math.random() * 1e12)).padStart(12, "0");
+  return storage.transaction((session) => session.accounts.create({ user_id: userId, account_number: `ACC${digits}` }));
+}
+
+/**
+ * Move money through TransactionService, which records the transaction and its journal entry
+ * @returns The transaction ID
+ */
+async function move(data: CreateTransactionData): Promise<string> {
+  return (await TransactionService.submitTransaction(data)).transaction_id;
+}
+
+/**
+ * Record a transaction that moved no money: held for review or failed
+ * @returns The transaction ID
+ */
+async function record(movement: Movement): Promise<string> {
+  const transactionId = uuidv4();
+  await storage.transaction((session) => session.transactions.insert({ ...movement, transaction_id: transactionId }));
+  return transactionId;
+}
+
+async function balanceOf(accountId: number): Promise<Money> {
+  return (await storage.repositories().accounts.getBalance(accountId))!.balance;
+}
+
+for (const backend of BACKENDS) {
+  describe(`${backend} storage`, () => {
+    let skipReason = unsupportedBackend(backend);
+
+    before(async () => {
+      if (!skipReason && backend === "mysql") {
+        skipReason = await connectMySql();
+      }
+      if (!skipReason) {
+        await storage.initialize(backend);
+        FraudService.setRules([]);
+      }
+    });
+
+    after(async () => {
+      if (!skipReason) {
+        await storage.close();
+        if (backend === "mysql") {
+          await removeMySqlFixtures("contract_");
+          await db.close();
+        }
+      }
+    });
+
+    if (backend === "sqlite" && skipReason) {
+      it("refuses to start without node:sqlite", async () => {
+        await assert.rejects(storage.initialize("sqlite"), { message: /needs Node\.js 22\.5 or later/ });
+      });
+    }
+
+    // Checks report the reason as skipped when the backend cannot run here
+    const check = (name: string, run: () => Promise<void>) =>
+      it(name, async (t) => {
+        if (skipReason) {
+          t.skip(skipReason);
+          return;
+        }
+        await run();
+      });
+
+    check("creates, finds and changes users", async () => {
+      const userId = await createUser();
+      const users = storage.repositories().users;
+
+      const user = await users.findById(userId);
+      assert.equal(user?.role, "customer");
+      assert.equal(user?.kyc_tier, "basic");
+
+      await users.update(userId, { role: "support", kyc_tier: "verified" });
+      const changed = await users.findById(userId);
+      assert.equal(changed?.role, "support");
+      assert.equal(changed?.kyc_tier, "verified");
+
+      await assert.rejects(users.update(userId, { kyc_tier: "platinum" }), { message: "KYC tier does not exist" });
+      await assert.rejects(users.create({ username: user!.username }), { message: "Username already exists" });
+      await assert.rejects(users.create({ username: `contract_${uuidv4().slice(0, 8)}`, kyc_tier: "platinum" }), { message: "KYC tier does not exist" });
+      assert.equal(await users.findById(-1), null);
+    });
+
+    check("opens accounts with a zero balance", async () => {
+      const userId = await createUser();
+      const first = await openAccount(userId);
+      const second = await openAccount(userId);
+      const accounts = storage.repositories().accounts;
+
+      assert.equal(first.balance.toString(), "0.00");
+      assert.equal(first.status, "active");
+      assert.equal((await accounts.findById(first.id))?.account_number, first.account_number);
+      assert.equal((await accounts.findByAccountNumber(second.account_number))?.id, second.id);
+      assert.deepEqual((await accounts.listForUser(userId)).map((account) => account.id), [first.id, second.id]);
+      assert.deepEqual(format(Object.values((await accounts.getBalance(first.id))!)), ["0.00", "0.00"]);
+      assert.equal(await accounts.findById(-1), null);
+      assert.equal(await accounts.getBalance(-1), null);
+
+      await assert.rejects(
+        storage.transaction((session) => session.accounts.create({ user_id: userId, account_number: first.account_number })),
+        { message: "Account number already exists" }
+      );
+      await assert.rejects(
+        storage.transaction((session) => session.accounts.create({ user_id: -1, account_number: "ACC000000000000" })),
+        { message: "User does not exist" }
+      );
+
+      await accounts.update(first.id, { status: "frozen", frozen_by: userId });
+      const frozen = await accounts.findById(first.id);
+      assert.equal(frozen?.status, "frozen");
+      assert.equal(frozen?.frozen_by, userId);
+    });
+
+    check("records transactions and links batch legs", async () => {
+      const userId = await createUser();
+      const account = await openAccount(userId);
+      const batchId = uuidv4();
+
+      const held = await record({ type: "deposit", amount: amount("4.00"), destination_account_id: account.id, batch_id: batchId, status: "pending_review", failure_reason: "Large deposit" });
+      const failed = await record({ type: "withdrawal", amount: amount("9.00"), source_account_id: account.id, batch_id: batchId, status: "failed", failure_reason: "Insufficient funds" });
+
+      const transactions = storage.repositories().transactions;
+      const stored = await transactions.findByTransactionId(held);
+      assert.equal(stored?.status, "pending_review");
+      assert.equal(stored?.amount.toString(), "4.00");
+      assert.equal(stored?.reversed_amount.toString(), "0.00");
+      assert.equal(stored?.failure_reason, "Large deposit");
+
+      await transactions.update(held, { status: "failed", failure_reason: "Rejected in review" });
+      assert.equal((await transactions.findByTransactionId(held))?.failure_reason, "Rejected in review");
+      assert.deepEqual((await transactions.findByBatchId(batchId)).map((leg) => leg.transaction_id), [held, failed]);
+      assert.deepEqual(await transactions.findByBatchId(uuidv4()), []);
+      assert.equal(await transactions.findByTransactionId(uuidv4()), null);
+      assert.equal((await balanceOf(account.id)).toString(), "0.00");
+    });
+
+    check("applies journal entries to exact balances", async () => {
+      const userId = await createUser();
+      const source = await openAccount(userId);
+      const destination = await openAccount(userId);
+
+      await move({ type: "deposit", amount: amount("100.10"), destination_account_id: source.id });
+      await move({ type: "withdrawal", amount: amount("30.05"), source_account_id: source.id });
+      await move({ type: "transfer", amount: amount("20.02"), source_account_id: source.id, destination_account_id: destination.id });
+
+      assert.equal((await balanceOf(source.id)).toString(), "50.03");
+      assert.equal((await balanceOf(destination.id)).toString(), "20.02");
+
+      await assert.rejects(
+        storage.transaction((session) => session.transactions.recordJournalEntry(uuidv4(), "unbalanced", [
+          { account_id: source.id, amount: amount("1.00") },
+          { system_account: "CASH_IN", amount: amount("-0.99") },
+        ])),
+        { message: "Ledger postings do not balance" }
+      );
+      assert.equal((await balanceOf(source.id)).toString(), "50.03");
+    });
+
+    check("keeps a journal the balances reconcile with", async () => {
+      const userId = await createUser();
+      const source = await openAccount(userId);
+      const destination = await openAccount(userId);
+      await move({ type: "deposit", amount: amount("40.00"), destination_account_id: source.id });
+      await move({ type: "transfer", amount: amount("15.50"), source_account_id: source.id, destination_account_id: destination.id });
+      await move({ type: "withdrawal", amount: amount("4.50"), source_account_id: source.id });
+
+      const report = await LedgerService.getReconciliation();
+      const rows = report.accounts.filter((row) => row.account_id === source.id || row.account_id === destination.id);
+      assert.deepEqual(format(rows.map((row) => row.ledger_balance)), ["20.00", "15.50"]);
+      assert.deepEqual(format(rows.map((row) => row.difference)), ["0.00", "0.00"]);
+      assert.deepEqual(report.unbalanced_entries, []);
+    });
+
+    check("rolls back every write of a failed database transaction", async () => {
+      const userId = await createUser();
+      const account = await openAccount(userId);
+      await move({ type: "deposit", amount: amount("10.00"), destination_account_id: account.id });
+      const transactionId = uuidv4();
+
+      await assert.rejects(
+        storage.transaction(async (session) => {
+          await session.transactions.insert({ transaction_id: transactionId, type: "deposit", amount: amount("5.00"), destination_account_id: account.id, status: "completed" });
+          await session.transactions.recordJournalEntry(transactionId, `deposit ${transactionId}`, [
+            { account_id: account.id, amount: amount("5.00") },
+            { system_account: "CASH_IN", amount: amount("-5.00") },
+          ]);
+          await session.accounts.update(account.id, { status: "frozen", frozen_by: userId });
+          await session.users.update(userId, { role: "admin" });
+          throw new Error("Abort");
+        }),
+        { message: "Abort" }
+      );
+
+      assert.equal(await storage.repositories().transactions.findByTransactionId(transactionId), null);
+      assert.equal((await balanceOf(account.id)).toString(), "10.00");
+      assert.equal((await storage.repositories().accounts.findById(account.id))?.status, "active");
+      assert.equal((await storage.repositories().users.findById(userId))?.role, "customer");
+    });
+
+    check("pages account history with running balances", async () => {
+      const userId = await createUser();
+      const account = await openAccount(userId);
+      const other = await openAccount(userId);
+      await move({ type: "deposit", amount: amount("10.00"), destination_account_id: account.id });
+      await move({ type: "deposit", amount: amount("5.00"), destination_account_id: account.id });
+      await record({ type: "withdrawal", amount: amount("99.00"), source_account_id: account.id, status: "failed", failure_reason: "Insufficient funds" });
+      await move({ type: "transfer", amount: amount("3.00"), source_account_id: account.id, destination_account_id: other.id });
+
+      const transactions = storage.repositories().transactions;
+      const first = await transactions.listForAccount(account.id, { limit: 3 });
+      const second = await transactions.listForAccount(account.id, { limit: 3, before_id: first[first.length - 1].id });
+      const history = [...first, ...second];
+
+      assert.deepEqual(history.map((row) => row.type), ["transfer", "withdrawal", "deposit", "deposit"]);
+      assert.deepEqual(format(history.map((row) => row.signed_amount)), ["-3.00", "0.00", "5.00", "10.00"]);
+      assert.deepEqual(format(history.map((row) => row.running_balance)), ["12.00", "15.00", "15.00", "10.00"]);
+      assert.deepEqual(history.map((row) => row.direction), ["out", "out", "in", "in"]);
+
+      const failed = await transactions.listForAccount(account.id, { limit: 10, status: "failed" });
+      assert.deepEqual(format(failed.map((row) => row.running_balance)), ["15.00"]);
+      const incoming = await transactions.listForAccount(account.id, { limit: 10, direction: "in", min_amount: amount("6.00") });
+      assert.deepEqual(format(incoming.map((row) => row.amount)), ["10.00"]);
+      const received = await transactions.listForAccount(other.id, { limit: 10 });
+      assert.deepEqual(format(received.map((row) => row.running_balance)), ["3.00"]);
+    });
+
+    check("keeps the running balances of older rows when a held transaction settles", async () => {
+      const userId = await createUser();
+      const account = await openAccount(userId);
+      await move({ type: "deposit", amount: amount("10.00"), destination_account_id: account.id });
+
+      // Held for review, then a deposit that completes before the review approves the first one
+      const held = await record({ type: "deposit", amount: amount("7.00"), destination_account_id: account.id, status: "pending_review" });
+      await move({ type: "deposit", amount: amount("2.00"), destination_account_id: account.id });
+      const transactions = storage.repositories().transactions;
+      const before = await transactions.listForAccount(account.id, { limit: 10 });
+
+      await storage.transaction(async (session) => {
+        await session.transactions.update(held, { status: "completed" });
+        await session.transactions.recordJournalEntry(held, `deposit ${held}`, [
+          { account_id: account.id, amount: amount("7.00") },
+          { system_account: "CASH_IN", amount: amount("-7.00") },
+        ]);
+      });
+      const settled = await transactions.listForAccount(account.id, { limit: 10 });
+
+      assert.deepEqual(format(before.map((row) => row.running_balance)), ["12.00", "10.00", "10.00"]);
+      assert.deepEqual(format(settled.map((row) => row.running_balance)), ["12.00", "19.00", "10.00"]);
+      assert.equal((await balanceOf(account.id)).toString(), "19.00");
+    });
+
+    check("summarizes balances and failures", async () => {
+      const userId = await createUser();
+      const account = await openAccount(userId);
+      await move({ type: "deposit", amount: amount("8.00"), destination_account_id: account.id });
+      await record({ type: "withdrawal", amount: amount("9.00"), source_account_id: account.id, status: "failed", failure_reason: "Insufficient funds" });
+
+      const transactions = storage.repositories().transactions;
+      const summary = (await transactions.summarizeAccounts()).find((row) => row.account_id === account.id);
+      assert.equal(summary?.current_balance.toString(), "8.00");
+      assert.equal(summary?.largest_transaction.toString(), "8.00");
+      const failures = await transactions.summarizeFailures();
+      assert.ok(Number(failures.find((row) => row.reason === "Insufficient funds")?.count ?? 0) >= 1);
+    });
+
+    check("runs the services with their audit log and limits", async () => {
+      const userId = await createUser();
+
+      const account = await AccountService.open(userId);
+      await TransactionService.submitTransaction({ type: "deposit", amount: amount("5.00"), destination_account_id: account.id });
+      assert.equal((await balanceOf(account.id)).toString(), "5.00");
+
+      await UserService.setRole(userId, "support");
+      assert.equal((await storage.repositories().users.findById(userId))?.role, "support");
+
+      const audit = await AuditService.list({ resource_type: "user", resource_id: String(userId), limit: 10 });
+      assert.deepEqual(audit.entries.map((entry) => entry.action), ["user.role_changed"]);
+    });
+  });
+}
@@ -0,0 +1,90 @@
+/**
+ * Shared test setup - import first, before anything from src/
+ * Tests that need MySQL run against DB_TEST_NAME (banking_db_test by default), migrated with
+ * DB_NAME=banking_db_test npm run migrate, and are skipped when no server answers. They delete
+ * their fixtures afterwards with removeMySqlFixtures
+ */
+
+import { config } from "dotenv";
+
+// Load environment variables
+config();
+process.env.DB_NAME = process.env.DB_TEST_NAME || "banking_db_test";
+
+import { RowDataPacket } from "mysql2";
+import { db } from "../src/utils/database";
+import { StorageBackend } from "../src/config/storage";
+
+/**
+ * Connect the shared MySQL pool
+ * @returns Why MySQL tests cannot run, or undefined once connected
+ */
+export async function connectMySql(): Promise<string | undefined> {
+  const log = console.error;
+  try {
+    // db.initialize logs the whole connection error; the skip reason says enough
+    console.error = () => undefined;
+    await db.initialize();
+    return undefined;
+  } catch (error) {
+    await db.close().catch(() => undefined);
+    return `MySQL is not reachable: ${(error as Error).message || (error as { code?: string }).code}`;
+  } finally {
+    console.error = log;
+  }
+}
+
+/**
+ * @returns Why a backend cannot run on this Node.js version, or undefined
+ */
+export function unsupportedBackend(backend: StorageBackend): string | undefined {
+  const [major, minor] = process.versions.node.split(".").map(Number);
+  if (backend === "sqlite" && (major < 22 || (major === 22 && minor < 5))) {
+    return `node:sqlite needs Node.js 22.5 or later (running ${process.version})`;
+  }
+  return undefined;
+}
+
+/**
+ * Delete the MySQL fixture users whose username starts with prefix, with their accounts and
+ * everything recorded against them. Audit entries stay, since the table is append-only, and the
+ * hash chain is reset to its genesis once no transactions are left
+ * @param prefix - The username prefix the suite gives its users
+ */
+export async function removeMySqlFixtures(prefix: string): Promise<void> {
+  await db.transaction(async (connection) => {
+    const ids = async (sql: string, values: unknown[]): Promise<unknown[]> => {
+      const [rows] = await connection.query<RowDataPacket[]>(sql, values);
+      return rows.map((row) => Object.values(row)[0]);
+    };
+    const remove = async (sql: string, values: unknown[][]): Promise<void> => {
+      if (values.every((list) => list.length > 0)) {
+        await connection.query(sql, values);
+      }
+    };
+
+    const users = await ids("SELECT id FROM users WHERE username LIKE ?", [`${prefix}%`]);
+    const accounts = users.length ? await ids("SELECT id FROM accounts WHERE user_id IN (?)", [users]) : [];
+    const transactions = accounts.length
+      ? await ids("SELECT transaction_id FROM transactions WHERE source_account_id IN (?) OR destination_account_id IN (?)", [accounts, accounts])
+      : [];
+
+    await remove("DELETE FROM ledger_postings WHERE journal_entry_id IN (SELECT id FROM journal_entries WHERE transaction_id IN (?))", [transactions]);
+    await remove("DELETE FROM journal_entries WHERE transaction_id IN (?)", [transactions]);
+    await remove("DELETE FROM fraud_reviews WHERE transaction_id IN (?)", [transactions]);
+    await remove("DELETE FROM holds WHERE account_id IN (?) OR destination_account_id IN (?)", [accounts, accounts]);
+    await remove("DELETE FROM outbox_events WHERE account_id IN (?)", [accounts]);
+    await remove("DELETE FROM schedules WHERE user_id IN (?)", [users]);
+    await remove("DELETE FROM payment_batches WHERE user_id IN (?)", [users]);
+    await remove("DELETE FROM webhook_endpoints WHERE user_id IN (?)", [users]);
+    await remove("DELETE FROM transactions WHERE transaction_id IN (?) AND original_transaction_id IS NOT NULL", [transactions]);
+    await remove("DELETE FROM transactions WHERE transaction_id IN (?)", [transactions]);
+    await remove("DELETE FROM accounts WHERE id IN (?)", [accounts]);
+    await remove("DELETE FROM users WHERE id IN (?)", [users]);
+
+    const [[{ remaining }]] = await connection.query<RowDataPacket[]>("SELECT COUNT(*) AS remaining FROM transactions");
+    if (Number(remaining) === 0) {
+      await connection.query("UPDATE transaction_chain_state SET last_sequence = 0, last_hash = REPEAT('0', 64)");
+    }
+  });
+}
@@ -0,0 +1,234 @@
+/**
+ * UserService, AccountService and TransactionService against every storage backend, with every
+ * control enabled except fraud rules, which would hold some of the fixture transfers for review.
+ * Backends that cannot run here are skipped; the MySQL fixtures are deleted afterwards
+ */
+
+import { connectMySql, removeMySqlFixtures, unsupportedBackend } from "./support";
+
+import { after, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { v4 as uuidv4 } from "uuid";
+import { db } from "../src/utils/database";
+import { Money } from "../src/utils/money";
+import { storage } from "../src/repository";
+import { StorageBackend } from "../src/config/storage";
+import { AccountService } from "../src/service/accountService";
+import { TransactionService } from "../src/service/transactionService";
+import { UserService } from "../src/service/userService";
+import { FraudService } from "../src/service/fraudService";
+import { Account } from "../src/model/account";
+import { CreateTransactionData, Transaction } from "../src/model/transaction";
+
+const BACKENDS: StorageBackend[] = ["mysql", "sqlite", "memory"];
+
+const amount = (value: string) => Money.fromDecimal(value);
+
+async function createCustomer(): Promise<number> {
+  const user = await storage.transaction((session) =>
+    session.users.create({ username: `service_${uuidv4().slice(0, 8)}` })
+  );
+  return user.id;
+}
+
+async function openAccount(userId: number, deposit?: string): Promise<Account> {
+  const account = await AccountService.open(userId);
+  if (deposit) {
+    await submit({ type: "deposit", amount: amount(deposit), destination_account_id: account.id });
+  }
+  return account;
+}
+
+async function submit(data: CreateTransactionData): Promise<Transaction> {
+  return TransactionService.submitTransaction(data);
+}
+
+async function balanceOf(accountId: number): Promise<string> {
+  return (await TransactionService.getAccountBalance(accountId)).balance.toString();
+}
+
+for (const backend of BACKENDS) {
+  describe(`transaction services on ${backend}`, () => {
+    let skipReason = unsupportedBackend(backend);
+
+    before(async () => {
+      if (!skipReason && backend === "mysql") {
+        skipReason = await connectMySql();
+      }
+      if (!skipReason) {
+        await storage.initialize(backend);
+        FraudService.setRules([]);
+      }
+    });
+
+    after(async () => {
+      if (!skipReason) {
+        await storage.close();
+        if (backend === "mysql") {
+          await removeMySqlFixtures("service_");
+          await db.close();
+        }
+      }
+    });
+
+    const check = (name: string, run: () => Promise<void>) =>
+      it(name, async (t) => {
+        if (skipReason) {
+          t.skip(skipReason);
+          return;
+        }
+        await run();
+      });
+
+    check("records insufficient funds as failed without moving money", async () => {
+      const userId = await createCustomer();
+      const source = await openAccount(userId, "40.00");
+      const destination = await openAccount(userId);
+
+      const withdrawal = await submit({ type: "withdrawal", amount: amount("40.01"), source_account_id: source.id });
+      const transfer = await submit({ type: "transfer", amount: amount("50.00"), source_account_id: source.id, destination_account_id: destination.id });
+
+      for (const transaction of [withdrawal, transfer]) {
+        assert.equal(transaction.status, "failed");
+        assert.equal(transaction.failure_reason, "Insufficient funds");
+      }
+      assert.equal(await balanceOf(source.id), "40.00");
+      assert.equal(await balanceOf(destination.id), "0.00");
+    });
+
+    check("never overdraws under concurrent debits", async () => {
+      const userId = await createCustomer();
+      const source = await openAccount(userId, "50.00");
+      const destination = await openAccount(userId);
+
+      const results = await Promise.all(
+        Array.from({ length: 8 }, (_, index) =>
+          submit(index % 2 === 0
+            ? { type: "withdrawal", amount: amount("10.00"), source_account_id: source.id }
+            : { type: "transfer", amount: amount("10.00"), source_account_id: source.id, destination_account_id: destination.id })
+        )
+      );
+
+      assert.equal(results.filter((result) => result.status === "completed").length, 5);
+      assert.equal(results.filter((result) => result.failure_reason === "Insufficient funds").length, 3);
+      assert.equal(await balanceOf(source.id), "0.00");
+    });
+
+    check("reverses in part and in full", async () => {
+      const userId = await createCustomer();
+      const source = await openAccount(userId, "30.00");
+      const destination = await openAccount(userId);
+      const transfer = await submit({ type: "transfer", amount: amount("20.00"), source_account_id: source.id, destination_account_id: destination.id });
+
+      const partial = await TransactionService.reverseTransaction(transfer.transaction_id, { amount: amount("5.00") });
+      assert.equal(partial.reversal.status, "completed");
+      assert.equal(partial.reversal.original_transaction_id, transfer.transaction_id);
+      assert.equal(partial.original.status, "partially_reversed");
+      assert.equal(partial.original.reversed_amount.toString(), "5.00");
+
+      const rest = await TransactionService.reverseTransaction(transfer.transaction_id, {});
+      assert.equal(rest.reversal.amount.toString(), "15.00");
+      assert.equal(rest.original.status, "reversed");
+      assert.equal(await balanceOf(source.id), "30.00");
+      assert.equal(await balanceOf(destination.id), "0.00");
+
+      await assert.rejects(TransactionService.reverseTransaction(transfer.transaction_id, {}), { message: "Transaction is already fully reversed" });
+      await assert.rejects(TransactionService.reverseTransaction(rest.reversal.transaction_id, {}), { message: "Reversal transactions cannot be reversed" });
+    });
+
+    check("credits reversed withdrawals back from cash", async () => {
+      const userId = await createCustomer();
+      const account = await openAccount(userId, "30.00");
+      const withdrawal = await submit({ type: "withdrawal", amount: amount("12.00"), source_account_id: account.id });
+
+      const result = await TransactionService.reverseTransaction(withdrawal.transaction_id, { amount: amount("2.00") });
+      assert.equal(result.reversal.status, "completed");
+      assert.equal(result.reversal.destination_account_id, account.id);
+      assert.equal(result.original.status, "partially_reversed");
+      assert.equal(await balanceOf(account.id), "20.00");
+    });
+
+    check("fails reversals the debited account can no longer pay", async () => {
+      const userId = await createCustomer();
+      const source = await openAccount(userId, "25.00");
+      const destination = await openAccount(userId);
+      const transfer = await submit({ type: "transfer", amount: amount("25.00"), source_account_id: source.id, destination_account_id: destination.id });
+      await submit({ type: "withdrawal", amount: amount("10.00"), source_account_id: destination.id });
+
+      const result = await TransactionService.reverseTransaction(transfer.transaction_id, {});
+      assert.equal(result.reversal.status, "failed");
+      assert.equal(result.reversal.failure_reason, "Insufficient funds");
+      assert.equal(result.original.status, "completed");
+      assert.equal(await balanceOf(destination.id), "15.00");
+    });
+
+    check("blocks frozen and closed accounts", async () => {
+      const userId = await createCustomer();
+      const account = await openAccount(userId, "12.00");
+
+      assert.equal((await AccountService.freeze(account.id, userId)).status, "frozen");
+      const deposit = await submit({ type: "deposit", amount: amount("1.00"), destination_account_id: account.id });
+      assert.equal(deposit.failure_reason, "Destination account is frozen");
+      await assert.rejects(AccountService.freeze(account.id, userId), { message: "Account is frozen" });
+
+      assert.equal((await AccountService.unfreeze(account.id, false)).status, "active");
+      await assert.rejects(AccountService.close(account.id), { message: "Account balance must be zero to close" });
+
+      await submit({ type: "withdrawal", amount: amount("12.00"), source_account_id: account.id });
+      const closed = await AccountService.close(account.id);
+      assert.equal(closed.status, "closed");
+      assert.notEqual(closed.closed_at, null);
+
+      const withdrawal = await submit({ type: "withdrawal", amount: amount("1.00"), source_account_id: account.id });
+      assert.equal(withdrawal.failure_reason, "Source account is closed");
+      await assert.rejects(AccountService.close(account.id), { message: "Account is closed" });
+    });
+
+    check("pages account history through opaque cursors", async () => {
+      const userId = await createCustomer();
+      const account = await openAccount(userId, "10.00");
+      await submit({ type: "deposit", amount: amount("5.00"), destination_account_id: account.id });
+      await submit({ type: "withdrawal", amount: amount("99.00"), source_account_id: account.id });
+
+      const first = await TransactionService.getAccountTransactions(account.id, { limit: 2 });
+      assert.notEqual(first.next_cursor, null);
+      const second = await TransactionService.getAccountTransactions(account.id, { limit: 2, cursor: first.next_cursor! });
+      assert.equal(second.next_cursor, null);
+      assert.deepEqual([...first.transactions, ...second.transactions].map((row) => row.running_balance.toString()), ["15.00", "15.00", "10.00"]);
+      await assert.rejects(TransactionService.getAccountTransactions(account.id, { limit: 10, cursor: "bm9wZQ" }), { message: "Invalid cursor" });
+    });
+
+    check("applies batches all or nothing", async () => {
+      const userId = await createCustomer();
+      const source = await openAccount(userId, "20.00");
+      const destination = await openAccount(userId);
+      const leg = (value: string): CreateTransactionData => ({
+        type: "transfer",
+        amount: amount(value),
+        source_account_id: source.id,
+        destination_account_id: destination.id,
+      });
+
+      const failed = await TransactionService.submitBatch([leg("5.00"), leg("50.00")]);
+      assert.equal(failed.status, "failed");
+      assert.deepEqual(failed.legs.map((transaction) => transaction.failure_reason), ["Batch rolled back", "Insufficient funds"]);
+      assert.equal(await balanceOf(source.id), "20.00");
+
+      const completed = await TransactionService.submitBatch([leg("5.00"), leg("15.00")]);
+      assert.equal(completed.status, "completed");
+      assert.equal(await balanceOf(destination.id), "20.00");
+      assert.equal((await TransactionService.findByBatchId(completed.batch_id))?.legs.length, 2);
+    });
+
+    check("changes roles and KYC tiers", async () => {
+      const userId = await createCustomer();
+
+      assert.equal((await UserService.setRole(userId, "support")).role, "support");
+      assert.equal((await UserService.setKycTier(userId, "verified")).kyc_tier, "verified");
+      await assert.rejects(UserService.setKycTier(userId, "platinum"), { message: "KYC tier does not exist" });
+      assert.equal((await UserService.findById(userId))?.kyc_tier, "verified");
+      await assert.rejects(UserService.setRole(-1, "admin"), { message: "User does not exist" });
+      await assert.rejects(AccountService.open(-1), { message: "User does not exist" });
+    });
+  });
+}
@@ -0,0 +1,208 @@
+/**
+ * Webhook delivery on the memory backend, to a receiver on localhost (allowed through
+ * webhookConfig.allowPrivateNetworks), and the address checks that keep webhooks off private networks
+ */
+
+import "./support";
+
+import { after, before, beforeEach, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { randomBytes } from "node:crypto";
+import http from "node:http";
+import { AddressInfo } from "node:net";
+import { v4 as uuidv4 } from "uuid";
+import { Money } from "../src/utils/money";
+import { storage } from "../src/repository";
+import { signingConfig } from "../src/config/signing";
+import { webhookConfig } from "../src/config/webhooks";
+import { AccountService } from "../src/service/accountService";
+import { FraudService } from "../src/service/fraudService";
+import { OutboxService } from "../src/service/outboxService";
+import { TransactionService } from "../src/service/transactionService";
+import { WebhookService } from "../src/service/webhookService";
+import { verifyWebhookSignature } from "../src/utils/webhookSignature";
+import { isPublicAddress } from "../src/utils/webhookTarget";
+import { IssuedWebhookEndpoint, WebhookDelivery } from "../src/model/webhook";
+
+interface Received {
+  headers: http.IncomingHttpHeaders;
+  body: string;
+}
+
+describe("webhook delivery", () => {
+  const saved = { ...webhookConfig };
+  const encryptionKey = signingConfig.encryptionKey;
+  const received: Received[] = [];
+  let status = 200;
+  let receiver: http.Server;
+  let endpoint: IssuedWebhookEndpoint;
+
+  before(async () => {
+    signingConfig.encryptionKey = randomBytes(32);
+    await storage.initialize("memory");
+    FraudService.setRules([]);
+
+    receiver = http.createServer((req, res) => {
+      const chunks: Buffer[] = [];
+      req.on("data", (chunk: Buffer) => chunks.push(chunk));
+      req.on("end", () => {
+        received.push({ headers: req.headers, body: Buffer.concat(chunks).toString() });
+        res.writeHead(status).end();
+      });
+    });
+    await new Promise<void>((resolve) => receiver.listen(0, "127.0.0.1", resolve));
+  });
+
+  after(async () => {
+    await new Promise((resolve) => receiver.close(resolve));
+    await storage.close();
+    Object.assign(webhookConfig, saved);
+    signingConfig.encryptionKey = encryptionKey;
+  });
+
+  beforeEach(async () => {
+    Object.assign(webhookConfig, saved, { allowPrivateNetworks: true, baseDelaySeconds: 30, maxDelaySeconds: 3600, maxAttempts: 3 });
+    received.length = 0;
+    status = 200;
+
+    const user = await storage.transaction((session) =>
+      session.users.create({ username: `webhooks_${uuidv4().slice(0, 8)}` })
+    );
+    endpoint = await WebhookService.register({
+      user_id: user.id,
+      url: `http://127.0.0.1:${(receiver.address() as AddressInfo).port}/hooks`,
+      events: ["transaction.completed"],
+    });
+    const account = await AccountService.open(user.id);
+    await TransactionService.submitTransaction({ type: "deposit", amount: Money.fromDecimal("5.00"), destination_account_id: account.id });
+    await OutboxService.relay(100);
+  });
+
+  async function claim(): Promise<WebhookDelivery> {
+    const [delivery, ...others] = await WebhookService.claimDue("test-worker", 10);
+    assert.equal(others.length, 0);
+    assert.equal(delivery.endpoint_id, endpoint.endpoint_id);
+    return delivery;
+  }
+
+  async function reload(delivery: WebhookDelivery): Promise<WebhookDelivery> {
+    return (await WebhookService.findDelivery(delivery.endpoint_id, delivery.delivery_id))!;
+  }
+
+  it("posts the signed event and marks a 2xx as delivered", async () => {
+    const delivery = await claim();
+
+    const attempt = await WebhookService.attempt(delivery);
+
+    assert.equal(attempt.succeeded, true);
+    assert.equal(attempt.response_status, 200);
+    assert.equal(received.length, 1);
+    const [{ headers, body }] = received;
+    assert.equal(headers["x-webhook-id"], delivery.delivery_id);
+    assert.equal(headers["x-webhook-event"], "transaction.completed");
+    assert.equal(headers["content-type"], "application/json");
+    assert.ok(verifyWebhookSignature(endpoint.secret, body, headers["x-webhook-signature"] as string));
+    assert.ok(!verifyWebhookSignature(endpoint.secret, `${body} `, headers["x-webhook-signature"] as string));
+    assert.equal(JSON.parse(body).id, delivery.event_id);
+
+    const stored = await reload(delivery);
+    assert.equal(stored.status, "delivered");
+    assert.equal(stored.attempt_count, 1);
+    assert.notEqual(stored.delivered_at, null);
+  });
+
+  it("retries a non-2xx with exponential backoff until the attempts run out", async () => {
+    status = 503;
+    let delivery = await claim();
+
+    for (const [attempts, delaySeconds] of [[1, 30], [2, 60]]) {
+      const startedAt = Date.now();
+      const attempt = await WebhookService.attempt(delivery);
+      assert.equal(attempt.succeeded, false);
+      assert.equal(attempt.response_status, 503);
+
+      delivery = await reload(delivery);
+      assert.equal(delivery.status, "pending");
+      assert.equal(delivery.attempt_count, attempts);
+      const waited = delivery.next_attempt_at!.getTime() - startedAt;
+      assert.ok(waited >= (delaySeconds - 1) * 1000 && waited <= (delaySeconds + 1) * 1000, `waits ${waited}ms`);
+    }
+
+    // Not due until the backoff has passed
+    assert.deepEqual(await WebhookService.claimDue("test-worker", 10), []);
+
+    await WebhookService.attempt(delivery);
+    delivery = await reload(delivery);
+    assert.equal(delivery.status, "failed");
+    assert.equal(delivery.attempt_count, 3);
+    assert.equal(received.length, 3);
+  });
+
+  it("caps the backoff at maxDelaySeconds", async () => {
+    Object.assign(webhookConfig, { baseDelaySeconds: 600, maxDelaySeconds: 900 });
+    status = 500;
+    let delivery = await claim();
+
+    await WebhookService.attempt(delivery);
+    delivery = await reload(delivery);
+    await WebhookService.attempt(delivery);
+    delivery = await reload(delivery);
+
+    const waited = delivery.next_attempt_at!.getTime() - delivery.last_attempt_at!.getTime();
+    assert.ok(waited >= 899 * 1000 && waited <= 901 * 1000, `waits ${waited}ms`);
+  });
+
+  it("refuses the loopback receiver once private networks are not allowed", async () => {
+    const delivery = await claim();
+    webhookConfig.allowPrivateNetworks = false;
+
+    const attempt = await WebhookService.attempt(delivery);
+
+    assert.equal(attempt.succeeded, false);
+    assert.equal(attempt.response_status, null);
+    assert.equal(attempt.error, "Webhook URL must resolve to public addresses only");
+    assert.equal(received.length, 0);
+    assert.equal((await reload(delivery)).status, "pending");
+  });
+});
+
+describe("webhook target addresses", () => {
+  const blocked = [
+    ["127.0.0.1", "loopback"],
+    ["127.255.255.254", "loopback"],
+    ["169.254.169.254", "cloud metadata"],
+    ["169.254.0.1", "link-local"],
+    ["10.0.0.1", "private"],
+    ["172.16.5.4", "private"],
+    ["192.168.1.1", "private"],
+    ["100.64.0.1", "carrier-grade NAT"],
+    ["0.0.0.0", "this network"],
+    ["224.0.0.1", "multicast"],
+    ["255.255.255.255", "broadcast"],
+    ["::1", "IPv6 loopback"],
+    ["::", "unspecified"],
+    ["::ffff:127.0.0.1", "IPv4-mapped loopback"],
+    ["::ffff:169.254.169.254", "IPv4-mapped metadata"],
+    ["::ffff:8.8.8.8", "IPv4-mapped"],
+    ["fc00::1", "unique local"],
+    ["fd12:3456:789a::1", "unique local"],
+    ["fe80::1", "IPv6 link-local"],
+    ["ff02::1", "IPv6 multicast"],
+    ["64:ff9b::7f00:1", "NAT64"],
+    ["localhost", "not an IP address"],
+    ["", "empty"],
+  ];
+  const allowed = ["8.8.8.8", "1.1.1.1", "93.184.216.34", "172.32.0.1", "169.255.0.1", "2001:4860:4860::8888", "2606:4700::1111"];
+
+  for (const [address, reason] of blocked) {
+    it(`blocks ${address || "''"} (${reason})`, () => {
+      assert.equal(isPublicAddress(address), false);
+    });
+  }
+
+  it("allows public addresses", () => {
+    for (const address of allowed) {
+      assert.equal(isPublicAddress(address), true, address);
+    }
+  });
+});